@@ -0,0 +1,4 @@
+ALTER TABLE "invitation_tokens" ADD COLUMN "revoked_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "invitation_tokens" ADD COLUMN "revoked_by_id" uuid;--> statement-breakpoint
+ALTER TABLE "invitation_tokens" ADD CONSTRAINT "invitation_tokens_revoked_by_id_users_id_fk" FOREIGN KEY ("revoked_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invitation_contract_idx" ON "invitation_tokens" USING btree ("contract_id");
\ No newline at end of file
@@ -0,0 +1,222 @@
+-- Row-Level Security (RLS) for TenantBridge multi-tenancy.
+-- Policies apply to the tenantbridge_app role, which request-scoped transactions
+-- switch to with SET LOCAL ROLE (see withRequestDb). The connection owner keeps
+-- bypassing RLS for migrations, seeding and sign-in.
+-- Every table with an organization_id column needs RLS enabled and a policy here
+-- or in a later migration; `npm run db:check-rls` enforces this.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'tenantbridge_app') THEN
+        CREATE ROLE tenantbridge_app NOLOGIN;
+    END IF;
+END
+$$;
+--> statement-breakpoint
+GRANT tenantbridge_app TO CURRENT_USER;
+--> statement-breakpoint
+GRANT USAGE ON SCHEMA public TO tenantbridge_app;
+--> statement-breakpoint
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO tenantbridge_app;
+--> statement-breakpoint
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO tenantbridge_app;
+--> statement-breakpoint
+
+-- Context accessors. Settings are transaction-local; an unset or cleared setting
+-- reads as an empty string, which must not be cast to UUID.
+CREATE OR REPLACE FUNCTION current_organization_id()
+RETURNS UUID AS $$
+BEGIN
+    RETURN COALESCE(
+        NULLIF(current_setting('app.current_organization_id', true), '')::UUID,
+        '00000000-0000-0000-0000-000000000000'::UUID
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION current_user_id()
+RETURNS UUID AS $$
+BEGIN
+    RETURN COALESCE(
+        NULLIF(current_setting('app.current_user_id', true), '')::UUID,
+        '00000000-0000-0000-0000-000000000000'::UUID
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+BEGIN
+    RETURN NULLIF(current_setting('app.current_user_role', true), '');
+END;
+$$ LANGUAGE plpgsql STABLE;
+--> statement-breakpoint
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE buildings ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE contracts ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE tenant_contracts ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE tickets ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE consumption_records ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE invitation_tokens ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+--> statement-breakpoint
+
+-- Organizations: Users can only see their own organization
+DROP POLICY IF EXISTS "organization_isolation" ON organizations;
+--> statement-breakpoint
+CREATE POLICY "organization_isolation" ON organizations
+    FOR ALL TO public
+    USING (id = current_organization_id());
+--> statement-breakpoint
+
+-- Users: Users can only see users from their organization
+DROP POLICY IF EXISTS "users_isolation" ON users;
+--> statement-breakpoint
+CREATE POLICY "users_isolation" ON users
+    FOR ALL TO public
+    USING (organization_id = current_organization_id());
+--> statement-breakpoint
+
+-- Buildings: Users can only see buildings from their organization
+DROP POLICY IF EXISTS "buildings_isolation" ON buildings;
+--> statement-breakpoint
+CREATE POLICY "buildings_isolation" ON buildings
+    FOR ALL TO public
+    USING (organization_id = current_organization_id());
+--> statement-breakpoint
+
+-- Contracts: Tenants can only see contracts they are associated with
+DROP POLICY IF EXISTS "contracts_isolation" ON contracts;
+--> statement-breakpoint
+CREATE POLICY "contracts_isolation" ON contracts
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND (
+            current_user_role() = 'landlord_admin' OR
+            id IN (
+                SELECT contract_id FROM tenant_contracts
+                WHERE tenant_id = current_user_id()
+            )
+        )
+    );
+--> statement-breakpoint
+
+-- Tenant Contracts: Tenants can only see their own tenant contracts
+DROP POLICY IF EXISTS "tenant_contracts_isolation" ON tenant_contracts;
+--> statement-breakpoint
+CREATE POLICY "tenant_contracts_isolation" ON tenant_contracts
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND (
+            current_user_role() = 'landlord_admin' OR
+            tenant_id = current_user_id()
+        )
+    );
+--> statement-breakpoint
+
+-- Tickets: Tenants can only see tickets they created or that relate to their contracts
+DROP POLICY IF EXISTS "tickets_isolation" ON tickets;
+--> statement-breakpoint
+CREATE POLICY "tickets_isolation" ON tickets
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND (
+            current_user_role() = 'landlord_admin' OR
+            created_by_id = current_user_id() OR
+            contract_id IN (
+                SELECT contract_id FROM tenant_contracts
+                WHERE tenant_id = current_user_id()
+            )
+        )
+    );
+--> statement-breakpoint
+
+-- Consumption Records: Tenants can only see records for their contracts
+DROP POLICY IF EXISTS "consumption_isolation" ON consumption_records;
+--> statement-breakpoint
+CREATE POLICY "consumption_isolation" ON consumption_records
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND (
+            current_user_role() = 'landlord_admin' OR
+            contract_id IN (
+                SELECT contract_id FROM tenant_contracts
+                WHERE tenant_id = current_user_id()
+            )
+        )
+    );
+--> statement-breakpoint
+
+-- Documents: Tenants can only see public documents or documents related to their contracts/tickets
+DROP POLICY IF EXISTS "documents_isolation" ON documents;
+--> statement-breakpoint
+CREATE POLICY "documents_isolation" ON documents
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND (
+            current_user_role() = 'landlord_admin' OR
+            is_public = true OR
+            uploaded_by_id = current_user_id() OR
+            contract_id IN (
+                SELECT contract_id FROM tenant_contracts
+                WHERE tenant_id = current_user_id()
+            ) OR
+            ticket_id IN (
+                SELECT id FROM tickets
+                WHERE created_by_id = current_user_id()
+            )
+        )
+    );
+--> statement-breakpoint
+
+-- Invitation Tokens: Only landlord admins can manage invitations
+DROP POLICY IF EXISTS "invitations_admin_only" ON invitation_tokens;
+--> statement-breakpoint
+CREATE POLICY "invitations_admin_only" ON invitation_tokens
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );
+--> statement-breakpoint
+
+-- Email Outbox: Queued mail holds password reset and invitation links, so only landlord
+-- admins may read or change it; every request may queue mail for its own organization
+DROP POLICY IF EXISTS "email_outbox_isolation" ON email_outbox;
+--> statement-breakpoint
+DROP POLICY IF EXISTS "email_outbox_admin_only" ON email_outbox;
+--> statement-breakpoint
+CREATE POLICY "email_outbox_admin_only" ON email_outbox
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );
+--> statement-breakpoint
+DROP POLICY IF EXISTS "email_outbox_insert" ON email_outbox;
+--> statement-breakpoint
+CREATE POLICY "email_outbox_insert" ON email_outbox
+    FOR INSERT TO public
+    WITH CHECK (organization_id = current_organization_id());
+--> statement-breakpoint
+
+-- Indexes for RLS performance
+CREATE INDEX IF NOT EXISTS idx_rls_org_id ON users(organization_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_rls_tenant_contracts ON tenant_contracts(tenant_id, contract_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_rls_tickets_created_by ON tickets(created_by_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_rls_documents_public ON documents(is_public) WHERE is_public = true;
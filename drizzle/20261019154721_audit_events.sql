@@ -0,0 +1,31 @@
+CREATE TABLE "audit_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"actor_type" text NOT NULL,
+	"actor_id" uuid,
+	"api_key_id" uuid,
+	"entity_type" text NOT NULL,
+	"entity_id" uuid NOT NULL,
+	"action" text NOT NULL,
+	"changes" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_event_org_created_idx" ON "audit_events" USING btree ("organization_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_event_entity_idx" ON "audit_events" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_event_actor_idx" ON "audit_events" USING btree ("actor_id");--> statement-breakpoint
+ALTER TABLE "audit_events" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+-- Every request of the organization records its own changes, only admins read them
+CREATE POLICY "audit_events_insert" ON "audit_events"
+    FOR INSERT TO public
+    WITH CHECK (organization_id = current_organization_id());--> statement-breakpoint
+CREATE POLICY "audit_events_admin_read" ON "audit_events"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+-- The log is append-only for the application
+REVOKE UPDATE, DELETE ON "audit_events" FROM tenantbridge_app;
@@ -0,0 +1,43 @@
+CREATE TABLE "ledger_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"tenant_id" uuid,
+	"entry_type" text NOT NULL,
+	"category" text DEFAULT 'rent' NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"period" text,
+	"due_date" timestamp with time zone,
+	"booking_date" timestamp with time zone DEFAULT now() NOT NULL,
+	"payment_method" text,
+	"reference" text,
+	"description" text,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_tenant_id_users_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ledger_entry_org_idx" ON "ledger_entries" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "ledger_entry_contract_idx" ON "ledger_entries" USING btree ("contract_id","booking_date");--> statement-breakpoint
+CREATE INDEX "ledger_entry_tenant_idx" ON "ledger_entries" USING btree ("tenant_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "ledger_entry_rent_charge_idx" ON "ledger_entries" USING btree ("contract_id","period") WHERE entry_type = 'charge' AND category = 'rent';--> statement-breakpoint
+ALTER TABLE "ledger_entries" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "ledger_entries_admin_only" ON "ledger_entries"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+-- Tenants can read the ledger of their own contracts
+CREATE POLICY "ledger_entries_tenant_read" ON "ledger_entries"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        contract_id IN (
+            SELECT contract_id FROM tenant_contracts
+            WHERE tenant_id = current_user_id()
+        )
+    );
@@ -0,0 +1,66 @@
+CREATE TABLE "bank_statements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"format" text NOT NULL,
+	"file_name" text,
+	"statement_id" text,
+	"account_iban" text,
+	"currency" text,
+	"opening_balance" numeric(12, 2),
+	"closing_balance" numeric(12, 2),
+	"imported_by_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "bank_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"statement_id" uuid NOT NULL,
+	"import_hash" text NOT NULL,
+	"booking_date" timestamp with time zone NOT NULL,
+	"value_date" timestamp with time zone,
+	"credit_debit" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"currency" text DEFAULT 'EUR' NOT NULL,
+	"reference" text,
+	"counterparty_name" text,
+	"counterparty_iban" text,
+	"end_to_end_id" text,
+	"bank_reference" text,
+	"status" text DEFAULT 'unmatched' NOT NULL,
+	"contract_id" uuid,
+	"suggested_contract_id" uuid,
+	"match_score" integer,
+	"ledger_entry_id" uuid,
+	"matched_by_id" uuid,
+	"matched_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_imported_by_id_users_id_fk" FOREIGN KEY ("imported_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_transactions" ADD CONSTRAINT "bank_transactions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_transactions" ADD CONSTRAINT "bank_transactions_statement_id_bank_statements_id_fk" FOREIGN KEY ("statement_id") REFERENCES "public"."bank_statements"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_transactions" ADD CONSTRAINT "bank_transactions_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_transactions" ADD CONSTRAINT "bank_transactions_suggested_contract_id_contracts_id_fk" FOREIGN KEY ("suggested_contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_transactions" ADD CONSTRAINT "bank_transactions_ledger_entry_id_ledger_entries_id_fk" FOREIGN KEY ("ledger_entry_id") REFERENCES "public"."ledger_entries"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_transactions" ADD CONSTRAINT "bank_transactions_matched_by_id_users_id_fk" FOREIGN KEY ("matched_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bank_statement_org_idx" ON "bank_statements" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "bank_transaction_org_status_idx" ON "bank_transactions" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "bank_transaction_statement_idx" ON "bank_transactions" USING btree ("statement_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "bank_transaction_import_hash_idx" ON "bank_transactions" USING btree ("organization_id","import_hash");--> statement-breakpoint
+-- Bank statements carry account data of tenants; only admins import and reconcile them
+ALTER TABLE "bank_statements" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "bank_statements_admin_only" ON "bank_statements"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+ALTER TABLE "bank_transactions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "bank_transactions_admin_only" ON "bank_transactions"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );
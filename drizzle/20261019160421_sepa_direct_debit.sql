@@ -0,0 +1,61 @@
+CREATE TABLE "direct_debit_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"message_id" text NOT NULL,
+	"period" text NOT NULL,
+	"collection_date" timestamp with time zone NOT NULL,
+	"transaction_count" integer NOT NULL,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"items" jsonb NOT NULL,
+	"xml" text NOT NULL,
+	"created_by_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "direct_debit_batches_message_id_unique" UNIQUE("message_id")
+);
+--> statement-breakpoint
+CREATE TABLE "sepa_mandates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"mandate_reference" text NOT NULL,
+	"debtor_name" text NOT NULL,
+	"iban" text NOT NULL,
+	"bic" text,
+	"signature_date" timestamp with time zone NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"last_collected_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_by_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "sepa_creditor_id" text;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "bank_account_holder" text;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "bank_iban" text;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "bank_bic" text;--> statement-breakpoint
+ALTER TABLE "direct_debit_batches" ADD CONSTRAINT "direct_debit_batches_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "direct_debit_batches" ADD CONSTRAINT "direct_debit_batches_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sepa_mandates" ADD CONSTRAINT "sepa_mandates_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sepa_mandates" ADD CONSTRAINT "sepa_mandates_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sepa_mandates" ADD CONSTRAINT "sepa_mandates_tenant_id_users_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sepa_mandates" ADD CONSTRAINT "sepa_mandates_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "direct_debit_batch_org_period_idx" ON "direct_debit_batches" USING btree ("organization_id","period");--> statement-breakpoint
+CREATE INDEX "sepa_mandate_org_idx" ON "sepa_mandates" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "sepa_mandate_contract_idx" ON "sepa_mandates" USING btree ("contract_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "sepa_mandate_reference_idx" ON "sepa_mandates" USING btree ("organization_id","mandate_reference");--> statement-breakpoint-- Mandates hold tenants' bank accounts; only admins manage them and run collections
+ALTER TABLE "sepa_mandates" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "sepa_mandates_admin_only" ON "sepa_mandates"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+ALTER TABLE "direct_debit_batches" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "direct_debit_batches_admin_only" ON "direct_debit_batches"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );
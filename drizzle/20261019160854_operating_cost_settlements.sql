@@ -0,0 +1,107 @@
+CREATE TABLE "operating_cost_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"settlement_id" uuid NOT NULL,
+	"category" text NOT NULL,
+	"description" text,
+	"amount" numeric(12, 2) NOT NULL,
+	"allocation_key" text NOT NULL,
+	"consumption_type" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "operating_cost_settlements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"building_id" uuid NOT NULL,
+	"period_start" timestamp with time zone NOT NULL,
+	"period_end" timestamp with time zone NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"total_costs" numeric(12, 2) DEFAULT '0.00' NOT NULL,
+	"landlord_share" numeric(12, 2) DEFAULT '0.00' NOT NULL,
+	"calculated_at" timestamp with time zone,
+	"finalized_at" timestamp with time zone,
+	"created_by_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "operating_cost_statements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"settlement_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"occupied_from" timestamp with time zone NOT NULL,
+	"occupied_to" timestamp with time zone NOT NULL,
+	"lines" jsonb NOT NULL,
+	"allocated_costs" numeric(12, 2) NOT NULL,
+	"advance_payments" numeric(12, 2) NOT NULL,
+	"balance" numeric(12, 2) NOT NULL,
+	"ledger_entry_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "buildings" ADD COLUMN "total_living_area" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "operating_cost_advance" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "living_area" numeric(8, 2);--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "occupants" integer;--> statement-breakpoint
+ALTER TABLE "operating_cost_items" ADD CONSTRAINT "operating_cost_items_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "operating_cost_items" ADD CONSTRAINT "operating_cost_items_settlement_id_operating_cost_settlements_id_fk" FOREIGN KEY ("settlement_id") REFERENCES "public"."operating_cost_settlements"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "operating_cost_settlements" ADD CONSTRAINT "operating_cost_settlements_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "operating_cost_settlements" ADD CONSTRAINT "operating_cost_settlements_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "public"."buildings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "operating_cost_settlements" ADD CONSTRAINT "operating_cost_settlements_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "operating_cost_statements" ADD CONSTRAINT "operating_cost_statements_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "operating_cost_statements" ADD CONSTRAINT "operating_cost_statements_settlement_id_operating_cost_settlements_id_fk" FOREIGN KEY ("settlement_id") REFERENCES "public"."operating_cost_settlements"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "operating_cost_statements" ADD CONSTRAINT "operating_cost_statements_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "operating_cost_statements" ADD CONSTRAINT "operating_cost_statements_ledger_entry_id_ledger_entries_id_fk" FOREIGN KEY ("ledger_entry_id") REFERENCES "public"."ledger_entries"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "operating_cost_item_settlement_idx" ON "operating_cost_items" USING btree ("settlement_id");--> statement-breakpoint
+CREATE INDEX "operating_cost_settlement_org_idx" ON "operating_cost_settlements" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "operating_cost_settlement_building_period_idx" ON "operating_cost_settlements" USING btree ("building_id","period_start");--> statement-breakpoint
+CREATE INDEX "operating_cost_statement_settlement_idx" ON "operating_cost_statements" USING btree ("settlement_id");--> statement-breakpoint
+CREATE INDEX "operating_cost_statement_contract_idx" ON "operating_cost_statements" USING btree ("contract_id");--> statement-breakpoint-- Settlements are prepared by admins; tenants can read the finalized statements of their own contracts
+ALTER TABLE "operating_cost_settlements" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "operating_cost_settlements_admin_only" ON "operating_cost_settlements"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "operating_cost_settlements_tenant_read" ON "operating_cost_settlements"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        status = 'finalized' AND
+        building_id IN (
+            SELECT c.building_id FROM contracts c
+            JOIN tenant_contracts tc ON tc.contract_id = c.id
+            WHERE tc.tenant_id = current_user_id()
+        )
+    );--> statement-breakpoint
+ALTER TABLE "operating_cost_items" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "operating_cost_items_admin_only" ON "operating_cost_items"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+ALTER TABLE "operating_cost_statements" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "operating_cost_statements_admin_only" ON "operating_cost_statements"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "operating_cost_statements_tenant_read" ON "operating_cost_statements"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        contract_id IN (
+            SELECT contract_id FROM tenant_contracts
+            WHERE tenant_id = current_user_id()
+        ) AND
+        settlement_id IN (
+            SELECT id FROM operating_cost_settlements
+            WHERE status = 'finalized'
+        )
+    );
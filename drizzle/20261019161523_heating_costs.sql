@@ -0,0 +1,7 @@
+ALTER TABLE "operating_cost_settlements" ADD COLUMN "heating_consumption_share" integer DEFAULT 70 NOT NULL;--> statement-breakpoint
+ALTER TABLE "operating_cost_settlements" ADD COLUMN "co2_emissions" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "operating_cost_settlements" ADD COLUMN "co2_costs" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "operating_cost_settlements" ADD COLUMN "co2_emissions_per_area" numeric(8, 1);--> statement-breakpoint
+ALTER TABLE "operating_cost_settlements" ADD COLUMN "co2_landlord_percentage" integer;--> statement-breakpoint
+ALTER TABLE "operating_cost_statements" ADD COLUMN "co2_costs" numeric(12, 2) DEFAULT '0.00' NOT NULL;--> statement-breakpoint
+ALTER TABLE "operating_cost_statements" ADD COLUMN "co2_landlord_share" numeric(12, 2) DEFAULT '0.00' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,65 @@
+CREATE TABLE "price_index_values" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"period" text NOT NULL,
+	"value" numeric(6, 1) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "rent_adjustments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"type" text NOT NULL,
+	"status" text DEFAULT 'scheduled' NOT NULL,
+	"effective_date" timestamp with time zone NOT NULL,
+	"previous_rent" numeric(10, 2) NOT NULL,
+	"new_rent" numeric(10, 2) NOT NULL,
+	"base_index_period" text,
+	"base_index_value" numeric(6, 1),
+	"index_period" text,
+	"index_value" numeric(6, 1),
+	"reason" text,
+	"notice_date" timestamp with time zone,
+	"applied_at" timestamp with time zone,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "rent_type" text DEFAULT 'fixed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "index_base_period" text;--> statement-breakpoint
+ALTER TABLE "price_index_values" ADD CONSTRAINT "price_index_values_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rent_adjustments" ADD CONSTRAINT "rent_adjustments_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rent_adjustments" ADD CONSTRAINT "rent_adjustments_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rent_adjustments" ADD CONSTRAINT "rent_adjustments_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "price_index_org_period_idx" ON "price_index_values" USING btree ("organization_id","period");--> statement-breakpoint
+CREATE INDEX "rent_adjustment_org_idx" ON "rent_adjustments" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "rent_adjustment_contract_idx" ON "rent_adjustments" USING btree ("contract_id","effective_date");--> statement-breakpoint-- Rent adjustments and the price index are managed by admins; tenants can read the rent history of their own contracts
+ALTER TABLE "rent_adjustments" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "rent_adjustments_admin_only" ON "rent_adjustments"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "rent_adjustments_tenant_read" ON "rent_adjustments"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        contract_id IN (
+            SELECT contract_id FROM tenant_contracts
+            WHERE tenant_id = current_user_id()
+        )
+    );--> statement-breakpoint
+ALTER TABLE "price_index_values" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "price_index_values_admin_only" ON "price_index_values"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "price_index_values_org_read" ON "price_index_values"
+    FOR SELECT TO public
+    USING (organization_id = current_organization_id());
@@ -0,0 +1,116 @@
+CREATE TABLE "deposit_accounts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"agreed_amount" numeric(10, 2) NOT NULL,
+	"bank_name" text,
+	"iban" text,
+	"account_holder" text,
+	"interest_rate" numeric(5, 3) DEFAULT '0.000' NOT NULL,
+	"status" text DEFAULT 'held' NOT NULL,
+	"opened_at" timestamp with time zone NOT NULL,
+	"settled_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "deposit_settlements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"deposit_account_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"settlement_date" timestamp with time zone NOT NULL,
+	"installments" numeric(10, 2),
+	"interest" numeric(10, 2),
+	"withholdings" numeric(10, 2),
+	"offset_claims" numeric(10, 2),
+	"payout" numeric(10, 2),
+	"ledger_entry_id" uuid,
+	"finalized_at" timestamp with time zone,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "deposit_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"deposit_account_id" uuid NOT NULL,
+	"type" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"booking_date" timestamp with time zone NOT NULL,
+	"description" text,
+	"ticket_id" uuid,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "deposit_accounts" ADD CONSTRAINT "deposit_accounts_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_accounts" ADD CONSTRAINT "deposit_accounts_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_settlements" ADD CONSTRAINT "deposit_settlements_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_settlements" ADD CONSTRAINT "deposit_settlements_deposit_account_id_deposit_accounts_id_fk" FOREIGN KEY ("deposit_account_id") REFERENCES "public"."deposit_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_settlements" ADD CONSTRAINT "deposit_settlements_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_settlements" ADD CONSTRAINT "deposit_settlements_ledger_entry_id_ledger_entries_id_fk" FOREIGN KEY ("ledger_entry_id") REFERENCES "public"."ledger_entries"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_settlements" ADD CONSTRAINT "deposit_settlements_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_transactions" ADD CONSTRAINT "deposit_transactions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_transactions" ADD CONSTRAINT "deposit_transactions_deposit_account_id_deposit_accounts_id_fk" FOREIGN KEY ("deposit_account_id") REFERENCES "public"."deposit_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_transactions" ADD CONSTRAINT "deposit_transactions_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_transactions" ADD CONSTRAINT "deposit_transactions_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deposit_account_org_idx" ON "deposit_accounts" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "deposit_account_contract_idx" ON "deposit_accounts" USING btree ("contract_id");--> statement-breakpoint
+CREATE INDEX "deposit_settlement_org_idx" ON "deposit_settlements" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "deposit_settlement_account_idx" ON "deposit_settlements" USING btree ("deposit_account_id");--> statement-breakpoint
+CREATE INDEX "deposit_transaction_account_idx" ON "deposit_transactions" USING btree ("deposit_account_id","booking_date");--> statement-breakpoint-- Deposits are managed by admins; tenants can read the deposit of their own contracts and its finalized settlement
+ALTER TABLE "deposit_accounts" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "deposit_accounts_admin_only" ON "deposit_accounts"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "deposit_accounts_tenant_read" ON "deposit_accounts"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        contract_id IN (
+            SELECT contract_id FROM tenant_contracts
+            WHERE tenant_id = current_user_id()
+        )
+    );--> statement-breakpoint
+ALTER TABLE "deposit_transactions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "deposit_transactions_admin_only" ON "deposit_transactions"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "deposit_transactions_tenant_read" ON "deposit_transactions"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        deposit_account_id IN (
+            SELECT id FROM deposit_accounts
+            WHERE contract_id IN (
+                SELECT contract_id FROM tenant_contracts
+                WHERE tenant_id = current_user_id()
+            )
+        )
+    );--> statement-breakpoint
+ALTER TABLE "deposit_settlements" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "deposit_settlements_admin_only" ON "deposit_settlements"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "deposit_settlements_tenant_read" ON "deposit_settlements"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        status = 'finalized' AND
+        contract_id IN (
+            SELECT contract_id FROM tenant_contracts
+            WHERE tenant_id = current_user_id()
+        )
+    );
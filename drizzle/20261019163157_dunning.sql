@@ -0,0 +1,62 @@
+CREATE TABLE "dunning_levels" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"level" integer NOT NULL,
+	"name" text NOT NULL,
+	"grace_days" integer NOT NULL,
+	"fee" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"payment_term_days" integer DEFAULT 14 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "dunning_notices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"level" integer NOT NULL,
+	"level_name" text NOT NULL,
+	"notice_date" timestamp with time zone NOT NULL,
+	"payment_due_date" timestamp with time zone NOT NULL,
+	"lines" jsonb NOT NULL,
+	"amount_due" numeric(10, 2) NOT NULL,
+	"fee" numeric(10, 2) DEFAULT '0.00' NOT NULL,
+	"fee_ledger_entry_id" uuid,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "dunning_paused_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "dunning_paused_until" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "dunning_pause_reason" text;--> statement-breakpoint
+ALTER TABLE "dunning_levels" ADD CONSTRAINT "dunning_levels_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dunning_notices" ADD CONSTRAINT "dunning_notices_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dunning_notices" ADD CONSTRAINT "dunning_notices_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dunning_notices" ADD CONSTRAINT "dunning_notices_fee_ledger_entry_id_ledger_entries_id_fk" FOREIGN KEY ("fee_ledger_entry_id") REFERENCES "public"."ledger_entries"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dunning_notices" ADD CONSTRAINT "dunning_notices_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "dunning_level_org_level_idx" ON "dunning_levels" USING btree ("organization_id","level");--> statement-breakpoint
+CREATE INDEX "dunning_notice_org_idx" ON "dunning_notices" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "dunning_notice_contract_idx" ON "dunning_notices" USING btree ("contract_id","notice_date");--> statement-breakpoint-- Dunning is run by admins; tenants can read the reminders sent for their own contracts
+ALTER TABLE "dunning_levels" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "dunning_levels_admin_only" ON "dunning_levels"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+ALTER TABLE "dunning_notices" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "dunning_notices_admin_only" ON "dunning_notices"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "dunning_notices_tenant_read" ON "dunning_notices"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        contract_id IN (
+            SELECT contract_id FROM tenant_contracts
+            WHERE tenant_id = current_user_id()
+        )
+    );
@@ -0,0 +1,74 @@
+CREATE TABLE "vendor_invoices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"vendor_id" uuid NOT NULL,
+	"building_id" uuid NOT NULL,
+	"ticket_id" uuid,
+	"document_id" uuid,
+	"invoice_number" text NOT NULL,
+	"invoice_date" timestamp with time zone NOT NULL,
+	"due_date" timestamp with time zone,
+	"description" text,
+	"net_amount" numeric(12, 2) NOT NULL,
+	"vat_rate" numeric(4, 2) DEFAULT '19.00' NOT NULL,
+	"vat_amount" numeric(12, 2) NOT NULL,
+	"gross_amount" numeric(12, 2) NOT NULL,
+	"cost_category" text NOT NULL,
+	"operating_cost_category" text,
+	"status" text DEFAULT 'received' NOT NULL,
+	"approved_by_id" uuid,
+	"approved_at" timestamp with time zone,
+	"rejection_reason" text,
+	"paid_at" timestamp with time zone,
+	"payment_reference" text,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "vendors" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"email" text,
+	"phone" text,
+	"address" text,
+	"postal_code" text,
+	"city" text,
+	"iban" text,
+	"vat_id" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "operating_cost_items" ADD COLUMN "vendor_invoice_id" uuid;--> statement-breakpoint
+ALTER TABLE "vendor_invoices" ADD CONSTRAINT "vendor_invoices_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vendor_invoices" ADD CONSTRAINT "vendor_invoices_vendor_id_vendors_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "public"."vendors"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vendor_invoices" ADD CONSTRAINT "vendor_invoices_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "public"."buildings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vendor_invoices" ADD CONSTRAINT "vendor_invoices_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vendor_invoices" ADD CONSTRAINT "vendor_invoices_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vendor_invoices" ADD CONSTRAINT "vendor_invoices_approved_by_id_users_id_fk" FOREIGN KEY ("approved_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vendor_invoices" ADD CONSTRAINT "vendor_invoices_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vendors" ADD CONSTRAINT "vendors_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "vendor_invoice_org_idx" ON "vendor_invoices" USING btree ("organization_id","invoice_date");--> statement-breakpoint
+CREATE INDEX "vendor_invoice_building_idx" ON "vendor_invoices" USING btree ("building_id");--> statement-breakpoint
+CREATE INDEX "vendor_invoice_ticket_idx" ON "vendor_invoices" USING btree ("ticket_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "vendor_invoice_vendor_number_idx" ON "vendor_invoices" USING btree ("vendor_id","invoice_number");--> statement-breakpoint
+CREATE INDEX "vendor_org_idx" ON "vendors" USING btree ("organization_id");--> statement-breakpoint
+ALTER TABLE "operating_cost_items" ADD CONSTRAINT "operating_cost_items_vendor_invoice_id_vendor_invoices_id_fk" FOREIGN KEY ("vendor_invoice_id") REFERENCES "public"."vendor_invoices"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "operating_cost_item_vendor_invoice_idx" ON "operating_cost_items" USING btree ("vendor_invoice_id");--> statement-breakpoint-- Vendors and their invoices are managed by admins only
+ALTER TABLE "vendors" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "vendors_admin_only" ON "vendors"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+ALTER TABLE "vendor_invoices" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "vendor_invoices_admin_only" ON "vendor_invoices"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );
@@ -0,0 +1,5 @@
+ALTER TABLE "organizations" ADD COLUMN "datev_consultant_number" text;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "datev_client_number" text;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "datev_chart_of_accounts" text DEFAULT 'SKR03' NOT NULL;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "datev_fiscal_year_start" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "organizations" ADD COLUMN "datev_accounts" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
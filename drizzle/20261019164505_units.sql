@@ -0,0 +1,46 @@
+CREATE TABLE "units" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"building_id" uuid NOT NULL,
+	"unit_number" text NOT NULL,
+	"type" text DEFAULT 'apartment' NOT NULL,
+	"floor" integer,
+	"living_area" numeric(8, 2),
+	"rooms" numeric(3, 1),
+	"features" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"description" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "contracts" ADD COLUMN "unit_id" uuid;--> statement-breakpoint
+ALTER TABLE "units" ADD CONSTRAINT "units_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "units" ADD CONSTRAINT "units_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "public"."buildings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "unit_org_idx" ON "units" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "unit_building_number_idx" ON "units" USING btree ("building_id","unit_number");--> statement-breakpoint
+ALTER TABLE "contracts" ADD CONSTRAINT "contracts_unit_id_units_id_fk" FOREIGN KEY ("unit_id") REFERENCES "public"."units"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contract_unit_idx" ON "contracts" USING btree ("unit_id");--> statement-breakpoint-- One unit per unit number that existing contracts used, with the living area of the latest contract
+INSERT INTO "units" ("organization_id", "building_id", "unit_number", "living_area")
+SELECT DISTINCT ON ("building_id", "unit_number") "organization_id", "building_id", "unit_number", "living_area"
+FROM "contracts"
+ORDER BY "building_id", "unit_number", "start_date" DESC;--> statement-breakpoint
+UPDATE "contracts" SET "unit_id" = "units"."id"
+FROM "units"
+WHERE "units"."building_id" = "contracts"."building_id" AND "units"."unit_number" = "contracts"."unit_number";--> statement-breakpoint
+-- Units are managed by admins and visible to everyone in the organization, like their buildings
+ALTER TABLE "units" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "units_admin_only" ON "units";--> statement-breakpoint
+CREATE POLICY "units_admin_only" ON "units"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    )
+    WITH CHECK (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+DROP POLICY IF EXISTS "units_org_read" ON "units";--> statement-breakpoint
+CREATE POLICY "units_org_read" ON "units"
+    FOR SELECT TO public
+    USING (organization_id = current_organization_id());
@@ -0,0 +1,103 @@
+CREATE TABLE "meter_readings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"meter_id" uuid NOT NULL,
+	"type" text DEFAULT 'regular' NOT NULL,
+	"reading_date" timestamp with time zone NOT NULL,
+	"value" numeric(14, 3) NOT NULL,
+	"consumption" numeric(14, 3),
+	"rollover" boolean DEFAULT false NOT NULL,
+	"consumption_record_id" uuid,
+	"note" text,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "meters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"building_id" uuid NOT NULL,
+	"unit_id" uuid,
+	"meter_number" text NOT NULL,
+	"consumption_type" text NOT NULL,
+	"unit" text NOT NULL,
+	"digits" integer,
+	"location" text,
+	"installed_at" timestamp with time zone NOT NULL,
+	"removed_at" timestamp with time zone,
+	"replaces_meter_id" uuid,
+	"calibration_year" integer,
+	"calibration_valid_until" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "meter_readings" ADD CONSTRAINT "meter_readings_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_readings" ADD CONSTRAINT "meter_readings_meter_id_meters_id_fk" FOREIGN KEY ("meter_id") REFERENCES "public"."meters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_readings" ADD CONSTRAINT "meter_readings_consumption_record_id_consumption_records_id_fk" FOREIGN KEY ("consumption_record_id") REFERENCES "public"."consumption_records"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_readings" ADD CONSTRAINT "meter_readings_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meters" ADD CONSTRAINT "meters_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meters" ADD CONSTRAINT "meters_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "public"."buildings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meters" ADD CONSTRAINT "meters_unit_id_units_id_fk" FOREIGN KEY ("unit_id") REFERENCES "public"."units"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meters" ADD CONSTRAINT "meters_replaces_meter_id_meters_id_fk" FOREIGN KEY ("replaces_meter_id") REFERENCES "public"."meters"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "meter_reading_meter_date_idx" ON "meter_readings" USING btree ("meter_id","reading_date");--> statement-breakpoint
+CREATE INDEX "meter_org_idx" ON "meters" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "meter_building_idx" ON "meters" USING btree ("building_id");--> statement-breakpoint
+CREATE INDEX "meter_unit_idx" ON "meters" USING btree ("unit_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "meter_building_number_idx" ON "meters" USING btree ("building_id","meter_number");--> statement-breakpoint-- Register the meter numbers existing consumption records name. Their readings are deltas, not meter values, so the reading history starts empty.
+INSERT INTO "meters" ("organization_id", "building_id", "unit_id", "meter_number", "consumption_type", "unit", "installed_at")
+SELECT DISTINCT ON ("contracts"."building_id", "consumption_records"."meter_number")
+  "consumption_records"."organization_id",
+  "contracts"."building_id",
+  "contracts"."unit_id",
+  "consumption_records"."meter_number",
+  "consumption_records"."consumption_type",
+  "consumption_records"."unit",
+  MIN("consumption_records"."reading_date") OVER (PARTITION BY "contracts"."building_id", "consumption_records"."meter_number")
+FROM "consumption_records"
+INNER JOIN "contracts" ON "contracts"."id" = "consumption_records"."contract_id"
+WHERE "consumption_records"."meter_number" IS NOT NULL AND "consumption_records"."meter_number" <> ''
+ORDER BY "contracts"."building_id", "consumption_records"."meter_number", "consumption_records"."reading_date" DESC;--> statement-breakpoint
+-- Meters and readings are managed by admins; tenants can read the meters of the units they rent and their readings
+ALTER TABLE "meters" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "meters_admin_only" ON "meters";--> statement-breakpoint
+CREATE POLICY "meters_admin_only" ON "meters"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    )
+    WITH CHECK (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+DROP POLICY IF EXISTS "meters_tenant_read" ON "meters";--> statement-breakpoint
+CREATE POLICY "meters_tenant_read" ON "meters"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        unit_id IN (
+            SELECT contracts.unit_id FROM contracts
+            INNER JOIN tenant_contracts ON tenant_contracts.contract_id = contracts.id
+            WHERE tenant_contracts.tenant_id = current_user_id()
+        )
+    );--> statement-breakpoint
+ALTER TABLE "meter_readings" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "meter_readings_admin_only" ON "meter_readings";--> statement-breakpoint
+CREATE POLICY "meter_readings_admin_only" ON "meter_readings"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    )
+    WITH CHECK (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+DROP POLICY IF EXISTS "meter_readings_tenant_read" ON "meter_readings";--> statement-breakpoint
+CREATE POLICY "meter_readings_tenant_read" ON "meter_readings"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        meter_id IN (SELECT id FROM meters)
+    );
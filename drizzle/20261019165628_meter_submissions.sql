@@ -0,0 +1,62 @@
+CREATE TABLE "meter_reading_submissions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"meter_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"submitted_by_id" uuid NOT NULL,
+	"reading_date" timestamp with time zone NOT NULL,
+	"value" numeric(14, 3) NOT NULL,
+	"note" text,
+	"photo_document_id" uuid,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"warnings" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"reviewed_by_id" uuid,
+	"reviewed_at" timestamp with time zone,
+	"rejection_reason" text,
+	"meter_reading_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "meter_reading_submissions" ADD CONSTRAINT "meter_reading_submissions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_reading_submissions" ADD CONSTRAINT "meter_reading_submissions_meter_id_meters_id_fk" FOREIGN KEY ("meter_id") REFERENCES "public"."meters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_reading_submissions" ADD CONSTRAINT "meter_reading_submissions_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_reading_submissions" ADD CONSTRAINT "meter_reading_submissions_submitted_by_id_users_id_fk" FOREIGN KEY ("submitted_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_reading_submissions" ADD CONSTRAINT "meter_reading_submissions_photo_document_id_documents_id_fk" FOREIGN KEY ("photo_document_id") REFERENCES "public"."documents"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_reading_submissions" ADD CONSTRAINT "meter_reading_submissions_reviewed_by_id_users_id_fk" FOREIGN KEY ("reviewed_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_reading_submissions" ADD CONSTRAINT "meter_reading_submissions_meter_reading_id_meter_readings_id_fk" FOREIGN KEY ("meter_reading_id") REFERENCES "public"."meter_readings"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "meter_submission_org_status_idx" ON "meter_reading_submissions" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "meter_submission_meter_idx" ON "meter_reading_submissions" USING btree ("meter_id");--> statement-breakpoint
+-- Submissions are reviewed by admins; tenants can submit pending readings for their own contracts
+-- and read the readings they submitted
+ALTER TABLE "meter_reading_submissions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "meter_reading_submissions_admin_only" ON "meter_reading_submissions";--> statement-breakpoint
+CREATE POLICY "meter_reading_submissions_admin_only" ON "meter_reading_submissions"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    )
+    WITH CHECK (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+DROP POLICY IF EXISTS "meter_reading_submissions_tenant_read" ON "meter_reading_submissions";--> statement-breakpoint
+CREATE POLICY "meter_reading_submissions_tenant_read" ON "meter_reading_submissions"
+    FOR SELECT TO public
+    USING (
+        organization_id = current_organization_id() AND
+        submitted_by_id = current_user_id()
+    );--> statement-breakpoint
+DROP POLICY IF EXISTS "meter_reading_submissions_tenant_insert" ON "meter_reading_submissions";--> statement-breakpoint
+CREATE POLICY "meter_reading_submissions_tenant_insert" ON "meter_reading_submissions"
+    FOR INSERT TO public
+    WITH CHECK (
+        organization_id = current_organization_id() AND
+        submitted_by_id = current_user_id() AND
+        status = 'pending' AND
+        contract_id IN (
+            SELECT contract_id FROM tenant_contracts
+            WHERE tenant_id = current_user_id()
+        )
+    );
@@ -0,0 +1,30 @@
+CREATE TABLE "consumption_anomalies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contract_id" uuid NOT NULL,
+	"consumption_record_id" uuid NOT NULL,
+	"consumption_type" text NOT NULL,
+	"type" text NOT NULL,
+	"period" text NOT NULL,
+	"value" numeric(12, 3) NOT NULL,
+	"baseline" numeric(12, 3),
+	"message" text NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"ticket_id" uuid,
+	"reviewed_by_id" uuid,
+	"reviewed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "consumption_anomalies" ADD CONSTRAINT "consumption_anomalies_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "consumption_anomalies" ADD CONSTRAINT "consumption_anomalies_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "consumption_anomalies" ADD CONSTRAINT "consumption_anomalies_consumption_record_id_consumption_records_id_fk" FOREIGN KEY ("consumption_record_id") REFERENCES "public"."consumption_records"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "consumption_anomalies" ADD CONSTRAINT "consumption_anomalies_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "consumption_anomalies" ADD CONSTRAINT "consumption_anomalies_reviewed_by_id_users_id_fk" FOREIGN KEY ("reviewed_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "consumption_anomaly_record_type_idx" ON "consumption_anomalies" USING btree ("consumption_record_id","type");--> statement-breakpoint
+CREATE INDEX "consumption_anomaly_org_status_idx" ON "consumption_anomalies" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "consumption_anomaly_contract_idx" ON "consumption_anomalies" USING btree ("contract_id");--> statement-breakpoint
+-- Anomalies are reviewed by the landlord only
+ALTER TABLE "consumption_anomalies" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "consumption_anomalies_admin_only" ON "consumption_anomalies" FOR ALL TO public USING (organization_id = current_organization_id() AND current_user_role() = 'landlord_admin');
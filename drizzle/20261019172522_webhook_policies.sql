@@ -0,0 +1,15 @@
+-- Subscriptions hold the HMAC signing secrets, so only landlord admins may read them.
+-- Other requests queue deliveries for their events; the subscription lookup runs as the
+-- connection owner (see queueWebhookEvents).
+DROP POLICY IF EXISTS "webhook_subscriptions_read" ON "webhook_subscriptions";--> statement-breakpoint
+-- Every request of the organization may queue deliveries, only admins read or change them
+DROP POLICY IF EXISTS "webhook_deliveries_isolation" ON "webhook_deliveries";--> statement-breakpoint
+CREATE POLICY "webhook_deliveries_admin_only" ON "webhook_deliveries"
+    FOR ALL TO public
+    USING (
+        organization_id = current_organization_id() AND
+        current_user_role() = 'landlord_admin'
+    );--> statement-breakpoint
+CREATE POLICY "webhook_deliveries_insert" ON "webhook_deliveries"
+    FOR INSERT TO public
+    WITH CHECK (organization_id = current_organization_id());
@@ -0,0 +1,46 @@
+// src/app/api/auth/change-password/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/db/auth-utils'
+import { changePassword } from '@/lib/db/password-utils'
+import {
+  changePasswordSchema,
+  createApiResponse,
+  validateRequestBody,
+} from '@/lib/db/validations'
+
+export async function POST(req: NextRequest) {
+  const user = await getCurrentUser()
+  if (!user) {
+    return NextResponse.json(createApiResponse(false, undefined, 'Not authenticated'), { status: 401 })
+  }
+
+  let currentPassword: string
+  let newPassword: string
+  try {
+    ({ currentPassword, newPassword } = validateRequestBody(changePasswordSchema)(await req.json()))
+  } catch (error) {
+    return NextResponse.json(
+      createApiResponse(false, undefined, error instanceof Error ? error.message : 'Invalid request'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const success = await changePassword(user.id, currentPassword, newPassword)
+
+    if (!success) {
+      return NextResponse.json(
+        createApiResponse(false, undefined, 'Current password is incorrect'),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(createApiResponse(true, undefined, 'Password changed. Please sign in again.'))
+  } catch (error) {
+    console.error('Password change failed:', error)
+    return NextResponse.json(
+      createApiResponse(false, undefined, 'Password change failed'),
+      { status: 500 }
+    )
+  }
+}
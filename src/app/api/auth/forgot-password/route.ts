@@ -0,0 +1,36 @@
+// src/app/api/auth/forgot-password/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createPasswordResetToken } from '@/lib/db/password-utils'
+import { sendPasswordResetEmail } from '@/lib/mail'
+import {
+  createApiResponse,
+  passwordResetRequestSchema,
+  validateRequestBody,
+} from '@/lib/db/validations'
+
+export async function POST(req: NextRequest) {
+  let email: string
+  try {
+    ({ email } = validateRequestBody(passwordResetRequestSchema)(await req.json()))
+  } catch (error) {
+    return NextResponse.json(
+      createApiResponse(false, undefined, error instanceof Error ? error.message : 'Invalid request'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const reset = await createPasswordResetToken(email)
+
+    if (reset) {
+      await sendPasswordResetEmail(reset)
+    }
+  } catch (error) {
+    console.error('Failed to send password reset email:', error)
+  }
+
+  // Always answer the same way so the endpoint cannot be used to probe for accounts
+  return NextResponse.json(
+    createApiResponse(true, undefined, 'If an account exists for this email, a reset link has been sent.')
+  )
+}
@@ -0,0 +1,42 @@
+// src/app/api/auth/reset-password/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { resetPasswordWithToken } from '@/lib/db/password-utils'
+import {
+  createApiResponse,
+  passwordResetSchema,
+  validateRequestBody,
+} from '@/lib/db/validations'
+
+export async function POST(req: NextRequest) {
+  let token: string
+  let password: string
+  try {
+    ({ token, password } = validateRequestBody(passwordResetSchema)(await req.json()))
+  } catch (error) {
+    return NextResponse.json(
+      createApiResponse(false, undefined, error instanceof Error ? error.message : 'Invalid request'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const success = await resetPasswordWithToken(token, password)
+
+    if (!success) {
+      return NextResponse.json(
+        createApiResponse(false, undefined, 'This reset link is invalid or has expired.'),
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      createApiResponse(true, undefined, 'Your password has been updated. You can now sign in.')
+    )
+  } catch (error) {
+    console.error('Password reset failed:', error)
+    return NextResponse.json(
+      createApiResponse(false, undefined, 'Password reset failed'),
+      { status: 500 }
+    )
+  }
+}
@@ -8,6 +8,11 @@ import Link from 'next/link'
 import { PublicLayout } from '@/components/layouts/public-layout'
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline'
 
+const getErrorMessage = (error: string) =>
+  error === 'AccountLocked'
+    ? 'Too many failed sign-in attempts. Your account is temporarily locked, please try again later.'
+    : 'Invalid email or password. Please try again.'
+
 export default function SignInPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -19,10 +24,11 @@ export default function SignInPage() {
   const searchParams = useSearchParams()
   const callbackUrl = searchParams.get('callbackUrl') || '/'
   const error_param = searchParams.get('error')
+  const reset_param = searchParams.get('reset')
 
   useEffect(() => {
     if (error_param) {
-      setError('Invalid email or password. Please try again.')
+      setError(getErrorMessage(error_param))
     }
   }, [error_param])
 
@@ -51,7 +57,7 @@ export default function SignInPage() {
       })
 
       if (result?.error) {
-        setError('Invalid email or password. Please try again.')
+        setError(getErrorMessage(result.error))
       } else if (result?.ok) {
         // Get the updated session to determine redirect
         const session = await getSession()
@@ -81,6 +87,12 @@ export default function SignInPage() {
           </div>
 
           <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {reset_param === 'success' && !error && (
+              <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+                Your password has been updated. Please sign in.
+              </div>
+            )}
+
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
                 {error}
@@ -0,0 +1,66 @@
+// src/app/api/invite/[token]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { acceptInvitation, getInvitationDetails } from '@/lib/db/invitation-utils'
+import { ConflictError, NotFoundError, createErrorResponse } from '@/lib/db/errors'
+import {
+  acceptInvitationSchema,
+  createApiResponse,
+  validateRequestBody,
+} from '@/lib/db/validations'
+
+interface RouteContext {
+  params: { token: string }
+}
+
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const details = await getInvitationDetails(params.token)
+
+  if (!details) {
+    return NextResponse.json(
+      createApiResponse(false, undefined, 'This invitation is invalid, expired or has already been used.'),
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json(createApiResponse(true, details))
+}
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  let name: string
+  let password: string
+  try {
+    ({ name, password } = validateRequestBody(acceptInvitationSchema)(await req.json()))
+  } catch (error) {
+    return NextResponse.json(
+      createApiResponse(false, undefined, error instanceof Error ? error.message : 'Invalid request'),
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { tenant, createdTenant } = await acceptInvitation(params.token, { name, password })
+
+    return NextResponse.json(
+      createApiResponse(
+        true,
+        { email: tenant.email },
+        createdTenant ? 'Your account has been created.' : 'The contract has been added to your account.'
+      ),
+      { status: createdTenant ? 201 : 200 }
+    )
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return NextResponse.json(
+        createApiResponse(false, undefined, 'This invitation is invalid, expired or has already been used.'),
+        { status: 404 }
+      )
+    }
+    if (error instanceof ConflictError) {
+      return NextResponse.json(createApiResponse(false, undefined, error.message), { status: 409 })
+    }
+
+    console.error('Invitation acceptance failed:', error)
+    const { message } = createErrorResponse(error as Error)
+    return NextResponse.json(createApiResponse(false, undefined, message), { status: 500 })
+  }
+}
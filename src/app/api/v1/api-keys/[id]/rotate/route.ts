@@ -0,0 +1,17 @@
+// src/app/api/v1/api-keys/[id]/rotate/route.ts
+import { ApiKeyService } from '@/lib/db/services/api-keys'
+import { rotateApiKeySchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+import { toPublicApiKey } from '@/lib/api/serializers'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const options = await parseBody(req, rotateApiKeySchema)
+  const { apiKey, key } = await ApiKeyService.rotate(params.id, user.organizationId, user.id, options)
+
+  return apiSuccess(
+    { ...toPublicApiKey(apiKey), key },
+    { status: 201, message: 'API key rotated. Store the new key now; it cannot be shown again.' }
+  )
+}, { roles: ['landlord_admin'] })
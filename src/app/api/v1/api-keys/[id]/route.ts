@@ -0,0 +1,25 @@
+// src/app/api/v1/api-keys/[id]/route.ts
+import { ApiKeyService } from '@/lib/db/services/api-keys'
+import { ConflictError, NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+import { toPublicApiKey } from '@/lib/api/serializers'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const apiKey = await ApiKeyService.getById(params.id, user.organizationId)
+  if (!apiKey) throw new NotFoundError('API key', params.id)
+
+  return apiSuccess({ ...toPublicApiKey(apiKey), status: ApiKeyService.getStatus(apiKey) })
+}, { roles: ['landlord_admin'] })
+
+// Revoke the key; integrations using it are rejected from the next request on
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const existing = await ApiKeyService.getById(params.id, user.organizationId)
+  if (!existing) throw new NotFoundError('API key', params.id)
+
+  const revoked = await ApiKeyService.revoke(params.id, user.organizationId, user.id)
+  if (!revoked) throw new ConflictError('API key has already been revoked')
+
+  return apiSuccess(toPublicApiKey(revoked), { message: 'API key revoked' })
+}, { roles: ['landlord_admin'] })
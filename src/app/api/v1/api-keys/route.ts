@@ -0,0 +1,24 @@
+// src/app/api/v1/api-keys/route.ts
+import { ApiKeyService } from '@/lib/db/services/api-keys'
+import { apiKeyFiltersSchema, createApiKeySchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, withApiHandler } from '@/lib/api/handler'
+import { toPublicApiKey } from '@/lib/api/serializers'
+
+// API keys are managed from a signed-in session only; no permission lets a key manage keys
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { includeRevoked } = parseQuery(req, apiKeyFiltersSchema)
+  const keys = await ApiKeyService.getApiKeys(user.organizationId, { includeRevoked })
+
+  return apiSuccess(keys.map(({ apiKey, ...rest }) => ({ ...rest, apiKey: toPublicApiKey(apiKey) })))
+}, { roles: ['landlord_admin'] })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createApiKeySchema)
+  const { apiKey, key } = await ApiKeyService.create(user.organizationId, data, user.id)
+
+  return apiSuccess(
+    { ...toPublicApiKey(apiKey), key },
+    { status: 201, message: 'API key created. Store the key now; it cannot be shown again.' }
+  )
+}, { roles: ['landlord_admin'] })
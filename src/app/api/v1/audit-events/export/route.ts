@@ -0,0 +1,19 @@
+// src/app/api/v1/audit-events/export/route.ts
+import { NextResponse } from 'next/server'
+import { exportAuditEvents } from '@/lib/db/export'
+import { auditEventExportSchema } from '@/lib/db/validations'
+import { parseQuery, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const options = parseQuery(req, auditEventExportSchema)
+  const { filename, content, truncated } = await exportAuditEvents(user.organizationId, options)
+
+  return new NextResponse(content, {
+    headers: {
+      'Content-Type': options.format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      // Set when the export hit the row limit; narrow the date range to get the rest
+      'X-Export-Truncated': String(truncated),
+    },
+  })
+}, { roles: ['landlord_admin'], permission: 'audit-events:read' })
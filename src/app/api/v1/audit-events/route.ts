@@ -0,0 +1,14 @@
+// src/app/api/v1/audit-events/route.ts
+import { AuditEventService } from '@/lib/db/services/audit-events'
+import { auditEventFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, auditEventFiltersSchema)
+  const events = await AuditEventService.getEvents(user.organizationId, {
+    ...filters,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(events)
+}, { roles: ['landlord_admin'], permission: 'audit-events:read' })
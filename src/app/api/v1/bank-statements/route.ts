@@ -0,0 +1,23 @@
+// src/app/api/v1/bank-statements/route.ts
+import { BankStatementService } from '@/lib/db/services/bank-statements'
+import { importBankStatementSchema, paginationSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const statements = await BankStatementService.getStatements(
+    user.organizationId,
+    toLimitOffset(parseQuery(req, paginationSchema))
+  )
+
+  return apiSuccess(statements)
+}, { roles: ['landlord_admin'], permission: 'bank-statements:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, importBankStatementSchema)
+  const result = await BankStatementService.importStatement(user.organizationId, data, user.id)
+
+  return apiSuccess(result, {
+    status: 201,
+    message: `${result.imported} booking(s) imported, ${result.matched} matched automatically, ${result.unmatched} to review`,
+  })
+}, { roles: ['landlord_admin'], permission: 'bank-statements:write' })
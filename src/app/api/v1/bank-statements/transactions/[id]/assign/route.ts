@@ -0,0 +1,16 @@
+// src/app/api/v1/bank-statements/transactions/[id]/assign/route.ts
+import { BankStatementService } from '@/lib/db/services/bank-statements'
+import { NotFoundError } from '@/lib/db/errors'
+import { assignBankTransactionSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, assignBankTransactionSchema)
+
+  const result = await BankStatementService.assignTransaction(params.id, user.organizationId, data, user.id)
+  if (!result) throw new NotFoundError('Bank transaction', params.id)
+
+  return apiSuccess(result, { message: 'Payment booked to contract' })
+}, { roles: ['landlord_admin'], permission: 'bank-statements:write' })
@@ -0,0 +1,16 @@
+// src/app/api/v1/bank-statements/transactions/[id]/ignore/route.ts
+import { BankStatementService } from '@/lib/db/services/bank-statements'
+import { NotFoundError } from '@/lib/db/errors'
+import { ignoreBankTransactionSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { ignored } = await parseBody(req, ignoreBankTransactionSchema)
+
+  const transaction = await BankStatementService.setIgnored(params.id, user.organizationId, ignored)
+  if (!transaction) throw new NotFoundError('Bank transaction', params.id)
+
+  return apiSuccess(transaction, { message: ignored ? 'Bank transaction ignored' : 'Bank transaction back in the queue' })
+}, { roles: ['landlord_admin'], permission: 'bank-statements:write' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/bank-statements/transactions/[id]/route.ts
+import { BankStatementService } from '@/lib/db/services/bank-statements'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const transaction = await BankStatementService.getTransactionById(params.id, user.organizationId)
+  if (!transaction) throw new NotFoundError('Bank transaction', params.id)
+
+  return apiSuccess(transaction)
+}, { roles: ['landlord_admin'], permission: 'bank-statements:read' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/bank-statements/transactions/[id]/unassign/route.ts
+import { BankStatementService } from '@/lib/db/services/bank-statements'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const transaction = await BankStatementService.unassignTransaction(params.id, user.organizationId)
+  if (!transaction) throw new NotFoundError('Bank transaction', params.id)
+
+  return apiSuccess(transaction, { message: 'Payment removed from the ledger' })
+}, { roles: ['landlord_admin'], permission: 'bank-statements:write' })
@@ -0,0 +1,15 @@
+// src/app/api/v1/bank-statements/transactions/route.ts
+import { BankStatementService } from '@/lib/db/services/bank-statements'
+import { bankTransactionFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, status, statementId } = parseQuery(req, bankTransactionFiltersSchema)
+  const transactions = await BankStatementService.getTransactions(user.organizationId, {
+    status,
+    statementId,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(transactions)
+}, { roles: ['landlord_admin'], permission: 'bank-statements:read' })
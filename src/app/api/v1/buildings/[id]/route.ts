@@ -0,0 +1,32 @@
+// src/app/api/v1/buildings/[id]/route.ts
+import { BuildingService } from '@/lib/db/services/buildings'
+import { ConflictError, NotFoundError } from '@/lib/db/errors'
+import { updateBuildingSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const building = await BuildingService.getWithStats(params.id, user.organizationId)
+  if (!building) throw new NotFoundError('Building', params.id)
+
+  return apiSuccess(building)
+}, { roles: ['landlord_admin'], permission: 'buildings:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateBuildingSchema)
+  const building = await BuildingService.update(params.id, user.organizationId, data)
+  if (!building) throw new NotFoundError('Building', params.id)
+
+  return apiSuccess(building, { message: 'Building updated' })
+}, { roles: ['landlord_admin'], permission: 'buildings:write' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const building = await BuildingService.getById(params.id, user.organizationId)
+  if (!building) throw new NotFoundError('Building', params.id)
+
+  const deleted = await BuildingService.delete(params.id, user.organizationId)
+  if (!deleted) throw new ConflictError('Cannot delete building with active contracts')
+
+  return apiSuccess(undefined, { message: 'Building deleted' })
+}, { roles: ['landlord_admin'], permission: 'buildings:write' })
@@ -0,0 +1,18 @@
+// src/app/api/v1/buildings/route.ts
+import { BuildingService } from '@/lib/db/services/buildings'
+import { createBuildingSchema, paginationSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const pagination = parseQuery(req, paginationSchema)
+  const buildings = await BuildingService.getByOrganization(user.organizationId, toLimitOffset(pagination))
+
+  return apiSuccess(buildings)
+}, { roles: ['landlord_admin'], permission: 'buildings:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createBuildingSchema, { organizationId: user.organizationId })
+  const building = await BuildingService.create(data)
+
+  return apiSuccess(building, { status: 201, message: 'Building created' })
+}, { roles: ['landlord_admin'], permission: 'buildings:write' })
@@ -0,0 +1,34 @@
+// src/app/api/v1/consumption/[id]/route.ts
+import { ConsumptionService } from '@/lib/db/services/consumption'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError, ValidationError } from '@/lib/db/errors'
+import { updateConsumptionRecordSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const record = await ConsumptionService.getById(params.id, user.organizationId, user.id, user.role)
+  if (!record) throw new NotFoundError('Consumption record', params.id)
+
+  return apiSuccess(record)
+}, { permission: 'consumption:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateConsumptionRecordSchema)
+  if (data.contractId && !(await ContractService.getById(data.contractId, user.organizationId))) {
+    throw new ValidationError('Contract not found in this organization', 'contractId')
+  }
+
+  const record = await ConsumptionService.update(params.id, user.organizationId, data)
+  if (!record) throw new NotFoundError('Consumption record', params.id)
+
+  return apiSuccess(record, { message: 'Consumption record updated' })
+}, { roles: ['landlord_admin'], permission: 'consumption:write' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await ConsumptionService.delete(params.id, user.organizationId)
+  if (!deleted) throw new NotFoundError('Consumption record', params.id)
+
+  return apiSuccess(undefined, { message: 'Consumption record deleted' })
+}, { roles: ['landlord_admin'], permission: 'consumption:write' })
@@ -0,0 +1,22 @@
+// src/app/api/v1/consumption/anomalies/[id]/route.ts
+import { ConsumptionAnomalyService } from '@/lib/db/services/consumption-anomalies'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateConsumptionAnomalySchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const anomaly = await ConsumptionAnomalyService.getById(params.id, user.organizationId)
+  if (!anomaly) throw new NotFoundError('Consumption anomaly', params.id)
+
+  return apiSuccess(anomaly)
+}, { roles: ['landlord_admin'], permission: 'consumption-anomalies:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { status } = await parseBody(req, updateConsumptionAnomalySchema)
+  const anomaly = await ConsumptionAnomalyService.updateStatus(params.id, user.organizationId, status, user.id)
+  if (!anomaly) throw new NotFoundError('Consumption anomaly', params.id)
+
+  return apiSuccess(anomaly, { message: 'Consumption anomaly updated' })
+}, { roles: ['landlord_admin'], permission: 'consumption-anomalies:write' })
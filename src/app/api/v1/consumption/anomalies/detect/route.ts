@@ -0,0 +1,11 @@
+// src/app/api/v1/consumption/anomalies/detect/route.ts
+import { ConsumptionAnomalyService } from '@/lib/db/services/consumption-anomalies'
+import { detectConsumptionAnomaliesSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, detectConsumptionAnomaliesSchema)
+  const anomalies = await ConsumptionAnomalyService.detect(user.organizationId, { ...data, userId: user.id })
+
+  return apiSuccess(anomalies, { message: `${anomalies.length} new anomaly(s) detected` })
+}, { roles: ['landlord_admin'], permission: 'consumption-anomalies:write' })
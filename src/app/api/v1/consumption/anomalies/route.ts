@@ -0,0 +1,14 @@
+// src/app/api/v1/consumption/anomalies/route.ts
+import { ConsumptionAnomalyService } from '@/lib/db/services/consumption-anomalies'
+import { consumptionAnomalyFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, consumptionAnomalyFiltersSchema)
+  const result = await ConsumptionAnomalyService.getAnomalies(user.organizationId, {
+    ...filters,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(result)
+}, { roles: ['landlord_admin'], permission: 'consumption-anomalies:read' })
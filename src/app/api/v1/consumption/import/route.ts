@@ -0,0 +1,19 @@
+// src/app/api/v1/consumption/import/route.ts
+import { ConsumptionImportService } from '@/lib/db/services/consumption-imports'
+import { importConsumptionSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const { content, encoding, ...options } = await parseBody(req, importConsumptionSchema)
+  const report = await ConsumptionImportService.importFile(user.organizationId, {
+    ...options,
+    content: Buffer.from(content, encoding === 'base64' ? 'base64' : 'utf8'),
+  })
+
+  return apiSuccess(report, {
+    status: report.dryRun ? 200 : 201,
+    message: report.dryRun
+      ? `${report.accepted.length} row(s) can be imported, ${report.rejected.length} rejected`
+      : `${report.created} consumption record(s) imported, ${report.rejected.length} row(s) rejected`,
+  })
+}, { roles: ['landlord_admin'], permission: 'consumption:write' })
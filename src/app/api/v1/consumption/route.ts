@@ -0,0 +1,37 @@
+// src/app/api/v1/consumption/route.ts
+import { ConsumptionService } from '@/lib/db/services/consumption'
+import { ContractService } from '@/lib/db/services/contracts'
+import { ValidationError } from '@/lib/db/errors'
+import { consumptionBodySchema, consumptionFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, consumptionFiltersSchema)
+  const records = await ConsumptionService.getRecords(user.organizationId, {
+    ...filters,
+    userId: user.id,
+    userRole: user.role,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(records)
+}, { permission: 'consumption:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const body = await parseBody(req, consumptionBodySchema, { organizationId: user.organizationId })
+  const records = Array.isArray(body) ? body : [body]
+
+  // Every referenced contract must belong to the caller's organization
+  for (const contractId of Array.from(new Set(records.map(record => record.contractId)))) {
+    if (!(await ContractService.getById(contractId, user.organizationId))) {
+      throw new ValidationError(`Contract ${contractId} not found in this organization`, 'contractId')
+    }
+  }
+
+  const created = await ConsumptionService.createBulk(records)
+
+  return apiSuccess(Array.isArray(body) ? created : created[0], {
+    status: 201,
+    message: `${created.length} consumption record(s) created`,
+  })
+}, { roles: ['landlord_admin'], permission: 'consumption:write' })
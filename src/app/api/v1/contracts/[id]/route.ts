@@ -0,0 +1,34 @@
+// src/app/api/v1/contracts/[id]/route.ts
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateContractSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  if (user.role === 'tenant' && !(await ContractService.hasTenant(params.id, user.id))) {
+    throw new NotFoundError('Contract', params.id)
+  }
+
+  const contract = await ContractService.getWithActivity(params.id, user.organizationId)
+  if (!contract) throw new NotFoundError('Contract', params.id)
+
+  return apiSuccess(contract)
+}, { permission: 'contracts:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateContractSchema)
+  const contract = await ContractService.update(params.id, user.organizationId, data)
+  if (!contract) throw new NotFoundError('Contract', params.id)
+
+  return apiSuccess(contract, { message: 'Contract updated' })
+}, { roles: ['landlord_admin'], permission: 'contracts:write' })
+
+// Contracts are never hard-deleted; DELETE deactivates them
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const contract = await ContractService.toggleActive(params.id, user.organizationId, false)
+  if (!contract) throw new NotFoundError('Contract', params.id)
+
+  return apiSuccess(contract, { message: 'Contract deactivated' })
+}, { roles: ['landlord_admin'], permission: 'contracts:write' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/contracts/[id]/tenants/[tenantId]/route.ts
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string; tenantId: string }
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const removed = await ContractService.removeTenant(params.id, params.tenantId, user.organizationId)
+  if (!removed) throw new NotFoundError('Tenant contract')
+
+  return apiSuccess(undefined, { message: 'Tenant removed from contract' })
+}, { roles: ['landlord_admin'], permission: 'contracts:write' })
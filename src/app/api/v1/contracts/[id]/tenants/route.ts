@@ -0,0 +1,29 @@
+// src/app/api/v1/contracts/[id]/tenants/route.ts
+import { ContractService } from '@/lib/db/services/contracts'
+import { UserService } from '@/lib/db/services/users'
+import { NotFoundError, ValidationError } from '@/lib/db/errors'
+import { createTenantContractSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { tenantId, percentage, isMainTenant } = await parseBody(req, createTenantContractSchema, {
+    contractId: params.id,
+    organizationId: user.organizationId,
+  })
+
+  const tenant = await UserService.getById(tenantId, user.organizationId)
+  if (!tenant || tenant.role !== 'tenant') {
+    throw new ValidationError('Tenant not found in this organization', 'tenantId')
+  }
+
+  const tenantContract = await ContractService.addTenant(params.id, user.organizationId, {
+    tenantId,
+    percentage,
+    isMainTenant,
+  })
+  if (!tenantContract) throw new NotFoundError('Contract', params.id)
+
+  return apiSuccess(tenantContract, { status: 201, message: 'Tenant added to contract' })
+}, { roles: ['landlord_admin'], permission: 'contracts:write' })
@@ -0,0 +1,27 @@
+// src/app/api/v1/contracts/route.ts
+import { ContractService } from '@/lib/db/services/contracts'
+import { contractFiltersSchema, createContractSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  // Tenants only ever see the contracts they are a party to
+  if (user.role === 'tenant') {
+    return apiSuccess(await ContractService.getByTenant(user.id, user.organizationId))
+  }
+
+  const { buildingId, isActive, ...pagination } = parseQuery(req, contractFiltersSchema)
+  const contracts = await ContractService.getByOrganization(user.organizationId, {
+    buildingId,
+    isActive,
+    ...toLimitOffset(pagination),
+  })
+
+  return apiSuccess(contracts)
+}, { permission: 'contracts:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createContractSchema, { organizationId: user.organizationId })
+  const contract = await ContractService.create(data)
+
+  return apiSuccess(contract, { status: 201, message: 'Contract created' })
+}, { roles: ['landlord_admin'], permission: 'contracts:write' })
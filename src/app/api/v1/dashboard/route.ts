@@ -0,0 +1,14 @@
+// src/app/api/v1/dashboard/route.ts
+import { TicketService } from '@/lib/db/services/tickets'
+import { DunningService } from '@/lib/db/services/dunning'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+// Figures of the landlord dashboard; session only
+export const GET = withApiHandler(async ({ user }) => {
+  const [tickets, dunning] = await Promise.all([
+    TicketService.getStats(user.organizationId, { userId: user.id, userRole: user.role }),
+    DunningService.getStats(user.organizationId),
+  ])
+
+  return apiSuccess({ tickets, dunning })
+}, { roles: ['landlord_admin'] })
@@ -0,0 +1,18 @@
+// src/app/api/v1/datev/export/route.ts
+import { NextResponse } from 'next/server'
+import { exportDatevBookings } from '@/lib/db/export'
+import { datevExportSchema } from '@/lib/db/validations'
+import { parseQuery, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const options = parseQuery(req, datevExportSchema)
+  const { filename, content, count } = await exportDatevBookings(user.organizationId, options)
+
+  return new NextResponse(new Uint8Array(content), {
+    headers: {
+      'Content-Type': 'text/csv; charset=windows-1252',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'X-Export-Count': String(count),
+    },
+  })
+}, { roles: ['landlord_admin'], permission: 'datev:read' })
@@ -0,0 +1,20 @@
+// src/app/api/v1/datev/settings/route.ts
+import { DatevService } from '@/lib/db/services/datev'
+import { NotFoundError } from '@/lib/db/errors'
+import { datevSettingsSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ user }) => {
+  const settings = await DatevService.getSettings(user.organizationId)
+  if (!settings) throw new NotFoundError('Organization', user.organizationId)
+
+  return apiSuccess(settings)
+}, { roles: ['landlord_admin'], permission: 'datev:read' })
+
+export const PATCH = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, datevSettingsSchema)
+  const settings = await DatevService.updateSettings(user.organizationId, data)
+  if (!settings) throw new NotFoundError('Organization', user.organizationId)
+
+  return apiSuccess(settings, { message: 'DATEV settings updated' })
+}, { roles: ['landlord_admin'], permission: 'datev:write' })
@@ -0,0 +1,22 @@
+// src/app/api/v1/deposits/[id]/route.ts
+import { DepositService } from '@/lib/db/services/deposits'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateDepositAccountSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const details = await DepositService.getDetails(params.id, user.organizationId)
+  if (!details) throw new NotFoundError('Deposit account', params.id)
+
+  return apiSuccess(details)
+}, { roles: ['landlord_admin'], permission: 'deposits:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateDepositAccountSchema)
+  const account = await DepositService.updateAccount(params.id, user.organizationId, data)
+  if (!account) throw new NotFoundError('Deposit account', params.id)
+
+  return apiSuccess(account, { message: 'Deposit account updated' })
+}, { roles: ['landlord_admin'], permission: 'deposits:write' })
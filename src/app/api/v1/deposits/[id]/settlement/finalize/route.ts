@@ -0,0 +1,13 @@
+// src/app/api/v1/deposits/[id]/settlement/finalize/route.ts
+import { DepositService } from '@/lib/db/services/deposits'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const details = await DepositService.finalizeSettlement(params.id, user.organizationId, user.id)
+  if (!details) throw new NotFoundError('Deposit settlement', params.id)
+
+  return apiSuccess(details, { message: 'Deposit settled and open claims booked to the ledger' })
+}, { roles: ['landlord_admin'], permission: 'deposits:write' })
@@ -0,0 +1,31 @@
+// src/app/api/v1/deposits/[id]/settlement/pdf/route.ts
+import { NextResponse } from 'next/server'
+import { DepositService } from '@/lib/db/services/deposits'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+// Landlords can print drafts for review; tenants get the finalized statement of their contract
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const account = await DepositService.getById(params.id, user.organizationId)
+  const settlement = account && await DepositService.getSettlement(account.id, user.organizationId)
+  if (!account || !settlement) throw new NotFoundError('Deposit settlement', params.id)
+
+  if (
+    user.role === 'tenant' &&
+    (settlement.status !== 'finalized' || !(await ContractService.hasTenant(account.contractId, user.id)))
+  ) {
+    throw new NotFoundError('Deposit settlement', params.id)
+  }
+
+  const { filename, content } = await DepositService.getSettlementPdf(account, settlement)
+
+  return new NextResponse(new Uint8Array(content), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  })
+}, { permission: 'deposits:read' })
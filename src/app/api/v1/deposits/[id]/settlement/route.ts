@@ -0,0 +1,31 @@
+// src/app/api/v1/deposits/[id]/settlement/route.ts
+import { DepositService } from '@/lib/db/services/deposits'
+import { NotFoundError } from '@/lib/db/errors'
+import { depositSettlementSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+// Drafts show the figures the settlement would be finalized with today
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const settlement = await DepositService.getSettlement(params.id, user.organizationId)
+  if (!settlement) throw new NotFoundError('Deposit settlement', params.id)
+
+  return apiSuccess(settlement)
+}, { roles: ['landlord_admin'], permission: 'deposits:read' })
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { settlementDate } = await parseBody(req, depositSettlementSchema)
+  const settlement = await DepositService.createSettlement(params.id, user.organizationId, settlementDate, user.id)
+  if (!settlement) throw new NotFoundError('Deposit account', params.id)
+
+  return apiSuccess(settlement, { status: 201, message: 'Deposit settlement started' })
+}, { roles: ['landlord_admin'], permission: 'deposits:write' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { settlementDate } = await parseBody(req, depositSettlementSchema)
+  const settlement = await DepositService.updateSettlement(params.id, user.organizationId, settlementDate)
+  if (!settlement) throw new NotFoundError('Deposit settlement', params.id)
+
+  return apiSuccess(settlement, { message: 'Deposit settlement updated' })
+}, { roles: ['landlord_admin'], permission: 'deposits:write' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/deposits/[id]/transactions/[transactionId]/route.ts
+import { DepositService } from '@/lib/db/services/deposits'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string; transactionId: string }
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await DepositService.deleteTransaction(params.id, params.transactionId, user.organizationId)
+  if (!deleted) throw new NotFoundError('Deposit transaction', params.transactionId)
+
+  return apiSuccess(undefined, { message: 'Deposit transaction deleted' })
+}, { roles: ['landlord_admin'], permission: 'deposits:write' })
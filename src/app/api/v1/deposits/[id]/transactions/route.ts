@@ -0,0 +1,18 @@
+// src/app/api/v1/deposits/[id]/transactions/route.ts
+import { DepositService } from '@/lib/db/services/deposits'
+import { NotFoundError } from '@/lib/db/errors'
+import { createDepositTransactionSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, createDepositTransactionSchema)
+  const transaction = await DepositService.addTransaction(params.id, user.organizationId, data, user.id)
+  if (!transaction) throw new NotFoundError('Deposit account', params.id)
+
+  return apiSuccess(transaction, {
+    status: 201,
+    message: data.type === 'installment' ? 'Installment recorded' : 'Withholding recorded',
+  })
+}, { roles: ['landlord_admin'], permission: 'deposits:write' })
@@ -0,0 +1,24 @@
+// src/app/api/v1/deposits/contracts/[contractId]/route.ts
+import { DepositService } from '@/lib/db/services/deposits'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { contractId: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  if (user.role === 'tenant' && !(await ContractService.hasTenant(params.contractId, user.id))) {
+    throw new NotFoundError('Contract', params.contractId)
+  }
+
+  const account = await DepositService.getByContract(params.contractId, user.organizationId)
+  const details = account && await DepositService.getDetails(account.id, user.organizationId)
+  if (!details) throw new NotFoundError('Deposit account')
+
+  // Tenants see the settlement once it is finalized
+  if (user.role === 'tenant' && details.settlement?.status !== 'finalized') {
+    details.settlement = null
+  }
+
+  return apiSuccess(details)
+}, { permission: 'deposits:read' })
@@ -0,0 +1,10 @@
+// src/app/api/v1/deposits/interest/route.ts
+import { DepositService } from '@/lib/db/services/deposits'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+// The rent charge worker does this every month; years already credited are skipped
+export const POST = withApiHandler(async ({ user }) => {
+  const transactions = await DepositService.bookInterest(user.organizationId)
+
+  return apiSuccess(transactions, { message: `${transactions.length} interest postings booked` })
+}, { roles: ['landlord_admin'], permission: 'deposits:write' })
@@ -0,0 +1,21 @@
+// src/app/api/v1/deposits/route.ts
+import { DepositService } from '@/lib/db/services/deposits'
+import { createDepositAccountSchema, depositFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, status } = parseQuery(req, depositFiltersSchema)
+  const result = await DepositService.getAccounts(user.organizationId, {
+    status,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(result)
+}, { roles: ['landlord_admin'], permission: 'deposits:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const { contractId, ...data } = await parseBody(req, createDepositAccountSchema)
+  const account = await DepositService.createAccount(contractId, user.organizationId, data)
+
+  return apiSuccess(account, { status: 201, message: 'Deposit account created' })
+}, { roles: ['landlord_admin'], permission: 'deposits:write' })
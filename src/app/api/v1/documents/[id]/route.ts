@@ -0,0 +1,51 @@
+// src/app/api/v1/documents/[id]/route.ts
+import { DocumentService } from '@/lib/db/services/documents'
+import { AccessDeniedError, NotFoundError } from '@/lib/db/errors'
+import { updateDocumentSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler, type ApiUser } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+/**
+ * Load a document the user may modify: admins any in their organization, tenants their own uploads
+ */
+async function getEditableDocument(id: string, user: ApiUser) {
+  const document = await DocumentService.getById(id, user.organizationId, user.id, user.role)
+  if (!document) throw new NotFoundError('Document', id)
+
+  if (user.role === 'tenant' && document.document.uploadedById !== user.id) {
+    throw new AccessDeniedError('You can only change documents you uploaded')
+  }
+
+  return document
+}
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const document = await DocumentService.getById(params.id, user.organizationId, user.id, user.role)
+  if (!document) throw new NotFoundError('Document', params.id)
+
+  return apiSuccess(document)
+}, { permission: 'documents:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  await getEditableDocument(params.id, user)
+
+  const data = await parseBody(req, updateDocumentSchema)
+  if (user.role === 'tenant') {
+    data.isPublic = undefined
+  }
+
+  const document = await DocumentService.update(params.id, user.organizationId, data)
+  if (!document) throw new NotFoundError('Document', params.id)
+
+  return apiSuccess(document, { message: 'Document updated' })
+}, { permission: 'documents:write' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  await getEditableDocument(params.id, user)
+
+  const deleted = await DocumentService.delete(params.id, user.organizationId)
+  if (!deleted) throw new NotFoundError('Document', params.id)
+
+  return apiSuccess(undefined, { message: 'Document deleted' })
+}, { permission: 'documents:write' })
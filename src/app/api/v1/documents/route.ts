@@ -0,0 +1,41 @@
+// src/app/api/v1/documents/route.ts
+import { DocumentService } from '@/lib/db/services/documents'
+import { ContractService } from '@/lib/db/services/contracts'
+import { AccessDeniedError } from '@/lib/db/errors'
+import { createDocumentSchema, documentFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { category, buildingId, contractId, ticketId, isPublic, page, limit } = parseQuery(req, documentFiltersSchema)
+  const documents = await DocumentService.getDocuments(user.organizationId, {
+    category,
+    buildingId,
+    contractId,
+    ticketId,
+    isPublic,
+    userId: user.id,
+    userRole: user.role,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(documents)
+}, { permission: 'documents:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createDocumentSchema, {
+    organizationId: user.organizationId,
+    uploadedById: user.id,
+  })
+
+  if (user.role === 'tenant') {
+    if (data.contractId && !(await ContractService.hasTenant(data.contractId, user.id))) {
+      throw new AccessDeniedError('You can only attach documents to your own contracts')
+    }
+    // Only the landlord publishes documents to everyone
+    data.isPublic = false
+  }
+
+  const document = await DocumentService.create(data)
+
+  return apiSuccess(document, { status: 201, message: 'Document created' })
+}, { permission: 'documents:write' })
@@ -0,0 +1,22 @@
+// src/app/api/v1/dunning/contracts/[contractId]/pause/route.ts
+import { DunningService } from '@/lib/db/services/dunning'
+import { NotFoundError } from '@/lib/db/errors'
+import { pauseDunningSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { contractId: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, pauseDunningSchema)
+  const contract = await DunningService.pause(params.contractId, user.organizationId, data)
+  if (!contract) throw new NotFoundError('Contract', params.contractId)
+
+  return apiSuccess(contract, { message: 'Dunning paused' })
+}, { roles: ['landlord_admin'], permission: 'dunning:write' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const contract = await DunningService.resume(params.contractId, user.organizationId)
+  if (!contract) throw new NotFoundError('Contract', params.contractId)
+
+  return apiSuccess(contract, { message: 'Dunning resumed' })
+}, { roles: ['landlord_admin'], permission: 'dunning:write' })
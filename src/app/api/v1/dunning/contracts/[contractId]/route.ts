@@ -0,0 +1,18 @@
+// src/app/api/v1/dunning/contracts/[contractId]/route.ts
+import { DunningService } from '@/lib/db/services/dunning'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { contractId: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  if (user.role === 'tenant' && !(await ContractService.hasTenant(params.contractId, user.id))) {
+    throw new NotFoundError('Contract', params.contractId)
+  }
+
+  const history = await DunningService.getHistory(params.contractId, user.organizationId)
+  if (!history) throw new NotFoundError('Contract', params.contractId)
+
+  return apiSuccess(history)
+}, { permission: 'dunning:read' })
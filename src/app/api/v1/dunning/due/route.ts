@@ -0,0 +1,10 @@
+// src/app/api/v1/dunning/due/route.ts
+import { DunningService } from '@/lib/db/services/dunning'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+// The reminders the next dunning run would send
+export const GET = withApiHandler(async ({ user }) => {
+  const due = await DunningService.getDueNotices(user.organizationId)
+
+  return apiSuccess(due)
+}, { roles: ['landlord_admin'], permission: 'dunning:read' })
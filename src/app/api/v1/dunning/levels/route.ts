@@ -0,0 +1,17 @@
+// src/app/api/v1/dunning/levels/route.ts
+import { DunningService } from '@/lib/db/services/dunning'
+import { saveDunningLevelsSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ user }) => {
+  const levels = await DunningService.getLevels(user.organizationId)
+
+  return apiSuccess(levels)
+}, { roles: ['landlord_admin'], permission: 'dunning:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const { levels } = await parseBody(req, saveDunningLevelsSchema)
+  const saved = await DunningService.saveLevels(user.organizationId, levels)
+
+  return apiSuccess(saved, { message: `${saved.length} reminder levels saved` })
+}, { roles: ['landlord_admin'], permission: 'dunning:write' })
@@ -0,0 +1,26 @@
+// src/app/api/v1/dunning/notices/[id]/pdf/route.ts
+import { NextResponse } from 'next/server'
+import { DunningService } from '@/lib/db/services/dunning'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const notice = await DunningService.getById(params.id, user.organizationId)
+  if (!notice) throw new NotFoundError('Dunning notice', params.id)
+
+  if (user.role === 'tenant' && !(await ContractService.hasTenant(notice.contractId, user.id))) {
+    throw new NotFoundError('Dunning notice', params.id)
+  }
+
+  const { filename, content } = await DunningService.getNoticePdf(notice)
+
+  return new NextResponse(new Uint8Array(content), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  })
+}, { permission: 'dunning:read' })
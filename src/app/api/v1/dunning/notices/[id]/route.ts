@@ -0,0 +1,13 @@
+// src/app/api/v1/dunning/notices/[id]/route.ts
+import { DunningService } from '@/lib/db/services/dunning'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const notice = await DunningService.getById(params.id, user.organizationId)
+  if (!notice) throw new NotFoundError('Dunning notice', params.id)
+
+  return apiSuccess(notice)
+}, { roles: ['landlord_admin'], permission: 'dunning:read' })
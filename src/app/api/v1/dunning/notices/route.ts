@@ -0,0 +1,25 @@
+// src/app/api/v1/dunning/notices/route.ts
+import { DunningService } from '@/lib/db/services/dunning'
+import { dunningNoticeFiltersSchema, issueDunningNoticesSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, contractId, level, from, to } = parseQuery(req, dunningNoticeFiltersSchema)
+  const result = await DunningService.getNotices(user.organizationId, {
+    contractId,
+    level,
+    from,
+    to,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(result)
+}, { roles: ['landlord_admin'], permission: 'dunning:read' })
+
+// Issues the due reminders now instead of waiting for the dunning worker
+export const POST = withApiHandler(async ({ req, user }) => {
+  const { contractIds } = await parseBody(req, issueDunningNoticesSchema)
+  const notices = await DunningService.issueNotices(user.organizationId, { contractIds, createdById: user.id })
+
+  return apiSuccess(notices, { status: 201, message: `${notices.length} reminders issued` })
+}, { roles: ['landlord_admin'], permission: 'dunning:write' })
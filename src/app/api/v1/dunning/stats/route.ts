@@ -0,0 +1,9 @@
+// src/app/api/v1/dunning/stats/route.ts
+import { DunningService } from '@/lib/db/services/dunning'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ user }) => {
+  const stats = await DunningService.getStats(user.organizationId)
+
+  return apiSuccess(stats)
+}, { roles: ['landlord_admin'], permission: 'dunning:read' })
@@ -0,0 +1,19 @@
+// src/app/api/v1/invitations/[id]/extend/route.ts
+import { InvitationService } from '@/lib/db/services/invitations'
+import { ConflictError, NotFoundError } from '@/lib/db/errors'
+import { extendInvitationSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { days } = await parseBody(req, extendInvitationSchema)
+
+  const existing = await InvitationService.getById(params.id, user.organizationId)
+  if (!existing) throw new NotFoundError('Invitation', params.id)
+
+  const invitation = await InvitationService.extendExpiry(params.id, user.organizationId, days)
+  if (!invitation) throw new ConflictError('Only unused invitations can be extended')
+
+  return apiSuccess(invitation, { message: 'Invitation extended' })
+}, { roles: ['landlord_admin'], permission: 'invitations:write' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/invitations/[id]/resend/route.ts
+import { InvitationService } from '@/lib/db/services/invitations'
+import { extendInvitationSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { days } = await parseBody(req, extendInvitationSchema)
+  const invitation = await InvitationService.resend(params.id, user.organizationId, { expiresInDays: days })
+
+  return apiSuccess(invitation, { message: 'Invitation sent again with a new link' })
+}, { roles: ['landlord_admin'], permission: 'invitations:write' })
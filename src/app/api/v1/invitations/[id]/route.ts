@@ -0,0 +1,24 @@
+// src/app/api/v1/invitations/[id]/route.ts
+import { InvitationService } from '@/lib/db/services/invitations'
+import { ConflictError, NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const invitation = await InvitationService.getById(params.id, user.organizationId)
+  if (!invitation) throw new NotFoundError('Invitation', params.id)
+
+  return apiSuccess({ ...invitation, status: InvitationService.getStatus(invitation) })
+}, { roles: ['landlord_admin'], permission: 'invitations:read' })
+
+// Revoke the invitation so its link can no longer be used
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const existing = await InvitationService.getById(params.id, user.organizationId)
+  if (!existing) throw new NotFoundError('Invitation', params.id)
+
+  const revoked = await InvitationService.revoke(params.id, user.organizationId, user.id)
+  if (!revoked) throw new ConflictError('Only unused invitations can be revoked')
+
+  return apiSuccess(revoked, { message: 'Invitation revoked' })
+}, { roles: ['landlord_admin'], permission: 'invitations:write' })
@@ -0,0 +1,23 @@
+// src/app/api/v1/invitations/bulk/route.ts
+import { InvitationService } from '@/lib/db/services/invitations'
+import { BuildingService } from '@/lib/db/services/buildings'
+import { NotFoundError } from '@/lib/db/errors'
+import { bulkInvitationSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const { buildingId, csv, expiresInDays } = await parseBody(req, bulkInvitationSchema)
+
+  if (!(await BuildingService.getById(buildingId, user.organizationId))) {
+    throw new NotFoundError('Building', buildingId)
+  }
+
+  const result = await InvitationService.bulkInviteFromCSV(user.organizationId, buildingId, csv, user.id, {
+    expiresInDays,
+  })
+
+  return apiSuccess(result, {
+    status: 201,
+    message: `${result.created.length} invitation(s) sent, ${result.skipped.length} row(s) skipped`,
+  })
+}, { roles: ['landlord_admin'], permission: 'invitations:write' })
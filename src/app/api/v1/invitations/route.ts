@@ -0,0 +1,31 @@
+// src/app/api/v1/invitations/route.ts
+import { InvitationService } from '@/lib/db/services/invitations'
+import { ContractService } from '@/lib/db/services/contracts'
+import { ValidationError } from '@/lib/db/errors'
+import { createInvitationSchema, invitationFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, invitationFiltersSchema)
+  const invitations = await InvitationService.getInvitations(user.organizationId, {
+    ...filters,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(invitations)
+}, { roles: ['landlord_admin'], permission: 'invitations:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createInvitationSchema, {
+    organizationId: user.organizationId,
+    createdById: user.id,
+  })
+
+  if (!(await ContractService.getById(data.contractId, user.organizationId))) {
+    throw new ValidationError('Contract not found in this organization', 'contractId')
+  }
+
+  const invitation = await InvitationService.create(data)
+
+  return apiSuccess(invitation, { status: 201, message: 'Invitation sent' })
+}, { roles: ['landlord_admin'], permission: 'invitations:write' })
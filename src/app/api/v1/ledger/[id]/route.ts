@@ -0,0 +1,20 @@
+// src/app/api/v1/ledger/[id]/route.ts
+import { LedgerService } from '@/lib/db/services/ledger'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const entry = await LedgerService.getById(params.id, user.organizationId)
+  if (!entry) throw new NotFoundError('Ledger entry', params.id)
+
+  return apiSuccess(entry)
+}, { roles: ['landlord_admin'], permission: 'ledger:read' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await LedgerService.delete(params.id, user.organizationId)
+  if (!deleted) throw new NotFoundError('Ledger entry', params.id)
+
+  return apiSuccess(undefined, { message: 'Ledger entry deleted' })
+}, { roles: ['landlord_admin'], permission: 'ledger:write' })
@@ -0,0 +1,11 @@
+// src/app/api/v1/ledger/arrears/route.ts
+import { LedgerService } from '@/lib/db/services/ledger'
+import { arrearsFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseQuery, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { asOf } = parseQuery(req, arrearsFiltersSchema)
+  const arrears = await LedgerService.getArrears(user.organizationId, asOf)
+
+  return apiSuccess(arrears)
+}, { roles: ['landlord_admin'], permission: 'ledger:read' })
@@ -0,0 +1,25 @@
+// src/app/api/v1/ledger/contracts/[contractId]/route.ts
+import { LedgerService } from '@/lib/db/services/ledger'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { arrearsFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseQuery, withApiHandler } from '@/lib/api/handler'
+
+type Params = { contractId: string }
+
+export const GET = withApiHandler<Params>(async ({ req, user, params }) => {
+  if (user.role === 'tenant' && !(await ContractService.hasTenant(params.contractId, user.id))) {
+    throw new NotFoundError('Contract', params.contractId)
+  }
+
+  const { asOf } = parseQuery(req, arrearsFiltersSchema)
+  const balance = await LedgerService.getContractBalance(params.contractId, user.organizationId, asOf)
+  if (!balance) throw new NotFoundError('Contract', params.contractId)
+
+  // Co-tenants only see their own share
+  if (user.role === 'tenant') {
+    balance.tenants = balance.tenants.filter(tenant => tenant.tenantId === user.id)
+  }
+
+  return apiSuccess(balance)
+}, { permission: 'ledger:read' })
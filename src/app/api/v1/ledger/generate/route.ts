@@ -0,0 +1,13 @@
+// src/app/api/v1/ledger/generate/route.ts
+import { LedgerService } from '@/lib/db/services/ledger'
+import { generateRentChargesSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const { period } = await parseBody(req, generateRentChargesSchema)
+  const result = await LedgerService.generateRentCharges(user.organizationId, period)
+
+  return apiSuccess(result, {
+    message: `${result.created.length} rent charges created for ${period}`,
+  })
+}, { roles: ['landlord_admin'], permission: 'ledger:write' })
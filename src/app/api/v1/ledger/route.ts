@@ -0,0 +1,21 @@
+// src/app/api/v1/ledger/route.ts
+import { LedgerService } from '@/lib/db/services/ledger'
+import { createLedgerEntrySchema, ledgerFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, ledgerFiltersSchema)
+  const entries = await LedgerService.getEntries(user.organizationId, {
+    ...filters,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(entries)
+}, { roles: ['landlord_admin'], permission: 'ledger:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createLedgerEntrySchema)
+  const entry = await LedgerService.createEntry(user.organizationId, data, user.id)
+
+  return apiSuccess(entry, { status: 201, message: 'Ledger entry booked' })
+}, { roles: ['landlord_admin'], permission: 'ledger:write' })
@@ -0,0 +1,15 @@
+// src/app/api/v1/meter-submissions/[id]/approve/route.ts
+import { MeterSubmissionService } from '@/lib/db/services/meter-submissions'
+import { NotFoundError } from '@/lib/db/errors'
+import { approveMeterSubmissionSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, approveMeterSubmissionSchema)
+  const submission = await MeterSubmissionService.approve(params.id, user.organizationId, user.id, data)
+  if (!submission) throw new NotFoundError('Meter reading submission', params.id)
+
+  return apiSuccess(submission, { message: 'Meter reading approved' })
+}, { roles: ['landlord_admin'], permission: 'meter-submissions:write' })
@@ -0,0 +1,15 @@
+// src/app/api/v1/meter-submissions/[id]/reject/route.ts
+import { MeterSubmissionService } from '@/lib/db/services/meter-submissions'
+import { NotFoundError } from '@/lib/db/errors'
+import { rejectMeterSubmissionSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { reason } = await parseBody(req, rejectMeterSubmissionSchema)
+  const submission = await MeterSubmissionService.reject(params.id, user.organizationId, user.id, reason)
+  if (!submission) throw new NotFoundError('Meter reading submission', params.id)
+
+  return apiSuccess(submission, { message: 'Meter reading rejected' })
+}, { roles: ['landlord_admin'], permission: 'meter-submissions:write' })
@@ -0,0 +1,26 @@
+// src/app/api/v1/meter-submissions/route.ts
+import { MeterSubmissionService } from '@/lib/db/services/meter-submissions'
+import { createMeterSubmissionSchema, meterSubmissionFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, meterSubmissionFiltersSchema)
+  const submissions = await MeterSubmissionService.getSubmissions(user.organizationId, {
+    ...filters,
+    // Tenants only see their own submissions
+    submittedById: user.role === 'tenant' ? user.id : undefined,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(submissions)
+}, { permission: 'meter-submissions:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const { photo, ...data } = await parseBody(req, createMeterSubmissionSchema)
+  const submission = await MeterSubmissionService.submit(user.organizationId, user.id, {
+    ...data,
+    photo: { ...photo, content: Buffer.from(photo.content, 'base64') },
+  })
+
+  return apiSuccess(submission, { status: 201, message: 'Meter reading submitted for approval' })
+}, { roles: ['tenant'] })
@@ -0,0 +1,14 @@
+// src/app/api/v1/meters/[id]/readings/[readingId]/route.ts
+import { MeterService } from '@/lib/db/services/meters'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string; readingId: string }
+
+// Only the latest reading can be deleted; its derived consumption is deleted with it
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await MeterService.deleteReading(params.id, params.readingId, user.organizationId)
+  if (!deleted) throw new NotFoundError('Reading', params.readingId)
+
+  return apiSuccess(undefined, { message: 'Reading deleted' })
+}, { roles: ['landlord_admin'], permission: 'meters:write' })
@@ -0,0 +1,22 @@
+// src/app/api/v1/meters/[id]/readings/route.ts
+import { MeterService } from '@/lib/db/services/meters'
+import { NotFoundError } from '@/lib/db/errors'
+import { createMeterReadingSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const meter = await MeterService.getById(params.id, user.organizationId)
+  if (!meter) throw new NotFoundError('Meter', params.id)
+
+  return apiSuccess(await MeterService.getReadings(meter.id))
+}, { roles: ['landlord_admin'], permission: 'meters:read' })
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, createMeterReadingSchema)
+  const reading = await MeterService.recordReading(params.id, user.organizationId, data, user.id)
+  if (!reading) throw new NotFoundError('Meter', params.id)
+
+  return apiSuccess(reading, { status: 201, message: 'Reading recorded' })
+}, { roles: ['landlord_admin'], permission: 'meters:write' })
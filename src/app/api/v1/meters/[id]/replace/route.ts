@@ -0,0 +1,15 @@
+// src/app/api/v1/meters/[id]/replace/route.ts
+import { MeterService } from '@/lib/db/services/meters'
+import { NotFoundError } from '@/lib/db/errors'
+import { replaceMeterSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, replaceMeterSchema)
+  const meter = await MeterService.replace(params.id, user.organizationId, data, user.id)
+  if (!meter) throw new NotFoundError('Meter', params.id)
+
+  return apiSuccess(meter, { status: 201, message: 'Meter replaced' })
+}, { roles: ['landlord_admin'], permission: 'meters:write' })
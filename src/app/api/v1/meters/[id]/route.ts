@@ -0,0 +1,22 @@
+// src/app/api/v1/meters/[id]/route.ts
+import { MeterService } from '@/lib/db/services/meters'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateMeterSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const meter = await MeterService.getDetails(params.id, user.organizationId)
+  if (!meter) throw new NotFoundError('Meter', params.id)
+
+  return apiSuccess(meter)
+}, { roles: ['landlord_admin'], permission: 'meters:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateMeterSchema)
+  const meter = await MeterService.update(params.id, user.organizationId, data)
+  if (!meter) throw new NotFoundError('Meter', params.id)
+
+  return apiSuccess(meter, { message: 'Meter updated' })
+}, { roles: ['landlord_admin'], permission: 'meters:write' })
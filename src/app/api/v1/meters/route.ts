@@ -0,0 +1,26 @@
+// src/app/api/v1/meters/route.ts
+import { MeterService } from '@/lib/db/services/meters'
+import { createMeterSchema, meterFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  // Tenants see the meters of the units they currently rent
+  if (user.role === 'tenant') {
+    return apiSuccess(await MeterService.getByTenant(user.id, user.organizationId))
+  }
+
+  const { page, limit, ...filters } = parseQuery(req, meterFiltersSchema)
+  const result = await MeterService.getMeters(user.organizationId, {
+    ...filters,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(result)
+}, { permission: 'meters:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createMeterSchema)
+  const meter = await MeterService.create(user.organizationId, data, user.id)
+
+  return apiSuccess(meter, { status: 201, message: 'Meter registered' })
+}, { roles: ['landlord_admin'], permission: 'meters:write' })
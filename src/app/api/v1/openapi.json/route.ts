@@ -0,0 +1,8 @@
+// src/app/api/v1/openapi.json/route.ts
+import { NextResponse } from 'next/server'
+import { generateOpenApiDocument } from '@/lib/api/openapi'
+
+// Public so integration partners can generate clients before they have credentials
+export async function GET() {
+  return NextResponse.json(generateOpenApiDocument())
+}
@@ -0,0 +1,13 @@
+// src/app/api/v1/operating-costs/[id]/calculate/route.ts
+import { OperatingCostService } from '@/lib/db/services/operating-costs'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const details = await OperatingCostService.calculate(params.id, user.organizationId)
+  if (!details) throw new NotFoundError('Settlement', params.id)
+
+  return apiSuccess(details, { message: `${details.statements.length} statement(s) calculated` })
+}, { roles: ['landlord_admin'], permission: 'operating-costs:write' })
@@ -0,0 +1,22 @@
+// src/app/api/v1/operating-costs/[id]/items/[itemId]/route.ts
+import { OperatingCostService } from '@/lib/db/services/operating-costs'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateOperatingCostItemSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string; itemId: string }
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateOperatingCostItemSchema)
+  const item = await OperatingCostService.updateItem(params.id, params.itemId, user.organizationId, data)
+  if (!item) throw new NotFoundError('Cost item', params.itemId)
+
+  return apiSuccess(item, { message: 'Cost updated' })
+}, { roles: ['landlord_admin'], permission: 'operating-costs:write' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await OperatingCostService.deleteItem(params.id, params.itemId, user.organizationId)
+  if (!deleted) throw new NotFoundError('Cost item', params.itemId)
+
+  return apiSuccess(undefined, { message: 'Cost deleted' })
+}, { roles: ['landlord_admin'], permission: 'operating-costs:write' })
@@ -0,0 +1,15 @@
+// src/app/api/v1/operating-costs/[id]/items/route.ts
+import { OperatingCostService } from '@/lib/db/services/operating-costs'
+import { NotFoundError } from '@/lib/db/errors'
+import { createOperatingCostItemSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, createOperatingCostItemSchema)
+  const item = await OperatingCostService.addItem(params.id, user.organizationId, data)
+  if (!item) throw new NotFoundError('Settlement', params.id)
+
+  return apiSuccess(item, { status: 201, message: 'Cost added' })
+}, { roles: ['landlord_admin'], permission: 'operating-costs:write' })
@@ -0,0 +1,29 @@
+// src/app/api/v1/operating-costs/[id]/route.ts
+import { OperatingCostService } from '@/lib/db/services/operating-costs'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateOperatingCostSettlementSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const details = await OperatingCostService.getDetails(params.id, user.organizationId)
+  if (!details) throw new NotFoundError('Settlement', params.id)
+
+  return apiSuccess(details)
+}, { roles: ['landlord_admin'], permission: 'operating-costs:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateOperatingCostSettlementSchema)
+  const settlement = await OperatingCostService.updateSettlement(params.id, user.organizationId, data)
+  if (!settlement) throw new NotFoundError('Settlement', params.id)
+
+  return apiSuccess(settlement, { message: 'Settlement updated' })
+}, { roles: ['landlord_admin'], permission: 'operating-costs:write' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await OperatingCostService.deleteSettlement(params.id, user.organizationId)
+  if (!deleted) throw new NotFoundError('Settlement', params.id)
+
+  return apiSuccess(undefined, { message: 'Settlement deleted' })
+}, { roles: ['landlord_admin'], permission: 'operating-costs:write' })
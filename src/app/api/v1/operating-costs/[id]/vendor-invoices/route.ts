@@ -0,0 +1,13 @@
+// src/app/api/v1/operating-costs/[id]/vendor-invoices/route.ts
+import { OperatingCostService } from '@/lib/db/services/operating-costs'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const items = await OperatingCostService.importVendorInvoices(params.id, user.organizationId)
+  if (!items) throw new NotFoundError('Settlement', params.id)
+
+  return apiSuccess(items, { status: 201, message: `${items.length} invoices taken over as costs` })
+}, { roles: ['landlord_admin'], permission: 'operating-costs:write' })
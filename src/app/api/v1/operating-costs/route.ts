@@ -0,0 +1,22 @@
+// src/app/api/v1/operating-costs/route.ts
+import { OperatingCostService } from '@/lib/db/services/operating-costs'
+import { createOperatingCostSettlementSchema, operatingCostSettlementFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { buildingId, status, ...pagination } = parseQuery(req, operatingCostSettlementFiltersSchema)
+  const settlements = await OperatingCostService.getSettlements(user.organizationId, {
+    buildingId,
+    status,
+    ...toLimitOffset(pagination),
+  })
+
+  return apiSuccess(settlements)
+}, { roles: ['landlord_admin'], permission: 'operating-costs:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createOperatingCostSettlementSchema)
+  const settlement = await OperatingCostService.createSettlement(user.organizationId, data, user.id)
+
+  return apiSuccess(settlement, { status: 201, message: 'Settlement created' })
+}, { roles: ['landlord_admin'], permission: 'operating-costs:write' })
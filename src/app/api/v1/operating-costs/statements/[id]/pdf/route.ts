@@ -0,0 +1,30 @@
+// src/app/api/v1/operating-costs/statements/[id]/pdf/route.ts
+import { NextResponse } from 'next/server'
+import { OperatingCostService } from '@/lib/db/services/operating-costs'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const found = await OperatingCostService.getStatementById(params.id, user.organizationId)
+  if (!found) throw new NotFoundError('Operating cost statement', params.id)
+
+  const { statement, settlement } = found
+  if (
+    user.role === 'tenant' &&
+    (settlement.status !== 'finalized' || !(await ContractService.hasTenant(statement.contractId, user.id)))
+  ) {
+    throw new NotFoundError('Operating cost statement', params.id)
+  }
+
+  const { filename, content } = await OperatingCostService.getStatementPdf(statement, settlement)
+
+  return new NextResponse(new Uint8Array(content), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  })
+}, { permission: 'operating-costs:read' })
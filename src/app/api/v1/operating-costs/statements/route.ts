@@ -0,0 +1,16 @@
+// src/app/api/v1/operating-costs/statements/route.ts
+import { OperatingCostService } from '@/lib/db/services/operating-costs'
+import { operatingCostStatementFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { contractId, ...pagination } = parseQuery(req, operatingCostStatementFiltersSchema)
+  const statements = await OperatingCostService.getStatements(user.organizationId, {
+    contractId,
+    // Tenants only see the finalized statements of their own contracts
+    tenantId: user.role === 'tenant' ? user.id : undefined,
+    ...toLimitOffset(pagination),
+  })
+
+  return apiSuccess(statements)
+}, { permission: 'operating-costs:read' })
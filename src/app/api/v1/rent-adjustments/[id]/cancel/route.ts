@@ -0,0 +1,13 @@
+// src/app/api/v1/rent-adjustments/[id]/cancel/route.ts
+import { RentAdjustmentService } from '@/lib/db/services/rent-adjustments'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const adjustment = await RentAdjustmentService.cancel(params.id, user.organizationId)
+  if (!adjustment) throw new NotFoundError('Rent adjustment', params.id)
+
+  return apiSuccess(adjustment, { message: 'Rent adjustment cancelled' })
+}, { roles: ['landlord_admin'], permission: 'rent-adjustments:write' })
@@ -0,0 +1,29 @@
+// src/app/api/v1/rent-adjustments/[id]/notice/route.ts
+import { NextResponse } from 'next/server'
+import { RentAdjustmentService } from '@/lib/db/services/rent-adjustments'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const adjustment = await RentAdjustmentService.getById(params.id, user.organizationId)
+  if (!adjustment) throw new NotFoundError('Rent adjustment', params.id)
+
+  if (
+    user.role === 'tenant' &&
+    (adjustment.status === 'cancelled' || !(await ContractService.hasTenant(adjustment.contractId, user.id)))
+  ) {
+    throw new NotFoundError('Rent adjustment', params.id)
+  }
+
+  const { filename, content } = await RentAdjustmentService.getNoticePdf(adjustment)
+
+  return new NextResponse(new Uint8Array(content), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  })
+}, { permission: 'rent-adjustments:read' })
@@ -0,0 +1,23 @@
+// src/app/api/v1/rent-adjustments/contracts/[contractId]/route.ts
+import { RentAdjustmentService } from '@/lib/db/services/rent-adjustments'
+import { ContractService } from '@/lib/db/services/contracts'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { contractId: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  if (user.role === 'tenant' && !(await ContractService.hasTenant(params.contractId, user.id))) {
+    throw new NotFoundError('Contract', params.contractId)
+  }
+
+  const history = await RentAdjustmentService.getHistory(params.contractId, user.organizationId)
+  if (!history) throw new NotFoundError('Contract', params.contractId)
+
+  // Tenants see the rent changes announced to them, not cancelled drafts
+  if (user.role === 'tenant') {
+    history.adjustments = history.adjustments.filter(adjustment => adjustment.status !== 'cancelled')
+  }
+
+  return apiSuccess(history)
+}, { permission: 'rent-adjustments:read' })
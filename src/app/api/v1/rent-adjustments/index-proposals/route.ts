@@ -0,0 +1,11 @@
+// src/app/api/v1/rent-adjustments/index-proposals/route.ts
+import { RentAdjustmentService } from '@/lib/db/services/rent-adjustments'
+import { indexProposalFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseQuery, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { noticeDate } = parseQuery(req, indexProposalFiltersSchema)
+  const proposals = await RentAdjustmentService.getIndexProposals(user.organizationId, noticeDate)
+
+  return apiSuccess(proposals)
+}, { roles: ['landlord_admin'], permission: 'rent-adjustments:read' })
@@ -0,0 +1,17 @@
+// src/app/api/v1/rent-adjustments/price-index/route.ts
+import { RentAdjustmentService } from '@/lib/db/services/rent-adjustments'
+import { savePriceIndexValuesSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ user }) => {
+  const values = await RentAdjustmentService.getPriceIndex(user.organizationId)
+
+  return apiSuccess(values)
+}, { roles: ['landlord_admin'], permission: 'rent-adjustments:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const { values } = await parseBody(req, savePriceIndexValuesSchema)
+  const saved = await RentAdjustmentService.savePriceIndexValues(user.organizationId, values)
+
+  return apiSuccess(saved, { message: `${saved.length} index values saved` })
+}, { roles: ['landlord_admin'], permission: 'rent-adjustments:write' })
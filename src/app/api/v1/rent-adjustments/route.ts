@@ -0,0 +1,52 @@
+// src/app/api/v1/rent-adjustments/route.ts
+import { RentAdjustmentService } from '@/lib/db/services/rent-adjustments'
+import { createRentAdjustmentSchema, rentAdjustmentFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, contractId, type, status, dueBefore } = parseQuery(req, rentAdjustmentFiltersSchema)
+  const result = await RentAdjustmentService.getAdjustments(user.organizationId, {
+    contractId,
+    type,
+    status,
+    dueBefore,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(result)
+}, { roles: ['landlord_admin'], permission: 'rent-adjustments:read' })
+
+// Graduated rents schedule all steps at once and return them as a list
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createRentAdjustmentSchema)
+
+  switch (data.type) {
+    case 'graduated': {
+      const steps = await RentAdjustmentService.scheduleGraduatedRent(
+        data.contractId,
+        user.organizationId,
+        data.steps,
+        user.id
+      )
+      return apiSuccess(steps, { status: 201, message: `${steps.length} rent steps scheduled` })
+    }
+    case 'index': {
+      const adjustment = await RentAdjustmentService.createIndexAdjustment(
+        data.contractId,
+        user.organizationId,
+        data.noticeDate || new Date(),
+        user.id
+      )
+      return apiSuccess(adjustment, { status: 201, message: 'Rent adjustment scheduled' })
+    }
+    case 'manual': {
+      const adjustment = await RentAdjustmentService.createManualAdjustment(
+        data.contractId,
+        user.organizationId,
+        data,
+        user.id
+      )
+      return apiSuccess(adjustment, { status: 201, message: 'Rent adjustment scheduled' })
+    }
+  }
+}, { roles: ['landlord_admin'], permission: 'rent-adjustments:write' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/sepa/batches/[id]/route.ts
+import { SepaService } from '@/lib/db/services/sepa'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const batch = await SepaService.getBatchById(params.id, user.organizationId)
+  if (!batch) throw new NotFoundError('Direct debit batch', params.id)
+
+  return apiSuccess(batch)
+}, { roles: ['landlord_admin'], permission: 'sepa:read' })
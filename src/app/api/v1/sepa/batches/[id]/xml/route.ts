@@ -0,0 +1,20 @@
+// src/app/api/v1/sepa/batches/[id]/xml/route.ts
+import { NextResponse } from 'next/server'
+import { SepaService } from '@/lib/db/services/sepa'
+import { NotFoundError } from '@/lib/db/errors'
+import { withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+// The pain.008 file to upload to the bank
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const batch = await SepaService.getBatchById(params.id, user.organizationId)
+  if (!batch) throw new NotFoundError('Direct debit batch', params.id)
+
+  return new NextResponse(batch.xml, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${batch.messageId}.xml"`,
+    },
+  })
+}, { roles: ['landlord_admin'], permission: 'sepa:read' })
@@ -0,0 +1,23 @@
+// src/app/api/v1/sepa/batches/route.ts
+import { SepaService } from '@/lib/db/services/sepa'
+import { generateDirectDebitBatchSchema, paginationSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const batches = await SepaService.getBatches(
+    user.organizationId,
+    toLimitOffset(parseQuery(req, paginationSchema))
+  )
+
+  return apiSuccess(batches)
+}, { roles: ['landlord_admin'], permission: 'sepa:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, generateDirectDebitBatchSchema)
+  const result = await SepaService.generateBatch(user.organizationId, data, user.id)
+
+  return apiSuccess(result, {
+    status: 201,
+    message: `${result.batch.transactionCount} direct debit(s) over ${result.batch.totalAmount} EUR, ${result.skipped.length} contract(s) skipped`,
+  })
+}, { roles: ['landlord_admin'], permission: 'sepa:write' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/sepa/mandates/[id]/revoke/route.ts
+import { SepaService } from '@/lib/db/services/sepa'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const mandate = await SepaService.revokeMandate(params.id, user.organizationId)
+  if (!mandate) throw new NotFoundError('Mandate', params.id)
+
+  return apiSuccess(mandate, { message: 'Mandate revoked' })
+}, { roles: ['landlord_admin'], permission: 'sepa:write' })
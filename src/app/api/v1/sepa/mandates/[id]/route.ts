@@ -0,0 +1,22 @@
+// src/app/api/v1/sepa/mandates/[id]/route.ts
+import { SepaService } from '@/lib/db/services/sepa'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateSepaMandateSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const mandate = await SepaService.getMandateById(params.id, user.organizationId)
+  if (!mandate) throw new NotFoundError('Mandate', params.id)
+
+  return apiSuccess(mandate)
+}, { roles: ['landlord_admin'], permission: 'sepa:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateSepaMandateSchema)
+  const mandate = await SepaService.updateMandate(params.id, user.organizationId, data)
+  if (!mandate) throw new NotFoundError('Mandate', params.id)
+
+  return apiSuccess(mandate, { message: 'Mandate updated' })
+}, { roles: ['landlord_admin'], permission: 'sepa:write' })
@@ -0,0 +1,23 @@
+// src/app/api/v1/sepa/mandates/route.ts
+import { SepaService } from '@/lib/db/services/sepa'
+import { createSepaMandateSchema, sepaMandateFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, contractId, tenantId, status } = parseQuery(req, sepaMandateFiltersSchema)
+  const result = await SepaService.getMandates(user.organizationId, {
+    contractId,
+    tenantId,
+    status,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(result)
+}, { roles: ['landlord_admin'], permission: 'sepa:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createSepaMandateSchema)
+  const mandate = await SepaService.createMandate(user.organizationId, data, user.id)
+
+  return apiSuccess(mandate, { status: 201, message: 'Mandate created' })
+}, { roles: ['landlord_admin'], permission: 'sepa:write' })
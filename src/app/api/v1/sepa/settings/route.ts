@@ -0,0 +1,20 @@
+// src/app/api/v1/sepa/settings/route.ts
+import { SepaService } from '@/lib/db/services/sepa'
+import { NotFoundError } from '@/lib/db/errors'
+import { sepaSettingsSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ user }) => {
+  const settings = await SepaService.getSettings(user.organizationId)
+  if (!settings) throw new NotFoundError('Organization', user.organizationId)
+
+  return apiSuccess(settings)
+}, { roles: ['landlord_admin'], permission: 'sepa:read' })
+
+export const PATCH = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, sepaSettingsSchema)
+  const settings = await SepaService.updateSettings(user.organizationId, data)
+  if (!settings) throw new NotFoundError('Organization', user.organizationId)
+
+  return apiSuccess(settings, { message: 'SEPA settings updated' })
+}, { roles: ['landlord_admin'], permission: 'sepa:write' })
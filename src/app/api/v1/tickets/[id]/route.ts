@@ -0,0 +1,32 @@
+// src/app/api/v1/tickets/[id]/route.ts
+import { TicketService } from '@/lib/db/services/tickets'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateTicketSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const ticket = await TicketService.getById(params.id, user.organizationId, user.id, user.role)
+  if (!ticket) throw new NotFoundError('Ticket', params.id)
+
+  return apiSuccess(ticket)
+}, { permission: 'tickets:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateTicketSchema)
+
+  const ticket = await TicketService.update(
+    params.id,
+    user.organizationId,
+    {
+      ...data,
+      ...(data.status === 'resolved' || data.status === 'closed' ? { resolvedAt: new Date() } : {}),
+    },
+    user.id,
+    user.role
+  )
+  if (!ticket) throw new NotFoundError('Ticket', params.id)
+
+  return apiSuccess(ticket, { message: 'Ticket updated' })
+}, { permission: 'tickets:write' })
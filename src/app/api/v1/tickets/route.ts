@@ -0,0 +1,50 @@
+// src/app/api/v1/tickets/route.ts
+import { TicketService } from '@/lib/db/services/tickets'
+import { ContractService } from '@/lib/db/services/contracts'
+import { BuildingService } from '@/lib/db/services/buildings'
+import { AccessDeniedError, ValidationError } from '@/lib/db/errors'
+import { createTicketSchema, ticketFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, ticketFiltersSchema)
+  const tickets = await TicketService.getByOrganization(user.organizationId, {
+    ...filters,
+    userId: user.id,
+    userRole: user.role,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(tickets)
+}, { permission: 'tickets:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createTicketSchema, {
+    organizationId: user.organizationId,
+    createdById: user.id,
+  })
+
+  if (user.role === 'tenant') {
+    // Tenants report issues for their own unit; triage fields stay with the landlord
+    if (!data.contractId) {
+      throw new ValidationError('contractId is required', 'contractId')
+    }
+
+    const contract = await ContractService.getById(data.contractId, user.organizationId)
+    if (!contract || !(await ContractService.hasTenant(contract.id, user.id))) {
+      throw new AccessDeniedError('You can only create tickets for your own contracts')
+    }
+
+    data.buildingId = contract.buildingId
+    data.status = 'open'
+    data.assignedToId = undefined
+    data.estimatedCost = undefined
+    data.actualCost = undefined
+  } else if (!(await BuildingService.getById(data.buildingId, user.organizationId))) {
+    throw new ValidationError('Building not found in this organization', 'buildingId')
+  }
+
+  const ticket = await TicketService.create(data)
+
+  return apiSuccess(ticket, { status: 201, message: 'Ticket created' })
+}, { permission: 'tickets:write' })
@@ -0,0 +1,29 @@
+// src/app/api/v1/units/[id]/route.ts
+import { UnitService } from '@/lib/db/services/units'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateUnitSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const unit = await UnitService.getDetails(params.id, user.organizationId)
+  if (!unit) throw new NotFoundError('Unit', params.id)
+
+  return apiSuccess(unit)
+}, { roles: ['landlord_admin'], permission: 'units:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateUnitSchema)
+  const unit = await UnitService.update(params.id, user.organizationId, data)
+  if (!unit) throw new NotFoundError('Unit', params.id)
+
+  return apiSuccess(unit, { message: 'Unit updated' })
+}, { roles: ['landlord_admin'], permission: 'units:write' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await UnitService.delete(params.id, user.organizationId)
+  if (!deleted) throw new NotFoundError('Unit', params.id)
+
+  return apiSuccess(undefined, { message: 'Unit deleted' })
+}, { roles: ['landlord_admin'], permission: 'units:write' })
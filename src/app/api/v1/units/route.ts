@@ -0,0 +1,21 @@
+// src/app/api/v1/units/route.ts
+import { UnitService } from '@/lib/db/services/units'
+import { createUnitSchema, unitFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, unitFiltersSchema)
+  const result = await UnitService.getUnits(user.organizationId, {
+    ...filters,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(result)
+}, { roles: ['landlord_admin'], permission: 'units:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createUnitSchema)
+  const unit = await UnitService.create(user.organizationId, data)
+
+  return apiSuccess(unit, { status: 201, message: 'Unit created' })
+}, { roles: ['landlord_admin'], permission: 'units:write' })
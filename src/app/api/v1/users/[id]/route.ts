@@ -0,0 +1,59 @@
+// src/app/api/v1/users/[id]/route.ts
+import { UserService } from '@/lib/db/services/users'
+import { AccessDeniedError, ConflictError, NotFoundError } from '@/lib/db/errors'
+import { updateUserSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+import { toPublicUser } from '@/lib/api/serializers'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  if (user.role === 'tenant' && params.id !== user.id) {
+    throw new AccessDeniedError()
+  }
+
+  const found = await UserService.getById(params.id, user.organizationId)
+  if (!found) throw new NotFoundError('User', params.id)
+
+  return apiSuccess(toPublicUser(found))
+}, { permission: 'users:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const isSelf = params.id === user.id
+  if (user.role === 'tenant' && !isSelf) {
+    throw new AccessDeniedError()
+  }
+
+  const data = await parseBody(req, updateUserSchema)
+
+  // Users may edit their own profile, but only admins change roles and emails
+  if (user.role === 'tenant' || isSelf) {
+    if (data.role && data.role !== user.role) {
+      throw new AccessDeniedError('You cannot change your own role')
+    }
+    if (user.role === 'tenant') {
+      data.email = undefined
+    }
+  }
+
+  if (data.email && !(await UserService.isEmailAvailable(data.email, params.id))) {
+    throw new ConflictError('A user with this email already exists')
+  }
+
+  const updated = await UserService.update(params.id, user.organizationId, data)
+  if (!updated) throw new NotFoundError('User', params.id)
+
+  return apiSuccess(toPublicUser(updated), { message: 'User updated' })
+}, { permission: 'users:write' })
+
+// Users are deactivated rather than deleted so their history stays intact
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  if (params.id === user.id) {
+    throw new ConflictError('You cannot deactivate your own account')
+  }
+
+  const deactivated = await UserService.deactivate(params.id, user.organizationId)
+  if (!deactivated) throw new NotFoundError('User', params.id)
+
+  return apiSuccess(undefined, { message: 'User deactivated' })
+}, { roles: ['landlord_admin'], permission: 'users:write' })
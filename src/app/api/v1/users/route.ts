@@ -0,0 +1,29 @@
+// src/app/api/v1/users/route.ts
+import { UserService } from '@/lib/db/services/users'
+import { ConflictError } from '@/lib/db/errors'
+import { createUserSchema, userFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+import { toPublicUser } from '@/lib/api/serializers'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { role, isActive, ...pagination } = parseQuery(req, userFiltersSchema)
+  const users = await UserService.getByOrganization(user.organizationId, {
+    role,
+    isActive,
+    ...toLimitOffset(pagination),
+  })
+
+  return apiSuccess(users.map(toPublicUser))
+}, { roles: ['landlord_admin'], permission: 'users:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createUserSchema, { organizationId: user.organizationId })
+
+  if (!(await UserService.isEmailAvailable(data.email))) {
+    throw new ConflictError('A user with this email already exists')
+  }
+
+  const created = await UserService.create(data)
+
+  return apiSuccess(toPublicUser(created), { status: 201, message: 'User created' })
+}, { roles: ['landlord_admin'], permission: 'users:write' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/vendor-invoices/[id]/approve/route.ts
+import { VendorInvoiceService } from '@/lib/db/services/vendor-invoices'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const invoice = await VendorInvoiceService.approve(params.id, user.organizationId, user.id)
+  if (!invoice) throw new NotFoundError('Invoice', params.id)
+
+  return apiSuccess(invoice, { message: 'Invoice approved for payment' })
+}, { roles: ['landlord_admin'], permission: 'vendor-invoices:write' })
@@ -0,0 +1,15 @@
+// src/app/api/v1/vendor-invoices/[id]/pay/route.ts
+import { VendorInvoiceService } from '@/lib/db/services/vendor-invoices'
+import { NotFoundError } from '@/lib/db/errors'
+import { payVendorInvoiceSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, payVendorInvoiceSchema)
+  const invoice = await VendorInvoiceService.markPaid(params.id, user.organizationId, data)
+  if (!invoice) throw new NotFoundError('Invoice', params.id)
+
+  return apiSuccess(invoice, { message: 'Invoice marked as paid' })
+}, { roles: ['landlord_admin'], permission: 'vendor-invoices:write' })
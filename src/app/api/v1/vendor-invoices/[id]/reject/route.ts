@@ -0,0 +1,15 @@
+// src/app/api/v1/vendor-invoices/[id]/reject/route.ts
+import { VendorInvoiceService } from '@/lib/db/services/vendor-invoices'
+import { NotFoundError } from '@/lib/db/errors'
+import { rejectVendorInvoiceSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { reason } = await parseBody(req, rejectVendorInvoiceSchema)
+  const invoice = await VendorInvoiceService.reject(params.id, user.organizationId, reason)
+  if (!invoice) throw new NotFoundError('Invoice', params.id)
+
+  return apiSuccess(invoice, { message: 'Invoice rejected' })
+}, { roles: ['landlord_admin'], permission: 'vendor-invoices:write' })
@@ -0,0 +1,29 @@
+// src/app/api/v1/vendor-invoices/[id]/route.ts
+import { VendorInvoiceService } from '@/lib/db/services/vendor-invoices'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateVendorInvoiceSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const details = await VendorInvoiceService.getDetails(params.id, user.organizationId)
+  if (!details) throw new NotFoundError('Invoice', params.id)
+
+  return apiSuccess(details)
+}, { roles: ['landlord_admin'], permission: 'vendor-invoices:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateVendorInvoiceSchema)
+  const invoice = await VendorInvoiceService.update(params.id, user.organizationId, data)
+  if (!invoice) throw new NotFoundError('Invoice', params.id)
+
+  return apiSuccess(invoice, { message: 'Invoice updated' })
+}, { roles: ['landlord_admin'], permission: 'vendor-invoices:write' })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await VendorInvoiceService.delete(params.id, user.organizationId)
+  if (!deleted) throw new NotFoundError('Invoice', params.id)
+
+  return apiSuccess(undefined, { message: 'Invoice deleted' })
+}, { roles: ['landlord_admin'], permission: 'vendor-invoices:write' })
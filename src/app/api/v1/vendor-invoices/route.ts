@@ -0,0 +1,18 @@
+// src/app/api/v1/vendor-invoices/route.ts
+import { VendorInvoiceService } from '@/lib/db/services/vendor-invoices'
+import { createVendorInvoiceSchema, vendorInvoiceFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, ...filters } = parseQuery(req, vendorInvoiceFiltersSchema)
+  const result = await VendorInvoiceService.getInvoices(user.organizationId, filters, toLimitOffset({ page, limit }))
+
+  return apiSuccess(result)
+}, { roles: ['landlord_admin'], permission: 'vendor-invoices:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createVendorInvoiceSchema)
+  const invoice = await VendorInvoiceService.create(user.organizationId, data, user.id)
+
+  return apiSuccess(invoice, { status: 201, message: 'Invoice recorded' })
+}, { roles: ['landlord_admin'], permission: 'vendor-invoices:write' })
@@ -0,0 +1,22 @@
+// src/app/api/v1/vendors/[id]/route.ts
+import { VendorService } from '@/lib/db/services/vendors'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateVendorSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const vendor = await VendorService.getById(params.id, user.organizationId)
+  if (!vendor) throw new NotFoundError('Vendor', params.id)
+
+  return apiSuccess(vendor)
+}, { roles: ['landlord_admin'], permission: 'vendors:read' })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateVendorSchema)
+  const vendor = await VendorService.update(params.id, user.organizationId, data)
+  if (!vendor) throw new NotFoundError('Vendor', params.id)
+
+  return apiSuccess(vendor, { message: 'Vendor updated' })
+}, { roles: ['landlord_admin'], permission: 'vendors:write' })
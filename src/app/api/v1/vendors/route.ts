@@ -0,0 +1,22 @@
+// src/app/api/v1/vendors/route.ts
+import { VendorService } from '@/lib/db/services/vendors'
+import { createVendorSchema, vendorFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+export const GET = withApiHandler(async ({ req, user }) => {
+  const { page, limit, search, isActive } = parseQuery(req, vendorFiltersSchema)
+  const result = await VendorService.getVendors(user.organizationId, {
+    search,
+    isActive,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(result)
+}, { roles: ['landlord_admin'], permission: 'vendors:read' })
+
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createVendorSchema)
+  const vendor = await VendorService.create(user.organizationId, data)
+
+  return apiSuccess(vendor, { status: 201, message: 'Vendor created' })
+}, { roles: ['landlord_admin'], permission: 'vendors:write' })
@@ -0,0 +1,13 @@
+// src/app/api/v1/webhooks/[id]/deliveries/[deliveryId]/retry/route.ts
+import { WebhookService } from '@/lib/db/services/webhooks'
+import { ConflictError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string; deliveryId: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const delivery = await WebhookService.retryDelivery(params.deliveryId, params.id, user.organizationId)
+  if (!delivery) throw new ConflictError('Only failed deliveries can be retried')
+
+  return apiSuccess(delivery, { message: 'Delivery queued again' })
+}, { roles: ['landlord_admin'] })
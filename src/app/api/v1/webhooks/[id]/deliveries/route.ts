@@ -0,0 +1,23 @@
+// src/app/api/v1/webhooks/[id]/deliveries/route.ts
+import { WebhookService } from '@/lib/db/services/webhooks'
+import { NotFoundError } from '@/lib/db/errors'
+import { webhookDeliveryFiltersSchema } from '@/lib/db/validations'
+import { apiSuccess, parseQuery, toLimitOffset, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ req, user, params }) => {
+  const { status, event, page, limit } = parseQuery(req, webhookDeliveryFiltersSchema)
+
+  if (!(await WebhookService.getById(params.id, user.organizationId))) {
+    throw new NotFoundError('Webhook', params.id)
+  }
+
+  const deliveries = await WebhookService.getDeliveries(params.id, user.organizationId, {
+    status,
+    event,
+    ...toLimitOffset({ page, limit }),
+  })
+
+  return apiSuccess(deliveries)
+}, { roles: ['landlord_admin'] })
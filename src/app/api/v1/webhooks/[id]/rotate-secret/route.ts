@@ -0,0 +1,13 @@
+// src/app/api/v1/webhooks/[id]/rotate-secret/route.ts
+import { WebhookService } from '@/lib/db/services/webhooks'
+import { NotFoundError } from '@/lib/db/errors'
+import { apiSuccess, withApiHandler } from '@/lib/api/handler'
+
+type Params = { id: string }
+
+export const POST = withApiHandler<Params>(async ({ user, params }) => {
+  const subscription = await WebhookService.rotateSecret(params.id, user.organizationId)
+  if (!subscription) throw new NotFoundError('Webhook', params.id)
+
+  return apiSuccess(subscription, { message: 'Webhook secret rotated' })
+}, { roles: ['landlord_admin'] })
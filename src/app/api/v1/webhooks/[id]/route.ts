@@ -0,0 +1,31 @@
+// src/app/api/v1/webhooks/[id]/route.ts
+import { WebhookService } from '@/lib/db/services/webhooks'
+import { NotFoundError } from '@/lib/db/errors'
+import { updateWebhookSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+import { toPublicWebhook } from '@/lib/api/serializers'
+
+type Params = { id: string }
+
+export const GET = withApiHandler<Params>(async ({ user, params }) => {
+  const subscription = await WebhookService.getById(params.id, user.organizationId)
+  if (!subscription) throw new NotFoundError('Webhook', params.id)
+
+  return apiSuccess(toPublicWebhook(subscription))
+}, { roles: ['landlord_admin'] })
+
+export const PATCH = withApiHandler<Params>(async ({ req, user, params }) => {
+  const data = await parseBody(req, updateWebhookSchema)
+
+  const subscription = await WebhookService.update(params.id, user.organizationId, data)
+  if (!subscription) throw new NotFoundError('Webhook', params.id)
+
+  return apiSuccess(toPublicWebhook(subscription), { message: 'Webhook updated' })
+}, { roles: ['landlord_admin'] })
+
+export const DELETE = withApiHandler<Params>(async ({ user, params }) => {
+  const deleted = await WebhookService.delete(params.id, user.organizationId)
+  if (!deleted) throw new NotFoundError('Webhook', params.id)
+
+  return apiSuccess(undefined, { message: 'Webhook deleted' })
+}, { roles: ['landlord_admin'] })
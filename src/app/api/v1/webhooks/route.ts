@@ -0,0 +1,19 @@
+// src/app/api/v1/webhooks/route.ts
+import { WebhookService } from '@/lib/db/services/webhooks'
+import { createWebhookSchema } from '@/lib/db/validations'
+import { apiSuccess, parseBody, withApiHandler } from '@/lib/api/handler'
+import { toPublicWebhook } from '@/lib/api/serializers'
+
+export const GET = withApiHandler(async ({ user }) => {
+  const subscriptions = await WebhookService.getSubscriptions(user.organizationId)
+
+  return apiSuccess(subscriptions.map(toPublicWebhook))
+}, { roles: ['landlord_admin'] })
+
+// The signing secret is returned here and on rotation only
+export const POST = withApiHandler(async ({ req, user }) => {
+  const data = await parseBody(req, createWebhookSchema)
+  const subscription = await WebhookService.create(user.organizationId, data, user.id)
+
+  return apiSuccess(subscription, { status: 201, message: 'Webhook created' })
+}, { roles: ['landlord_admin'] })
@@ -0,0 +1,328 @@
+// src/app/dashboard/audit/page.tsx
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { PrivateLayout } from '@/components/layouts/private-layout'
+import { Loading } from '@/components/ui/loading'
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline'
+import { AUDIT_ENTITY_TYPES, AUDIT_ACTIONS, type AuditEvent } from '@/lib/db/schema'
+
+interface AuditEventRow {
+  event: AuditEvent
+  actor: { id: string; name: string | null; email: string } | null
+}
+
+interface Filters {
+  entityType: string
+  entityId: string
+  action: string
+  actorType: string
+  from: string
+  to: string
+}
+
+const PAGE_SIZE = 50
+
+const emptyFilters: Filters = { entityType: '', entityId: '', action: '', actorType: '', from: '', to: '' }
+
+const actionStyles: Record<string, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-yellow-100 text-yellow-800',
+  delete: 'bg-red-100 text-red-800',
+}
+
+// Query string for the API; dates from the inputs cover whole days
+function toSearchParams(filters: Filters, extra: Record<string, string>) {
+  const params = new URLSearchParams(extra)
+  const { from, to, ...rest } = filters
+
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value) params.set(key, value)
+  })
+  if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString())
+  if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString())
+
+  return params.toString()
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return '—'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function describeActor({ event, actor }: AuditEventRow) {
+  if (event.actorType === 'system') return 'System'
+  const name = actor?.name || actor?.email || event.actorId || 'Unknown user'
+  return event.actorType === 'api_key' ? `${name} (API key)` : name
+}
+
+export default function AuditLogPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [filters, setFilters] = useState<Filters>(emptyFilters)
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(emptyFilters)
+  const [page, setPage] = useState(1)
+  const [rows, setRows] = useState<AuditEventRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const isAdmin = session?.user?.role === 'landlord_admin'
+
+  useEffect(() => {
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/tenant')
+    } else if (status === 'unauthenticated') {
+      router.push('/auth/signin')
+    }
+  }, [status, isAdmin, router])
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(
+        `/api/v1/audit-events?${toSearchParams(appliedFilters, { page: String(page), limit: String(PAGE_SIZE) })}`
+      )
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to load the audit log')
+      }
+
+      setRows(result.data.events)
+      setTotal(result.data.total)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the audit log')
+    } finally {
+      setLoading(false)
+    }
+  }, [appliedFilters, page])
+
+  useEffect(() => {
+    if (isAdmin) loadEvents()
+  }, [isAdmin, loadEvents])
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return null
+  }
+
+  const updateFilter = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters({ ...filters, [key]: e.target.value })
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    setPage(1)
+    setAppliedFilters(filters)
+  }
+
+  const resetFilters = () => {
+    setPage(1)
+    setFilters(emptyFilters)
+    setAppliedFilters(emptyFilters)
+  }
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  return (
+    <PrivateLayout>
+      <div className="p-6">
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Audit Log</h1>
+            <p className="text-gray-600">Every change made in your organization, by whom and from where.</p>
+          </div>
+          <div className="flex gap-2">
+            {(['csv', 'json'] as const).map(format => (
+              <a
+                key={format}
+                href={`/api/v1/audit-events/export?${toSearchParams(appliedFilters, { format })}`}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <ArrowDownTrayIcon className="w-4 h-4 mr-2" />
+                Export {format.toUpperCase()}
+              </a>
+            ))}
+          </div>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={applyFilters} className="bg-white rounded-lg shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <label className="text-sm text-gray-700">
+            Entity
+            <select value={filters.entityType} onChange={updateFilter('entityType')} className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5">
+              <option value="">All</option>
+              {AUDIT_ENTITY_TYPES.map(type => (
+                <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Entity ID
+            <input value={filters.entityId} onChange={updateFilter('entityId')} placeholder="UUID" className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5" />
+          </label>
+          <label className="text-sm text-gray-700">
+            Action
+            <select value={filters.action} onChange={updateFilter('action')} className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5">
+              <option value="">All</option>
+              {AUDIT_ACTIONS.map(action => (
+                <option key={action} value={action}>{action}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Actor
+            <select value={filters.actorType} onChange={updateFilter('actorType')} className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5">
+              <option value="">All</option>
+              <option value="user">Users</option>
+              <option value="api_key">API keys</option>
+              <option value="system">System</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            From
+            <input type="date" value={filters.from} onChange={updateFilter('from')} className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5" />
+          </label>
+          <label className="text-sm text-gray-700">
+            To
+            <input type="date" value={filters.to} onChange={updateFilter('to')} className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5" />
+          </label>
+          <div className="md:col-span-3 lg:col-span-6 flex gap-2">
+            <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors">
+              Apply filters
+            </button>
+            <button type="button" onClick={resetFilters} className="px-4 py-2 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition-colors">
+              Reset
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Events */}
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          {loading ? (
+            <Loading className="py-12">Loading events...</Loading>
+          ) : rows.length === 0 ? (
+            <p className="py-12 text-center text-gray-500">No audit events match these filters.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-4 py-3 font-medium">Time</th>
+                  <th className="px-4 py-3 font-medium">Actor</th>
+                  <th className="px-4 py-3 font-medium">Action</th>
+                  <th className="px-4 py-3 font-medium">Entity</th>
+                  <th className="px-4 py-3 font-medium">Changed fields</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const { event } = row
+                  const fields = Object.keys(event.changes)
+                  const isExpanded = expanded === event.id
+
+                  return (
+                    <Fragment key={event.id}>
+                      <tr
+                        onClick={() => setExpanded(isExpanded ? null : event.id)}
+                        className="border-b border-gray-100 align-top cursor-pointer hover:bg-gray-50"
+                      >
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                          {new Date(event.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-gray-900">{describeActor(row)}</td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${actionStyles[event.action]}`}>
+                            {event.action}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <p className="text-gray-900">{event.entityType.replace(/_/g, ' ')}</p>
+                          <p className="font-mono text-xs text-gray-500">{event.entityId}</p>
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {fields.slice(0, 4).join(', ')}
+                          {fields.length > 4 && ` +${fields.length - 4} more`}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b border-gray-100 bg-gray-50">
+                          <td colSpan={5} className="px-4 py-4">
+                            <table className="min-w-full text-xs mb-3">
+                              <thead>
+                                <tr className="text-left text-gray-500">
+                                  <th className="py-1 pr-4 font-medium">Field</th>
+                                  <th className="py-1 pr-4 font-medium">Before</th>
+                                  <th className="py-1 font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {fields.map(field => (
+                                  <tr key={field} className="align-top">
+                                    <td className="py-1 pr-4 font-mono text-gray-900">{field}</td>
+                                    <td className="py-1 pr-4 font-mono text-red-700 break-all">{formatValue(event.changes[field].before)}</td>
+                                    <td className="py-1 font-mono text-green-700 break-all">{formatValue(event.changes[field].after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            <p className="text-xs text-gray-500">
+                              {[
+                                event.metadata.operation && `Operation: ${event.metadata.operation}`,
+                                event.metadata.method && `${event.metadata.method} ${event.metadata.path}`,
+                                event.metadata.ipAddress && `IP: ${event.metadata.ipAddress}`,
+                                event.metadata.requestId && `Request: ${event.metadata.requestId}`,
+                              ].filter(Boolean).join(' · ')}
+                            </p>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+          <span>{total} events</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 rounded-lg border border-gray-300 bg-white disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>Page {page} of {pageCount}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+              className="px-3 py-1 rounded-lg border border-gray-300 bg-white disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </PrivateLayout>
+  )
+}
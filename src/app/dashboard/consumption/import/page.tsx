@@ -0,0 +1,167 @@
+// src/app/dashboard/consumption/import/page.tsx
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { PrivateLayout } from '@/components/layouts/private-layout'
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+import type { ConsumptionImportReport } from '@/lib/db/services/consumption-imports'
+
+interface ImportFile {
+  fileName: string
+  content: string
+  encoding: 'text' | 'base64'
+}
+
+export default function ConsumptionImportPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [report, setReport] = useState<ConsumptionImportReport | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const isAdmin = session?.user?.role === 'landlord_admin'
+
+  useEffect(() => {
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/tenant/consumption')
+    } else if (status === 'unauthenticated') {
+      router.push('/auth/signin')
+    }
+  }, [status, isAdmin, router])
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return null
+  }
+
+  const submit = async (selected: ImportFile, dryRun: boolean) => {
+    setSubmitting(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/v1/consumption/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...selected, dryRun }),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Import failed')
+      }
+
+      setReport(result.data)
+      setMessage(result.message)
+    } catch (err) {
+      setReport(null)
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const selectFile = (selected: File | undefined) => {
+    setReport(null)
+    if (!selected) return
+
+    // XLSX workbooks are binary and travel as base64
+    const binary = /\.xlsx$/i.test(selected.name)
+    const reader = new FileReader()
+    reader.onload = () => {
+      const result = String(reader.result)
+      const next: ImportFile = {
+        fileName: selected.name,
+        content: binary ? result.slice(result.indexOf(',') + 1) : result,
+        encoding: binary ? 'base64' : 'text',
+      }
+      setFile(next)
+      submit(next, true)
+    }
+    if (binary) {
+      reader.readAsDataURL(selected)
+    } else {
+      reader.readAsText(selected)
+    }
+  }
+
+  return (
+    <PrivateLayout>
+      <div className="p-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Import Consumption</h1>
+          <p className="text-gray-600">
+            Upload a CSV or XLSX file or a Techem- or ista-style export. Rows are checked first; nothing is saved until you confirm.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 mb-6 flex flex-wrap items-center gap-4">
+          <label className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors cursor-pointer">
+            <ArrowUpTrayIcon className="w-4 h-4 mr-2" />
+            Choose file
+            <input
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              className="hidden"
+              onChange={e => selectFile(e.target.files?.[0])}
+            />
+          </label>
+          {file && <span className="text-sm text-gray-600">{file.fileName}</span>}
+          {file && report?.dryRun && report.accepted.length > 0 && (
+            <button
+              onClick={() => submit(file, false)}
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? 'Importing...' : `Import ${report.accepted.length} row(s)`}
+            </button>
+          )}
+        </div>
+
+        {message && (
+          <div className="mb-6 rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-700">{message}</div>
+        )}
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">{error}</div>
+        )}
+
+        {report && report.rejected.length > 0 && (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-4 py-3 font-medium">Row</th>
+                  <th className="px-4 py-3 font-medium">Values</th>
+                  <th className="px-4 py-3 font-medium">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rejected.map(rejection => (
+                  <tr key={rejection.row} className="border-b border-gray-100 align-top">
+                    <td className="px-4 py-3 text-gray-600">{rejection.row}</td>
+                    <td className="px-4 py-3 text-xs text-gray-500">
+                      {Object.entries(rejection.values).map(([field, value]) => `${field}: ${value}`).join(' · ')}
+                    </td>
+                    <td className="px-4 py-3 text-red-700">{rejection.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </PrivateLayout>
+  )
+}
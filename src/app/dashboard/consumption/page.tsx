@@ -0,0 +1,273 @@
+// src/app/dashboard/consumption/page.tsx
+'use client'
+
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { PrivateLayout } from '@/components/layouts/private-layout'
+import { Loading } from '@/components/ui/loading'
+import { ArrowUpTrayIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import type { ConsumptionAnomaly, ConsumptionAnomalyStatus } from '@/lib/db/schema'
+
+interface AnomalyRow extends ConsumptionAnomaly {
+  contractNumber: string
+  unitNumber: string
+  buildingName: string | null
+}
+
+const PAGE_SIZE = 50
+
+const TYPE_LABELS: Record<ConsumptionAnomaly['type'], string> = {
+  spike: 'Spike',
+  negative_delta: 'Negative',
+  flat_usage: 'Flat usage',
+}
+
+const STATUS_FILTERS: Array<{ value: ConsumptionAnomalyStatus | ''; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: '', label: 'All' },
+]
+
+export default function ConsumptionAnomaliesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [rows, setRows] = useState<AnomalyRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [statusFilter, setStatusFilter] = useState<ConsumptionAnomalyStatus | ''>('open')
+  const [loading, setLoading] = useState(false)
+  const [detecting, setDetecting] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const isAdmin = session?.user?.role === 'landlord_admin'
+
+  useEffect(() => {
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/tenant/consumption')
+    } else if (status === 'unauthenticated') {
+      router.push('/auth/signin')
+    }
+  }, [status, isAdmin, router])
+
+  const loadAnomalies = useCallback(async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const query = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (statusFilter) query.set('status', statusFilter)
+
+      const response = await fetch(`/api/v1/consumption/anomalies?${query}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to load consumption anomalies')
+      }
+
+      setRows(result.data.anomalies)
+      setTotal(result.data.total)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load consumption anomalies')
+    } finally {
+      setLoading(false)
+    }
+  }, [page, statusFilter])
+
+  useEffect(() => {
+    if (!isAdmin) return
+    loadAnomalies()
+  }, [isAdmin, loadAnomalies])
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return null
+  }
+
+  const request = async (url: string, method: string, body: object) => {
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Request failed')
+      }
+
+      setMessage(result.message)
+      await loadAnomalies()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+    }
+  }
+
+  const detect = async () => {
+    setDetecting(true)
+    await request('/api/v1/consumption/anomalies/detect', 'POST', {})
+    setDetecting(false)
+  }
+
+  const setAnomalyStatus = (anomaly: AnomalyRow, next: ConsumptionAnomalyStatus) =>
+    request(`/api/v1/consumption/anomalies/${anomaly.id}`, 'PATCH', { status: next })
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  return (
+    <PrivateLayout>
+      <div className="p-6">
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Consumption Anomalies</h1>
+            <p className="text-gray-600">
+              Spikes, negative values and flat water usage found in the consumption records. Suspected leaks open a utilities ticket.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={statusFilter}
+              onChange={e => {
+                setStatusFilter(e.target.value as ConsumptionAnomalyStatus | '')
+                setPage(1)
+              }}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              {STATUS_FILTERS.map(filter => (
+                <option key={filter.label} value={filter.value}>{filter.label}</option>
+              ))}
+            </select>
+            <Link
+              href="/dashboard/consumption/import"
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ArrowUpTrayIcon className="w-4 h-4 mr-2" />
+              Import
+            </Link>
+            <button
+              onClick={detect}
+              disabled={detecting}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <MagnifyingGlassIcon className="w-4 h-4 mr-2" />
+              {detecting ? 'Checking...' : 'Check now'}
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div className="mb-6 rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-700">{message}</div>
+        )}
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          {loading ? (
+            <Loading className="py-12">Loading anomalies...</Loading>
+          ) : rows.length === 0 ? (
+            <p className="py-12 text-center text-gray-500">No anomalies found.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-4 py-3 font-medium">Period</th>
+                  <th className="px-4 py-3 font-medium">Contract</th>
+                  <th className="px-4 py-3 font-medium">Type</th>
+                  <th className="px-4 py-3 font-medium">Finding</th>
+                  <th className="px-4 py-3 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(anomaly => (
+                  <tr key={anomaly.id} className="border-b border-gray-100 align-top">
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-600">{anomaly.period}</td>
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900">{anomaly.contractNumber}</p>
+                      <p className="text-xs text-gray-500">
+                        Unit {anomaly.unitNumber}{anomaly.buildingName ? ` · ${anomaly.buildingName}` : ''}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <p className="text-gray-900">{TYPE_LABELS[anomaly.type]}</p>
+                      <p className="text-xs text-gray-500 capitalize">{anomaly.consumptionType}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600 max-w-md">
+                      {anomaly.message}
+                      {anomaly.ticketId && <p className="mt-1 text-xs text-blue-600">Utilities ticket opened</p>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {anomaly.status === 'open' ? (
+                        <>
+                          <button
+                            onClick={() => setAnomalyStatus(anomaly, 'acknowledged')}
+                            className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            Acknowledge
+                          </button>
+                          <button
+                            onClick={() => setAnomalyStatus(anomaly, 'dismissed')}
+                            className="ml-2 px-3 py-1 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                          >
+                            Dismiss
+                          </button>
+                        </>
+                      ) : anomaly.status === 'acknowledged' ? (
+                        <button
+                          onClick={() => setAnomalyStatus(anomaly, 'resolved')}
+                          className="px-3 py-1 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors"
+                        >
+                          Resolve
+                        </button>
+                      ) : (
+                        <span className="text-xs text-gray-500 capitalize">{anomaly.status}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+          <span>{total} anomalies</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 rounded-lg border border-gray-300 bg-white disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>Page {page} of {pageCount}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+              className="px-3 py-1 rounded-lg border border-gray-300 bg-white disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </PrivateLayout>
+  )
+}
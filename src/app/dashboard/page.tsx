@@ -3,7 +3,7 @@
 
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { PrivateLayout } from '@/components/layouts/private-layout'
 import { 
   BuildingOfficeIcon,
@@ -11,12 +11,44 @@ import {
   UserGroupIcon,
   TicketIcon,
   ArrowUpIcon,
-  ArrowDownIcon
+  ArrowDownIcon,
+  BanknotesIcon
 } from '@heroicons/react/24/outline'
 
+interface DashboardOverview {
+  tickets: {
+    open: number
+    inProgress: number
+    urgent: number
+    overdue: number
+  }
+  dunning: {
+    contractsInArrears: number
+    contractsInDunning: number
+    byLevel: { level: number; name: string; contracts: number }[]
+    due: number
+    exhausted: number
+    paused: number
+  }
+}
+
 export default function DashboardPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  const [overview, setOverview] = useState<DashboardOverview | null>(null)
+
+  const isAdmin = session?.user?.role === 'landlord_admin'
+
+  useEffect(() => {
+    if (!isAdmin) return
+
+    fetch('/api/v1/dashboard')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setOverview(result.data)
+      })
+      .catch(() => setOverview(null))
+  }, [isAdmin])
 
   useEffect(() => {
     if (status === 'authenticated') {
@@ -143,6 +175,59 @@ export default function DashboardPage() {
           ))}
         </div>
 
+        {/* Tickets and dunning */}
+        {overview && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-center mb-4">
+                <TicketIcon className="w-6 h-6 text-blue-600 mr-2" />
+                <h2 className="text-lg font-semibold text-gray-900">Tickets</h2>
+              </div>
+              <dl className="grid grid-cols-4 gap-4">
+                {[
+                  { label: 'Open', value: overview.tickets.open },
+                  { label: 'In progress', value: overview.tickets.inProgress },
+                  { label: 'Urgent', value: overview.tickets.urgent },
+                  { label: 'Overdue', value: overview.tickets.overdue },
+                ].map((item) => (
+                  <div key={item.label}>
+                    <dt className="text-sm text-gray-600">{item.label}</dt>
+                    <dd className="text-2xl font-bold text-gray-900">{item.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-center mb-4">
+                <BanknotesIcon className="w-6 h-6 text-blue-600 mr-2" />
+                <h2 className="text-lg font-semibold text-gray-900">Dunning</h2>
+              </div>
+              <dl className="grid grid-cols-4 gap-4">
+                {[
+                  { label: 'In arrears', value: overview.dunning.contractsInArrears },
+                  { label: 'Reminders due', value: overview.dunning.due },
+                  { label: 'Last level sent', value: overview.dunning.exhausted },
+                  { label: 'Paused', value: overview.dunning.paused },
+                ].map((item) => (
+                  <div key={item.label}>
+                    <dt className="text-sm text-gray-600">{item.label}</dt>
+                    <dd className="text-2xl font-bold text-gray-900">{item.value}</dd>
+                  </div>
+                ))}
+              </dl>
+              <div className="mt-4 pt-4 border-t border-gray-200 space-y-1">
+                {overview.dunning.byLevel.map((level) => (
+                  <div key={level.level} className="flex justify-between text-sm">
+                    <span className="text-gray-600">{level.name}</span>
+                    <span className="font-medium text-gray-900">{level.contracts}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Recent Activity */}
@@ -0,0 +1,271 @@
+// src/app/dashboard/reconciliation/page.tsx
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { PrivateLayout } from '@/components/layouts/private-layout'
+import { Loading } from '@/components/ui/loading'
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+import type { BankTransaction, Contract } from '@/lib/db/schema'
+
+interface ContractSummary {
+  id: string
+  contractNumber: string
+  unitNumber: string
+}
+
+interface QueueRow {
+  transaction: BankTransaction
+  contract: ContractSummary | null
+  suggestedContract: ContractSummary | null
+}
+
+const PAGE_SIZE = 50
+
+const formatAmount = (amount: string, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(Number(amount))
+
+export default function ReconciliationPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [rows, setRows] = useState<QueueRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [contracts, setContracts] = useState<Contract[]>([])
+  const [selected, setSelected] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const isAdmin = session?.user?.role === 'landlord_admin'
+
+  useEffect(() => {
+    if (status === 'authenticated' && !isAdmin) {
+      router.push('/tenant')
+    } else if (status === 'unauthenticated') {
+      router.push('/auth/signin')
+    }
+  }, [status, isAdmin, router])
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(
+        `/api/v1/bank-statements/transactions?status=unmatched&page=${page}&limit=${PAGE_SIZE}`
+      )
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to load the reconciliation queue')
+      }
+
+      setRows(result.data.transactions)
+      setTotal(result.data.total)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the reconciliation queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [page])
+
+  useEffect(() => {
+    if (!isAdmin) return
+    loadQueue()
+  }, [isAdmin, loadQueue])
+
+  useEffect(() => {
+    if (!isAdmin) return
+    fetch('/api/v1/contracts?limit=100')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) setContracts(result.data)
+      })
+      .catch(() => setError('Failed to load contracts'))
+  }, [isAdmin])
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return null
+  }
+
+  const runAction = async (url: string, body: object, success?: string) => {
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Request failed')
+      }
+
+      setMessage(success || result.message)
+      await loadQueue()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+    }
+  }
+
+  const uploadStatement = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setUploading(true)
+    await runAction('/api/v1/bank-statements', { fileName: file.name, content: await file.text() })
+    setUploading(false)
+  }
+
+  const assign = (row: QueueRow) => {
+    const contractId = selected[row.transaction.id] || row.suggestedContract?.id
+    if (!contractId) {
+      setError('Select a contract first')
+      return
+    }
+    runAction(`/api/v1/bank-statements/transactions/${row.transaction.id}/assign`, { contractId })
+  }
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  return (
+    <PrivateLayout>
+      <div className="p-6">
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Bank Reconciliation</h1>
+            <p className="text-gray-600">
+              Import CAMT.053 or MT940 statements. Payments that could not be matched to a contract are listed here.
+            </p>
+          </div>
+          <label className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors cursor-pointer">
+            <ArrowUpTrayIcon className="w-4 h-4 mr-2" />
+            {uploading ? 'Importing...' : 'Import statement'}
+            <input type="file" accept=".xml,.sta,.mt940,.txt" onChange={uploadStatement} disabled={uploading} className="hidden" />
+          </label>
+        </div>
+
+        {message && (
+          <div className="mb-6 rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-700">{message}</div>
+        )}
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">{error}</div>
+        )}
+
+        {/* Queue */}
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          {loading ? (
+            <Loading className="py-12">Loading payments...</Loading>
+          ) : rows.length === 0 ? (
+            <p className="py-12 text-center text-gray-500">All payments are reconciled.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-4 py-3 font-medium">Date</th>
+                  <th className="px-4 py-3 font-medium">Payer</th>
+                  <th className="px-4 py-3 font-medium">Reference</th>
+                  <th className="px-4 py-3 font-medium text-right">Amount</th>
+                  <th className="px-4 py-3 font-medium">Contract</th>
+                  <th className="px-4 py-3 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const { transaction, suggestedContract } = row
+
+                  return (
+                    <tr key={transaction.id} className="border-b border-gray-100 align-top">
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                        {new Date(transaction.bookingDate).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        <p className="text-gray-900">{transaction.counterpartyName || '—'}</p>
+                        {transaction.counterpartyIban && (
+                          <p className="font-mono text-xs text-gray-500">{transaction.counterpartyIban}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-gray-600 max-w-xs break-words">{transaction.reference || '—'}</td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap text-gray-900">
+                        {formatAmount(transaction.amount, transaction.currency)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <select
+                          value={selected[transaction.id] ?? suggestedContract?.id ?? ''}
+                          onChange={e => setSelected({ ...selected, [transaction.id]: e.target.value })}
+                          className="block w-full rounded-md border border-gray-300 px-2 py-1.5"
+                        >
+                          <option value="">Select contract</option>
+                          {contracts.map(contract => (
+                            <option key={contract.id} value={contract.id}>
+                              {contract.contractNumber} · Unit {contract.unitNumber}
+                            </option>
+                          ))}
+                        </select>
+                        {suggestedContract && (
+                          <p className="mt-1 text-xs text-gray-500">Suggested: {suggestedContract.contractNumber}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <button
+                          onClick={() => assign(row)}
+                          className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                          Assign
+                        </button>
+                        <button
+                          onClick={() => runAction(`/api/v1/bank-statements/transactions/${transaction.id}/ignore`, { ignored: true })}
+                          className="ml-2 px-3 py-1 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                        >
+                          Ignore
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+          <span>{total} unmatched payments</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 rounded-lg border border-gray-300 bg-white disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>Page {page} of {pageCount}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+              className="px-3 py-1 rounded-lg border border-gray-300 bg-white disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </PrivateLayout>
+  )
+}
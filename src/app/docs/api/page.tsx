@@ -0,0 +1,206 @@
+// src/app/docs/api/page.tsx
+import Link from 'next/link'
+import { PublicLayout } from '@/components/layouts/public-layout'
+import { generateOpenApiDocument, type JsonSchema } from '@/lib/api/openapi'
+
+export const metadata = {
+  title: 'API Reference | TenantBridge',
+}
+
+const methodStyles: Record<string, string> = {
+  get: 'bg-blue-100 text-blue-800',
+  post: 'bg-green-100 text-green-800',
+  patch: 'bg-yellow-100 text-yellow-800',
+  delete: 'bg-red-100 text-red-800',
+}
+
+// Short human-readable summary of a JSON schema's type and constraints
+function describeType(schema: JsonSchema): string {
+  if (Array.isArray(schema.anyOf)) {
+    return (schema.anyOf as JsonSchema[]).map(describeType).join(' | ')
+  }
+  if (schema.type === 'array') {
+    return `${describeType((schema.items || {}) as JsonSchema)}[]`
+  }
+  return [schema.type || 'any', schema.format].filter(Boolean).join(' · ')
+}
+
+function describeConstraints(schema: JsonSchema): string[] {
+  const constraints: string[] = []
+  if (Array.isArray(schema.enum)) constraints.push(`one of: ${schema.enum.join(', ')}`)
+  if (schema.pattern) constraints.push(`pattern: ${schema.pattern}`)
+  if (schema.minLength !== undefined) constraints.push(`min length: ${schema.minLength}`)
+  if (schema.maxLength !== undefined) constraints.push(`max length: ${schema.maxLength}`)
+  if (schema.minimum !== undefined) constraints.push(`min: ${schema.minimum}`)
+  if (schema.maximum !== undefined && Number(schema.maximum) < Number.MAX_SAFE_INTEGER) {
+    constraints.push(`max: ${schema.maximum}`)
+  }
+  if (schema.default !== undefined) constraints.push(`default: ${JSON.stringify(schema.default)}`)
+  return constraints
+}
+
+function FieldTable({ rows }: { rows: Array<{ name: string; required: boolean; schema: JsonSchema }> }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No fields.</p>
+  }
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 border-b border-gray-200">
+          <th className="py-2 pr-4 font-medium">Field</th>
+          <th className="py-2 pr-4 font-medium">Type</th>
+          <th className="py-2 font-medium">Details</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ name, required, schema }) => (
+          <tr key={name} className="border-b border-gray-100 align-top">
+            <td className="py-2 pr-4 font-mono text-gray-900">
+              {name}
+              {required && <span className="ml-1 text-red-600">*</span>}
+            </td>
+            <td className="py-2 pr-4 font-mono text-gray-600">{describeType(schema)}</td>
+            <td className="py-2 text-gray-600">{describeConstraints(schema).join('; ')}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+function SchemaView({ schema }: { schema: JsonSchema }) {
+  if (Array.isArray(schema.anyOf)) {
+    return (
+      <div className="space-y-4">
+        {(schema.anyOf as JsonSchema[]).map((variant, index) => (
+          <div key={index}>
+            <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">
+              {index === 0 ? 'Either' : 'Or'}
+            </p>
+            <SchemaView schema={variant} />
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (schema.type === 'array') {
+    return (
+      <div>
+        <p className="text-sm text-gray-600 mb-2">
+          Array of objects ({describeConstraints(schema).join('; ') || 'any length'}):
+        </p>
+        <SchemaView schema={(schema.items || {}) as JsonSchema} />
+      </div>
+    )
+  }
+
+  const properties = (schema.properties || {}) as Record<string, JsonSchema>
+  const required = (schema.required || []) as string[]
+
+  return (
+    <FieldTable
+      rows={Object.keys(properties).map(name => ({
+        name,
+        required: required.includes(name),
+        schema: properties[name],
+      }))}
+    />
+  )
+}
+
+export default function ApiReferencePage() {
+  const spec = generateOpenApiDocument()
+
+  return (
+    <PublicLayout>
+      <div className="max-w-5xl mx-auto py-12 px-4 sm:px-6 lg:px-8">
+        <div className="mb-10">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{spec.info.title}</h1>
+          <p className="text-gray-600 mb-4">{spec.info.description}</p>
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="text-gray-700">
+              Base URL: <code className="font-mono">{spec.servers[0].url}</code>
+            </span>
+            <Link href="/api/v1/openapi.json" className="text-blue-600 hover:text-blue-700 font-medium">
+              Download OpenAPI {spec.openapi} spec
+            </Link>
+          </div>
+        </div>
+
+        <nav className="flex flex-wrap gap-2 mb-10">
+          {spec.tags.map(tag => (
+            <a
+              key={tag.name}
+              href={`#${tag.name.toLowerCase()}`}
+              className="px-3 py-1 rounded-full bg-white border border-gray-200 text-sm text-gray-700 hover:border-blue-400"
+            >
+              {tag.name}
+            </a>
+          ))}
+        </nav>
+
+        {spec.tags.map(tag => (
+          <section key={tag.name} id={tag.name.toLowerCase()} className="mb-12">
+            <h2 className="text-2xl font-semibold text-gray-900 mb-1">{tag.name}</h2>
+            <p className="text-gray-600 mb-6">{tag.description}</p>
+
+            <div className="space-y-6">
+              {Object.entries(spec.paths).flatMap(([path, methods]) =>
+                Object.entries(methods)
+                  .filter(([, operation]) => (operation!.tags as string[]).includes(tag.name))
+                  .map(([method, operation]) => {
+                    const parameters = (operation!.parameters || []) as JsonSchema[]
+                    const bodyRef = (operation!.requestBody as JsonSchema | undefined)
+                      ?.content as Record<string, { schema: { $ref: string } }> | undefined
+                    const bodyName = bodyRef?.['application/json'].schema.$ref.split('/').pop()
+                    const statuses = Object.keys(operation!.responses as JsonSchema)
+
+                    return (
+                      <div key={`${method} ${path}`} id={String(operation!.operationId)} className="bg-white rounded-lg border border-gray-200 p-6">
+                        <div className="flex items-center gap-3 mb-2">
+                          <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${methodStyles[method]}`}>
+                            {method}
+                          </span>
+                          <code className="font-mono text-gray-900">{path}</code>
+                        </div>
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">{String(operation!.summary)}</h3>
+                        {String(operation!.description || '').split('\n\n').map(paragraph => (
+                          <p key={paragraph} className="text-sm text-gray-600 mb-1">{paragraph}</p>
+                        ))}
+
+                        {parameters.length > 0 && (
+                          <div className="mt-4">
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">Parameters</h4>
+                            <FieldTable
+                              rows={parameters.map(parameter => ({
+                                name: `${parameter.name} (${parameter.in})`,
+                                required: Boolean(parameter.required),
+                                schema: parameter.schema as JsonSchema,
+                              }))}
+                            />
+                          </div>
+                        )}
+
+                        {bodyName && (
+                          <div className="mt-4">
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                              Request body <span className="font-normal text-gray-500">({bodyName})</span>
+                            </h4>
+                            <SchemaView schema={spec.components.schemas[bodyName]} />
+                          </div>
+                        )}
+
+                        <p className="mt-4 text-xs text-gray-500">Responses: {statuses.join(', ')}</p>
+                      </div>
+                    )
+                  })
+              )}
+            </div>
+          </section>
+        ))}
+      </div>
+    </PublicLayout>
+  )
+}
@@ -0,0 +1,227 @@
+// src/app/invite/[token]/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { signIn } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { PublicLayout } from '@/components/layouts/public-layout'
+import { Loading } from '@/components/ui/loading'
+
+interface InvitationDetails {
+  email: string
+  tenantName: string | null
+  organizationName?: string
+  buildingName?: string
+  buildingAddress?: string
+  unitNumber?: string
+  isMainTenant: boolean | null
+  expiresAt: string
+  hasAccount: boolean
+}
+
+export default function AcceptInvitationPage({ params }: { params: { token: string } }) {
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [loadError, setLoadError] = useState('')
+  const [isFetching, setIsFetching] = useState(true)
+
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const router = useRouter()
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invite/${params.token}`)
+        const result = await response.json()
+
+        if (result.success) {
+          setInvitation(result.data)
+          setName(result.data.tenantName || '')
+        } else {
+          setLoadError(result.message)
+        }
+      } catch {
+        setLoadError('Could not load this invitation. Please try again later.')
+      } finally {
+        setIsFetching(false)
+      }
+    }
+    loadInvitation()
+  }, [params.token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (!invitation?.hasAccount && password !== confirmPassword) {
+      setError('Passwords do not match.')
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(`/api/invite/${params.token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, password }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.message || 'Could not accept the invitation. Please try again.')
+        return
+      }
+
+      const signInResult = await signIn('credentials', {
+        email: result.data.email,
+        password,
+        redirect: false,
+      })
+
+      router.push(signInResult?.ok ? '/tenant' : '/auth/signin')
+    } catch {
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isFetching) {
+    return (
+      <PublicLayout>
+        <Loading className="min-h-[80vh]">Loading invitation...</Loading>
+      </PublicLayout>
+    )
+  }
+
+  if (!invitation) {
+    return (
+      <PublicLayout>
+        <div className="min-h-[80vh] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+          <div className="max-w-md w-full text-center space-y-4">
+            <h2 className="text-3xl font-bold text-gray-900">Invitation unavailable</h2>
+            <p className="text-gray-600">{loadError}</p>
+            <p className="text-sm text-gray-500">
+              Please ask your property manager for a new invitation.
+            </p>
+            <Link href="/auth/signin" className="text-blue-600 hover:text-blue-500 transition-colors">
+              Go to sign in
+            </Link>
+          </div>
+        </div>
+      </PublicLayout>
+    )
+  }
+
+  return (
+    <PublicLayout>
+      <div className="min-h-[80vh] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div className="text-center">
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">
+              Welcome to TenantBridge
+            </h2>
+            <p className="text-gray-600">
+              {invitation.organizationName || 'Your property manager'} has invited you to join
+            </p>
+          </div>
+
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-gray-700 space-y-1">
+            {invitation.buildingName && (
+              <p>
+                <span className="font-medium">Building:</span> {invitation.buildingName}
+                {invitation.buildingAddress && `, ${invitation.buildingAddress}`}
+              </p>
+            )}
+            {invitation.unitNumber && (
+              <p><span className="font-medium">Unit:</span> {invitation.unitNumber}</p>
+            )}
+            <p><span className="font-medium">Email:</span> {invitation.email}</p>
+            <p className="text-xs text-gray-500">
+              Invitation valid until {new Date(invitation.expiresAt).toLocaleDateString()}
+            </p>
+          </div>
+
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+                  Full name
+                </label>
+                <input
+                  id="name"
+                  name="name"
+                  type="text"
+                  autoComplete="name"
+                  required
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                  {invitation.hasAccount ? 'Current password' : 'Password'}
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete={invitation.hasAccount ? 'current-password' : 'new-password'}
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  {invitation.hasAccount
+                    ? 'You already have an account with this email. Enter its password to add this contract.'
+                    : 'At least 10 characters with upper and lower case letters and a number'}
+                </p>
+              </div>
+
+              {!invitation.hasAccount && (
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                    Confirm password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    name="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? (invitation.hasAccount ? 'Adding contract...' : 'Creating account...') : 'Accept invitation'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </PublicLayout>
+  )
+}
@@ -0,0 +1,357 @@
+// src/app/tenant/consumption/page.tsx
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { PrivateLayout } from '@/components/layouts/private-layout'
+import { Loading } from '@/components/ui/loading'
+import { CameraIcon } from '@heroicons/react/24/outline'
+import type { Meter, MeterReading, MeterReadingSubmission } from '@/lib/db/schema'
+
+interface TenantMeter extends Meter {
+  buildingName: string
+  unitNumber: string
+  latestReading: MeterReading | null
+}
+
+interface Submission extends MeterReadingSubmission {
+  meterNumber: string
+  unit: string
+  photoUrl: string | null
+}
+
+const STATUS_STYLES: Record<MeterReadingSubmission['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+}
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+// Base64 content of a file, without the data URL prefix
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '')
+    reader.onerror = () => reject(new Error('Failed to read the photo'))
+    reader.readAsDataURL(file)
+  })
+
+export default function TenantConsumptionPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+
+  const [meters, setMeters] = useState<TenantMeter[]>([])
+  const [submissions, setSubmissions] = useState<Submission[]>([])
+  const [meterId, setMeterId] = useState('')
+  const [readingDate, setReadingDate] = useState(today())
+  const [value, setValue] = useState('')
+  const [note, setNote] = useState('')
+  const [photo, setPhoto] = useState<File | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const isTenant = session?.user?.role === 'tenant'
+
+  useEffect(() => {
+    if (status === 'authenticated' && !isTenant) {
+      router.push('/dashboard')
+    } else if (status === 'unauthenticated') {
+      router.push('/auth/signin')
+    }
+  }, [status, isTenant, router])
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const [metersResponse, submissionsResponse] = await Promise.all([
+        fetch('/api/v1/meters'),
+        fetch('/api/v1/meter-submissions?limit=20'),
+      ])
+      const [metersResult, submissionsResult] = await Promise.all([
+        metersResponse.json(),
+        submissionsResponse.json(),
+      ])
+
+      if (!metersResponse.ok || !metersResult.success) {
+        throw new Error(metersResult.message || 'Failed to load your meters')
+      }
+      if (!submissionsResponse.ok || !submissionsResult.success) {
+        throw new Error(submissionsResult.message || 'Failed to load your submissions')
+      }
+
+      setMeters(metersResult.data)
+      setSubmissions(submissionsResult.data.submissions)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your meters')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isTenant) return
+    load()
+  }, [isTenant, load])
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!isTenant) {
+    return null
+  }
+
+  const pendingMeterIds = new Set(
+    submissions.filter(submission => submission.status === 'pending').map(submission => submission.meterId)
+  )
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setMessage('')
+
+    if (!photo) {
+      setError('Add a photo of the meter')
+      return
+    }
+
+    setSubmitting(true)
+
+    try {
+      const response = await fetch('/api/v1/meter-submissions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          meterId,
+          readingDate,
+          value: value.replace(',', '.'),
+          note: note || undefined,
+          photo: { fileName: photo.name, mimeType: photo.type, content: await readAsBase64(photo) },
+        }),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Failed to submit the reading')
+      }
+
+      setMessage(result.message)
+      setMeterId('')
+      setValue('')
+      setNote('')
+      setPhoto(null)
+      setReadingDate(today())
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the reading')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <PrivateLayout>
+      <div className="p-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Consumption</h1>
+          <p className="text-gray-600">
+            Submit your meter readings with a photo of the meter. Your landlord checks each reading before it is recorded.
+          </p>
+        </div>
+
+        {message && (
+          <div className="mb-6 rounded-lg bg-green-50 border border-green-200 p-4 text-sm text-green-700">{message}</div>
+        )}
+        {error && (
+          <div className="mb-6 rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <Loading className="py-12">Loading your meters...</Loading>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Meters */}
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <h2 className="px-4 py-3 text-lg font-semibold text-gray-900 border-b border-gray-200">Your meters</h2>
+              {meters.length === 0 ? (
+                <p className="py-12 text-center text-gray-500">No meters are registered for your apartment.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="px-4 py-3 font-medium">Meter</th>
+                      <th className="px-4 py-3 font-medium">Location</th>
+                      <th className="px-4 py-3 font-medium text-right">Last reading</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {meters.map(meter => (
+                      <tr key={meter.id} className="border-b border-gray-100 align-top">
+                        <td className="px-4 py-3">
+                          <p className="text-gray-900 capitalize">{meter.consumptionType}</p>
+                          <p className="font-mono text-xs text-gray-500">{meter.meterNumber}</p>
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">
+                          Unit {meter.unitNumber}{meter.location ? ` · ${meter.location}` : ''}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          {meter.latestReading ? (
+                            <>
+                              <p className="text-gray-900">{meter.latestReading.value} {meter.unit}</p>
+                              <p className="text-xs text-gray-500">
+                                {new Date(meter.latestReading.readingDate).toLocaleDateString()}
+                              </p>
+                            </>
+                          ) : (
+                            <span className="text-gray-500">—</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Submission form */}
+            <form onSubmit={submit} className="bg-white rounded-lg shadow p-4 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900">Submit a reading</h2>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Meter</label>
+                <select
+                  value={meterId}
+                  onChange={e => setMeterId(e.target.value)}
+                  required
+                  className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                >
+                  <option value="">Select meter</option>
+                  {meters.map(meter => (
+                    <option key={meter.id} value={meter.id} disabled={pendingMeterIds.has(meter.id)}>
+                      {meter.meterNumber} · {meter.consumptionType}
+                      {pendingMeterIds.has(meter.id) ? ' (waiting for approval)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                  <input
+                    type="date"
+                    value={readingDate}
+                    max={today()}
+                    onChange={e => setReadingDate(e.target.value)}
+                    required
+                    className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Value</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={value}
+                    onChange={e => setValue(e.target.value)}
+                    placeholder="e.g. 12345.678"
+                    required
+                    className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Photo of the meter</label>
+                <label className="flex items-center justify-center px-4 py-3 text-sm text-gray-600 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400">
+                  <CameraIcon className="w-5 h-5 mr-2" />
+                  {photo ? photo.name : 'Take or choose a photo'}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    onChange={e => setPhoto(e.target.files?.[0] || null)}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+                <textarea
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  rows={2}
+                  maxLength={500}
+                  className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting || meters.length === 0}
+                className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {submitting ? 'Submitting...' : 'Submit reading'}
+              </button>
+            </form>
+
+            {/* Submissions */}
+            <div className="bg-white rounded-lg shadow overflow-x-auto lg:col-span-2">
+              <h2 className="px-4 py-3 text-lg font-semibold text-gray-900 border-b border-gray-200">Your submissions</h2>
+              {submissions.length === 0 ? (
+                <p className="py-12 text-center text-gray-500">You have not submitted any readings yet.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="px-4 py-3 font-medium">Date</th>
+                      <th className="px-4 py-3 font-medium">Meter</th>
+                      <th className="px-4 py-3 font-medium text-right">Value</th>
+                      <th className="px-4 py-3 font-medium">Status</th>
+                      <th className="px-4 py-3 font-medium">Remarks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {submissions.map(submission => (
+                      <tr key={submission.id} className="border-b border-gray-100 align-top">
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                          {new Date(submission.readingDate).toLocaleDateString()}
+                        </td>
+                        <td className="px-4 py-3 font-mono text-xs text-gray-900">{submission.meterNumber}</td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap text-gray-900">
+                          {submission.value} {submission.unit}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[submission.status]}`}>
+                            {submission.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {submission.rejectionReason && <p className="text-red-700">{submission.rejectionReason}</p>}
+                          {submission.warnings.map(warning => (
+                            <p key={warning} className="text-xs text-yellow-700">{warning}</p>
+                          ))}
+                          {submission.photoUrl && (
+                            <a href={submission.photoUrl} target="_blank" rel="noreferrer" className="text-xs text-blue-600 hover:underline">
+                              Photo
+                            </a>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </PrivateLayout>
+  )
+}
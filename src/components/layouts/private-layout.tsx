@@ -17,7 +17,9 @@ import {
   ArrowRightOnRectangleIcon,
   Bars3Icon,
   XMarkIcon,
-  UserIcon
+  UserIcon,
+  ClipboardDocumentListIcon,
+  BanknotesIcon
 } from '@heroicons/react/24/outline'
 
 interface PrivateLayoutProps {
@@ -42,6 +44,8 @@ export function PrivateLayout({ children }: PrivateLayoutProps) {
     { name: 'Consumption', href: '/dashboard/consumption', icon: ChartBarIcon },
     { name: 'Documents', href: '/dashboard/documents', icon: FolderIcon },
     { name: 'Analytics', href: '/dashboard/analytics', icon: ChartBarIcon },
+    { name: 'Bank Reconciliation', href: '/dashboard/reconciliation', icon: BanknotesIcon },
+    { name: 'Audit Log', href: '/dashboard/audit', icon: ClipboardDocumentListIcon },
   ] : [
     { name: 'Dashboard', href: '/tenant', icon: HomeIcon },
     { name: 'My Contracts', href: '/tenant/contracts', icon: DocumentTextIcon },
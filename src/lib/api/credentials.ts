@@ -0,0 +1,18 @@
+// src/lib/api/credentials.ts
+// Kept free of database imports so the edge middleware can use it.
+
+// Every API key starts with this prefix, which makes leaked keys easy to scan for
+export const API_KEY_PREFIX = 'tb_';
+
+/**
+ * Read an API key from the Authorization: Bearer or X-API-Key header
+ */
+export function getApiKeyFromHeaders(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  if (authorization?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const apiKey = headers.get('x-api-key')?.trim();
+  return apiKey?.startsWith(API_KEY_PREFIX) ? apiKey : null;
+}
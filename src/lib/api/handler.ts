@@ -0,0 +1,244 @@
+// src/lib/api/handler.ts
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import type { z } from 'zod';
+import { authOptions } from '../db/auth';
+import {
+  DatabaseError,
+  ValidationError,
+  UnauthorizedError,
+  AccessDeniedError,
+  NotFoundError,
+  ConflictError,
+  DatabaseErrorHandler,
+  createErrorResponse,
+} from '../db/errors';
+import { createApiResponse, validateRequestBody } from '../db/validations';
+import { withRequestDb, createRLSContext } from '../db/utils';
+import { withAuditContext, type AuditContext } from '../db/audit';
+import { ApiKeyService } from '../db/services/api-keys';
+import type { ApiKeyPermission } from '../db/schema';
+import { getApiKeyFromHeaders } from './credentials';
+
+export type UserRole = 'landlord_admin' | 'tenant';
+
+export interface ApiUser {
+  id: string;
+  email: string;
+  name?: string | null;
+  role: UserRole;
+  organizationId: string;
+  // Set when the request authenticated with an API key instead of a session
+  apiKey?: {
+    id: string;
+    name: string;
+    permissions: ApiKeyPermission[];
+  };
+}
+
+export interface ApiContext<P = Record<string, string>> {
+  req: NextRequest;
+  user: ApiUser;
+  params: P;
+}
+
+type ApiHandler<P> = (context: ApiContext<P>) => Promise<NextResponse>;
+
+// HTTP status for each DatabaseError code produced by DatabaseErrorHandler
+const DATABASE_ERROR_STATUS: Record<string, number> = {
+  DUPLICATE_RECORD: 409,
+  INVALID_REFERENCE: 400,
+  MISSING_REQUIRED_FIELD: 400,
+  ACCESS_DENIED: 403,
+  CONNECTION_FAILED: 503,
+  CONNECTION_ERROR: 503,
+  TIMEOUT: 503,
+};
+
+/**
+ * Map an error to the HTTP status code returned to API clients
+ */
+export function getErrorStatus(error: unknown): number {
+  if (error instanceof ValidationError) return 400;
+  if (error instanceof UnauthorizedError) return 401;
+  if (error instanceof AccessDeniedError) return 403;
+  if (error instanceof NotFoundError) return 404;
+  if (error instanceof ConflictError) return 409;
+  if (error instanceof DatabaseError) return DATABASE_ERROR_STATUS[error.code] || 500;
+  return 500;
+}
+
+/**
+ * Convert any thrown error into a JSON error envelope
+ */
+export function handleApiError(error: unknown): NextResponse {
+  let normalized = error instanceof Error ? error : new Error(String(error));
+
+  // Raw driver errors carry a PostgreSQL error code
+  if (!(normalized instanceof DatabaseError) && typeof (normalized as { code?: unknown }).code === 'string') {
+    normalized = DatabaseErrorHandler.handleError(normalized);
+  }
+
+  const status = getErrorStatus(normalized);
+  if (status >= 500) {
+    console.error('API request failed:', error);
+  }
+
+  const { message, code, ...details } = createErrorResponse(normalized);
+  const errors = 'errors' in details ? details.errors : undefined;
+
+  return NextResponse.json(
+    { ...createApiResponse(false, undefined, message, errors), code },
+    { status }
+  );
+}
+
+/**
+ * Successful JSON response in the standard envelope
+ */
+export function apiSuccess<T>(
+  data: T,
+  options: { status?: number; message?: string } = {}
+): NextResponse {
+  return NextResponse.json(createApiResponse(true, data, options.message), {
+    status: options.status || 200,
+  });
+}
+
+/**
+ * Read and validate the JSON body of a request
+ */
+export async function parseBody<T>(req: NextRequest, schema: z.ZodType<T>, defaults: Record<string, unknown> = {}): Promise<T> {
+  let body: unknown;
+  try {
+    const text = await req.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+
+  // Session-derived values always win over client-supplied ones
+  const withDefaults = (value: unknown) =>
+    typeof value === 'object' && value !== null ? { ...value, ...defaults } : value;
+
+  return validateRequestBody(schema)(Array.isArray(body) ? body.map(withDefaults) : withDefaults(body));
+}
+
+/**
+ * Validate the query string of a request
+ */
+export function parseQuery<T>(req: NextRequest, schema: z.ZodType<T>): T {
+  const params = Object.fromEntries(req.nextUrl.searchParams.entries());
+  return validateRequestBody(schema)(params);
+}
+
+/**
+ * Convert page/limit query parameters into limit/offset for services
+ */
+export function toLimitOffset({ page, limit }: { page: number; limit: number }) {
+  return { limit, offset: (page - 1) * limit };
+}
+
+/**
+ * Resolve the caller of an API request from an API key or the session.
+ * API keys act on behalf of the landlord admin who created them.
+ */
+export async function getApiUser(req: NextRequest): Promise<ApiUser> {
+  const key = getApiKeyFromHeaders(req.headers);
+  if (key) {
+    const result = await ApiKeyService.authenticate(key);
+    if (!result) {
+      throw new UnauthorizedError('Invalid, expired or revoked API key');
+    }
+
+    return {
+      id: result.user.id,
+      email: result.user.email,
+      name: result.user.name,
+      role: 'landlord_admin',
+      organizationId: result.apiKey.organizationId,
+      apiKey: {
+        id: result.apiKey.id,
+        name: result.apiKey.name,
+        permissions: result.apiKey.permissions,
+      },
+    };
+  }
+
+  const session = await getServerSession(authOptions);
+  const user = session?.user;
+
+  if (!user?.id || !user.organizationId) {
+    throw new UnauthorizedError();
+  }
+
+  return {
+    id: user.id,
+    email: user.email!,
+    name: user.name,
+    role: user.role as UserRole,
+    organizationId: user.organizationId,
+  };
+}
+
+/**
+ * Attribute the changes of an API request to its caller for the audit log
+ */
+export function createAuditContext(req: NextRequest, user: ApiUser): AuditContext {
+  const forwardedFor = req.headers.get('x-forwarded-for')?.split(',')[0].trim();
+
+  return {
+    actor: {
+      type: user.apiKey ? 'api_key' : 'user',
+      userId: user.id,
+      apiKeyId: user.apiKey?.id,
+    },
+    metadata: {
+      requestId: req.headers.get('x-request-id') || randomUUID(),
+      method: req.method,
+      path: req.nextUrl.pathname,
+      ipAddress: forwardedFor || req.headers.get('x-real-ip') || undefined,
+      userAgent: req.headers.get('user-agent') || undefined,
+    },
+  };
+}
+
+/**
+ * Wrap a route handler with authentication, role checks and error mapping.
+ * The organization always comes from the session or API key, never from the request.
+ * API keys are only accepted on routes that declare a permission, and must hold it.
+ * The handler runs in a request-scoped transaction with row-level security, and
+ * the changes it makes are attributed to the caller in the audit log.
+ */
+export function withApiHandler<P = Record<string, string>>(
+  handler: ApiHandler<P>,
+  options: { roles?: UserRole[]; permission?: ApiKeyPermission } = {}
+) {
+  return async (req: NextRequest, context: { params: P }) => {
+    try {
+      const user = await getApiUser(req);
+
+      if (options.roles && !options.roles.includes(user.role)) {
+        throw new AccessDeniedError('Your role does not allow this operation');
+      }
+
+      if (user.apiKey) {
+        if (!options.permission) {
+          throw new AccessDeniedError('This endpoint is not available to API keys');
+        }
+        if (!user.apiKey.permissions.includes(options.permission)) {
+          throw new AccessDeniedError(`API key lacks the ${options.permission} permission`);
+        }
+      }
+
+      return await withAuditContext(createAuditContext(req, user), () =>
+        withRequestDb(createRLSContext(user), () =>
+          handler({ req, user, params: context?.params })
+        )
+      );
+    } catch (error) {
+      return handleApiError(error);
+    }
+  };
+}
@@ -0,0 +1,1082 @@
+// src/lib/api/openapi.ts
+import { z } from 'zod';
+import { env } from '../env';
+import {
+  apiResponseSchema,
+  paginationSchema,
+  createBuildingSchema,
+  updateBuildingSchema,
+  unitFiltersSchema,
+  createUnitSchema,
+  updateUnitSchema,
+  contractFiltersSchema,
+  createContractSchema,
+  updateContractSchema,
+  createTenantContractSchema,
+  ticketFiltersSchema,
+  createTicketSchema,
+  updateTicketSchema,
+  consumptionFiltersSchema,
+  consumptionBodySchema,
+  updateConsumptionRecordSchema,
+  detectConsumptionAnomaliesSchema,
+  updateConsumptionAnomalySchema,
+  consumptionAnomalyFiltersSchema,
+  meterFiltersSchema,
+  createMeterSchema,
+  updateMeterSchema,
+  createMeterReadingSchema,
+  replaceMeterSchema,
+  createMeterSubmissionSchema,
+  approveMeterSubmissionSchema,
+  rejectMeterSubmissionSchema,
+  meterSubmissionFiltersSchema,
+  documentFiltersSchema,
+  createDocumentSchema,
+  updateDocumentSchema,
+  userFiltersSchema,
+  createUserSchema,
+  updateUserSchema,
+  invitationFiltersSchema,
+  createInvitationSchema,
+  extendInvitationSchema,
+  bulkInvitationSchema,
+  apiKeyFiltersSchema,
+  createApiKeySchema,
+  rotateApiKeySchema,
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveryFiltersSchema,
+  auditEventFiltersSchema,
+  auditEventExportSchema,
+  ledgerFiltersSchema,
+  createLedgerEntrySchema,
+  generateRentChargesSchema,
+  arrearsFiltersSchema,
+  importBankStatementSchema,
+  importConsumptionSchema,
+  bankTransactionFiltersSchema,
+  assignBankTransactionSchema,
+  ignoreBankTransactionSchema,
+  sepaSettingsSchema,
+  createSepaMandateSchema,
+  updateSepaMandateSchema,
+  sepaMandateFiltersSchema,
+  generateDirectDebitBatchSchema,
+  operatingCostSettlementFiltersSchema,
+  createOperatingCostSettlementSchema,
+  updateOperatingCostSettlementSchema,
+  createOperatingCostItemSchema,
+  updateOperatingCostItemSchema,
+  operatingCostStatementFiltersSchema,
+  rentAdjustmentFiltersSchema,
+  createRentAdjustmentSchema,
+  indexProposalFiltersSchema,
+  savePriceIndexValuesSchema,
+  depositFiltersSchema,
+  createDepositAccountSchema,
+  updateDepositAccountSchema,
+  createDepositTransactionSchema,
+  depositSettlementSchema,
+  saveDunningLevelsSchema,
+  dunningNoticeFiltersSchema,
+  issueDunningNoticesSchema,
+  pauseDunningSchema,
+  vendorFiltersSchema,
+  createVendorSchema,
+  updateVendorSchema,
+  vendorInvoiceFiltersSchema,
+  createVendorInvoiceSchema,
+  updateVendorInvoiceSchema,
+  rejectVendorInvoiceSchema,
+  payVendorInvoiceSchema,
+  datevSettingsSchema,
+  datevExportSchema,
+} from '../db/validations';
+import { API_KEY_PERMISSIONS, type ApiKeyPermission } from '../db/schema';
+import type { UserRole } from './handler';
+import { API_KEY_PREFIX } from './credentials';
+
+export type JsonSchema = Record<string, unknown>;
+
+export type HttpMethod = 'get' | 'post' | 'patch' | 'delete';
+
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  roles?: UserRole[];
+  query?: z.ZodType;
+  body?: {
+    name: string;
+    schema: z.ZodType;
+    // Fields the server fills in from the session or the path
+    serverFields?: string[];
+  };
+  status?: number;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string; description: string }>;
+  paths: Record<string, Partial<Record<HttpMethod, JsonSchema>>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    responses: Record<string, JsonSchema>;
+    securitySchemes: Record<string, JsonSchema>;
+  };
+  security: Array<Record<string, string[]>>;
+}
+
+const ADMIN: UserRole[] = ['landlord_admin'];
+
+export const API_TAGS = [
+  { name: 'Buildings', description: 'Properties managed by the organization' },
+  {
+    name: 'Units',
+    description:
+      'Apartments, commercial units, parking spaces and storage rooms of a building. A unit is occupied on the ' +
+      'days a contract covers and vacant otherwise; contracts of a unit may not overlap.',
+  },
+  { name: 'Contracts', description: 'Rental contracts and the tenants on them' },
+  { name: 'Tickets', description: 'Maintenance and repair requests' },
+  { name: 'Consumption', description: 'Meter readings and utility consumption' },
+  {
+    name: 'Consumption Anomalies',
+    description:
+      'Unusual consumption records: spikes above twice the average of the previous records, negative consumption ' +
+      'and flat water usage over three periods. Detection runs daily for the last three periods and notifies the ' +
+      'admins; water anomalies that suggest a leak or a stuck meter open a utilities ticket.',
+  },
+  {
+    name: 'Meters',
+    description:
+      'Meters of buildings and units with their cumulative readings. The consumption since the previous reading is ' +
+      'recorded for the contract letting the unit; counters that start over after their last digit are detected. ' +
+      'Replacing a meter closes it with a final reading and starts the new one with an initial reading. Admins are ' +
+      'reminded 90 days before the calibration (Eichfrist) of a meter expires.',
+  },
+  {
+    name: 'Meter Submissions',
+    description:
+      'Meter values tenants submit with a photo of the meter. Values below the previous reading are refused; ' +
+      'unusual consumption is flagged with warnings. An admin approves the value, possibly corrected, which ' +
+      'records it as a meter reading, or rejects it with a reason.',
+  },
+  { name: 'Documents', description: 'Files attached to buildings, contracts and tickets' },
+  { name: 'Users', description: 'Landlord admins and tenants of the organization' },
+  { name: 'Invitations', description: 'Tenant invitations to contracts' },
+  { name: 'API Keys', description: 'Organization API keys for integrations; managed with a session only' },
+  {
+    name: 'Webhooks',
+    description:
+      'Subscriptions to domain events. Deliveries are POSTed as JSON and signed in the ' +
+      'X-TenantBridge-Signature header as t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>"> ' +
+      'using the subscription secret. Failed deliveries are retried with exponential backoff.',
+  },
+  {
+    name: 'Audit Log',
+    description:
+      'Append-only record of every change: who made it, from which request, and a ' +
+      'field-level before/after diff. Credentials are logged as changed without their values.',
+  },
+  {
+    name: 'Ledger',
+    description:
+      'Rent charges, payments and credits per contract. Amounts are always positive; ' +
+      'the entry type decides whether they increase or settle the balance.',
+  },
+  {
+    name: 'Bank Statements',
+    description:
+      'CAMT.053 and MT940 statement import. Incoming payments are matched to contracts by the contract ' +
+      'number in the reference, the amount and the payer name; the rest wait in a reconciliation queue.',
+  },
+  {
+    name: 'SEPA Direct Debit',
+    description:
+      'SEPA CORE mandates of tenants and the monthly pain.008.001.08 collection files. The organization needs ' +
+      'a creditor ID and bank account before the first batch can be generated.',
+  },
+  {
+    name: 'Operating Costs',
+    description:
+      'Yearly operating cost settlements (Nebenkostenabrechnung) per building. Costs by BetrKV category are split ' +
+      'between the contracts by living area, persons, units or metered consumption, weighted by the days each ' +
+      'contract ran, and netted against the advance payments.',
+  },
+  {
+    name: 'Rent Adjustments',
+    description:
+      'Rent history of each contract with graduated steps (Staffelmiete), changes of index rents against the ' +
+      'consumer price index stored per organization (Indexmiete) and manual increases. Scheduled changes are ' +
+      'applied on their effective date by the rent charge worker; rent charges use the rent in effect in the period.',
+  },
+  {
+    name: 'Security Deposits',
+    description:
+      'Deposit accounts (Mietkaution) per contract with installments, yearly interest credited by the rent charge ' +
+      'worker and withholdings for damages. Terminating a contract starts the settlement of its deposit; ' +
+      'finalizing it credits the remaining interest, offsets the open rent balance and books the payout.',
+  },
+  {
+    name: 'Dunning',
+    description:
+      'Reminders for overdue rent at configurable levels with grace periods and fees. The dunning worker issues ' +
+      'the due reminders daily and charges their fees to the rent ledger; a cycle starts over once the arrears ' +
+      'are paid. Dunning can be paused per contract, e.g. during a dispute.',
+  },
+  {
+    name: 'Vendor Invoices',
+    description:
+      'Vendors and the invoices they send, linked to a building and optionally a ticket, with the invoice PDF as ' +
+      'a document. Invoices are approved or rejected before they are paid; approved invoices of a ticket set its ' +
+      'actual cost, and approved operating costs can be taken over into the settlement of the building.',
+  },
+  {
+    name: 'DATEV',
+    description:
+      'Export of rent charges, payments, vendor invoices and consumption costs as a DATEV Buchungsstapel (EXTF) ' +
+      'for the accountants. Accounts follow SKR03 or SKR04 and can be mapped per organization.',
+  },
+];
+
+// Every /api/v1 operation, in the order they appear in the reference
+export const API_OPERATIONS: ApiOperation[] = [
+  { method: 'get', path: '/buildings', tag: 'Buildings', summary: 'List buildings', roles: ADMIN, query: paginationSchema },
+  {
+    method: 'post', path: '/buildings', tag: 'Buildings', summary: 'Create a building', roles: ADMIN, status: 201,
+    body: { name: 'CreateBuilding', schema: createBuildingSchema, serverFields: ['organizationId'] },
+  },
+  { method: 'get', path: '/buildings/{id}', tag: 'Buildings', summary: 'Get a building with statistics', roles: ADMIN },
+  {
+    method: 'patch', path: '/buildings/{id}', tag: 'Buildings', summary: 'Update a building', roles: ADMIN,
+    body: { name: 'UpdateBuilding', schema: updateBuildingSchema },
+  },
+  { method: 'delete', path: '/buildings/{id}', tag: 'Buildings', summary: 'Delete a building', description: 'Fails with 409 while the building still has contracts.', roles: ADMIN },
+
+  {
+    method: 'get', path: '/units', tag: 'Units', summary: 'List units with their occupancy', roles: ADMIN,
+    description: 'Occupancy is derived for asOf, today by default.', query: unitFiltersSchema,
+  },
+  {
+    method: 'post', path: '/units', tag: 'Units', summary: 'Create a unit', roles: ADMIN, status: 201,
+    body: { name: 'CreateUnit', schema: createUnitSchema },
+  },
+  { method: 'get', path: '/units/{id}', tag: 'Units', summary: 'Get a unit with its contract history', roles: ADMIN },
+  {
+    method: 'patch', path: '/units/{id}', tag: 'Units', summary: 'Update a unit', roles: ADMIN,
+    description: 'A new unit number is copied to the contracts of the unit.',
+    body: { name: 'UpdateUnit', schema: updateUnitSchema },
+  },
+  { method: 'delete', path: '/units/{id}', tag: 'Units', summary: 'Delete a unit', description: 'Fails with 409 once the unit has contracts.', roles: ADMIN },
+
+  {
+    method: 'get', path: '/contracts', tag: 'Contracts', summary: 'List contracts',
+    description: 'Tenants only see the contracts they are on.', query: contractFiltersSchema,
+  },
+  {
+    method: 'post', path: '/contracts', tag: 'Contracts', summary: 'Create a contract', roles: ADMIN, status: 201,
+    description: 'Name the unit by unitId, or by unitNumber to create it on the fly. Fails with 409 when another contract of the unit overlaps the contract period.',
+    body: { name: 'CreateContract', schema: createContractSchema, serverFields: ['organizationId'] },
+  },
+  { method: 'get', path: '/contracts/{id}', tag: 'Contracts', summary: 'Get a contract with its tenants' },
+  {
+    method: 'patch', path: '/contracts/{id}', tag: 'Contracts', summary: 'Update a contract', roles: ADMIN,
+    body: { name: 'UpdateContract', schema: updateContractSchema },
+  },
+  { method: 'delete', path: '/contracts/{id}', tag: 'Contracts', summary: 'Deactivate a contract', roles: ADMIN },
+  {
+    method: 'post', path: '/contracts/{id}/tenants', tag: 'Contracts', summary: 'Add a tenant to a contract', roles: ADMIN, status: 201,
+    body: { name: 'AddContractTenant', schema: createTenantContractSchema, serverFields: ['organizationId', 'contractId'] },
+  },
+  { method: 'delete', path: '/contracts/{id}/tenants/{tenantId}', tag: 'Contracts', summary: 'Remove a tenant from a contract', roles: ADMIN },
+
+  {
+    method: 'get', path: '/tickets', tag: 'Tickets', summary: 'List tickets',
+    description: 'Tenants only see tickets they created or that belong to their contracts.', query: ticketFiltersSchema,
+  },
+  {
+    method: 'post', path: '/tickets', tag: 'Tickets', summary: 'Create a ticket', status: 201,
+    description: 'Tenants must pass one of their own contracts; status and assignee are reserved for landlord admins.',
+    body: { name: 'CreateTicket', schema: createTicketSchema, serverFields: ['organizationId', 'createdById'] },
+  },
+  { method: 'get', path: '/tickets/{id}', tag: 'Tickets', summary: 'Get a ticket' },
+  {
+    method: 'patch', path: '/tickets/{id}', tag: 'Tickets', summary: 'Update a ticket',
+    description: 'Tenants may only edit the description of their own tickets.',
+    body: { name: 'UpdateTicket', schema: updateTicketSchema },
+  },
+
+  {
+    method: 'get', path: '/consumption', tag: 'Consumption', summary: 'List consumption records',
+    description: 'Tenants only see records for their own contracts.', query: consumptionFiltersSchema,
+  },
+  {
+    method: 'post', path: '/consumption', tag: 'Consumption', summary: 'Create one or many consumption records', roles: ADMIN, status: 201,
+    description: 'Send a single record or an array of up to 1000 records.',
+    body: { name: 'CreateConsumptionRecords', schema: consumptionBodySchema, serverFields: ['organizationId'] },
+  },
+  { method: 'get', path: '/consumption/{id}', tag: 'Consumption', summary: 'Get a consumption record' },
+  {
+    method: 'patch', path: '/consumption/{id}', tag: 'Consumption', summary: 'Update a consumption record', roles: ADMIN,
+    body: { name: 'UpdateConsumptionRecord', schema: updateConsumptionRecordSchema },
+  },
+  { method: 'delete', path: '/consumption/{id}', tag: 'Consumption', summary: 'Delete a consumption record', roles: ADMIN },
+  {
+    method: 'post', path: '/consumption/import', tag: 'Consumption', summary: 'Import consumption records from a file', roles: ADMIN,
+    description: 'Accepts CSV, XLSX (base64) and Techem- or ista-style exports. Columns are found by their headers unless mapped. ' +
+      'Rows are assigned to contracts by contract number, meter number or unit number within buildingId. ' +
+      'Dry runs (the default) only return the report of accepted and rejected rows; records that already exist for a period are rejected.',
+    body: { name: 'ImportConsumption', schema: importConsumptionSchema },
+  },
+
+  {
+    method: 'get', path: '/consumption/anomalies', tag: 'Consumption Anomalies', summary: 'List consumption anomalies',
+    roles: ADMIN, query: consumptionAnomalyFiltersSchema,
+  },
+  {
+    method: 'post', path: '/consumption/anomalies/detect', tag: 'Consumption Anomalies', summary: 'Run the anomaly detection',
+    roles: ADMIN, description: 'Returns the anomalies not found by earlier runs. Tickets it opens are created in the name of the caller.',
+    body: { name: 'DetectConsumptionAnomalies', schema: detectConsumptionAnomaliesSchema },
+  },
+  { method: 'get', path: '/consumption/anomalies/{id}', tag: 'Consumption Anomalies', summary: 'Get a consumption anomaly', roles: ADMIN },
+  {
+    method: 'patch', path: '/consumption/anomalies/{id}', tag: 'Consumption Anomalies', summary: 'Acknowledge, dismiss or resolve an anomaly',
+    roles: ADMIN, body: { name: 'UpdateConsumptionAnomaly', schema: updateConsumptionAnomalySchema },
+  },
+
+  {
+    method: 'get', path: '/meters', tag: 'Meters', summary: 'List meters', query: meterFiltersSchema,
+    description: 'Tenants get the meters of the units they currently rent with the latest reading; filters do not apply.',
+  },
+  {
+    method: 'post', path: '/meters', tag: 'Meters', summary: 'Register a meter', roles: ADMIN, status: 201,
+    description: 'The calibration expiry follows from the calibration year unless given.',
+    body: { name: 'CreateMeter', schema: createMeterSchema },
+  },
+  { method: 'get', path: '/meters/{id}', tag: 'Meters', summary: 'Get a meter with its readings', roles: ADMIN },
+  {
+    method: 'patch', path: '/meters/{id}', tag: 'Meters', summary: 'Update a meter', roles: ADMIN,
+    body: { name: 'UpdateMeter', schema: updateMeterSchema },
+  },
+  { method: 'get', path: '/meters/{id}/readings', tag: 'Meters', summary: 'List the readings of a meter', roles: ADMIN },
+  {
+    method: 'post', path: '/meters/{id}/readings', tag: 'Meters', summary: 'Record a meter reading', roles: ADMIN, status: 201,
+    description: 'Fails with 400 when the value is below the previous reading and no rollover is plausible.',
+    body: { name: 'CreateMeterReading', schema: createMeterReadingSchema },
+  },
+  {
+    method: 'delete', path: '/meters/{id}/readings/{readingId}', tag: 'Meters', summary: 'Delete the latest reading', roles: ADMIN,
+    description: 'Deletes the consumption derived from the reading as well.',
+  },
+  {
+    method: 'post', path: '/meters/{id}/replace', tag: 'Meters', summary: 'Replace a meter', roles: ADMIN, status: 201,
+    body: { name: 'ReplaceMeter', schema: replaceMeterSchema },
+  },
+
+  {
+    method: 'get', path: '/meter-submissions', tag: 'Meter Submissions', summary: 'List meter reading submissions',
+    description: 'Tenants see their own submissions.', query: meterSubmissionFiltersSchema,
+  },
+  {
+    method: 'post', path: '/meter-submissions', tag: 'Meter Submissions', summary: 'Submit a meter reading',
+    roles: ['tenant'], status: 201,
+    description: 'The photo content is base64 encoded. The tenant must rent the unit of the meter on the reading date.',
+    body: { name: 'CreateMeterSubmission', schema: createMeterSubmissionSchema },
+  },
+  {
+    method: 'post', path: '/meter-submissions/{id}/approve', tag: 'Meter Submissions', summary: 'Approve a submission',
+    roles: ADMIN, description: 'Records the submitted or corrected value as a meter reading.',
+    body: { name: 'ApproveMeterSubmission', schema: approveMeterSubmissionSchema },
+  },
+  {
+    method: 'post', path: '/meter-submissions/{id}/reject', tag: 'Meter Submissions', summary: 'Reject a submission',
+    roles: ADMIN, body: { name: 'RejectMeterSubmission', schema: rejectMeterSubmissionSchema },
+  },
+
+  {
+    method: 'get', path: '/documents', tag: 'Documents', summary: 'List documents',
+    description: 'Tenants see public documents and documents for their contracts and tickets.', query: documentFiltersSchema,
+  },
+  {
+    method: 'post', path: '/documents', tag: 'Documents', summary: 'Register an uploaded document', status: 201,
+    body: { name: 'CreateDocument', schema: createDocumentSchema, serverFields: ['organizationId', 'uploadedById'] },
+  },
+  { method: 'get', path: '/documents/{id}', tag: 'Documents', summary: 'Get a document' },
+  {
+    method: 'patch', path: '/documents/{id}', tag: 'Documents', summary: 'Update a document',
+    description: 'Tenants may only edit documents they uploaded.',
+    body: { name: 'UpdateDocument', schema: updateDocumentSchema },
+  },
+  { method: 'delete', path: '/documents/{id}', tag: 'Documents', summary: 'Delete a document', description: 'Tenants may only delete documents they uploaded.' },
+
+  { method: 'get', path: '/users', tag: 'Users', summary: 'List users', roles: ADMIN, query: userFiltersSchema },
+  {
+    method: 'post', path: '/users', tag: 'Users', summary: 'Create a user', roles: ADMIN, status: 201,
+    description: 'Tenants are usually onboarded through invitations instead.',
+    body: { name: 'CreateUser', schema: createUserSchema, serverFields: ['organizationId'] },
+  },
+  { method: 'get', path: '/users/{id}', tag: 'Users', summary: 'Get a user', description: 'Tenants may only fetch their own profile.' },
+  {
+    method: 'patch', path: '/users/{id}', tag: 'Users', summary: 'Update a user',
+    description: 'Users may edit their own name and image; only landlord admins change roles and emails.',
+    body: { name: 'UpdateUser', schema: updateUserSchema },
+  },
+  { method: 'delete', path: '/users/{id}', tag: 'Users', summary: 'Deactivate a user', roles: ADMIN },
+
+  { method: 'get', path: '/invitations', tag: 'Invitations', summary: 'List invitations', roles: ADMIN, query: invitationFiltersSchema },
+  {
+    method: 'post', path: '/invitations', tag: 'Invitations', summary: 'Invite a tenant to a contract', roles: ADMIN, status: 201,
+    body: { name: 'CreateInvitation', schema: createInvitationSchema, serverFields: ['organizationId', 'createdById'] },
+  },
+  { method: 'get', path: '/invitations/{id}', tag: 'Invitations', summary: 'Get an invitation', roles: ADMIN },
+  { method: 'delete', path: '/invitations/{id}', tag: 'Invitations', summary: 'Revoke an invitation', roles: ADMIN },
+  {
+    method: 'post', path: '/invitations/{id}/resend', tag: 'Invitations', summary: 'Resend an invitation with a new token', roles: ADMIN,
+    body: { name: 'ResendInvitation', schema: extendInvitationSchema },
+  },
+  {
+    method: 'post', path: '/invitations/{id}/extend', tag: 'Invitations', summary: 'Extend the expiry of an invitation', roles: ADMIN,
+    body: { name: 'ExtendInvitation', schema: extendInvitationSchema },
+  },
+  {
+    method: 'post', path: '/invitations/bulk', tag: 'Invitations', summary: 'Invite tenants from a CSV', roles: ADMIN, status: 201,
+    description: 'CSV columns: email, unitNumber or contractNumber, tenantName, percentage, isMainTenant.',
+    body: { name: 'BulkInvitation', schema: bulkInvitationSchema },
+  },
+
+  { method: 'get', path: '/api-keys', tag: 'API Keys', summary: 'List API keys', roles: ADMIN, query: apiKeyFiltersSchema },
+  {
+    method: 'post', path: '/api-keys', tag: 'API Keys', summary: 'Create an API key', roles: ADMIN, status: 201,
+    description: 'The response contains the plain key, which is shown only once.',
+    body: { name: 'CreateApiKey', schema: createApiKeySchema },
+  },
+  { method: 'get', path: '/api-keys/{id}', tag: 'API Keys', summary: 'Get an API key', roles: ADMIN },
+  { method: 'delete', path: '/api-keys/{id}', tag: 'API Keys', summary: 'Revoke an API key', roles: ADMIN },
+  {
+    method: 'post', path: '/api-keys/{id}/rotate', tag: 'API Keys', summary: 'Rotate an API key', roles: ADMIN, status: 201,
+    description: 'Issues a new key with the same name and permissions. The old key is revoked, or keeps working for the grace period.',
+    body: { name: 'RotateApiKey', schema: rotateApiKeySchema },
+  },
+
+  { method: 'get', path: '/webhooks', tag: 'Webhooks', summary: 'List webhook subscriptions', roles: ADMIN },
+  {
+    method: 'post', path: '/webhooks', tag: 'Webhooks', summary: 'Create a webhook subscription', roles: ADMIN, status: 201,
+    description: 'The URL must use HTTPS and resolve to public addresses only. ' +
+      'The response contains the signing secret, which is not shown again.',
+    body: { name: 'CreateWebhook', schema: createWebhookSchema },
+  },
+  { method: 'get', path: '/webhooks/{id}', tag: 'Webhooks', summary: 'Get a webhook subscription', roles: ADMIN },
+  {
+    method: 'patch', path: '/webhooks/{id}', tag: 'Webhooks', summary: 'Update a webhook subscription', roles: ADMIN,
+    body: { name: 'UpdateWebhook', schema: updateWebhookSchema },
+  },
+  { method: 'delete', path: '/webhooks/{id}', tag: 'Webhooks', summary: 'Delete a webhook subscription and its delivery log', roles: ADMIN },
+  { method: 'post', path: '/webhooks/{id}/rotate-secret', tag: 'Webhooks', summary: 'Rotate the signing secret', roles: ADMIN },
+  {
+    method: 'get', path: '/webhooks/{id}/deliveries', tag: 'Webhooks', summary: 'List deliveries of a subscription', roles: ADMIN,
+    query: webhookDeliveryFiltersSchema,
+  },
+  {
+    method: 'post', path: '/webhooks/{id}/deliveries/{deliveryId}/retry', tag: 'Webhooks', summary: 'Retry a failed delivery', roles: ADMIN,
+  },
+
+  {
+    method: 'get', path: '/audit-events', tag: 'Audit Log', summary: 'List audit events', roles: ADMIN,
+    description: 'Newest first. Filter by entityType and entityId to get the history of a single record.',
+    query: auditEventFiltersSchema,
+  },
+  {
+    method: 'get', path: '/audit-events/export', tag: 'Audit Log', summary: 'Export audit events', roles: ADMIN,
+    description:
+      'Returns a CSV or JSON file instead of the JSON envelope. Exports stop at 10,000 events; ' +
+      'the X-Export-Truncated header is true when more events match.',
+    query: auditEventExportSchema,
+  },
+
+  { method: 'get', path: '/ledger', tag: 'Ledger', summary: 'List ledger entries', roles: ADMIN, query: ledgerFiltersSchema },
+  {
+    method: 'post', path: '/ledger', tag: 'Ledger', summary: 'Book a charge, payment or credit', roles: ADMIN, status: 201,
+    description: 'Entries booked for a tenant count towards that co-tenant only; all others are split by the tenants\' shares.',
+    body: { name: 'CreateLedgerEntry', schema: createLedgerEntrySchema },
+  },
+  { method: 'get', path: '/ledger/{id}', tag: 'Ledger', summary: 'Get a ledger entry', roles: ADMIN },
+  { method: 'delete', path: '/ledger/{id}', tag: 'Ledger', summary: 'Delete a ledger entry', roles: ADMIN },
+  {
+    method: 'post', path: '/ledger/generate', tag: 'Ledger', summary: 'Generate the monthly rent charges', roles: ADMIN,
+    description:
+      'Charges the rent of every contract running in the period, prorated by day for contracts starting or ending ' +
+      'within it, due on the third working day. Contracts already charged for the period are skipped.',
+    body: { name: 'GenerateRentCharges', schema: generateRentChargesSchema },
+  },
+  {
+    method: 'get', path: '/ledger/arrears', tag: 'Ledger', summary: 'List contracts in arrears', roles: ADMIN,
+    description: 'Largest arrears first. Payments and credits settle the oldest charges first.',
+    query: arrearsFiltersSchema,
+  },
+  {
+    method: 'get', path: '/ledger/contracts/{contractId}', tag: 'Ledger', summary: 'Get the balance of a contract',
+    description: 'Includes the balance of each co-tenant. Tenants can read their own contracts and only see their own share.',
+    query: arrearsFiltersSchema,
+  },
+
+  { method: 'get', path: '/bank-statements', tag: 'Bank Statements', summary: 'List imported statements', roles: ADMIN, query: paginationSchema },
+  {
+    method: 'post', path: '/bank-statements', tag: 'Bank Statements', summary: 'Import a bank statement', roles: ADMIN, status: 201,
+    description:
+      'The file content is sent as text; the format is detected from it. Bookings already imported with an ' +
+      'earlier statement are skipped. Unambiguous matches are booked as ledger payments right away.',
+    body: { name: 'ImportBankStatement', schema: importBankStatementSchema },
+  },
+  {
+    method: 'get', path: '/bank-statements/transactions', tag: 'Bank Statements', summary: 'List imported bookings', roles: ADMIN,
+    description: 'Filter by status=unmatched for the reconciliation queue. Unmatched credits carry the best candidate as suggested contract.',
+    query: bankTransactionFiltersSchema,
+  },
+  { method: 'get', path: '/bank-statements/transactions/{id}', tag: 'Bank Statements', summary: 'Get an imported booking', roles: ADMIN },
+  {
+    method: 'post', path: '/bank-statements/transactions/{id}/assign', tag: 'Bank Statements', summary: 'Assign a credit to a contract', roles: ADMIN,
+    description: 'Books the credit as a payment in the ledger of the contract.',
+    body: { name: 'AssignBankTransaction', schema: assignBankTransactionSchema },
+  },
+  {
+    method: 'post', path: '/bank-statements/transactions/{id}/unassign', tag: 'Bank Statements', summary: 'Undo the assignment of a credit', roles: ADMIN,
+    description: 'Deletes the booked payment and puts the credit back in the reconciliation queue.',
+  },
+  {
+    method: 'post', path: '/bank-statements/transactions/{id}/ignore', tag: 'Bank Statements', summary: 'Ignore a booking or put it back in the queue', roles: ADMIN,
+    body: { name: 'IgnoreBankTransaction', schema: ignoreBankTransactionSchema },
+  },
+
+  { method: 'get', path: '/sepa/settings', tag: 'SEPA Direct Debit', summary: 'Get the creditor settings', roles: ADMIN },
+  {
+    method: 'patch', path: '/sepa/settings', tag: 'SEPA Direct Debit', summary: 'Update the creditor settings', roles: ADMIN,
+    description: 'The creditor ID, IBAN and BIC are checked for valid format and check digits.',
+    body: { name: 'SepaSettings', schema: sepaSettingsSchema },
+  },
+  { method: 'get', path: '/sepa/mandates', tag: 'SEPA Direct Debit', summary: 'List mandates', roles: ADMIN, query: sepaMandateFiltersSchema },
+  {
+    method: 'post', path: '/sepa/mandates', tag: 'SEPA Direct Debit', summary: 'Store a signed mandate', roles: ADMIN, status: 201,
+    description: 'The tenant must be on the contract. Without a mandate reference one is generated from the contract number.',
+    body: { name: 'CreateSepaMandate', schema: createSepaMandateSchema },
+  },
+  { method: 'get', path: '/sepa/mandates/{id}', tag: 'SEPA Direct Debit', summary: 'Get a mandate', roles: ADMIN },
+  {
+    method: 'patch', path: '/sepa/mandates/{id}', tag: 'SEPA Direct Debit', summary: 'Update the bank account of a mandate', roles: ADMIN,
+    body: { name: 'UpdateSepaMandate', schema: updateSepaMandateSchema },
+  },
+  { method: 'post', path: '/sepa/mandates/{id}/revoke', tag: 'SEPA Direct Debit', summary: 'Revoke a mandate', roles: ADMIN },
+  { method: 'get', path: '/sepa/batches', tag: 'SEPA Direct Debit', summary: 'List direct debit batches', roles: ADMIN, query: paginationSchema },
+  {
+    method: 'post', path: '/sepa/batches', tag: 'SEPA Direct Debit', summary: 'Generate the direct debits of a month', roles: ADMIN, status: 201,
+    description:
+      'Collects the rent charged for the period from every running contract with an active mandate, split between ' +
+      'co-tenants by their shares. Contracts already collected for the period and expired mandates are skipped ' +
+      'and listed. The collection date is moved to the next possible TARGET business day.',
+    body: { name: 'GenerateDirectDebitBatch', schema: generateDirectDebitBatchSchema },
+  },
+  { method: 'get', path: '/sepa/batches/{id}', tag: 'SEPA Direct Debit', summary: 'Get a direct debit batch', roles: ADMIN },
+  {
+    method: 'get', path: '/sepa/batches/{id}/xml', tag: 'SEPA Direct Debit', summary: 'Download the pain.008 file', roles: ADMIN,
+    description: 'Returns the XML file to upload to the bank instead of the JSON envelope.',
+  },
+
+  {
+    method: 'get', path: '/operating-costs', tag: 'Operating Costs', summary: 'List settlements', roles: ADMIN,
+    query: operatingCostSettlementFiltersSchema,
+  },
+  {
+    method: 'post', path: '/operating-costs', tag: 'Operating Costs', summary: 'Start a settlement', roles: ADMIN, status: 201,
+    description: 'The period may not exceed twelve months or overlap another settlement of the building.',
+    body: { name: 'CreateOperatingCostSettlement', schema: createOperatingCostSettlementSchema },
+  },
+  {
+    method: 'get', path: '/operating-costs/{id}', tag: 'Operating Costs', summary: 'Get a settlement', roles: ADMIN,
+    description: 'Includes the costs, the statements of the contracts and the deadline for delivering them to the tenants.',
+  },
+  {
+    method: 'patch', path: '/operating-costs/{id}', tag: 'Operating Costs', summary: 'Update the heating cost split', roles: ADMIN,
+    description:
+      'Sets the share of heating costs split by consumption (50-70%, HeizkostenV) and the CO2 emissions and costs of ' +
+      'the heating fuel. The landlord bears part of the CO2 costs depending on the emissions per m² (CO2KostAufG).',
+    body: { name: 'UpdateOperatingCostSettlement', schema: updateOperatingCostSettlementSchema },
+  },
+  { method: 'delete', path: '/operating-costs/{id}', tag: 'Operating Costs', summary: 'Delete a draft settlement', roles: ADMIN },
+  {
+    method: 'post', path: '/operating-costs/{id}/items', tag: 'Operating Costs', summary: 'Add a cost', roles: ADMIN, status: 201,
+    description: 'Changing the costs discards calculated statements.',
+    body: { name: 'CreateOperatingCostItem', schema: createOperatingCostItemSchema },
+  },
+  {
+    method: 'patch', path: '/operating-costs/{id}/items/{itemId}', tag: 'Operating Costs', summary: 'Update a cost', roles: ADMIN,
+    body: { name: 'UpdateOperatingCostItem', schema: updateOperatingCostItemSchema },
+  },
+  { method: 'delete', path: '/operating-costs/{id}/items/{itemId}', tag: 'Operating Costs', summary: 'Delete a cost', roles: ADMIN },
+  {
+    method: 'post', path: '/operating-costs/{id}/vendor-invoices', tag: 'Operating Costs', summary: 'Take over vendor invoices',
+    roles: ADMIN, status: 201,
+    description:
+      'Adds the approved operating cost invoices of the building dated within the period as costs, heating and ' +
+      'hot water by the HeizkostenV and everything else by living area. Invoices already taken over are skipped.',
+  },
+  {
+    method: 'post', path: '/operating-costs/{id}/calculate', tag: 'Operating Costs', summary: 'Calculate the statements', roles: ADMIN,
+    description:
+      'Allocates the costs to every contract of the building that ran in the period. Shares of vacant units ' +
+      'stay with the landlord. Heating costs are split into base costs by area and consumption costs; missing ' +
+      'readings are estimated unless they cover more than a quarter of the area, in which case the whole cost is ' +
+      'split by area. Fails when a contract lacks the living area or occupants a key needs.',
+  },
+  {
+    method: 'post', path: '/operating-costs/{id}/finalize', tag: 'Operating Costs', summary: 'Finalize a settlement', roles: ADMIN,
+    description:
+      'Books back payments as ledger charges due in 30 days and refunds as credits. ' +
+      'Tenants can read their statements from then on.',
+  },
+  {
+    method: 'get', path: '/operating-costs/statements', tag: 'Operating Costs', summary: 'List statements',
+    description: 'Tenants only get the finalized statements of their own contracts.',
+    query: operatingCostStatementFiltersSchema,
+  },
+  {
+    method: 'get', path: '/operating-costs/statements/{id}/pdf', tag: 'Operating Costs', summary: 'Download a statement as PDF',
+    description: 'Returns the PDF letter to the tenants instead of the JSON envelope.',
+  },
+
+  {
+    method: 'get', path: '/rent-adjustments', tag: 'Rent Adjustments', summary: 'List rent adjustments', roles: ADMIN,
+    description: 'Use status=scheduled with dueBefore to find the changes taking effect soon.',
+    query: rentAdjustmentFiltersSchema,
+  },
+  {
+    method: 'post', path: '/rent-adjustments', tag: 'Rent Adjustments', summary: 'Schedule a rent change', roles: ADMIN, status: 201,
+    description:
+      'graduated replaces the future steps of the contract; steps are at least twelve months apart. index ' +
+      'calculates the new rent from the latest price index value and takes effect from the month after next. ' +
+      'manual increases of fixed rents take effect from the third month after the notice, after 15 months ' +
+      'without an increase and within the 20% cap over three years.',
+    body: { name: 'CreateRentAdjustment', schema: createRentAdjustmentSchema },
+  },
+  { method: 'get', path: '/rent-adjustments/{id}', tag: 'Rent Adjustments', summary: 'Get a rent adjustment', roles: ADMIN },
+  {
+    method: 'post', path: '/rent-adjustments/{id}/cancel', tag: 'Rent Adjustments', summary: 'Cancel a scheduled rent change',
+    roles: ADMIN,
+  },
+  {
+    method: 'get', path: '/rent-adjustments/{id}/notice', tag: 'Rent Adjustments', summary: 'Download the notice letter',
+    description: 'Returns the PDF letter announcing the change to the tenants instead of the JSON envelope.',
+  },
+  {
+    method: 'get', path: '/rent-adjustments/contracts/{contractId}', tag: 'Rent Adjustments', summary: 'Get the rent history of a contract',
+    description: 'Tenants can read the history of their own contracts.',
+  },
+  {
+    method: 'get', path: '/rent-adjustments/index-proposals', tag: 'Rent Adjustments', summary: 'List due index rent changes',
+    roles: ADMIN,
+    description: 'Index rent contracts whose rent can be adjusted for a notice on the given date, with the new rent.',
+    query: indexProposalFiltersSchema,
+  },
+  { method: 'get', path: '/rent-adjustments/price-index', tag: 'Rent Adjustments', summary: 'Get the price index', roles: ADMIN },
+  {
+    method: 'post', path: '/rent-adjustments/price-index', tag: 'Rent Adjustments', summary: 'Save price index values', roles: ADMIN,
+    description: 'Monthly values of the consumer price index (VPI); values of months already stored are replaced.',
+    body: { name: 'SavePriceIndexValues', schema: savePriceIndexValuesSchema },
+  },
+
+  {
+    method: 'get', path: '/deposits', tag: 'Security Deposits', summary: 'List deposit accounts', roles: ADMIN,
+    query: depositFiltersSchema,
+  },
+  {
+    method: 'post', path: '/deposits', tag: 'Security Deposits', summary: 'Open a deposit account', roles: ADMIN, status: 201,
+    description: 'The agreed amount defaults to the deposit of the contract and may not exceed three monthly rents.',
+    body: { name: 'CreateDepositAccount', schema: createDepositAccountSchema },
+  },
+  {
+    method: 'get', path: '/deposits/{id}', tag: 'Security Deposits', summary: 'Get a deposit account', roles: ADMIN,
+    description: 'With its transactions, totals, the interest accrued but not yet credited and the settlement.',
+  },
+  {
+    method: 'patch', path: '/deposits/{id}', tag: 'Security Deposits', summary: 'Update a deposit account', roles: ADMIN,
+    body: { name: 'UpdateDepositAccount', schema: updateDepositAccountSchema },
+  },
+  {
+    method: 'post', path: '/deposits/{id}/transactions', tag: 'Security Deposits', summary: 'Record an installment or withholding',
+    roles: ADMIN, status: 201,
+    description: 'Withholdings cannot exceed the balance and may link the ticket of the damage they cover.',
+    body: { name: 'CreateDepositTransaction', schema: createDepositTransactionSchema },
+  },
+  {
+    method: 'delete', path: '/deposits/{id}/transactions/{transactionId}', tag: 'Security Deposits',
+    summary: 'Delete an installment or withholding', roles: ADMIN,
+  },
+  {
+    method: 'get', path: '/deposits/{id}/settlement', tag: 'Security Deposits', summary: 'Get the deposit settlement', roles: ADMIN,
+    description: 'Drafts show the figures the settlement would be finalized with today.',
+  },
+  {
+    method: 'post', path: '/deposits/{id}/settlement', tag: 'Security Deposits', summary: 'Start the deposit settlement',
+    roles: ADMIN, status: 201,
+    body: { name: 'CreateDepositSettlement', schema: depositSettlementSchema },
+  },
+  {
+    method: 'patch', path: '/deposits/{id}/settlement', tag: 'Security Deposits', summary: 'Change the settlement date',
+    roles: ADMIN,
+    body: { name: 'UpdateDepositSettlement', schema: depositSettlementSchema },
+  },
+  {
+    method: 'post', path: '/deposits/{id}/settlement/finalize', tag: 'Security Deposits', summary: 'Finalize the deposit settlement',
+    roles: ADMIN,
+    description: 'Books the outstanding interest, a ledger payment for the open rent balance and the payout of the rest.',
+  },
+  {
+    method: 'get', path: '/deposits/{id}/settlement/pdf', tag: 'Security Deposits', summary: 'Download the settlement statement',
+    description: 'Returns the PDF letter to the tenants instead of the JSON envelope. Tenants get finalized settlements only.',
+  },
+  {
+    method: 'get', path: '/deposits/contracts/{contractId}', tag: 'Security Deposits', summary: 'Get the deposit of a contract',
+    description: 'Tenants can read the deposit of their own contracts.',
+  },
+  {
+    method: 'post', path: '/deposits/interest', tag: 'Security Deposits', summary: 'Credit the interest of past years', roles: ADMIN,
+  },
+
+  {
+    method: 'get', path: '/dunning/levels', tag: 'Dunning', summary: 'Get the reminder levels', roles: ADMIN,
+    description: 'Returns the default levels while the organization has not configured its own.',
+  },
+  {
+    method: 'post', path: '/dunning/levels', tag: 'Dunning', summary: 'Save the reminder levels', roles: ADMIN,
+    description:
+      'Replaces all levels. The first level is due the grace days after the oldest open charge fell due, ' +
+      'later levels the grace days after the payment deadline of the previous reminder.',
+    body: { name: 'SaveDunningLevels', schema: saveDunningLevelsSchema },
+  },
+  {
+    method: 'get', path: '/dunning/due', tag: 'Dunning', summary: 'List the reminders due', roles: ADMIN,
+    description: 'Contracts in arrears with the level the next dunning run would send.',
+  },
+  {
+    method: 'get', path: '/dunning/notices', tag: 'Dunning', summary: 'List reminders', roles: ADMIN,
+    query: dunningNoticeFiltersSchema,
+  },
+  {
+    method: 'post', path: '/dunning/notices', tag: 'Dunning', summary: 'Issue the due reminders', roles: ADMIN, status: 201,
+    body: { name: 'IssueDunningNotices', schema: issueDunningNoticesSchema },
+  },
+  { method: 'get', path: '/dunning/notices/{id}', tag: 'Dunning', summary: 'Get a reminder', roles: ADMIN },
+  {
+    method: 'get', path: '/dunning/notices/{id}/pdf', tag: 'Dunning', summary: 'Download a reminder letter',
+    description: 'Returns the PDF letter to the tenants instead of the JSON envelope.',
+  },
+  {
+    method: 'get', path: '/dunning/contracts/{contractId}', tag: 'Dunning', summary: 'Get the dunning history of a contract',
+    description: 'Tenants can read the history of their own contracts.',
+  },
+  {
+    method: 'post', path: '/dunning/contracts/{contractId}/pause', tag: 'Dunning', summary: 'Pause dunning of a contract',
+    roles: ADMIN,
+    body: { name: 'PauseDunning', schema: pauseDunningSchema },
+  },
+  {
+    method: 'delete', path: '/dunning/contracts/{contractId}/pause', tag: 'Dunning', summary: 'Resume dunning of a contract',
+    roles: ADMIN,
+  },
+  { method: 'get', path: '/dunning/stats', tag: 'Dunning', summary: 'Get dunning figures', roles: ADMIN },
+  {
+    method: 'get', path: '/dashboard', tag: 'Dunning', summary: 'Get the landlord dashboard figures', roles: ADMIN,
+    description: 'Ticket and dunning figures in one call; session only.',
+  },
+
+  {
+    method: 'get', path: '/vendors', tag: 'Vendor Invoices', summary: 'List vendors', roles: ADMIN,
+    query: vendorFiltersSchema,
+  },
+  {
+    method: 'post', path: '/vendors', tag: 'Vendor Invoices', summary: 'Create a vendor', roles: ADMIN, status: 201,
+    body: { name: 'CreateVendor', schema: createVendorSchema },
+  },
+  { method: 'get', path: '/vendors/{id}', tag: 'Vendor Invoices', summary: 'Get a vendor', roles: ADMIN },
+  {
+    method: 'patch', path: '/vendors/{id}', tag: 'Vendor Invoices', summary: 'Update a vendor', roles: ADMIN,
+    description: 'Set isActive to false for vendors no longer used; vendors with invoices cannot be deleted.',
+    body: { name: 'UpdateVendor', schema: updateVendorSchema },
+  },
+  {
+    method: 'get', path: '/vendor-invoices', tag: 'Vendor Invoices', summary: 'List vendor invoices', roles: ADMIN,
+    description: 'Includes the gross total of all matching invoices. overdue=true lists approved invoices past their due date.',
+    query: vendorInvoiceFiltersSchema,
+  },
+  {
+    method: 'post', path: '/vendor-invoices', tag: 'Vendor Invoices', summary: 'Record an invoice', roles: ADMIN, status: 201,
+    description:
+      'The VAT is calculated from the rate unless vatAmount is given. A ticket must belong to the building; ' +
+      'upload the invoice PDF as a document first and pass its ID.',
+    body: { name: 'CreateVendorInvoice', schema: createVendorInvoiceSchema },
+  },
+  {
+    method: 'get', path: '/vendor-invoices/{id}', tag: 'Vendor Invoices', summary: 'Get an invoice', roles: ADMIN,
+    description: 'With the vendor, building, ticket and attached document.',
+  },
+  {
+    method: 'patch', path: '/vendor-invoices/{id}', tag: 'Vendor Invoices', summary: 'Update an invoice', roles: ADMIN,
+    description: 'Only received invoices can be changed.',
+    body: { name: 'UpdateVendorInvoice', schema: updateVendorInvoiceSchema },
+  },
+  {
+    method: 'delete', path: '/vendor-invoices/{id}', tag: 'Vendor Invoices', summary: 'Delete an invoice', roles: ADMIN,
+    description: 'Approved and paid invoices cannot be deleted.',
+  },
+  {
+    method: 'post', path: '/vendor-invoices/{id}/approve', tag: 'Vendor Invoices', summary: 'Approve an invoice', roles: ADMIN,
+    description: 'The approved invoices of a ticket replace its actual cost.',
+  },
+  {
+    method: 'post', path: '/vendor-invoices/{id}/reject', tag: 'Vendor Invoices', summary: 'Reject an invoice', roles: ADMIN,
+    body: { name: 'RejectVendorInvoice', schema: rejectVendorInvoiceSchema },
+  },
+  {
+    method: 'post', path: '/vendor-invoices/{id}/pay', tag: 'Vendor Invoices', summary: 'Mark an invoice as paid', roles: ADMIN,
+    description: 'Only approved invoices can be paid.',
+    body: { name: 'PayVendorInvoice', schema: payVendorInvoiceSchema },
+  },
+
+  {
+    method: 'get', path: '/datev/settings', tag: 'DATEV', summary: 'Get the DATEV settings', roles: ADMIN,
+    description: 'accounts lists every account the export books to, including the defaults of the chart of accounts.',
+  },
+  {
+    method: 'patch', path: '/datev/settings', tag: 'DATEV', summary: 'Update the DATEV settings', roles: ADMIN,
+    description: 'Accounts set to null are reset to the default of the chart of accounts.',
+    body: { name: 'DatevSettings', schema: datevSettingsSchema },
+  },
+  {
+    method: 'get', path: '/datev/export', tag: 'DATEV', summary: 'Download a DATEV booking batch', roles: ADMIN,
+    description:
+      'Returns the EXTF file (Windows-1252) instead of the JSON envelope. The periods must lie within one fiscal ' +
+      'year. Charges are dated by their due date, payments by their value date and invoices by their invoice ' +
+      'and payment date; amounts are gross, as residential rent is exempt from VAT.',
+    query: datevExportSchema,
+  },
+];
+
+/**
+ * API key permission required by an operation, following the <resource>:<read|write>
+ * convention of the route handlers. Null when the operation is session-only.
+ */
+export function getRequiredPermission(operation: Pick<ApiOperation, 'method' | 'path'>): ApiKeyPermission | null {
+  const resource = operation.path.split('/')[1];
+  const permission = `${resource}:${operation.method === 'get' ? 'read' : 'write'}`;
+
+  return (API_KEY_PERMISSIONS as readonly string[]).includes(permission) ? permission as ApiKeyPermission : null;
+}
+
+/**
+ * Convert a zod schema into an OpenAPI 3.1 (JSON Schema 2020-12) schema
+ */
+export function toJsonSchema(
+  schema: z.ZodType,
+  options: { io?: 'input' | 'output'; omit?: string[] } = {}
+): JsonSchema {
+  const json = z.toJSONSchema(schema, {
+    target: 'draft-2020-12',
+    io: options.io || 'input',
+    unrepresentable: 'any',
+    override: (ctx) => {
+      const def = ctx.zodSchema._zod.def;
+      // Dates travel as ISO 8601 strings and are coerced on the server
+      if (def.type === 'date') {
+        ctx.jsonSchema.type = 'string';
+        ctx.jsonSchema.format = 'date-time';
+      }
+      // The format says enough; zod's UUID regex only adds noise
+      if (ctx.jsonSchema.format === 'uuid') {
+        delete ctx.jsonSchema.pattern;
+      }
+    },
+  }) as JsonSchema;
+  // Embedded in the OpenAPI document, whose dialect already applies
+  delete json.$schema;
+
+  return options.omit?.length ? omitProperties(json, options.omit) : json;
+}
+
+/**
+ * Remove properties from an object schema, including inside arrays and unions
+ */
+function omitProperties(schema: JsonSchema, fields: string[]): JsonSchema {
+  const result: JsonSchema = { ...schema };
+
+  if (result.properties) {
+    const properties = { ...(result.properties as Record<string, JsonSchema>) };
+    fields.forEach(field => delete properties[field]);
+    result.properties = properties;
+  }
+  if (Array.isArray(result.required)) {
+    result.required = (result.required as string[]).filter(field => !fields.includes(field));
+  }
+  if (result.items) {
+    result.items = omitProperties(result.items as JsonSchema, fields);
+  }
+  if (Array.isArray(result.anyOf)) {
+    result.anyOf = (result.anyOf as JsonSchema[]).map(variant => omitProperties(variant, fields));
+  }
+
+  return result;
+}
+
+/**
+ * Describe each property of a query schema as an OpenAPI query parameter
+ */
+function toQueryParameters(schema: z.ZodType): JsonSchema[] {
+  const json = toJsonSchema(schema);
+  const properties = (json.properties || {}) as Record<string, JsonSchema>;
+  const required = (json.required || []) as string[];
+
+  return Object.keys(properties).map(name => ({
+    name,
+    in: 'query',
+    required: required.includes(name),
+    schema: properties[name],
+  }));
+}
+
+function toPathParameters(path: string): JsonSchema[] {
+  return (path.match(/\{(\w+)\}/g) || []).map(match => ({
+    name: match.slice(1, -1),
+    in: 'path',
+    required: true,
+    schema: { type: 'string', format: 'uuid' },
+  }));
+}
+
+function toOperation(operation: ApiOperation): JsonSchema {
+  const roleNote = operation.roles
+    ? `Requires role: ${operation.roles.join(', ')}.`
+    : 'Available to landlord admins and tenants.';
+  const permission = getRequiredPermission(operation);
+  const permissionNote = permission
+    ? `API keys need the ${permission} permission.`
+    : 'Not available to API keys.';
+
+  const responses: Record<string, JsonSchema> = {
+    [String(operation.status || 200)]: {
+      description: 'Success',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiResponse' } } },
+    },
+    400: { $ref: '#/components/responses/ValidationError' },
+    401: { $ref: '#/components/responses/Unauthorized' },
+    403: { $ref: '#/components/responses/Forbidden' },
+  };
+  if (operation.path.includes('{')) {
+    responses[404] = { $ref: '#/components/responses/NotFound' };
+  }
+  if (operation.method !== 'get') {
+    responses[409] = { $ref: '#/components/responses/Conflict' };
+  }
+
+  return {
+    operationId: `${operation.method}${operation.path.replace(/\{(\w+)\}/g, 'By-$1').split(/[/-]/).map(capitalize).join('')}`,
+    tags: [operation.tag],
+    summary: operation.summary,
+    description: [operation.description, roleNote, permissionNote].filter(Boolean).join('\n\n'),
+    parameters: [
+      ...toPathParameters(operation.path),
+      ...(operation.query ? toQueryParameters(operation.query) : []),
+    ],
+    security: permission ? [{ sessionCookie: [] }, { apiKey: [] }] : [{ sessionCookie: [] }],
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: { $ref: `#/components/schemas/${operation.body.name}` } } },
+      },
+    }),
+    responses,
+  };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function errorResponse(description: string): JsonSchema {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } },
+  };
+}
+
+let cachedDocument: OpenApiDocument | null = null;
+
+/**
+ * Build the OpenAPI 3.1 document for /api/v1 from the validation schemas
+ */
+export function generateOpenApiDocument(): OpenApiDocument {
+  if (cachedDocument) return cachedDocument;
+
+  const errorSchema = toJsonSchema(apiResponseSchema, { io: 'output', omit: ['data'] });
+  const schemas: Record<string, JsonSchema> = {
+    ApiResponse: toJsonSchema(apiResponseSchema, { io: 'output' }),
+    ApiError: {
+      ...errorSchema,
+      properties: {
+        ...(errorSchema.properties as JsonSchema),
+        code: { type: 'string', description: 'Machine-readable error code, e.g. VALIDATION_ERROR or NOT_FOUND' },
+      },
+    },
+  };
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const operation of API_OPERATIONS) {
+    if (operation.body) {
+      schemas[operation.body.name] = toJsonSchema(operation.body.schema, { omit: operation.body.serverFields });
+    }
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperation(operation) };
+  }
+
+  cachedDocument = {
+    openapi: '3.1.0',
+    info: {
+      title: 'TenantBridge API',
+      version: '1.0.0',
+      description:
+        'REST API for TenantBridge. Every request is scoped to the organization of the authenticated user; ' +
+        'organization and user IDs are taken from the session or API key and ignored in request bodies. ' +
+        'Responses use the envelope { success, data, message, errors }.',
+    },
+    servers: [{ url: `${env.APP_URL.replace(/\/$/, '')}/api/v1` }],
+    tags: API_TAGS,
+    paths,
+    components: {
+      schemas,
+      responses: {
+        ValidationError: errorResponse('The request body or query string is invalid'),
+        Unauthorized: errorResponse('Authentication is missing or invalid'),
+        Forbidden: errorResponse('The caller is not allowed to perform this operation'),
+        NotFound: errorResponse('The resource does not exist in this organization'),
+        Conflict: errorResponse('The request conflicts with the current state of the resource'),
+      },
+      securitySchemes: {
+        sessionCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'next-auth.session-token',
+          description: 'Session cookie set by signing in (prefixed with __Secure- over HTTPS)',
+        },
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Organization API key (starting with ${API_KEY_PREFIX}) sent as Authorization: Bearer <key> or in the X-API-Key header`,
+        },
+      },
+    },
+    security: [{ sessionCookie: [] }, { apiKey: [] }],
+  };
+
+  return cachedDocument;
+}
@@ -0,0 +1,23 @@
+// src/lib/api/serializers.ts
+import type { ApiKey, User, WebhookSubscription } from '../db/schema';
+
+/**
+ * Strip credential fields before a user leaves the API
+ */
+export function toPublicUser<T extends Partial<User>>(user: T) {
+  return { ...user, passwordHash: undefined };
+}
+
+/**
+ * Strip the key digest before an API key leaves the API
+ */
+export function toPublicApiKey(apiKey: ApiKey) {
+  return { ...apiKey, keyHash: undefined };
+}
+
+/**
+ * Strip the signing secret; it is only returned on creation and rotation
+ */
+export function toPublicWebhook(subscription: WebhookSubscription) {
+  return { ...subscription, secret: undefined };
+}
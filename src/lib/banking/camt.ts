@@ -0,0 +1,186 @@
+// src/lib/banking/camt.ts
+// Parser for ISO 20022 camt.053 bank-to-customer statements. Only the elements
+// needed for reconciliation are read, so the versions 001.02 to 001.08 all work.
+import { StatementParseError, type ParsedStatement, type StatementTransaction } from './types';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Inner XML of every element with the given path, e.g. "Ntry" or "RltdPties/Dbtr".
+ * Namespace prefixes are ignored. Elements of the same name nested in each other are not supported.
+ */
+function findAll(xml: string, path: string): string[] {
+  const [name, ...rest] = path.split('/');
+  const pattern = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g');
+  const matches = Array.from(xml.matchAll(pattern), match => match[1]);
+
+  return rest.length === 0 ? matches : matches.flatMap(inner => findAll(inner, rest.join('/')));
+}
+
+function findFirst(xml: string, path: string): string | null {
+  return findAll(xml, path)[0] ?? null;
+}
+
+function findText(xml: string, path: string): string | null {
+  const inner = findFirst(xml, path);
+  if (inner === null) return null;
+
+  const text = decodeEntities(inner.replace(/<[^>]+>/g, '')).trim();
+  return text || null;
+}
+
+/**
+ * Amount and currency of the first <Amt> element at the path
+ */
+function findAmount(xml: string, path: string): { cents: number; currency: string | null } | null {
+  const [name, ...rest] = path.split('/').reverse();
+  const scope = rest.length > 0 ? findFirst(xml, rest.reverse().join('/')) : xml;
+  if (scope === null) return null;
+
+  const match = new RegExp(`<(?:\\w+:)?${name}(\\s[^>]*)?>\\s*([\\d.]+)\\s*</`).exec(scope);
+  if (!match) return null;
+
+  const currency = /Ccy="([A-Z]{3})"/.exec(match[1] || '')?.[1] ?? null;
+  return { cents: Math.round(parseFloat(match[2]) * 100), currency };
+}
+
+function parseDate(xml: string, path: string): Date | null {
+  const text = findText(xml, `${path}/Dt`) ?? findText(xml, `${path}/DtTm`);
+  if (!text) return null;
+
+  const date = new Date(text.length === 10 ? `${text}T00:00:00Z` : text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Name and account of the other party: the debtor of credits, the creditor of debits
+function parseCounterparty(xml: string, creditDebit: 'credit' | 'debit') {
+  const party = creditDebit === 'credit' ? 'Dbtr' : 'Cdtr';
+  const parties = findFirst(xml, 'RltdPties');
+  if (parties === null) return { name: null, iban: null };
+
+  return {
+    // From version 001.08 on the party is wrapped in <Pty>
+    name: findText(parties, `${party}/Pty/Nm`) ?? findText(parties, `${party}/Nm`),
+    iban: findText(parties, `${party}Acct/Id/IBAN`)?.replace(/\s/g, '') ?? null,
+  };
+}
+
+function parseReference(xml: string): string | null {
+  const remittance = findFirst(xml, 'RmtInf');
+  if (remittance === null) return findText(xml, 'AddtlNtryInf') ?? findText(xml, 'AddtlTxInf');
+
+  const parts = [
+    ...findAll(remittance, 'Ustrd'),
+    ...findAll(remittance, 'CdtrRefInf/Ref'),
+  ].map(part => decodeEntities(part).trim()).filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+function parseBalance(statement: string, code: string): number | null {
+  for (const balance of findAll(statement, 'Bal')) {
+    if (findText(balance, 'Tp/CdOrPrtry/Cd') !== code) continue;
+
+    const amount = findAmount(balance, 'Amt');
+    if (!amount) return null;
+    return findText(balance, 'CdtDbtInd') === 'DBIT' ? -amount.cents : amount.cents;
+  }
+  return null;
+}
+
+function parseEntry(entry: string, fallbackCurrency: string | null): StatementTransaction[] {
+  const creditDebit = findText(entry, 'CdtDbtInd') === 'DBIT' ? 'debit' : 'credit';
+  const bookingDate = parseDate(entry, 'BookgDt') ?? parseDate(entry, 'ValDt');
+  if (!bookingDate) {
+    throw new StatementParseError('Statement entry without booking date');
+  }
+
+  const amount = findAmount(entry, 'Amt');
+  if (!amount) {
+    throw new StatementParseError('Statement entry without amount');
+  }
+
+  const base = {
+    bookingDate,
+    valueDate: parseDate(entry, 'ValDt'),
+    creditDebit: creditDebit as StatementTransaction['creditDebit'],
+    currency: amount.currency ?? fallbackCurrency ?? 'EUR',
+    bankReference: findText(entry, 'AcctSvcrRef'),
+  };
+
+  // Batch bookings list the individual transfers in their transaction details
+  const details = findAll(entry, 'NtryDtls/TxDtls');
+  if (details.length === 0) {
+    const counterparty = parseCounterparty(entry, creditDebit);
+    return [{
+      ...base,
+      amountCents: amount.cents,
+      reference: parseReference(entry),
+      counterpartyName: counterparty.name,
+      counterpartyIban: counterparty.iban,
+      endToEndId: null,
+    }];
+  }
+
+  return details.map(detail => {
+    const counterparty = parseCounterparty(detail, creditDebit);
+    const detailAmount = details.length > 1
+      ? findAmount(detail, 'AmtDtls/TxAmt/Amt') ?? findAmount(detail, 'Amt')
+      : null;
+    const endToEndId = findText(detail, 'Refs/EndToEndId');
+
+    return {
+      ...base,
+      amountCents: detailAmount?.cents ?? amount.cents,
+      reference: parseReference(detail) ?? parseReference(entry),
+      counterpartyName: counterparty.name,
+      counterpartyIban: counterparty.iban,
+      endToEndId: endToEndId === 'NOTPROVIDED' ? null : endToEndId,
+      bankReference: findText(detail, 'Refs/AcctSvcrRef') ?? base.bankReference,
+    };
+  });
+}
+
+/**
+ * Parse a camt.053 document. Multiple statements in one file are merged;
+ * entries that are not booked yet (pending) are left out.
+ */
+export function parseCamt053(xml: string): ParsedStatement {
+  const statements = findAll(xml, 'Stmt');
+  if (statements.length === 0) {
+    throw new StatementParseError('No statement found in the CAMT.053 file');
+  }
+
+  const [first] = statements;
+  const last = statements[statements.length - 1];
+  const currency = findText(first, 'Acct/Ccy');
+
+  const transactions = statements.flatMap(statement =>
+    findAll(statement, 'Ntry')
+      .filter(entry => {
+        const status = findText(entry, 'Sts/Cd') ?? findText(entry, 'Sts');
+        return !status || status === 'BOOK';
+      })
+      .flatMap(entry => parseEntry(entry, currency))
+  );
+
+  return {
+    format: 'camt053',
+    statementId: findText(first, 'Id'),
+    accountIban: findText(first, 'Acct/Id/IBAN')?.replace(/\s/g, '') ?? null,
+    currency,
+    openingBalanceCents: parseBalance(first, 'OPBD') ?? parseBalance(first, 'PRCD'),
+    closingBalanceCents: parseBalance(last, 'CLBD'),
+    transactions,
+  };
+}
@@ -0,0 +1,61 @@
+// src/lib/banking/index.ts
+import { createHash } from 'crypto';
+import { parseCamt053 } from './camt';
+import { parseMt940 } from './mt940';
+import { StatementParseError, type ParsedStatement, type StatementFormat, type StatementTransaction } from './types';
+
+export * from './types';
+export { parseCamt053 } from './camt';
+export { parseMt940 } from './mt940';
+export { matchPayment, scoreCandidate, namesMatch, AUTO_MATCH_SCORE, type MatchCandidate, type PaymentMatch } from './matching';
+
+/**
+ * Tell CAMT.053 XML from MT940 text by its content
+ */
+export function detectStatementFormat(content: string): StatementFormat | null {
+  const text = content.replace(/^\uFEFF/, '').trimStart();
+
+  if (text.startsWith('<') && /BkToCstmrStmt/.test(text)) return 'camt053';
+  if (/^:20:/m.test(text) && /^:(60F|60M|61):/m.test(text)) return 'mt940';
+  return null;
+}
+
+/**
+ * Parse a bank statement file in either supported format
+ */
+export function parseStatement(content: string): ParsedStatement {
+  const format = detectStatementFormat(content);
+  if (!format) {
+    throw new StatementParseError('Unsupported file: expected a CAMT.053 (XML) or MT940 statement');
+  }
+
+  return format === 'camt053' ? parseCamt053(content) : parseMt940(content);
+}
+
+/**
+ * Stable identifiers of the statement's bookings, so that importing overlapping
+ * statements does not book a payment twice. Identical bookings on the same day
+ * are told apart by their position.
+ */
+export function getImportHashes(statement: ParsedStatement): string[] {
+  const seen = new Map<string, number>();
+
+  return statement.transactions.map((transaction: StatementTransaction) => {
+    const key = [
+      statement.accountIban,
+      transaction.bookingDate.toISOString().slice(0, 10),
+      transaction.creditDebit,
+      transaction.amountCents,
+      transaction.currency,
+      transaction.bankReference,
+      transaction.endToEndId,
+      transaction.counterpartyIban,
+      transaction.reference,
+    ].join('|');
+
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+
+    return createHash('sha256').update(`${key}|${occurrence}`).digest('hex');
+  });
+}
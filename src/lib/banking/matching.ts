@@ -0,0 +1,116 @@
+// src/lib/banking/matching.ts
+// Scores incoming payments against the contracts of an organization by the
+// contract number in the reference text, the amount and the payer name.
+
+export interface MatchCandidate {
+  contractId: string;
+  contractNumber: string;
+  // Amounts the tenants are expected to transfer: the monthly rent and the open balance
+  expectedCents: number[];
+  tenants: Array<{ id: string; name: string | null }>;
+}
+
+export interface PaymentMatch {
+  contractId: string;
+  // Co-tenant the payer name belongs to, if any
+  tenantId: string | null;
+  score: number;
+  reasons: Array<'reference' | 'amount' | 'name'>;
+}
+
+const REFERENCE_SCORE = 60;
+const AMOUNT_SCORE = 25;
+const NAME_SCORE = 25;
+
+// Matches at or above this score are booked without review
+export const AUTO_MATCH_SCORE = 50;
+
+/**
+ * Uppercase letters and digits only, so "TB-2026-001", "tb 2026 001" and "TB2026001" compare equal
+ */
+function normalizeReference(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Lowercase name tokens with German umlauts transliterated the way banks do
+ */
+export function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z]+/)
+    .filter(token => token.length >= 2);
+}
+
+/**
+ * Whether a payer name such as "MUELLER, HANS" belongs to a tenant named "Hans Müller"
+ */
+export function namesMatch(payerName: string, tenantName: string): boolean {
+  const payer = new Set(nameTokens(payerName));
+  const tenant = nameTokens(tenantName);
+
+  return tenant.length > 0 && tenant.every(token => payer.has(token));
+}
+
+/**
+ * Score a credit against one contract
+ */
+export function scoreCandidate(
+  transaction: { amountCents: number; reference: string | null; counterpartyName: string | null },
+  candidate: MatchCandidate
+): PaymentMatch {
+  const reasons: PaymentMatch['reasons'] = [];
+  let score = 0;
+
+  const contractNumber = normalizeReference(candidate.contractNumber);
+  if (transaction.reference && contractNumber && normalizeReference(transaction.reference).includes(contractNumber)) {
+    score += REFERENCE_SCORE;
+    reasons.push('reference');
+  }
+
+  if (candidate.expectedCents.some(cents => cents > 0 && cents === transaction.amountCents)) {
+    score += AMOUNT_SCORE;
+    reasons.push('amount');
+  }
+
+  const payerName = transaction.counterpartyName;
+  const tenant = payerName
+    ? candidate.tenants.find(t => t.name && namesMatch(payerName, t.name))
+    : undefined;
+  if (tenant) {
+    score += NAME_SCORE;
+    reasons.push('name');
+  }
+
+  return { contractId: candidate.contractId, tenantId: tenant?.id ?? null, score, reasons };
+}
+
+/**
+ * Best matching contract for a credit. `match` is only set when the best score
+ * reaches AUTO_MATCH_SCORE and no other contract scores as high; otherwise the
+ * best candidate is returned as a suggestion for manual review.
+ */
+export function matchPayment(
+  transaction: { amountCents: number; reference: string | null; counterpartyName: string | null },
+  candidates: MatchCandidate[]
+): { match: PaymentMatch | null; suggestion: PaymentMatch | null } {
+  const scored = candidates
+    .map(candidate => scoreCandidate(transaction, candidate))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scored;
+  if (!best) return { match: null, suggestion: null };
+
+  const isUnambiguous = !runnerUp || runnerUp.score < best.score;
+  return {
+    match: isUnambiguous && best.score >= AUTO_MATCH_SCORE ? best : null,
+    suggestion: best,
+  };
+}
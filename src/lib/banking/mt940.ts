@@ -0,0 +1,198 @@
+// src/lib/banking/mt940.ts
+// Parser for SWIFT MT940 customer statements, including the structured :86:
+// field used by German banks (?20-?29 purpose, ?31 account, ?32/?33 name).
+import { StatementParseError, type ParsedStatement, type StatementTransaction } from './types';
+
+// :61: value date, optional entry date, mark, optional funds code, amount, transaction type, references
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})([A-Z][A-Z0-9]{3})?([^\n]*)/;
+
+// SEPA purpose keywords of the ?20-?29 subfields
+const SEPA_KEYWORDS = /(EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE|IBAN|BIC)\+/g;
+
+interface Field {
+  tag: string;
+  value: string;
+}
+
+function splitFields(text: string): Field[] {
+  const fields: Field[] = [];
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line !== '-' && !line.startsWith('-}') && !line.startsWith('{')) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+}
+
+function toCents(amount: string): number {
+  const [whole, fraction = ''] = amount.split(',');
+  return Number(whole) * 100 + Number(fraction.padEnd(2, '0').slice(0, 2));
+}
+
+function parseDate(yymmdd: string): Date {
+  const year = Number(yymmdd.slice(0, 2));
+  return new Date(Date.UTC(year < 80 ? 2000 + year : 1900 + year, Number(yymmdd.slice(2, 4)) - 1, Number(yymmdd.slice(4, 6))));
+}
+
+// :60F:/:62F: balances, e.g. C261001EUR1234,56
+function parseBalance(value: string): { cents: number; currency: string } | null {
+  const match = /^([CD])(\d{6})([A-Z]{3})(\d+,\d{0,2})/.exec(value.trim());
+  if (!match) return null;
+
+  const cents = toCents(match[4]);
+  return { cents: match[1] === 'D' ? -cents : cents, currency: match[3] };
+}
+
+function parseStatementLine(value: string, currency: string): StatementTransaction {
+  const match = STATEMENT_LINE.exec(value);
+  if (!match) {
+    throw new StatementParseError(`Invalid :61: statement line: ${value.split('\n')[0]}`);
+  }
+
+  const [, valueDateText, entryDateText, mark, , amount, , references] = match;
+  const valueDate = parseDate(valueDateText);
+
+  // The entry date has no year; it can fall into the year before or after the value date
+  let bookingDate = valueDate;
+  if (entryDateText) {
+    const month = Number(entryDateText.slice(0, 2)) - 1;
+    const day = Number(entryDateText.slice(2, 4));
+    const candidates = [-1, 0, 1].map(offset => new Date(Date.UTC(valueDate.getUTCFullYear() + offset, month, day)));
+    bookingDate = candidates.reduce((closest, candidate) =>
+      Math.abs(candidate.getTime() - valueDate.getTime()) < Math.abs(closest.getTime() - valueDate.getTime()) ? candidate : closest
+    );
+  }
+
+  const [customerReference, bankReference] = references.split('//');
+
+  return {
+    bookingDate,
+    valueDate,
+    // A reversed debit is a credit and vice versa
+    creditDebit: mark === 'C' || mark === 'RD' ? 'credit' : 'debit',
+    amountCents: toCents(amount),
+    currency,
+    reference: null,
+    counterpartyName: null,
+    counterpartyIban: null,
+    endToEndId: customerReference && customerReference !== 'NONREF' ? customerReference.trim() : null,
+    bankReference: bankReference?.split('\n')[0].trim() || null,
+  };
+}
+
+/**
+ * Apply the :86: information to a transaction
+ */
+function applyInformation(transaction: StatementTransaction, value: string): StatementTransaction {
+  const text = value.replace(/\n/g, '');
+
+  // Unstructured information is the purpose as a whole
+  if (!/^\d{3}\?/.test(text)) {
+    return { ...transaction, reference: text.trim() || null };
+  }
+
+  const subfields = new Map<string, string>();
+  for (const match of Array.from(text.matchAll(/\?(\d{2})([^?]*)/g))) {
+    subfields.set(match[1], (subfields.get(match[1]) || '') + match[2]);
+  }
+
+  const join = (codes: string[]) => codes.map(code => subfields.get(code) || '').join('').trim();
+  let purpose = join(['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']);
+  let endToEndId = transaction.endToEndId;
+
+  // SEPA transfers carry the remittance text after SVWZ+ and the end-to-end ID after EREF+
+  const keywords = Array.from(purpose.matchAll(SEPA_KEYWORDS));
+  if (keywords.length > 0) {
+    const parts = new Map<string, string>();
+    keywords.forEach((match, index) => {
+      const start = (match.index ?? 0) + match[0].length;
+      const end = keywords[index + 1]?.index ?? purpose.length;
+      parts.set(match[1], purpose.slice(start, end).trim());
+    });
+
+    const eref = parts.get('EREF');
+    if (eref && eref !== 'NOTPROVIDED') endToEndId = eref;
+    purpose = parts.get('SVWZ') ?? purpose;
+  }
+
+  const iban = subfields.get('31')?.trim();
+
+  return {
+    ...transaction,
+    reference: purpose || null,
+    counterpartyName: join(['32', '33']) || null,
+    counterpartyIban: iban && /^[A-Z]{2}\d{2}/.test(iban) ? iban : null,
+    endToEndId,
+  };
+}
+
+/**
+ * Parse an MT940 file. Multiple statements in one file are merged.
+ */
+export function parseMt940(text: string): ParsedStatement {
+  const fields = splitFields(text);
+  if (!fields.some(field => field.tag === '61' || field.tag === '60F' || field.tag === '60M')) {
+    throw new StatementParseError('No statement found in the MT940 file');
+  }
+
+  const statement: ParsedStatement = {
+    format: 'mt940',
+    statementId: null,
+    accountIban: null,
+    currency: null,
+    openingBalanceCents: null,
+    closingBalanceCents: null,
+    transactions: [],
+  };
+
+  let previousTag: string | null = null;
+
+  for (const { tag, value } of fields) {
+    switch (tag) {
+      case '20':
+        statement.statementId ??= value.trim();
+        break;
+      case '25': {
+        // Either an IBAN or "<bank code>/<account number>"
+        const account = value.trim().replace(/\s/g, '');
+        statement.accountIban ??= /^[A-Z]{2}\d{2}/.test(account) ? account : null;
+        break;
+      }
+      case '60F':
+      case '60M': {
+        const balance = parseBalance(value);
+        if (balance && statement.openingBalanceCents === null) {
+          statement.openingBalanceCents = balance.cents;
+          statement.currency = balance.currency;
+        }
+        break;
+      }
+      case '62F':
+      case '62M': {
+        const balance = parseBalance(value);
+        if (balance) statement.closingBalanceCents = balance.cents;
+        break;
+      }
+      case '61':
+        statement.transactions.push(parseStatementLine(value, statement.currency ?? 'EUR'));
+        break;
+      case '86': {
+        // Information following the balances belongs to the statement, not a transaction
+        const last = statement.transactions.length - 1;
+        if (previousTag === '61' && last >= 0) {
+          statement.transactions[last] = applyInformation(statement.transactions[last], value);
+        }
+        break;
+      }
+    }
+
+    previousTag = tag;
+  }
+
+  return statement;
+}
@@ -0,0 +1,34 @@
+// src/lib/banking/types.ts
+
+export type StatementFormat = 'camt053' | 'mt940';
+
+export interface StatementTransaction {
+  bookingDate: Date;
+  valueDate: Date | null;
+  creditDebit: 'credit' | 'debit';
+  amountCents: number; // Always positive
+  currency: string;
+  reference: string | null; // Remittance information
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+  endToEndId: string | null;
+  bankReference: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  statementId: string | null;
+  accountIban: string | null;
+  currency: string | null;
+  // Signed balances in cents
+  openingBalanceCents: number | null;
+  closingBalanceCents: number | null;
+  transactions: StatementTransaction[];
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
@@ -0,0 +1,251 @@
+// src/lib/consumption-import/index.ts
+// Reading consumption from uploaded files: CSV, XLSX and the flat files meter-service companies
+// export. Columns are found by their headers or an explicit mapping; values are normalized to
+// the formats of consumption records, so that German decimal commas and dates work as well.
+import { normalizeHeader, parseCSV } from '../db/csv-utils';
+import { toPeriod } from '../ledger';
+import type { ConsumptionType } from '../db/schema';
+import { readXlsxRows } from './xlsx';
+import {
+  IMPORT_FIELDS,
+  ImportParseError,
+  type ColumnMapping,
+  type ImportField,
+  type ImportFormat,
+  type ImportRow,
+  type ImportTable,
+} from './types';
+
+export * from './types';
+export { readXlsxRows } from './xlsx';
+
+// Headers recognized without a mapping, in English and as used in German exports
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  contractNumber: ['Contract number', 'Contract', 'Vertragsnummer', 'Vertrag'],
+  unitNumber: ['Unit number', 'Apartment', 'Wohnung', 'Wohnungsnummer', 'Nutzeinheit', 'NE-Nr.'],
+  meterNumber: ['Meter number', 'Meter', 'Zählernummer', 'Zähler-Nr.', 'Gerätenummer', 'Geräte-Nr.'],
+  consumptionType: ['Consumption type', 'Type', 'Medium', 'Verbrauchsart', 'Geräteart', 'Gerätetyp'],
+  period: ['Period', 'Month', 'Zeitraum', 'Abrechnungsmonat', 'Monat'],
+  readingDate: ['Reading date', 'Date', 'Ablesedatum', 'Stichtag', 'Datum'],
+  reading: ['Reading', 'Consumption', 'Verbrauch'],
+  unit: ['Unit', 'Einheit', 'Maßeinheit'],
+  cost: ['Cost', 'Kosten', 'Betrag'],
+};
+
+// Column layouts of Techem- and ista-style exports, recognized by their identifying headers
+const VENDOR_FORMATS: Record<'techem' | 'ista', { headers: string[]; mapping: ColumnMapping }> = {
+  techem: {
+    headers: ['Liegenschaftsnummer', 'NE-Nr.'],
+    mapping: {
+      unitNumber: 'NE-Nr.',
+      meterNumber: 'Gerätenummer',
+      consumptionType: 'Geräteart',
+      readingDate: 'Ablesedatum',
+      reading: 'Verbrauch',
+      unit: 'Einheit',
+    },
+  },
+  ista: {
+    headers: ['Liegenschaft', 'Nutzeinheit', 'Geräte-Nr.'],
+    mapping: {
+      unitNumber: 'Nutzeinheit',
+      meterNumber: 'Geräte-Nr.',
+      consumptionType: 'Geräteart',
+      readingDate: 'Stichtag',
+      reading: 'Verbrauch',
+      unit: 'Einheit',
+    },
+  },
+};
+
+// Consumption types by name and by the device codes of meter-service exports
+const CONSUMPTION_TYPE_ALIASES: Record<string, ConsumptionType> = {
+  electricity: 'electricity',
+  strom: 'electricity',
+  gas: 'gas',
+  water: 'water',
+  wasser: 'water',
+  kaltwasser: 'water',
+  warmwasser: 'water',
+  kw: 'water',
+  ww: 'water',
+  kwz: 'water',
+  wwz: 'water',
+  heating: 'heating',
+  heizung: 'heating',
+  wärme: 'heating',
+  hkv: 'heating',
+  heizkostenverteiler: 'heating',
+  wmz: 'heating',
+  wärmemengenzähler: 'heating',
+  internet: 'internet',
+  other: 'other',
+  sonstige: 'other',
+};
+
+export const DEFAULT_UNITS: Record<ConsumptionType, string | null> = {
+  electricity: 'kWh',
+  gas: 'm³',
+  water: 'm³',
+  heating: 'kWh',
+  internet: 'GB',
+  other: null,
+};
+
+// Excel counts days from December 30, 1899
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Text of a CSV or vendor file. Meter-service exports are often Windows-1252 rather than
+ * UTF-8; bytes that are not valid UTF-8 are read as Latin-1.
+ */
+export function decodeText(content: Buffer): string {
+  const bytes = content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf ? content.subarray(3) : content;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return bytes.toString('latin1');
+  }
+}
+
+/**
+ * Tell the file formats apart: XLSX by its zip signature, vendor exports by their headers
+ */
+export function detectImportFormat(content: Buffer): ImportFormat {
+  if (content.length > 4 && content.readUInt32LE(0) === 0x04034b50) return 'xlsx';
+
+  const [headers = []] = parseCSV(decodeText(content).split(/\r?\n/, 1)[0] || '');
+  const normalized = new Set(headers.map(normalizeHeader));
+
+  for (const [format, vendor] of Object.entries(VENDOR_FORMATS) as Array<[ImportFormat, typeof VENDOR_FORMATS.ista]>) {
+    if (vendor.headers.every(header => normalized.has(normalizeHeader(header)))) return format;
+  }
+  return 'csv';
+}
+
+/**
+ * Read the header row and data rows of an import file
+ */
+export function parseImportFile(content: Buffer, format: ImportFormat = detectImportFormat(content)): ImportTable {
+  const [headers, ...rows] = format === 'xlsx' ? readXlsxRows(content) : parseCSV(decodeText(content));
+  if (!headers || rows.length === 0) {
+    throw new ImportParseError('The file contains no data rows below its header row');
+  }
+
+  return { format, headers, rows };
+}
+
+/**
+ * Header per field: the explicit mapping first, then the vendor layout, then the known aliases.
+ * Fields without a matching column are left out.
+ */
+export function resolveColumnMapping(table: ImportTable, mapping: ColumnMapping = {}): ColumnMapping {
+  const headers = new Map(table.headers.map(header => [normalizeHeader(header), header]));
+  const vendor = table.format === 'techem' || table.format === 'ista' ? VENDOR_FORMATS[table.format].mapping : {};
+  const resolved: ColumnMapping = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [mapping[field], vendor[field], ...HEADER_ALIASES[field]];
+    const header = candidates.find(candidate => candidate && headers.has(normalizeHeader(candidate)));
+    if (header) resolved[field] = headers.get(normalizeHeader(header));
+  }
+
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header && !resolved[field as ImportField]) {
+      throw new ImportParseError(`Column "${header}" mapped to ${field} was not found in the file`);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Values of each data row by field
+ */
+export function mapImportRows(table: ImportTable, mapping: ColumnMapping): ImportRow[] {
+  const columns = IMPORT_FIELDS
+    .filter(field => mapping[field])
+    .map(field => ({ field, index: table.headers.indexOf(mapping[field] as string) }));
+
+  return table.rows.map((cells, index) => ({
+    // Row numbers are 1-based and account for the header line
+    row: index + 2,
+    values: Object.fromEntries(
+      columns
+        .map(({ field, index: column }) => [field, (cells[column] ?? '').trim()])
+        .filter(([, value]) => value !== '')
+    ),
+  }));
+}
+
+/**
+ * Consumption type of a name or device code, e.g. "Strom" or "WWZ"
+ */
+export function parseConsumptionType(text: string): ConsumptionType | null {
+  return CONSUMPTION_TYPE_ALIASES[text.trim().toLowerCase().replace(/[\s_.-]+/g, '')] ?? null;
+}
+
+/**
+ * Decimal number as a plain string with up to three decimals. Of "." and "," the one that
+ * comes last is the decimal separator, so "1.234,5" and "1,234.5" both read as 1234.5; a
+ * lone comma is a German decimal comma.
+ */
+export function parseDecimal(text: string): string | null {
+  const compact = text.replace(/\s/g, '');
+  const plain = compact.lastIndexOf(',') > compact.lastIndexOf('.')
+    ? compact.replace(/\./g, '').replace(',', '.')
+    : compact.replace(/,/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(plain)) return null;
+
+  return String(Math.round(Number(plain) * 1000) / 1000);
+}
+
+/**
+ * Date of "dd.mm.yyyy" and ISO dates, in UTC. Excel serial numbers are only dates in XLSX
+ * files; in text files they are rejected like any other unknown value.
+ */
+export function parseImportDate(text: string, format: ImportFormat): Date | null {
+  const german = /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/.exec(text);
+  if (german) {
+    const year = german[3].length === 2 ? 2000 + Number(german[3]) : Number(german[3]);
+    const date = new Date(Date.UTC(year, Number(german[2]) - 1, Number(german[1])));
+
+    // Date.UTC rolls over, e.g. the 31.02. into March
+    return date.getUTCFullYear() === year &&
+      date.getUTCMonth() === Number(german[2]) - 1 &&
+      date.getUTCDate() === Number(german[1])
+      ? date
+      : null;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const date = new Date(text.length === 10 ? `${text}T00:00:00Z` : text);
+    if (isNaN(date.getTime())) return null;
+    return text.length === 10 && date.toISOString().slice(0, 10) !== text ? null : date;
+  }
+
+  if (format === 'xlsx' && /^\d{4,5}(\.\d+)?$/.test(text)) {
+    return new Date(EXCEL_EPOCH + Math.floor(Number(text)) * DAY_MS);
+  }
+
+  return null;
+}
+
+/**
+ * Period of "YYYY-MM", "MM/YYYY" or "MM.YYYY"
+ */
+export function parsePeriod(text: string): string | null {
+  if (/^\d{4}-\d{2}$/.test(text)) return text;
+
+  const match = /^(\d{1,2})[./](\d{4})$/.exec(text);
+  return match ? `${match[2]}-${match[1].padStart(2, '0')}` : null;
+}
+
+/**
+ * Period of a row: its own, or the month of its reading date
+ */
+export function getRowPeriod(period: string | undefined, readingDate: Date | null): string | null {
+  if (period) return parsePeriod(period);
+  return readingDate ? toPeriod(readingDate) : null;
+}
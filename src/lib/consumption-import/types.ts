@@ -0,0 +1,42 @@
+// src/lib/consumption-import/types.ts
+
+export const IMPORT_FORMATS = ['csv', 'xlsx', 'techem', 'ista'] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+// Values an import row can provide. A row is assigned to a contract by its contract number,
+// its meter number (registered meters) or its unit number within the building of the import.
+export const IMPORT_FIELDS = [
+  'contractNumber',
+  'unitNumber',
+  'meterNumber',
+  'consumptionType',
+  'period',
+  'readingDate',
+  'reading',
+  'unit',
+  'cost',
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Column header per field, e.g. { reading: 'Verbrauch' }
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportTable {
+  format: ImportFormat;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  row: number; // Line in the file, counting the header as line 1
+  values: Partial<Record<ImportField, string>>;
+}
+
+export class ImportParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportParseError';
+  }
+}
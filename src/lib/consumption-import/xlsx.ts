@@ -0,0 +1,193 @@
+// src/lib/consumption-import/xlsx.ts
+// Reader for the cell values of the first worksheet of an Office Open XML workbook (.xlsx).
+// Formulas are read as their cached values; styles, and with them date formats, are ignored,
+// so dates arrive as Excel serial numbers.
+import { inflateRawSync } from 'zlib';
+import { ImportParseError } from './types';
+
+// Largest uncompressed size of a single workbook part
+const MAX_ENTRY_SIZE = 20 * 1024 * 1024;
+
+// Columns end at XFD in Excel; far more rows than one import can hold are refused as well
+const MAX_COLUMNS = 16384;
+const MAX_ROWS = 10000;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      if (code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+        throw new ImportParseError(`The XLSX workbook contains an invalid character reference ${match}`);
+      }
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+interface ZipEntry {
+  method: number;
+  dataStart: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * Entries of a zip archive by name, read from its central directory
+ */
+function readZip(buffer: Buffer): Map<string, ZipEntry> {
+  // The end of central directory record is 22 bytes plus an optional comment
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new ImportParseError('The file is not a valid XLSX workbook');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new ImportParseError('The XLSX workbook is damaged');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    if (localOffset + 30 > buffer.length) {
+      throw new ImportParseError('The XLSX workbook is damaged');
+    }
+
+    entries.set(buffer.toString('utf8', offset + 46, offset + 46 + nameLength), {
+      method: buffer.readUInt16LE(offset + 10),
+      dataStart: localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+    });
+
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+  }
+
+  return entries;
+}
+
+/**
+ * Content of a zip entry as text. Only stored and deflated entries are supported, which
+ * covers the files spreadsheet applications write. Inflating stops at the declared size,
+ * so an entry cannot expand beyond MAX_ENTRY_SIZE whatever its header claims.
+ */
+function readEntry(buffer: Buffer, entries: Map<string, ZipEntry>, name: string): string | undefined {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+
+  if (entry.size > MAX_ENTRY_SIZE) {
+    throw new ImportParseError('The XLSX workbook is too large to import');
+  }
+
+  const data = buffer.subarray(entry.dataStart, entry.dataStart + entry.compressedSize);
+  if (entry.method === 0) return data.toString('utf8');
+  if (entry.method !== 8) {
+    throw new ImportParseError('The XLSX workbook uses an unsupported compression method');
+  }
+
+  try {
+    return inflateRawSync(data, { maxOutputLength: Math.max(entry.size, 1) }).toString('utf8');
+  } catch {
+    throw new ImportParseError('The XLSX workbook is damaged or larger than it declares');
+  }
+}
+
+/**
+ * Path of the first worksheet in workbook order
+ */
+function getFirstSheetPath(buffer: Buffer, entries: Map<string, ZipEntry>): string {
+  const workbook = readEntry(buffer, entries, 'xl/workbook.xml') ?? '';
+  const rels = readEntry(buffer, entries, 'xl/_rels/workbook.xml.rels') ?? '';
+
+  const sheetId = /<(?:\w+:)?sheet\s[^>]*r:id="([^"]+)"/.exec(workbook)?.[1];
+  const target = sheetId
+    ? new RegExp(`<Relationship\\s[^>]*Id="${sheetId}"[^>]*Target="([^"]+)"`).exec(rels)?.[1]
+      ?? new RegExp(`<Relationship\\s[^>]*Target="([^"]+)"[^>]*Id="${sheetId}"`).exec(rels)?.[1]
+    : undefined;
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function getSharedStrings(buffer: Buffer, entries: Map<string, ZipEntry>): string[] {
+  const xml = readEntry(buffer, entries, 'xl/sharedStrings.xml') ?? '';
+
+  // Rich text splits a string into runs, each with its own <t>
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), match =>
+    Array.from(match[1].matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), text => decodeEntities(text[1])).join('')
+  );
+}
+
+/**
+ * Zero-based column index of the letters of a cell reference like "AB12". Columns past XFD are refused.
+ */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? 'A';
+  const index = letters.length > 3
+    ? MAX_COLUMNS
+    : letters.split('').reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+  if (index >= MAX_COLUMNS) {
+    throw new ImportParseError(`The XLSX workbook contains column ${reference} beyond the last column XFD`);
+  }
+  return index;
+}
+
+/**
+ * Rows of cell texts of the first worksheet. Empty cells are empty strings; blank rows are dropped.
+ */
+export function readXlsxRows(buffer: Buffer): string[][] {
+  const entries = readZip(buffer);
+  const sheet = readEntry(buffer, entries, getFirstSheetPath(buffer, entries));
+  if (!sheet) {
+    throw new ImportParseError('The XLSX workbook contains no worksheet');
+  }
+
+  const sharedStrings = getSharedStrings(buffer, entries);
+  const rows: string[][] = [];
+
+  // Empty rows with formatting are written self-closing, as <row r="5"/>
+  for (const rowMatch of Array.from(sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    const row: string[] = [];
+
+    for (const cellMatch of Array.from((rowMatch[1] ?? '').matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cellMatch[1];
+      const inner = cellMatch[2] ?? '';
+      const reference = /\br="([A-Z]+)\d+"/.exec(attributes)?.[1];
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+
+      const value = /<v>([\s\S]*?)<\/v>/.exec(inner)?.[1];
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = Array.from(inner.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeEntities(match[1])).join('');
+      } else {
+        text = value === undefined ? '' : decodeEntities(value);
+      }
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text.trim();
+    }
+
+    if (row.some(cell => cell !== '')) rows.push(row);
+    if (rows.length > MAX_ROWS + 1) {
+      throw new ImportParseError(`The XLSX workbook has more than ${MAX_ROWS} data rows`);
+    }
+  }
+
+  return rows;
+}
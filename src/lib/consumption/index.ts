@@ -0,0 +1,124 @@
+// src/lib/consumption/index.ts
+// Anomaly detection on the consumption records of a contract and consumption type. Each
+// record is compared with the records before it, so adding later records never changes
+// the findings for earlier ones.
+
+import type { ConsumptionAnomalyType, ConsumptionType } from '../db/schema';
+
+// Number of preceding records the spike baseline is averaged over
+export const BASELINE_RECORDS = 6;
+
+// A spike needs at least this many preceding records to compare with
+export const MIN_BASELINE_RECORDS = 3;
+
+// Consumption above this multiple of the baseline is a spike
+export const SPIKE_FACTOR = 2;
+
+// Water usage that stays within this share of its mean for this many records in a row is
+// flat: zero points at a stuck meter, a constant amount at a running leak
+export const FLAT_RECORDS = 3;
+export const FLAT_TOLERANCE = 0.02;
+
+// Detector runs check the records of this many past periods; older ones were checked before
+export const ANOMALY_LOOKBACK_MONTHS = 3;
+
+export interface ConsumptionSample {
+  id: string;
+  period: string;
+  reading: number;
+}
+
+export interface ConsumptionAnomalyFinding {
+  recordId: string;
+  type: ConsumptionAnomalyType;
+  value: number;
+  baseline: number | null;
+  message: string;
+}
+
+/**
+ * Find anomalies in the records of one contract and consumption type, ordered by period.
+ * Only records from the `since` period on are checked; earlier ones serve as baseline.
+ */
+export function detectAnomalies(
+  samples: ConsumptionSample[],
+  consumptionType: ConsumptionType,
+  since?: string
+): ConsumptionAnomalyFinding[] {
+  const findings: ConsumptionAnomalyFinding[] = [];
+
+  samples.forEach((sample, index) => {
+    if (since && sample.period < since) return;
+
+    if (sample.reading < 0) {
+      findings.push({
+        recordId: sample.id,
+        type: 'negative_delta',
+        value: sample.reading,
+        baseline: null,
+        message: `Negative consumption of ${sample.reading} in ${sample.period}; the meter value is lower than before`,
+      });
+      return;
+    }
+
+    const previous = samples
+      .slice(Math.max(index - BASELINE_RECORDS, 0), index)
+      .filter(record => record.reading >= 0);
+
+    if (previous.length >= MIN_BASELINE_RECORDS) {
+      const baseline = round(average(previous));
+      if (baseline > 0 && sample.reading > baseline * SPIKE_FACTOR) {
+        findings.push({
+          recordId: sample.id,
+          type: 'spike',
+          value: sample.reading,
+          baseline,
+          message: `Consumption of ${sample.reading} in ${sample.period} is ${(sample.reading / baseline).toFixed(1)} times the average of ${baseline}`,
+        });
+      }
+    }
+
+    // A flat run is reported once, on the record that completes it
+    if (consumptionType === 'water' && isFlat(samples, index) && !isFlat(samples, index - 1)) {
+      const mean = round(average(samples.slice(index - FLAT_RECORDS + 1, index + 1)));
+      findings.push({
+        recordId: sample.id,
+        type: 'flat_usage',
+        value: sample.reading,
+        baseline: mean,
+        message: mean === 0
+          ? `No water used in ${FLAT_RECORDS} periods up to ${sample.period}; the meter may be stuck`
+          : `Water usage of about ${mean} in each of ${FLAT_RECORDS} periods up to ${sample.period}; constant usage may indicate a leak`,
+      });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Whether an anomaly calls for a check on site. Spikes and flat usage of water point at a
+ * leak or a broken meter; negative values are usually typing errors.
+ */
+export function needsInspection(consumptionType: ConsumptionType, type: ConsumptionAnomalyType): boolean {
+  return consumptionType === 'water' && type !== 'negative_delta';
+}
+
+/**
+ * Whether the records up to an index stay within the tolerance of their mean
+ */
+function isFlat(samples: ConsumptionSample[], index: number): boolean {
+  if (index < FLAT_RECORDS - 1) return false;
+
+  const window = samples.slice(index - FLAT_RECORDS + 1, index + 1);
+  const mean = average(window);
+  return window.every(record => record.reading >= 0 && Math.abs(record.reading - mean) <= mean * FLAT_TOLERANCE);
+}
+
+function average(samples: ConsumptionSample[]): number {
+  return samples.reduce((total, record) => total + record.reading, 0) / samples.length;
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 1000) / 1000;
+}
@@ -0,0 +1,34 @@
+// src/lib/consumption/worker.ts
+import { db } from '../db/db';
+import { organizations } from '../db/schema';
+import { ConsumptionAnomalyService } from '../db/services/consumption-anomalies';
+
+/**
+ * One worker run: check the recent consumption records of all organizations for anomalies.
+ * Meant to be triggered daily (cron, scheduled job); the alerts are mailed by the mail worker.
+ */
+export async function runAnomalyWorker() {
+  const orgs = await db.select({ id: organizations.id }).from(organizations);
+  const totals = { organizations: orgs.length, anomalies: 0, tickets: 0 };
+
+  for (const org of orgs) {
+    const anomalies = await ConsumptionAnomalyService.detect(org.id);
+    totals.anomalies += anomalies.length;
+    totals.tickets += anomalies.filter(anomaly => anomaly.ticketId).length;
+  }
+
+  return totals;
+}
+
+// CLI script to run the worker once
+if (require.main === module) {
+  runAnomalyWorker()
+    .then((totals) => {
+      console.log('Anomaly worker finished:', totals);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Anomaly worker failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,140 @@
+// src/lib/datev/extf.ts
+// Builds DATEV Buchungsstapel files in the EXTF format (version 700), the booking batch
+// import of DATEV Rechnungswesen.
+
+export interface DatevBooking {
+  amountCents: number; // Negative amounts swap debit and credit account
+  debitAccount: string; // Konto, booked with Soll
+  creditAccount: string; // Gegenkonto
+  date: Date; // Belegdatum
+  documentNumber: string; // Belegfeld 1
+  text: string; // Buchungstext
+}
+
+export interface ExtfOptions {
+  createdAt: Date;
+  consultantNumber: string; // Beraternummer
+  clientNumber: string; // Mandantennummer
+  fiscalYearStart: Date;
+  accountLength: number; // Sachkontenlänge
+  from: Date;
+  to: Date; // Last day of the batch
+  description: string;
+  chartOfAccounts: 'SKR03' | 'SKR04';
+  bookings: DatevBooking[];
+}
+
+const HEADER_FORMAT_VERSION = 700;
+const BOOKING_BATCH_CATEGORY = 21;
+const BOOKING_BATCH_VERSION = 12;
+
+// Leading columns of the Buchungsstapel format; the remaining columns are optional
+const COLUMNS = [
+  'Umsatz (ohne Soll/Haben-Kz)',
+  'Soll/Haben-Kennzeichen',
+  'WKZ Umsatz',
+  'Kurs',
+  'Basis-Umsatz',
+  'WKZ Basis-Umsatz',
+  'Konto',
+  'Gegenkonto (ohne BU-Schlüssel)',
+  'BU-Schlüssel',
+  'Belegdatum',
+  'Belegfeld 1',
+  'Belegfeld 2',
+  'Skonto',
+  'Buchungstext',
+];
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatDay = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+const formatTimestamp = (date: Date) =>
+  formatDay(date) +
+  pad(date.getUTCHours()) + pad(date.getUTCMinutes()) + pad(date.getUTCSeconds()) + pad(date.getUTCMilliseconds(), 3);
+
+// Amounts use a decimal comma and no thousands separator
+const formatAmount = (cents: number) => (cents / 100).toFixed(2).replace('.', ',');
+
+// Characters outside of Latin-1 cannot be encoded and are replaced
+function quote(text: string, maxLength: number): string {
+  return `"${text.slice(0, maxLength).replace(/[^\x20-\xff]/g, '?').replace(/"/g, '""')}"`;
+}
+
+// Belegfeld 1 allows letters, digits and $ & % * + - / only
+function toDocumentNumber(text: string): string {
+  return text.replace(/[^A-Za-z0-9$&%*+\-/]/g, '').slice(0, 36);
+}
+
+function bookingLine(booking: DatevBooking): string {
+  const [debitAccount, creditAccount] = booking.amountCents < 0
+    ? [booking.creditAccount, booking.debitAccount]
+    : [booking.debitAccount, booking.creditAccount];
+
+  return [
+    formatAmount(Math.abs(booking.amountCents)),
+    '"S"',
+    '"EUR"',
+    '',
+    '',
+    '""',
+    debitAccount,
+    creditAccount,
+    '""',
+    `${pad(booking.date.getUTCDate())}${pad(booking.date.getUTCMonth() + 1)}`,
+    quote(toDocumentNumber(booking.documentNumber), 36),
+    '""',
+    '',
+    quote(booking.text, 60),
+  ].join(';');
+}
+
+/**
+ * Build the file content. DATEV reads the file as Windows-1252 with CRLF line breaks;
+ * all bookings must lie within one fiscal year.
+ */
+export function buildExtfBookingBatch(options: ExtfOptions): Buffer {
+  const header = [
+    '"EXTF"',
+    HEADER_FORMAT_VERSION,
+    BOOKING_BATCH_CATEGORY,
+    '"Buchungsstapel"',
+    BOOKING_BATCH_VERSION,
+    formatTimestamp(options.createdAt),
+    '',
+    '"RE"',
+    '""',
+    '""',
+    options.consultantNumber,
+    options.clientNumber,
+    formatDay(options.fiscalYearStart),
+    options.accountLength,
+    formatDay(options.from),
+    formatDay(options.to),
+    quote(options.description, 30),
+    '""',
+    1, // Finanzbuchführung
+    0, // Rechnungslegungszweck unabhängig
+    0, // Not locked, the accountants can still correct the bookings
+    '"EUR"',
+    '',
+    '""',
+    '',
+    '',
+    `"${options.chartOfAccounts.slice(3)}"`,
+    '',
+    '',
+    '""',
+    '""',
+  ].join(';');
+
+  const lines = [
+    header,
+    COLUMNS.join(';'),
+    ...options.bookings.filter(booking => booking.amountCents !== 0).map(bookingLine),
+  ];
+
+  return Buffer.from(`${lines.join('\r\n')}\r\n`, 'latin1');
+}
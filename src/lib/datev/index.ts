@@ -0,0 +1,83 @@
+// src/lib/datev/index.ts
+// Account mapping and fiscal years of the DATEV export. Residential letting is exempt from
+// VAT (§ 4 Nr. 12 UStG), so income and costs are booked gross without tax keys.
+
+import type { CostCategory, DatevAccountKey, DatevAccounts, LedgerCategory, Organization } from '../db/schema';
+
+export { buildExtfBookingBatch, type DatevBooking, type ExtfOptions } from './extf';
+
+export type ChartOfAccounts = Organization['datevChartOfAccounts'];
+
+export const DEFAULT_DATEV_ACCOUNTS: Record<ChartOfAccounts, Record<DatevAccountKey, string>> = {
+  SKR03: {
+    bank: '1200',
+    cash: '1000',
+    receivables: '1400',
+    payables: '1600',
+    deposits: '1700',
+    rent_income: '8105',
+    operating_cost_income: '8105',
+    fee_income: '2700',
+    other_income: '2700',
+    operating_costs: '4280',
+    maintenance: '4260',
+    administration: '4900',
+    capital_expenditure: '0090',
+    other_expenses: '4900',
+    consumption: '4240',
+  },
+  SKR04: {
+    bank: '1800',
+    cash: '1600',
+    receivables: '1200',
+    payables: '3300',
+    deposits: '3500',
+    rent_income: '4105',
+    operating_cost_income: '4105',
+    fee_income: '4830',
+    other_income: '4830',
+    operating_costs: '6345',
+    maintenance: '6335',
+    administration: '6300',
+    capital_expenditure: '0240',
+    other_expenses: '6300',
+    consumption: '6325',
+  },
+};
+
+// Account charges of a ledger category are credited to
+export const LEDGER_CATEGORY_ACCOUNTS: Record<LedgerCategory, DatevAccountKey> = {
+  rent: 'rent_income',
+  operating_costs: 'operating_cost_income',
+  deposit: 'deposits',
+  fee: 'fee_income',
+  other: 'other_income',
+};
+
+// Account vendor invoices of a cost category are debited to
+export const COST_CATEGORY_ACCOUNTS: Record<CostCategory, DatevAccountKey> = {
+  operating_costs: 'operating_costs',
+  maintenance: 'maintenance',
+  administration: 'administration',
+  capital_expenditure: 'capital_expenditure',
+  other: 'other_expenses',
+};
+
+/**
+ * Accounts of an organization: the defaults of its chart of accounts, overridden by
+ * the accounts it configured
+ */
+export function getDatevAccounts(
+  chartOfAccounts: ChartOfAccounts,
+  accounts: DatevAccounts = {}
+): Record<DatevAccountKey, string> {
+  return { ...DEFAULT_DATEV_ACCOUNTS[chartOfAccounts], ...accounts };
+}
+
+/**
+ * First day of the fiscal year a date falls in, for fiscal years starting in the given month (1-12)
+ */
+export function getFiscalYearStart(date: Date, startMonth: number): Date {
+  const year = date.getUTCMonth() + 1 >= startMonth ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+  return new Date(Date.UTC(year, startMonth - 1, 1));
+}
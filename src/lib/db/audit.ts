@@ -0,0 +1,157 @@
+// src/lib/db/audit.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { db, type Database } from './db';
+import {
+  auditEvents,
+  type AuditAction,
+  type AuditChanges,
+  type AuditEntityType,
+  type AuditRequestMetadata,
+  type NewAuditEvent,
+} from './schema';
+
+export interface AuditActor {
+  type: 'user' | 'api_key' | 'system';
+  userId?: string | null;
+  apiKeyId?: string | null;
+}
+
+export interface AuditContext {
+  actor: AuditActor;
+  metadata: AuditRequestMetadata;
+}
+
+export interface AuditEntry {
+  organizationId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  // Record state before and after the change; omit before for creates and after for deletes
+  before?: object | null;
+  after?: object | null;
+}
+
+// Changes without a request (workers, seeding, invitation acceptance) are attributed to the system
+const SYSTEM_CONTEXT: AuditContext = { actor: { type: 'system' }, metadata: {} };
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+// Credentials are logged as changed without their values
+const REDACTED_FIELDS = new Set(['passwordHash', 'keyHash', 'secret', 'token']);
+const REDACTED = '[redacted]';
+
+const auditContextStorage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run an operation with the actor and request metadata its changes are attributed to
+ */
+export async function withAuditContext<T>(context: AuditContext, operation: () => Promise<T>): Promise<T> {
+  return await auditContextStorage.run(context, operation);
+}
+
+/**
+ * Tag the changes made by an operation with the business operation they belong to
+ */
+export async function withAuditOperation<T>(operation: string, callback: () => Promise<T>): Promise<T> {
+  const context = getAuditContext();
+  return await auditContextStorage.run(
+    { ...context, metadata: { ...context.metadata, operation } },
+    callback
+  );
+}
+
+/**
+ * Audit context of the current request, or the system context outside of requests
+ */
+export function getAuditContext(): AuditContext {
+  return auditContextStorage.getStore() ?? SYSTEM_CONTEXT;
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/**
+ * Field-level diff between two versions of a record
+ */
+export function diffRecords(before?: object | null, after?: object | null): AuditChanges {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = normalizeValue(previous[field]);
+    const to = normalizeValue(next[field]);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: from === null ? null : REDACTED, after: to === null ? null : REDACTED }
+      : { before: from, after: to };
+  }
+
+  return changes;
+}
+
+/**
+ * Write audit events for changes made in the current context. Updates that
+ * changed nothing are skipped. Pass the transaction when writing inside one
+ * so the events roll back with the change.
+ */
+export async function recordAuditEvents(
+  entries: AuditEntry[],
+  executor: Pick<Database, 'insert'> = db
+): Promise<void> {
+  const { actor, metadata } = getAuditContext();
+
+  const values: NewAuditEvent[] = entries
+    .map(({ before, after, ...entry }) => ({
+      ...entry,
+      actorType: actor.type,
+      actorId: actor.userId || null,
+      apiKeyId: actor.apiKeyId || null,
+      changes: diffRecords(before, after),
+      metadata,
+    }))
+    .filter(event => event.action !== 'update' || Object.keys(event.changes).length > 0);
+
+  if (values.length === 0) return;
+
+  // No RETURNING: tenants may write audit events but not read them back
+  await executor.insert(auditEvents).values(values);
+}
+
+/**
+ * Write a single audit event, see recordAuditEvents
+ */
+export async function recordAuditEvent(
+  entry: AuditEntry,
+  executor: Pick<Database, 'insert'> = db
+): Promise<void> {
+  await recordAuditEvents([entry], executor);
+}
+
+/**
+ * Pair up the versions of bulk-updated records by ID for recordAuditEvents
+ */
+export function pairRecordsById<T extends { id: string; organizationId: string }>(
+  entityType: AuditEntityType,
+  before: T[],
+  after: T[]
+): AuditEntry[] {
+  const previousById = new Map(before.map(record => [record.id, record]));
+
+  return after.map(record => ({
+    organizationId: record.organizationId,
+    entityType,
+    entityId: record.id,
+    action: 'update' as const,
+    before: previousById.get(record.id),
+    after: record,
+  }));
+}
@@ -1,10 +1,18 @@
 import { NextAuthOptions } from 'next-auth';
 import { DrizzleAdapter } from '@auth/drizzle-adapter';
 import CredentialsProvider from 'next-auth/providers/credentials';
-import bcrypt from 'bcryptjs';
 import { eq } from 'drizzle-orm';
 import { db } from './db';
-import { users, organizations } from './db/schema';
+import { users, organizations } from './schema';
+import {
+  verifyPassword,
+  isAccountLocked,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  ACCOUNT_LOCKED_ERROR,
+} from './password-utils';
+
+const SESSION_REVOKED_ERROR = 'SessionRevoked';
 
 export const authOptions: NextAuthOptions = {
   adapter: DrizzleAdapter(db) as any,
@@ -30,6 +38,8 @@ export const authOptions: NextAuthOptions = {
               image: users.image,
               role: users.role,
               isActive: users.isActive,
+              passwordHash: users.passwordHash,
+              lockedUntil: users.lockedUntil,
               organizationId: users.organizationId,
               organizationName: organizations.name,
               organizationSlug: organizations.slug,
@@ -45,14 +55,27 @@ export const authOptions: NextAuthOptions = {
 
           const user = userWithOrg[0];
 
-          // For demo purposes, accept any password. 
-          // In production, implement proper password hashing
-          const isValidPassword = true; // await bcrypt.compare(credentials.password, user.passwordHash);
+          if (isAccountLocked(user)) {
+            throw new Error(ACCOUNT_LOCKED_ERROR);
+          }
+
+          // Accounts without a password (e.g. pending invitations) cannot sign in
+          if (!user.passwordHash) {
+            return null;
+          }
+
+          const isValidPassword = await verifyPassword(credentials.password, user.passwordHash);
 
           if (!isValidPassword) {
+            const { locked } = await recordFailedLogin(user.id);
+            if (locked) {
+              throw new Error(ACCOUNT_LOCKED_ERROR);
+            }
             return null;
           }
 
+          await recordSuccessfulLogin(user.id);
+
           return {
             id: user.id,
             email: user.email,
@@ -60,10 +83,13 @@ export const authOptions: NextAuthOptions = {
             image: user.image,
             role: user.role,
             organizationId: user.organizationId,
-            organizationName: user.organizationName,
-            organizationSlug: user.organizationSlug,
+            organizationName: user.organizationName ?? undefined,
+            organizationSlug: user.organizationSlug ?? undefined,
           };
         } catch (error) {
+          if (error instanceof Error && error.message === ACCOUNT_LOCKED_ERROR) {
+            throw error;
+          }
           console.error('Auth error:', error);
           return null;
         }
@@ -80,7 +106,32 @@ export const authOptions: NextAuthOptions = {
         token.organizationId = user.organizationId;
         token.organizationName = user.organizationName;
         token.organizationSlug = user.organizationSlug;
+        // NextAuth renews iat whenever it re-encodes the token, so keep the sign-in time apart
+        token.authTime = Date.now();
+        return token;
+      }
+
+      // Sessions end when the account is deactivated or its password changes. Throwing
+      // makes NextAuth clear the session cookie.
+      const [current] = await db
+        .select({
+          role: users.role,
+          isActive: users.isActive,
+          passwordChangedAt: users.passwordChangedAt,
+        })
+        .from(users)
+        .where(eq(users.id, token.sub ?? ''))
+        .limit(1);
+
+      if (
+        !current?.isActive ||
+        !token.authTime ||
+        (current.passwordChangedAt && current.passwordChangedAt.getTime() > token.authTime)
+      ) {
+        throw new Error(SESSION_REVOKED_ERROR);
       }
+
+      token.role = current.role;
       return token;
     },
     async session({ session, token }) {
@@ -126,6 +177,7 @@ declare module 'next-auth' {
 
 declare module 'next-auth/jwt' {
   interface JWT {
+    authTime?: number; // Sign-in time in milliseconds
     role: string;
     organizationId: string;
     organizationName?: string;
@@ -0,0 +1,78 @@
+// src/lib/db/csv-utils.ts
+
+/**
+ * Parse CSV text into rows of cells.
+ * Handles quoted cells, escaped quotes ("") and CRLF line endings.
+ * The delimiter is detected from the first line when not given (`,` or `;`).
+ */
+export function parseCSV(text: string, delimiter?: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const separator = delimiter
+    ?? (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(c => c !== ''));
+}
+
+/**
+ * Normalize a header cell so "Unit Number", "unit_number" and "unitNumber" match
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by normalized header
+ */
+export function parseCSVRecords(text: string, delimiter?: string): Array<Record<string, string>> {
+  const [headerRow, ...dataRows] = parseCSV(text, delimiter);
+  if (!headerRow) return [];
+
+  const headers = headerRow.map(normalizeHeader);
+
+  return dataRows.map(cells =>
+    Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']))
+  );
+}
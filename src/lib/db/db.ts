@@ -1,4 +1,5 @@
 // src/lib/db/db.ts
+import { AsyncLocalStorage } from 'async_hooks';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import { Pool } from '@neondatabase/serverless';
 import * as schema from './schema';
@@ -8,15 +9,33 @@ if (!process.env.DATABASE_URL) {
 }
 
 // Create a pool for better connection management
-const pool = new Pool({ 
+const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
-// Create the database instance with schema
-export const db = drizzle(pool, { 
+// Connection-owner handle. Bypasses row-level security, so use it only for
+// system work: migrations, seeding, sign-in and other pre-session flows.
+export const systemDb = drizzle(pool, {
   schema,
   logger: process.env.NODE_ENV === 'development',
 });
 
+export type Database = typeof systemDb;
+
+// Transaction opened for the current request by withRequestDb (see utils.ts)
+export const requestDbStorage = new AsyncLocalStorage<Database>();
+
+/**
+ * Database instance used by services and routes. Inside a request scope it
+ * resolves to that request's RLS-enforcing transaction, otherwise to systemDb.
+ */
+export const db: Database = new Proxy(systemDb, {
+  get(target, property) {
+    const scoped = requestDbStorage.getStore() ?? target;
+    const value = Reflect.get(scoped, property, scoped);
+    return typeof value === 'function' ? value.bind(scoped) : value;
+  },
+});
+
 // Export pool for cleanup if needed
-export { pool };
\ No newline at end of file
+export { pool };
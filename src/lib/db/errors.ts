@@ -16,12 +16,19 @@ export class DatabaseError extends Error {
 }
 
 export class ValidationError extends Error {
-  constructor(message: string, public field?: string) {
+  constructor(message: string, public field?: string, public errors?: string[]) {
     super(message);
     this.name = 'ValidationError';
   }
 }
 
+export class UnauthorizedError extends Error {
+  constructor(message: string = 'Authentication required') {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
 export class AccessDeniedError extends Error {
   constructor(message: string = 'Access denied') {
     super(message);
@@ -294,6 +301,15 @@ export function createErrorResponse(error: Error) {
       message: error.message,
       code: 'VALIDATION_ERROR',
       field: error.field,
+      errors: error.errors,
+    };
+  }
+
+  if (error instanceof UnauthorizedError) {
+    return {
+      success: false,
+      message: error.message,
+      code: 'UNAUTHORIZED',
     };
   }
 
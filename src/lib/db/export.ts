@@ -1,5 +1,5 @@
 // src/lib/db/export.ts
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { eq, and, or, gte, lt, lte, desc, inArray, isNotNull } from 'drizzle-orm';
 import { db } from './db';
 import { 
   organizations,
@@ -9,8 +9,26 @@ import {
   users,
   tickets,
   consumptionRecords,
-  documents
+  documents,
+  vendorInvoices,
+  vendors,
+  ledgerEntries
 } from './schema';
+import { ValidationError } from './errors';
+import { AuditEventService, type AuditEventFilters } from './services/audit-events';
+import { BOOKED_INVOICE_STATUSES } from './services/vendor-invoices';
+import { getPeriodBounds, toCents } from '../ledger';
+import {
+  buildExtfBookingBatch,
+  getDatevAccounts,
+  getFiscalYearStart,
+  COST_CATEGORY_ACCOUNTS,
+  LEDGER_CATEGORY_ACCOUNTS,
+  type DatevBooking,
+} from '../datev';
+
+// Larger audit exports have to be narrowed down with a date range
+const AUDIT_EXPORT_LIMIT = 10000;
 
 /**
  * Export organization data to JSON
@@ -63,6 +81,7 @@ export async function exportOrganizationData(organizationId: string) {
     users: organizationUsers.map(user => ({
       ...user,
       // Remove sensitive data
+      passwordHash: undefined,
       emailVerified: user.emailVerified?.toISOString(),
       createdAt: user.createdAt?.toISOString(),
       updatedAt: user.updatedAt?.toISOString(),
@@ -324,6 +343,7 @@ export async function exportFinancialSummary(
     .select({
       contractId: tickets.contractId,
       estimatedCost: tickets.estimatedCost,
+      id: tickets.id,
       actualCost: tickets.actualCost,
       createdAt: tickets.createdAt,
     })
@@ -332,6 +352,46 @@ export async function exportFinancialSummary(
 
   const ticketData = await ticketQuery;
 
+  // Get approved vendor invoices in the period, with the contract of their ticket
+  let invoiceConditions = and(
+    eq(vendorInvoices.organizationId, organizationId),
+    inArray(vendorInvoices.status, BOOKED_INVOICE_STATUSES)
+  );
+  if (startPeriod) {
+    invoiceConditions = and(invoiceConditions, gte(vendorInvoices.invoiceDate, getPeriodBounds(startPeriod).start));
+  }
+  if (endPeriod) {
+    invoiceConditions = and(invoiceConditions, lt(vendorInvoices.invoiceDate, getPeriodBounds(endPeriod).end));
+  }
+
+  const invoiceData = await db
+    .select({
+      ticketId: vendorInvoices.ticketId,
+      contractId: tickets.contractId,
+      buildingId: vendorInvoices.buildingId,
+      buildingName: buildings.name,
+      costCategory: vendorInvoices.costCategory,
+      grossAmount: vendorInvoices.grossAmount,
+    })
+    .from(vendorInvoices)
+    .innerJoin(buildings, eq(vendorInvoices.buildingId, buildings.id))
+    .leftJoin(tickets, eq(vendorInvoices.ticketId, tickets.id))
+    .where(invoiceConditions);
+
+  // Invoiced tickets count with their invoices instead of the cost entered on the ticket
+  const invoicedTicketIds = new Set(
+    (await db
+      .selectDistinct({ ticketId: vendorInvoices.ticketId })
+      .from(vendorInvoices)
+      .where(
+        and(
+          eq(vendorInvoices.organizationId, organizationId),
+          inArray(vendorInvoices.status, BOOKED_INVOICE_STATUSES)
+        )
+      ))
+      .map(invoice => invoice.ticketId)
+  );
+
   // Combine data for financial summary
   const financialSummary = contractData.map(contract => {
     const contractConsumption = consumptionData
@@ -339,10 +399,15 @@ export async function exportFinancialSummary(
       .reduce((sum, c) => sum + Number(c.totalCost || 0), 0);
 
     const contractTicketCosts = ticketData
-      .filter(t => t.contractId === contract.contractId)
+      .filter(t => t.contractId === contract.contractId && !invoicedTicketIds.has(t.id))
       .reduce((sum, t) => sum + Number(t.actualCost || t.estimatedCost || 0), 0);
 
+    const contractInvoiceCosts = invoiceData
+      .filter(i => i.contractId === contract.contractId)
+      .reduce((sum, i) => sum + Number(i.grossAmount), 0);
+
     const monthlyRent = Number(contract.rentAmount || 0);
+    const totalExpenses = contractConsumption + contractTicketCosts + contractInvoiceCosts;
     
     return {
       contractNumber: contract.contractNumber,
@@ -351,8 +416,9 @@ export async function exportFinancialSummary(
       monthlyRent,
       consumptionCosts: contractConsumption,
       maintenanceCosts: contractTicketCosts,
-      totalExpenses: contractConsumption + contractTicketCosts,
-      netIncome: monthlyRent - (contractConsumption + contractTicketCosts),
+      invoiceCosts: contractInvoiceCosts,
+      totalExpenses,
+      netIncome: monthlyRent - totalExpenses,
       isActive: contract.isActive,
       startDate: contract.startDate?.toISOString().split('T')[0] || '',
       endDate: contract.endDate?.toISOString().split('T')[0] || '',
@@ -366,6 +432,7 @@ export async function exportFinancialSummary(
     'Monthly Rent (€)',
     'Consumption Costs (€)',
     'Maintenance Costs (€)',
+    'Invoiced Costs (€)',
     'Total Expenses (€)',
     'Net Income (€)',
     'Active',
@@ -380,6 +447,7 @@ export async function exportFinancialSummary(
     item.monthlyRent.toFixed(2),
     item.consumptionCosts.toFixed(2),
     item.maintenanceCosts.toFixed(2),
+    item.invoiceCosts.toFixed(2),
     item.totalExpenses.toFixed(2),
     item.netIncome.toFixed(2),
     item.isActive ? 'Yes' : 'No',
@@ -387,10 +455,43 @@ export async function exportFinancialSummary(
     item.endDate
   ]);
 
+  // Invoices not related to a contract are costs of the building as a whole
+  const buildingCosts = new Map<string, { buildingName: string; costsByCategory: Record<string, number> }>();
+  invoiceData
+    .filter(i => !i.contractId)
+    .forEach(i => {
+      const costs = buildingCosts.get(i.buildingId) || { buildingName: i.buildingName, costsByCategory: {} };
+      costs.costsByCategory[i.costCategory] = (costs.costsByCategory[i.costCategory] || 0) + Number(i.grossAmount);
+      buildingCosts.set(i.buildingId, costs);
+    });
+
+  const buildingSummary = Array.from(buildingCosts.values()).map(costs => ({
+    ...costs,
+    totalExpenses: Object.values(costs.costsByCategory).reduce((sum, amount) => sum + amount, 0),
+  }));
+
+  buildingSummary.forEach(item => {
+    rows.push([
+      '',
+      '',
+      item.buildingName,
+      '0.00',
+      '0.00',
+      '0.00',
+      item.totalExpenses.toFixed(2),
+      item.totalExpenses.toFixed(2),
+      (-item.totalExpenses).toFixed(2),
+      '',
+      '',
+      ''
+    ]);
+  });
+
   return {
     headers,
     rows,
     data: financialSummary,
+    buildingCosts: buildingSummary,
     csv: [headers, ...rows].map(row => 
       row.map(cell => `"${cell}"`).join(',')
     ).join('\n'),
@@ -533,6 +634,239 @@ export async function exportOccupancyReport(organizationId: string) {
   };
 }
 
+/**
+ * Export the audit log to CSV or JSON
+ */
+export async function exportAuditEvents(
+  organizationId: string,
+  options: AuditEventFilters & { format?: 'csv' | 'json' } = {}
+) {
+  const { format = 'csv', ...filters } = options;
+  const { events, total } = await AuditEventService.getEvents(organizationId, {
+    ...filters,
+    limit: AUDIT_EXPORT_LIMIT,
+  });
+
+  const filename = `audit_log_${new Date().toISOString().split('T')[0]}.${format}`;
+  const truncated = total > events.length;
+
+  if (format === 'json') {
+    return {
+      filename,
+      truncated,
+      content: JSON.stringify(events.map(({ event, actor }) => ({ ...event, actor })), null, 2),
+    };
+  }
+
+  const headers = [
+    'Timestamp',
+    'Actor Type',
+    'Actor',
+    'API Key ID',
+    'Entity Type',
+    'Entity ID',
+    'Action',
+    'Changes',
+    'Operation',
+    'Request ID',
+    'IP Address',
+  ];
+
+  const rows = events.map(({ event, actor }) => [
+    event.createdAt.toISOString(),
+    event.actorType,
+    actor?.email || event.actorId || '',
+    event.apiKeyId || '',
+    event.entityType,
+    event.entityId,
+    event.action,
+    JSON.stringify(event.changes),
+    event.metadata.operation || '',
+    event.metadata.requestId || '',
+    event.metadata.ipAddress || '',
+  ]);
+
+  return {
+    filename,
+    truncated,
+    // Changes are JSON, so quotes inside cells are escaped
+    content: [headers, ...rows].map(row =>
+      row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')
+    ).join('\n'),
+  };
+}
+
+/**
+ * Export rent charges, payments, vendor invoices and consumption costs of a period as a
+ * DATEV Buchungsstapel. The period must lie within one fiscal year of the organization.
+ */
+export async function exportDatevBookings(
+  organizationId: string,
+  options: { startPeriod: string; endPeriod: string }
+) {
+  const [organization] = await db
+    .select()
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+
+  if (!organization) {
+    throw new Error('Organization not found');
+  }
+  if (!organization.datevConsultantNumber || !organization.datevClientNumber) {
+    throw new ValidationError('Set the DATEV consultant and client number first', 'datevConsultantNumber');
+  }
+
+  const from = getPeriodBounds(options.startPeriod).start;
+  const until = getPeriodBounds(options.endPeriod).end; // Exclusive
+  const fiscalYearStart = getFiscalYearStart(from, organization.datevFiscalYearStart);
+  const nextFiscalYearStart = new Date(Date.UTC(fiscalYearStart.getUTCFullYear() + 1, fiscalYearStart.getUTCMonth(), 1));
+
+  if (until <= from) {
+    throw new ValidationError('The end period must not be before the start period', 'endPeriod');
+  }
+  if (until > nextFiscalYearStart) {
+    throw new ValidationError('The export has to lie within one fiscal year', 'endPeriod');
+  }
+
+  const accounts = getDatevAccounts(organization.datevChartOfAccounts, organization.datevAccounts);
+  const inPeriod = (date: Date | null): date is Date => !!date && date >= from && date < until;
+
+  const [ledgerData, invoiceData, consumptionData] = await Promise.all([
+    db
+      .select({
+        entry: ledgerEntries,
+        contractNumber: contracts.contractNumber,
+      })
+      .from(ledgerEntries)
+      .innerJoin(contracts, eq(ledgerEntries.contractId, contracts.id))
+      .where(
+        and(
+          eq(ledgerEntries.organizationId, organizationId),
+          or(
+            and(gte(ledgerEntries.bookingDate, from), lt(ledgerEntries.bookingDate, until)),
+            and(gte(ledgerEntries.dueDate, from), lt(ledgerEntries.dueDate, until))
+          )
+        )
+      ),
+    db
+      .select({
+        invoice: vendorInvoices,
+        vendorName: vendors.name,
+      })
+      .from(vendorInvoices)
+      .innerJoin(vendors, eq(vendorInvoices.vendorId, vendors.id))
+      .where(
+        and(
+          eq(vendorInvoices.organizationId, organizationId),
+          inArray(vendorInvoices.status, BOOKED_INVOICE_STATUSES),
+          or(
+            and(gte(vendorInvoices.invoiceDate, from), lt(vendorInvoices.invoiceDate, until)),
+            and(gte(vendorInvoices.paidAt, from), lt(vendorInvoices.paidAt, until))
+          )
+        )
+      ),
+    db
+      .select({
+        record: consumptionRecords,
+        contractNumber: contracts.contractNumber,
+      })
+      .from(consumptionRecords)
+      .innerJoin(contracts, eq(consumptionRecords.contractId, contracts.id))
+      .where(
+        and(
+          eq(consumptionRecords.organizationId, organizationId),
+          isNotNull(consumptionRecords.cost),
+          gte(consumptionRecords.readingDate, from),
+          lt(consumptionRecords.readingDate, until)
+        )
+      ),
+  ]);
+
+  const bookings: DatevBooking[] = [];
+
+  // Charges are dated by their due date, payments and credits by their value date
+  ledgerData.forEach(({ entry, contractNumber }) => {
+    const date = entry.entryType === 'charge' ? entry.dueDate || entry.bookingDate : entry.bookingDate;
+    if (!inPeriod(date)) return;
+
+    const incomeAccount = accounts[LEDGER_CATEGORY_ACCOUNTS[entry.category]];
+    const booking = {
+      amountCents: toCents(entry.amount),
+      date,
+      documentNumber: contractNumber,
+      text: [contractNumber, entry.period, entry.description].filter(Boolean).join(' '),
+    };
+
+    if (entry.entryType === 'charge') {
+      bookings.push({ ...booking, debitAccount: accounts.receivables, creditAccount: incomeAccount });
+    } else if (entry.entryType === 'credit') {
+      bookings.push({ ...booking, debitAccount: incomeAccount, creditAccount: accounts.receivables });
+    } else {
+      // Open claims settled from the deposit are paid out of the deposit liability
+      const paymentAccount = entry.category === 'deposit' && entry.paymentMethod === 'other'
+        ? accounts.deposits
+        : entry.paymentMethod === 'cash' ? accounts.cash : accounts.bank;
+      bookings.push({ ...booking, debitAccount: paymentAccount, creditAccount: accounts.receivables });
+    }
+  });
+
+  invoiceData.forEach(({ invoice, vendorName }) => {
+    if (inPeriod(invoice.invoiceDate)) {
+      bookings.push({
+        amountCents: toCents(invoice.grossAmount),
+        debitAccount: accounts[COST_CATEGORY_ACCOUNTS[invoice.costCategory]],
+        creditAccount: accounts.payables,
+        date: invoice.invoiceDate,
+        documentNumber: invoice.invoiceNumber,
+        text: [vendorName, invoice.description].filter(Boolean).join(' '),
+      });
+    }
+    if (inPeriod(invoice.paidAt)) {
+      bookings.push({
+        amountCents: toCents(invoice.grossAmount),
+        debitAccount: accounts.payables,
+        creditAccount: accounts.bank,
+        date: invoice.paidAt,
+        documentNumber: invoice.invoiceNumber,
+        text: `Zahlung ${vendorName}`,
+      });
+    }
+  });
+
+  consumptionData.forEach(({ record, contractNumber }) => {
+    bookings.push({
+      amountCents: toCents(record.cost),
+      debitAccount: accounts.consumption,
+      creditAccount: accounts.payables,
+      date: record.readingDate,
+      documentNumber: record.meterNumber || contractNumber,
+      text: `${contractNumber} ${record.period} ${record.consumptionType}`,
+    });
+  });
+
+  bookings.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const content = buildExtfBookingBatch({
+    createdAt: new Date(),
+    consultantNumber: organization.datevConsultantNumber,
+    clientNumber: organization.datevClientNumber,
+    fiscalYearStart,
+    accountLength: Math.max(4, ...Object.values(accounts).map(account => account.length)),
+    from,
+    to: new Date(until.getTime() - 24 * 60 * 60 * 1000),
+    description: `Miete ${options.startPeriod} bis ${options.endPeriod}`,
+    chartOfAccounts: organization.datevChartOfAccounts,
+    bookings,
+  });
+
+  return {
+    filename: `EXTF_Buchungsstapel_${options.startPeriod}_${options.endPeriod}.csv`,
+    content,
+    count: bookings.length,
+  };
+}
+
 /**
  * Backup organization data (comprehensive)
  */
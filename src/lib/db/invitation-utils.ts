@@ -1,7 +1,12 @@
 import { randomBytes } from 'crypto';
-import { eq, and, gt } from 'drizzle-orm';
+import { eq, and, gt, isNull } from 'drizzle-orm';
 import { db } from './db';
-import { invitationTokens, contracts, buildings } from './db/schema';
+import { invitationTokens, contracts, buildings, organizations, users, tenantContracts } from './schema';
+import { ConflictError, NotFoundError } from './errors';
+import { hashPassword, isAccountLocked, recordFailedLogin, verifyPassword } from './password-utils';
+import { createTenantWithContract } from './transactions';
+import { recordAuditEvent } from './audit';
+import { emitWebhookEvent } from '../webhooks';
 import QRCode from 'qrcode';
 
 const APP_URL = process.env.APP_URL || 'http://localhost:3000';
@@ -48,6 +53,14 @@ export async function createInvitationToken({
     })
     .returning();
 
+  await recordAuditEvent({
+    organizationId,
+    entityType: 'invitation',
+    entityId: invitationToken.id,
+    action: 'create',
+    after: invitationToken,
+  });
+
   return invitationToken;
 }
 
@@ -65,7 +78,8 @@ export async function validateInvitationToken(token: string) {
       and(
         eq(invitationTokens.token, token),
         gt(invitationTokens.expiresAt, new Date()),
-        eq(invitationTokens.usedAt, null)
+        isNull(invitationTokens.usedAt),
+        isNull(invitationTokens.revokedAt)
       )
     )
     .limit(1);
@@ -73,11 +87,41 @@ export async function validateInvitationToken(token: string) {
   return invitation;
 }
 
-export async function markInvitationAsUsed(token: string) {
-  await db
+/**
+ * Mark an invitation as used. Pass a transaction to make this part of a larger
+ * unit of work; returns false if the invitation was already used or revoked.
+ */
+export async function markInvitationAsUsed(
+  token: string,
+  executor: Pick<typeof db, 'update' | 'insert'> = db
+): Promise<boolean> {
+  const [updated] = await executor
     .update(invitationTokens)
     .set({ usedAt: new Date() })
-    .where(eq(invitationTokens.token, token));
+    .where(
+      and(
+        eq(invitationTokens.token, token),
+        isNull(invitationTokens.usedAt),
+        isNull(invitationTokens.revokedAt)
+      )
+    )
+    .returning();
+
+  if (updated) {
+    await recordAuditEvent(
+      {
+        organizationId: updated.organizationId,
+        entityType: 'invitation',
+        entityId: updated.id,
+        action: 'update',
+        before: { usedAt: null },
+        after: { usedAt: updated.usedAt },
+      },
+      executor
+    );
+  }
+
+  return !!updated;
 }
 
 export function getInvitationUrl(token: string): string {
@@ -146,8 +190,115 @@ export async function createCompleteInvitation(params: {
     email: invitation.email,
     tenantName: invitation.tenantName || undefined,
     contractId: invitation.contractId,
-    buildingName: contractDetails?.buildingName,
+    buildingName: contractDetails?.buildingName ?? undefined,
     unitNumber: contractDetails?.unitNumber,
     expiresAt: invitation.expiresAt,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Public details shown to an invitee before they accept
+ */
+export async function getInvitationDetails(token: string) {
+  const invitation = await validateInvitationToken(token);
+  if (!invitation) return null;
+
+  const [organization] = await db
+    .select({ name: organizations.name })
+    .from(organizations)
+    .where(eq(organizations.id, invitation.invitation.organizationId))
+    .limit(1);
+
+  // Invitees who already have an account confirm with its password instead of choosing one
+  const [existingUser] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.email, invitation.invitation.email))
+    .limit(1);
+
+  return {
+    email: invitation.invitation.email,
+    tenantName: invitation.invitation.tenantName,
+    organizationName: organization?.name,
+    buildingName: invitation.building?.name,
+    buildingAddress: invitation.building?.address,
+    unitNumber: invitation.contract?.unitNumber,
+    isMainTenant: invitation.invitation.isMainTenant,
+    expiresAt: invitation.invitation.expiresAt,
+    hasAccount: !!existingUser,
+  };
+}
+
+/**
+ * Accept an invitation: create the tenant account, or link the contract to the tenant who
+ * already has an account with the invited email, and consume the token in one transaction.
+ * Existing tenants confirm with their current password.
+ */
+export async function acceptInvitation(
+  token: string,
+  data: { name: string; password: string }
+) {
+  const invitation = await validateInvitationToken(token);
+  if (!invitation) {
+    throw new NotFoundError('Invitation');
+  }
+
+  const { invitation: invite, contract } = invitation;
+
+  if (!contract || !contract.isActive) {
+    throw new ConflictError('The contract for this invitation is no longer active');
+  }
+
+  const [existingUser] = await db
+    .select()
+    .from(users)
+    .where(eq(users.email, invite.email))
+    .limit(1);
+
+  if (existingUser) {
+    if (
+      existingUser.organizationId !== invite.organizationId ||
+      existingUser.role !== 'tenant' ||
+      !existingUser.isActive
+    ) {
+      throw new ConflictError('An account with this email already exists. Please contact your property manager.');
+    }
+    if (isAccountLocked(existingUser)) {
+      throw new ConflictError('Your account is temporarily locked. Please try again later.');
+    }
+    if (!existingUser.passwordHash || !(await verifyPassword(data.password, existingUser.passwordHash))) {
+      await recordFailedLogin(existingUser.id);
+      throw new ConflictError('An account with this email already exists. Please enter its current password.');
+    }
+
+    const [linked] = await db
+      .select({ id: tenantContracts.id })
+      .from(tenantContracts)
+      .where(and(eq(tenantContracts.tenantId, existingUser.id), eq(tenantContracts.contractId, invite.contractId)))
+      .limit(1);
+    if (linked) {
+      throw new ConflictError('Your account is already linked to this contract');
+    }
+  }
+
+  const result = await createTenantWithContract({
+    organizationId: invite.organizationId,
+    contractId: invite.contractId,
+    tenantId: existingUser?.id,
+    tenantData: {
+      email: invite.email,
+      name: data.name,
+      percentage: invite.percentage || '100.00',
+      isMainTenant: invite.isMainTenant || false,
+      passwordHash: existingUser ? undefined : await hashPassword(data.password),
+    },
+    invitationToken: token,
+  });
+
+  await emitWebhookEvent(invite.organizationId, 'invitation.accepted', {
+    contractId: invite.contractId,
+    tenant: { id: result.tenant.id, email: result.tenant.email, name: result.tenant.name },
+  });
+
+  return result;
+}
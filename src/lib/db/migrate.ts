@@ -1,13 +1,24 @@
 // src/lib/db/migrate.ts
 import { migrate } from 'drizzle-orm/neon-serverless/migrator';
-import { db } from './db';
-import { organizations, users, buildings, contracts } from './schema';
-import bcrypt from 'bcryptjs';
+import { db, systemDb } from './db';
+import { checkDatabaseRLS } from './rls-check';
+import { organizations, users, buildings, units, contracts } from './schema';
+import { hashPassword } from './password-utils';
+
+// Shared password for the seeded demo accounts
+const DEMO_PASSWORD = 'TenantBridge2024';
 
 export async function runMigrations() {
   try {
     console.log('Running migrations...');
-    await migrate(db, { migrationsFolder: 'drizzle' });
+    await migrate(systemDb, { migrationsFolder: 'drizzle' });
+
+    // Tenant isolation depends on the RLS migration having been applied
+    const problems = await checkDatabaseRLS(systemDb);
+    if (problems.length > 0) {
+      throw new Error(`Row-level security is not applied:\n${problems.join('\n')}`);
+    }
+
     console.log('Migrations completed successfully!');
   } catch (error) {
     console.error('Migration failed:', error);
@@ -33,6 +44,8 @@ export async function seedDatabase() {
 
     console.log('Created demo organization:', demoOrg.id);
 
+    const passwordHash = await hashPassword(DEMO_PASSWORD);
+
     // Create demo landlord admin
     const [adminUser] = await db.insert(users).values({
       email: 'admin@demoproperties.com',
@@ -41,6 +54,7 @@ export async function seedDatabase() {
       organizationId: demoOrg.id,
       isActive: true,
       emailVerified: new Date(),
+      passwordHash,
     }).returning();
 
     console.log('Created admin user:', adminUser.id);
@@ -53,6 +67,7 @@ export async function seedDatabase() {
       organizationId: demoOrg.id,
       isActive: true,
       emailVerified: new Date(),
+      passwordHash,
     }).returning();
 
     console.log('Created tenant user:', tenantUser.id);
@@ -72,10 +87,20 @@ export async function seedDatabase() {
 
     console.log('Created demo building:', demoBuilding.id);
 
+    const [demoUnit] = await db.insert(units).values({
+      organizationId: demoOrg.id,
+      buildingId: demoBuilding.id,
+      unitNumber: 'A-101',
+      floor: 1,
+      livingArea: '68.50',
+      rooms: '2.5',
+    }).returning();
+
     // Create demo contract
     const [demoContract] = await db.insert(contracts).values({
       organizationId: demoOrg.id,
       buildingId: demoBuilding.id,
+      unitId: demoUnit.id,
       contractNumber: 'DEMO-2024-001',
       unitNumber: 'A-101',
       startDate: new Date('2024-01-01'),
@@ -87,6 +112,7 @@ export async function seedDatabase() {
 
     console.log('Created demo contract:', demoContract.id);
 
+    console.log(`Demo accounts use the password: ${DEMO_PASSWORD}`);
     console.log('Database seeding completed successfully!');
     
     return {
@@ -0,0 +1,209 @@
+// src/lib/db/password-utils.ts
+import { randomBytes, createHash } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { eq, and, gt, like, sql } from 'drizzle-orm';
+import { db } from './db';
+import { users, verificationTokens, type User } from './schema';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+const BCRYPT_ROUNDS = 12;
+const PASSWORD_RESET_PREFIX = 'password-reset:';
+const PASSWORD_RESET_EXPIRY_MINUTES = 60;
+
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+export const LOCKOUT_DURATION_MINUTES = 15;
+
+// Error code surfaced to the sign-in page through NextAuth
+export const ACCOUNT_LOCKED_ERROR = 'AccountLocked';
+
+export async function hashPassword(password: string): Promise<string> {
+  return await bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return await bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * Reset tokens are only stored as a SHA-256 digest, so a leaked
+ * verification_tokens row cannot be used to take over an account
+ */
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isAccountLocked(user: Pick<User, 'lockedUntil'>): boolean {
+  return !!user.lockedUntil && user.lockedUntil > new Date();
+}
+
+/**
+ * Register a failed sign-in attempt and lock the account once the limit is reached
+ */
+export async function recordFailedLogin(userId: string): Promise<{ attempts: number; locked: boolean }> {
+  const [updated] = await db
+    .update(users)
+    .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+    .where(eq(users.id, userId))
+    .returning({ failedLoginAttempts: users.failedLoginAttempts });
+
+  const attempts = updated?.failedLoginAttempts ?? 0;
+
+  if (attempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+    const lockedUntil = new Date();
+    lockedUntil.setMinutes(lockedUntil.getMinutes() + LOCKOUT_DURATION_MINUTES);
+
+    await db
+      .update(users)
+      .set({ lockedUntil, failedLoginAttempts: 0 })
+      .where(eq(users.id, userId));
+
+    return { attempts, locked: true };
+  }
+
+  return { attempts, locked: false };
+}
+
+/**
+ * Clear lockout state after a successful sign-in
+ */
+export async function recordSuccessfulLogin(userId: string) {
+  await db
+    .update(users)
+    .set({
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      lastLoginAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * Hash and store a new password, clearing any lockout
+ */
+export async function setUserPassword(userId: string, password: string) {
+  const passwordHash = await hashPassword(password);
+
+  await db
+    .update(users)
+    .set({
+      passwordHash,
+      passwordChangedAt: new Date(),
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * Change password for a signed-in user after verifying the current one
+ */
+export async function changePassword(
+  userId: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<boolean> {
+  const [user] = await db
+    .select({ passwordHash: users.passwordHash })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user?.passwordHash) return false;
+
+  const isValid = await verifyPassword(currentPassword, user.passwordHash);
+  if (!isValid) return false;
+
+  await setUserPassword(userId, newPassword);
+  return true;
+}
+
+export function getPasswordResetUrl(token: string): string {
+  return `${APP_URL}/auth/reset-password?token=${token}`;
+}
+
+/**
+ * Create a password reset token for an active user.
+ * Returns null when no active account exists for the email.
+ */
+export async function createPasswordResetToken(email: string) {
+  const [user] = await db
+    .select({ id: users.id, email: users.email, name: users.name, isActive: users.isActive })
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  if (!user || !user.isActive) return null;
+
+  const identifier = `${PASSWORD_RESET_PREFIX}${user.email}`;
+  const token = randomBytes(32).toString('hex');
+  const expires = new Date();
+  expires.setMinutes(expires.getMinutes() + PASSWORD_RESET_EXPIRY_MINUTES);
+
+  // Only the most recent reset link stays valid
+  await db
+    .delete(verificationTokens)
+    .where(eq(verificationTokens.identifier, identifier));
+
+  await db
+    .insert(verificationTokens)
+    .values({
+      identifier,
+      token: hashResetToken(token),
+      expires,
+    });
+
+  return {
+    token,
+    url: getPasswordResetUrl(token),
+    email: user.email,
+    name: user.name,
+    expires,
+  };
+}
+
+/**
+ * Resolve a password reset token to the email it was issued for
+ */
+export async function validatePasswordResetToken(token: string): Promise<string | null> {
+  const [resetToken] = await db
+    .select()
+    .from(verificationTokens)
+    .where(
+      and(
+        eq(verificationTokens.token, hashResetToken(token)),
+        like(verificationTokens.identifier, `${PASSWORD_RESET_PREFIX}%`),
+        gt(verificationTokens.expires, new Date())
+      )
+    )
+    .limit(1);
+
+  if (!resetToken) return null;
+
+  return resetToken.identifier.slice(PASSWORD_RESET_PREFIX.length);
+}
+
+/**
+ * Set a new password using a reset token. The token is consumed on success.
+ */
+export async function resetPasswordWithToken(token: string, newPassword: string): Promise<boolean> {
+  const email = await validatePasswordResetToken(token);
+  if (!email) return false;
+
+  const [user] = await db
+    .select({ id: users.id, isActive: users.isActive })
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  if (!user || !user.isActive) return false;
+
+  await setUserPassword(user.id, newPassword);
+
+  await db
+    .delete(verificationTokens)
+    .where(eq(verificationTokens.identifier, `${PASSWORD_RESET_PREFIX}${email}`));
+
+  return true;
+}
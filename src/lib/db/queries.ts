@@ -11,6 +11,7 @@ import {
   consumptionRecords,
   documents
 } from './schema';
+import { LedgerService } from './services/ledger';
 
 /**
  * Complex queries that join multiple tables and provide rich data
@@ -73,6 +74,9 @@ export class QueryBuilder {
       .groupBy(buildings.id, buildings.name, buildings.totalUnits)
       .orderBy(desc(buildings.createdAt));
 
+    // Get rent arrears
+    const arrears = await LedgerService.getArrearsSummary(organizationId);
+
     return {
       stats: {
         totalBuildings: Number(stats?.totalBuildings || 0),
@@ -92,6 +96,7 @@ export class QueryBuilder {
           rate: b.totalUnits > 0 ? Math.round((Number(b.activeContracts || 0) / b.totalUnits) * 100) : 0,
         },
       })),
+      arrears,
     };
   }
 
@@ -526,6 +531,9 @@ export class QueryBuilder {
       .from(tickets)
       .where(eq(tickets.contractId, contractId));
 
+    // Get rent ledger balance
+    const ledger = await LedgerService.getContractBalance(contractId, organizationId);
+
     const monthlyRent = Number(contractData.contract.rentAmount || 0);
     const totalConsumptionCost = Number(consumptionByType.reduce((sum, c) => sum + Number(c.totalCost || 0), 0));
     const totalTicketCost = Number(ticketCosts?.actualCost || 0);
@@ -538,7 +546,10 @@ export class QueryBuilder {
         totalConsumptionCost,
         totalTicketCost,
         totalOperationalCost: totalConsumptionCost + totalTicketCost,
+        outstandingBalance: ledger?.balance ?? 0,
+        arrears: ledger?.arrears ?? 0,
       },
+      ledger,
       consumptionByType: consumptionByType.map(c => ({
         consumptionType: c.consumptionType,
         totalCost: Number(c.totalCost || 0),
@@ -0,0 +1,107 @@
+// src/lib/db/rls-check.ts
+import { readFileSync } from 'fs';
+import path from 'path';
+import { sql, is } from 'drizzle-orm';
+import { PgTable, getTableConfig } from 'drizzle-orm/pg-core';
+import * as schema from './schema';
+import type { Database } from './db';
+
+const MIGRATIONS_FOLDER = 'drizzle';
+
+/**
+ * Tables that hold organization data and therefore must be protected by RLS:
+ * every table with an organization_id column, plus organizations itself
+ */
+export function getTenantScopedTables(): string[] {
+  const tables = (Object.values(schema) as unknown[])
+    .filter((value): value is PgTable => is(value, PgTable))
+    .map(table => getTableConfig(table))
+    .filter(config =>
+      config.name === 'organizations' ||
+      config.columns.some(column => column.name === 'organization_id')
+    )
+    .map(config => config.name);
+
+  return Array.from(new Set(tables)).sort();
+}
+
+/**
+ * Read the SQL of every migration registered in the drizzle journal, in order
+ */
+function readJournaledMigrations(migrationsFolder: string): string {
+  const journal = JSON.parse(
+    readFileSync(path.join(migrationsFolder, 'meta', '_journal.json'), 'utf8')
+  ) as { entries: Array<{ tag: string }> };
+
+  return journal.entries
+    .map(entry => readFileSync(path.join(migrationsFolder, `${entry.tag}.sql`), 'utf8'))
+    .join('\n');
+}
+
+/**
+ * Verify that the migration pipeline enables RLS and defines a policy for each
+ * tenant-scoped table. Only journaled migrations count; loose SQL files are never applied.
+ */
+export function checkMigrationRLS(migrationsFolder = MIGRATIONS_FOLDER): string[] {
+  const migrations = readJournaledMigrations(migrationsFolder);
+  const problems: string[] = [];
+
+  for (const table of getTenantScopedTables()) {
+    const name = `"?${table}"?`;
+
+    if (!new RegExp(`ALTER TABLE\\s+(?:"?public"?\\.)?${name}\\s+ENABLE ROW LEVEL SECURITY`, 'i').test(migrations)) {
+      problems.push(`${table}: row-level security is not enabled by any migration`);
+    }
+    if (!new RegExp(`CREATE POLICY\\s+"?[\\w-]+"?\\s+ON\\s+(?:"?public"?\\.)?${name}\\s`, 'i').test(migrations)) {
+      problems.push(`${table}: no RLS policy is created by any migration`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Verify against a live database that RLS is enabled with at least one policy
+ * on every tenant-scoped table
+ */
+export async function checkDatabaseRLS(executor: Pick<Database, 'execute'>): Promise<string[]> {
+  const result = await executor.execute(sql`
+    SELECT
+      c.relname AS table_name,
+      c.relrowsecurity AS rls_enabled,
+      (SELECT COUNT(*) FROM pg_policies p WHERE p.schemaname = 'public' AND p.tablename = c.relname) AS policy_count
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind = 'r'
+  `);
+
+  const rows = result.rows as Array<{ table_name: string; rls_enabled: boolean; policy_count: string | number }>;
+  const byTable = new Map(rows.map(row => [row.table_name, row]));
+  const problems: string[] = [];
+
+  for (const table of getTenantScopedTables()) {
+    const row = byTable.get(table);
+    if (!row) {
+      problems.push(`${table}: table does not exist`);
+    } else if (!row.rls_enabled) {
+      problems.push(`${table}: row-level security is not enabled`);
+    } else if (Number(row.policy_count) === 0) {
+      problems.push(`${table}: no RLS policy exists`);
+    }
+  }
+
+  return problems;
+}
+
+// CLI script to check the migrations, e.g. in CI before deploying
+if (require.main === module) {
+  const problems = checkMigrationRLS();
+
+  if (problems.length > 0) {
+    console.error('❌ Row-level security is missing from the migrations:');
+    problems.forEach(problem => console.error(`  - ${problem}`));
+    process.exit(1);
+  }
+
+  console.log(`✅ Row-level security covers all ${getTenantScopedTables().length} tenant-scoped tables`);
+}
@@ -1,5 +1,28 @@
-import { pgTable, text, timestamp, uuid, integer, boolean, numeric, index } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, text, timestamp, uuid, integer, boolean, numeric, index, uniqueIndex, jsonb, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+
+// Accounts of the DATEV export, mapped to account numbers of the chosen chart of accounts
+export const DATEV_ACCOUNT_KEYS = [
+  'bank',
+  'cash',
+  'receivables',
+  'payables',
+  'deposits',
+  'rent_income',
+  'operating_cost_income',
+  'fee_income',
+  'other_income',
+  'operating_costs',
+  'maintenance',
+  'administration',
+  'capital_expenditure',
+  'other_expenses',
+  'consumption',
+] as const;
+
+export type DatevAccountKey = typeof DATEV_ACCOUNT_KEYS[number];
+
+export type DatevAccounts = Partial<Record<DatevAccountKey, string>>;
 
 // Organizations table - main tenant isolation
 export const organizations = pgTable('organizations', {
@@ -12,6 +35,18 @@ export const organizations = pgTable('organizations', {
   city: text('city'),
   postalCode: text('postal_code'),
   country: text('country').default('Germany'),
+  // SEPA direct debit creditor settings
+  sepaCreditorId: text('sepa_creditor_id'),
+  bankAccountHolder: text('bank_account_holder'),
+  bankIban: text('bank_iban'),
+  bankBic: text('bank_bic'),
+  // DATEV export settings
+  datevConsultantNumber: text('datev_consultant_number'), // Beraternummer
+  datevClientNumber: text('datev_client_number'), // Mandantennummer
+  datevChartOfAccounts: text('datev_chart_of_accounts', { enum: ['SKR03', 'SKR04'] }).default('SKR03').notNull(),
+  datevFiscalYearStart: integer('datev_fiscal_year_start').default(1).notNull(), // Month the fiscal year starts in
+  // Accounts differing from the defaults of the chart of accounts
+  datevAccounts: jsonb('datev_accounts').$type<DatevAccounts>().default({}).notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
@@ -28,6 +63,12 @@ export const users = pgTable('users', {
   role: text('role', { enum: ['landlord_admin', 'tenant'] }).notNull(),
   organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
   isActive: boolean('is_active').default(true),
+  // Credentials (bcrypt hash) and lockout state
+  passwordHash: text('password_hash'),
+  passwordChangedAt: timestamp('password_changed_at', { withTimezone: true }),
+  failedLoginAttempts: integer('failed_login_attempts').default(0).notNull(),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
@@ -76,6 +117,7 @@ export const buildings = pgTable('buildings', {
   postalCode: text('postal_code').notNull(),
   country: text('country').default('Germany'),
   totalUnits: integer('total_units').notNull(),
+  totalLivingArea: numeric('total_living_area', { precision: 10, scale: 2 }), // m², vacant units included
   yearBuilt: integer('year_built'),
   propertyType: text('property_type', { 
     enum: ['apartment', 'house', 'commercial', 'mixed'] 
@@ -86,25 +128,66 @@ export const buildings = pgTable('buildings', {
   orgIdx: index('building_org_idx').on(table.organizationId),
 }));
 
+export const UNIT_TYPES = ['apartment', 'commercial', 'parking', 'storage', 'other'] as const;
+
+export type UnitType = typeof UNIT_TYPES[number];
+
+// Rentable units of a building. A unit is vacant on the days no contract covers.
+export const units = pgTable('units', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  buildingId: uuid('building_id').references(() => buildings.id).notNull(),
+  unitNumber: text('unit_number').notNull(), // e.g. "3" or "EG links"
+  type: text('type', { enum: UNIT_TYPES }).default('apartment').notNull(),
+  floor: integer('floor'), // 0 for the ground floor, negative for basements
+  livingArea: numeric('living_area', { precision: 8, scale: 2 }), // m²
+  rooms: numeric('rooms', { precision: 3, scale: 1 }),
+  features: jsonb('features').$type<string[]>().default([]).notNull(), // e.g. balcony, fitted kitchen
+  description: text('description'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('unit_org_idx').on(table.organizationId),
+  buildingNumberIdx: uniqueIndex('unit_building_number_idx').on(table.buildingId, table.unitNumber),
+}));
+
+// How the rent of a contract develops: fixed with manual increases, graduated
+// steps agreed in advance (Staffelmiete, § 557a BGB) or indexed to the consumer
+// price index (Indexmiete, § 557b BGB)
+export const RENT_TYPES = ['fixed', 'graduated', 'index'] as const;
+
+export type RentType = typeof RENT_TYPES[number];
+
 // Contracts table
 export const contracts = pgTable('contracts', {
   id: uuid('id').defaultRandom().primaryKey(),
   organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
   buildingId: uuid('building_id').references(() => buildings.id).notNull(),
+  unitId: uuid('unit_id').references(() => units.id),
   contractNumber: text('contract_number').notNull(),
-  unitNumber: text('unit_number').notNull(),
+  unitNumber: text('unit_number').notNull(), // Copied from the unit
   startDate: timestamp('start_date', { withTimezone: true }).notNull(),
   endDate: timestamp('end_date', { withTimezone: true }),
-  rentAmount: numeric('rent_amount', { precision: 10, scale: 2 }).notNull(),
+  rentAmount: numeric('rent_amount', { precision: 10, scale: 2 }).notNull(), // Current rent, see rent_adjustments
+  rentType: text('rent_type', { enum: RENT_TYPES }).default('fixed').notNull(),
+  indexBasePeriod: text('index_base_period'), // Price index month (YYYY-MM) the current rent is based on
   depositAmount: numeric('deposit_amount', { precision: 10, scale: 2 }),
+  operatingCostAdvance: numeric('operating_cost_advance', { precision: 10, scale: 2 }), // Monthly advance payment
+  livingArea: numeric('living_area', { precision: 8, scale: 2 }), // m²
+  occupants: integer('occupants'),
   isActive: boolean('is_active').default(true),
   contractFileUrl: text('contract_file_url'),
+  // Dunning is paused while set, e.g. during a dispute; it resumes after the optional end date
+  dunningPausedAt: timestamp('dunning_paused_at', { withTimezone: true }),
+  dunningPausedUntil: timestamp('dunning_paused_until', { withTimezone: true }),
+  dunningPauseReason: text('dunning_pause_reason'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
   orgIdx: index('contract_org_idx').on(table.organizationId),
   buildingIdx: index('contract_building_idx').on(table.buildingId),
   contractNumberIdx: index('contract_number_idx').on(table.contractNumber),
+  unitIdx: index('contract_unit_idx').on(table.unitId),
 }));
 
 // Tenant-Contract junction table (multiple tenants per contract)
@@ -174,6 +257,121 @@ export const consumptionRecords = pgTable('consumption_records', {
   periodIdx: index('consumption_period_idx').on(table.period),
 }));
 
+export const CONSUMPTION_TYPES = ['electricity', 'gas', 'water', 'heating', 'internet', 'other'] as const;
+
+export type ConsumptionType = typeof CONSUMPTION_TYPES[number];
+
+export const CONSUMPTION_ANOMALY_TYPES = ['spike', 'negative_delta', 'flat_usage'] as const;
+
+export type ConsumptionAnomalyType = typeof CONSUMPTION_ANOMALY_TYPES[number];
+
+export const CONSUMPTION_ANOMALY_STATUSES = ['open', 'acknowledged', 'dismissed', 'resolved'] as const;
+
+export type ConsumptionAnomalyStatus = typeof CONSUMPTION_ANOMALY_STATUSES[number];
+
+// Unusual consumption records found by the anomaly detector, one per record and type
+export const consumptionAnomalies = pgTable('consumption_anomalies', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  consumptionRecordId: uuid('consumption_record_id').references(() => consumptionRecords.id, { onDelete: 'cascade' }).notNull(),
+  consumptionType: text('consumption_type', { enum: CONSUMPTION_TYPES }).notNull(),
+  type: text('type', { enum: CONSUMPTION_ANOMALY_TYPES }).notNull(),
+  period: text('period').notNull(), // Format: YYYY-MM
+  value: numeric('value', { precision: 12, scale: 3 }).notNull(),
+  baseline: numeric('baseline', { precision: 12, scale: 3 }), // Average the value was compared with
+  message: text('message').notNull(),
+  status: text('status', { enum: CONSUMPTION_ANOMALY_STATUSES }).default('open').notNull(),
+  ticketId: uuid('ticket_id').references(() => tickets.id, { onDelete: 'set null' }),
+  reviewedById: uuid('reviewed_by_id').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  recordTypeIdx: uniqueIndex('consumption_anomaly_record_type_idx').on(table.consumptionRecordId, table.type),
+  orgStatusIdx: index('consumption_anomaly_org_status_idx').on(table.organizationId, table.status),
+  contractIdx: index('consumption_anomaly_contract_idx').on(table.contractId),
+}));
+
+// Meters of a building, or of one of its units. A replaced meter keeps its readings
+// and points to its successor through replaces_meter_id of the new meter.
+export const meters = pgTable('meters', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  buildingId: uuid('building_id').references(() => buildings.id).notNull(),
+  unitId: uuid('unit_id').references(() => units.id), // Null for meters of the whole building
+  meterNumber: text('meter_number').notNull(),
+  consumptionType: text('consumption_type', { enum: CONSUMPTION_TYPES }).notNull(),
+  unit: text('unit').notNull(), // kWh, m³, etc.
+  digits: integer('digits'), // Digits before the decimal point; the counter rolls over after 10^digits
+  location: text('location'), // e.g. "Keller, Raum 2"
+  installedAt: timestamp('installed_at', { withTimezone: true }).notNull(),
+  removedAt: timestamp('removed_at', { withTimezone: true }),
+  replacesMeterId: uuid('replaces_meter_id').references((): AnyPgColumn => meters.id),
+  calibrationYear: integer('calibration_year'),
+  calibrationValidUntil: timestamp('calibration_valid_until', { withTimezone: true }), // End of the Eichfrist
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('meter_org_idx').on(table.organizationId),
+  buildingIdx: index('meter_building_idx').on(table.buildingId),
+  unitIdx: index('meter_unit_idx').on(table.unitId),
+  buildingNumberIdx: uniqueIndex('meter_building_number_idx').on(table.buildingId, table.meterNumber),
+}));
+
+// Initial readings start a meter, final readings end it when it is replaced
+export const METER_READING_TYPES = ['initial', 'regular', 'final'] as const;
+
+export type MeterReadingType = typeof METER_READING_TYPES[number];
+
+// Cumulative meter values. The consumption since the previous reading is stored with
+// the reading and recorded for the contract of the unit.
+export const meterReadings = pgTable('meter_readings', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  meterId: uuid('meter_id').references(() => meters.id, { onDelete: 'cascade' }).notNull(),
+  type: text('type', { enum: METER_READING_TYPES }).default('regular').notNull(),
+  readingDate: timestamp('reading_date', { withTimezone: true }).notNull(),
+  value: numeric('value', { precision: 14, scale: 3 }).notNull(),
+  consumption: numeric('consumption', { precision: 14, scale: 3 }), // Null for initial readings
+  rollover: boolean('rollover').default(false).notNull(), // The counter passed its maximum since the previous reading
+  consumptionRecordId: uuid('consumption_record_id').references(() => consumptionRecords.id, { onDelete: 'set null' }),
+  note: text('note'),
+  createdById: uuid('created_by_id').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  meterDateIdx: index('meter_reading_meter_date_idx').on(table.meterId, table.readingDate),
+}));
+
+export const METER_READING_SUBMISSION_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type MeterReadingSubmissionStatus = typeof METER_READING_SUBMISSION_STATUSES[number];
+
+// Meter values tenants submit with a photo of the meter. Approved submissions are
+// recorded as meter readings.
+export const meterReadingSubmissions = pgTable('meter_reading_submissions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  meterId: uuid('meter_id').references(() => meters.id, { onDelete: 'cascade' }).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  submittedById: uuid('submitted_by_id').references(() => users.id).notNull(),
+  readingDate: timestamp('reading_date', { withTimezone: true }).notNull(),
+  value: numeric('value', { precision: 14, scale: 3 }).notNull(),
+  note: text('note'),
+  photoDocumentId: uuid('photo_document_id').references((): AnyPgColumn => documents.id, { onDelete: 'set null' }),
+  status: text('status', { enum: METER_READING_SUBMISSION_STATUSES }).default('pending').notNull(),
+  warnings: jsonb('warnings').$type<string[]>().default([]).notNull(), // Plausibility findings for the review
+  reviewedById: uuid('reviewed_by_id').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  rejectionReason: text('rejection_reason'),
+  meterReadingId: uuid('meter_reading_id').references(() => meterReadings.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgStatusIdx: index('meter_submission_org_status_idx').on(table.organizationId, table.status),
+  meterIdx: index('meter_submission_meter_idx').on(table.meterId),
+}));
+
 // Documents table
 export const documents = pgTable('documents', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -211,11 +409,717 @@ export const invitationTokens = pgTable('invitation_tokens', {
   isMainTenant: boolean('is_main_tenant').default(false),
   expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
   usedAt: timestamp('used_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  revokedById: uuid('revoked_by_id').references(() => users.id),
   createdById: uuid('created_by_id').references(() => users.id).notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
   tokenIdx: index('invitation_token_idx').on(table.token),
   orgIdx: index('invitation_org_idx').on(table.organizationId),
+  contractIdx: index('invitation_contract_idx').on(table.contractId),
+}));
+
+// Outbound email queue, drained by the mail worker with retries
+export const emailOutbox = pgTable('email_outbox', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id),
+  template: text('template', {
+    enum: ['invitation', 'ticket_status_changed', 'contract_expiring', 'meter_calibration_due', 'consumption_anomaly', 'password_reset']
+  }).notNull(),
+  to: text('to').notNull(),
+  dedupeKey: text('dedupe_key').unique(), // Prevents queueing the same notification twice
+  subject: text('subject').notNull(),
+  html: text('html').notNull(),
+  text: text('text').notNull(),
+  attachments: jsonb('attachments').$type<Array<{
+    filename: string;
+    content: string; // base64
+    contentType: string;
+    cid?: string;
+  }>>(),
+  status: text('status', {
+    enum: ['pending', 'sending', 'sent', 'failed']
+  }).default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(5).notNull(),
+  lastError: text('last_error'),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow().notNull(),
+  sentAt: timestamp('sent_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('email_outbox_org_idx').on(table.organizationId),
+  statusIdx: index('email_outbox_status_idx').on(table.status, table.nextAttemptAt),
+}));
+
+// Permissions an API key can be granted, as <resource>:<access>
+export const API_KEY_PERMISSIONS = [
+  'buildings:read',
+  'buildings:write',
+  'contracts:read',
+  'contracts:write',
+  'tickets:read',
+  'tickets:write',
+  'consumption:read',
+  'consumption:write',
+  'documents:read',
+  'documents:write',
+  'users:read',
+  'users:write',
+  'invitations:read',
+  'invitations:write',
+  'audit-events:read',
+  'ledger:read',
+  'ledger:write',
+  'bank-statements:read',
+  'bank-statements:write',
+  'sepa:read',
+  'sepa:write',
+  'operating-costs:read',
+  'operating-costs:write',
+  'rent-adjustments:read',
+  'rent-adjustments:write',
+  'deposits:read',
+  'deposits:write',
+  'dunning:read',
+  'dunning:write',
+  'vendors:read',
+  'vendors:write',
+  'vendor-invoices:read',
+  'vendor-invoices:write',
+  'datev:read',
+  'datev:write',
+  'units:read',
+  'units:write',
+  'meters:read',
+  'meters:write',
+  'meter-submissions:read',
+  'meter-submissions:write',
+  'consumption-anomalies:read',
+  'consumption-anomalies:write',
+] as const;
+
+export type ApiKeyPermission = typeof API_KEY_PERMISSIONS[number];
+
+// Organization API keys for machine-to-machine access; only a SHA-256 digest of the key is stored
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  name: text('name').notNull(),
+  keyPrefix: text('key_prefix').notNull(), // First characters of the key, to tell keys apart
+  keyHash: text('key_hash').notNull().unique(),
+  permissions: text('permissions').array().$type<ApiKeyPermission[]>().notNull(),
+  createdById: uuid('created_by_id').references(() => users.id).notNull(),
+  rotatedFromId: uuid('rotated_from_id').references((): AnyPgColumn => apiKeys.id),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }), // Never expires when null
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  revokedById: uuid('revoked_by_id').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('api_key_org_idx').on(table.organizationId),
+  keyHashIdx: index('api_key_hash_idx').on(table.keyHash),
+}));
+
+// Domain events that organizations can subscribe webhooks to
+export const WEBHOOK_EVENTS = [
+  'ticket.created',
+  'ticket.status_changed',
+  'contract.terminated',
+  'consumption.recorded',
+  'consumption.anomaly_detected',
+  'invitation.accepted',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Endpoints of external systems subscribed to an organization's events
+export const webhookSubscriptions = pgTable('webhook_subscriptions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  url: text('url').notNull(),
+  description: text('description'),
+  events: text('events').array().$type<WebhookEvent[]>().notNull(),
+  secret: text('secret').notNull(), // Signs payloads, so it is kept retrievable
+  isActive: boolean('is_active').default(true).notNull(),
+  createdById: uuid('created_by_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('webhook_subscription_org_idx').on(table.organizationId),
+}));
+
+// Delivery log for webhook events, drained by the webhook worker with retries
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  subscriptionId: uuid('subscription_id').references(() => webhookSubscriptions.id, { onDelete: 'cascade' }).notNull(),
+  event: text('event', { enum: WEBHOOK_EVENTS }).notNull(),
+  eventId: uuid('event_id').notNull(), // Shared by all deliveries of the same event
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  status: text('status', {
+    enum: ['pending', 'delivering', 'delivered', 'failed']
+  }).default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(8).notNull(),
+  responseStatus: integer('response_status'),
+  lastError: text('last_error'),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow().notNull(),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('webhook_delivery_org_idx').on(table.organizationId),
+  subscriptionIdx: index('webhook_delivery_subscription_idx').on(table.subscriptionId, table.createdAt),
+  statusIdx: index('webhook_delivery_status_idx').on(table.status, table.nextAttemptAt),
+}));
+
+export const LEDGER_CATEGORIES = ['rent', 'operating_costs', 'deposit', 'fee', 'other'] as const;
+
+export type LedgerCategory = typeof LEDGER_CATEGORIES[number];
+
+// Rent ledger of a contract. Charges raise what the tenants owe, payments and credits lower it.
+export const ledgerEntries = pgTable('ledger_entries', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  // Co-tenant who paid or is credited; charges and unattributed entries are split by share
+  tenantId: uuid('tenant_id').references(() => users.id),
+  entryType: text('entry_type', { enum: ['charge', 'payment', 'credit'] }).notNull(),
+  category: text('category', { enum: LEDGER_CATEGORIES }).default('rent').notNull(),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull(), // Always positive
+  period: text('period'), // YYYY-MM the entry relates to
+  dueDate: timestamp('due_date', { withTimezone: true }), // Charges only
+  bookingDate: timestamp('booking_date', { withTimezone: true }).defaultNow().notNull(), // Value date of payments
+  paymentMethod: text('payment_method', {
+    enum: ['bank_transfer', 'sepa_direct_debit', 'cash', 'other']
+  }),
+  reference: text('reference'),
+  description: text('description'),
+  createdById: uuid('created_by_id').references(() => users.id), // Null for generated charges
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('ledger_entry_org_idx').on(table.organizationId),
+  contractIdx: index('ledger_entry_contract_idx').on(table.contractId, table.bookingDate),
+  tenantIdx: index('ledger_entry_tenant_idx').on(table.tenantId),
+  // Monthly rent is charged once per contract and period, so charge generation can be re-run
+  rentChargeIdx: uniqueIndex('ledger_entry_rent_charge_idx')
+    .on(table.contractId, table.period)
+    .where(sql`entry_type = 'charge' AND category = 'rent'`),
+}));
+
+// Imported bank statement files (CAMT.053 or MT940)
+export const bankStatements = pgTable('bank_statements', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  format: text('format', { enum: ['camt053', 'mt940'] }).notNull(),
+  fileName: text('file_name'),
+  statementId: text('statement_id'), // Identifier assigned by the bank
+  accountIban: text('account_iban'),
+  currency: text('currency'),
+  openingBalance: numeric('opening_balance', { precision: 12, scale: 2 }),
+  closingBalance: numeric('closing_balance', { precision: 12, scale: 2 }),
+  importedById: uuid('imported_by_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('bank_statement_org_idx').on(table.organizationId),
+}));
+
+// Bookings of imported statements; credits are matched to contracts and booked as ledger payments
+export const bankTransactions = pgTable('bank_transactions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  statementId: uuid('statement_id').references(() => bankStatements.id, { onDelete: 'cascade' }).notNull(),
+  importHash: text('import_hash').notNull(), // Identifies the booking across overlapping statements
+  bookingDate: timestamp('booking_date', { withTimezone: true }).notNull(),
+  valueDate: timestamp('value_date', { withTimezone: true }),
+  creditDebit: text('credit_debit', { enum: ['credit', 'debit'] }).notNull(),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull(), // Always positive
+  currency: text('currency').default('EUR').notNull(),
+  reference: text('reference'), // Remittance information
+  counterpartyName: text('counterparty_name'),
+  counterpartyIban: text('counterparty_iban'),
+  endToEndId: text('end_to_end_id'),
+  bankReference: text('bank_reference'),
+  status: text('status', { enum: ['unmatched', 'matched', 'ignored'] }).default('unmatched').notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id),
+  // Best candidate for items that could not be matched automatically
+  suggestedContractId: uuid('suggested_contract_id').references(() => contracts.id),
+  matchScore: integer('match_score'),
+  ledgerEntryId: uuid('ledger_entry_id').references(() => ledgerEntries.id, { onDelete: 'set null' }),
+  matchedById: uuid('matched_by_id').references(() => users.id), // Null when matched automatically
+  matchedAt: timestamp('matched_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgStatusIdx: index('bank_transaction_org_status_idx').on(table.organizationId, table.status),
+  statementIdx: index('bank_transaction_statement_idx').on(table.statementId),
+  importHashIdx: uniqueIndex('bank_transaction_import_hash_idx').on(table.organizationId, table.importHash),
+}));
+
+// SEPA direct debit mandates signed by a tenant for the rent of a contract
+export const sepaMandates = pgTable('sepa_mandates', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  tenantId: uuid('tenant_id').references(() => users.id).notNull(),
+  mandateReference: text('mandate_reference').notNull(),
+  debtorName: text('debtor_name').notNull(),
+  iban: text('iban').notNull(),
+  bic: text('bic'),
+  signatureDate: timestamp('signature_date', { withTimezone: true }).notNull(),
+  status: text('status', { enum: ['active', 'revoked'] }).default('active').notNull(),
+  // Null until the first collection, which is sent as FRST; later ones as RCUR
+  lastCollectedAt: timestamp('last_collected_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdById: uuid('created_by_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('sepa_mandate_org_idx').on(table.organizationId),
+  contractIdx: index('sepa_mandate_contract_idx').on(table.contractId),
+  referenceIdx: uniqueIndex('sepa_mandate_reference_idx').on(table.organizationId, table.mandateReference),
+}));
+
+// One collection of a direct debit batch
+export interface DirectDebitItem {
+  mandateId: string;
+  contractId: string;
+  tenantId: string;
+  endToEndId: string;
+  amount: string;
+  sequenceType: 'FRST' | 'RCUR';
+}
+
+// Generated pain.008 files of the monthly rent collection
+export const directDebitBatches = pgTable('direct_debit_batches', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  messageId: text('message_id').notNull().unique(),
+  period: text('period').notNull(), // YYYY-MM of the collected rent
+  collectionDate: timestamp('collection_date', { withTimezone: true }).notNull(),
+  transactionCount: integer('transaction_count').notNull(),
+  totalAmount: numeric('total_amount', { precision: 12, scale: 2 }).notNull(),
+  items: jsonb('items').$type<DirectDebitItem[]>().notNull(),
+  xml: text('xml').notNull(),
+  createdById: uuid('created_by_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgPeriodIdx: index('direct_debit_batch_org_period_idx').on(table.organizationId, table.period),
+}));
+
+// Operating cost types of § 2 BetrKV
+export const OPERATING_COST_CATEGORIES = [
+  'property_tax',
+  'water_supply',
+  'sewage',
+  'heating',
+  'hot_water',
+  'elevator',
+  'street_cleaning',
+  'waste_disposal',
+  'building_cleaning',
+  'garden',
+  'lighting',
+  'chimney_cleaning',
+  'insurance',
+  'caretaker',
+  'cable_tv',
+  'laundry',
+  'other',
+] as const;
+
+export type OperatingCostCategory = typeof OPERATING_COST_CATEGORIES[number];
+
+// How a cost is split between the units of a building. Heating splits into a base
+// share by living area and a consumption share (§§ 7, 8 HeizkostenV).
+export const ALLOCATION_KEYS = ['living_area', 'persons', 'units', 'consumption', 'heating'] as const;
+
+export type AllocationKey = typeof ALLOCATION_KEYS[number];
+
+// Yearly operating cost settlement of a building
+export const operatingCostSettlements = pgTable('operating_cost_settlements', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  buildingId: uuid('building_id').references(() => buildings.id).notNull(),
+  periodStart: timestamp('period_start', { withTimezone: true }).notNull(),
+  periodEnd: timestamp('period_end', { withTimezone: true }).notNull(), // Last day of the period
+  status: text('status', { enum: ['draft', 'finalized'] }).default('draft').notNull(),
+  totalCosts: numeric('total_costs', { precision: 12, scale: 2 }).default('0.00').notNull(),
+  // Share of vacant units and unoccupied time, borne by the landlord
+  landlordShare: numeric('landlord_share', { precision: 12, scale: 2 }).default('0.00').notNull(),
+  // Percentage of heating costs split by consumption, 50 to 70
+  heatingConsumptionShare: integer('heating_consumption_share').default(70).notNull(),
+  // CO2 emissions (kg) and costs of the heating fuel, split per CO2KostAufG
+  co2Emissions: numeric('co2_emissions', { precision: 12, scale: 2 }),
+  co2Costs: numeric('co2_costs', { precision: 12, scale: 2 }),
+  // Set on calculation: kg CO2 per m² and year and the landlord's resulting percentage
+  co2EmissionsPerArea: numeric('co2_emissions_per_area', { precision: 8, scale: 1 }),
+  co2LandlordPercentage: integer('co2_landlord_percentage'),
+  calculatedAt: timestamp('calculated_at', { withTimezone: true }),
+  finalizedAt: timestamp('finalized_at', { withTimezone: true }),
+  createdById: uuid('created_by_id').references(() => users.id).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('operating_cost_settlement_org_idx').on(table.organizationId),
+  buildingPeriodIdx: uniqueIndex('operating_cost_settlement_building_period_idx').on(table.buildingId, table.periodStart),
+}));
+
+// Building-level costs of a settlement
+export const operatingCostItems = pgTable('operating_cost_items', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  settlementId: uuid('settlement_id').references(() => operatingCostSettlements.id, { onDelete: 'cascade' }).notNull(),
+  category: text('category', { enum: OPERATING_COST_CATEGORIES }).notNull(),
+  description: text('description'),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+  allocationKey: text('allocation_key', { enum: ALLOCATION_KEYS }).notNull(),
+  // Metered consumption the costs are split by, for the consumption key
+  consumptionType: text('consumption_type', {
+    enum: ['electricity', 'gas', 'water', 'heating', 'internet', 'other']
+  }),
+  // Vendor invoice the cost was taken over from
+  vendorInvoiceId: uuid('vendor_invoice_id').references(() => vendorInvoices.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  settlementIdx: index('operating_cost_item_settlement_idx').on(table.settlementId),
+  vendorInvoiceIdx: index('operating_cost_item_vendor_invoice_idx').on(table.vendorInvoiceId),
+}));
+
+// One cost item as allocated to a contract
+export interface OperatingCostLine {
+  itemId: string;
+  category: OperatingCostCategory;
+  description: string | null;
+  allocationKey: AllocationKey;
+  // Base or consumption part of a heating cost, with its percentage of the cost
+  heatingPart?: { part: 'base' | 'consumption'; percentage: number };
+  estimated?: boolean; // Consumption estimated for a missing meter (§ 9a HeizkostenV)
+  totalAmount: string;
+  totalBasis: number; // e.g. m² of the building, weighted by time where it applies
+  basis: number; // Share of the contract in the same unit
+  amount: string;
+}
+
+// Statement of a contract within a settlement
+export const operatingCostStatements = pgTable('operating_cost_statements', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  settlementId: uuid('settlement_id').references(() => operatingCostSettlements.id, { onDelete: 'cascade' }).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  occupiedFrom: timestamp('occupied_from', { withTimezone: true }).notNull(),
+  occupiedTo: timestamp('occupied_to', { withTimezone: true }).notNull(),
+  lines: jsonb('lines').$type<OperatingCostLine[]>().notNull(),
+  allocatedCosts: numeric('allocated_costs', { precision: 12, scale: 2 }).notNull(), // Net of the CO2 landlord share
+  co2Costs: numeric('co2_costs', { precision: 12, scale: 2 }).default('0.00').notNull(), // CO2 costs in the heating costs
+  co2LandlordShare: numeric('co2_landlord_share', { precision: 12, scale: 2 }).default('0.00').notNull(),
+  advancePayments: numeric('advance_payments', { precision: 12, scale: 2 }).notNull(),
+  balance: numeric('balance', { precision: 12, scale: 2 }).notNull(), // Positive: due from the tenants, negative: refund
+  // Charge or credit booked when the settlement is finalized
+  ledgerEntryId: uuid('ledger_entry_id').references(() => ledgerEntries.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  settlementIdx: index('operating_cost_statement_settlement_idx').on(table.settlementId),
+  contractIdx: index('operating_cost_statement_contract_idx').on(table.contractId),
+}));
+
+export const RENT_ADJUSTMENT_TYPES = ['graduated', 'index', 'manual'] as const;
+
+export type RentAdjustmentType = typeof RENT_ADJUSTMENT_TYPES[number];
+
+// Rent history of a contract: every change of the rent, past and scheduled. Changes
+// take effect on the first day of a month; applied ones are copied to contracts.rent_amount.
+export const rentAdjustments = pgTable('rent_adjustments', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  type: text('type', { enum: RENT_ADJUSTMENT_TYPES }).notNull(),
+  status: text('status', { enum: ['scheduled', 'applied', 'cancelled'] }).default('scheduled').notNull(),
+  effectiveDate: timestamp('effective_date', { withTimezone: true }).notNull(),
+  previousRent: numeric('previous_rent', { precision: 10, scale: 2 }).notNull(),
+  newRent: numeric('new_rent', { precision: 10, scale: 2 }).notNull(),
+  // Price index values the change is calculated from, for index rent
+  baseIndexPeriod: text('base_index_period'),
+  baseIndexValue: numeric('base_index_value', { precision: 6, scale: 1 }),
+  indexPeriod: text('index_period'),
+  indexValue: numeric('index_value', { precision: 6, scale: 1 }),
+  reason: text('reason'),
+  noticeDate: timestamp('notice_date', { withTimezone: true }), // Date of the letter announcing the change
+  appliedAt: timestamp('applied_at', { withTimezone: true }),
+  createdById: uuid('created_by_id').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('rent_adjustment_org_idx').on(table.organizationId),
+  contractIdx: index('rent_adjustment_contract_idx').on(table.contractId, table.effectiveDate),
+}));
+
+// Monthly consumer price index values (VPI, Destatis) that index rents are adjusted against
+export const priceIndexValues = pgTable('price_index_values', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  period: text('period').notNull(), // YYYY-MM
+  value: numeric('value', { precision: 6, scale: 1 }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgPeriodIdx: uniqueIndex('price_index_org_period_idx').on(table.organizationId, table.period),
+}));
+
+// Security deposit (Mietkaution) of a contract, held apart from the landlord's assets on
+// an interest-bearing account (§ 551 Abs. 3 BGB)
+export const depositAccounts = pgTable('deposit_accounts', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  agreedAmount: numeric('agreed_amount', { precision: 10, scale: 2 }).notNull(), // At most three monthly rents
+  bankName: text('bank_name'),
+  iban: text('iban'),
+  accountHolder: text('account_holder'),
+  interestRate: numeric('interest_rate', { precision: 5, scale: 3 }).default('0.000').notNull(), // Percent per year
+  status: text('status', { enum: ['held', 'settled'] }).default('held').notNull(),
+  openedAt: timestamp('opened_at', { withTimezone: true }).notNull(),
+  settledAt: timestamp('settled_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('deposit_account_org_idx').on(table.organizationId),
+  contractIdx: uniqueIndex('deposit_account_contract_idx').on(table.contractId),
+}));
+
+// Installments paid in, interest credited, amounts withheld for claims and the final payout
+export const DEPOSIT_TRANSACTION_TYPES = ['installment', 'interest', 'withholding', 'payout'] as const;
+
+export type DepositTransactionType = typeof DEPOSIT_TRANSACTION_TYPES[number];
+
+export const depositTransactions = pgTable('deposit_transactions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  depositAccountId: uuid('deposit_account_id').references(() => depositAccounts.id, { onDelete: 'cascade' }).notNull(),
+  type: text('type', { enum: DEPOSIT_TRANSACTION_TYPES }).notNull(),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull(), // Always positive; the type gives the direction
+  bookingDate: timestamp('booking_date', { withTimezone: true }).notNull(),
+  description: text('description'),
+  // Damage a withholding covers
+  ticketId: uuid('ticket_id').references(() => tickets.id, { onDelete: 'set null' }),
+  createdById: uuid('created_by_id').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  accountIdx: index('deposit_transaction_account_idx').on(table.depositAccountId, table.bookingDate),
+}));
+
+// Final settlement of the deposit after the tenancy ended. The amounts are fixed when it is finalized.
+export const depositSettlements = pgTable('deposit_settlements', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  depositAccountId: uuid('deposit_account_id').references(() => depositAccounts.id, { onDelete: 'cascade' }).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  status: text('status', { enum: ['draft', 'finalized'] }).default('draft').notNull(),
+  settlementDate: timestamp('settlement_date', { withTimezone: true }).notNull(), // Interest accrues until this day
+  installments: numeric('installments', { precision: 10, scale: 2 }),
+  interest: numeric('interest', { precision: 10, scale: 2 }),
+  withholdings: numeric('withholdings', { precision: 10, scale: 2 }),
+  // Open rent ledger balance paid from the deposit
+  offsetClaims: numeric('offset_claims', { precision: 10, scale: 2 }),
+  payout: numeric('payout', { precision: 10, scale: 2 }),
+  ledgerEntryId: uuid('ledger_entry_id').references(() => ledgerEntries.id, { onDelete: 'set null' }),
+  finalizedAt: timestamp('finalized_at', { withTimezone: true }),
+  createdById: uuid('created_by_id').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('deposit_settlement_org_idx').on(table.organizationId),
+  accountIdx: uniqueIndex('deposit_settlement_account_idx').on(table.depositAccountId),
+}));
+
+// Reminder levels of an organization. A level is due the given days after the oldest open
+// charge fell due (first level) or after the payment deadline of the previous reminder.
+export const dunningLevels = pgTable('dunning_levels', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  level: integer('level').notNull(), // 1, 2, 3, ...
+  name: text('name').notNull(), // e.g. Zahlungserinnerung, 1. Mahnung
+  graceDays: integer('grace_days').notNull(),
+  fee: numeric('fee', { precision: 10, scale: 2 }).default('0.00').notNull(),
+  paymentTermDays: integer('payment_term_days').default(14).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgLevelIdx: uniqueIndex('dunning_level_org_level_idx').on(table.organizationId, table.level),
+}));
+
+// Open charge listed on a reminder, as it was when the reminder was issued
+export interface DunningNoticeLine {
+  ledgerEntryId: string;
+  category: LedgerCategory;
+  period: string | null;
+  dueDate: string;
+  amount: string;
+  open: string;
+}
+
+export const dunningNotices = pgTable('dunning_notices', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  contractId: uuid('contract_id').references(() => contracts.id).notNull(),
+  level: integer('level').notNull(),
+  levelName: text('level_name').notNull(),
+  noticeDate: timestamp('notice_date', { withTimezone: true }).notNull(),
+  paymentDueDate: timestamp('payment_due_date', { withTimezone: true }).notNull(),
+  lines: jsonb('lines').$type<DunningNoticeLine[]>().notNull(),
+  amountDue: numeric('amount_due', { precision: 10, scale: 2 }).notNull(), // Open charges, without the fee
+  fee: numeric('fee', { precision: 10, scale: 2 }).default('0.00').notNull(),
+  feeLedgerEntryId: uuid('fee_ledger_entry_id').references(() => ledgerEntries.id, { onDelete: 'set null' }),
+  createdById: uuid('created_by_id').references(() => users.id), // Null when issued by the worker
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('dunning_notice_org_idx').on(table.organizationId),
+  contractIdx: index('dunning_notice_contract_idx').on(table.contractId, table.noticeDate),
+}));
+
+// Tradespeople, utilities and service providers that bill the organization
+export const vendors = pgTable('vendors', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  name: text('name').notNull(),
+  email: text('email'),
+  phone: text('phone'),
+  address: text('address'),
+  postalCode: text('postal_code'),
+  city: text('city'),
+  iban: text('iban'),
+  vatId: text('vat_id'), // USt-IdNr.
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('vendor_org_idx').on(table.organizationId),
+}));
+
+// Received invoices are approved (or rejected) before they may be paid
+export const VENDOR_INVOICE_STATUSES = ['received', 'approved', 'rejected', 'paid'] as const;
+
+export type VendorInvoiceStatus = typeof VENDOR_INVOICE_STATUSES[number];
+
+// What an invoice is booked as. Operating costs can be passed on to the tenants in the
+// settlement of the building; the other costs are borne by the landlord.
+export const COST_CATEGORIES = [
+  'operating_costs',
+  'maintenance',
+  'administration',
+  'capital_expenditure',
+  'other',
+] as const;
+
+export type CostCategory = typeof COST_CATEGORIES[number];
+
+export const vendorInvoices = pgTable('vendor_invoices', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  vendorId: uuid('vendor_id').references(() => vendors.id).notNull(),
+  buildingId: uuid('building_id').references(() => buildings.id).notNull(),
+  ticketId: uuid('ticket_id').references(() => tickets.id, { onDelete: 'set null' }),
+  // The invoice as received, e.g. the scanned PDF
+  documentId: uuid('document_id').references(() => documents.id, { onDelete: 'set null' }),
+  invoiceNumber: text('invoice_number').notNull(),
+  invoiceDate: timestamp('invoice_date', { withTimezone: true }).notNull(),
+  dueDate: timestamp('due_date', { withTimezone: true }),
+  description: text('description'),
+  netAmount: numeric('net_amount', { precision: 12, scale: 2 }).notNull(),
+  vatRate: numeric('vat_rate', { precision: 4, scale: 2 }).default('19.00').notNull(), // Percent
+  vatAmount: numeric('vat_amount', { precision: 12, scale: 2 }).notNull(),
+  grossAmount: numeric('gross_amount', { precision: 12, scale: 2 }).notNull(),
+  costCategory: text('cost_category', { enum: COST_CATEGORIES }).notNull(),
+  // Settlement category, for operating costs
+  operatingCostCategory: text('operating_cost_category', { enum: OPERATING_COST_CATEGORIES }),
+  status: text('status', { enum: VENDOR_INVOICE_STATUSES }).default('received').notNull(),
+  approvedById: uuid('approved_by_id').references(() => users.id),
+  approvedAt: timestamp('approved_at', { withTimezone: true }),
+  rejectionReason: text('rejection_reason'),
+  paidAt: timestamp('paid_at', { withTimezone: true }),
+  paymentReference: text('payment_reference'),
+  createdById: uuid('created_by_id').references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  orgIdx: index('vendor_invoice_org_idx').on(table.organizationId, table.invoiceDate),
+  buildingIdx: index('vendor_invoice_building_idx').on(table.buildingId),
+  ticketIdx: index('vendor_invoice_ticket_idx').on(table.ticketId),
+  vendorNumberIdx: uniqueIndex('vendor_invoice_vendor_number_idx').on(table.vendorId, table.invoiceNumber),
+}));
+
+// Kinds of records tracked by the audit log
+export const AUDIT_ENTITY_TYPES = [
+  'organization',
+  'user',
+  'building',
+  'unit',
+  'meter',
+  'meter_reading',
+  'meter_reading_submission',
+  'consumption_anomaly',
+  'contract',
+  'tenant_contract',
+  'ticket',
+  'consumption_record',
+  'document',
+  'invitation',
+  'api_key',
+  'webhook_subscription',
+  'ledger_entry',
+  'bank_statement',
+  'bank_transaction',
+  'sepa_mandate',
+  'direct_debit_batch',
+  'operating_cost_settlement',
+  'operating_cost_item',
+  'rent_adjustment',
+  'deposit_account',
+  'deposit_transaction',
+  'deposit_settlement',
+  'dunning_level',
+  'dunning_notice',
+  'vendor',
+  'vendor_invoice',
+] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Field-level diff of an audited change: { field: { before, after } }
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Request the change was made in, when it came through the API
+export interface AuditRequestMetadata {
+  requestId?: string;
+  method?: string;
+  path?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  // Business operation the change was part of, e.g. terminateContract
+  operation?: string;
+}
+
+// Append-only log of every mutation; the app role cannot update or delete rows
+export const auditEvents = pgTable('audit_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').references(() => organizations.id).notNull(),
+  actorType: text('actor_type', { enum: ['user', 'api_key', 'system'] }).notNull(),
+  // No foreign keys: the log outlives the users and keys it mentions
+  actorId: uuid('actor_id'),
+  apiKeyId: uuid('api_key_id'),
+  entityType: text('entity_type', { enum: AUDIT_ENTITY_TYPES }).notNull(),
+  entityId: uuid('entity_id').notNull(),
+  action: text('action', { enum: AUDIT_ACTIONS }).notNull(),
+  changes: jsonb('changes').$type<AuditChanges>().default({}).notNull(),
+  metadata: jsonb('metadata').$type<AuditRequestMetadata>().default({}).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  orgCreatedIdx: index('audit_event_org_created_idx').on(table.organizationId, table.createdAt),
+  entityIdx: index('audit_event_entity_idx').on(table.entityType, table.entityId),
+  actorIdx: index('audit_event_actor_idx').on(table.actorId),
 }));
 
 // Relations
@@ -226,6 +1130,15 @@ export const organizationsRelations = relations(organizations, ({ many }) => ({
   tickets: many(tickets),
   documents: many(documents),
   invitationTokens: many(invitationTokens),
+  emailOutbox: many(emailOutbox),
+  apiKeys: many(apiKeys),
+  webhookSubscriptions: many(webhookSubscriptions),
+  auditEvents: many(auditEvents),
+  ledgerEntries: many(ledgerEntries),
+  bankStatements: many(bankStatements),
+  sepaMandates: many(sepaMandates),
+  directDebitBatches: many(directDebitBatches),
+  operatingCostSettlements: many(operatingCostSettlements),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -239,6 +1152,17 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   assignedTickets: many(tickets, { relationName: 'assignedTickets' }),
   tenantContracts: many(tenantContracts),
   uploadedDocuments: many(documents),
+  createdInvitations: many(invitationTokens, { relationName: 'createdInvitations' }),
+  revokedInvitations: many(invitationTokens, { relationName: 'revokedInvitations' }),
+  createdApiKeys: many(apiKeys, { relationName: 'createdApiKeys' }),
+  revokedApiKeys: many(apiKeys, { relationName: 'revokedApiKeys' }),
+  webhookSubscriptions: many(webhookSubscriptions),
+  tenantLedgerEntries: many(ledgerEntries, { relationName: 'tenantLedgerEntries' }),
+  createdLedgerEntries: many(ledgerEntries, { relationName: 'createdLedgerEntries' }),
+  importedBankStatements: many(bankStatements),
+  sepaMandates: many(sepaMandates, { relationName: 'tenantSepaMandates' }),
+  submittedMeterReadings: many(meterReadingSubmissions, { relationName: 'submittedMeterReadings' }),
+  reviewedMeterReadings: many(meterReadingSubmissions, { relationName: 'reviewedMeterReadings' }),
 }));
 
 export const buildingsRelations = relations(buildings, ({ one, many }) => ({
@@ -246,9 +1170,25 @@ export const buildingsRelations = relations(buildings, ({ one, many }) => ({
     fields: [buildings.organizationId],
     references: [organizations.id],
   }),
+  units: many(units),
+  meters: many(meters),
   contracts: many(contracts),
   tickets: many(tickets),
   documents: many(documents),
+  operatingCostSettlements: many(operatingCostSettlements),
+}));
+
+export const unitsRelations = relations(units, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [units.organizationId],
+    references: [organizations.id],
+  }),
+  building: one(buildings, {
+    fields: [units.buildingId],
+    references: [buildings.id],
+  }),
+  contracts: many(contracts),
+  meters: many(meters),
 }));
 
 export const contractsRelations = relations(contracts, ({ one, many }) => ({
@@ -260,11 +1200,23 @@ export const contractsRelations = relations(contracts, ({ one, many }) => ({
     fields: [contracts.buildingId],
     references: [buildings.id],
   }),
+  unit: one(units, {
+    fields: [contracts.unitId],
+    references: [units.id],
+  }),
   tenantContracts: many(tenantContracts),
   tickets: many(tickets),
   consumptionRecords: many(consumptionRecords),
   documents: many(documents),
   invitationTokens: many(invitationTokens),
+  ledgerEntries: many(ledgerEntries),
+  matchedBankTransactions: many(bankTransactions, { relationName: 'matchedBankTransactions' }),
+  suggestedBankTransactions: many(bankTransactions, { relationName: 'suggestedBankTransactions' }),
+  sepaMandates: many(sepaMandates),
+  operatingCostStatements: many(operatingCostStatements),
+  rentAdjustments: many(rentAdjustments),
+  depositAccount: one(depositAccounts),
+  dunningNotices: many(dunningNotices),
 }));
 
 export const tenantContractsRelations = relations(tenantContracts, ({ one }) => ({
@@ -306,9 +1258,10 @@ export const ticketsRelations = relations(tickets, ({ one, many }) => ({
     relationName: 'assignedTickets',
   }),
   documents: many(documents),
+  vendorInvoices: many(vendorInvoices),
 }));
 
-export const consumptionRecordsRelations = relations(consumptionRecords, ({ one }) => ({
+export const consumptionRecordsRelations = relations(consumptionRecords, ({ one, many }) => ({
   organization: one(organizations, {
     fields: [consumptionRecords.organizationId],
     references: [organizations.id],
@@ -317,6 +1270,103 @@ export const consumptionRecordsRelations = relations(consumptionRecords, ({ one
     fields: [consumptionRecords.contractId],
     references: [contracts.id],
   }),
+  anomalies: many(consumptionAnomalies),
+}));
+
+export const consumptionAnomaliesRelations = relations(consumptionAnomalies, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [consumptionAnomalies.organizationId],
+    references: [organizations.id],
+  }),
+  contract: one(contracts, {
+    fields: [consumptionAnomalies.contractId],
+    references: [contracts.id],
+  }),
+  consumptionRecord: one(consumptionRecords, {
+    fields: [consumptionAnomalies.consumptionRecordId],
+    references: [consumptionRecords.id],
+  }),
+  ticket: one(tickets, {
+    fields: [consumptionAnomalies.ticketId],
+    references: [tickets.id],
+  }),
+  reviewedBy: one(users, {
+    fields: [consumptionAnomalies.reviewedById],
+    references: [users.id],
+  }),
+}));
+
+export const metersRelations = relations(meters, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [meters.organizationId],
+    references: [organizations.id],
+  }),
+  building: one(buildings, {
+    fields: [meters.buildingId],
+    references: [buildings.id],
+  }),
+  unit: one(units, {
+    fields: [meters.unitId],
+    references: [units.id],
+  }),
+  replacesMeter: one(meters, {
+    fields: [meters.replacesMeterId],
+    references: [meters.id],
+  }),
+  readings: many(meterReadings),
+  submissions: many(meterReadingSubmissions),
+}));
+
+export const meterReadingsRelations = relations(meterReadings, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [meterReadings.organizationId],
+    references: [organizations.id],
+  }),
+  meter: one(meters, {
+    fields: [meterReadings.meterId],
+    references: [meters.id],
+  }),
+  consumptionRecord: one(consumptionRecords, {
+    fields: [meterReadings.consumptionRecordId],
+    references: [consumptionRecords.id],
+  }),
+  createdBy: one(users, {
+    fields: [meterReadings.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const meterReadingSubmissionsRelations = relations(meterReadingSubmissions, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [meterReadingSubmissions.organizationId],
+    references: [organizations.id],
+  }),
+  meter: one(meters, {
+    fields: [meterReadingSubmissions.meterId],
+    references: [meters.id],
+  }),
+  contract: one(contracts, {
+    fields: [meterReadingSubmissions.contractId],
+    references: [contracts.id],
+  }),
+  submittedBy: one(users, {
+    fields: [meterReadingSubmissions.submittedById],
+    references: [users.id],
+    relationName: 'submittedMeterReadings',
+  }),
+  reviewedBy: one(users, {
+    fields: [meterReadingSubmissions.reviewedById],
+    references: [users.id],
+    relationName: 'reviewedMeterReadings',
+  }),
+  photo: one(documents, {
+    fields: [meterReadingSubmissions.photoDocumentId],
+    references: [documents.id],
+  }),
+  meterReading: one(meterReadings, {
+    fields: [meterReadingSubmissions.meterReadingId],
+    references: [meterReadings.id],
+  }),
 }));
 
 export const documentsRelations = relations(documents, ({ one }) => ({
@@ -362,6 +1412,309 @@ export const invitationTokensRelations = relations(invitationTokens, ({ one }) =
   createdBy: one(users, {
     fields: [invitationTokens.createdById],
     references: [users.id],
+    relationName: 'createdInvitations',
+  }),
+  revokedBy: one(users, {
+    fields: [invitationTokens.revokedById],
+    references: [users.id],
+    relationName: 'revokedInvitations',
+  }),
+}));
+
+export const emailOutboxRelations = relations(emailOutbox, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [emailOutbox.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [apiKeys.organizationId],
+    references: [organizations.id],
+  }),
+  createdBy: one(users, {
+    fields: [apiKeys.createdById],
+    references: [users.id],
+    relationName: 'createdApiKeys',
+  }),
+  revokedBy: one(users, {
+    fields: [apiKeys.revokedById],
+    references: [users.id],
+    relationName: 'revokedApiKeys',
+  }),
+  rotatedFrom: one(apiKeys, {
+    fields: [apiKeys.rotatedFromId],
+    references: [apiKeys.id],
+  }),
+}));
+
+export const webhookSubscriptionsRelations = relations(webhookSubscriptions, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [webhookSubscriptions.organizationId],
+    references: [organizations.id],
+  }),
+  createdBy: one(users, {
+    fields: [webhookSubscriptions.createdById],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [webhookDeliveries.organizationId],
+    references: [organizations.id],
+  }),
+  subscription: one(webhookSubscriptions, {
+    fields: [webhookDeliveries.subscriptionId],
+    references: [webhookSubscriptions.id],
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [auditEvents.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [ledgerEntries.organizationId],
+    references: [organizations.id],
+  }),
+  contract: one(contracts, {
+    fields: [ledgerEntries.contractId],
+    references: [contracts.id],
+  }),
+  tenant: one(users, {
+    fields: [ledgerEntries.tenantId],
+    references: [users.id],
+    relationName: 'tenantLedgerEntries',
+  }),
+  createdBy: one(users, {
+    fields: [ledgerEntries.createdById],
+    references: [users.id],
+    relationName: 'createdLedgerEntries',
+  }),
+}));
+
+export const bankStatementsRelations = relations(bankStatements, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [bankStatements.organizationId],
+    references: [organizations.id],
+  }),
+  importedBy: one(users, {
+    fields: [bankStatements.importedById],
+    references: [users.id],
+  }),
+  transactions: many(bankTransactions),
+}));
+
+export const bankTransactionsRelations = relations(bankTransactions, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [bankTransactions.organizationId],
+    references: [organizations.id],
+  }),
+  statement: one(bankStatements, {
+    fields: [bankTransactions.statementId],
+    references: [bankStatements.id],
+  }),
+  contract: one(contracts, {
+    fields: [bankTransactions.contractId],
+    references: [contracts.id],
+    relationName: 'matchedBankTransactions',
+  }),
+  suggestedContract: one(contracts, {
+    fields: [bankTransactions.suggestedContractId],
+    references: [contracts.id],
+    relationName: 'suggestedBankTransactions',
+  }),
+  ledgerEntry: one(ledgerEntries, {
+    fields: [bankTransactions.ledgerEntryId],
+    references: [ledgerEntries.id],
+  }),
+}));
+
+export const sepaMandatesRelations = relations(sepaMandates, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [sepaMandates.organizationId],
+    references: [organizations.id],
+  }),
+  contract: one(contracts, {
+    fields: [sepaMandates.contractId],
+    references: [contracts.id],
+  }),
+  tenant: one(users, {
+    fields: [sepaMandates.tenantId],
+    references: [users.id],
+    relationName: 'tenantSepaMandates',
+  }),
+}));
+
+export const directDebitBatchesRelations = relations(directDebitBatches, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [directDebitBatches.organizationId],
+    references: [organizations.id],
+  }),
+  createdBy: one(users, {
+    fields: [directDebitBatches.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const operatingCostSettlementsRelations = relations(operatingCostSettlements, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [operatingCostSettlements.organizationId],
+    references: [organizations.id],
+  }),
+  building: one(buildings, {
+    fields: [operatingCostSettlements.buildingId],
+    references: [buildings.id],
+  }),
+  createdBy: one(users, {
+    fields: [operatingCostSettlements.createdById],
+    references: [users.id],
+  }),
+  items: many(operatingCostItems),
+  statements: many(operatingCostStatements),
+}));
+
+export const operatingCostItemsRelations = relations(operatingCostItems, ({ one }) => ({
+  settlement: one(operatingCostSettlements, {
+    fields: [operatingCostItems.settlementId],
+    references: [operatingCostSettlements.id],
+  }),
+  vendorInvoice: one(vendorInvoices, {
+    fields: [operatingCostItems.vendorInvoiceId],
+    references: [vendorInvoices.id],
+  }),
+}));
+
+export const operatingCostStatementsRelations = relations(operatingCostStatements, ({ one }) => ({
+  settlement: one(operatingCostSettlements, {
+    fields: [operatingCostStatements.settlementId],
+    references: [operatingCostSettlements.id],
+  }),
+  contract: one(contracts, {
+    fields: [operatingCostStatements.contractId],
+    references: [contracts.id],
+  }),
+  ledgerEntry: one(ledgerEntries, {
+    fields: [operatingCostStatements.ledgerEntryId],
+    references: [ledgerEntries.id],
+  }),
+}));
+
+export const rentAdjustmentsRelations = relations(rentAdjustments, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [rentAdjustments.organizationId],
+    references: [organizations.id],
+  }),
+  contract: one(contracts, {
+    fields: [rentAdjustments.contractId],
+    references: [contracts.id],
+  }),
+  createdBy: one(users, {
+    fields: [rentAdjustments.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const depositAccountsRelations = relations(depositAccounts, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [depositAccounts.organizationId],
+    references: [organizations.id],
+  }),
+  contract: one(contracts, {
+    fields: [depositAccounts.contractId],
+    references: [contracts.id],
+  }),
+  transactions: many(depositTransactions),
+  settlement: one(depositSettlements),
+}));
+
+export const depositTransactionsRelations = relations(depositTransactions, ({ one }) => ({
+  account: one(depositAccounts, {
+    fields: [depositTransactions.depositAccountId],
+    references: [depositAccounts.id],
+  }),
+  ticket: one(tickets, {
+    fields: [depositTransactions.ticketId],
+    references: [tickets.id],
+  }),
+}));
+
+export const depositSettlementsRelations = relations(depositSettlements, ({ one }) => ({
+  account: one(depositAccounts, {
+    fields: [depositSettlements.depositAccountId],
+    references: [depositAccounts.id],
+  }),
+  contract: one(contracts, {
+    fields: [depositSettlements.contractId],
+    references: [contracts.id],
+  }),
+  ledgerEntry: one(ledgerEntries, {
+    fields: [depositSettlements.ledgerEntryId],
+    references: [ledgerEntries.id],
+  }),
+}));
+
+export const dunningLevelsRelations = relations(dunningLevels, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [dunningLevels.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const dunningNoticesRelations = relations(dunningNotices, ({ one }) => ({
+  contract: one(contracts, {
+    fields: [dunningNotices.contractId],
+    references: [contracts.id],
+  }),
+  feeLedgerEntry: one(ledgerEntries, {
+    fields: [dunningNotices.feeLedgerEntryId],
+    references: [ledgerEntries.id],
+  }),
+  createdBy: one(users, {
+    fields: [dunningNotices.createdById],
+    references: [users.id],
+  }),
+}));
+
+export const vendorsRelations = relations(vendors, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [vendors.organizationId],
+    references: [organizations.id],
+  }),
+  invoices: many(vendorInvoices),
+}));
+
+export const vendorInvoicesRelations = relations(vendorInvoices, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [vendorInvoices.organizationId],
+    references: [organizations.id],
+  }),
+  vendor: one(vendors, {
+    fields: [vendorInvoices.vendorId],
+    references: [vendors.id],
+  }),
+  building: one(buildings, {
+    fields: [vendorInvoices.buildingId],
+    references: [buildings.id],
+  }),
+  ticket: one(tickets, {
+    fields: [vendorInvoices.ticketId],
+    references: [tickets.id],
+  }),
+  document: one(documents, {
+    fields: [vendorInvoices.documentId],
+    references: [documents.id],
+  }),
+  approvedBy: one(users, {
+    fields: [vendorInvoices.approvedById],
+    references: [users.id],
   }),
 }));
 
@@ -372,6 +1725,16 @@ export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Building = typeof buildings.$inferSelect;
 export type NewBuilding = typeof buildings.$inferInsert;
+export type Unit = typeof units.$inferSelect;
+export type NewUnit = typeof units.$inferInsert;
+export type Meter = typeof meters.$inferSelect;
+export type NewMeter = typeof meters.$inferInsert;
+export type MeterReading = typeof meterReadings.$inferSelect;
+export type NewMeterReading = typeof meterReadings.$inferInsert;
+export type ConsumptionAnomaly = typeof consumptionAnomalies.$inferSelect;
+export type NewConsumptionAnomaly = typeof consumptionAnomalies.$inferInsert;
+export type MeterReadingSubmission = typeof meterReadingSubmissions.$inferSelect;
+export type NewMeterReadingSubmission = typeof meterReadingSubmissions.$inferInsert;
 export type Contract = typeof contracts.$inferSelect;
 export type NewContract = typeof contracts.$inferInsert;
 export type TenantContract = typeof tenantContracts.$inferSelect;
@@ -383,4 +1746,48 @@ export type NewConsumptionRecord = typeof consumptionRecords.$inferInsert;
 export type Document = typeof documents.$inferSelect;
 export type NewDocument = typeof documents.$inferInsert;
 export type InvitationToken = typeof invitationTokens.$inferSelect;
-export type NewInvitationToken = typeof invitationTokens.$inferInsert;
\ No newline at end of file
+export type NewInvitationToken = typeof invitationTokens.$inferInsert;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type NewEmailOutboxMessage = typeof emailOutbox.$inferInsert;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type NewWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type NewAuditEvent = typeof auditEvents.$inferInsert;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type NewLedgerEntry = typeof ledgerEntries.$inferInsert;
+export type BankStatement = typeof bankStatements.$inferSelect;
+export type NewBankStatement = typeof bankStatements.$inferInsert;
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type NewBankTransaction = typeof bankTransactions.$inferInsert;
+export type SepaMandate = typeof sepaMandates.$inferSelect;
+export type NewSepaMandate = typeof sepaMandates.$inferInsert;
+export type DirectDebitBatch = typeof directDebitBatches.$inferSelect;
+export type NewDirectDebitBatch = typeof directDebitBatches.$inferInsert;
+export type OperatingCostSettlement = typeof operatingCostSettlements.$inferSelect;
+export type NewOperatingCostSettlement = typeof operatingCostSettlements.$inferInsert;
+export type OperatingCostItem = typeof operatingCostItems.$inferSelect;
+export type NewOperatingCostItem = typeof operatingCostItems.$inferInsert;
+export type OperatingCostStatement = typeof operatingCostStatements.$inferSelect;
+export type NewOperatingCostStatement = typeof operatingCostStatements.$inferInsert;
+export type RentAdjustment = typeof rentAdjustments.$inferSelect;
+export type NewRentAdjustment = typeof rentAdjustments.$inferInsert;
+export type PriceIndexValue = typeof priceIndexValues.$inferSelect;
+export type NewPriceIndexValue = typeof priceIndexValues.$inferInsert;
+export type DepositAccount = typeof depositAccounts.$inferSelect;
+export type NewDepositAccount = typeof depositAccounts.$inferInsert;
+export type DepositTransaction = typeof depositTransactions.$inferSelect;
+export type NewDepositTransaction = typeof depositTransactions.$inferInsert;
+export type DepositSettlement = typeof depositSettlements.$inferSelect;
+export type NewDepositSettlement = typeof depositSettlements.$inferInsert;
+export type DunningLevel = typeof dunningLevels.$inferSelect;
+export type NewDunningLevel = typeof dunningLevels.$inferInsert;
+export type DunningNotice = typeof dunningNotices.$inferSelect;
+export type NewDunningNotice = typeof dunningNotices.$inferInsert;
+export type Vendor = typeof vendors.$inferSelect;
+export type NewVendor = typeof vendors.$inferInsert;
+export type VendorInvoice = typeof vendorInvoices.$inferSelect;
+export type NewVendorInvoice = typeof vendorInvoices.$inferInsert;
\ No newline at end of file
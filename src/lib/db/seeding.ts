@@ -4,6 +4,9 @@ import {
   organizations, 
   users, 
   buildings, 
+  units,
+  meters,
+  meterReadingSubmissions,
   contracts, 
   tenantContracts,
   tickets,
@@ -11,6 +14,10 @@ import {
   documents
 } from './schema';
 import { env } from '../env';
+import { hashPassword } from './password-utils';
+
+// Shared password for all seeded demo accounts
+const DEMO_PASSWORD = 'TenantBridge2024';
 
 /**
  * Seed production-ready demo data
@@ -30,6 +37,8 @@ export async function seedProductionDemo() {
     country: 'Germany',
   }).returning();
 
+  const passwordHash = await hashPassword(DEMO_PASSWORD);
+
   // Create admin user
   const [admin] = await db.insert(users).values({
     email: 'admin@berlinproperties.de',
@@ -38,6 +47,7 @@ export async function seedProductionDemo() {
     organizationId: mainOrg.id,
     isActive: true,
     emailVerified: new Date(),
+    passwordHash,
   }).returning();
 
   // Create multiple buildings
@@ -106,6 +116,7 @@ export async function seedProductionDemo() {
       organizationId: mainOrg.id,
       isActive: true,
       emailVerified: new Date(),
+      passwordHash,
     }).returning();
 
     createdTenants.push(tenant);
@@ -117,9 +128,16 @@ export async function seedProductionDemo() {
     const endDate = new Date(startDate);
     endDate.setFullYear(endDate.getFullYear() + 1);
 
+    const [unit] = await db.insert(units).values({
+      organizationId: mainOrg.id,
+      buildingId: building.id,
+      unitNumber,
+    }).returning();
+
     const [contract] = await db.insert(contracts).values({
       organizationId: mainOrg.id,
       buildingId: building.id,
+      unitId: unit.id,
       contractNumber: `BP-${new Date().getFullYear()}-${(i + 1).toString().padStart(3, '0')}`,
       unitNumber,
       startDate,
@@ -142,6 +160,7 @@ export async function seedProductionDemo() {
   }
 
   console.log(`✅ Created ${createdBuildings.length} buildings, ${createdContracts.length} contracts, ${createdTenants.length} tenants`);
+  console.log(`🔑 Demo accounts use the password: ${DEMO_PASSWORD}`);
 
   return {
     organization: mainOrg,
@@ -275,11 +294,14 @@ export async function resetDatabase() {
   console.log('🧹 Resetting database...');
 
   // Delete in correct order to respect foreign keys
+  await db.delete(meterReadingSubmissions);
   await db.delete(documents);
   await db.delete(consumptionRecords);
   await db.delete(tickets);
   await db.delete(tenantContracts);
   await db.delete(contracts);
+  await db.delete(meters);
+  await db.delete(units);
   await db.delete(buildings);
   await db.delete(users);
   await db.delete(organizations);
@@ -0,0 +1,253 @@
+// src/lib/db/services/api-keys.ts
+import { randomBytes, createHash } from 'crypto';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { apiKeys, users, type ApiKey, type ApiKeyPermission, type User } from '../schema';
+import { ConflictError, NotFoundError } from '../errors';
+import { recordAuditEvent } from '../audit';
+import { API_KEY_PREFIX } from '../../api/credentials';
+
+// Characters of the key kept in plain text so admins can tell keys apart
+const KEY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Busy integrations should not update the key row on every request
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked';
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  // The plain key; it is only available at creation time
+  key: string;
+}
+
+/**
+ * Keys are only stored as a SHA-256 digest; they carry enough entropy that
+ * a slow password hash is unnecessary
+ */
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(30).toString('base64url')}`;
+}
+
+function addDays(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+export class ApiKeyService {
+  /**
+   * Derive the lifecycle status of an API key
+   */
+  static getStatus(apiKey: ApiKey): ApiKeyStatus {
+    if (apiKey.revokedAt) return 'revoked';
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) return 'expired';
+    return 'active';
+  }
+
+  /**
+   * Create an API key. The plain key is returned once and never stored.
+   */
+  static async create(
+    organizationId: string,
+    data: { name: string; permissions: ApiKeyPermission[]; expiresInDays?: number },
+    createdById: string,
+    rotatedFromId?: string
+  ): Promise<CreatedApiKey> {
+    const key = generateApiKey();
+
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values({
+        organizationId,
+        name: data.name,
+        keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+        keyHash: hashApiKey(key),
+        permissions: Array.from(new Set(data.permissions)),
+        createdById,
+        rotatedFromId,
+        expiresAt: data.expiresInDays ? addDays(data.expiresInDays) : null,
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'api_key',
+      entityId: apiKey.id,
+      action: 'create',
+      after: apiKey,
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Get API key by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<ApiKey | null> {
+    const [apiKey] = await db
+      .select()
+      .from(apiKeys)
+      .where(
+        and(
+          eq(apiKeys.id, id),
+          eq(apiKeys.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return apiKey || null;
+  }
+
+  /**
+   * Get API keys for an organization, newest first
+   */
+  static async getApiKeys(
+    organizationId: string,
+    options: { includeRevoked?: boolean } = {}
+  ) {
+    const keys = await db
+      .select({
+        apiKey: apiKeys,
+        createdBy: {
+          id: users.id,
+          name: users.name,
+          email: users.email,
+        },
+      })
+      .from(apiKeys)
+      .innerJoin(users, eq(apiKeys.createdById, users.id))
+      .where(
+        options.includeRevoked
+          ? eq(apiKeys.organizationId, organizationId)
+          : and(eq(apiKeys.organizationId, organizationId), isNull(apiKeys.revokedAt))
+      )
+      .orderBy(desc(apiKeys.createdAt));
+
+    return keys.map(row => ({ ...row, status: this.getStatus(row.apiKey) }));
+  }
+
+  /**
+   * Revoke an API key; it stops working immediately
+   */
+  static async revoke(
+    id: string,
+    organizationId: string,
+    revokedById: string
+  ): Promise<ApiKey | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date(), revokedById })
+      .where(
+        and(
+          eq(apiKeys.id, id),
+          eq(apiKeys.organizationId, organizationId),
+          isNull(apiKeys.revokedAt)
+        )
+      )
+      .returning();
+
+    if (apiKey) {
+      await recordAuditEvent({
+        organizationId,
+        entityType: 'api_key',
+        entityId: id,
+        action: 'update',
+        before,
+        after: apiKey,
+      });
+    }
+
+    return apiKey || null;
+  }
+
+  /**
+   * Replace an API key with a new one with the same name and permissions.
+   * The old key keeps working for the grace period so integrations can switch over.
+   */
+  static async rotate(
+    id: string,
+    organizationId: string,
+    rotatedById: string,
+    options: { gracePeriodHours?: number; expiresInDays?: number } = {}
+  ): Promise<CreatedApiKey> {
+    const existing = await this.getById(id, organizationId);
+    if (!existing) {
+      throw new NotFoundError('API key', id);
+    }
+
+    const status = this.getStatus(existing);
+    if (status !== 'active') {
+      throw new ConflictError(`Cannot rotate an API key that has ${status === 'revoked' ? 'been revoked' : 'expired'}`);
+    }
+
+    const created = await this.create(
+      organizationId,
+      {
+        name: existing.name,
+        permissions: existing.permissions,
+        expiresInDays: options.expiresInDays,
+      },
+      rotatedById,
+      existing.id
+    );
+
+    const gracePeriodHours = options.gracePeriodHours || 0;
+    if (gracePeriodHours > 0) {
+      const graceEnd = new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000);
+      const [apiKey] = await db
+        .update(apiKeys)
+        .set({ expiresAt: existing.expiresAt && existing.expiresAt < graceEnd ? existing.expiresAt : graceEnd })
+        .where(eq(apiKeys.id, id))
+        .returning();
+
+      await recordAuditEvent({
+        organizationId,
+        entityType: 'api_key',
+        entityId: id,
+        action: 'update',
+        before: existing,
+        after: apiKey,
+      });
+    } else {
+      await this.revoke(id, organizationId, rotatedById);
+    }
+
+    return created;
+  }
+
+  /**
+   * Resolve a presented API key to the key and the admin who created it.
+   * Returns null for unknown, expired or revoked keys and for keys whose
+   * creator is no longer an active landlord admin.
+   */
+  static async authenticate(key: string): Promise<{ apiKey: ApiKey; user: User } | null> {
+    const [result] = await db
+      .select({ apiKey: apiKeys, user: users })
+      .from(apiKeys)
+      .innerJoin(users, eq(apiKeys.createdById, users.id))
+      .where(eq(apiKeys.keyHash, hashApiKey(key)))
+      .limit(1);
+
+    if (!result || this.getStatus(result.apiKey) !== 'active') return null;
+    if (!result.user.isActive || result.user.role !== 'landlord_admin') return null;
+
+    const now = new Date();
+    const lastUsedAt = result.apiKey.lastUsedAt;
+    if (!lastUsedAt || now.getTime() - lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+      await db
+        .update(apiKeys)
+        .set({ lastUsedAt: now })
+        .where(eq(apiKeys.id, result.apiKey.id));
+    }
+
+    return result;
+  }
+}
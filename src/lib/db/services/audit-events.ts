@@ -0,0 +1,80 @@
+// src/lib/db/services/audit-events.ts
+import { eq, and, gte, lte, desc, count, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { auditEvents, users, type AuditEvent } from '../schema';
+
+export interface AuditEventFilters {
+  entityType?: AuditEvent['entityType'];
+  entityId?: string;
+  action?: AuditEvent['action'];
+  actorType?: AuditEvent['actorType'];
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export class AuditEventService {
+  /**
+   * Get the audit log of an organization, newest first, with the acting user
+   */
+  static async getEvents(
+    organizationId: string,
+    filters: AuditEventFilters & { limit?: number; offset?: number } = {}
+  ) {
+    const { entityType, entityId, action, actorType, actorId, from, to, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(auditEvents.organizationId, organizationId);
+
+    if (entityType) {
+      whereConditions = and(whereConditions, eq(auditEvents.entityType, entityType));
+    }
+
+    if (entityId) {
+      whereConditions = and(whereConditions, eq(auditEvents.entityId, entityId));
+    }
+
+    if (action) {
+      whereConditions = and(whereConditions, eq(auditEvents.action, action));
+    }
+
+    if (actorType) {
+      whereConditions = and(whereConditions, eq(auditEvents.actorType, actorType));
+    }
+
+    if (actorId) {
+      whereConditions = and(whereConditions, eq(auditEvents.actorId, actorId));
+    }
+
+    if (from) {
+      whereConditions = and(whereConditions, gte(auditEvents.createdAt, from));
+    }
+
+    if (to) {
+      whereConditions = and(whereConditions, lte(auditEvents.createdAt, to));
+    }
+
+    const [events, [{ total }]] = await Promise.all([
+      db
+        .select({
+          event: auditEvents,
+          actor: {
+            id: users.id,
+            name: users.name,
+            email: users.email,
+          },
+        })
+        .from(auditEvents)
+        .leftJoin(users, eq(auditEvents.actorId, users.id))
+        .where(whereConditions)
+        .orderBy(desc(auditEvents.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(auditEvents)
+        .where(whereConditions),
+    ]);
+
+    return { events, total };
+  }
+}
@@ -0,0 +1,445 @@
+// src/lib/db/services/bank-statements.ts
+import { eq, and, desc, asc, count, inArray, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { db } from '../db';
+import {
+  bankStatements,
+  bankTransactions,
+  ledgerEntries,
+  contracts,
+  tenantContracts,
+  users,
+  type BankStatement,
+  type BankTransaction,
+  type NewBankTransaction,
+  type LedgerEntry,
+} from '../schema';
+import { ConflictError, ValidationError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, withAuditOperation, type AuditEntry } from '../audit';
+import { LedgerService } from './ledger';
+import {
+  parseStatement,
+  getImportHashes,
+  matchPayment,
+  StatementParseError,
+  type MatchCandidate,
+  type ParsedStatement,
+  type StatementTransaction,
+} from '../../banking';
+import { toCents, fromCents, toPeriod } from '../../ledger';
+
+export interface BankTransactionFilters {
+  status?: BankTransaction['status'];
+  statementId?: string;
+}
+
+const matchedContracts = alias(contracts, 'matched_contracts');
+const suggestedContracts = alias(contracts, 'suggested_contracts');
+
+/**
+ * Contracts of the organization with the amounts their tenants are expected to transfer
+ */
+async function getMatchCandidates(organizationId: string): Promise<MatchCandidate[]> {
+  const [contractRows, tenantRows, arrears] = await Promise.all([
+    db
+      .select({
+        id: contracts.id,
+        contractNumber: contracts.contractNumber,
+        rentAmount: contracts.rentAmount,
+      })
+      .from(contracts)
+      .where(eq(contracts.organizationId, organizationId)),
+    db
+      .select({
+        contractId: tenantContracts.contractId,
+        id: users.id,
+        name: users.name,
+      })
+      .from(tenantContracts)
+      .innerJoin(users, eq(tenantContracts.tenantId, users.id))
+      .where(eq(tenantContracts.organizationId, organizationId)),
+    LedgerService.getArrears(organizationId),
+  ]);
+
+  const arrearsByContract = new Map(arrears.map(item => [item.contract.id, toCents(item.arrears)]));
+
+  return contractRows.map(contract => ({
+    contractId: contract.id,
+    contractNumber: contract.contractNumber,
+    expectedCents: [toCents(contract.rentAmount), arrearsByContract.get(contract.id) || 0],
+    tenants: tenantRows
+      .filter(tenant => tenant.contractId === contract.id)
+      .map(({ id, name }) => ({ id, name })),
+  }));
+}
+
+function describePayment(transaction: Pick<StatementTransaction, 'counterpartyName'>): string {
+  return transaction.counterpartyName
+    ? `Bank transfer from ${transaction.counterpartyName}`
+    : 'Bank transfer';
+}
+
+export class BankStatementService {
+  /**
+   * Import a CAMT.053 or MT940 statement. Bookings already imported with an
+   * earlier statement are skipped. Credits that match a contract unambiguously
+   * are booked as ledger payments; the rest wait in the reconciliation queue.
+   */
+  static async importStatement(
+    organizationId: string,
+    data: { content: string; fileName?: string },
+    importedById: string
+  ) {
+    let parsed: ParsedStatement;
+    try {
+      parsed = parseStatement(data.content);
+    } catch (error) {
+      if (error instanceof StatementParseError) {
+        throw new ValidationError(error.message, 'content');
+      }
+      throw error;
+    }
+
+    const hashes = getImportHashes(parsed);
+    const existing = hashes.length > 0
+      ? await db
+          .select({ importHash: bankTransactions.importHash })
+          .from(bankTransactions)
+          .where(
+            and(
+              eq(bankTransactions.organizationId, organizationId),
+              inArray(bankTransactions.importHash, hashes)
+            )
+          )
+      : [];
+    const existingHashes = new Set(existing.map(row => row.importHash));
+
+    const newTransactions = parsed.transactions
+      .map((transaction, index) => ({ transaction, importHash: hashes[index] }))
+      .filter(({ importHash }) => !existingHashes.has(importHash));
+
+    const candidates = newTransactions.some(({ transaction }) => transaction.creditDebit === 'credit')
+      ? await getMatchCandidates(organizationId)
+      : [];
+
+    return await withAuditOperation('importBankStatement', () => db.transaction(async (tx) => {
+      const [statement] = await tx
+        .insert(bankStatements)
+        .values({
+          organizationId,
+          format: parsed.format,
+          fileName: data.fileName,
+          statementId: parsed.statementId,
+          accountIban: parsed.accountIban,
+          currency: parsed.currency,
+          openingBalance: parsed.openingBalanceCents === null ? null : fromCents(parsed.openingBalanceCents),
+          closingBalance: parsed.closingBalanceCents === null ? null : fromCents(parsed.closingBalanceCents),
+          importedById,
+        })
+        .returning();
+
+      const auditEntries: AuditEntry[] = [{
+        organizationId,
+        entityType: 'bank_statement',
+        entityId: statement.id,
+        action: 'create',
+        after: statement,
+      }];
+
+      const values: NewBankTransaction[] = [];
+      const now = new Date();
+
+      for (const { transaction, importHash } of newTransactions) {
+        const value: NewBankTransaction = {
+          organizationId,
+          statementId: statement.id,
+          importHash,
+          bookingDate: transaction.bookingDate,
+          valueDate: transaction.valueDate,
+          creditDebit: transaction.creditDebit,
+          amount: fromCents(transaction.amountCents),
+          currency: transaction.currency,
+          reference: transaction.reference,
+          counterpartyName: transaction.counterpartyName,
+          counterpartyIban: transaction.counterpartyIban,
+          endToEndId: transaction.endToEndId,
+          bankReference: transaction.bankReference,
+          // Outgoing payments are kept for the record but not reconciled against rent
+          status: transaction.creditDebit === 'debit' ? 'ignored' : 'unmatched',
+        };
+
+        if (transaction.creditDebit === 'credit') {
+          const { match, suggestion } = matchPayment(transaction, candidates);
+
+          if (match) {
+            const paidAt = transaction.valueDate ?? transaction.bookingDate;
+            const [entry] = await tx
+              .insert(ledgerEntries)
+              .values({
+                organizationId,
+                contractId: match.contractId,
+                tenantId: match.tenantId,
+                entryType: 'payment',
+                category: 'rent',
+                amount: value.amount,
+                period: toPeriod(paidAt),
+                bookingDate: paidAt,
+                paymentMethod: 'bank_transfer',
+                reference: transaction.reference?.slice(0, 140),
+                description: describePayment(transaction),
+                createdById: importedById,
+              })
+              .returning();
+
+            auditEntries.push({
+              organizationId,
+              entityType: 'ledger_entry',
+              entityId: entry.id,
+              action: 'create',
+              after: entry,
+            });
+
+            Object.assign(value, {
+              status: 'matched',
+              contractId: match.contractId,
+              ledgerEntryId: entry.id,
+              matchScore: match.score,
+              matchedAt: now,
+            });
+          } else if (suggestion) {
+            Object.assign(value, {
+              suggestedContractId: suggestion.contractId,
+              matchScore: suggestion.score,
+            });
+          }
+        }
+
+        values.push(value);
+      }
+
+      const created = values.length > 0
+        ? await tx.insert(bankTransactions).values(values).returning()
+        : [];
+
+      auditEntries.push(...created.map(transaction => ({
+        organizationId,
+        entityType: 'bank_transaction' as const,
+        entityId: transaction.id,
+        action: 'create' as const,
+        after: transaction,
+      })));
+
+      await recordAuditEvents(auditEntries, tx);
+
+      return {
+        statement,
+        imported: created.length,
+        duplicates: parsed.transactions.length - created.length,
+        matched: created.filter(transaction => transaction.status === 'matched').length,
+        unmatched: created.filter(transaction => transaction.status === 'unmatched').length,
+        ignored: created.filter(transaction => transaction.status === 'ignored').length,
+      };
+    }));
+  }
+
+  /**
+   * Get imported statements, newest first
+   */
+  static async getStatements(
+    organizationId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ statements: BankStatement[]; total: number }> {
+    const { limit = 50, offset = 0 } = options;
+    const whereConditions = eq(bankStatements.organizationId, organizationId);
+
+    const [statements, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(bankStatements)
+        .where(whereConditions)
+        .orderBy(desc(bankStatements.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(bankStatements)
+        .where(whereConditions),
+    ]);
+
+    return { statements, total };
+  }
+
+  /**
+   * Get imported bookings with their matched or suggested contract, oldest first
+   */
+  static async getTransactions(
+    organizationId: string,
+    filters: BankTransactionFilters & { limit?: number; offset?: number } = {}
+  ) {
+    const { status, statementId, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(bankTransactions.organizationId, organizationId);
+
+    if (status) {
+      whereConditions = and(whereConditions, eq(bankTransactions.status, status));
+    }
+
+    if (statementId) {
+      whereConditions = and(whereConditions, eq(bankTransactions.statementId, statementId));
+    }
+
+    const [transactions, [{ total }]] = await Promise.all([
+      db
+        .select({
+          transaction: bankTransactions,
+          contract: {
+            id: matchedContracts.id,
+            contractNumber: matchedContracts.contractNumber,
+            unitNumber: matchedContracts.unitNumber,
+          },
+          suggestedContract: {
+            id: suggestedContracts.id,
+            contractNumber: suggestedContracts.contractNumber,
+            unitNumber: suggestedContracts.unitNumber,
+          },
+        })
+        .from(bankTransactions)
+        .leftJoin(matchedContracts, eq(bankTransactions.contractId, matchedContracts.id))
+        .leftJoin(suggestedContracts, eq(bankTransactions.suggestedContractId, suggestedContracts.id))
+        .where(whereConditions)
+        .orderBy(asc(bankTransactions.bookingDate), asc(bankTransactions.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(bankTransactions)
+        .where(whereConditions),
+    ]);
+
+    return { transactions, total };
+  }
+
+  /**
+   * Get bank transaction by ID
+   */
+  static async getTransactionById(id: string, organizationId: string): Promise<BankTransaction | null> {
+    const [transaction] = await db
+      .select()
+      .from(bankTransactions)
+      .where(
+        and(
+          eq(bankTransactions.id, id),
+          eq(bankTransactions.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return transaction || null;
+  }
+
+  /**
+   * Manually assign a credit from the reconciliation queue to a contract and book it as payment
+   */
+  static async assignTransaction(
+    id: string,
+    organizationId: string,
+    data: { contractId: string; tenantId?: string },
+    userId: string
+  ): Promise<{ transaction: BankTransaction; entry: LedgerEntry } | null> {
+    const before = await this.getTransactionById(id, organizationId);
+    if (!before) return null;
+
+    if (before.creditDebit !== 'credit') {
+      throw new ConflictError('Only incoming payments can be assigned to a contract');
+    }
+    if (before.status === 'matched') {
+      throw new ConflictError('Bank transaction is already assigned; unassign it first');
+    }
+
+    const paidAt = before.valueDate ?? before.bookingDate;
+    const entry = await LedgerService.createEntry(organizationId, {
+      contractId: data.contractId,
+      tenantId: data.tenantId,
+      entryType: 'payment',
+      category: 'rent',
+      amount: before.amount,
+      period: toPeriod(paidAt),
+      bookingDate: paidAt,
+      paymentMethod: 'bank_transfer',
+      reference: before.reference?.slice(0, 140),
+      description: describePayment(before),
+    }, userId);
+
+    const [transaction] = await db
+      .update(bankTransactions)
+      .set({
+        status: 'matched',
+        contractId: data.contractId,
+        ledgerEntryId: entry.id,
+        matchedById: userId,
+        matchedAt: new Date(),
+      })
+      .where(eq(bankTransactions.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'bank_transaction',
+      entityId: id,
+      action: 'update',
+      before,
+      after: transaction,
+    });
+
+    return { transaction, entry };
+  }
+
+  /**
+   * Undo a match: the booked payment is deleted and the transaction returns to the queue
+   */
+  static async unassignTransaction(id: string, organizationId: string): Promise<BankTransaction | null> {
+    const before = await this.getTransactionById(id, organizationId);
+    if (!before) return null;
+
+    if (before.status !== 'matched' || !before.ledgerEntryId) {
+      throw new ConflictError('Bank transaction is not assigned to a contract');
+    }
+
+    // Deleting the payment resets the transaction, see LedgerService.delete
+    await LedgerService.delete(before.ledgerEntryId, organizationId);
+
+    return await this.getTransactionById(id, organizationId);
+  }
+
+  /**
+   * Set a queued transaction aside (e.g. a refund or a payment unrelated to rent), or back to the queue
+   */
+  static async setIgnored(id: string, organizationId: string, ignored: boolean): Promise<BankTransaction | null> {
+    const before = await this.getTransactionById(id, organizationId);
+    if (!before) return null;
+
+    if (before.status === 'matched') {
+      throw new ConflictError('Bank transaction is assigned to a contract; unassign it first');
+    }
+    if (!ignored && before.creditDebit !== 'credit') {
+      throw new ConflictError('Only incoming payments can be reconciled');
+    }
+
+    const [transaction] = await db
+      .update(bankTransactions)
+      .set({ status: ignored ? 'ignored' : 'unmatched' })
+      .where(eq(bankTransactions.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'bank_transaction',
+      entityId: id,
+      action: 'update',
+      before,
+      after: transaction,
+    });
+
+    return transaction;
+  }
+}
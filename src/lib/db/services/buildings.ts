@@ -9,6 +9,8 @@ import {
   type Building, 
   type NewBuilding 
 } from '../schema';
+import { recordAuditEvent } from '../audit';
+import { UnitService } from './units';
 
 export class BuildingService {
   /**
@@ -20,6 +22,14 @@ export class BuildingService {
       .values(data)
       .returning();
 
+    await recordAuditEvent({
+      organizationId: building.organizationId,
+      entityType: 'building',
+      entityId: building.id,
+      action: 'create',
+      after: building,
+    });
+
     return building;
   }
 
@@ -67,6 +77,9 @@ export class BuildingService {
     organizationId: string,
     data: Partial<Omit<Building, 'id' | 'organizationId' | 'createdAt'>>
   ): Promise<Building | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
     const [building] = await db
       .update(buildings)
       .set({ ...data, updatedAt: new Date() })
@@ -78,6 +91,15 @@ export class BuildingService {
       )
       .returning();
 
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'building',
+      entityId: id,
+      action: 'update',
+      before,
+      after: building,
+    });
+
     return building || null;
   }
 
@@ -111,6 +133,16 @@ export class BuildingService {
         )
         .returning();
 
+      if (deleted) {
+        await recordAuditEvent({
+          organizationId,
+          entityType: 'building',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+      }
+
       return !!deleted;
     } catch (error) {
       console.error('Failed to delete building:', error);
@@ -153,6 +185,8 @@ export class BuildingService {
       .leftJoin(documents, eq(buildings.id, documents.buildingId))
       .where(eq(buildings.id, id));
 
+    const occupancy = await this.getOccupancy(building);
+
     return {
       ...building,
       stats: {
@@ -160,17 +194,15 @@ export class BuildingService {
         activeContracts: Number(stats?.activeContracts || 0),
         openTickets: Number(stats?.openTickets || 0),
         documentCount: Number(stats?.documentCount || 0),
-        occupancyRate: building.totalUnits > 0 
-          ? Math.round((Number(stats?.activeContracts || 0) / building.totalUnits) * 100)
-          : 0,
+        occupancyRate: occupancy.rate,
       },
     };
   }
 
   /**
-   * Get building occupancy details
+   * Get building occupancy details. Units are vacant on the days no contract covers.
    */
-  static async getOccupancyDetails(id: string, organizationId: string) {
+  static async getOccupancyDetails(id: string, organizationId: string, asOf: Date = new Date()) {
     const building = await this.getById(id, organizationId);
     if (!building) return null;
 
@@ -178,6 +210,7 @@ export class BuildingService {
     const contractsList = await db
       .select({
         id: contracts.id,
+        unitId: contracts.unitId,
         unitNumber: contracts.unitNumber,
         contractNumber: contracts.contractNumber,
         isActive: contracts.isActive,
@@ -194,18 +227,13 @@ export class BuildingService {
       )
       .orderBy(contracts.unitNumber);
 
-    const occupiedUnits = contractsList.filter(c => c.isActive).length;
-    const availableUnits = building.totalUnits - occupiedUnits;
+    const { units, ...occupancy } = await this.getOccupancy(building, asOf);
 
     return {
       building,
+      units,
       contracts: contractsList,
-      occupancy: {
-        total: building.totalUnits,
-        occupied: occupiedUnits,
-        available: availableUnits,
-        rate: building.totalUnits > 0 ? Math.round((occupiedUnits / building.totalUnits) * 100) : 0,
-      },
+      occupancy,
     };
   }
 
@@ -232,4 +260,20 @@ export class BuildingService {
       )
       .limit(limit);
   }
+
+  private static async getOccupancy(building: Building, asOf: Date = new Date()) {
+    const units = await UnitService.getByBuilding(building.id, building.organizationId, asOf);
+
+    // Buildings whose units were not recorded yet count with their number of units
+    const total = units.length || building.totalUnits;
+    const occupied = units.filter(unit => unit.occupancy.status === 'occupied').length;
+
+    return {
+      units,
+      total,
+      occupied,
+      available: total - occupied,
+      rate: total > 0 ? Math.round((occupied / total) * 100) : 0,
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,304 @@
+// src/lib/db/services/consumption-anomalies.ts
+import { eq, and, asc, desc, count, gte, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  consumptionAnomalies,
+  consumptionRecords,
+  contracts,
+  buildings,
+  users,
+  type ConsumptionAnomaly,
+  type ConsumptionAnomalyStatus,
+  type ConsumptionAnomalyType,
+  type ConsumptionRecord,
+  type ConsumptionType,
+} from '../schema';
+import { recordAuditEvent, recordAuditEvents } from '../audit';
+import {
+  ANOMALY_LOOKBACK_MONTHS,
+  BASELINE_RECORDS,
+  detectAnomalies,
+  needsInspection,
+  type ConsumptionSample,
+} from '../../consumption';
+import { toPeriod } from '../../ledger';
+import { emitWebhookEvent } from '../../webhooks';
+import { TicketService } from './tickets';
+
+export interface ConsumptionAnomalyFilters {
+  status?: ConsumptionAnomalyStatus;
+  type?: ConsumptionAnomalyType;
+  consumptionType?: ConsumptionType;
+  contractId?: string;
+  detectedSince?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AnomalyDetectionOptions {
+  contractId?: string;
+  since?: string; // First period to check, ANOMALY_LOOKBACK_MONTHS ago by default
+  userId?: string; // Creator of the tickets, the first admin of the organization by default
+}
+
+export class ConsumptionAnomalyService {
+  /**
+   * Get anomalies with their contract, latest first
+   */
+  static async getAnomalies(organizationId: string, filters: ConsumptionAnomalyFilters = {}) {
+    const { status, type, consumptionType, contractId, detectedSince, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(consumptionAnomalies.organizationId, organizationId);
+
+    if (status) {
+      whereConditions = and(whereConditions, eq(consumptionAnomalies.status, status));
+    }
+    if (type) {
+      whereConditions = and(whereConditions, eq(consumptionAnomalies.type, type));
+    }
+    if (consumptionType) {
+      whereConditions = and(whereConditions, eq(consumptionAnomalies.consumptionType, consumptionType));
+    }
+    if (contractId) {
+      whereConditions = and(whereConditions, eq(consumptionAnomalies.contractId, contractId));
+    }
+    if (detectedSince) {
+      whereConditions = and(whereConditions, gte(consumptionAnomalies.createdAt, detectedSince));
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({
+          anomaly: consumptionAnomalies,
+          contractNumber: contracts.contractNumber,
+          unitNumber: contracts.unitNumber,
+          buildingName: buildings.name,
+        })
+        .from(consumptionAnomalies)
+        .innerJoin(contracts, eq(consumptionAnomalies.contractId, contracts.id))
+        .leftJoin(buildings, eq(contracts.buildingId, buildings.id))
+        .where(whereConditions)
+        .orderBy(desc(consumptionAnomalies.createdAt), desc(consumptionAnomalies.period))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(consumptionAnomalies)
+        .where(whereConditions),
+    ]);
+
+    return {
+      anomalies: rows.map(({ anomaly, ...contract }) => ({ ...anomaly, ...contract })),
+      total,
+    };
+  }
+
+  /**
+   * Get anomaly by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<ConsumptionAnomaly | null> {
+    const [anomaly] = await db
+      .select()
+      .from(consumptionAnomalies)
+      .where(
+        and(
+          eq(consumptionAnomalies.id, id),
+          eq(consumptionAnomalies.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return anomaly || null;
+  }
+
+  /**
+   * Check the consumption records of the recent periods and store the anomalies found.
+   * Each meter of a contract is a series of its own; records of the same period are added
+   * up. Anomalies that were stored before are skipped, so runs can overlap. Anomalies that
+   * point at a leak or a broken meter get a utilities ticket.
+   */
+  static async detect(organizationId: string, options: AnomalyDetectionOptions = {}): Promise<ConsumptionAnomaly[]> {
+    const now = new Date();
+    const since = options.since ??
+      toPeriod(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - ANOMALY_LOOKBACK_MONTHS, 1)));
+    const [year, month] = since.split('-').map(Number);
+    // Twice the baseline leaves room for months without records
+    const baselineStart = toPeriod(new Date(Date.UTC(year, month - 1 - BASELINE_RECORDS * 2, 1)));
+
+    let whereConditions: SQL | undefined = and(
+      eq(consumptionRecords.organizationId, organizationId),
+      gte(consumptionRecords.period, baselineStart)
+    );
+    if (options.contractId) {
+      whereConditions = and(whereConditions, eq(consumptionRecords.contractId, options.contractId));
+    }
+
+    const records = await db
+      .select()
+      .from(consumptionRecords)
+      .where(whereConditions)
+      .orderBy(asc(consumptionRecords.period), asc(consumptionRecords.readingDate));
+
+    const series = new Map<string, ConsumptionRecord[]>();
+    for (const record of records) {
+      const key = `${record.contractId}:${record.consumptionType}:${record.meterNumber ?? ''}`;
+      const seriesRecords = series.get(key) || [];
+      seriesRecords.push(record);
+      series.set(key, seriesRecords);
+    }
+
+    const values = Array.from(series.values()).flatMap(seriesRecords => {
+      const [{ contractId, consumptionType }] = seriesRecords;
+
+      return detectAnomalies(this.toSamples(seriesRecords), consumptionType, since).map(finding => ({
+        organizationId,
+        contractId,
+        consumptionRecordId: finding.recordId,
+        consumptionType,
+        type: finding.type,
+        period: seriesRecords.find(record => record.id === finding.recordId)?.period ?? since,
+        value: String(finding.value),
+        baseline: finding.baseline === null ? null : String(finding.baseline),
+        message: finding.message,
+      }));
+    });
+
+    if (values.length === 0) return [];
+
+    const anomalies = await db
+      .insert(consumptionAnomalies)
+      .values(values)
+      .onConflictDoNothing()
+      .returning();
+
+    if (anomalies.length === 0) return [];
+
+    await recordAuditEvents(anomalies.map(anomaly => ({
+      organizationId,
+      entityType: 'consumption_anomaly' as const,
+      entityId: anomaly.id,
+      action: 'create' as const,
+      after: anomaly,
+    })));
+    await emitWebhookEvent(organizationId, 'consumption.anomaly_detected', anomalies.map(anomaly => ({ anomaly })));
+
+    return await this.createTickets(organizationId, anomalies, options.userId);
+  }
+
+  /**
+   * Mark an anomaly as acknowledged, dismissed or resolved
+   */
+  static async updateStatus(
+    id: string,
+    organizationId: string,
+    status: ConsumptionAnomalyStatus,
+    userId: string
+  ): Promise<ConsumptionAnomaly | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    const [anomaly] = await db
+      .update(consumptionAnomalies)
+      .set({
+        status,
+        reviewedById: status === 'open' ? null : userId,
+        reviewedAt: status === 'open' ? null : new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(consumptionAnomalies.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'consumption_anomaly',
+      entityId: id,
+      action: 'update',
+      before,
+      after: anomaly,
+    });
+
+    return anomaly;
+  }
+
+  private static toSamples(records: ConsumptionRecord[]): ConsumptionSample[] {
+    const samples: ConsumptionSample[] = [];
+
+    for (const record of records) {
+      const last = samples[samples.length - 1];
+      if (last && last.period === record.period) {
+        // The latest record of the period stands for it
+        last.id = record.id;
+        last.reading = Math.round((last.reading + Number(record.reading)) * 1000) / 1000;
+      } else {
+        samples.push({ id: record.id, period: record.period, reading: Number(record.reading) });
+      }
+    }
+
+    return samples;
+  }
+
+  private static async createTickets(
+    organizationId: string,
+    anomalies: ConsumptionAnomaly[],
+    userId?: string
+  ): Promise<ConsumptionAnomaly[]> {
+    const inspections = anomalies.filter(anomaly => needsInspection(anomaly.consumptionType, anomaly.type));
+    if (inspections.length === 0) return anomalies;
+
+    const creatorId = userId ?? (await this.getFirstAdminId(organizationId));
+    if (!creatorId) return anomalies;
+
+    const withTickets = new Map<string, ConsumptionAnomaly>();
+
+    for (const anomaly of inspections) {
+      const [contract] = await db
+        .select({ buildingId: contracts.buildingId, unitNumber: contracts.unitNumber })
+        .from(contracts)
+        .where(eq(contracts.id, anomaly.contractId))
+        .limit(1);
+
+      if (!contract) continue;
+
+      const stuck = anomaly.type === 'flat_usage' && Number(anomaly.value) === 0;
+      const ticket = await TicketService.create({
+        organizationId,
+        buildingId: contract.buildingId,
+        contractId: anomaly.contractId,
+        createdById: creatorId,
+        title: stuck
+          ? `Check water meter of unit ${contract.unitNumber}`
+          : `Possible water leak in unit ${contract.unitNumber}`,
+        description: `${anomaly.message}.\n\nOpened automatically by the consumption anomaly detection.`,
+        priority: stuck ? 'medium' : 'high',
+        category: 'utilities',
+      });
+
+      const [updated] = await db
+        .update(consumptionAnomalies)
+        .set({ ticketId: ticket.id, updatedAt: new Date() })
+        .where(eq(consumptionAnomalies.id, anomaly.id))
+        .returning();
+
+      withTickets.set(anomaly.id, updated);
+    }
+
+    return anomalies.map(anomaly => withTickets.get(anomaly.id) || anomaly);
+  }
+
+  private static async getFirstAdminId(organizationId: string): Promise<string | null> {
+    const [admin] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(
+        and(
+          eq(users.organizationId, organizationId),
+          eq(users.role, 'landlord_admin'),
+          eq(users.isActive, true)
+        )
+      )
+      .orderBy(asc(users.createdAt))
+      .limit(1);
+
+    return admin?.id ?? null;
+  }
+}
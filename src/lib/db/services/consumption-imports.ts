@@ -0,0 +1,294 @@
+// src/lib/db/services/consumption-imports.ts
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { contracts, meters, type Contract, type ConsumptionType, type Meter } from '../schema';
+import { ValidationError } from '../errors';
+import { createBulkConsumptionRecords } from '../transactions';
+import { bulkConsumptionRecordSchema } from '../validations';
+import { ConsumptionService } from './consumption';
+import {
+  DEFAULT_UNITS,
+  ImportParseError,
+  getRowPeriod,
+  mapImportRows,
+  parseConsumptionType,
+  parseDecimal,
+  parseImportDate,
+  parseImportFile,
+  resolveColumnMapping,
+  type ColumnMapping,
+  type ImportFormat,
+  type ImportRow,
+  type ImportTable,
+} from '../../consumption-import';
+import { overlapsRange } from '../../units';
+import { emitWebhookEvent } from '../../webhooks';
+
+export interface ConsumptionImportOptions {
+  content: Buffer;
+  fileName?: string;
+  format?: ImportFormat; // Detected from the content by default
+  mapping?: ColumnMapping;
+  buildingId?: string; // Building of rows identified by unit number only
+  consumptionType?: ConsumptionType; // For files without a type column
+  unit?: string; // For files without a unit column
+  dryRun?: boolean;
+}
+
+type ImportRecord = ReturnType<typeof bulkConsumptionRecordSchema.parse>[number];
+
+export interface ConsumptionImportReport {
+  fileName: string | null;
+  format: ImportFormat;
+  mapping: ColumnMapping;
+  dryRun: boolean;
+  totalRows: number;
+  accepted: Array<{ row: number; record: ImportRecord }>;
+  rejected: Array<{ row: number; reason: string; values: ImportRow['values'] }>;
+  created: number;
+}
+
+type ContractCandidate = Pick<
+  Contract,
+  'id' | 'contractNumber' | 'buildingId' | 'unitId' | 'unitNumber' | 'startDate' | 'endDate' | 'isActive'
+>;
+
+type MeterCandidate = Pick<Meter, 'meterNumber' | 'buildingId' | 'unitId' | 'consumptionType' | 'unit'>;
+
+export class ConsumptionImportService {
+  /**
+   * Import consumption records from a CSV, XLSX or meter-service file. Each row is assigned
+   * to a contract by its contract number, its meter number or its unit number, validated like
+   * a bulk entry and checked for records that already exist for its period. A dry run only
+   * reports which rows would be accepted; otherwise the accepted rows are created together.
+   */
+  static async importFile(organizationId: string, options: ConsumptionImportOptions): Promise<ConsumptionImportReport> {
+    let table: ImportTable;
+    let mapping: ColumnMapping;
+    try {
+      table = parseImportFile(options.content, options.format);
+      mapping = resolveColumnMapping(table, options.mapping);
+    } catch (error) {
+      if (error instanceof ImportParseError) {
+        throw new ValidationError(error.message, 'content');
+      }
+      throw error;
+    }
+
+    const missing = [
+      !mapping.reading && 'reading',
+      !mapping.period && !mapping.readingDate && 'reading date or period',
+      !mapping.contractNumber && !mapping.meterNumber && !mapping.unitNumber && 'contract, meter or unit number',
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      throw new ValidationError(`No column found for ${missing.join(', ')}; map the columns explicitly`, 'mapping');
+    }
+
+    const [contractRows, meterRows] = await Promise.all([
+      db
+        .select({
+          id: contracts.id,
+          contractNumber: contracts.contractNumber,
+          buildingId: contracts.buildingId,
+          unitId: contracts.unitId,
+          unitNumber: contracts.unitNumber,
+          startDate: contracts.startDate,
+          endDate: contracts.endDate,
+          isActive: contracts.isActive,
+        })
+        .from(contracts)
+        .where(eq(contracts.organizationId, organizationId)),
+      mapping.meterNumber
+        ? db
+            .select({
+              meterNumber: meters.meterNumber,
+              buildingId: meters.buildingId,
+              unitId: meters.unitId,
+              consumptionType: meters.consumptionType,
+              unit: meters.unit,
+            })
+            .from(meters)
+            .where(eq(meters.organizationId, organizationId))
+        : Promise.resolve([]),
+    ]);
+
+    const rows = mapImportRows(table, mapping);
+    const accepted: ConsumptionImportReport['accepted'] = [];
+    const rejected: ConsumptionImportReport['rejected'] = [];
+    const seen = new Map<string, number>();
+
+    for (const { row, values } of rows) {
+      const result = this.toRecord(organizationId, values, table.format, options, contractRows, meterRows);
+      if (typeof result === 'string') {
+        rejected.push({ row, reason: result, values });
+        continue;
+      }
+
+      const key = `${result.contractId}:${result.consumptionType}:${result.period}`;
+      const duplicateOf = seen.get(key);
+      if (duplicateOf) {
+        rejected.push({ row, reason: `Duplicate of row ${duplicateOf}`, values });
+        continue;
+      }
+      seen.set(key, row);
+
+      if (await ConsumptionService.existsForPeriod(result.contractId, result.consumptionType, result.period)) {
+        rejected.push({ row, reason: `A ${result.consumptionType} record for ${result.period} already exists`, values });
+        continue;
+      }
+
+      accepted.push({ row, record: result });
+    }
+
+    let created = 0;
+    if (accepted.length > 0) {
+      const batch = bulkConsumptionRecordSchema.safeParse(accepted.map(({ record }) => record));
+      if (!batch.success) {
+        throw new ValidationError(batch.error.issues[0].message, 'content');
+      }
+
+      if (!options.dryRun) {
+        const records = await createBulkConsumptionRecords(organizationId, batch.data);
+        await emitWebhookEvent(
+          organizationId,
+          'consumption.recorded',
+          records.map(record => ({ record }))
+        );
+        created = records.length;
+      }
+    }
+
+    return {
+      fileName: options.fileName ?? null,
+      format: table.format,
+      mapping,
+      dryRun: !!options.dryRun,
+      totalRows: rows.length,
+      accepted,
+      rejected,
+      created,
+    };
+  }
+
+  /**
+   * Validated record of a row, or the reason it was rejected
+   */
+  private static toRecord(
+    organizationId: string,
+    values: ImportRow['values'],
+    format: ImportFormat,
+    options: ConsumptionImportOptions,
+    contractRows: ContractCandidate[],
+    meterRows: MeterCandidate[]
+  ): ImportRecord | string {
+    const readingDate = values.readingDate ? parseImportDate(values.readingDate, format) : null;
+    if (values.readingDate && !readingDate) {
+      return `Invalid reading date "${values.readingDate}"`;
+    }
+
+    const period = getRowPeriod(values.period, readingDate);
+    if (!period) {
+      return values.period ? `Invalid period "${values.period}"` : 'Reading date or period is required';
+    }
+
+    const reading = values.reading ? parseDecimal(values.reading) : null;
+    if (!reading) {
+      return values.reading ? `Invalid reading "${values.reading}"` : 'Reading is required';
+    }
+
+    const cost = values.cost ? parseDecimal(values.cost) : null;
+    if (values.cost && !cost) {
+      return `Invalid cost "${values.cost}"`;
+    }
+
+    // Without a reading date the record is dated to the first day of its period
+    const [year, month] = period.split('-').map(Number);
+    const date = readingDate ?? new Date(Date.UTC(year, month - 1, 1));
+
+    let meter: MeterCandidate | undefined;
+    if (values.meterNumber) {
+      const matches = meterRows.filter(candidate =>
+        candidate.meterNumber === values.meterNumber &&
+        (!options.buildingId || candidate.buildingId === options.buildingId)
+      );
+      if (matches.length > 1) {
+        return `Meter ${values.meterNumber} is registered in more than one building`;
+      }
+      meter = matches[0];
+    }
+
+    const consumptionType = values.consumptionType
+      ? parseConsumptionType(values.consumptionType)
+      : meter?.consumptionType ?? options.consumptionType ?? null;
+    if (!consumptionType) {
+      return values.consumptionType
+        ? `Unknown consumption type "${values.consumptionType}"`
+        : 'Consumption type is required';
+    }
+
+    const contract = this.findContract(values, meter, date, options.buildingId, contractRows);
+    if (typeof contract === 'string') return contract;
+
+    const result = bulkConsumptionRecordSchema.element.safeParse({
+      organizationId,
+      contractId: contract.id,
+      consumptionType,
+      period,
+      reading,
+      unit: values.unit ?? meter?.unit ?? options.unit ?? DEFAULT_UNITS[consumptionType] ?? '',
+      cost: cost ?? undefined,
+      meterNumber: values.meterNumber,
+      readingDate: date,
+    });
+
+    return result.success ? result.data : result.error.issues[0].message;
+  }
+
+  /**
+   * Contract of a row on its reading date, or the reason none was found
+   */
+  private static findContract(
+    values: ImportRow['values'],
+    meter: MeterCandidate | undefined,
+    date: Date,
+    buildingId: string | undefined,
+    contractRows: ContractCandidate[]
+  ): ContractCandidate | string {
+    if (values.contractNumber) {
+      const contract = contractRows.find(candidate => candidate.contractNumber === values.contractNumber);
+      return contract || `Contract ${values.contractNumber} not found`;
+    }
+
+    let matches: ContractCandidate[];
+    let subject: string;
+    if (meter) {
+      if (!meter.unitId) {
+        return `Meter ${meter.meterNumber} belongs to the whole building, not to a unit`;
+      }
+      matches = contractRows.filter(candidate => candidate.unitId === meter.unitId);
+      subject = `the unit of meter ${meter.meterNumber}`;
+    } else if (values.unitNumber) {
+      if (!buildingId) {
+        return 'Rows identified by unit number need a building';
+      }
+      matches = contractRows.filter(candidate =>
+        candidate.buildingId === buildingId && candidate.unitNumber === values.unitNumber
+      );
+      subject = `unit ${values.unitNumber}`;
+    } else {
+      return values.meterNumber
+        ? `Meter ${values.meterNumber} not found`
+        : 'Contract number, meter number or unit number is required';
+    }
+
+    const current = matches.filter(candidate => overlapsRange(candidate, date));
+    if (current.length === 0) {
+      return `No contract covers ${subject} on ${date.toISOString().slice(0, 10)}`;
+    }
+    if (current.length > 1) {
+      return `More than one contract covers ${subject} on ${date.toISOString().slice(0, 10)}`;
+    }
+
+    return current[0];
+  }
+}
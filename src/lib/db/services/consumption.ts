@@ -9,6 +9,8 @@ import {
   type ConsumptionRecord, 
   type NewConsumptionRecord 
 } from '../schema';
+import { recordAuditEvent, recordAuditEvents } from '../audit';
+import { emitWebhookEvent } from '../../webhooks';
 
 export class ConsumptionService {
   /**
@@ -20,6 +22,15 @@ export class ConsumptionService {
       .values(data)
       .returning();
 
+    await recordAuditEvent({
+      organizationId: record.organizationId,
+      entityType: 'consumption_record',
+      entityId: record.id,
+      action: 'create',
+      after: record,
+    });
+    await emitWebhookEvent(record.organizationId, 'consumption.recorded', { record });
+
     return record;
   }
 
@@ -31,10 +42,32 @@ export class ConsumptionService {
   ): Promise<ConsumptionRecord[]> {
     if (data.length === 0) return [];
 
-    return await db
+    const records = await db
       .insert(consumptionRecords)
       .values(data)
       .returning();
+
+    await recordAuditEvents(
+      records.map(record => ({
+        organizationId: record.organizationId,
+        entityType: 'consumption_record' as const,
+        entityId: record.id,
+        action: 'create' as const,
+        after: record,
+      }))
+    );
+
+    // One event per record, queued per organization
+    const organizationIds = Array.from(new Set(records.map(record => record.organizationId)));
+    for (const organizationId of organizationIds) {
+      await emitWebhookEvent(
+        organizationId,
+        'consumption.recorded',
+        records.filter(record => record.organizationId === organizationId).map(record => ({ record }))
+      );
+    }
+
+    return records;
   }
 
   /**
@@ -169,6 +202,9 @@ export class ConsumptionService {
     organizationId: string,
     data: Partial<Omit<ConsumptionRecord, 'id' | 'organizationId' | 'createdAt'>>
   ): Promise<ConsumptionRecord | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
     const [record] = await db
       .update(consumptionRecords)
       .set({ ...data, updatedAt: new Date() })
@@ -180,6 +216,15 @@ export class ConsumptionService {
       )
       .returning();
 
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'consumption_record',
+      entityId: id,
+      action: 'update',
+      before,
+      after: record,
+    });
+
     return record || null;
   }
 
@@ -198,6 +243,16 @@ export class ConsumptionService {
         )
         .returning();
 
+      if (deleted) {
+        await recordAuditEvent({
+          organizationId,
+          entityType: 'consumption_record',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+      }
+
       return !!deleted;
     } catch (error) {
       console.error('Failed to delete consumption record:', error);
@@ -8,22 +8,50 @@ import {
   users,
   consumptionRecords,
   tickets,
+  rentAdjustments,
   type Contract, 
   type NewContract,
   type TenantContract,
-  type NewTenantContract 
+  type NewTenantContract,
+  type Unit
 } from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, type AuditEntry } from '../audit';
+import { UnitService } from './units';
+import { overlapsRange } from '../../units';
+
+// Contracts name their unit by ID, or by number for units that are created on the fly
+export type ContractInput = Omit<NewContract, 'id' | 'unitNumber' | 'createdAt' | 'updatedAt'> & {
+  unitNumber?: string;
+};
 
 export class ContractService {
   /**
-   * Create a new contract
+   * Create a new contract for a unit that is not let in the contract period.
+   * The living area defaults to the area of the unit.
    */
-  static async create(data: Omit<NewContract, 'id' | 'createdAt' | 'updatedAt'>): Promise<Contract> {
+  static async create(data: ContractInput): Promise<Contract> {
+    const unit = await this.resolveUnit(data.organizationId, data.buildingId, data);
+    await this.assertUnitAvailable(unit, data.startDate, data.endDate ?? null, data.organizationId);
+
     const [contract] = await db
       .insert(contracts)
-      .values(data)
+      .values({
+        ...data,
+        unitId: unit.id,
+        unitNumber: unit.unitNumber,
+        livingArea: data.livingArea ?? unit.livingArea,
+      })
       .returning();
 
+    await recordAuditEvent({
+      organizationId: contract.organizationId,
+      entityType: 'contract',
+      entityId: contract.id,
+      action: 'create',
+      after: contract,
+    });
+
     return contract;
   }
 
@@ -143,16 +171,63 @@ export class ContractService {
   }
 
   /**
-   * Update contract
+   * Check whether a tenant is a party to a contract
+   */
+  static async hasTenant(contractId: string, tenantId: string): Promise<boolean> {
+    const [tenantContract] = await db
+      .select({ id: tenantContracts.id })
+      .from(tenantContracts)
+      .where(
+        and(
+          eq(tenantContracts.contractId, contractId),
+          eq(tenantContracts.tenantId, tenantId)
+        )
+      )
+      .limit(1);
+
+    return !!tenantContract;
+  }
+
+  /**
+   * Update contract. A changed rent is recorded in the rent history as a manual
+   * change from the current month on.
    */
   static async update(
     id: string,
     organizationId: string,
     data: Partial<Omit<Contract, 'id' | 'organizationId' | 'createdAt'>>
   ): Promise<Contract | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    // Moving the contract to another building keeps the unit number
+    let unit: Unit | null = null;
+    if (data.unitId || data.unitNumber || data.buildingId) {
+      unit = await this.resolveUnit(organizationId, data.buildingId ?? before.buildingId, {
+        unitId: data.unitId,
+        unitNumber: data.unitNumber ?? (data.unitId ? undefined : before.unitNumber),
+      });
+    }
+
+    const unitId = unit?.id ?? before.unitId;
+    const rescheduled = data.startDate !== undefined || data.endDate !== undefined || data.isActive === true;
+    if (unitId && (unit || rescheduled)) {
+      await this.assertUnitAvailable(
+        unit ?? { id: unitId, unitNumber: before.unitNumber },
+        data.startDate ?? before.startDate,
+        data.endDate !== undefined ? data.endDate : before.endDate,
+        organizationId,
+        id
+      );
+    }
+
     const [contract] = await db
       .update(contracts)
-      .set({ ...data, updatedAt: new Date() })
+      .set({
+        ...data,
+        ...(unit && { unitId: unit.id, unitNumber: unit.unitNumber }),
+        updatedAt: new Date(),
+      })
       .where(
         and(
           eq(contracts.id, id),
@@ -161,6 +236,45 @@ export class ContractService {
       )
       .returning();
 
+    const audit: AuditEntry[] = [
+      {
+        organizationId,
+        entityType: 'contract',
+        entityId: id,
+        action: 'update',
+        before,
+        after: contract,
+      },
+    ];
+
+    if (data.rentAmount !== undefined && Number(data.rentAmount) !== Number(before.rentAmount)) {
+      const now = new Date();
+      const [adjustment] = await db
+        .insert(rentAdjustments)
+        .values({
+          organizationId,
+          contractId: id,
+          type: 'manual',
+          status: 'applied',
+          effectiveDate: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+          previousRent: before.rentAmount,
+          newRent: contract.rentAmount,
+          reason: 'Changed on the contract',
+          appliedAt: now,
+        })
+        .returning();
+
+      audit.push({
+        organizationId,
+        entityType: 'rent_adjustment',
+        entityId: adjustment.id,
+        action: 'create',
+        after: adjustment,
+      });
+    }
+
+    await recordAuditEvents(audit);
+
     return contract || null;
   }
 
@@ -185,6 +299,14 @@ export class ContractService {
       })
       .returning();
 
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'tenant_contract',
+      entityId: tenantContract.id,
+      action: 'create',
+      after: tenantContract,
+    });
+
     return tenantContract;
   }
 
@@ -208,6 +330,16 @@ export class ContractService {
         )
         .returning();
 
+      if (deleted) {
+        await recordAuditEvent({
+          organizationId,
+          entityType: 'tenant_contract',
+          entityId: deleted.id,
+          action: 'delete',
+          before: deleted,
+        });
+      }
+
       return !!deleted;
     } catch (error) {
       console.error('Failed to remove tenant from contract:', error);
@@ -276,32 +408,33 @@ export class ContractService {
   }
 
   /**
-   * Check if unit number is available in building
+   * Check whether no other contract of a unit covers any day of a period.
+   * Open-ended periods run until the contract is terminated.
    */
   static async isUnitAvailable(
-    buildingId: string,
-    unitNumber: string,
+    unitId: string,
+    startDate: Date,
+    endDate: Date | null,
     organizationId: string,
     excludeContractId?: string
   ): Promise<boolean> {
-    let query = db
-      .select({ id: contracts.id })
+    const unitContracts = await db
+      .select({
+        id: contracts.id,
+        startDate: contracts.startDate,
+        endDate: contracts.endDate,
+        isActive: contracts.isActive,
+      })
       .from(contracts)
       .where(
         and(
-          eq(contracts.buildingId, buildingId),
-          eq(contracts.unitNumber, unitNumber),
+          eq(contracts.unitId, unitId),
           eq(contracts.organizationId, organizationId),
-          eq(contracts.isActive, true)
+          excludeContractId ? ne(contracts.id, excludeContractId) : undefined
         )
       );
 
-    if (excludeContractId) {
-      query = query.where(ne(contracts.id, excludeContractId));
-    }
-
-    const [existing] = await query.limit(1);
-    return !existing;
+    return !unitContracts.some(contract => overlapsRange(contract, startDate, endDate));
   }
 
   /**
@@ -347,4 +480,38 @@ export class ContractService {
   ): Promise<Contract | null> {
     return await this.update(id, organizationId, { isActive });
   }
+
+  private static async resolveUnit(
+    organizationId: string,
+    buildingId: string,
+    data: { unitId?: string | null; unitNumber?: string }
+  ): Promise<Unit> {
+    if (data.unitId) {
+      const unit = await UnitService.getById(data.unitId, organizationId);
+      if (!unit) {
+        throw new NotFoundError('Unit', data.unitId);
+      }
+      if (unit.buildingId !== buildingId) {
+        throw new ValidationError('The unit does not belong to the building of the contract', 'unitId');
+      }
+      return unit;
+    }
+
+    if (!data.unitNumber) {
+      throw new ValidationError('Select the unit of the contract', 'unitId');
+    }
+    return UnitService.getOrCreateByNumber(buildingId, data.unitNumber, organizationId);
+  }
+
+  private static async assertUnitAvailable(
+    unit: Pick<Unit, 'id' | 'unitNumber'>,
+    startDate: Date,
+    endDate: Date | null,
+    organizationId: string,
+    excludeContractId?: string
+  ) {
+    if (!(await this.isUnitAvailable(unit.id, startDate, endDate, organizationId, excludeContractId))) {
+      throw new ConflictError(`Unit ${unit.unitNumber} is let to another contract in this period`);
+    }
+  }
 }
\ No newline at end of file
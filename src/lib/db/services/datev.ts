@@ -0,0 +1,65 @@
+// src/lib/db/services/datev.ts
+import type { DatevAccountKey, Organization } from '../schema';
+import { OrganizationService } from './organizations';
+import { getDatevAccounts } from '../../datev';
+
+export type DatevSettings = Pick<
+  Organization,
+  'datevConsultantNumber' | 'datevClientNumber' | 'datevChartOfAccounts' | 'datevFiscalYearStart' | 'datevAccounts'
+>;
+
+function toSettings(organization: Organization) {
+  const { datevConsultantNumber, datevClientNumber, datevChartOfAccounts, datevFiscalYearStart, datevAccounts } = organization;
+  return {
+    datevConsultantNumber,
+    datevClientNumber,
+    datevChartOfAccounts,
+    datevFiscalYearStart,
+    datevAccounts,
+    // Accounts the export books to, including the defaults of the chart of accounts
+    accounts: getDatevAccounts(datevChartOfAccounts, datevAccounts),
+  };
+}
+
+export class DatevService {
+  /**
+   * Get the DATEV settings and the resulting account mapping
+   */
+  static async getSettings(organizationId: string) {
+    const organization = await OrganizationService.getById(organizationId);
+    return organization ? toSettings(organization) : null;
+  }
+
+  /**
+   * Update the consultant and client number, chart of accounts and account mapping.
+   * Accounts set to null fall back to the default of the chart of accounts.
+   */
+  static async updateSettings(
+    organizationId: string,
+    data: Partial<Omit<DatevSettings, 'datevAccounts'>> & { datevAccounts?: Partial<Record<DatevAccountKey, string | null>> }
+  ) {
+    const { datevAccounts, ...settings } = data;
+
+    let accounts: DatevSettings['datevAccounts'] | undefined;
+    if (datevAccounts) {
+      const current = await OrganizationService.getById(organizationId);
+      if (!current) return null;
+
+      accounts = { ...current.datevAccounts };
+      for (const [key, account] of Object.entries(datevAccounts) as Array<[DatevAccountKey, string | null]>) {
+        if (account) {
+          accounts[key] = account;
+        } else {
+          delete accounts[key];
+        }
+      }
+    }
+
+    const organization = await OrganizationService.update(organizationId, {
+      ...settings,
+      ...(accounts && { datevAccounts: accounts }),
+    });
+
+    return organization ? toSettings(organization) : null;
+  }
+}
@@ -0,0 +1,770 @@
+// src/lib/db/services/deposits.ts
+import { eq, and, gt, isNull, desc, asc, count, inArray, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  depositAccounts,
+  depositTransactions,
+  depositSettlements,
+  ledgerEntries,
+  contracts,
+  buildings,
+  tenantContracts,
+  tickets,
+  users,
+  type Contract,
+  type DepositAccount,
+  type DepositTransaction,
+  type DepositSettlement,
+} from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, withAuditOperation, type AuditEntry } from '../audit';
+import { OrganizationService } from './organizations';
+import { LedgerService } from './ledger';
+import {
+  calculateDepositInterest,
+  calculateDepositSettlement,
+  getDepositTotals,
+  getOutstandingYearlyInterest,
+  MAX_DEPOSIT_MONTHLY_RENTS,
+  type DepositTotals,
+} from '../../deposits';
+import { renderDepositStatementPdf } from '../../deposits/statement-pdf';
+import { toCents, fromCents, toPeriod } from '../../ledger';
+
+export interface DepositAccountInput {
+  agreedAmount?: string; // Defaults to the deposit agreed in the contract
+  bankName?: string;
+  iban?: string;
+  accountHolder?: string;
+  interestRate?: string;
+  openedAt?: Date;
+}
+
+export interface DepositTransactionInput {
+  type: 'installment' | 'withholding';
+  amount: string;
+  bookingDate: Date;
+  description?: string;
+  ticketId?: string;
+}
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Totals of a deposit in euros
+const toAmounts = (totals: DepositTotals) => ({
+  installments: fromCents(totals.installmentsCents),
+  interest: fromCents(totals.interestCents),
+  withholdings: fromCents(totals.withholdingsCents),
+  payout: fromCents(totals.payoutCents),
+  balance: fromCents(totals.balanceCents),
+});
+
+export class DepositService {
+  /**
+   * Get deposit accounts with their balance, ordered by unit
+   */
+  static async getAccounts(
+    organizationId: string,
+    options: { status?: DepositAccount['status']; limit?: number; offset?: number } = {}
+  ) {
+    const { status, limit = 50, offset = 0 } = options;
+
+    let whereConditions: SQL | undefined = eq(depositAccounts.organizationId, organizationId);
+
+    if (status) {
+      whereConditions = and(whereConditions, eq(depositAccounts.status, status));
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({
+          account: depositAccounts,
+          contract: {
+            id: contracts.id,
+            contractNumber: contracts.contractNumber,
+            unitNumber: contracts.unitNumber,
+            isActive: contracts.isActive,
+          },
+        })
+        .from(depositAccounts)
+        .innerJoin(contracts, eq(depositAccounts.contractId, contracts.id))
+        .where(whereConditions)
+        .orderBy(asc(contracts.unitNumber))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(depositAccounts)
+        .where(whereConditions),
+    ]);
+
+    const transactions = rows.length > 0
+      ? await db
+        .select()
+        .from(depositTransactions)
+        .where(inArray(depositTransactions.depositAccountId, rows.map(row => row.account.id)))
+      : [];
+
+    const accounts = rows.map(row => ({
+      ...row,
+      totals: toAmounts(getDepositTotals(transactions.filter(transaction => transaction.depositAccountId === row.account.id))),
+    }));
+
+    return { accounts, total };
+  }
+
+  /**
+   * Get deposit account by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<DepositAccount | null> {
+    const [account] = await db
+      .select()
+      .from(depositAccounts)
+      .where(
+        and(
+          eq(depositAccounts.id, id),
+          eq(depositAccounts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return account || null;
+  }
+
+  /**
+   * Get the deposit account of a contract
+   */
+  static async getByContract(contractId: string, organizationId: string): Promise<DepositAccount | null> {
+    const [account] = await db
+      .select()
+      .from(depositAccounts)
+      .where(
+        and(
+          eq(depositAccounts.contractId, contractId),
+          eq(depositAccounts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return account || null;
+  }
+
+  /**
+   * Get an account with its movements, totals, the interest accrued but not yet
+   * credited and the settlement
+   */
+  static async getDetails(id: string, organizationId: string, asOf = new Date()) {
+    const account = await this.getById(id, organizationId);
+    if (!account) return null;
+
+    const [[contract], transactions, settlement] = await Promise.all([
+      db
+        .select({
+          id: contracts.id,
+          contractNumber: contracts.contractNumber,
+          unitNumber: contracts.unitNumber,
+          rentAmount: contracts.rentAmount,
+          depositAmount: contracts.depositAmount,
+          startDate: contracts.startDate,
+          endDate: contracts.endDate,
+          isActive: contracts.isActive,
+        })
+        .from(contracts)
+        .where(eq(contracts.id, account.contractId))
+        .limit(1),
+      this.getTransactions(id),
+      this.getSettlementOf(id),
+    ]);
+
+    const rate = Number(account.interestRate);
+    const yearly = getOutstandingYearlyInterest(transactions, rate, asOf);
+    const credited = [
+      ...transactions,
+      ...yearly.map(posting => ({ type: 'interest' as const, amount: fromCents(posting.cents), bookingDate: posting.bookingDate })),
+    ];
+    const accruedCents = account.status === 'held'
+      ? yearly.reduce((total, posting) => total + posting.cents, 0) +
+        calculateDepositInterest(credited, rate, new Date(Date.UTC(asOf.getUTCFullYear(), 0, 1)), asOf)
+      : 0;
+
+    return {
+      account,
+      contract,
+      transactions,
+      totals: toAmounts(getDepositTotals(transactions)),
+      accruedInterest: fromCents(accruedCents),
+      settlement,
+    };
+  }
+
+  /**
+   * Open the deposit account of a contract
+   */
+  static async createAccount(contractId: string, organizationId: string, data: DepositAccountInput): Promise<DepositAccount> {
+    const contract = await this.getContract(contractId, organizationId);
+
+    if (await this.getByContract(contractId, organizationId)) {
+      throw new ConflictError('The contract already has a deposit account');
+    }
+
+    const agreedAmount = data.agreedAmount ?? contract.depositAmount;
+    if (!agreedAmount) {
+      throw new ValidationError('The contract has no deposit amount', 'agreedAmount');
+    }
+    this.assertWithinLimit(agreedAmount, contract);
+
+    const [account] = await db
+      .insert(depositAccounts)
+      .values({
+        ...data,
+        agreedAmount,
+        organizationId,
+        contractId,
+        openedAt: data.openedAt || new Date(),
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'deposit_account',
+      entityId: account.id,
+      action: 'create',
+      after: account,
+    });
+
+    return account;
+  }
+
+  /**
+   * Update the account data of a deposit that is still held
+   */
+  static async updateAccount(
+    id: string,
+    organizationId: string,
+    data: Partial<DepositAccountInput>
+  ): Promise<DepositAccount | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    this.assertHeld(before);
+
+    if (data.agreedAmount) {
+      this.assertWithinLimit(data.agreedAmount, await this.getContract(before.contractId, organizationId));
+    }
+
+    const [account] = await db
+      .update(depositAccounts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(depositAccounts.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'deposit_account',
+      entityId: id,
+      action: 'update',
+      before,
+      after: account,
+    });
+
+    return account;
+  }
+
+  /**
+   * Record an installment paid in or an amount withheld for a claim. Withholdings
+   * cannot exceed the balance; a linked ticket must belong to the contract.
+   */
+  static async addTransaction(
+    accountId: string,
+    organizationId: string,
+    data: DepositTransactionInput,
+    createdById: string
+  ): Promise<DepositTransaction | null> {
+    const account = await this.getById(accountId, organizationId);
+    if (!account) return null;
+
+    this.assertHeld(account);
+
+    if (data.type === 'withholding') {
+      const { balanceCents } = getDepositTotals(await this.getTransactions(accountId));
+      if (toCents(data.amount) > balanceCents) {
+        throw new ValidationError(`The withholding exceeds the deposit balance of ${fromCents(balanceCents)}`, 'amount');
+      }
+    }
+
+    if (data.ticketId) {
+      const [ticket] = await db
+        .select({ contractId: tickets.contractId })
+        .from(tickets)
+        .where(
+          and(
+            eq(tickets.id, data.ticketId),
+            eq(tickets.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!ticket || ticket.contractId !== account.contractId) {
+        throw new ValidationError('The ticket does not belong to the contract of the deposit', 'ticketId');
+      }
+    }
+
+    const [transaction] = await db
+      .insert(depositTransactions)
+      .values({
+        ...data,
+        ticketId: data.type === 'withholding' ? data.ticketId : null,
+        organizationId,
+        depositAccountId: accountId,
+        createdById,
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'deposit_transaction',
+      entityId: transaction.id,
+      action: 'create',
+      after: transaction,
+    });
+
+    return transaction;
+  }
+
+  /**
+   * Remove an installment or withholding recorded by mistake. Credited interest and
+   * the payout are part of the settlement and stay.
+   */
+  static async deleteTransaction(accountId: string, transactionId: string, organizationId: string): Promise<boolean> {
+    const account = await this.getById(accountId, organizationId);
+    if (!account) return false;
+
+    this.assertHeld(account);
+
+    const transactions = await this.getTransactions(accountId);
+    const transaction = transactions.find(candidate => candidate.id === transactionId);
+    if (!transaction) return false;
+
+    if (transaction.type !== 'installment' && transaction.type !== 'withholding') {
+      throw new ConflictError('Only installments and withholdings can be deleted');
+    }
+
+    const remaining = transactions.filter(candidate => candidate.id !== transactionId);
+    if (getDepositTotals(remaining).balanceCents < 0) {
+      throw new ConflictError('Deleting the installment would leave the withholdings uncovered');
+    }
+
+    await db
+      .delete(depositTransactions)
+      .where(eq(depositTransactions.id, transactionId));
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'deposit_transaction',
+      entityId: transactionId,
+      action: 'delete',
+      before: transaction,
+    });
+
+    return true;
+  }
+
+  /**
+   * Credit the interest of completed years to all held deposits that are not being
+   * settled; the settlement credits the rest. Years already credited are skipped.
+   */
+  static async bookInterest(organizationId: string, asOf = new Date()): Promise<DepositTransaction[]> {
+    const accounts = await db
+      .select({ account: depositAccounts })
+      .from(depositAccounts)
+      .leftJoin(depositSettlements, eq(depositSettlements.depositAccountId, depositAccounts.id))
+      .where(
+        and(
+          eq(depositAccounts.organizationId, organizationId),
+          eq(depositAccounts.status, 'held'),
+          gt(depositAccounts.interestRate, '0'),
+          isNull(depositSettlements.id)
+        )
+      );
+
+    const pending = await Promise.all(
+      accounts.map(async ({ account }) => ({
+        account,
+        postings: getOutstandingYearlyInterest(await this.getTransactions(account.id), Number(account.interestRate), asOf),
+      }))
+    );
+
+    const values = pending.flatMap(({ account, postings }) =>
+      postings.map(posting => ({
+        organizationId,
+        depositAccountId: account.id,
+        type: 'interest' as const,
+        amount: fromCents(posting.cents),
+        bookingDate: posting.bookingDate,
+        description: `Interest ${posting.bookingDate.getUTCFullYear()}`,
+      }))
+    );
+    if (values.length === 0) return [];
+
+    return await withAuditOperation('bookDepositInterest', () => db.transaction(async (tx) => {
+      const booked = await tx
+        .insert(depositTransactions)
+        .values(values)
+        .returning();
+
+      await recordAuditEvents(
+        booked.map(transaction => ({
+          organizationId,
+          entityType: 'deposit_transaction' as const,
+          entityId: transaction.id,
+          action: 'create' as const,
+          after: transaction,
+        })),
+        tx
+      );
+
+      return booked;
+    }));
+  }
+
+  /**
+   * Start the settlement of a deposit. Terminating the contract does this with its end date.
+   */
+  static async createSettlement(
+    accountId: string,
+    organizationId: string,
+    settlementDate: Date,
+    createdById: string
+  ): Promise<DepositSettlement | null> {
+    const account = await this.getById(accountId, organizationId);
+    if (!account) return null;
+
+    this.assertHeld(account);
+
+    if (await this.getSettlementOf(accountId)) {
+      throw new ConflictError('The deposit is already being settled');
+    }
+
+    const [settlement] = await db
+      .insert(depositSettlements)
+      .values({
+        organizationId,
+        depositAccountId: accountId,
+        contractId: account.contractId,
+        settlementDate,
+        createdById,
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'deposit_settlement',
+      entityId: settlement.id,
+      action: 'create',
+      after: settlement,
+    });
+
+    return settlement;
+  }
+
+  /**
+   * Get the settlement of a deposit. Drafts are filled in with the figures they would
+   * be finalized with today.
+   */
+  static async getSettlement(accountId: string, organizationId: string): Promise<DepositSettlement | null> {
+    const account = await this.getById(accountId, organizationId);
+    if (!account) return null;
+
+    const settlement = await this.getSettlementOf(accountId);
+    if (!settlement || settlement.status === 'finalized') return settlement;
+
+    const figures = await this.calculateSettlement(account, settlement);
+    return {
+      ...settlement,
+      installments: fromCents(figures.installmentsCents),
+      interest: fromCents(figures.interestCents),
+      withholdings: fromCents(figures.withholdingsCents),
+      offsetClaims: fromCents(figures.offsetClaimsCents),
+      payout: fromCents(figures.payoutCents),
+    };
+  }
+
+  /**
+   * Move the settlement date of a draft settlement
+   */
+  static async updateSettlement(
+    accountId: string,
+    organizationId: string,
+    settlementDate: Date
+  ): Promise<DepositSettlement | null> {
+    const account = await this.getById(accountId, organizationId);
+    const before = account && await this.getSettlementOf(accountId);
+    if (!before) return null;
+
+    this.assertDraft(before);
+
+    const [settlement] = await db
+      .update(depositSettlements)
+      .set({ settlementDate, updatedAt: new Date() })
+      .where(eq(depositSettlements.id, before.id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'deposit_settlement',
+      entityId: settlement.id,
+      action: 'update',
+      before,
+      after: settlement,
+    });
+
+    return settlement;
+  }
+
+  /**
+   * Finalize the settlement: credit the outstanding interest, pay the open balance of
+   * the rent ledger from the deposit, book the payout of the rest and close the account
+   */
+  static async finalizeSettlement(accountId: string, organizationId: string, finalizedById: string) {
+    const account = await this.getById(accountId, organizationId);
+    const settlement = account && await this.getSettlementOf(accountId);
+    if (!account || !settlement) return null;
+
+    this.assertDraft(settlement);
+
+    const figures = await this.calculateSettlement(account, settlement);
+    const finalizedAt = new Date();
+
+    await withAuditOperation('finalizeDepositSettlement', () => db.transaction(async (tx) => {
+      const auditEntries: AuditEntry[] = [];
+
+      const movements = [
+        ...figures.interestPostings.map(posting => ({
+          type: 'interest' as const,
+          amount: fromCents(posting.cents),
+          bookingDate: posting.bookingDate,
+          description: `Interest ${posting.bookingDate.getUTCFullYear()}`,
+        })),
+        ...(figures.payoutCents > 0
+          ? [{
+            type: 'payout' as const,
+            amount: fromCents(figures.payoutCents),
+            bookingDate: settlement.settlementDate,
+            description: 'Payout to the tenants',
+          }]
+          : []),
+      ];
+
+      if (movements.length > 0) {
+        const booked = await tx
+          .insert(depositTransactions)
+          .values(movements.map(movement => ({
+            ...movement,
+            organizationId,
+            depositAccountId: accountId,
+            createdById: finalizedById,
+          })))
+          .returning();
+
+        auditEntries.push(...booked.map(transaction => ({
+          organizationId,
+          entityType: 'deposit_transaction' as const,
+          entityId: transaction.id,
+          action: 'create' as const,
+          after: transaction,
+        })));
+      }
+
+      let ledgerEntryId: string | null = null;
+      if (figures.offsetClaimsCents > 0) {
+        const [entry] = await tx
+          .insert(ledgerEntries)
+          .values({
+            organizationId,
+            contractId: account.contractId,
+            entryType: 'payment',
+            category: 'deposit',
+            amount: fromCents(figures.offsetClaimsCents),
+            period: toPeriod(settlement.settlementDate),
+            bookingDate: finalizedAt,
+            paymentMethod: 'other',
+            description: 'Offset against the security deposit',
+            createdById: finalizedById,
+          })
+          .returning();
+
+        ledgerEntryId = entry.id;
+        auditEntries.push({
+          organizationId,
+          entityType: 'ledger_entry',
+          entityId: entry.id,
+          action: 'create',
+          after: entry,
+        });
+      }
+
+      const [finalized] = await tx
+        .update(depositSettlements)
+        .set({
+          status: 'finalized',
+          installments: fromCents(figures.installmentsCents),
+          interest: fromCents(figures.interestCents),
+          withholdings: fromCents(figures.withholdingsCents),
+          offsetClaims: fromCents(figures.offsetClaimsCents),
+          payout: fromCents(figures.payoutCents),
+          ledgerEntryId,
+          finalizedAt,
+          updatedAt: finalizedAt,
+        })
+        .where(eq(depositSettlements.id, settlement.id))
+        .returning();
+
+      const [settled] = await tx
+        .update(depositAccounts)
+        .set({ status: 'settled', settledAt: finalizedAt, updatedAt: finalizedAt })
+        .where(eq(depositAccounts.id, accountId))
+        .returning();
+
+      auditEntries.push(
+        {
+          organizationId,
+          entityType: 'deposit_settlement',
+          entityId: settlement.id,
+          action: 'update',
+          before: settlement,
+          after: finalized,
+        },
+        {
+          organizationId,
+          entityType: 'deposit_account',
+          entityId: accountId,
+          action: 'update',
+          before: account,
+          after: settled,
+        }
+      );
+
+      await recordAuditEvents(auditEntries, tx);
+    }));
+
+    return this.getDetails(accountId, organizationId);
+  }
+
+  /**
+   * Render a finalized settlement as PDF letter to the tenants of the contract
+   */
+  static async getSettlementPdf(
+    account: DepositAccount,
+    settlement: DepositSettlement
+  ): Promise<{ filename: string; content: Buffer }> {
+    const [organization, [details], tenants, transactions] = await Promise.all([
+      OrganizationService.getById(account.organizationId),
+      db
+        .select({ contract: contracts, building: buildings })
+        .from(contracts)
+        .innerJoin(buildings, eq(contracts.buildingId, buildings.id))
+        .where(eq(contracts.id, account.contractId))
+        .limit(1),
+      db
+        .select({ name: users.name, email: users.email })
+        .from(tenantContracts)
+        .innerJoin(users, eq(tenantContracts.tenantId, users.id))
+        .where(eq(tenantContracts.contractId, account.contractId))
+        .orderBy(desc(tenantContracts.isMainTenant)),
+      this.getTransactions(account.id),
+    ]);
+
+    if (!organization || !details) {
+      throw new NotFoundError('Deposit account', account.id);
+    }
+
+    const content = renderDepositStatementPdf({
+      landlord: organization,
+      tenantNames: tenants.map(tenant => tenant.name || tenant.email),
+      building: details.building,
+      contract: details.contract,
+      account,
+      settlement,
+      withholdings: transactions.filter(transaction => transaction.type === 'withholding'),
+    });
+
+    const filename = `deposit-settlement-${formatDay(settlement.settlementDate)}-${details.contract.contractNumber}.pdf`
+      .replace(/[^\w.-]/g, '_');
+
+    return { filename, content };
+  }
+
+  private static async getContract(contractId: string, organizationId: string): Promise<Contract> {
+    const [contract] = await db
+      .select()
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.id, contractId),
+          eq(contracts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!contract) {
+      throw new NotFoundError('Contract', contractId);
+    }
+
+    return contract;
+  }
+
+  // Movements of an account, oldest first
+  private static async getTransactions(accountId: string): Promise<DepositTransaction[]> {
+    return await db
+      .select()
+      .from(depositTransactions)
+      .where(eq(depositTransactions.depositAccountId, accountId))
+      .orderBy(asc(depositTransactions.bookingDate), asc(depositTransactions.createdAt));
+  }
+
+  private static async getSettlementOf(accountId: string): Promise<DepositSettlement | null> {
+    const [settlement] = await db
+      .select()
+      .from(depositSettlements)
+      .where(eq(depositSettlements.depositAccountId, accountId))
+      .limit(1);
+
+    return settlement || null;
+  }
+
+  private static async calculateSettlement(account: DepositAccount, settlement: DepositSettlement) {
+    const [transactions, balance] = await Promise.all([
+      this.getTransactions(account.id),
+      LedgerService.getContractBalance(account.contractId, account.organizationId),
+    ]);
+
+    return calculateDepositSettlement(
+      transactions,
+      Number(account.interestRate),
+      settlement.settlementDate,
+      toCents(balance?.balance)
+    );
+  }
+
+  private static assertWithinLimit(agreedAmount: string, contract: Contract) {
+    const limitCents = toCents(contract.rentAmount) * MAX_DEPOSIT_MONTHLY_RENTS;
+    if (toCents(agreedAmount) > limitCents) {
+      throw new ValidationError(
+        `The deposit may not exceed ${MAX_DEPOSIT_MONTHLY_RENTS} monthly rents (${fromCents(limitCents)})`,
+        'agreedAmount'
+      );
+    }
+  }
+
+  private static assertHeld(account: DepositAccount) {
+    if (account.status !== 'held') {
+      throw new ConflictError('The deposit has already been settled');
+    }
+  }
+
+  private static assertDraft(settlement: DepositSettlement) {
+    if (settlement.status !== 'draft') {
+      throw new ConflictError('The settlement has already been finalized');
+    }
+  }
+}
@@ -1,5 +1,6 @@
 // src/lib/db/services/documents.ts
 import { eq, and, or, desc, count, like, sql, inArray } from 'drizzle-orm';
+import { put } from '@vercel/blob';
 import { db } from '../db';
 import { 
   documents,
@@ -11,6 +12,15 @@ import {
   type Document, 
   type NewDocument 
 } from '../schema';
+import { recordAuditEvent } from '../audit';
+import { ValidationError } from '../errors';
+import { env } from '../../env';
+
+export interface DocumentUpload {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
 
 export class DocumentService {
   /**
@@ -22,9 +32,46 @@ export class DocumentService {
       .values(data)
       .returning();
 
+    await recordAuditEvent({
+      organizationId: document.organizationId,
+      entityType: 'document',
+      entityId: document.id,
+      action: 'create',
+      after: document,
+    });
+
     return document;
   }
 
+  /**
+   * Store a file in blob storage and create its document record
+   */
+  static async upload(
+    file: DocumentUpload,
+    data: Omit<NewDocument, 'id' | 'createdAt' | 'fileName' | 'originalFileName' | 'fileSize' | 'mimeType' | 'fileUrl'>
+  ): Promise<Document> {
+    if (!env.ENABLE_FILE_UPLOADS) {
+      throw new ValidationError('File uploads are disabled', 'file');
+    }
+
+    const fileName = file.fileName.replace(/[^\w.-]+/g, '_');
+    const blob = await put(`${data.organizationId}/${data.category ?? 'document'}/${fileName}`, file.content, {
+      access: 'public',
+      addRandomSuffix: true,
+      contentType: file.mimeType,
+      token: env.BLOB_READ_WRITE_TOKEN,
+    });
+
+    return this.create({
+      ...data,
+      fileName: blob.pathname,
+      originalFileName: file.fileName,
+      fileSize: file.content.length,
+      mimeType: file.mimeType,
+      fileUrl: blob.url,
+    });
+  }
+
   /**
    * Get document by ID with access control
    */
@@ -181,17 +228,34 @@ export class DocumentService {
     organizationId: string,
     data: Partial<Omit<Document, 'id' | 'organizationId' | 'createdAt'>>
   ): Promise<Document | null> {
+    const whereConditions = and(
+      eq(documents.id, id),
+      eq(documents.organizationId, organizationId)
+    );
+
+    const [before] = await db
+      .select()
+      .from(documents)
+      .where(whereConditions)
+      .limit(1);
+
+    if (!before) return null;
+
     const [document] = await db
       .update(documents)
       .set(data)
-      .where(
-        and(
-          eq(documents.id, id),
-          eq(documents.organizationId, organizationId)
-        )
-      )
+      .where(whereConditions)
       .returning();
 
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'document',
+      entityId: id,
+      action: 'update',
+      before,
+      after: document,
+    });
+
     return document || null;
   }
 
@@ -210,6 +274,16 @@ export class DocumentService {
         )
         .returning();
 
+      if (deleted) {
+        await recordAuditEvent({
+          organizationId,
+          entityType: 'document',
+          entityId: id,
+          action: 'delete',
+          before: deleted,
+        });
+      }
+
       return !!deleted;
     } catch (error) {
       console.error('Failed to delete document:', error);
@@ -0,0 +1,480 @@
+// src/lib/db/services/dunning.ts
+import { eq, and, gte, lte, desc, asc, count, inArray, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  dunningLevels,
+  dunningNotices,
+  ledgerEntries,
+  contracts,
+  buildings,
+  tenantContracts,
+  users,
+  type Contract,
+  type DunningLevel,
+  type DunningNotice,
+} from '../schema';
+import { NotFoundError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, withAuditOperation, type AuditEntry } from '../audit';
+import { OrganizationService } from './organizations';
+import { LedgerService } from './ledger';
+import {
+  DEFAULT_DUNNING_LEVELS,
+  getCycleNotices,
+  getNextDunningStep,
+  getPaymentDueDate,
+  isDunningPaused,
+  type DunningLevelSettings,
+} from '../../dunning';
+import { renderDunningNoticePdf } from '../../dunning/notice-pdf';
+import { toCents, fromCents, toPeriod } from '../../ledger';
+
+export interface DunningNoticeFilters {
+  contractId?: string;
+  level?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface DunningPause {
+  reason: string;
+  until?: Date; // Paused until resumed when omitted
+}
+
+type Arrears = Awaited<ReturnType<typeof LedgerService.getArrears>>[number];
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export class DunningService {
+  /**
+   * Get the reminder levels of an organization, or the default levels while none are configured
+   */
+  static async getLevels(organizationId: string): Promise<DunningLevelSettings[]> {
+    const levels = await db
+      .select()
+      .from(dunningLevels)
+      .where(eq(dunningLevels.organizationId, organizationId))
+      .orderBy(asc(dunningLevels.level));
+
+    return levels.length > 0 ? levels : DEFAULT_DUNNING_LEVELS;
+  }
+
+  /**
+   * Replace the reminder levels of an organization
+   */
+  static async saveLevels(organizationId: string, levels: DunningLevelSettings[]): Promise<DunningLevel[]> {
+    return await withAuditOperation('saveDunningLevels', () => db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(dunningLevels)
+        .where(eq(dunningLevels.organizationId, organizationId))
+        .returning();
+
+      const saved = await tx
+        .insert(dunningLevels)
+        .values(levels.map(level => ({ ...level, organizationId })))
+        .returning();
+
+      await recordAuditEvents([
+        ...removed.map(level => ({
+          organizationId,
+          entityType: 'dunning_level' as const,
+          entityId: level.id,
+          action: 'delete' as const,
+          before: level,
+        })),
+        ...saved.map(level => ({
+          organizationId,
+          entityType: 'dunning_level' as const,
+          entityId: level.id,
+          action: 'create' as const,
+          after: level,
+        })),
+      ], tx);
+
+      return saved.sort((a, b) => a.level - b.level);
+    }));
+  }
+
+  /**
+   * Contracts in arrears with the reminder level they are due for. Paused contracts and
+   * contracts that already received the last level are left out.
+   */
+  static async getDueNotices(organizationId: string, asOf = new Date()) {
+    const [arrears, levels] = await Promise.all([
+      LedgerService.getArrears(organizationId, asOf),
+      this.getLevels(organizationId),
+    ]);
+
+    const states = await this.getDunningStates(arrears, levels, asOf);
+
+    return states.flatMap(({ arrears, cycleNotices, paused, nextStep }) =>
+      !paused && nextStep && nextStep.dueOn <= asOf
+        ? [{ ...arrears, lastNotice: cycleNotices[cycleNotices.length - 1] || null, level: nextStep.level }]
+        : []
+    );
+  }
+
+  /**
+   * Issue the due reminders, optionally only for some contracts. Reminder fees are
+   * charged to the rent ledger with the payment deadline of the reminder.
+   */
+  static async issueNotices(
+    organizationId: string,
+    options: { contractIds?: string[]; asOf?: Date; createdById?: string } = {}
+  ): Promise<DunningNotice[]> {
+    const { contractIds, asOf = new Date(), createdById } = options;
+
+    const due = (await this.getDueNotices(organizationId, asOf))
+      .filter(item => !contractIds || contractIds.includes(item.contract.id));
+    if (due.length === 0) return [];
+
+    return await withAuditOperation('issueDunningNotices', () => db.transaction(async (tx) => {
+      const auditEntries: AuditEntry[] = [];
+      const notices: DunningNotice[] = [];
+
+      for (const item of due) {
+        const paymentDueDate = getPaymentDueDate(asOf, item.level);
+        const feeCents = toCents(item.level.fee);
+
+        let feeLedgerEntryId: string | null = null;
+        if (feeCents > 0) {
+          const [entry] = await tx
+            .insert(ledgerEntries)
+            .values({
+              organizationId,
+              contractId: item.contract.id,
+              entryType: 'charge',
+              category: 'fee',
+              amount: fromCents(feeCents),
+              period: toPeriod(asOf),
+              dueDate: paymentDueDate,
+              bookingDate: asOf,
+              description: `Reminder fee (${item.level.name})`,
+              createdById,
+            })
+            .returning();
+
+          feeLedgerEntryId = entry.id;
+          auditEntries.push({
+            organizationId,
+            entityType: 'ledger_entry',
+            entityId: entry.id,
+            action: 'create',
+            after: entry,
+          });
+        }
+
+        const [notice] = await tx
+          .insert(dunningNotices)
+          .values({
+            organizationId,
+            contractId: item.contract.id,
+            level: item.level.level,
+            levelName: item.level.name,
+            noticeDate: asOf,
+            paymentDueDate,
+            lines: item.openCharges.map(charge => ({
+              ledgerEntryId: charge.id,
+              category: charge.category,
+              period: charge.period,
+              dueDate: (charge.dueDate as Date).toISOString(),
+              amount: fromCents(toCents(charge.amount)),
+              open: fromCents(toCents(charge.open)),
+            })),
+            amountDue: fromCents(toCents(item.arrears)),
+            fee: fromCents(feeCents),
+            feeLedgerEntryId,
+            createdById,
+          })
+          .returning();
+
+        notices.push(notice);
+        auditEntries.push({
+          organizationId,
+          entityType: 'dunning_notice',
+          entityId: notice.id,
+          action: 'create',
+          after: notice,
+        });
+      }
+
+      await recordAuditEvents(auditEntries, tx);
+      return notices;
+    }));
+  }
+
+  /**
+   * Get reminders, newest first
+   */
+  static async getNotices(
+    organizationId: string,
+    filters: DunningNoticeFilters & { limit?: number; offset?: number } = {}
+  ) {
+    const { contractId, level, from, to, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(dunningNotices.organizationId, organizationId);
+
+    if (contractId) {
+      whereConditions = and(whereConditions, eq(dunningNotices.contractId, contractId));
+    }
+
+    if (level) {
+      whereConditions = and(whereConditions, eq(dunningNotices.level, level));
+    }
+
+    if (from) {
+      whereConditions = and(whereConditions, gte(dunningNotices.noticeDate, from));
+    }
+
+    if (to) {
+      whereConditions = and(whereConditions, lte(dunningNotices.noticeDate, to));
+    }
+
+    const [notices, [{ total }]] = await Promise.all([
+      db
+        .select({
+          notice: dunningNotices,
+          contract: {
+            id: contracts.id,
+            contractNumber: contracts.contractNumber,
+            unitNumber: contracts.unitNumber,
+          },
+        })
+        .from(dunningNotices)
+        .innerJoin(contracts, eq(dunningNotices.contractId, contracts.id))
+        .where(whereConditions)
+        .orderBy(desc(dunningNotices.noticeDate))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(dunningNotices)
+        .where(whereConditions),
+    ]);
+
+    return { notices, total };
+  }
+
+  /**
+   * Get reminder by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<DunningNotice | null> {
+    const [notice] = await db
+      .select()
+      .from(dunningNotices)
+      .where(
+        and(
+          eq(dunningNotices.id, id),
+          eq(dunningNotices.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return notice || null;
+  }
+
+  /**
+   * Get the dunning history of a contract: all reminders, newest first, the pause
+   * and the current arrears with the next level due
+   */
+  static async getHistory(contractId: string, organizationId: string, asOf = new Date()) {
+    const [contract] = await db
+      .select({
+        id: contracts.id,
+        contractNumber: contracts.contractNumber,
+        unitNumber: contracts.unitNumber,
+        dunningPausedAt: contracts.dunningPausedAt,
+        dunningPausedUntil: contracts.dunningPausedUntil,
+        dunningPauseReason: contracts.dunningPauseReason,
+      })
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.id, contractId),
+          eq(contracts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!contract) return null;
+
+    const [notices, arrears, levels] = await Promise.all([
+      db
+        .select()
+        .from(dunningNotices)
+        .where(eq(dunningNotices.contractId, contractId))
+        .orderBy(desc(dunningNotices.noticeDate)),
+      LedgerService.getArrears(organizationId, asOf),
+      this.getLevels(organizationId),
+    ]);
+
+    const current = arrears.find(item => item.contract.id === contractId);
+    const cycleNotices = current?.oldestDueDate ? getCycleNotices(notices, current.oldestDueDate) : [];
+
+    return {
+      contract,
+      paused: isDunningPaused(contract, asOf),
+      arrears: current?.arrears ?? 0,
+      currentLevel: cycleNotices[cycleNotices.length - 1]?.level ?? 0,
+      nextStep: current?.oldestDueDate ? getNextDunningStep(levels, cycleNotices, current.oldestDueDate) : null,
+      notices,
+    };
+  }
+
+  /**
+   * Pause dunning of a contract, e.g. while the tenants dispute a charge
+   */
+  static async pause(contractId: string, organizationId: string, pause: DunningPause): Promise<Contract | null> {
+    return await this.updatePause(contractId, organizationId, {
+      dunningPausedAt: new Date(),
+      dunningPausedUntil: pause.until ?? null,
+      dunningPauseReason: pause.reason,
+    });
+  }
+
+  /**
+   * Resume dunning of a contract
+   */
+  static async resume(contractId: string, organizationId: string): Promise<Contract | null> {
+    return await this.updatePause(contractId, organizationId, {
+      dunningPausedAt: null,
+      dunningPausedUntil: null,
+      dunningPauseReason: null,
+    });
+  }
+
+  /**
+   * Dunning figures for the landlord dashboard
+   */
+  static async getStats(organizationId: string, asOf = new Date()) {
+    const [arrears, levels] = await Promise.all([
+      LedgerService.getArrears(organizationId, asOf),
+      this.getLevels(organizationId),
+    ]);
+
+    const states = await this.getDunningStates(arrears, levels, asOf);
+    const inDunning = states.filter(state => state.cycleNotices.length > 0);
+    const lastLevel = Math.max(...levels.map(level => level.level));
+
+    return {
+      contractsInArrears: states.length,
+      contractsInDunning: inDunning.length,
+      byLevel: levels.map(level => ({
+        level: level.level,
+        name: level.name,
+        contracts: inDunning.filter(state => state.cycleNotices[state.cycleNotices.length - 1].level === level.level).length,
+      })),
+      // Reminders the next run will send
+      due: states.filter(state => !state.paused && state.nextStep && state.nextStep.dueOn <= asOf).length,
+      // Contracts that received the last level and still owe
+      exhausted: inDunning.filter(state => state.cycleNotices[state.cycleNotices.length - 1].level >= lastLevel).length,
+      paused: states.filter(state => state.paused).length,
+    };
+  }
+
+  /**
+   * Render a reminder as PDF letter to the tenants of the contract
+   */
+  static async getNoticePdf(notice: DunningNotice): Promise<{ filename: string; content: Buffer }> {
+    const [organization, [details], tenants] = await Promise.all([
+      OrganizationService.getById(notice.organizationId),
+      db
+        .select({ contract: contracts, building: buildings })
+        .from(contracts)
+        .innerJoin(buildings, eq(contracts.buildingId, buildings.id))
+        .where(eq(contracts.id, notice.contractId))
+        .limit(1),
+      db
+        .select({ name: users.name, email: users.email })
+        .from(tenantContracts)
+        .innerJoin(users, eq(tenantContracts.tenantId, users.id))
+        .where(eq(tenantContracts.contractId, notice.contractId))
+        .orderBy(desc(tenantContracts.isMainTenant)),
+    ]);
+
+    if (!organization || !details) {
+      throw new NotFoundError('Dunning notice', notice.id);
+    }
+
+    const content = renderDunningNoticePdf({
+      landlord: organization,
+      tenantNames: tenants.map(tenant => tenant.name || tenant.email),
+      building: details.building,
+      contract: details.contract,
+      notice,
+    });
+
+    const filename = `reminder-${notice.level}-${formatDay(notice.noticeDate)}-${details.contract.contractNumber}.pdf`
+      .replace(/[^\w.-]/g, '_');
+
+    return { filename, content };
+  }
+
+  // Reminders of the current cycle, the pause and the next step of each contract in arrears
+  private static async getDunningStates(arrears: Arrears[], levels: DunningLevelSettings[], asOf: Date) {
+    const contractIds = arrears.map(item => item.contract.id);
+    if (contractIds.length === 0) return [];
+
+    const [pauses, notices] = await Promise.all([
+      db
+        .select({
+          id: contracts.id,
+          dunningPausedAt: contracts.dunningPausedAt,
+          dunningPausedUntil: contracts.dunningPausedUntil,
+        })
+        .from(contracts)
+        .where(inArray(contracts.id, contractIds)),
+      db
+        .select()
+        .from(dunningNotices)
+        .where(inArray(dunningNotices.contractId, contractIds)),
+    ]);
+
+    return arrears
+      .filter(item => item.oldestDueDate)
+      .map(item => {
+        const pause = pauses.find(candidate => candidate.id === item.contract.id);
+        const cycleNotices = getCycleNotices(
+          notices.filter(notice => notice.contractId === item.contract.id),
+          item.oldestDueDate as Date
+        );
+
+        return {
+          arrears: item,
+          cycleNotices,
+          paused: pause ? isDunningPaused(pause, asOf) : false,
+          nextStep: getNextDunningStep(levels, cycleNotices, item.oldestDueDate as Date),
+        };
+      });
+  }
+
+  private static async updatePause(
+    contractId: string,
+    organizationId: string,
+    values: Pick<Contract, 'dunningPausedAt' | 'dunningPausedUntil' | 'dunningPauseReason'>
+  ): Promise<Contract | null> {
+    const condition = and(
+      eq(contracts.id, contractId),
+      eq(contracts.organizationId, organizationId)
+    );
+
+    const [before] = await db.select().from(contracts).where(condition).limit(1);
+    if (!before) return null;
+
+    const [contract] = await db
+      .update(contracts)
+      .set({ ...values, updatedAt: new Date() })
+      .where(condition)
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'contract',
+      entityId: contractId,
+      action: 'update',
+      before,
+      after: contract,
+    });
+
+    return contract;
+  }
+}
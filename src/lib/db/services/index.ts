@@ -1,11 +1,30 @@
 // src/lib/db/services/index.ts
 export { OrganizationService } from './organizations';
 export { BuildingService } from './buildings';
+export { UnitService } from './units';
+export { MeterService } from './meters';
+export { MeterSubmissionService } from './meter-submissions';
 export { ContractService } from './contracts';
 export { TicketService } from './tickets';
 export { ConsumptionService } from './consumption';
+export { ConsumptionAnomalyService } from './consumption-anomalies';
+export { ConsumptionImportService } from './consumption-imports';
 export { DocumentService } from './documents';
 export { UserService } from './users';
+export { InvitationService } from './invitations';
+export { ApiKeyService } from './api-keys';
+export { WebhookService } from './webhooks';
+export { AuditEventService } from './audit-events';
+export { LedgerService } from './ledger';
+export { BankStatementService } from './bank-statements';
+export { SepaService } from './sepa';
+export { OperatingCostService } from './operating-costs';
+export { RentAdjustmentService } from './rent-adjustments';
+export { DepositService } from './deposits';
+export { DunningService } from './dunning';
+export { VendorService } from './vendors';
+export { VendorInvoiceService } from './vendor-invoices';
+export { DatevService } from './datev';
 
 // Re-export common types
 export type {
@@ -13,12 +32,19 @@ export type {
   NewOrganization,
   Building,
   NewBuilding,
+  Unit,
+  NewUnit,
+  Meter,
+  NewMeter,
+  MeterReading,
+  MeterReadingSubmission,
   Contract,
   NewContract,
   Ticket,
   NewTicket,
   ConsumptionRecord,
   NewConsumptionRecord,
+  ConsumptionAnomaly,
   Document,
   NewDocument,
   User,
@@ -27,6 +53,56 @@ export type {
   NewTenantContract,
   InvitationToken,
   NewInvitationToken,
+  ApiKey,
+  NewApiKey,
+  ApiKeyPermission,
+  WebhookSubscription,
+  NewWebhookSubscription,
+  WebhookDelivery,
+  WebhookEvent,
+  AuditEvent,
+  AuditEntityType,
+  AuditAction,
+  LedgerEntry,
+  NewLedgerEntry,
+  LedgerCategory,
+  BankStatement,
+  NewBankStatement,
+  BankTransaction,
+  NewBankTransaction,
+  SepaMandate,
+  NewSepaMandate,
+  DirectDebitBatch,
+  NewDirectDebitBatch,
+  OperatingCostSettlement,
+  NewOperatingCostSettlement,
+  OperatingCostItem,
+  NewOperatingCostItem,
+  OperatingCostStatement,
+  NewOperatingCostStatement,
+  OperatingCostCategory,
+  AllocationKey,
+  RentAdjustment,
+  NewRentAdjustment,
+  PriceIndexValue,
+  NewPriceIndexValue,
+  RentType,
+  RentAdjustmentType,
+  DepositAccount,
+  NewDepositAccount,
+  DepositTransaction,
+  NewDepositTransaction,
+  DepositSettlement,
+  NewDepositSettlement,
+  DepositTransactionType,
+  DunningLevel,
+  NewDunningLevel,
+  DunningNotice,
+  NewDunningNotice,
+  Vendor,
+  NewVendor,
+  VendorInvoice,
+  NewVendorInvoice,
 } from '../schema';
 
 // Re-export utilities
@@ -34,6 +110,7 @@ export {
   setRLSContext, 
   clearRLSContext, 
   withRLSContext, 
+  withRequestDb,
   createRLSContext,
   checkDatabaseConnection,
   getDatabaseStats 
@@ -50,11 +127,19 @@ export {
   validateDataIntegrity
 } from '../transactions';
 
+export {
+  recordAuditEvent,
+  recordAuditEvents,
+  withAuditContext,
+  withAuditOperation
+} from '../audit';
+
 export { QueryBuilder } from '../queries';
 
 export {
   DatabaseError,
   ValidationError,
+  UnauthorizedError,
   AccessDeniedError,
   NotFoundError,
   ConflictError,
@@ -69,6 +154,35 @@ export {
   type ApiResponse
 } from '../validations';
 
+import { OrganizationService } from './organizations';
+import { BuildingService } from './buildings';
+import { UnitService } from './units';
+import { MeterService } from './meters';
+import { MeterSubmissionService } from './meter-submissions';
+import { ContractService } from './contracts';
+import { TicketService } from './tickets';
+import { ConsumptionService } from './consumption';
+import { ConsumptionAnomalyService } from './consumption-anomalies';
+import { ConsumptionImportService } from './consumption-imports';
+import { DocumentService } from './documents';
+import { UserService } from './users';
+import { InvitationService } from './invitations';
+import { ApiKeyService } from './api-keys';
+import { WebhookService } from './webhooks';
+import { AuditEventService } from './audit-events';
+import { LedgerService } from './ledger';
+import { BankStatementService } from './bank-statements';
+import { SepaService } from './sepa';
+import { OperatingCostService } from './operating-costs';
+import { RentAdjustmentService } from './rent-adjustments';
+import { DepositService } from './deposits';
+import { DunningService } from './dunning';
+import { VendorService } from './vendors';
+import { VendorInvoiceService } from './vendor-invoices';
+import { DatevService } from './datev';
+import { QueryBuilder } from '../queries';
+import { checkDatabaseConnection } from '../utils';
+
 /**
  * Centralized service layer for TenantBridge
  * Provides consistent API for all database operations
@@ -76,11 +190,30 @@ export {
 export class TenantBridgeServices {
   static organizations = OrganizationService;
   static buildings = BuildingService;
+  static units = UnitService;
+  static meters = MeterService;
+  static meterSubmissions = MeterSubmissionService;
   static contracts = ContractService;
   static tickets = TicketService;
   static consumption = ConsumptionService;
+  static consumptionAnomalies = ConsumptionAnomalyService;
+  static consumptionImports = ConsumptionImportService;
   static documents = DocumentService;
   static users = UserService;
+  static invitations = InvitationService;
+  static apiKeys = ApiKeyService;
+  static webhooks = WebhookService;
+  static auditEvents = AuditEventService;
+  static ledger = LedgerService;
+  static bankStatements = BankStatementService;
+  static sepa = SepaService;
+  static operatingCosts = OperatingCostService;
+  static rentAdjustments = RentAdjustmentService;
+  static deposits = DepositService;
+  static dunning = DunningService;
+  static vendors = VendorService;
+  static vendorInvoices = VendorInvoiceService;
+  static datev = DatevService;
   static queries = QueryBuilder;
   
   /**
@@ -0,0 +1,457 @@
+// src/lib/db/services/invitations.ts
+import { eq, and, gt, lte, isNull, isNotNull, desc, count, sum, like, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  invitationTokens,
+  contracts,
+  buildings,
+  users,
+  type InvitationToken,
+} from '../schema';
+import {
+  createCompleteInvitation,
+  generateSecureToken,
+  getInvitationUrl,
+  generateInvitationQR,
+  type InvitationInfo,
+} from '../invitation-utils';
+import { parseCSVRecords } from '../csv-utils';
+import { bulkInvitationRowSchema } from '../validations';
+import { ConflictError, NotFoundError } from '../errors';
+import { recordAuditEvent } from '../audit';
+import { sendInvitationEmail } from '../../mail';
+
+export type InvitationStatus = 'pending' | 'used' | 'expired' | 'revoked';
+
+export interface BulkInvitationResult {
+  created: InvitationInfo[];
+  skipped: Array<{ row: number; email?: string; reason: string }>;
+}
+
+export class InvitationService {
+  /**
+   * Create a new invitation with URL and QR code and queue the invitation email
+   */
+  static async create(params: Parameters<typeof createCompleteInvitation>[0]): Promise<InvitationInfo> {
+    const invitation = await createCompleteInvitation(params);
+    await sendInvitationEmail(params.organizationId, invitation);
+
+    return invitation;
+  }
+
+  /**
+   * Derive the lifecycle status of an invitation
+   */
+  static getStatus(invitation: InvitationToken): InvitationStatus {
+    if (invitation.revokedAt) return 'revoked';
+    if (invitation.usedAt) return 'used';
+    if (invitation.expiresAt <= new Date()) return 'expired';
+    return 'pending';
+  }
+
+  /**
+   * Get invitation by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<InvitationToken | null> {
+    const [invitation] = await db
+      .select()
+      .from(invitationTokens)
+      .where(
+        and(
+          eq(invitationTokens.id, id),
+          eq(invitationTokens.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return invitation || null;
+  }
+
+  /**
+   * Get invitations with filtering by contract, building and status
+   */
+  static async getInvitations(
+    organizationId: string,
+    options: {
+      contractId?: string;
+      buildingId?: string;
+      status?: InvitationStatus;
+      email?: string;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ) {
+    const {
+      contractId,
+      buildingId,
+      status,
+      email,
+      limit = 50,
+      offset = 0
+    } = options;
+
+    let whereConditions: SQL | undefined = eq(invitationTokens.organizationId, organizationId);
+
+    // Apply filters
+    if (contractId) {
+      whereConditions = and(whereConditions, eq(invitationTokens.contractId, contractId));
+    }
+    if (buildingId) {
+      whereConditions = and(whereConditions, eq(contracts.buildingId, buildingId));
+    }
+    if (email) {
+      whereConditions = and(whereConditions, like(invitationTokens.email, `%${email}%`));
+    }
+    if (status) {
+      whereConditions = and(whereConditions, this.statusCondition(status));
+    }
+
+    const rows = await db
+      .select({
+        invitation: invitationTokens,
+        contract: {
+          id: contracts.id,
+          contractNumber: contracts.contractNumber,
+          unitNumber: contracts.unitNumber,
+        },
+        building: {
+          id: buildings.id,
+          name: buildings.name,
+        },
+        createdBy: {
+          id: users.id,
+          name: users.name,
+        },
+      })
+      .from(invitationTokens)
+      .innerJoin(contracts, eq(invitationTokens.contractId, contracts.id))
+      .leftJoin(buildings, eq(contracts.buildingId, buildings.id))
+      .leftJoin(users, eq(invitationTokens.createdById, users.id))
+      .where(whereConditions)
+      .orderBy(desc(invitationTokens.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return rows.map(row => ({
+      ...row,
+      status: this.getStatus(row.invitation),
+    }));
+  }
+
+  /**
+   * Get pending invitations for a contract
+   */
+  static async getPendingForContract(contractId: string, organizationId: string) {
+    return await this.getInvitations(organizationId, {
+      contractId,
+      status: 'pending',
+    });
+  }
+
+  /**
+   * Revoke a pending invitation so its token can no longer be accepted
+   */
+  static async revoke(
+    id: string,
+    organizationId: string,
+    revokedById: string
+  ): Promise<InvitationToken | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    const [invitation] = await db
+      .update(invitationTokens)
+      .set({ revokedAt: new Date(), revokedById })
+      .where(
+        and(
+          eq(invitationTokens.id, id),
+          eq(invitationTokens.organizationId, organizationId),
+          isNull(invitationTokens.usedAt),
+          isNull(invitationTokens.revokedAt)
+        )
+      )
+      .returning();
+
+    if (invitation) {
+      await recordAuditEvent({
+        organizationId,
+        entityType: 'invitation',
+        entityId: id,
+        action: 'update',
+        before,
+        after: invitation,
+      });
+    }
+
+    return invitation || null;
+  }
+
+  /**
+   * Extend the expiry of an unused invitation, counted from now
+   */
+  static async extendExpiry(
+    id: string,
+    organizationId: string,
+    days: number
+  ): Promise<InvitationToken | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + days);
+
+    const [invitation] = await db
+      .update(invitationTokens)
+      .set({ expiresAt })
+      .where(
+        and(
+          eq(invitationTokens.id, id),
+          eq(invitationTokens.organizationId, organizationId),
+          isNull(invitationTokens.usedAt),
+          isNull(invitationTokens.revokedAt)
+        )
+      )
+      .returning();
+
+    if (invitation) {
+      await recordAuditEvent({
+        organizationId,
+        entityType: 'invitation',
+        entityId: id,
+        action: 'update',
+        before,
+        after: invitation,
+      });
+    }
+
+    return invitation || null;
+  }
+
+  /**
+   * Re-issue an invitation with a fresh token and email it again. The previous link stops working.
+   */
+  static async resend(
+    id: string,
+    organizationId: string,
+    options: { expiresInDays?: number } = {}
+  ): Promise<InvitationInfo> {
+    const { expiresInDays = 7 } = options;
+
+    const existing = await this.getById(id, organizationId);
+    if (!existing) {
+      throw new NotFoundError('Invitation');
+    }
+
+    const status = this.getStatus(existing);
+    if (status === 'used' || status === 'revoked') {
+      throw new ConflictError(`Cannot resend an invitation that has been ${status}`);
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+
+    const [invitation] = await db
+      .update(invitationTokens)
+      .set({ token: generateSecureToken(), expiresAt })
+      .where(eq(invitationTokens.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'invitation',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: invitation,
+    });
+
+    const [contractDetails] = await db
+      .select({
+        unitNumber: contracts.unitNumber,
+        buildingName: buildings.name,
+      })
+      .from(contracts)
+      .leftJoin(buildings, eq(contracts.buildingId, buildings.id))
+      .where(eq(contracts.id, invitation.contractId))
+      .limit(1);
+
+    const info: InvitationInfo = {
+      token: invitation.token,
+      url: getInvitationUrl(invitation.token),
+      qrCode: await generateInvitationQR(invitation.token),
+      email: invitation.email,
+      tenantName: invitation.tenantName || undefined,
+      contractId: invitation.contractId,
+      buildingName: contractDetails?.buildingName ?? undefined,
+      unitNumber: contractDetails?.unitNumber,
+      expiresAt: invitation.expiresAt,
+    };
+
+    await sendInvitationEmail(organizationId, info);
+
+    return info;
+  }
+
+  /**
+   * Invite tenants for a whole building from a CSV of emails.
+   * Each row needs an email and either a unit number or a contract number;
+   * rows that cannot be matched to an active contract are skipped.
+   */
+  static async bulkInviteFromCSV(
+    organizationId: string,
+    buildingId: string,
+    csvText: string,
+    createdById: string,
+    options: { expiresInDays?: number } = {}
+  ): Promise<BulkInvitationResult> {
+    const records = parseCSVRecords(csvText);
+    const result: BulkInvitationResult = { created: [], skipped: [] };
+
+    const buildingContracts = await db
+      .select({
+        id: contracts.id,
+        contractNumber: contracts.contractNumber,
+        unitNumber: contracts.unitNumber,
+      })
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.organizationId, organizationId),
+          eq(contracts.buildingId, buildingId),
+          eq(contracts.isActive, true)
+        )
+      );
+
+    for (let index = 0; index < records.length; index++) {
+      const record = records[index];
+      // Row numbers are 1-based and account for the header line
+      const row = index + 2;
+
+      const parsed = bulkInvitationRowSchema.safeParse({
+        email: record.email,
+        unitNumber: record.unitnumber || record.unit || undefined,
+        contractNumber: record.contractnumber || record.contract || undefined,
+        tenantName: record.tenantname || record.name || undefined,
+        percentage: record.percentage || undefined,
+        isMainTenant: ['true', 'yes', '1', 'ja'].includes((record.ismaintenant || '').toLowerCase()),
+      });
+
+      if (!parsed.success) {
+        result.skipped.push({
+          row,
+          email: record.email,
+          reason: parsed.error.issues.map(issue => issue.message).join(', '),
+        });
+        continue;
+      }
+
+      const data = parsed.data;
+      const contract = buildingContracts.find(c =>
+        data.contractNumber
+          ? c.contractNumber === data.contractNumber
+          : c.unitNumber === data.unitNumber
+      );
+
+      if (!contract) {
+        result.skipped.push({
+          row,
+          email: data.email,
+          reason: 'No active contract found for this unit in the building',
+        });
+        continue;
+      }
+
+      const [pending] = await db
+        .select({ id: invitationTokens.id })
+        .from(invitationTokens)
+        .where(
+          and(
+            eq(invitationTokens.contractId, contract.id),
+            eq(invitationTokens.email, data.email),
+            this.statusCondition('pending')
+          )
+        )
+        .limit(1);
+
+      if (pending) {
+        result.skipped.push({
+          row,
+          email: data.email,
+          reason: 'A pending invitation already exists for this email and contract',
+        });
+        continue;
+      }
+
+      result.created.push(
+        await this.create({
+          organizationId,
+          contractId: contract.id,
+          email: data.email,
+          tenantName: data.tenantName,
+          percentage: data.percentage,
+          isMainTenant: data.isMainTenant,
+          expiresInDays: options.expiresInDays,
+          createdById,
+        })
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Get invitation counts by status
+   */
+  static async getStats(organizationId: string) {
+    const [stats] = await db
+      .select({
+        total: count(invitationTokens.id),
+        pending: sum(
+          sql<number>`CASE WHEN ${invitationTokens.revokedAt} IS NULL AND ${invitationTokens.usedAt} IS NULL AND ${invitationTokens.expiresAt} > NOW() THEN 1 ELSE 0 END`
+        ),
+        used: sum(
+          sql<number>`CASE WHEN ${invitationTokens.revokedAt} IS NULL AND ${invitationTokens.usedAt} IS NOT NULL THEN 1 ELSE 0 END`
+        ),
+        expired: sum(
+          sql<number>`CASE WHEN ${invitationTokens.revokedAt} IS NULL AND ${invitationTokens.usedAt} IS NULL AND ${invitationTokens.expiresAt} <= NOW() THEN 1 ELSE 0 END`
+        ),
+        revoked: sum(sql<number>`CASE WHEN ${invitationTokens.revokedAt} IS NOT NULL THEN 1 ELSE 0 END`),
+      })
+      .from(invitationTokens)
+      .where(eq(invitationTokens.organizationId, organizationId));
+
+    return {
+      total: Number(stats?.total || 0),
+      pending: Number(stats?.pending || 0),
+      used: Number(stats?.used || 0),
+      expired: Number(stats?.expired || 0),
+      revoked: Number(stats?.revoked || 0),
+    };
+  }
+
+  /**
+   * SQL condition matching invitations in the given status
+   */
+  private static statusCondition(status: InvitationStatus) {
+    const now = new Date();
+
+    switch (status) {
+      case 'revoked':
+        return isNotNull(invitationTokens.revokedAt);
+      case 'used':
+        return and(isNull(invitationTokens.revokedAt), isNotNull(invitationTokens.usedAt));
+      case 'expired':
+        return and(
+          isNull(invitationTokens.revokedAt),
+          isNull(invitationTokens.usedAt),
+          lte(invitationTokens.expiresAt, now)
+        );
+      case 'pending':
+        return and(
+          isNull(invitationTokens.revokedAt),
+          isNull(invitationTokens.usedAt),
+          gt(invitationTokens.expiresAt, now)
+        );
+    }
+  }
+}
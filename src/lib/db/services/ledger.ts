@@ -0,0 +1,525 @@
+// src/lib/db/services/ledger.ts
+import { eq, and, or, lt, gte, lte, desc, asc, count, sum, inArray, isNull, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  ledgerEntries,
+  bankTransactions,
+  contracts,
+  tenantContracts,
+  buildings,
+  users,
+  type LedgerEntry,
+  type NewLedgerEntry,
+} from '../schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, pairRecordsById } from '../audit';
+import { RentAdjustmentService } from './rent-adjustments';
+import {
+  toCents,
+  fromCents,
+  toPeriod,
+  getPeriodBounds,
+  getRentDueDate,
+  prorateMonthlyRent,
+  splitByShares,
+  allocatePayments,
+} from '../../ledger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type LedgerEntryInput = Pick<
+  NewLedgerEntry,
+  | 'contractId'
+  | 'tenantId'
+  | 'entryType'
+  | 'category'
+  | 'amount'
+  | 'period'
+  | 'dueDate'
+  | 'bookingDate'
+  | 'paymentMethod'
+  | 'reference'
+  | 'description'
+>;
+
+export interface LedgerFilters {
+  contractId?: string;
+  tenantId?: string;
+  entryType?: LedgerEntry['entryType'];
+  category?: LedgerEntry['category'];
+  period?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Tenants of a contract with their relative share of its charges
+ */
+async function getContractTenants(contractId: string) {
+  return await db
+    .select({
+      tenantId: tenantContracts.tenantId,
+      percentage: tenantContracts.percentage,
+      isMainTenant: tenantContracts.isMainTenant,
+      name: users.name,
+      email: users.email,
+    })
+    .from(tenantContracts)
+    .innerJoin(users, eq(tenantContracts.tenantId, users.id))
+    .where(eq(tenantContracts.contractId, contractId))
+    .orderBy(desc(tenantContracts.isMainTenant), asc(tenantContracts.createdAt));
+}
+
+export class LedgerService {
+  /**
+   * Book a charge, payment or credit on a contract
+   */
+  static async createEntry(
+    organizationId: string,
+    data: LedgerEntryInput,
+    createdById: string | null
+  ): Promise<LedgerEntry> {
+    const [contract] = await db
+      .select({ id: contracts.id })
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.id, data.contractId),
+          eq(contracts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!contract) {
+      throw new NotFoundError('Contract', data.contractId);
+    }
+
+    if (data.tenantId) {
+      const [tenantContract] = await db
+        .select({ id: tenantContracts.id })
+        .from(tenantContracts)
+        .where(
+          and(
+            eq(tenantContracts.contractId, data.contractId),
+            eq(tenantContracts.tenantId, data.tenantId)
+          )
+        )
+        .limit(1);
+
+      if (!tenantContract) {
+        throw new ValidationError('The tenant is not on this contract', 'tenantId');
+      }
+    }
+
+    const bookingDate = data.bookingDate || new Date();
+
+    const [entry] = await db
+      .insert(ledgerEntries)
+      .values({
+        ...data,
+        organizationId,
+        bookingDate,
+        period: data.period || toPeriod(bookingDate),
+        // Charges without an explicit due date are due immediately
+        dueDate: data.entryType === 'charge' ? data.dueDate || bookingDate : null,
+        paymentMethod: data.entryType === 'payment' ? data.paymentMethod : null,
+        createdById,
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'ledger_entry',
+      entityId: entry.id,
+      action: 'create',
+      after: entry,
+    });
+
+    return entry;
+  }
+
+  /**
+   * Get ledger entry by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<LedgerEntry | null> {
+    const [entry] = await db
+      .select()
+      .from(ledgerEntries)
+      .where(
+        and(
+          eq(ledgerEntries.id, id),
+          eq(ledgerEntries.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return entry || null;
+  }
+
+  /**
+   * Get ledger entries of an organization, most recent booking first
+   */
+  static async getEntries(
+    organizationId: string,
+    filters: LedgerFilters & { limit?: number; offset?: number } = {}
+  ): Promise<{ entries: LedgerEntry[]; total: number }> {
+    const { contractId, tenantId, entryType, category, period, from, to, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(ledgerEntries.organizationId, organizationId);
+
+    if (contractId) {
+      whereConditions = and(whereConditions, eq(ledgerEntries.contractId, contractId));
+    }
+
+    if (tenantId) {
+      whereConditions = and(whereConditions, eq(ledgerEntries.tenantId, tenantId));
+    }
+
+    if (entryType) {
+      whereConditions = and(whereConditions, eq(ledgerEntries.entryType, entryType));
+    }
+
+    if (category) {
+      whereConditions = and(whereConditions, eq(ledgerEntries.category, category));
+    }
+
+    if (period) {
+      whereConditions = and(whereConditions, eq(ledgerEntries.period, period));
+    }
+
+    if (from) {
+      whereConditions = and(whereConditions, gte(ledgerEntries.bookingDate, from));
+    }
+
+    if (to) {
+      whereConditions = and(whereConditions, lte(ledgerEntries.bookingDate, to));
+    }
+
+    const [entries, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(ledgerEntries)
+        .where(whereConditions)
+        .orderBy(desc(ledgerEntries.bookingDate), desc(ledgerEntries.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(ledgerEntries)
+        .where(whereConditions),
+    ]);
+
+    return { entries, total };
+  }
+
+  /**
+   * Delete a wrongly booked entry. Settled amounts should be corrected with a credit instead.
+   */
+  static async delete(id: string, organizationId: string): Promise<boolean> {
+    // Bank transactions booked as this payment go back to the reconciliation queue
+    const linkedCondition = and(
+      eq(bankTransactions.ledgerEntryId, id),
+      eq(bankTransactions.organizationId, organizationId)
+    );
+    const linked = await db.select().from(bankTransactions).where(linkedCondition);
+    const unmatched = linked.length > 0
+      ? await db
+          .update(bankTransactions)
+          .set({ status: 'unmatched', contractId: null, ledgerEntryId: null, matchedById: null, matchedAt: null })
+          .where(linkedCondition)
+          .returning()
+      : [];
+
+    const [deleted] = await db
+      .delete(ledgerEntries)
+      .where(
+        and(
+          eq(ledgerEntries.id, id),
+          eq(ledgerEntries.organizationId, organizationId)
+        )
+      )
+      .returning();
+
+    if (!deleted) return false;
+
+    await recordAuditEvents([
+      ...pairRecordsById('bank_transaction', linked, unmatched),
+      {
+        organizationId,
+        entityType: 'ledger_entry',
+        entityId: id,
+        action: 'delete',
+        before: deleted,
+      },
+    ]);
+
+    return true;
+  }
+
+  /**
+   * Charge the monthly rent of every contract running in the period, prorated for
+   * contracts starting or ending within it. The rent is taken from the rent history,
+   * so changes effective in the period count even before they are applied. Periods that were already charged are skipped,
+   * so this is safe to run repeatedly.
+   */
+  static async generateRentCharges(
+    organizationId: string,
+    period: string
+  ): Promise<{ created: LedgerEntry[]; skipped: number }> {
+    const { start, end } = getPeriodBounds(period);
+
+    const runningContracts = await db
+      .select()
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.organizationId, organizationId),
+          lt(contracts.startDate, end),
+          or(isNull(contracts.endDate), gte(contracts.endDate, start)),
+          // Terminated contracts are still charged up to their end date
+          or(eq(contracts.isActive, true), isNotNull(contracts.endDate))
+        )
+      );
+
+    const dueDate = getRentDueDate(period);
+    const rents = await RentAdjustmentService.getRentsForPeriod(runningContracts, period);
+    const values = runningContracts
+      .map(contract => ({
+        organizationId,
+        contractId: contract.id,
+        entryType: 'charge' as const,
+        category: 'rent' as const,
+        amount: fromCents(prorateMonthlyRent(rents.get(contract.id) || 0, period, contract)),
+        period,
+        dueDate,
+        bookingDate: start,
+        description: `Rent ${period}`,
+      }))
+      .filter(value => toCents(value.amount) > 0);
+
+    if (values.length === 0) {
+      return { created: [], skipped: runningContracts.length };
+    }
+
+    const created = await db
+      .insert(ledgerEntries)
+      .values(values)
+      .onConflictDoNothing()
+      .returning();
+
+    await recordAuditEvents(
+      created.map(entry => ({
+        organizationId,
+        entityType: 'ledger_entry' as const,
+        entityId: entry.id,
+        action: 'create' as const,
+        after: entry,
+      }))
+    );
+
+    return { created, skipped: runningContracts.length - created.length };
+  }
+
+  /**
+   * Running balance of a contract and of each co-tenant. Entries booked for a
+   * specific tenant count towards that tenant; all others are split by the
+   * tenants' shares of the contract.
+   */
+  static async getContractBalance(contractId: string, organizationId: string, asOf = new Date()) {
+    const [contract] = await db
+      .select({ id: contracts.id, rentAmount: contracts.rentAmount })
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.id, contractId),
+          eq(contracts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!contract) return null;
+
+    const [entries, tenants] = await Promise.all([
+      db
+        .select()
+        .from(ledgerEntries)
+        .where(eq(ledgerEntries.contractId, contractId))
+        .orderBy(asc(ledgerEntries.bookingDate)),
+      getContractTenants(contractId),
+    ]);
+
+    const shares = tenants.map(tenant => Number(tenant.percentage || 0));
+    const tenantTotals = tenants.map(() => ({ charged: 0, settled: 0 }));
+    const totals = { charged: 0, paid: 0, credited: 0, overdueCharged: 0 };
+
+    for (const entry of entries) {
+      const cents = toCents(entry.amount);
+      const isCharge = entry.entryType === 'charge';
+
+      if (isCharge) {
+        totals.charged += cents;
+        if (entry.dueDate && entry.dueDate <= asOf) totals.overdueCharged += cents;
+      } else if (entry.entryType === 'payment') {
+        totals.paid += cents;
+      } else {
+        totals.credited += cents;
+      }
+
+      const tenantIndex = tenants.findIndex(tenant => tenant.tenantId === entry.tenantId);
+      const parts = tenantIndex >= 0
+        ? tenants.map((_, index) => (index === tenantIndex ? cents : 0))
+        : splitByShares(cents, shares);
+
+      parts.forEach((part, index) => {
+        if (isCharge) {
+          tenantTotals[index].charged += part;
+        } else {
+          tenantTotals[index].settled += part;
+        }
+      });
+    }
+
+    const settled = totals.paid + totals.credited;
+    const openCharges = allocatePayments(
+      entries.filter(entry => entry.entryType === 'charge' && entry.dueDate && entry.dueDate <= asOf),
+      settled
+    );
+
+    return {
+      contractId,
+      monthlyRent: Number(contract.rentAmount),
+      charged: totals.charged / 100,
+      paid: totals.paid / 100,
+      credited: totals.credited / 100,
+      // Positive when the tenants owe money, negative when they paid in advance
+      balance: (totals.charged - settled) / 100,
+      arrears: Math.max(totals.overdueCharged - settled, 0) / 100,
+      oldestOpenDueDate: openCharges[0]?.charge.dueDate ?? null,
+      tenants: tenants.map((tenant, index) => ({
+        tenantId: tenant.tenantId,
+        name: tenant.name,
+        email: tenant.email,
+        percentage: Number(tenant.percentage || 0),
+        isMainTenant: tenant.isMainTenant,
+        charged: tenantTotals[index].charged / 100,
+        settled: tenantTotals[index].settled / 100,
+        balance: (tenantTotals[index].charged - tenantTotals[index].settled) / 100,
+      })),
+    };
+  }
+
+  /**
+   * Contracts with overdue charges not covered by payments and credits, largest arrears first.
+   * Payments settle the oldest charges first.
+   */
+  static async getArrears(organizationId: string, asOf = new Date()) {
+    const dueBy = asOf.toISOString();
+
+    const totals = await db
+      .select({
+        contractId: ledgerEntries.contractId,
+        overdueCharged: sum(sql`CASE WHEN ${ledgerEntries.entryType} = 'charge' AND ${ledgerEntries.dueDate} <= ${dueBy} THEN ${ledgerEntries.amount} ELSE 0 END`),
+        settled: sum(sql`CASE WHEN ${ledgerEntries.entryType} <> 'charge' THEN ${ledgerEntries.amount} ELSE 0 END`),
+      })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.organizationId, organizationId))
+      .groupBy(ledgerEntries.contractId);
+
+    const settledByContract = new Map(
+      totals
+        .filter(total => toCents(total.overdueCharged) > toCents(total.settled))
+        .map(total => [total.contractId, toCents(total.settled)])
+    );
+
+    const contractIds = Array.from(settledByContract.keys());
+    if (contractIds.length === 0) return [];
+
+    const [contractRows, overdueCharges, tenantRows] = await Promise.all([
+      db
+        .select({
+          contract: {
+            id: contracts.id,
+            contractNumber: contracts.contractNumber,
+            unitNumber: contracts.unitNumber,
+            rentAmount: contracts.rentAmount,
+            isActive: contracts.isActive,
+          },
+          building: {
+            id: buildings.id,
+            name: buildings.name,
+          },
+        })
+        .from(contracts)
+        .innerJoin(buildings, eq(contracts.buildingId, buildings.id))
+        .where(inArray(contracts.id, contractIds)),
+      db
+        .select()
+        .from(ledgerEntries)
+        .where(
+          and(
+            inArray(ledgerEntries.contractId, contractIds),
+            eq(ledgerEntries.entryType, 'charge'),
+            lte(ledgerEntries.dueDate, asOf)
+          )
+        ),
+      db
+        .select({
+          contractId: tenantContracts.contractId,
+          id: users.id,
+          name: users.name,
+          email: users.email,
+        })
+        .from(tenantContracts)
+        .innerJoin(users, eq(tenantContracts.tenantId, users.id))
+        .where(inArray(tenantContracts.contractId, contractIds)),
+    ]);
+
+    return contractRows
+      .map(({ contract, building }) => {
+        const openCharges = allocatePayments(
+          overdueCharges.filter(charge => charge.contractId === contract.id),
+          settledByContract.get(contract.id) || 0
+        );
+        const arrearsCents = openCharges.reduce((total, open) => total + open.openCents, 0);
+        const oldestDueDate = openCharges[0]?.charge.dueDate ?? null;
+        const rentCents = toCents(contract.rentAmount);
+
+        return {
+          contract,
+          building,
+          tenants: tenantRows
+            .filter(tenant => tenant.contractId === contract.id)
+            .map(({ id, name, email }) => ({ id, name, email })),
+          arrears: arrearsCents / 100,
+          // Two months of arrears allow termination without notice (§ 543 BGB)
+          monthsInArrears: rentCents > 0 ? Math.round((arrearsCents / rentCents) * 10) / 10 : 0,
+          oldestDueDate,
+          daysOverdue: oldestDueDate ? Math.floor((asOf.getTime() - oldestDueDate.getTime()) / DAY_MS) : 0,
+          openCharges: openCharges.map(({ charge, openCents }) => ({
+            id: charge.id,
+            category: charge.category,
+            period: charge.period,
+            dueDate: charge.dueDate,
+            amount: Number(charge.amount),
+            open: openCents / 100,
+          })),
+        };
+      })
+      .sort((a, b) => b.arrears - a.arrears);
+  }
+
+  /**
+   * Totals of the arrears report for dashboards
+   */
+  static async getArrearsSummary(organizationId: string) {
+    const arrears = await this.getArrears(organizationId);
+
+    return {
+      totalArrears: arrears.reduce((total, item) => total + Math.round(item.arrears * 100), 0) / 100,
+      contractsInArrears: arrears.length,
+      // Candidates for termination without notice
+      contractsWithTwoMonthsArrears: arrears.filter(item => item.monthsInArrears >= 2).length,
+      topContracts: arrears.slice(0, 5),
+    };
+  }
+}
@@ -0,0 +1,337 @@
+// src/lib/db/services/meter-submissions.ts
+import { eq, and, asc, desc, count, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  meterReadingSubmissions,
+  meterReadings,
+  meters,
+  units,
+  buildings,
+  contracts,
+  tenantContracts,
+  users,
+  documents,
+  type Meter,
+  type MeterReadingSubmission,
+  type MeterReadingSubmissionStatus,
+} from '../schema';
+import { AccessDeniedError, ConflictError, NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent } from '../audit';
+import { checkReadingPlausibility } from '../../meters';
+import { overlapsRange } from '../../units';
+import { MeterService } from './meters';
+import { DocumentService, type DocumentUpload } from './documents';
+
+export interface MeterSubmissionInput {
+  meterId: string;
+  readingDate: Date;
+  value: string;
+  note?: string;
+  photo: DocumentUpload;
+}
+
+export interface MeterSubmissionFilters {
+  status?: MeterReadingSubmissionStatus;
+  meterId?: string;
+  submittedById?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class MeterSubmissionService {
+  /**
+   * Get submissions with their meter and photo, latest first
+   */
+  static async getSubmissions(organizationId: string, filters: MeterSubmissionFilters = {}) {
+    const { status, meterId, submittedById, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(meterReadingSubmissions.organizationId, organizationId);
+
+    if (status) {
+      whereConditions = and(whereConditions, eq(meterReadingSubmissions.status, status));
+    }
+    if (meterId) {
+      whereConditions = and(whereConditions, eq(meterReadingSubmissions.meterId, meterId));
+    }
+    if (submittedById) {
+      whereConditions = and(whereConditions, eq(meterReadingSubmissions.submittedById, submittedById));
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({
+          submission: meterReadingSubmissions,
+          meterNumber: meters.meterNumber,
+          consumptionType: meters.consumptionType,
+          unit: meters.unit,
+          unitNumber: units.unitNumber,
+          buildingName: buildings.name,
+          submittedByName: users.name,
+          photoUrl: documents.fileUrl,
+        })
+        .from(meterReadingSubmissions)
+        .innerJoin(meters, eq(meterReadingSubmissions.meterId, meters.id))
+        .innerJoin(buildings, eq(meters.buildingId, buildings.id))
+        .leftJoin(units, eq(meters.unitId, units.id))
+        .innerJoin(users, eq(meterReadingSubmissions.submittedById, users.id))
+        .leftJoin(documents, eq(meterReadingSubmissions.photoDocumentId, documents.id))
+        .where(whereConditions)
+        .orderBy(desc(meterReadingSubmissions.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(meterReadingSubmissions)
+        .where(whereConditions),
+    ]);
+
+    return {
+      submissions: rows.map(({ submission, ...meter }) => ({ ...submission, ...meter })),
+      total,
+    };
+  }
+
+  /**
+   * Get submission by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<MeterReadingSubmission | null> {
+    const [submission] = await db
+      .select()
+      .from(meterReadingSubmissions)
+      .where(
+        and(
+          eq(meterReadingSubmissions.id, id),
+          eq(meterReadingSubmissions.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return submission || null;
+  }
+
+  /**
+   * Submit a meter value with a photo of the meter. The tenant must rent the unit of the
+   * meter on the reading date. Implausible values are refused, unusual ones are flagged
+   * for the review.
+   */
+  static async submit(
+    organizationId: string,
+    tenantId: string,
+    data: MeterSubmissionInput
+  ): Promise<MeterReadingSubmission> {
+    const meter = await MeterService.getById(data.meterId, organizationId);
+    if (!meter) {
+      throw new NotFoundError('Meter', data.meterId);
+    }
+    if (meter.removedAt) {
+      throw new ConflictError(`Meter ${meter.meterNumber} was replaced and takes no further readings`);
+    }
+
+    const contractId = meter.unitId ? await this.getTenantContract(tenantId, meter.unitId, data.readingDate) : null;
+    if (!contractId) {
+      throw new AccessDeniedError('You do not rent the unit of this meter on the reading date');
+    }
+
+    const [pending] = await db
+      .select({ id: meterReadingSubmissions.id })
+      .from(meterReadingSubmissions)
+      .where(
+        and(
+          eq(meterReadingSubmissions.meterId, meter.id),
+          eq(meterReadingSubmissions.status, 'pending')
+        )
+      )
+      .limit(1);
+
+    if (pending) {
+      throw new ConflictError(`A reading of meter ${meter.meterNumber} is already waiting for approval`);
+    }
+
+    const warnings = await this.checkPlausibility(meter, data);
+
+    const photo = await DocumentService.upload(data.photo, {
+      organizationId,
+      buildingId: meter.buildingId,
+      contractId,
+      uploadedById: tenantId,
+      category: 'photo',
+      description: `Meter ${meter.meterNumber} on ${data.readingDate.toISOString().slice(0, 10)}`,
+    });
+
+    const [submission] = await db
+      .insert(meterReadingSubmissions)
+      .values({
+        organizationId,
+        meterId: meter.id,
+        contractId,
+        submittedById: tenantId,
+        readingDate: data.readingDate,
+        value: data.value,
+        note: data.note,
+        photoDocumentId: photo.id,
+        warnings,
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'meter_reading_submission',
+      entityId: submission.id,
+      action: 'create',
+      after: submission,
+    });
+
+    return submission;
+  }
+
+  /**
+   * Approve a pending submission. Its value, or the corrected one, is recorded as a meter
+   * reading, which records the consumption for the contract.
+   */
+  static async approve(
+    id: string,
+    organizationId: string,
+    reviewerId: string,
+    data: { value?: string } = {}
+  ): Promise<MeterReadingSubmission | null> {
+    const before = await this.getPending(id, organizationId);
+    if (!before) return null;
+
+    const value = data.value ?? before.value;
+    const reading = await MeterService.recordReading(
+      before.meterId,
+      organizationId,
+      { readingDate: before.readingDate, value, note: before.note ?? undefined },
+      reviewerId
+    );
+    if (!reading) {
+      throw new NotFoundError('Meter', before.meterId);
+    }
+
+    const [submission] = await db
+      .update(meterReadingSubmissions)
+      .set({
+        status: 'approved',
+        value,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+        meterReadingId: reading.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(meterReadingSubmissions.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'meter_reading_submission',
+      entityId: id,
+      action: 'update',
+      before,
+      after: submission,
+    });
+
+    return submission;
+  }
+
+  /**
+   * Reject a pending submission, e.g. when the photo does not show the value
+   */
+  static async reject(
+    id: string,
+    organizationId: string,
+    reviewerId: string,
+    reason: string
+  ): Promise<MeterReadingSubmission | null> {
+    const before = await this.getPending(id, organizationId);
+    if (!before) return null;
+
+    const [submission] = await db
+      .update(meterReadingSubmissions)
+      .set({
+        status: 'rejected',
+        rejectionReason: reason,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(meterReadingSubmissions.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'meter_reading_submission',
+      entityId: id,
+      action: 'update',
+      before,
+      after: submission,
+    });
+
+    return submission;
+  }
+
+  private static async getPending(id: string, organizationId: string): Promise<MeterReadingSubmission | null> {
+    const submission = await this.getById(id, organizationId);
+    if (submission && submission.status !== 'pending') {
+      throw new ConflictError(`The submission was already ${submission.status}`);
+    }
+    return submission;
+  }
+
+  private static async getTenantContract(tenantId: string, unitId: string, date: Date): Promise<string | null> {
+    const tenancies = await db
+      .select({
+        id: contracts.id,
+        startDate: contracts.startDate,
+        endDate: contracts.endDate,
+        isActive: contracts.isActive,
+      })
+      .from(tenantContracts)
+      .innerJoin(contracts, eq(tenantContracts.contractId, contracts.id))
+      .where(
+        and(
+          eq(tenantContracts.tenantId, tenantId),
+          eq(contracts.unitId, unitId)
+        )
+      );
+
+    return tenancies.find(contract => overlapsRange(contract, date))?.id ?? null;
+  }
+
+  /**
+   * Check the value against the latest reading and the usual consumption per day of the
+   * meter. Returns the warnings for the review.
+   */
+  private static async checkPlausibility(meter: Meter, data: MeterSubmissionInput): Promise<string[]> {
+    const history = await db
+      .select({
+        readingDate: meterReadings.readingDate,
+        value: meterReadings.value,
+        consumption: meterReadings.consumption,
+      })
+      .from(meterReadings)
+      .where(eq(meterReadings.meterId, meter.id))
+      .orderBy(asc(meterReadings.readingDate), asc(meterReadings.createdAt));
+
+    const first = history[0];
+    const latest = history[history.length - 1];
+    const days = first && latest ? (latest.readingDate.getTime() - first.readingDate.getTime()) / DAY_MS : 0;
+    const total = history.reduce((sum, reading) => sum + Number(reading.consumption ?? 0), 0);
+
+    const result = checkReadingPlausibility(
+      latest ? { readingDate: latest.readingDate, value: Number(latest.value) } : null,
+      { readingDate: data.readingDate, value: Number(data.value) },
+      { digits: meter.digits, averagePerDay: days >= 1 ? total / days : null }
+    );
+
+    if (result.error) {
+      throw new ValidationError(result.error.message, result.error.field);
+    }
+    if (data.readingDate < meter.installedAt) {
+      throw new ValidationError('The reading date is before the meter was installed', 'readingDate');
+    }
+
+    return result.warnings;
+  }
+}
@@ -0,0 +1,686 @@
+// src/lib/db/services/meters.ts
+import { eq, and, or, asc, desc, count, lte, isNull, isNotNull, like, inArray, type SQL } from 'drizzle-orm';
+import { db, type Database } from '../db';
+import {
+  meters,
+  meterReadings,
+  buildings,
+  units,
+  contracts,
+  tenantContracts,
+  consumptionRecords,
+  type Meter,
+  type NewMeter,
+  type MeterReading,
+  type MeterReadingType,
+  type ConsumptionRecord,
+  type ConsumptionType,
+} from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, withAuditOperation, type AuditEntry } from '../audit';
+import { getCalibrationValidUntil, getConsumption } from '../../meters';
+import { overlapsRange } from '../../units';
+import { toPeriod } from '../../ledger';
+import { emitWebhookEvent } from '../../webhooks';
+
+export type MeterInput = Pick<
+  NewMeter,
+  'buildingId' | 'unitId' | 'meterNumber' | 'consumptionType' | 'unit' | 'digits' | 'location' |
+  'installedAt' | 'calibrationYear' | 'calibrationValidUntil'
+> & {
+  initialReading?: string; // Value the meter starts with, recorded as its initial reading
+};
+
+export type MeterUpdate = Partial<Pick<
+  NewMeter,
+  'unitId' | 'meterNumber' | 'unit' | 'digits' | 'location' | 'calibrationYear' | 'calibrationValidUntil'
+>>;
+
+export interface MeterReadingInput {
+  readingDate: Date;
+  value: string;
+  note?: string;
+}
+
+export interface MeterReplacement {
+  replacedAt: Date;
+  finalReading: string; // Last value of the old meter
+  meterNumber: string;
+  initialReading?: string; // First value of the new meter, 0 when omitted
+  digits?: number | null;
+  calibrationYear?: number | null;
+  calibrationValidUntil?: Date | null;
+}
+
+export interface MeterFilters {
+  buildingId?: string;
+  unitId?: string;
+  consumptionType?: ConsumptionType;
+  active?: boolean;
+  calibrationDueBefore?: Date; // Active meters whose Eichfrist ends by then
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export class MeterService {
+  /**
+   * Get meters, ordered by building and meter number
+   */
+  static async getMeters(organizationId: string, filters: MeterFilters = {}) {
+    const { buildingId, unitId, consumptionType, active, calibrationDueBefore, search, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(meters.organizationId, organizationId);
+
+    if (buildingId) {
+      whereConditions = and(whereConditions, eq(meters.buildingId, buildingId));
+    }
+    if (unitId) {
+      whereConditions = and(whereConditions, eq(meters.unitId, unitId));
+    }
+    if (consumptionType) {
+      whereConditions = and(whereConditions, eq(meters.consumptionType, consumptionType));
+    }
+    if (active !== undefined) {
+      whereConditions = and(whereConditions, active ? isNull(meters.removedAt) : isNotNull(meters.removedAt));
+    }
+    if (calibrationDueBefore) {
+      whereConditions = and(
+        whereConditions,
+        isNull(meters.removedAt),
+        lte(meters.calibrationValidUntil, calibrationDueBefore)
+      );
+    }
+    if (search) {
+      whereConditions = and(
+        whereConditions,
+        or(like(meters.meterNumber, `%${search}%`), like(meters.location, `%${search}%`))
+      );
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({
+          meter: meters,
+          buildingName: buildings.name,
+          unitNumber: units.unitNumber,
+        })
+        .from(meters)
+        .innerJoin(buildings, eq(meters.buildingId, buildings.id))
+        .leftJoin(units, eq(meters.unitId, units.id))
+        .where(whereConditions)
+        .orderBy(asc(buildings.name), asc(meters.meterNumber))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(meters)
+        .where(whereConditions),
+    ]);
+
+    return {
+      meters: rows.map(row => ({ ...row.meter, buildingName: row.buildingName, unitNumber: row.unitNumber })),
+      total,
+    };
+  }
+
+  /**
+   * Get the active meters of the units a tenant currently rents, with their latest reading
+   * and the contract readings are recorded for
+   */
+  static async getByTenant(tenantId: string, organizationId: string, asOf: Date = new Date()) {
+    const tenancies = await db
+      .select({
+        id: contracts.id,
+        unitId: contracts.unitId,
+        startDate: contracts.startDate,
+        endDate: contracts.endDate,
+        isActive: contracts.isActive,
+      })
+      .from(tenantContracts)
+      .innerJoin(contracts, eq(tenantContracts.contractId, contracts.id))
+      .where(
+        and(
+          eq(tenantContracts.tenantId, tenantId),
+          eq(tenantContracts.organizationId, organizationId)
+        )
+      );
+
+    const current = tenancies.filter(contract => contract.unitId && overlapsRange(contract, asOf));
+    const unitIds = current.flatMap(contract => contract.unitId ? [contract.unitId] : []);
+    if (unitIds.length === 0) return [];
+
+    const rows = await db
+      .select({
+        meter: meters,
+        buildingName: buildings.name,
+        unitNumber: units.unitNumber,
+      })
+      .from(meters)
+      .innerJoin(buildings, eq(meters.buildingId, buildings.id))
+      .innerJoin(units, eq(meters.unitId, units.id))
+      .where(
+        and(
+          inArray(meters.unitId, unitIds),
+          isNull(meters.removedAt)
+        )
+      )
+      .orderBy(asc(meters.consumptionType), asc(meters.meterNumber));
+
+    if (rows.length === 0) return [];
+
+    const latestReadings = await db
+      .selectDistinctOn([meterReadings.meterId])
+      .from(meterReadings)
+      .where(inArray(meterReadings.meterId, rows.map(row => row.meter.id)))
+      .orderBy(meterReadings.meterId, desc(meterReadings.readingDate), desc(meterReadings.createdAt));
+
+    return rows.map(row => ({
+      ...row.meter,
+      buildingName: row.buildingName,
+      unitNumber: row.unitNumber,
+      contractId: current.find(contract => contract.unitId === row.meter.unitId)?.id ?? null,
+      latestReading: latestReadings.find(reading => reading.meterId === row.meter.id) ?? null,
+    }));
+  }
+
+  /**
+   * Get meter by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<Meter | null> {
+    const [meter] = await db
+      .select()
+      .from(meters)
+      .where(
+        and(
+          eq(meters.id, id),
+          eq(meters.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return meter || null;
+  }
+
+  /**
+   * Get meter with its building, unit, reading history and the meters it replaced or
+   * was replaced by
+   */
+  static async getDetails(id: string, organizationId: string) {
+    const [row] = await db
+      .select({ meter: meters, building: buildings, unit: units })
+      .from(meters)
+      .innerJoin(buildings, eq(meters.buildingId, buildings.id))
+      .leftJoin(units, eq(meters.unitId, units.id))
+      .where(
+        and(
+          eq(meters.id, id),
+          eq(meters.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!row) return null;
+
+    const [readings, [replacedBy]] = await Promise.all([
+      this.getReadings(id),
+      db
+        .select()
+        .from(meters)
+        .where(eq(meters.replacesMeterId, id))
+        .limit(1),
+    ]);
+
+    return {
+      ...row.meter,
+      building: row.building,
+      unit: row.unit,
+      readings,
+      replacedBy: replacedBy || null,
+    };
+  }
+
+  /**
+   * Get the readings of a meter, latest first
+   */
+  static async getReadings(meterId: string): Promise<MeterReading[]> {
+    return await db
+      .select()
+      .from(meterReadings)
+      .where(eq(meterReadings.meterId, meterId))
+      .orderBy(desc(meterReadings.readingDate), desc(meterReadings.createdAt));
+  }
+
+  /**
+   * Register a meter. The Eichfrist follows from the calibration year unless given.
+   */
+  static async create(organizationId: string, data: MeterInput, userId?: string): Promise<Meter> {
+    const { initialReading, ...meterData } = data;
+
+    await this.assertLocation(organizationId, meterData.buildingId, meterData.unitId);
+    await this.assertUniqueNumber(meterData.buildingId, meterData.meterNumber);
+
+    return withAuditOperation('create_meter', () => db.transaction(async (tx) => {
+      const [meter] = await tx
+        .insert(meters)
+        .values({
+          ...meterData,
+          organizationId,
+          calibrationValidUntil: meterData.calibrationValidUntil ??
+            (meterData.calibrationYear ? getCalibrationValidUntil(meterData.consumptionType, meterData.calibrationYear) : null),
+        })
+        .returning();
+
+      await recordAuditEvent({
+        organizationId,
+        entityType: 'meter',
+        entityId: meter.id,
+        action: 'create',
+        after: meter,
+      }, tx);
+
+      if (initialReading !== undefined) {
+        await this.addReading(tx, meter, 'initial', { readingDate: meter.installedAt, value: initialReading }, userId);
+      }
+
+      return meter;
+    }));
+  }
+
+  /**
+   * Update a meter. A new calibration year moves the Eichfrist unless it is given.
+   */
+  static async update(id: string, organizationId: string, data: MeterUpdate): Promise<Meter | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    if (data.unitId !== undefined) {
+      await this.assertLocation(organizationId, before.buildingId, data.unitId);
+    }
+    if (data.meterNumber && data.meterNumber !== before.meterNumber) {
+      await this.assertUniqueNumber(before.buildingId, data.meterNumber);
+    }
+
+    const calibrationValidUntil = data.calibrationValidUntil === undefined && data.calibrationYear
+      ? getCalibrationValidUntil(before.consumptionType, data.calibrationYear)
+      : data.calibrationValidUntil;
+
+    const [meter] = await db
+      .update(meters)
+      .set({
+        ...data,
+        ...(calibrationValidUntil !== undefined && { calibrationValidUntil }),
+        updatedAt: new Date(),
+      })
+      .where(eq(meters.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'meter',
+      entityId: id,
+      action: 'update',
+      before,
+      after: meter,
+    });
+
+    return meter;
+  }
+
+  /**
+   * Record a meter value. The consumption since the previous reading is recorded for
+   * the contract that lets the unit of the meter on the reading date.
+   */
+  static async recordReading(
+    meterId: string,
+    organizationId: string,
+    data: MeterReadingInput,
+    userId?: string
+  ): Promise<MeterReading | null> {
+    const meter = await this.getById(meterId, organizationId);
+    if (!meter) return null;
+
+    const { reading, record } = await withAuditOperation('record_meter_reading', () => db.transaction(
+      (tx) => this.addReading(tx, meter, 'regular', data, userId)
+    ));
+
+    if (record) {
+      await emitWebhookEvent(organizationId, 'consumption.recorded', { record });
+    }
+
+    return reading;
+  }
+
+  /**
+   * Replace a meter: the old meter gets its final reading and is removed, the new meter
+   * starts with its initial reading at the same location
+   */
+  static async replace(
+    meterId: string,
+    organizationId: string,
+    data: MeterReplacement,
+    userId?: string
+  ): Promise<Meter | null> {
+    const meter = await this.getById(meterId, organizationId);
+    if (!meter) return null;
+
+    if (data.meterNumber !== meter.meterNumber) {
+      await this.assertUniqueNumber(meter.buildingId, data.meterNumber);
+    }
+
+    const { replacement, record } = await withAuditOperation('replace_meter', () => db.transaction(async (tx) => {
+      const { record } = await this.addReading(
+        tx,
+        meter,
+        'final',
+        { readingDate: data.replacedAt, value: data.finalReading },
+        userId
+      );
+
+      const [removed] = await tx
+        .update(meters)
+        .set({ removedAt: data.replacedAt, updatedAt: new Date() })
+        .where(eq(meters.id, meterId))
+        .returning();
+
+      const [replacement] = await tx
+        .insert(meters)
+        .values({
+          organizationId,
+          buildingId: meter.buildingId,
+          unitId: meter.unitId,
+          meterNumber: data.meterNumber,
+          consumptionType: meter.consumptionType,
+          unit: meter.unit,
+          digits: data.digits !== undefined ? data.digits : meter.digits,
+          location: meter.location,
+          installedAt: data.replacedAt,
+          replacesMeterId: meterId,
+          calibrationYear: data.calibrationYear,
+          calibrationValidUntil: data.calibrationValidUntil ??
+            (data.calibrationYear ? getCalibrationValidUntil(meter.consumptionType, data.calibrationYear) : null),
+        })
+        .returning();
+
+      await recordAuditEvents([
+        {
+          organizationId,
+          entityType: 'meter',
+          entityId: meterId,
+          action: 'update',
+          before: meter,
+          after: removed,
+        },
+        {
+          organizationId,
+          entityType: 'meter',
+          entityId: replacement.id,
+          action: 'create',
+          after: replacement,
+        },
+      ], tx);
+
+      await this.addReading(
+        tx,
+        replacement,
+        'initial',
+        { readingDate: data.replacedAt, value: data.initialReading ?? '0' },
+        userId
+      );
+
+      return { replacement, record };
+    }));
+
+    if (record) {
+      await emitWebhookEvent(organizationId, 'consumption.recorded', { record });
+    }
+
+    return replacement;
+  }
+
+  /**
+   * Delete the latest reading of a meter together with the consumption derived from it.
+   * Earlier readings are the base of later consumption and stay.
+   */
+  static async deleteReading(meterId: string, readingId: string, organizationId: string): Promise<boolean> {
+    const meter = await this.getById(meterId, organizationId);
+    if (!meter) return false;
+
+    const [latest] = await this.getReadings(meterId);
+    if (!latest || latest.id !== readingId) {
+      const [reading] = await db
+        .select({ id: meterReadings.id })
+        .from(meterReadings)
+        .where(and(eq(meterReadings.id, readingId), eq(meterReadings.meterId, meterId)))
+        .limit(1);
+
+      if (!reading) return false;
+      throw new ConflictError('Only the latest reading of a meter can be deleted');
+    }
+    if (meter.removedAt) {
+      throw new ConflictError('Readings of replaced meters cannot be deleted');
+    }
+
+    await withAuditOperation('delete_meter_reading', () => db.transaction(async (tx) => {
+      await tx.delete(meterReadings).where(eq(meterReadings.id, readingId));
+
+      const audit: AuditEntry[] = [
+        {
+          organizationId,
+          entityType: 'meter_reading',
+          entityId: readingId,
+          action: 'delete',
+          before: latest,
+        },
+      ];
+
+      if (latest.consumptionRecordId) {
+        const [record] = await tx
+          .delete(consumptionRecords)
+          .where(eq(consumptionRecords.id, latest.consumptionRecordId))
+          .returning();
+
+        if (record) {
+          audit.push({
+            organizationId,
+            entityType: 'consumption_record',
+            entityId: record.id,
+            action: 'delete',
+            before: record,
+          });
+        }
+      }
+
+      await recordAuditEvents(audit, tx);
+    }));
+
+    return true;
+  }
+
+  /**
+   * Get the active meters whose Eichfrist ends by a date, soonest first
+   */
+  static async getCalibrationDue(organizationId: string, before: Date) {
+    return await db
+      .select({
+        meter: meters,
+        buildingName: buildings.name,
+        unitNumber: units.unitNumber,
+      })
+      .from(meters)
+      .innerJoin(buildings, eq(meters.buildingId, buildings.id))
+      .leftJoin(units, eq(meters.unitId, units.id))
+      .where(
+        and(
+          eq(meters.organizationId, organizationId),
+          isNull(meters.removedAt),
+          lte(meters.calibrationValidUntil, before)
+        )
+      )
+      .orderBy(asc(meters.calibrationValidUntil));
+  }
+
+  private static async addReading(
+    tx: Pick<Database, 'select' | 'insert'>,
+    meter: Meter,
+    type: MeterReadingType,
+    data: MeterReadingInput,
+    userId?: string
+  ): Promise<{ reading: MeterReading; record: ConsumptionRecord | null }> {
+    if (meter.removedAt) {
+      throw new ConflictError(`Meter ${meter.meterNumber} was replaced and takes no further readings`);
+    }
+    if (data.readingDate < meter.installedAt) {
+      throw new ValidationError('The reading date is before the meter was installed', 'readingDate');
+    }
+
+    const [previous] = await tx
+      .select()
+      .from(meterReadings)
+      .where(eq(meterReadings.meterId, meter.id))
+      .orderBy(desc(meterReadings.readingDate), desc(meterReadings.createdAt))
+      .limit(1);
+
+    if (type === 'initial' && previous) {
+      throw new ConflictError(`Meter ${meter.meterNumber} already has readings`);
+    }
+    if (previous && data.readingDate < previous.readingDate) {
+      throw new ValidationError(
+        `The reading date is before the latest reading of ${previous.readingDate.toISOString().slice(0, 10)}`,
+        'readingDate'
+      );
+    }
+
+    let derived: ReturnType<typeof getConsumption> = null;
+    if (previous) {
+      derived = getConsumption(Number(previous.value), Number(data.value), meter.digits);
+      if (!derived) {
+        throw new ValidationError(`The value is lower than the previous reading of ${previous.value}`, 'value');
+      }
+    }
+
+    const audit: AuditEntry[] = [];
+
+    // Consumption of vacant units and of building meters stays with the landlord
+    let record: ConsumptionRecord | null = null;
+    const contractId = derived && meter.unitId ? await this.getContractOnDate(tx, meter.unitId, data.readingDate) : null;
+    if (derived && contractId) {
+      [record] = await tx
+        .insert(consumptionRecords)
+        .values({
+          organizationId: meter.organizationId,
+          contractId,
+          consumptionType: meter.consumptionType,
+          period: toPeriod(data.readingDate),
+          reading: String(derived.consumption),
+          unit: meter.unit,
+          meterNumber: meter.meterNumber,
+          readingDate: data.readingDate,
+        })
+        .returning();
+
+      audit.push({
+        organizationId: meter.organizationId,
+        entityType: 'consumption_record',
+        entityId: record.id,
+        action: 'create',
+        after: record,
+      });
+    }
+
+    const [reading] = await tx
+      .insert(meterReadings)
+      .values({
+        organizationId: meter.organizationId,
+        meterId: meter.id,
+        type,
+        readingDate: data.readingDate,
+        value: data.value,
+        consumption: derived ? String(derived.consumption) : null,
+        rollover: derived?.rollover ?? false,
+        consumptionRecordId: record?.id,
+        note: data.note,
+        createdById: userId,
+      })
+      .returning();
+
+    audit.unshift({
+      organizationId: meter.organizationId,
+      entityType: 'meter_reading',
+      entityId: reading.id,
+      action: 'create',
+      after: reading,
+    });
+    await recordAuditEvents(audit, tx);
+
+    return { reading, record };
+  }
+
+  private static async getContractOnDate(tx: Pick<Database, 'select'>, unitId: string, date: Date): Promise<string | null> {
+    const unitContracts = await tx
+      .select({
+        id: contracts.id,
+        startDate: contracts.startDate,
+        endDate: contracts.endDate,
+        isActive: contracts.isActive,
+      })
+      .from(contracts)
+      .where(eq(contracts.unitId, unitId));
+
+    return unitContracts.find(contract => overlapsRange(contract, date))?.id ?? null;
+  }
+
+  private static async assertLocation(organizationId: string, buildingId: string, unitId?: string | null) {
+    const [building] = await db
+      .select({ id: buildings.id })
+      .from(buildings)
+      .where(
+        and(
+          eq(buildings.id, buildingId),
+          eq(buildings.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!building) {
+      throw new NotFoundError('Building', buildingId);
+    }
+
+    if (unitId) {
+      const [unit] = await db
+        .select({ buildingId: units.buildingId })
+        .from(units)
+        .where(
+          and(
+            eq(units.id, unitId),
+            eq(units.organizationId, organizationId)
+          )
+        )
+        .limit(1);
+
+      if (!unit) {
+        throw new NotFoundError('Unit', unitId);
+      }
+      if (unit.buildingId !== buildingId) {
+        throw new ValidationError('The unit does not belong to the building of the meter', 'unitId');
+      }
+    }
+  }
+
+  private static async assertUniqueNumber(buildingId: string, meterNumber: string) {
+    const [existing] = await db
+      .select({ id: meters.id })
+      .from(meters)
+      .where(
+        and(
+          eq(meters.buildingId, buildingId),
+          eq(meters.meterNumber, meterNumber)
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new ConflictError(`Meter ${meterNumber} is already registered in this building`);
+    }
+  }
+}
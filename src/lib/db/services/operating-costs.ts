@@ -0,0 +1,870 @@
+// src/lib/db/services/operating-costs.ts
+import { eq, and, or, lt, lte, gte, desc, asc, count, inArray, isNull, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  operatingCostSettlements,
+  operatingCostItems,
+  operatingCostStatements,
+  buildings,
+  units,
+  contracts,
+  tenantContracts,
+  consumptionRecords,
+  ledgerEntries,
+  users,
+  vendorInvoices,
+  vendors,
+  type OperatingCostSettlement,
+  type OperatingCostItem,
+  type NewOperatingCostItem,
+  type OperatingCostStatement,
+  type AllocationKey,
+} from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, withAuditOperation, type AuditEntry } from '../audit';
+import { OrganizationService } from './organizations';
+import { BOOKED_INVOICE_STATUSES } from './vendor-invoices';
+import {
+  allocateOperatingCosts,
+  getCo2LandlordPercentage,
+  getDefaultAllocation,
+  getSettlementDeadline,
+  SettlementError,
+  type SettlementTenancy,
+} from '../../operating-costs';
+import { renderStatementPdf } from '../../operating-costs/statement-pdf';
+import { toCents, fromCents, toPeriod } from '../../ledger';
+
+// Back payments are due 30 days after the statement was issued
+const PAYMENT_TERM_DAYS = 30;
+
+export type OperatingCostItemInput = Pick<
+  NewOperatingCostItem,
+  'category' | 'description' | 'amount' | 'allocationKey' | 'consumptionType'
+>;
+
+export interface OperatingCostSettlementFilters {
+  buildingId?: string;
+  status?: OperatingCostSettlement['status'];
+}
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Keys that split costs by metered consumption of a consumption type
+const isMetered = (allocationKey: AllocationKey) => allocationKey === 'consumption' || allocationKey === 'heating';
+
+export type OperatingCostSettlementUpdate = Partial<
+  Pick<OperatingCostSettlement, 'heatingConsumptionShare' | 'co2Emissions' | 'co2Costs'>
+>;
+
+export class OperatingCostService {
+  /**
+   * Start the settlement of a building for a period of at most twelve months
+   */
+  static async createSettlement(
+    organizationId: string,
+    data: { buildingId: string; periodStart: Date; periodEnd: Date } & OperatingCostSettlementUpdate,
+    createdById: string
+  ): Promise<OperatingCostSettlement> {
+    const [building] = await db
+      .select({ id: buildings.id })
+      .from(buildings)
+      .where(
+        and(
+          eq(buildings.id, data.buildingId),
+          eq(buildings.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!building) {
+      throw new NotFoundError('Building', data.buildingId);
+    }
+
+    const [overlapping] = await db
+      .select({ id: operatingCostSettlements.id })
+      .from(operatingCostSettlements)
+      .where(
+        and(
+          eq(operatingCostSettlements.buildingId, data.buildingId),
+          lte(operatingCostSettlements.periodStart, data.periodEnd),
+          gte(operatingCostSettlements.periodEnd, data.periodStart)
+        )
+      )
+      .limit(1);
+
+    if (overlapping) {
+      throw new ConflictError('The building already has a settlement overlapping this period');
+    }
+
+    const [settlement] = await db
+      .insert(operatingCostSettlements)
+      .values({ ...data, organizationId, createdById })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'operating_cost_settlement',
+      entityId: settlement.id,
+      action: 'create',
+      after: settlement,
+    });
+
+    return settlement;
+  }
+
+  /**
+   * Get settlement by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<OperatingCostSettlement | null> {
+    const [settlement] = await db
+      .select()
+      .from(operatingCostSettlements)
+      .where(
+        and(
+          eq(operatingCostSettlements.id, id),
+          eq(operatingCostSettlements.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return settlement || null;
+  }
+
+  /**
+   * Get a settlement with its cost items and the statements of the contracts
+   */
+  static async getDetails(id: string, organizationId: string) {
+    const settlement = await this.getById(id, organizationId);
+    if (!settlement) return null;
+
+    const [[building], items, statements] = await Promise.all([
+      db
+        .select()
+        .from(buildings)
+        .where(eq(buildings.id, settlement.buildingId))
+        .limit(1),
+      db
+        .select()
+        .from(operatingCostItems)
+        .where(eq(operatingCostItems.settlementId, id))
+        .orderBy(asc(operatingCostItems.createdAt)),
+      db
+        .select({
+          statement: operatingCostStatements,
+          contract: {
+            id: contracts.id,
+            contractNumber: contracts.contractNumber,
+            unitNumber: contracts.unitNumber,
+          },
+        })
+        .from(operatingCostStatements)
+        .innerJoin(contracts, eq(operatingCostStatements.contractId, contracts.id))
+        .where(eq(operatingCostStatements.settlementId, id))
+        .orderBy(asc(contracts.unitNumber)),
+    ]);
+
+    return {
+      settlement,
+      building,
+      deadline: getSettlementDeadline(settlement.periodEnd),
+      items,
+      statements,
+    };
+  }
+
+  /**
+   * Get settlements of an organization, newest period first
+   */
+  static async getSettlements(
+    organizationId: string,
+    filters: OperatingCostSettlementFilters & { limit?: number; offset?: number } = {}
+  ) {
+    const { buildingId, status, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(operatingCostSettlements.organizationId, organizationId);
+
+    if (buildingId) {
+      whereConditions = and(whereConditions, eq(operatingCostSettlements.buildingId, buildingId));
+    }
+
+    if (status) {
+      whereConditions = and(whereConditions, eq(operatingCostSettlements.status, status));
+    }
+
+    const [settlements, [{ total }]] = await Promise.all([
+      db
+        .select({
+          settlement: operatingCostSettlements,
+          building: {
+            id: buildings.id,
+            name: buildings.name,
+          },
+        })
+        .from(operatingCostSettlements)
+        .innerJoin(buildings, eq(operatingCostSettlements.buildingId, buildings.id))
+        .where(whereConditions)
+        .orderBy(desc(operatingCostSettlements.periodStart))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(operatingCostSettlements)
+        .where(whereConditions),
+    ]);
+
+    return { settlements, total };
+  }
+
+  /**
+   * Update the heating cost split and CO2 data of a draft settlement
+   */
+  static async updateSettlement(
+    id: string,
+    organizationId: string,
+    data: OperatingCostSettlementUpdate
+  ): Promise<OperatingCostSettlement | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    this.assertDraft(before);
+
+    const [settlement] = await db
+      .update(operatingCostSettlements)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(operatingCostSettlements.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'operating_cost_settlement',
+      entityId: id,
+      action: 'update',
+      before,
+      after: settlement,
+    });
+
+    await this.discardStatements(settlement);
+    return settlement;
+  }
+
+  /**
+   * Delete a settlement that has not been finalized
+   */
+  static async deleteSettlement(id: string, organizationId: string): Promise<boolean> {
+    const settlement = await this.getById(id, organizationId);
+    if (!settlement) return false;
+
+    this.assertDraft(settlement);
+
+    await db
+      .delete(operatingCostSettlements)
+      .where(eq(operatingCostSettlements.id, id));
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'operating_cost_settlement',
+      entityId: id,
+      action: 'delete',
+      before: settlement,
+    });
+
+    return true;
+  }
+
+  /**
+   * Add a building-level cost to a draft settlement
+   */
+  static async addItem(
+    settlementId: string,
+    organizationId: string,
+    data: OperatingCostItemInput
+  ): Promise<OperatingCostItem | null> {
+    const settlement = await this.getById(settlementId, organizationId);
+    if (!settlement) return null;
+
+    this.assertDraft(settlement);
+
+    const [item] = await db
+      .insert(operatingCostItems)
+      .values({
+        ...data,
+        consumptionType: isMetered(data.allocationKey) ? data.consumptionType : null,
+        organizationId,
+        settlementId,
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'operating_cost_item',
+      entityId: item.id,
+      action: 'create',
+      after: item,
+    });
+
+    await this.discardStatements(settlement);
+    return item;
+  }
+
+  /**
+   * Update a cost of a draft settlement
+   */
+  static async updateItem(
+    settlementId: string,
+    itemId: string,
+    organizationId: string,
+    data: Partial<OperatingCostItemInput>
+  ): Promise<OperatingCostItem | null> {
+    const settlement = await this.getById(settlementId, organizationId);
+    if (!settlement) return null;
+
+    this.assertDraft(settlement);
+
+    const before = await this.getItem(settlementId, itemId);
+    if (!before) return null;
+
+    const allocationKey = data.allocationKey ?? before.allocationKey;
+    const consumptionType = data.consumptionType !== undefined ? data.consumptionType : before.consumptionType;
+    if (isMetered(allocationKey) && !consumptionType) {
+      throw new ValidationError('Costs split by consumption need a consumption type', 'consumptionType');
+    }
+
+    const [item] = await db
+      .update(operatingCostItems)
+      .set({
+        ...data,
+        consumptionType: isMetered(allocationKey) ? consumptionType : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(operatingCostItems.id, itemId))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'operating_cost_item',
+      entityId: itemId,
+      action: 'update',
+      before,
+      after: item,
+    });
+
+    await this.discardStatements(settlement);
+    return item;
+  }
+
+  /**
+   * Remove a cost from a draft settlement
+   */
+  static async deleteItem(settlementId: string, itemId: string, organizationId: string): Promise<boolean> {
+    const settlement = await this.getById(settlementId, organizationId);
+    if (!settlement) return false;
+
+    this.assertDraft(settlement);
+
+    const item = await this.getItem(settlementId, itemId);
+    if (!item) return false;
+
+    await db
+      .delete(operatingCostItems)
+      .where(eq(operatingCostItems.id, itemId));
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'operating_cost_item',
+      entityId: itemId,
+      action: 'delete',
+      before: item,
+    });
+
+    await this.discardStatements(settlement);
+    return true;
+  }
+
+  /**
+   * Take over the approved operating cost invoices of the building dated within the
+   * settlement period as costs. Invoices already taken over by a settlement are skipped.
+   */
+  static async importVendorInvoices(settlementId: string, organizationId: string): Promise<OperatingCostItem[] | null> {
+    const settlement = await this.getById(settlementId, organizationId);
+    if (!settlement) return null;
+
+    this.assertDraft(settlement);
+
+    const invoices = await db
+      .select({ invoice: vendorInvoices, vendorName: vendors.name })
+      .from(vendorInvoices)
+      .innerJoin(vendors, eq(vendorInvoices.vendorId, vendors.id))
+      .leftJoin(operatingCostItems, eq(operatingCostItems.vendorInvoiceId, vendorInvoices.id))
+      .where(
+        and(
+          eq(vendorInvoices.buildingId, settlement.buildingId),
+          eq(vendorInvoices.costCategory, 'operating_costs'),
+          inArray(vendorInvoices.status, BOOKED_INVOICE_STATUSES),
+          gte(vendorInvoices.invoiceDate, settlement.periodStart),
+          lt(vendorInvoices.invoiceDate, new Date(settlement.periodEnd.getTime() + 24 * 60 * 60 * 1000)),
+          isNull(operatingCostItems.id)
+        )
+      )
+      .orderBy(asc(vendorInvoices.invoiceDate));
+
+    if (invoices.length === 0) return [];
+
+    const items = await withAuditOperation('importVendorInvoices', () => db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(operatingCostItems)
+        .values(invoices.map(({ invoice, vendorName }) => ({
+          organizationId,
+          settlementId,
+          category: invoice.operatingCostCategory || 'other',
+          description: `${vendorName}, Rechnung ${invoice.invoiceNumber}`,
+          amount: invoice.grossAmount,
+          ...getDefaultAllocation(invoice.operatingCostCategory || 'other'),
+          vendorInvoiceId: invoice.id,
+        })))
+        .returning();
+
+      await recordAuditEvents(inserted.map(item => ({
+        organizationId,
+        entityType: 'operating_cost_item' as const,
+        entityId: item.id,
+        action: 'create' as const,
+        after: item,
+      })), tx);
+
+      return inserted;
+    }));
+
+    await this.discardStatements(settlement);
+    return items;
+  }
+
+  /**
+   * Allocate the costs to every contract that ran in the period and replace the
+   * statements of the settlement. Advance payments are the monthly advances of the
+   * contracts for the days they cover. The landlord's share of the CO2 costs follows
+   * from the emissions per m² of the building.
+   */
+  static async calculate(id: string, organizationId: string) {
+    const settlement = await this.getById(id, organizationId);
+    if (!settlement) return null;
+
+    this.assertDraft(settlement);
+
+    const [[building], items, tenancyContracts, buildingUnits] = await Promise.all([
+      db
+        .select()
+        .from(buildings)
+        .where(eq(buildings.id, settlement.buildingId))
+        .limit(1),
+      db
+        .select()
+        .from(operatingCostItems)
+        .where(eq(operatingCostItems.settlementId, id)),
+      db
+        .select()
+        .from(contracts)
+        .where(
+          and(
+            eq(contracts.buildingId, settlement.buildingId),
+            lte(contracts.startDate, settlement.periodEnd),
+            or(isNull(contracts.endDate), gte(contracts.endDate, settlement.periodStart))
+          )
+        ),
+      db
+        .select({ id: units.id, livingArea: units.livingArea })
+        .from(units)
+        .where(eq(units.buildingId, settlement.buildingId)),
+    ]);
+
+    if (items.length === 0) {
+      throw new ValidationError('Add the costs of the building first', 'items');
+    }
+    if (tenancyContracts.length === 0) {
+      throw new ValidationError('No contracts of the building ran in the settlement period', 'periodStart');
+    }
+
+    const contractIds = tenancyContracts.map(contract => contract.id);
+    const consumption = await db
+      .select({
+        contractId: consumptionRecords.contractId,
+        consumptionType: consumptionRecords.consumptionType,
+        reading: consumptionRecords.reading,
+      })
+      .from(consumptionRecords)
+      .where(
+        and(
+          inArray(consumptionRecords.contractId, contractIds),
+          gte(consumptionRecords.period, toPeriod(settlement.periodStart)),
+          lte(consumptionRecords.period, toPeriod(settlement.periodEnd))
+        )
+      );
+
+    // Contracts without a living area of their own count with the area of their unit
+    const unitAreas = new Map(buildingUnits.map(unit => [unit.id, unit.livingArea]));
+
+    // Without a total for the building, its units add up to it once all of them have an area
+    const totalLivingArea = building.totalLivingArea
+      ? Number(building.totalLivingArea)
+      : buildingUnits.length > 0 && buildingUnits.every(unit => unit.livingArea)
+        ? buildingUnits.reduce((total, unit) => total + Number(unit.livingArea), 0)
+        : null;
+
+    const tenancies: SettlementTenancy[] = tenancyContracts.map(contract => {
+      const recorded: SettlementTenancy['consumption'] = {};
+      consumption
+        .filter(record => record.contractId === contract.id)
+        .forEach(record => {
+          recorded[record.consumptionType] = (recorded[record.consumptionType] || 0) + Number(record.reading);
+        });
+
+      const livingArea = contract.livingArea || (contract.unitId && unitAreas.get(contract.unitId));
+
+      return {
+        contractId: contract.id,
+        contractNumber: contract.contractNumber,
+        unitNumber: contract.unitNumber,
+        startDate: contract.startDate,
+        endDate: contract.endDate,
+        livingArea: livingArea ? Number(livingArea) : null,
+        occupants: contract.occupants,
+        monthlyAdvanceCents: toCents(contract.operatingCostAdvance),
+        consumption: recorded,
+      };
+    });
+
+    let co2: { costsCents: number; landlordPercentage: number; emissionsPerArea: number } | undefined;
+    if (settlement.co2Costs) {
+      if (!settlement.co2Emissions) {
+        throw new ValidationError('Enter the CO2 emissions of the heating to split the CO2 costs', 'co2Emissions');
+      }
+      if (!totalLivingArea) {
+        throw new ValidationError('Set the total living area of the building to split the CO2 costs', 'totalLivingArea');
+      }
+
+      const periodDays = Math.round((settlement.periodEnd.getTime() - settlement.periodStart.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+      co2 = {
+        costsCents: toCents(settlement.co2Costs),
+        ...getCo2LandlordPercentage(
+          Number(settlement.co2Emissions),
+          totalLivingArea,
+          periodDays,
+          building.propertyType
+        ),
+      };
+    }
+
+    let result: ReturnType<typeof allocateOperatingCosts>;
+    try {
+      result = allocateOperatingCosts({
+        periodStart: settlement.periodStart,
+        periodEnd: settlement.periodEnd,
+        totalLivingArea,
+        totalUnits: buildingUnits.length || building.totalUnits,
+        heatingConsumptionShare: settlement.heatingConsumptionShare,
+        co2,
+        items: items.map(item => ({
+          id: item.id,
+          category: item.category,
+          description: item.description,
+          amountCents: toCents(item.amount),
+          allocationKey: item.allocationKey,
+          consumptionType: item.consumptionType,
+        })),
+        tenancies,
+      });
+    } catch (error) {
+      if (error instanceof SettlementError) {
+        throw new ValidationError(error.message, error.field);
+      }
+      throw error;
+    }
+
+    const totalCents = items.reduce((total, item) => total + toCents(item.amount), 0);
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(operatingCostStatements)
+        .where(eq(operatingCostStatements.settlementId, id));
+
+      await tx
+        .insert(operatingCostStatements)
+        .values(result.allocations.map(allocation => ({
+          organizationId,
+          settlementId: id,
+          contractId: allocation.contractId,
+          occupiedFrom: allocation.occupiedFrom,
+          occupiedTo: allocation.occupiedTo,
+          lines: allocation.lines,
+          allocatedCosts: fromCents(allocation.allocatedCents),
+          co2Costs: fromCents(allocation.co2Cents),
+          co2LandlordShare: fromCents(allocation.co2LandlordCents),
+          advancePayments: fromCents(allocation.advanceCents),
+          balance: fromCents(allocation.balanceCents),
+        })));
+
+      await tx
+        .update(operatingCostSettlements)
+        .set({
+          totalCosts: fromCents(totalCents),
+          landlordShare: fromCents(result.landlordShareCents),
+          co2EmissionsPerArea: co2 ? String(co2.emissionsPerArea) : null,
+          co2LandlordPercentage: co2 ? co2.landlordPercentage : null,
+          calculatedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(operatingCostSettlements.id, id));
+    });
+
+    return this.getDetails(id, organizationId);
+  }
+
+  /**
+   * Finalize a calculated settlement: statements become visible to the tenants and
+   * each balance is booked to the ledger, back payments as a charge due in 30 days
+   * and refunds as a credit
+   */
+  static async finalize(id: string, organizationId: string, finalizedById: string) {
+    const settlement = await this.getById(id, organizationId);
+    if (!settlement) return null;
+
+    this.assertDraft(settlement);
+
+    if (!settlement.calculatedAt) {
+      throw new ConflictError('Calculate the settlement before finalizing it');
+    }
+
+    const statements = await db
+      .select()
+      .from(operatingCostStatements)
+      .where(eq(operatingCostStatements.settlementId, id));
+
+    const finalizedAt = new Date();
+    const dueDate = new Date(finalizedAt.getTime() + PAYMENT_TERM_DAYS * 24 * 60 * 60 * 1000);
+    const description = `Operating cost settlement ${formatDay(settlement.periodStart)} to ${formatDay(settlement.periodEnd)}`;
+
+    await withAuditOperation('finalizeOperatingCostSettlement', () => db.transaction(async (tx) => {
+      const auditEntries: AuditEntry[] = [];
+
+      for (const statement of statements) {
+        const balanceCents = toCents(statement.balance);
+        if (balanceCents === 0) continue;
+
+        const [entry] = await tx
+          .insert(ledgerEntries)
+          .values({
+            organizationId,
+            contractId: statement.contractId,
+            entryType: balanceCents > 0 ? 'charge' : 'credit',
+            category: 'operating_costs',
+            amount: fromCents(Math.abs(balanceCents)),
+            period: toPeriod(finalizedAt),
+            dueDate: balanceCents > 0 ? dueDate : null,
+            bookingDate: finalizedAt,
+            description,
+            createdById: finalizedById,
+          })
+          .returning();
+
+        await tx
+          .update(operatingCostStatements)
+          .set({ ledgerEntryId: entry.id })
+          .where(eq(operatingCostStatements.id, statement.id));
+
+        auditEntries.push({
+          organizationId,
+          entityType: 'ledger_entry',
+          entityId: entry.id,
+          action: 'create',
+          after: entry,
+        });
+      }
+
+      const [finalized] = await tx
+        .update(operatingCostSettlements)
+        .set({ status: 'finalized', finalizedAt, updatedAt: finalizedAt })
+        .where(eq(operatingCostSettlements.id, id))
+        .returning();
+
+      auditEntries.push({
+        organizationId,
+        entityType: 'operating_cost_settlement',
+        entityId: id,
+        action: 'update',
+        before: settlement,
+        after: finalized,
+      });
+
+      await recordAuditEvents(auditEntries, tx);
+    }));
+
+    return this.getDetails(id, organizationId);
+  }
+
+  /**
+   * Get statements, newest first. Tenants only get the finalized statements of their contracts.
+   */
+  static async getStatements(
+    organizationId: string,
+    options: { contractId?: string; tenantId?: string; limit?: number; offset?: number } = {}
+  ) {
+    const { contractId, tenantId, limit = 50, offset = 0 } = options;
+
+    let whereConditions: SQL | undefined = eq(operatingCostStatements.organizationId, organizationId);
+
+    if (contractId) {
+      whereConditions = and(whereConditions, eq(operatingCostStatements.contractId, contractId));
+    }
+
+    if (tenantId) {
+      whereConditions = and(
+        whereConditions,
+        eq(operatingCostSettlements.status, 'finalized'),
+        inArray(
+          operatingCostStatements.contractId,
+          db.select({ id: tenantContracts.contractId }).from(tenantContracts).where(eq(tenantContracts.tenantId, tenantId))
+        )
+      );
+    }
+
+    const [statements, [{ total }]] = await Promise.all([
+      db
+        .select({
+          statement: operatingCostStatements,
+          settlement: {
+            id: operatingCostSettlements.id,
+            periodStart: operatingCostSettlements.periodStart,
+            periodEnd: operatingCostSettlements.periodEnd,
+            status: operatingCostSettlements.status,
+          },
+          contract: {
+            id: contracts.id,
+            contractNumber: contracts.contractNumber,
+            unitNumber: contracts.unitNumber,
+          },
+        })
+        .from(operatingCostStatements)
+        .innerJoin(operatingCostSettlements, eq(operatingCostStatements.settlementId, operatingCostSettlements.id))
+        .innerJoin(contracts, eq(operatingCostStatements.contractId, contracts.id))
+        .where(whereConditions)
+        .orderBy(desc(operatingCostSettlements.periodStart), asc(contracts.unitNumber))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(operatingCostStatements)
+        .innerJoin(operatingCostSettlements, eq(operatingCostStatements.settlementId, operatingCostSettlements.id))
+        .where(whereConditions),
+    ]);
+
+    return { statements, total };
+  }
+
+  /**
+   * Get a statement with its settlement
+   */
+  static async getStatementById(id: string, organizationId: string) {
+    const [row] = await db
+      .select({
+        statement: operatingCostStatements,
+        settlement: operatingCostSettlements,
+      })
+      .from(operatingCostStatements)
+      .innerJoin(operatingCostSettlements, eq(operatingCostStatements.settlementId, operatingCostSettlements.id))
+      .where(
+        and(
+          eq(operatingCostStatements.id, id),
+          eq(operatingCostStatements.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return row || null;
+  }
+
+  /**
+   * Render a statement as PDF letter to the tenants of the contract
+   */
+  static async getStatementPdf(
+    statement: OperatingCostStatement,
+    settlement: OperatingCostSettlement
+  ): Promise<{ filename: string; content: Buffer }> {
+    const [organization, [contract], [building], tenants] = await Promise.all([
+      OrganizationService.getById(statement.organizationId),
+      db
+        .select()
+        .from(contracts)
+        .where(eq(contracts.id, statement.contractId))
+        .limit(1),
+      db
+        .select()
+        .from(buildings)
+        .where(eq(buildings.id, settlement.buildingId))
+        .limit(1),
+      db
+        .select({ name: users.name, email: users.email })
+        .from(tenantContracts)
+        .innerJoin(users, eq(tenantContracts.tenantId, users.id))
+        .where(eq(tenantContracts.contractId, statement.contractId))
+        .orderBy(desc(tenantContracts.isMainTenant)),
+    ]);
+
+    if (!organization || !contract || !building) {
+      throw new NotFoundError('Operating cost statement', statement.id);
+    }
+
+    const content = renderStatementPdf({
+      landlord: organization,
+      tenantNames: tenants.map(tenant => tenant.name || tenant.email),
+      building,
+      contract,
+      periodStart: settlement.periodStart,
+      periodEnd: settlement.periodEnd,
+      statement,
+      co2: settlement.co2EmissionsPerArea && settlement.co2LandlordPercentage !== null
+        ? { emissionsPerArea: Number(settlement.co2EmissionsPerArea), landlordPercentage: settlement.co2LandlordPercentage }
+        : undefined,
+      issuedAt: settlement.finalizedAt || undefined,
+    });
+
+    const filename = `operating-costs-${formatDay(settlement.periodEnd).slice(0, 4)}-${contract.contractNumber}.pdf`
+      .replace(/[^\w.-]/g, '_');
+
+    return { filename, content };
+  }
+
+  private static assertDraft(settlement: OperatingCostSettlement): void {
+    if (settlement.status === 'finalized') {
+      throw new ConflictError('Finalized settlements cannot be changed');
+    }
+  }
+
+  private static async getItem(settlementId: string, itemId: string): Promise<OperatingCostItem | null> {
+    const [item] = await db
+      .select()
+      .from(operatingCostItems)
+      .where(
+        and(
+          eq(operatingCostItems.id, itemId),
+          eq(operatingCostItems.settlementId, settlementId)
+        )
+      )
+      .limit(1);
+
+    return item || null;
+  }
+
+  // Statements no longer match the costs once these change
+  private static async discardStatements(settlement: OperatingCostSettlement): Promise<void> {
+    if (!settlement.calculatedAt) return;
+
+    await db
+      .delete(operatingCostStatements)
+      .where(eq(operatingCostStatements.settlementId, settlement.id));
+
+    await db
+      .update(operatingCostSettlements)
+      .set({ calculatedAt: null, updatedAt: new Date() })
+      .where(eq(operatingCostSettlements.id, settlement.id));
+  }
+}
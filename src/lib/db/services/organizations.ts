@@ -2,6 +2,7 @@
 import { eq, like, count } from 'drizzle-orm';
 import { db } from '../db';
 import { organizations, users, buildings, contracts, type Organization, type NewOrganization } from '../schema';
+import { recordAuditEvent, recordAuditEvents, pairRecordsById } from '../audit';
 
 export class OrganizationService {
   /**
@@ -13,6 +14,14 @@ export class OrganizationService {
       .values(data)
       .returning();
 
+    await recordAuditEvent({
+      organizationId: organization.id,
+      entityType: 'organization',
+      entityId: organization.id,
+      action: 'create',
+      after: organization,
+    });
+
     return organization;
   }
 
@@ -49,12 +58,24 @@ export class OrganizationService {
     id: string, 
     data: Partial<Omit<Organization, 'id' | 'createdAt'>>
   ): Promise<Organization | null> {
+    const before = await this.getById(id);
+    if (!before) return null;
+
     const [organization] = await db
       .update(organizations)
       .set({ ...data, updatedAt: new Date() })
       .where(eq(organizations.id, id))
       .returning();
 
+    await recordAuditEvent({
+      organizationId: id,
+      entityType: 'organization',
+      entityId: id,
+      action: 'update',
+      before,
+      after: organization,
+    });
+
     return organization || null;
   }
 
@@ -63,11 +84,31 @@ export class OrganizationService {
    */
   static async delete(id: string): Promise<boolean> {
     try {
+      const organization = await this.getById(id);
+      if (!organization) return false;
+
       // Deactivate all users in the organization instead of hard delete
-      await db
+      const previousUsers = await db
+        .select()
+        .from(users)
+        .where(eq(users.organizationId, id));
+
+      const deactivatedUsers = await db
         .update(users)
         .set({ isActive: false })
-        .where(eq(users.organizationId, id));
+        .where(eq(users.organizationId, id))
+        .returning();
+
+      await recordAuditEvents([
+        {
+          organizationId: id,
+          entityType: 'organization',
+          entityId: id,
+          action: 'delete',
+          before: organization,
+        },
+        ...pairRecordsById('user', previousUsers, deactivatedUsers),
+      ]);
 
       return true;
     } catch (error) {
@@ -0,0 +1,734 @@
+// src/lib/db/services/rent-adjustments.ts
+import { eq, and, ne, lte, desc, asc, count, inArray, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  rentAdjustments,
+  priceIndexValues,
+  contracts,
+  buildings,
+  tenantContracts,
+  users,
+  type Contract,
+  type RentAdjustment,
+  type NewRentAdjustment,
+  type PriceIndexValue,
+} from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, withAuditOperation, type AuditEntry } from '../audit';
+import { OrganizationService } from './organizations';
+import {
+  addMonths,
+  isFirstOfMonth,
+  calculateIndexedRent,
+  getEarliestEffectiveDate,
+  getRentForPeriod,
+  MIN_MONTHS_BETWEEN_CHANGES,
+  MIN_MONTHS_BEFORE_INCREASE,
+  CAPPING_LIMIT_PERCENTAGE,
+  CAPPING_PERIOD_MONTHS,
+} from '../../rent-adjustments';
+import { renderRentNoticePdf } from '../../rent-adjustments/notice-pdf';
+import { toCents, fromCents, toPeriod } from '../../ledger';
+
+export interface RentAdjustmentFilters {
+  contractId?: string;
+  type?: RentAdjustment['type'];
+  status?: RentAdjustment['status'];
+  dueBefore?: Date;
+}
+
+export interface GraduatedRentStep {
+  effectiveDate: Date;
+  newRent: string;
+}
+
+export interface ManualRentIncrease {
+  newRent: string;
+  effectiveDate?: Date; // Defaults to the earliest date after the notice
+  noticeDate?: Date; // Defaults to today
+  reason?: string;
+}
+
+export interface IndexRentProposal {
+  contract: Pick<Contract, 'id' | 'contractNumber' | 'unitNumber'>;
+  adjustment: Pick<
+    NewRentAdjustment,
+    'contractId' | 'effectiveDate' | 'previousRent' | 'newRent' | 'baseIndexPeriod' | 'baseIndexValue' |
+    'indexPeriod' | 'indexValue' | 'noticeDate'
+  >;
+}
+
+// First day of a month at least the given number of whole months after a date
+const afterMonths = (date: Date, months: number) => addMonths(date, isFirstOfMonth(date) ? months : months + 1);
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export class RentAdjustmentService {
+  /**
+   * Get the price index series of an organization, newest month first
+   */
+  static async getPriceIndex(organizationId: string): Promise<PriceIndexValue[]> {
+    return await db
+      .select()
+      .from(priceIndexValues)
+      .where(eq(priceIndexValues.organizationId, organizationId))
+      .orderBy(desc(priceIndexValues.period));
+  }
+
+  /**
+   * Store monthly index values; values of months already stored are replaced
+   */
+  static async savePriceIndexValues(
+    organizationId: string,
+    values: Array<{ period: string; value: string }>
+  ): Promise<PriceIndexValue[]> {
+    if (values.length === 0) return [];
+
+    return await db
+      .insert(priceIndexValues)
+      .values(values.map(value => ({ ...value, organizationId })))
+      .onConflictDoUpdate({
+        target: [priceIndexValues.organizationId, priceIndexValues.period],
+        set: { value: sql`excluded.value`, updatedAt: new Date() },
+      })
+      .returning();
+  }
+
+  /**
+   * Get the rent history of a contract: past and scheduled changes, oldest first
+   */
+  static async getHistory(contractId: string, organizationId: string) {
+    const [contract] = await db
+      .select({
+        id: contracts.id,
+        contractNumber: contracts.contractNumber,
+        unitNumber: contracts.unitNumber,
+        startDate: contracts.startDate,
+        rentAmount: contracts.rentAmount,
+        rentType: contracts.rentType,
+        indexBasePeriod: contracts.indexBasePeriod,
+      })
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.id, contractId),
+          eq(contracts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!contract) return null;
+
+    const adjustments = await db
+      .select()
+      .from(rentAdjustments)
+      .where(eq(rentAdjustments.contractId, contractId))
+      .orderBy(asc(rentAdjustments.effectiveDate), asc(rentAdjustments.createdAt));
+
+    return {
+      contract,
+      initialRent: fromCents(getRentForPeriod(toCents(contract.rentAmount), adjustments, toPeriod(contract.startDate))),
+      adjustments,
+    };
+  }
+
+  /**
+   * Get rent adjustments of an organization, next effective date first
+   */
+  static async getAdjustments(
+    organizationId: string,
+    filters: RentAdjustmentFilters & { limit?: number; offset?: number } = {}
+  ) {
+    const { contractId, type, status, dueBefore, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(rentAdjustments.organizationId, organizationId);
+
+    if (contractId) {
+      whereConditions = and(whereConditions, eq(rentAdjustments.contractId, contractId));
+    }
+
+    if (type) {
+      whereConditions = and(whereConditions, eq(rentAdjustments.type, type));
+    }
+
+    if (status) {
+      whereConditions = and(whereConditions, eq(rentAdjustments.status, status));
+    }
+
+    if (dueBefore) {
+      whereConditions = and(whereConditions, lte(rentAdjustments.effectiveDate, dueBefore));
+    }
+
+    const [adjustments, [{ total }]] = await Promise.all([
+      db
+        .select({
+          adjustment: rentAdjustments,
+          contract: {
+            id: contracts.id,
+            contractNumber: contracts.contractNumber,
+            unitNumber: contracts.unitNumber,
+          },
+        })
+        .from(rentAdjustments)
+        .innerJoin(contracts, eq(rentAdjustments.contractId, contracts.id))
+        .where(whereConditions)
+        .orderBy(asc(rentAdjustments.effectiveDate))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(rentAdjustments)
+        .where(whereConditions),
+    ]);
+
+    return { adjustments, total };
+  }
+
+  /**
+   * Get rent adjustment by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<RentAdjustment | null> {
+    const [adjustment] = await db
+      .select()
+      .from(rentAdjustments)
+      .where(
+        and(
+          eq(rentAdjustments.id, id),
+          eq(rentAdjustments.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return adjustment || null;
+  }
+
+  /**
+   * Schedule the steps of a graduated rent (Staffelmiete). Steps scheduled earlier
+   * are replaced; the rent must stay unchanged for a year between steps.
+   */
+  static async scheduleGraduatedRent(
+    contractId: string,
+    organizationId: string,
+    steps: GraduatedRentStep[],
+    createdById: string
+  ): Promise<RentAdjustment[]> {
+    const contract = await this.getContract(contractId, organizationId);
+    if (contract.rentType === 'index') {
+      throw new ValidationError('Index rents cannot have graduated steps', 'rentType');
+    }
+
+    const now = new Date();
+    const history = await this.getChanges(contractId);
+    if (history.some(change => change.status === 'scheduled' && change.type !== 'graduated')) {
+      throw new ConflictError('The contract already has a scheduled rent change');
+    }
+
+    const replaced = history.filter(change => change.status === 'scheduled' && change.effectiveDate > now);
+    const kept = history.filter(change => !replaced.includes(change));
+
+    const sorted = [...steps].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+    let previousDate = kept.length > 0 ? kept[kept.length - 1].effectiveDate : contract.startDate;
+    let previousRent = contract.rentAmount;
+
+    const values = sorted.map((step, index) => {
+      if (!isFirstOfMonth(step.effectiveDate) || step.effectiveDate <= now) {
+        throw new ValidationError(`Step ${index + 1} must take effect on the first day of a future month`, 'effectiveDate');
+      }
+      if (step.effectiveDate < afterMonths(previousDate, MIN_MONTHS_BETWEEN_CHANGES)) {
+        throw new ValidationError(
+          `Step ${index + 1} must take effect at least ${MIN_MONTHS_BETWEEN_CHANGES} months after the previous change`,
+          'effectiveDate'
+        );
+      }
+
+      const value = {
+        organizationId,
+        contractId,
+        type: 'graduated' as const,
+        effectiveDate: step.effectiveDate,
+        previousRent,
+        newRent: step.newRent,
+        createdById,
+      };
+      previousDate = step.effectiveDate;
+      previousRent = step.newRent;
+      return value;
+    });
+
+    return await withAuditOperation('scheduleGraduatedRent', () => db.transaction(async (tx) => {
+      const cancelled = replaced.length > 0
+        ? await tx
+          .update(rentAdjustments)
+          .set({ status: 'cancelled', updatedAt: now })
+          .where(inArray(rentAdjustments.id, replaced.map(change => change.id)))
+          .returning()
+        : [];
+
+      const created = values.length > 0
+        ? await tx.insert(rentAdjustments).values(values).returning()
+        : [];
+
+      const audit: AuditEntry[] = [
+        ...cancelled.map(adjustment => ({
+          organizationId,
+          entityType: 'rent_adjustment' as const,
+          entityId: adjustment.id,
+          action: 'update' as const,
+          before: replaced.find(change => change.id === adjustment.id),
+          after: adjustment,
+        })),
+        ...created.map(adjustment => ({
+          organizationId,
+          entityType: 'rent_adjustment' as const,
+          entityId: adjustment.id,
+          action: 'create' as const,
+          after: adjustment,
+        })),
+      ];
+
+      if (contract.rentType !== 'graduated') {
+        const [updated] = await tx
+          .update(contracts)
+          .set({ rentType: 'graduated', updatedAt: now })
+          .where(eq(contracts.id, contractId))
+          .returning();
+
+        audit.push({
+          organizationId,
+          entityType: 'contract',
+          entityId: contractId,
+          action: 'update',
+          before: contract,
+          after: updated,
+        });
+      }
+
+      await recordAuditEvents(audit, tx);
+
+      return created;
+    }));
+  }
+
+  /**
+   * Calculate the change of an index rent from the latest price index value,
+   * taking effect as early as the notice and the one-year rule allow
+   */
+  static async proposeIndexAdjustment(
+    contractId: string,
+    organizationId: string,
+    noticeDate = new Date()
+  ): Promise<IndexRentProposal> {
+    const contract = await this.getContract(contractId, organizationId);
+    const [history, index] = await Promise.all([
+      this.getChanges(contractId),
+      this.getPriceIndex(organizationId),
+    ]);
+
+    return this.buildIndexProposal(contract, history, index, noticeDate);
+  }
+
+  /**
+   * Index rent contracts whose rent can be adjusted now, with the proposed change
+   */
+  static async getIndexProposals(organizationId: string, noticeDate = new Date()): Promise<IndexRentProposal[]> {
+    const indexContracts = await db
+      .select()
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.organizationId, organizationId),
+          eq(contracts.rentType, 'index'),
+          eq(contracts.isActive, true)
+        )
+      )
+      .orderBy(asc(contracts.contractNumber));
+
+    if (indexContracts.length === 0) return [];
+
+    const [history, index] = await Promise.all([
+      db
+        .select()
+        .from(rentAdjustments)
+        .where(inArray(rentAdjustments.contractId, indexContracts.map(contract => contract.id)))
+        .orderBy(asc(rentAdjustments.effectiveDate)),
+      this.getPriceIndex(organizationId),
+    ]);
+
+    const proposals: IndexRentProposal[] = [];
+    for (const contract of indexContracts) {
+      try {
+        const changes = history.filter(change => change.contractId === contract.id && change.status !== 'cancelled');
+        proposals.push(this.buildIndexProposal(contract, changes, index, noticeDate));
+      } catch (error) {
+        // Contracts that cannot be adjusted yet are not proposed
+        if (!(error instanceof ValidationError || error instanceof ConflictError)) throw error;
+      }
+    }
+
+    return proposals;
+  }
+
+  /**
+   * Schedule the change of an index rent announced on the notice date
+   */
+  static async createIndexAdjustment(
+    contractId: string,
+    organizationId: string,
+    noticeDate: Date,
+    createdById: string
+  ): Promise<RentAdjustment> {
+    const { adjustment } = await this.proposeIndexAdjustment(contractId, organizationId, noticeDate);
+
+    return await this.insert({ ...adjustment, organizationId, type: 'index', createdById });
+  }
+
+  /**
+   * Schedule an increase up to the local comparative rent (§ 558 BGB), or an agreed
+   * change of the rent of a fixed rent contract
+   */
+  static async createManualAdjustment(
+    contractId: string,
+    organizationId: string,
+    data: ManualRentIncrease,
+    createdById: string
+  ): Promise<RentAdjustment> {
+    const contract = await this.getContract(contractId, organizationId);
+    if (contract.rentType !== 'fixed') {
+      throw new ValidationError('Graduated and index rents cannot be increased otherwise', 'rentType');
+    }
+
+    const history = await this.getChanges(contractId);
+    if (history.some(change => change.status === 'scheduled')) {
+      throw new ConflictError('The contract already has a scheduled rent change');
+    }
+
+    const noticeDate = data.noticeDate || new Date();
+    const earliest = getEarliestEffectiveDate('manual', noticeDate);
+    const effectiveDate = data.effectiveDate || earliest;
+    const previousCents = toCents(contract.rentAmount);
+    const newCents = toCents(data.newRent);
+
+    if (!isFirstOfMonth(effectiveDate)) {
+      throw new ValidationError('Rent changes take effect on the first day of a month', 'effectiveDate');
+    }
+    if (newCents === previousCents) {
+      throw new ValidationError('The new rent equals the current rent', 'newRent');
+    }
+
+    if (newCents > previousCents) {
+      if (effectiveDate < earliest) {
+        throw new ValidationError(`The increase can take effect on ${formatDay(earliest)} at the earliest`, 'effectiveDate');
+      }
+
+      const lastIncrease = history.filter(change => toCents(change.newRent) > toCents(change.previousRent)).pop();
+      const unchangedUntil = afterMonths(lastIncrease?.effectiveDate || contract.startDate, MIN_MONTHS_BEFORE_INCREASE);
+      if (effectiveDate < unchangedUntil) {
+        throw new ValidationError(
+          `The rent must be unchanged for ${MIN_MONTHS_BEFORE_INCREASE} months; the increase can take effect on ` +
+          `${formatDay(unchangedUntil)} at the earliest`,
+          'effectiveDate'
+        );
+      }
+
+      // Rent three years before the increase, or the initial rent of younger contracts
+      const baseCents = getRentForPeriod(previousCents, history, toPeriod(addMonths(effectiveDate, -CAPPING_PERIOD_MONTHS)));
+      const limitCents = Math.floor((baseCents * (100 + CAPPING_LIMIT_PERCENTAGE)) / 100);
+      if (newCents > limitCents) {
+        throw new ValidationError(
+          `The rent may rise by at most ${CAPPING_LIMIT_PERCENTAGE}% within three years, to ${fromCents(limitCents)}`,
+          'newRent'
+        );
+      }
+    }
+
+    return await this.insert({
+      organizationId,
+      contractId,
+      type: 'manual',
+      effectiveDate,
+      previousRent: contract.rentAmount,
+      newRent: fromCents(newCents),
+      reason: data.reason,
+      noticeDate,
+      createdById,
+    });
+  }
+
+  /**
+   * Cancel a scheduled rent change
+   */
+  static async cancel(id: string, organizationId: string): Promise<RentAdjustment | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    if (before.status !== 'scheduled') {
+      throw new ConflictError('Only scheduled rent changes can be cancelled');
+    }
+
+    const [adjustment] = await db
+      .update(rentAdjustments)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(rentAdjustments.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'rent_adjustment',
+      entityId: id,
+      action: 'update',
+      before,
+      after: adjustment,
+    });
+
+    return adjustment;
+  }
+
+  /**
+   * Apply scheduled changes that took effect: the new rent becomes the current rent
+   * of the contract. Run by the rent charge worker at the start of each month.
+   */
+  static async applyDueAdjustments(organizationId: string, asOf = new Date()): Promise<RentAdjustment[]> {
+    const due = await db
+      .select()
+      .from(rentAdjustments)
+      .where(
+        and(
+          eq(rentAdjustments.organizationId, organizationId),
+          eq(rentAdjustments.status, 'scheduled'),
+          lte(rentAdjustments.effectiveDate, asOf)
+        )
+      )
+      .orderBy(asc(rentAdjustments.effectiveDate));
+
+    if (due.length === 0) return [];
+
+    return await withAuditOperation('applyRentAdjustments', () => db.transaction(async (tx) => {
+      const applied: RentAdjustment[] = [];
+      const audit: AuditEntry[] = [];
+
+      for (const adjustment of due) {
+        const [before] = await tx
+          .select()
+          .from(contracts)
+          .where(eq(contracts.id, adjustment.contractId))
+          .limit(1);
+
+        const [contract] = await tx
+          .update(contracts)
+          .set({
+            rentAmount: adjustment.newRent,
+            ...(adjustment.indexPeriod && { indexBasePeriod: adjustment.indexPeriod }),
+            updatedAt: new Date(),
+          })
+          .where(eq(contracts.id, adjustment.contractId))
+          .returning();
+
+        const [updated] = await tx
+          .update(rentAdjustments)
+          .set({ status: 'applied', appliedAt: new Date(), updatedAt: new Date() })
+          .where(eq(rentAdjustments.id, adjustment.id))
+          .returning();
+
+        applied.push(updated);
+        audit.push(
+          {
+            organizationId,
+            entityType: 'contract',
+            entityId: contract.id,
+            action: 'update',
+            before,
+            after: contract,
+          },
+          {
+            organizationId,
+            entityType: 'rent_adjustment',
+            entityId: updated.id,
+            action: 'update',
+            before: adjustment,
+            after: updated,
+          }
+        );
+      }
+
+      await recordAuditEvents(audit, tx);
+
+      return applied;
+    }));
+  }
+
+  /**
+   * Monthly rent (cents) of each contract in a period, from its rent history
+   */
+  static async getRentsForPeriod(
+    contractList: Array<Pick<Contract, 'id' | 'rentAmount'>>,
+    period: string
+  ): Promise<Map<string, number>> {
+    const changes = contractList.length > 0
+      ? await db
+        .select()
+        .from(rentAdjustments)
+        .where(
+          and(
+            inArray(rentAdjustments.contractId, contractList.map(contract => contract.id)),
+            ne(rentAdjustments.status, 'cancelled')
+          )
+        )
+      : [];
+
+    return new Map(
+      contractList.map(contract => [
+        contract.id,
+        getRentForPeriod(
+          toCents(contract.rentAmount),
+          changes.filter(change => change.contractId === contract.id),
+          period
+        ),
+      ])
+    );
+  }
+
+  /**
+   * Render the letter announcing a rent change to the tenants
+   */
+  static async getNoticePdf(adjustment: RentAdjustment): Promise<{ filename: string; content: Buffer }> {
+    const [organization, [details], tenants] = await Promise.all([
+      OrganizationService.getById(adjustment.organizationId),
+      db
+        .select({ contract: contracts, building: buildings })
+        .from(contracts)
+        .innerJoin(buildings, eq(contracts.buildingId, buildings.id))
+        .where(eq(contracts.id, adjustment.contractId))
+        .limit(1),
+      db
+        .select({ name: users.name, email: users.email })
+        .from(tenantContracts)
+        .innerJoin(users, eq(tenantContracts.tenantId, users.id))
+        .where(eq(tenantContracts.contractId, adjustment.contractId))
+        .orderBy(desc(tenantContracts.isMainTenant)),
+    ]);
+
+    if (!organization || !details) {
+      throw new NotFoundError('Rent adjustment', adjustment.id);
+    }
+
+    const content = renderRentNoticePdf({
+      landlord: organization,
+      tenantNames: tenants.map(tenant => tenant.name || tenant.email),
+      building: details.building,
+      contract: details.contract,
+      adjustment,
+    });
+
+    const filename = `rent-adjustment-${formatDay(adjustment.effectiveDate)}-${details.contract.contractNumber}.pdf`
+      .replace(/[^\w.-]/g, '_');
+
+    return { filename, content };
+  }
+
+  private static async getContract(contractId: string, organizationId: string): Promise<Contract> {
+    const [contract] = await db
+      .select()
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.id, contractId),
+          eq(contracts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!contract) {
+      throw new NotFoundError('Contract', contractId);
+    }
+
+    return contract;
+  }
+
+  // Changes of a contract that are not cancelled, oldest first
+  private static async getChanges(contractId: string): Promise<RentAdjustment[]> {
+    return await db
+      .select()
+      .from(rentAdjustments)
+      .where(
+        and(
+          eq(rentAdjustments.contractId, contractId),
+          ne(rentAdjustments.status, 'cancelled')
+        )
+      )
+      .orderBy(asc(rentAdjustments.effectiveDate));
+  }
+
+  private static buildIndexProposal(
+    contract: Contract,
+    history: RentAdjustment[],
+    index: PriceIndexValue[],
+    noticeDate: Date
+  ): IndexRentProposal {
+    if (contract.rentType !== 'index') {
+      throw new ValidationError('The contract has no index rent', 'rentType');
+    }
+    if (history.some(change => change.status === 'scheduled')) {
+      throw new ConflictError('The contract already has a scheduled rent change');
+    }
+
+    // The index month of the last index change, or the one agreed in the contract
+    const lastIndexChange = history.filter(change => change.indexPeriod).pop();
+    const basePeriod = lastIndexChange?.indexPeriod || contract.indexBasePeriod;
+    if (!basePeriod) {
+      throw new ValidationError('The contract has no index base period', 'indexBasePeriod');
+    }
+
+    const base = index.find(value => value.period === basePeriod);
+    if (!base) {
+      throw new ValidationError(`No price index value for ${basePeriod}`, 'indexBasePeriod');
+    }
+
+    // The latest value published before the notice
+    const latest = index.find(value => value.period <= toPeriod(noticeDate));
+    if (!latest || latest.period <= basePeriod) {
+      throw new ValidationError(`No price index value after ${basePeriod}`, 'indexPeriod');
+    }
+
+    const previousCents = toCents(contract.rentAmount);
+    const newCents = calculateIndexedRent(previousCents, Number(base.value), Number(latest.value));
+    if (newCents === previousCents) {
+      throw new ValidationError('The price index has not changed the rent', 'indexPeriod');
+    }
+
+    const lastChange = history[history.length - 1];
+    const earliest = getEarliestEffectiveDate('index', noticeDate);
+    const unchangedUntil = afterMonths(lastChange?.effectiveDate || contract.startDate, MIN_MONTHS_BETWEEN_CHANGES);
+
+    return {
+      contract: { id: contract.id, contractNumber: contract.contractNumber, unitNumber: contract.unitNumber },
+      adjustment: {
+        contractId: contract.id,
+        effectiveDate: earliest > unchangedUntil ? earliest : unchangedUntil,
+        previousRent: contract.rentAmount,
+        newRent: fromCents(newCents),
+        baseIndexPeriod: base.period,
+        baseIndexValue: base.value,
+        indexPeriod: latest.period,
+        indexValue: latest.value,
+        noticeDate,
+      },
+    };
+  }
+
+  private static async insert(values: NewRentAdjustment): Promise<RentAdjustment> {
+    const [adjustment] = await db
+      .insert(rentAdjustments)
+      .values(values)
+      .returning();
+
+    await recordAuditEvent({
+      organizationId: adjustment.organizationId,
+      entityType: 'rent_adjustment',
+      entityId: adjustment.id,
+      action: 'create',
+      after: adjustment,
+    });
+
+    return adjustment;
+  }
+}
@@ -0,0 +1,569 @@
+// src/lib/db/services/sepa.ts
+import { randomBytes } from 'crypto';
+import { eq, and, or, lt, gte, desc, count, inArray, isNull, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  sepaMandates,
+  directDebitBatches,
+  contracts,
+  tenantContracts,
+  ledgerEntries,
+  type Organization,
+  type SepaMandate,
+  type NewSepaMandate,
+  type DirectDebitBatch,
+  type DirectDebitItem,
+} from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent, recordAuditEvents, withAuditOperation, pairRecordsById } from '../audit';
+import { OrganizationService } from './organizations';
+import { RentAdjustmentService } from './rent-adjustments';
+import {
+  buildPain008,
+  getCollectionDate,
+  isValidBic,
+  isValidCreditorId,
+  isValidIban,
+  normalizeIban,
+  toSepaText,
+  type Pain008Transaction,
+} from '../../sepa';
+import { toCents, fromCents, getPeriodBounds, getRentDueDate, prorateMonthlyRent, splitByShares } from '../../ledger';
+
+// Mandates not used for 36 months expire under the SEPA rulebook
+const MANDATE_EXPIRY_MONTHS = 36;
+
+export type SepaSettings = Pick<Organization, 'sepaCreditorId' | 'bankAccountHolder' | 'bankIban' | 'bankBic'>;
+
+export type SepaMandateInput = Pick<
+  NewSepaMandate,
+  'contractId' | 'tenantId' | 'debtorName' | 'iban' | 'bic' | 'signatureDate'
+> & { mandateReference?: string };
+
+export interface SepaMandateFilters {
+  contractId?: string;
+  tenantId?: string;
+  status?: SepaMandate['status'];
+}
+
+function toSettings(organization: Organization): SepaSettings {
+  const { sepaCreditorId, bankAccountHolder, bankIban, bankBic } = organization;
+  return { sepaCreditorId, bankAccountHolder, bankIban, bankBic };
+}
+
+function hasExpired(mandate: SepaMandate, collectionDate: Date): boolean {
+  if (!mandate.lastCollectedAt) return false;
+
+  const expiry = new Date(mandate.lastCollectedAt);
+  expiry.setUTCMonth(expiry.getUTCMonth() + MANDATE_EXPIRY_MONTHS);
+  return expiry < collectionDate;
+}
+
+export class SepaService {
+  /**
+   * Get the creditor settings of an organization
+   */
+  static async getSettings(organizationId: string): Promise<SepaSettings | null> {
+    const organization = await OrganizationService.getById(organizationId);
+    return organization ? toSettings(organization) : null;
+  }
+
+  /**
+   * Update the creditor ID and the bank account collections are paid into
+   */
+  static async updateSettings(organizationId: string, data: Partial<SepaSettings>): Promise<SepaSettings | null> {
+    const organization = await OrganizationService.update(organizationId, {
+      ...data,
+      sepaCreditorId: data.sepaCreditorId?.replace(/\s+/g, '').toUpperCase(),
+      bankIban: data.bankIban && normalizeIban(data.bankIban),
+      bankBic: data.bankBic?.replace(/\s+/g, '').toUpperCase(),
+    });
+
+    return organization ? toSettings(organization) : null;
+  }
+
+  /**
+   * Store a signed mandate of a tenant for a contract
+   */
+  static async createMandate(
+    organizationId: string,
+    data: SepaMandateInput,
+    createdById: string
+  ): Promise<SepaMandate> {
+    const [contract] = await db
+      .select({ id: contracts.id, contractNumber: contracts.contractNumber })
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.id, data.contractId),
+          eq(contracts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!contract) {
+      throw new NotFoundError('Contract', data.contractId);
+    }
+
+    const [tenantContract] = await db
+      .select({ id: tenantContracts.id })
+      .from(tenantContracts)
+      .where(
+        and(
+          eq(tenantContracts.contractId, data.contractId),
+          eq(tenantContracts.tenantId, data.tenantId)
+        )
+      )
+      .limit(1);
+
+    if (!tenantContract) {
+      throw new ValidationError('The tenant is not on this contract', 'tenantId');
+    }
+
+    let mandateReference = data.mandateReference;
+    if (!mandateReference) {
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(sepaMandates)
+        .where(eq(sepaMandates.contractId, data.contractId));
+      mandateReference = toSepaText(`${contract.contractNumber}-${total + 1}`, 35);
+    }
+
+    const [existing] = await db
+      .select({ id: sepaMandates.id })
+      .from(sepaMandates)
+      .where(
+        and(
+          eq(sepaMandates.organizationId, organizationId),
+          eq(sepaMandates.mandateReference, mandateReference)
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new ConflictError(`Mandate reference ${mandateReference} is already in use`);
+    }
+
+    const [mandate] = await db
+      .insert(sepaMandates)
+      .values({
+        ...data,
+        organizationId,
+        mandateReference,
+        iban: normalizeIban(data.iban),
+        bic: data.bic?.replace(/\s+/g, '').toUpperCase() || null,
+        createdById,
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'sepa_mandate',
+      entityId: mandate.id,
+      action: 'create',
+      after: mandate,
+    });
+
+    return mandate;
+  }
+
+  /**
+   * Get mandate by ID
+   */
+  static async getMandateById(id: string, organizationId: string): Promise<SepaMandate | null> {
+    const [mandate] = await db
+      .select()
+      .from(sepaMandates)
+      .where(
+        and(
+          eq(sepaMandates.id, id),
+          eq(sepaMandates.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return mandate || null;
+  }
+
+  /**
+   * Get mandates of an organization
+   */
+  static async getMandates(
+    organizationId: string,
+    filters: SepaMandateFilters & { limit?: number; offset?: number } = {}
+  ): Promise<{ mandates: SepaMandate[]; total: number }> {
+    const { contractId, tenantId, status, limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(sepaMandates.organizationId, organizationId);
+
+    if (contractId) {
+      whereConditions = and(whereConditions, eq(sepaMandates.contractId, contractId));
+    }
+
+    if (tenantId) {
+      whereConditions = and(whereConditions, eq(sepaMandates.tenantId, tenantId));
+    }
+
+    if (status) {
+      whereConditions = and(whereConditions, eq(sepaMandates.status, status));
+    }
+
+    const [mandates, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(sepaMandates)
+        .where(whereConditions)
+        .orderBy(desc(sepaMandates.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(sepaMandates)
+        .where(whereConditions),
+    ]);
+
+    return { mandates, total };
+  }
+
+  /**
+   * Update the debtor name or bank account of a mandate
+   */
+  static async updateMandate(
+    id: string,
+    organizationId: string,
+    data: Partial<Pick<SepaMandate, 'debtorName' | 'iban' | 'bic'>>
+  ): Promise<SepaMandate | null> {
+    const before = await this.getMandateById(id, organizationId);
+    if (!before) return null;
+
+    if (before.status === 'revoked') {
+      throw new ConflictError('Revoked mandates cannot be changed');
+    }
+
+    const [mandate] = await db
+      .update(sepaMandates)
+      .set({
+        ...data,
+        iban: data.iban && normalizeIban(data.iban),
+        bic: data.bic?.replace(/\s+/g, '').toUpperCase(),
+        updatedAt: new Date(),
+      })
+      .where(eq(sepaMandates.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'sepa_mandate',
+      entityId: id,
+      action: 'update',
+      before,
+      after: mandate,
+    });
+
+    return mandate;
+  }
+
+  /**
+   * Revoke a mandate; it is no longer collected from
+   */
+  static async revokeMandate(id: string, organizationId: string): Promise<SepaMandate | null> {
+    const before = await this.getMandateById(id, organizationId);
+    if (!before) return null;
+
+    if (before.status === 'revoked') {
+      throw new ConflictError('Mandate is already revoked');
+    }
+
+    const [mandate] = await db
+      .update(sepaMandates)
+      .set({ status: 'revoked', revokedAt: new Date(), updatedAt: new Date() })
+      .where(eq(sepaMandates.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'sepa_mandate',
+      entityId: id,
+      action: 'update',
+      before,
+      after: mandate,
+    });
+
+    return mandate;
+  }
+
+  /**
+   * Generate the pain.008 batch collecting the rent of a period from all running
+   * contracts with an active mandate. The amount is the rent charged in the ledger
+   * for the period (the prorated contract rent when none was charged) and is split
+   * between co-tenants with mandates by their shares. Contracts already collected
+   * for the period are skipped. The mandates used are marked as collected, so the
+   * file is expected to be submitted to the bank.
+   */
+  static async generateBatch(
+    organizationId: string,
+    options: { period: string; collectionDate?: Date },
+    createdById: string
+  ) {
+    const organization = await OrganizationService.getById(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization', organizationId);
+    }
+
+    const { sepaCreditorId, bankIban, bankBic } = organization;
+    if (!sepaCreditorId || !isValidCreditorId(sepaCreditorId)) {
+      throw new ValidationError('Set a valid SEPA creditor ID for the organization first', 'sepaCreditorId');
+    }
+    if (!bankIban || !isValidIban(bankIban)) {
+      throw new ValidationError('Set a valid bank account (IBAN) for the organization first', 'bankIban');
+    }
+    if (bankBic && !isValidBic(bankBic)) {
+      throw new ValidationError('The BIC of the organization is invalid', 'bankBic');
+    }
+
+    const { period } = options;
+    const { start, end } = getPeriodBounds(period);
+    const collectionDate = getCollectionDate(options.collectionDate ?? getRentDueDate(period));
+
+    const runningContracts = await db
+      .select()
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.organizationId, organizationId),
+          eq(contracts.isActive, true),
+          lt(contracts.startDate, end),
+          or(isNull(contracts.endDate), gte(contracts.endDate, start))
+        )
+      );
+
+    const contractIds = runningContracts.map(contract => contract.id);
+    if (contractIds.length === 0) {
+      throw new ValidationError(`No active contracts to collect for ${period}`, 'period');
+    }
+
+    const [mandates, shares, rentCharges, previousBatches, rents] = await Promise.all([
+      db
+        .select()
+        .from(sepaMandates)
+        .where(
+          and(
+            inArray(sepaMandates.contractId, contractIds),
+            eq(sepaMandates.status, 'active')
+          )
+        ),
+      db
+        .select({
+          contractId: tenantContracts.contractId,
+          tenantId: tenantContracts.tenantId,
+          percentage: tenantContracts.percentage,
+        })
+        .from(tenantContracts)
+        .where(inArray(tenantContracts.contractId, contractIds)),
+      db
+        .select({ contractId: ledgerEntries.contractId, amount: ledgerEntries.amount })
+        .from(ledgerEntries)
+        .where(
+          and(
+            inArray(ledgerEntries.contractId, contractIds),
+            eq(ledgerEntries.entryType, 'charge'),
+            eq(ledgerEntries.category, 'rent'),
+            eq(ledgerEntries.period, period)
+          )
+        ),
+      db
+        .select({ items: directDebitBatches.items })
+        .from(directDebitBatches)
+        .where(
+          and(
+            eq(directDebitBatches.organizationId, organizationId),
+            eq(directDebitBatches.period, period)
+          )
+        ),
+      RentAdjustmentService.getRentsForPeriod(runningContracts, period),
+    ]);
+
+    const collectedContractIds = new Set(previousBatches.flatMap(batch => batch.items.map(item => item.contractId)));
+    const skipped: Array<{ contractId: string; contractNumber: string; reason: string }> = [];
+    const transactions: Pain008Transaction[] = [];
+    const items: DirectDebitItem[] = [];
+    const usedMandates: SepaMandate[] = [];
+
+    for (const contract of runningContracts) {
+      const skip = (reason: string) => skipped.push({ contractId: contract.id, contractNumber: contract.contractNumber, reason });
+
+      if (collectedContractIds.has(contract.id)) {
+        skip('Already collected for this period');
+        continue;
+      }
+
+      const contractMandates = mandates.filter(mandate => mandate.contractId === contract.id);
+      const usable = contractMandates.filter(mandate => !hasExpired(mandate, collectionDate));
+      if (usable.length === 0) {
+        skip(contractMandates.length > 0 ? 'Mandate expired after 36 months without collection' : 'No active mandate');
+        continue;
+      }
+
+      const charge = rentCharges.find(entry => entry.contractId === contract.id);
+      const amountCents = charge
+        ? toCents(charge.amount)
+        : prorateMonthlyRent(rents.get(contract.id) || 0, period, contract);
+      if (amountCents <= 0) {
+        skip('Nothing to collect');
+        continue;
+      }
+
+      // One mandate per tenant; several mandates of the same tenant use the newest
+      const byTenant = new Map(usable.map(mandate => [mandate.tenantId, mandate]));
+      const tenantMandates = Array.from(byTenant.values());
+      const parts = splitByShares(
+        amountCents,
+        tenantMandates.map(mandate =>
+          Number(shares.find(share => share.contractId === contract.id && share.tenantId === mandate.tenantId)?.percentage || 0)
+        )
+      );
+
+      tenantMandates.forEach((mandate, index) => {
+        if (parts[index] <= 0) return;
+
+        const sequenceType = mandate.lastCollectedAt ? 'RCUR' : 'FRST';
+        const endToEndId = toSepaText(`${contract.contractNumber}-${period}-${index + 1}`, 35);
+
+        transactions.push({
+          endToEndId,
+          amountCents: parts[index],
+          mandateId: mandate.mandateReference,
+          mandateSignatureDate: mandate.signatureDate,
+          sequenceType,
+          debtorName: toSepaText(mandate.debtorName, 70),
+          debtorIban: mandate.iban,
+          debtorBic: mandate.bic,
+          // The contract number lets the bank statement import match the collection
+          remittanceInformation: toSepaText(`Miete ${period} ${contract.contractNumber} Whg ${contract.unitNumber}`, 140),
+        });
+        items.push({
+          mandateId: mandate.id,
+          contractId: contract.id,
+          tenantId: mandate.tenantId,
+          endToEndId,
+          amount: fromCents(parts[index]),
+          sequenceType,
+        });
+        usedMandates.push(mandate);
+      });
+    }
+
+    if (transactions.length === 0) {
+      throw new ValidationError(`No direct debits to collect for ${period}`, 'period');
+    }
+
+    const createdAt = new Date();
+    const messageId = `TB-DD-${createdAt.toISOString().replace(/\D/g, '').slice(0, 14)}-${randomBytes(3).toString('hex').toUpperCase()}`;
+    const totalCents = transactions.reduce((total, transaction) => total + transaction.amountCents, 0);
+
+    const xml = buildPain008({
+      messageId,
+      createdAt,
+      collectionDate,
+      creditor: {
+        name: toSepaText(organization.bankAccountHolder || organization.name, 70),
+        iban: bankIban,
+        bic: bankBic,
+        creditorId: sepaCreditorId,
+      },
+      transactions,
+    });
+
+    const batch = await withAuditOperation('generateDirectDebitBatch', () => db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(directDebitBatches)
+        .values({
+          organizationId,
+          messageId,
+          period,
+          collectionDate,
+          transactionCount: transactions.length,
+          totalAmount: fromCents(totalCents),
+          items,
+          xml,
+          createdById,
+        })
+        .returning();
+
+      const collected = await tx
+        .update(sepaMandates)
+        .set({ lastCollectedAt: collectionDate, updatedAt: createdAt })
+        .where(inArray(sepaMandates.id, usedMandates.map(mandate => mandate.id)))
+        .returning();
+
+      await recordAuditEvents([
+        {
+          organizationId,
+          entityType: 'direct_debit_batch',
+          entityId: created.id,
+          action: 'create',
+          after: { ...created, xml: undefined },
+        },
+        ...pairRecordsById('sepa_mandate', usedMandates, collected),
+      ], tx);
+
+      return created;
+    }));
+
+    return { batch, skipped };
+  }
+
+  /**
+   * Get generated batches, newest first, without their XML
+   */
+  static async getBatches(
+    organizationId: string,
+    options: { limit?: number; offset?: number } = {}
+  ) {
+    const { limit = 50, offset = 0 } = options;
+    const whereConditions = eq(directDebitBatches.organizationId, organizationId);
+
+    const [batches, [{ total }]] = await Promise.all([
+      db
+        .select({
+          id: directDebitBatches.id,
+          messageId: directDebitBatches.messageId,
+          period: directDebitBatches.period,
+          collectionDate: directDebitBatches.collectionDate,
+          transactionCount: directDebitBatches.transactionCount,
+          totalAmount: directDebitBatches.totalAmount,
+          createdById: directDebitBatches.createdById,
+          createdAt: directDebitBatches.createdAt,
+        })
+        .from(directDebitBatches)
+        .where(whereConditions)
+        .orderBy(desc(directDebitBatches.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(directDebitBatches)
+        .where(whereConditions),
+    ]);
+
+    return { batches, total };
+  }
+
+  /**
+   * Get batch by ID
+   */
+  static async getBatchById(id: string, organizationId: string): Promise<DirectDebitBatch | null> {
+    const [batch] = await db
+      .select()
+      .from(directDebitBatches)
+      .where(
+        and(
+          eq(directDebitBatches.id, id),
+          eq(directDebitBatches.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return batch || null;
+  }
+}
@@ -11,6 +11,10 @@ import {
   type Ticket, 
   type NewTicket 
 } from '../schema';
+import { DatabaseLogger } from '../errors';
+import { recordAuditEvent } from '../audit';
+import { sendTicketStatusEmail } from '../../mail';
+import { emitWebhookEvent } from '../../webhooks';
 
 export class TicketService {
   /**
@@ -22,6 +26,15 @@ export class TicketService {
       .values(data)
       .returning();
 
+    await recordAuditEvent({
+      organizationId: ticket.organizationId,
+      entityType: 'ticket',
+      entityId: ticket.id,
+      action: 'create',
+      after: ticket,
+    });
+    await emitWebhookEvent(ticket.organizationId, 'ticket.created', { ticket });
+
     return ticket;
   }
 
@@ -219,6 +232,23 @@ export class TicketService {
       )
       .returning();
 
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'ticket',
+      entityId: id,
+      action: 'update',
+      before: ticket.ticket,
+      after: updatedTicket,
+    });
+
+    if (updatedTicket && updatedTicket.status !== ticket.ticket.status) {
+      await this.queueStatusEmail(updatedTicket, ticket.ticket.status);
+      await emitWebhookEvent(organizationId, 'ticket.status_changed', {
+        ticket: updatedTicket,
+        previousStatus: ticket.ticket.status,
+      });
+    }
+
     return updatedTicket || null;
   }
 
@@ -364,4 +394,25 @@ export class TicketService {
       .orderBy(desc(tickets.createdAt))
       .limit(limit);
   }
-}
\ No newline at end of file
+
+  /**
+   * Queue the status email in a savepoint of the request transaction. A failure rolls back
+   * only the email and is logged, so it never fails or silently aborts the update itself.
+   */
+  private static async queueStatusEmail(ticket: Ticket, previousStatus: Ticket['status']) {
+    const startedAt = Date.now();
+    try {
+      await db.transaction(async () => {
+        await sendTicketStatusEmail(ticket, previousStatus);
+      });
+    } catch (error) {
+      DatabaseLogger.log(
+        'queueTicketStatusEmail',
+        Date.now() - startedAt,
+        false,
+        ticket.organizationId,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+}
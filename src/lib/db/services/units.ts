@@ -0,0 +1,301 @@
+// src/lib/db/services/units.ts
+import { eq, and, asc, desc, inArray, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  units,
+  buildings,
+  contracts,
+  type Unit,
+  type NewUnit,
+  type UnitType,
+} from '../schema';
+import { ConflictError, NotFoundError } from '../errors';
+import { recordAuditEvent, withAuditOperation } from '../audit';
+import { getUnitOccupancy } from '../../units';
+
+export type UnitInput = Pick<
+  NewUnit,
+  'buildingId' | 'unitNumber' | 'type' | 'floor' | 'livingArea' | 'rooms' | 'features' | 'description'
+>;
+
+export interface UnitFilters {
+  buildingId?: string;
+  type?: UnitType;
+  status?: 'occupied' | 'vacant';
+  asOf?: Date; // Date the occupancy is derived for, today by default
+  limit?: number;
+  offset?: number;
+}
+
+export class UnitService {
+  /**
+   * Get units with their occupancy, ordered by building and unit number
+   */
+  static async getUnits(organizationId: string, filters: UnitFilters = {}) {
+    const { buildingId, type, status, asOf = new Date(), limit = 50, offset = 0 } = filters;
+
+    let whereConditions: SQL | undefined = eq(units.organizationId, organizationId);
+
+    if (buildingId) {
+      whereConditions = and(whereConditions, eq(units.buildingId, buildingId));
+    }
+    if (type) {
+      whereConditions = and(whereConditions, eq(units.type, type));
+    }
+
+    const rows = await db
+      .select()
+      .from(units)
+      .where(whereConditions)
+      .orderBy(asc(units.buildingId), asc(units.unitNumber));
+
+    // Occupancy follows from the contracts, so the status filter applies after loading them
+    const withOccupancy = (await this.withOccupancy(rows, asOf))
+      .filter(unit => !status || unit.occupancy.status === status);
+
+    return {
+      units: withOccupancy.slice(offset, offset + limit),
+      total: withOccupancy.length,
+    };
+  }
+
+  /**
+   * Get all units of a building with their occupancy
+   */
+  static async getByBuilding(buildingId: string, organizationId: string, asOf: Date = new Date()) {
+    const rows = await db
+      .select()
+      .from(units)
+      .where(
+        and(
+          eq(units.buildingId, buildingId),
+          eq(units.organizationId, organizationId)
+        )
+      )
+      .orderBy(asc(units.unitNumber));
+
+    return this.withOccupancy(rows, asOf);
+  }
+
+  /**
+   * Get unit by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<Unit | null> {
+    const [unit] = await db
+      .select()
+      .from(units)
+      .where(
+        and(
+          eq(units.id, id),
+          eq(units.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return unit || null;
+  }
+
+  /**
+   * Get unit with its building, contract history and occupancy
+   */
+  static async getDetails(id: string, organizationId: string, asOf: Date = new Date()) {
+    const [row] = await db
+      .select({ unit: units, building: buildings })
+      .from(units)
+      .innerJoin(buildings, eq(units.buildingId, buildings.id))
+      .where(
+        and(
+          eq(units.id, id),
+          eq(units.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!row) return null;
+
+    const history = await db
+      .select()
+      .from(contracts)
+      .where(eq(contracts.unitId, id))
+      .orderBy(desc(contracts.startDate));
+
+    return {
+      ...row.unit,
+      building: row.building,
+      contracts: history,
+      occupancy: getUnitOccupancy(history, asOf),
+    };
+  }
+
+  /**
+   * Get the unit with a number in a building, creating it when contracts name a unit
+   * that was not recorded yet
+   */
+  static async getOrCreateByNumber(buildingId: string, unitNumber: string, organizationId: string): Promise<Unit> {
+    const [existing] = await db
+      .select()
+      .from(units)
+      .where(
+        and(
+          eq(units.buildingId, buildingId),
+          eq(units.unitNumber, unitNumber),
+          eq(units.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return existing || this.create(organizationId, { buildingId, unitNumber });
+  }
+
+  /**
+   * Create a unit
+   */
+  static async create(organizationId: string, data: UnitInput): Promise<Unit> {
+    await this.assertBuilding(data.buildingId, organizationId);
+    await this.assertUniqueNumber(data.buildingId, data.unitNumber);
+
+    const [unit] = await db
+      .insert(units)
+      .values({ ...data, organizationId })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'unit',
+      entityId: unit.id,
+      action: 'create',
+      after: unit,
+    });
+
+    return unit;
+  }
+
+  /**
+   * Update a unit. A new unit number is copied to its contracts.
+   */
+  static async update(
+    id: string,
+    organizationId: string,
+    data: Partial<Omit<UnitInput, 'buildingId'>>
+  ): Promise<Unit | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    const renamed = data.unitNumber !== undefined && data.unitNumber !== before.unitNumber;
+    if (renamed && data.unitNumber) {
+      await this.assertUniqueNumber(before.buildingId, data.unitNumber);
+    }
+
+    return withAuditOperation('update_unit', () => db.transaction(async (tx) => {
+      const [unit] = await tx
+        .update(units)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(units.id, id))
+        .returning();
+
+      if (renamed) {
+        await tx
+          .update(contracts)
+          .set({ unitNumber: unit.unitNumber, updatedAt: new Date() })
+          .where(eq(contracts.unitId, id));
+      }
+
+      await recordAuditEvent({
+        organizationId,
+        entityType: 'unit',
+        entityId: id,
+        action: 'update',
+        before,
+        after: unit,
+      }, tx);
+
+      return unit;
+    }));
+  }
+
+  /**
+   * Delete a unit that never had a contract
+   */
+  static async delete(id: string, organizationId: string): Promise<boolean> {
+    const unit = await this.getById(id, organizationId);
+    if (!unit) return false;
+
+    const [contract] = await db
+      .select({ id: contracts.id })
+      .from(contracts)
+      .where(eq(contracts.unitId, id))
+      .limit(1);
+
+    if (contract) {
+      throw new ConflictError('Units with contracts cannot be deleted');
+    }
+
+    await db.delete(units).where(eq(units.id, id));
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'unit',
+      entityId: id,
+      action: 'delete',
+      before: unit,
+    });
+
+    return true;
+  }
+
+  private static async withOccupancy(rows: Unit[], asOf: Date) {
+    if (rows.length === 0) return [];
+
+    const unitContracts = await db
+      .select({
+        id: contracts.id,
+        unitId: contracts.unitId,
+        contractNumber: contracts.contractNumber,
+        startDate: contracts.startDate,
+        endDate: contracts.endDate,
+        isActive: contracts.isActive,
+        rentAmount: contracts.rentAmount,
+      })
+      .from(contracts)
+      .where(inArray(contracts.unitId, rows.map(unit => unit.id)));
+
+    return rows.map(unit => ({
+      ...unit,
+      occupancy: getUnitOccupancy(unitContracts.filter(contract => contract.unitId === unit.id), asOf),
+    }));
+  }
+
+  private static async assertBuilding(buildingId: string, organizationId: string) {
+    const [building] = await db
+      .select({ id: buildings.id })
+      .from(buildings)
+      .where(
+        and(
+          eq(buildings.id, buildingId),
+          eq(buildings.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    if (!building) {
+      throw new NotFoundError('Building', buildingId);
+    }
+  }
+
+  private static async assertUniqueNumber(buildingId: string, unitNumber: string) {
+    const [existing] = await db
+      .select({ id: units.id })
+      .from(units)
+      .where(
+        and(
+          eq(units.buildingId, buildingId),
+          eq(units.unitNumber, unitNumber)
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new ConflictError(`Unit ${unitNumber} already exists in this building`);
+    }
+  }
+}
@@ -11,6 +11,7 @@ import {
   type User, 
   type NewUser 
 } from '../schema';
+import { recordAuditEvent } from '../audit';
 
 export class UserService {
   /**
@@ -22,6 +23,14 @@ export class UserService {
       .values(data)
       .returning();
 
+    await recordAuditEvent({
+      organizationId: user.organizationId,
+      entityType: 'user',
+      entityId: user.id,
+      action: 'create',
+      after: user,
+    });
+
     return user;
   }
 
@@ -154,6 +163,9 @@ export class UserService {
     organizationId: string,
     data: Partial<Omit<User, 'id' | 'organizationId' | 'createdAt'>>
   ): Promise<User | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
     const [user] = await db
       .update(users)
       .set({ ...data, updatedAt: new Date() })
@@ -165,6 +177,15 @@ export class UserService {
       )
       .returning();
 
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'user',
+      entityId: id,
+      action: 'update',
+      before,
+      after: user,
+    });
+
     return user || null;
   }
 
@@ -184,6 +205,14 @@ export class UserService {
     return !!updated;
   }
 
+  /**
+   * Unlock an account locked after repeated failed sign-ins
+   */
+  static async unlock(id: string, organizationId: string): Promise<boolean> {
+    const updated = await this.update(id, organizationId, { failedLoginAttempts: 0, lockedUntil: null });
+    return !!updated;
+  }
+
   /**
    * Search users
    */
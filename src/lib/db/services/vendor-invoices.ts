@@ -0,0 +1,511 @@
+// src/lib/db/services/vendor-invoices.ts
+import { eq, and, gte, lte, lt, desc, count, sum, inArray, isNotNull, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  vendorInvoices,
+  vendors,
+  buildings,
+  tickets,
+  documents,
+  type VendorInvoice,
+  type VendorInvoiceStatus,
+  type CostCategory,
+  type OperatingCostCategory,
+} from '../schema';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent, withAuditOperation } from '../audit';
+import { toCents, fromCents } from '../../ledger';
+
+export interface VendorInvoiceInput {
+  vendorId: string;
+  buildingId: string;
+  ticketId?: string | null;
+  documentId?: string | null;
+  invoiceNumber: string;
+  invoiceDate: Date;
+  dueDate?: Date | null;
+  description?: string | null;
+  netAmount: string;
+  vatRate?: string;
+  vatAmount?: string; // Calculated from the rate when omitted
+  costCategory: CostCategory;
+  operatingCostCategory?: OperatingCostCategory | null;
+}
+
+export interface VendorInvoiceFilters {
+  status?: VendorInvoiceStatus;
+  vendorId?: string;
+  buildingId?: string;
+  ticketId?: string;
+  costCategory?: CostCategory;
+  from?: Date;
+  to?: Date;
+  overdue?: boolean; // Approved but unpaid past the due date
+}
+
+// Invoices that count as costs
+export const BOOKED_INVOICE_STATUSES: VendorInvoiceStatus[] = ['approved', 'paid'];
+
+export class VendorInvoiceService {
+  /**
+   * Get invoices with their vendor and building, newest first
+   */
+  static async getInvoices(
+    organizationId: string,
+    filters: VendorInvoiceFilters = {},
+    options: { limit?: number; offset?: number } = {}
+  ) {
+    const { limit = 50, offset = 0 } = options;
+
+    let whereConditions: SQL | undefined = eq(vendorInvoices.organizationId, organizationId);
+
+    if (filters.status) {
+      whereConditions = and(whereConditions, eq(vendorInvoices.status, filters.status));
+    }
+    if (filters.vendorId) {
+      whereConditions = and(whereConditions, eq(vendorInvoices.vendorId, filters.vendorId));
+    }
+    if (filters.buildingId) {
+      whereConditions = and(whereConditions, eq(vendorInvoices.buildingId, filters.buildingId));
+    }
+    if (filters.ticketId) {
+      whereConditions = and(whereConditions, eq(vendorInvoices.ticketId, filters.ticketId));
+    }
+    if (filters.costCategory) {
+      whereConditions = and(whereConditions, eq(vendorInvoices.costCategory, filters.costCategory));
+    }
+    if (filters.from) {
+      whereConditions = and(whereConditions, gte(vendorInvoices.invoiceDate, filters.from));
+    }
+    if (filters.to) {
+      whereConditions = and(whereConditions, lte(vendorInvoices.invoiceDate, filters.to));
+    }
+    if (filters.overdue) {
+      whereConditions = and(
+        whereConditions,
+        eq(vendorInvoices.status, 'approved'),
+        isNotNull(vendorInvoices.dueDate),
+        lt(vendorInvoices.dueDate, new Date())
+      );
+    }
+
+    const [rows, [{ total, grossTotal }]] = await Promise.all([
+      db
+        .select({
+          invoice: vendorInvoices,
+          vendor: {
+            id: vendors.id,
+            name: vendors.name,
+          },
+          building: {
+            id: buildings.id,
+            name: buildings.name,
+          },
+        })
+        .from(vendorInvoices)
+        .innerJoin(vendors, eq(vendorInvoices.vendorId, vendors.id))
+        .innerJoin(buildings, eq(vendorInvoices.buildingId, buildings.id))
+        .where(whereConditions)
+        .orderBy(desc(vendorInvoices.invoiceDate))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count(), grossTotal: sum(vendorInvoices.grossAmount) })
+        .from(vendorInvoices)
+        .where(whereConditions),
+    ]);
+
+    return { invoices: rows, total, grossTotal: grossTotal || '0.00' };
+  }
+
+  /**
+   * Get invoice by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<VendorInvoice | null> {
+    const [invoice] = await db
+      .select()
+      .from(vendorInvoices)
+      .where(
+        and(
+          eq(vendorInvoices.id, id),
+          eq(vendorInvoices.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return invoice || null;
+  }
+
+  /**
+   * Get an invoice with its vendor, building, ticket and attached document
+   */
+  static async getDetails(id: string, organizationId: string) {
+    const invoice = await this.getById(id, organizationId);
+    if (!invoice) return null;
+
+    const [[vendor], [building], [ticket], [document]] = await Promise.all([
+      db
+        .select()
+        .from(vendors)
+        .where(eq(vendors.id, invoice.vendorId))
+        .limit(1),
+      db
+        .select({ id: buildings.id, name: buildings.name, address: buildings.address })
+        .from(buildings)
+        .where(eq(buildings.id, invoice.buildingId))
+        .limit(1),
+      invoice.ticketId
+        ? db
+          .select({ id: tickets.id, title: tickets.title, status: tickets.status, contractId: tickets.contractId })
+          .from(tickets)
+          .where(eq(tickets.id, invoice.ticketId))
+          .limit(1)
+        : Promise.resolve([]),
+      invoice.documentId
+        ? db
+          .select({
+            id: documents.id,
+            originalFileName: documents.originalFileName,
+            mimeType: documents.mimeType,
+            fileSize: documents.fileSize,
+            fileUrl: documents.fileUrl,
+          })
+          .from(documents)
+          .where(eq(documents.id, invoice.documentId))
+          .limit(1)
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      invoice,
+      vendor,
+      building,
+      ticket: ticket || null,
+      document: document || null,
+    };
+  }
+
+  /**
+   * Record a received invoice. The VAT is calculated from the rate unless given,
+   * e.g. for invoices with items at different rates.
+   */
+  static async create(organizationId: string, data: VendorInvoiceInput, createdById: string): Promise<VendorInvoice> {
+    await this.assertReferences(organizationId, data);
+    await this.assertUniqueNumber(data.vendorId, data.invoiceNumber);
+
+    const [invoice] = await db
+      .insert(vendorInvoices)
+      .values({
+        ...data,
+        ...this.getAmounts(data),
+        operatingCostCategory: data.costCategory === 'operating_costs' ? data.operatingCostCategory : null,
+        organizationId,
+        createdById,
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'vendor_invoice',
+      entityId: invoice.id,
+      action: 'create',
+      after: invoice,
+    });
+
+    return invoice;
+  }
+
+  /**
+   * Correct an invoice that was not yet approved or rejected
+   */
+  static async update(
+    id: string,
+    organizationId: string,
+    data: Partial<VendorInvoiceInput>
+  ): Promise<VendorInvoice | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    this.assertStatus(before, 'received', 'Only received invoices can be changed');
+
+    const merged: VendorInvoiceInput = {
+      vendorId: data.vendorId ?? before.vendorId,
+      buildingId: data.buildingId ?? before.buildingId,
+      ticketId: data.ticketId !== undefined ? data.ticketId : before.ticketId,
+      documentId: data.documentId !== undefined ? data.documentId : before.documentId,
+      invoiceNumber: data.invoiceNumber ?? before.invoiceNumber,
+      invoiceDate: data.invoiceDate ?? before.invoiceDate,
+      netAmount: data.netAmount ?? before.netAmount,
+      // A new net amount or rate recalculates the VAT unless it is given as well
+      vatRate: data.vatRate ?? before.vatRate,
+      vatAmount: data.vatAmount ?? (data.netAmount || data.vatRate ? undefined : before.vatAmount),
+      costCategory: data.costCategory ?? before.costCategory,
+      operatingCostCategory: data.operatingCostCategory !== undefined
+        ? data.operatingCostCategory
+        : before.operatingCostCategory,
+    };
+
+    await this.assertReferences(organizationId, merged);
+    if (merged.vendorId !== before.vendorId || merged.invoiceNumber !== before.invoiceNumber) {
+      await this.assertUniqueNumber(merged.vendorId, merged.invoiceNumber);
+    }
+
+    const [invoice] = await db
+      .update(vendorInvoices)
+      .set({
+        ...data,
+        ...this.getAmounts(merged),
+        operatingCostCategory: merged.costCategory === 'operating_costs' ? merged.operatingCostCategory : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(vendorInvoices.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'vendor_invoice',
+      entityId: id,
+      action: 'update',
+      before,
+      after: invoice,
+    });
+
+    return invoice;
+  }
+
+  /**
+   * Approve an invoice for payment. Approved costs of a ticket become its actual cost.
+   */
+  static async approve(id: string, organizationId: string, approvedById: string): Promise<VendorInvoice | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    this.assertStatus(before, 'received', 'Only received invoices can be approved');
+
+    return await withAuditOperation('approveVendorInvoice', () => db.transaction(async (tx) => {
+      const [invoice] = await tx
+        .update(vendorInvoices)
+        .set({ status: 'approved', approvedById, approvedAt: new Date(), updatedAt: new Date() })
+        .where(eq(vendorInvoices.id, id))
+        .returning();
+
+      await recordAuditEvent({
+        organizationId,
+        entityType: 'vendor_invoice',
+        entityId: id,
+        action: 'update',
+        before,
+        after: invoice,
+      }, tx);
+
+      if (invoice.ticketId) {
+        const [{ actualCost }] = await tx
+          .select({ actualCost: sum(vendorInvoices.grossAmount) })
+          .from(vendorInvoices)
+          .where(
+            and(
+              eq(vendorInvoices.ticketId, invoice.ticketId),
+              inArray(vendorInvoices.status, BOOKED_INVOICE_STATUSES)
+            )
+          );
+
+        const [ticketBefore] = await tx
+          .select()
+          .from(tickets)
+          .where(eq(tickets.id, invoice.ticketId))
+          .limit(1);
+
+        const [ticket] = await tx
+          .update(tickets)
+          .set({ actualCost: fromCents(toCents(actualCost || '0')), updatedAt: new Date() })
+          .where(eq(tickets.id, invoice.ticketId))
+          .returning();
+
+        await recordAuditEvent({
+          organizationId,
+          entityType: 'ticket',
+          entityId: ticket.id,
+          action: 'update',
+          before: ticketBefore,
+          after: ticket,
+        }, tx);
+      }
+
+      return invoice;
+    }));
+  }
+
+  /**
+   * Reject a received invoice, e.g. for wrong amounts or work not done
+   */
+  static async reject(id: string, organizationId: string, reason: string): Promise<VendorInvoice | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    this.assertStatus(before, 'received', 'Only received invoices can be rejected');
+
+    const [invoice] = await db
+      .update(vendorInvoices)
+      .set({ status: 'rejected', rejectionReason: reason, updatedAt: new Date() })
+      .where(eq(vendorInvoices.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'vendor_invoice',
+      entityId: id,
+      action: 'update',
+      before,
+      after: invoice,
+    });
+
+    return invoice;
+  }
+
+  /**
+   * Record the payment of an approved invoice
+   */
+  static async markPaid(
+    id: string,
+    organizationId: string,
+    data: { paidAt?: Date; paymentReference?: string }
+  ): Promise<VendorInvoice | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    this.assertStatus(before, 'approved', 'Invoices must be approved before they are paid');
+
+    const [invoice] = await db
+      .update(vendorInvoices)
+      .set({
+        status: 'paid',
+        paidAt: data.paidAt || new Date(),
+        paymentReference: data.paymentReference,
+        updatedAt: new Date(),
+      })
+      .where(eq(vendorInvoices.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'vendor_invoice',
+      entityId: id,
+      action: 'update',
+      before,
+      after: invoice,
+    });
+
+    return invoice;
+  }
+
+  /**
+   * Delete an invoice that was not approved. The attached document is kept.
+   */
+  static async delete(id: string, organizationId: string): Promise<boolean> {
+    const invoice = await this.getById(id, organizationId);
+    if (!invoice) return false;
+
+    if (BOOKED_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new ConflictError('Approved invoices cannot be deleted');
+    }
+
+    await db
+      .delete(vendorInvoices)
+      .where(eq(vendorInvoices.id, id));
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'vendor_invoice',
+      entityId: id,
+      action: 'delete',
+      before: invoice,
+    });
+
+    return true;
+  }
+
+  private static getAmounts(data: Pick<VendorInvoiceInput, 'netAmount' | 'vatRate' | 'vatAmount'>) {
+    const netCents = toCents(data.netAmount);
+    const vatRate = data.vatRate ?? '19.00';
+    const vatCents = data.vatAmount !== undefined
+      ? toCents(data.vatAmount)
+      : Math.round((netCents * Number(vatRate)) / 100);
+
+    return {
+      netAmount: fromCents(netCents),
+      vatRate,
+      vatAmount: fromCents(vatCents),
+      grossAmount: fromCents(netCents + vatCents),
+    };
+  }
+
+  private static assertStatus(invoice: VendorInvoice, status: VendorInvoiceStatus, message: string): void {
+    if (invoice.status !== status) {
+      throw new ConflictError(message);
+    }
+  }
+
+  private static async assertUniqueNumber(vendorId: string, invoiceNumber: string): Promise<void> {
+    const [existing] = await db
+      .select({ id: vendorInvoices.id })
+      .from(vendorInvoices)
+      .where(
+        and(
+          eq(vendorInvoices.vendorId, vendorId),
+          eq(vendorInvoices.invoiceNumber, invoiceNumber)
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new ConflictError(`Invoice ${invoiceNumber} of this vendor was already recorded`);
+    }
+  }
+
+  // Linked records must belong to the organization and the ticket to the building
+  private static async assertReferences(organizationId: string, data: VendorInvoiceInput): Promise<void> {
+    if (data.costCategory === 'operating_costs' && !data.operatingCostCategory) {
+      throw new ValidationError('Operating costs need a settlement category', 'operatingCostCategory');
+    }
+
+    const [[vendor], [building], [ticket], [document]] = await Promise.all([
+      db
+        .select({ id: vendors.id })
+        .from(vendors)
+        .where(and(eq(vendors.id, data.vendorId), eq(vendors.organizationId, organizationId)))
+        .limit(1),
+      db
+        .select({ id: buildings.id })
+        .from(buildings)
+        .where(and(eq(buildings.id, data.buildingId), eq(buildings.organizationId, organizationId)))
+        .limit(1),
+      data.ticketId
+        ? db
+          .select({ buildingId: tickets.buildingId })
+          .from(tickets)
+          .where(and(eq(tickets.id, data.ticketId), eq(tickets.organizationId, organizationId)))
+          .limit(1)
+        : Promise.resolve([]),
+      data.documentId
+        ? db
+          .select({ id: documents.id })
+          .from(documents)
+          .where(and(eq(documents.id, data.documentId), eq(documents.organizationId, organizationId)))
+          .limit(1)
+        : Promise.resolve([]),
+    ]);
+
+    if (!vendor) {
+      throw new NotFoundError('Vendor', data.vendorId);
+    }
+    if (!building) {
+      throw new NotFoundError('Building', data.buildingId);
+    }
+    if (data.ticketId && (!ticket || ticket.buildingId !== data.buildingId)) {
+      throw new ValidationError('The ticket does not belong to the building of the invoice', 'ticketId');
+    }
+    if (data.documentId && !document) {
+      throw new NotFoundError('Document', data.documentId);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+// src/lib/db/services/vendors.ts
+import { eq, and, asc, count, like, or, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { vendors, type Vendor, type NewVendor } from '../schema';
+import { recordAuditEvent } from '../audit';
+
+export type VendorInput = Pick<
+  NewVendor,
+  'name' | 'email' | 'phone' | 'address' | 'postalCode' | 'city' | 'iban' | 'vatId' | 'isActive'
+>;
+
+export class VendorService {
+  /**
+   * Get vendors, ordered by name
+   */
+  static async getVendors(
+    organizationId: string,
+    options: { search?: string; isActive?: boolean; limit?: number; offset?: number } = {}
+  ) {
+    const { search, isActive, limit = 50, offset = 0 } = options;
+
+    let whereConditions: SQL | undefined = eq(vendors.organizationId, organizationId);
+
+    if (isActive !== undefined) {
+      whereConditions = and(whereConditions, eq(vendors.isActive, isActive));
+    }
+    if (search) {
+      whereConditions = and(
+        whereConditions,
+        or(like(vendors.name, `%${search}%`), like(vendors.email, `%${search}%`))
+      );
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(vendors)
+        .where(whereConditions)
+        .orderBy(asc(vendors.name))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(vendors)
+        .where(whereConditions),
+    ]);
+
+    return { vendors: rows, total };
+  }
+
+  /**
+   * Get vendor by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<Vendor | null> {
+    const [vendor] = await db
+      .select()
+      .from(vendors)
+      .where(
+        and(
+          eq(vendors.id, id),
+          eq(vendors.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return vendor || null;
+  }
+
+  /**
+   * Create a vendor
+   */
+  static async create(organizationId: string, data: VendorInput): Promise<Vendor> {
+    const [vendor] = await db
+      .insert(vendors)
+      .values({ ...data, organizationId })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'vendor',
+      entityId: vendor.id,
+      action: 'create',
+      after: vendor,
+    });
+
+    return vendor;
+  }
+
+  /**
+   * Update a vendor. Vendors with invoices are deactivated rather than deleted.
+   */
+  static async update(id: string, organizationId: string, data: Partial<VendorInput>): Promise<Vendor | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    const [vendor] = await db
+      .update(vendors)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(vendors.id, id))
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'vendor',
+      entityId: id,
+      action: 'update',
+      before,
+      after: vendor,
+    });
+
+    return vendor;
+  }
+}
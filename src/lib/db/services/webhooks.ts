@@ -0,0 +1,266 @@
+// src/lib/db/services/webhooks.ts
+import { eq, and, desc, count, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  webhookSubscriptions,
+  webhookDeliveries,
+  type WebhookSubscription,
+  type NewWebhookSubscription,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from '../schema';
+import { NotFoundError, ValidationError } from '../errors';
+import { recordAuditEvent } from '../audit';
+import {
+  assertPublicWebhookUrl,
+  generateWebhookSecret,
+  retryWebhookDelivery,
+  WebhookTargetError,
+} from '../../webhooks';
+
+type WebhookInput = Pick<NewWebhookSubscription, 'url' | 'description' | 'events' | 'isActive'>;
+
+export class WebhookService {
+  /**
+   * Create a webhook subscription with a new signing secret
+   */
+  static async create(
+    organizationId: string,
+    data: WebhookInput,
+    createdById: string
+  ): Promise<WebhookSubscription> {
+    await this.checkUrl(data.url);
+
+    const [subscription] = await db
+      .insert(webhookSubscriptions)
+      .values({
+        ...data,
+        events: Array.from(new Set(data.events)),
+        organizationId,
+        createdById,
+        secret: generateWebhookSecret(),
+      })
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'webhook_subscription',
+      entityId: subscription.id,
+      action: 'create',
+      after: subscription,
+    });
+
+    return subscription;
+  }
+
+  /**
+   * Get webhook subscription by ID
+   */
+  static async getById(id: string, organizationId: string): Promise<WebhookSubscription | null> {
+    const [subscription] = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(
+        and(
+          eq(webhookSubscriptions.id, id),
+          eq(webhookSubscriptions.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
+    return subscription || null;
+  }
+
+  /**
+   * Get all webhook subscriptions of an organization
+   */
+  static async getSubscriptions(organizationId: string): Promise<WebhookSubscription[]> {
+    return await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.organizationId, organizationId))
+      .orderBy(desc(webhookSubscriptions.createdAt));
+  }
+
+  /**
+   * Update URL, description, events or active state
+   */
+  static async update(
+    id: string,
+    organizationId: string,
+    data: Partial<WebhookInput>
+  ): Promise<WebhookSubscription | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    if (data.url) {
+      await this.checkUrl(data.url);
+    }
+
+    const [subscription] = await db
+      .update(webhookSubscriptions)
+      .set({
+        ...data,
+        ...(data.events && { events: Array.from(new Set(data.events)) }),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(webhookSubscriptions.id, id),
+          eq(webhookSubscriptions.organizationId, organizationId)
+        )
+      )
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'webhook_subscription',
+      entityId: id,
+      action: 'update',
+      before,
+      after: subscription,
+    });
+
+    return subscription || null;
+  }
+
+  /**
+   * Delete a subscription together with its delivery log
+   */
+  static async delete(id: string, organizationId: string): Promise<boolean> {
+    const [deleted] = await db
+      .delete(webhookSubscriptions)
+      .where(
+        and(
+          eq(webhookSubscriptions.id, id),
+          eq(webhookSubscriptions.organizationId, organizationId)
+        )
+      )
+      .returning();
+
+    if (!deleted) return false;
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'webhook_subscription',
+      entityId: id,
+      action: 'delete',
+      before: deleted,
+    });
+
+    return true;
+  }
+
+  /**
+   * Replace the signing secret; deliveries from now on use the new one
+   */
+  static async rotateSecret(id: string, organizationId: string): Promise<WebhookSubscription | null> {
+    const before = await this.getById(id, organizationId);
+    if (!before) return null;
+
+    const [subscription] = await db
+      .update(webhookSubscriptions)
+      .set({ secret: generateWebhookSecret(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(webhookSubscriptions.id, id),
+          eq(webhookSubscriptions.organizationId, organizationId)
+        )
+      )
+      .returning();
+
+    await recordAuditEvent({
+      organizationId,
+      entityType: 'webhook_subscription',
+      entityId: id,
+      action: 'update',
+      before,
+      after: subscription,
+    });
+
+    return subscription || null;
+  }
+
+  /**
+   * Get the delivery log of a subscription, newest first
+   */
+  static async getDeliveries(
+    subscriptionId: string,
+    organizationId: string,
+    options: {
+      status?: WebhookDelivery['status'];
+      event?: WebhookEvent;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const { status, event, limit = 50, offset = 0 } = options;
+
+    let whereConditions: SQL | undefined = and(
+      eq(webhookDeliveries.subscriptionId, subscriptionId),
+      eq(webhookDeliveries.organizationId, organizationId)
+    );
+
+    if (status) {
+      whereConditions = and(whereConditions, eq(webhookDeliveries.status, status));
+    }
+
+    if (event) {
+      whereConditions = and(whereConditions, eq(webhookDeliveries.event, event));
+    }
+
+    const [deliveries, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(webhookDeliveries)
+        .where(whereConditions)
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: count() })
+        .from(webhookDeliveries)
+        .where(whereConditions),
+    ]);
+
+    return { deliveries, total };
+  }
+
+  /**
+   * Queue a failed delivery of this subscription again.
+   * Returns null when the delivery has not failed.
+   */
+  static async retryDelivery(
+    deliveryId: string,
+    subscriptionId: string,
+    organizationId: string
+  ): Promise<WebhookDelivery | null> {
+    const [delivery] = await db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.id, deliveryId),
+          eq(webhookDeliveries.subscriptionId, subscriptionId)
+        )
+      )
+      .limit(1);
+
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery', deliveryId);
+    }
+
+    return await retryWebhookDelivery(deliveryId, organizationId);
+  }
+
+  private static async checkUrl(url: string): Promise<void> {
+    try {
+      await assertPublicWebhookUrl(url);
+    } catch (error) {
+      if (error instanceof WebhookTargetError) {
+        throw new ValidationError(error.message, 'url');
+      }
+      throw error;
+    }
+  }
+}
@@ -6,6 +6,9 @@ import {
   organizations,
   users,
   buildings,
+  units,
+  meters,
+  meterReadingSubmissions,
   contracts,
   tenantContracts,
   tickets,
@@ -160,11 +163,14 @@ export class TestDataFactory {
     console.log('🧹 Cleaning up test data...');
 
     // Delete in correct order
+    await db.delete(meterReadingSubmissions).where(eq(meterReadingSubmissions.organizationId, targetOrgId));
     await db.delete(documents).where(eq(documents.organizationId, targetOrgId));
     await db.delete(consumptionRecords).where(eq(consumptionRecords.organizationId, targetOrgId));
     await db.delete(tickets).where(eq(tickets.organizationId, targetOrgId));
     await db.delete(tenantContracts).where(eq(tenantContracts.organizationId, targetOrgId));
     await db.delete(contracts).where(eq(contracts.organizationId, targetOrgId));
+    await db.delete(meters).where(eq(meters.organizationId, targetOrgId));
+    await db.delete(units).where(eq(units.organizationId, targetOrgId));
     await db.delete(buildings).where(eq(buildings.organizationId, targetOrgId));
     await db.delete(users).where(eq(users.organizationId, targetOrgId));
     await db.delete(organizations).where(eq(organizations.id, targetOrgId));
@@ -436,14 +442,13 @@ export class IntegrityTest {
 
     // Test: User from org1 should not see org2 buildings
     try {
-      const { setRLSContext } = await import('./utils');
-      await setRLSContext({
+      const { withRequestDb } = await import('./utils');
+      const buildingsForOrg1 = await withRequestDb({
         organizationId: org1Id,
         userId: '00000000-0000-0000-0000-000000000001',
         userRole: 'landlord_admin',
-      });
+      }, () => db.select().from(buildings));
 
-      const buildingsForOrg1 = await db.select().from(buildings);
       const hasOrg2Building = buildingsForOrg1.some(b => b.organizationId === org2Id);
 
       tests.push({
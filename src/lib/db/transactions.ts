@@ -1,17 +1,23 @@
 // src/lib/db/transactions.ts
-import { eq, and, inArray, count, sql } from 'drizzle-orm';
+import { eq, and, inArray, count, sql, sum } from 'drizzle-orm';
 import { db } from './db';
-import { setRLSContext, createRLSContext } from './utils';
+import { withRequestDb, createRLSContext } from './utils';
+import { ConflictError, NotFoundError } from './errors';
+import { markInvitationAsUsed } from './invitation-utils';
+import { recordAuditEvents, withAuditOperation, pairRecordsById, type AuditEntry } from './audit';
 import { 
   users, 
   tenantContracts, 
-  invitationTokens,
   contracts,
   buildings,
   tickets,
   consumptionRecords,
-  documents
+  documents,
+  depositAccounts,
+  depositSettlements,
+  type User
 } from './schema';
+import { emitWebhookEvent } from '../webhooks';
 
 /**
  * Execute multiple database operations in a transaction
@@ -35,74 +41,116 @@ export async function withTransactionAndRLS<T>(
   },
   callback: (tx: typeof db) => Promise<T>
 ): Promise<T> {
-  return await db.transaction(async (tx) => {
-    // Set RLS context for the transaction
-    await setRLSContext(context);
-    
-    try {
+  // The request transaction carries the RLS context; this runs as a savepoint inside it
+  return await withRequestDb(context, () =>
+    db.transaction(async (tx) => {
       return await callback(tx);
-    } catch (error) {
-      // Transaction will auto-rollback on error
-      throw error;
-    }
-  });
+    })
+  );
 }
 
 /**
- * Complex tenant onboarding transaction
+ * Complex tenant onboarding transaction. With a tenantId the contract is linked to that
+ * existing tenant instead of creating a new account.
  */
 export async function createTenantWithContract(
   data: {
     organizationId: string;
     contractId: string;
+    tenantId?: string;
     tenantData: {
       email: string;
       name: string;
       percentage?: string;
       isMainTenant?: boolean;
+      passwordHash?: string;
     };
     invitationToken: string;
   }
 ) {
-  return await withTransaction(async (tx) => {
-    const { organizationId, contractId, tenantData, invitationToken } = data;
+  return await withAuditOperation('createTenantWithContract', () => withTransaction(async (tx) => {
+    const { organizationId, contractId, tenantId, tenantData, invitationToken } = data;
+    const percentage = tenantData.percentage || '100.00';
 
-    // 1. Create the tenant user
-    const [tenant] = await tx
-      .insert(users)
-      .values({
-        email: tenantData.email,
-        name: tenantData.name,
-        role: 'tenant',
-        organizationId,
-        isActive: true,
-        emailVerified: new Date(),
-      })
-      .returning();
+    // 1. Lock the contract so concurrent acceptances check its shares one after another
+    await tx
+      .select({ id: contracts.id })
+      .from(contracts)
+      .where(eq(contracts.id, contractId))
+      .for('update');
+
+    // Shares of all tenants on a contract may not exceed 100%
+    const [allocated] = await tx
+      .select({ total: sum(tenantContracts.percentage) })
+      .from(tenantContracts)
+      .where(eq(tenantContracts.contractId, contractId));
 
-    // 2. Create tenant-contract relationship
+    if (Number(allocated?.total || 0) + Number(percentage) > 100) {
+      throw new ConflictError('The contract share in this invitation is no longer available');
+    }
+
+    // 2. Create the tenant user, unless an existing tenant is linked
+    let tenant: User;
+    let createdTenant = false;
+    if (tenantId) {
+      const [existing] = await tx
+        .select()
+        .from(users)
+        .where(eq(users.id, tenantId))
+        .limit(1);
+      if (!existing) {
+        throw new NotFoundError('User', tenantId);
+      }
+      tenant = existing;
+    } else {
+      [tenant] = await tx
+        .insert(users)
+        .values({
+          email: tenantData.email,
+          name: tenantData.name,
+          role: 'tenant',
+          organizationId,
+          isActive: true,
+          emailVerified: new Date(),
+          passwordHash: tenantData.passwordHash,
+          passwordChangedAt: tenantData.passwordHash ? new Date() : undefined,
+        })
+        .returning();
+      createdTenant = true;
+    }
+
+    // 3. Create tenant-contract relationship
     const [tenantContract] = await tx
       .insert(tenantContracts)
       .values({
         organizationId,
         tenantId: tenant.id,
         contractId,
-        percentage: tenantData.percentage || '100.00',
+        percentage,
         isMainTenant: tenantData.isMainTenant || false,
       })
       .returning();
 
-    // 3. Mark invitation as used
-    await tx
-      .update(invitationTokens)
-      .set({ usedAt: new Date() })
-      .where(eq(invitationTokens.token, invitationToken));
+    // 4. Mark invitation as used (rolls back if it was accepted concurrently)
+    const marked = await markInvitationAsUsed(invitationToken, tx);
+    if (!marked) {
+      throw new ConflictError('Invitation has already been used');
+    }
+
+    const auditEntries: AuditEntry[] = [
+      { organizationId, entityType: 'tenant_contract', entityId: tenantContract.id, action: 'create', after: tenantContract },
+    ];
+    if (createdTenant) {
+      auditEntries.unshift({ organizationId, entityType: 'user', entityId: tenant.id, action: 'create', after: tenant });
+    }
+    await recordAuditEvents(auditEntries, tx);
 
     return {
       tenant,
       tenantContract,
+      createdTenant,
     };
-  });
+  }));
 }
 
 /**
@@ -121,13 +169,14 @@ export async function createBulkConsumptionRecords(
     readingDate: Date;
   }>
 ) {
-  return await withTransaction(async (tx) => {
+  return await withAuditOperation('createBulkConsumptionRecords', () => withTransaction(async (tx) => {
     const createdRecords = [];
+    const auditEntries: AuditEntry[] = [];
     
     for (const record of records) {
       // Check if record already exists for this period
       const [existing] = await tx
-        .select({ id: consumptionRecords.id })
+        .select()
         .from(consumptionRecords)
         .where(
           and(
@@ -154,6 +203,7 @@ export async function createBulkConsumptionRecords(
           .returning();
         
         createdRecords.push({ ...updated, action: 'updated' });
+        auditEntries.push(...pairRecordsById('consumption_record', [existing], [updated]));
       } else {
         // Create new record
         const [created] = await tx
@@ -165,11 +215,20 @@ export async function createBulkConsumptionRecords(
           .returning();
         
         createdRecords.push({ ...created, action: 'created' });
+        auditEntries.push({
+          organizationId,
+          entityType: 'consumption_record',
+          entityId: created.id,
+          action: 'create',
+          after: created,
+        });
       }
     }
 
+    await recordAuditEvents(auditEntries, tx);
+
     return createdRecords;
-  });
+  }));
 }
 
 /**
@@ -184,8 +243,19 @@ export async function terminateContract(
     reason?: string;
   }
 ) {
-  return await withTransaction(async (tx) => {
-    const { endDate, terminatedById, reason } = terminationData;
+  const { endDate, terminatedById, reason } = terminationData;
+
+  const contract = await withAuditOperation('terminateContract', () => withTransaction(async (tx) => {
+    const [previousContract] = await tx
+      .select()
+      .from(contracts)
+      .where(
+        and(
+          eq(contracts.id, contractId),
+          eq(contracts.organizationId, organizationId)
+        )
+      )
+      .limit(1);
 
     // 1. Update contract
     const [updatedContract] = await tx
@@ -208,23 +278,63 @@ export async function terminateContract(
     }
 
     // 2. Close all open tickets for this contract
-    await tx
+    const openTicketsCondition = and(
+      eq(tickets.contractId, contractId),
+      inArray(tickets.status, ['open', 'in_progress', 'waiting_for_tenant'])
+    );
+    const openTickets = await tx.select().from(tickets).where(openTicketsCondition);
+    const closedTickets = await tx
       .update(tickets)
       .set({
         status: 'closed',
         resolvedAt: new Date(),
         updatedAt: new Date(),
       })
+      .where(openTicketsCondition)
+      .returning();
+
+    const auditEntries: AuditEntry[] = [
+      ...pairRecordsById('contract', [previousContract], [updatedContract]),
+      ...pairRecordsById('ticket', openTickets, closedTickets),
+    ];
+
+    // 3. Start the settlement of the deposit, with interest up to the end of the tenancy
+    const [deposit] = await tx
+      .select({ id: depositAccounts.id, settlementId: depositSettlements.id })
+      .from(depositAccounts)
+      .leftJoin(depositSettlements, eq(depositSettlements.depositAccountId, depositAccounts.id))
       .where(
         and(
-          eq(tickets.contractId, contractId),
-          inArray(tickets.status, ['open', 'in_progress', 'waiting_for_tenant'])
+          eq(depositAccounts.contractId, contractId),
+          eq(depositAccounts.status, 'held')
         )
-      );
+      )
+      .limit(1);
 
-    // 3. Create termination document/note if reason provided
+    if (deposit && !deposit.settlementId) {
+      const [settlement] = await tx
+        .insert(depositSettlements)
+        .values({
+          organizationId,
+          depositAccountId: deposit.id,
+          contractId,
+          settlementDate: endDate,
+          createdById: terminatedById,
+        })
+        .returning();
+
+      auditEntries.push({
+        organizationId,
+        entityType: 'deposit_settlement',
+        entityId: settlement.id,
+        action: 'create',
+        after: settlement,
+      });
+    }
+
+    // 4. Create termination document/note if reason provided
     if (reason) {
-      await tx
+      const [document] = await tx
         .insert(documents)
         .values({
           organizationId,
@@ -238,11 +348,26 @@ export async function terminateContract(
           category: 'document',
           description: `Contract termination reason: ${reason}`,
           isPublic: false,
-        });
+        })
+        .returning();
+
+      auditEntries.push({
+        organizationId,
+        entityType: 'document',
+        entityId: document.id,
+        action: 'create',
+        after: document,
+      });
     }
 
+    await recordAuditEvents(auditEntries, tx);
+
     return updatedContract;
-  });
+  }));
+
+  await emitWebhookEvent(organizationId, 'contract.terminated', { contract, reason });
+
+  return contract;
 }
 
 /**
@@ -252,7 +377,7 @@ export async function deleteBuildingWithCleanup(
   buildingId: string,
   organizationId: string
 ) {
-  return await withTransaction(async (tx) => {
+  return await withAuditOperation('deleteBuildingWithCleanup', () => withTransaction(async (tx) => {
     // 1. Check for active contracts
     const [activeContracts] = await tx
       .select({ count: count(contracts.id) })
@@ -269,24 +394,26 @@ export async function deleteBuildingWithCleanup(
     }
 
     // 2. Delete related documents
-    await tx
+    const deletedDocuments = await tx
       .delete(documents)
-      .where(eq(documents.buildingId, buildingId));
+      .where(eq(documents.buildingId, buildingId))
+      .returning();
 
     // 3. Close any remaining tickets
-    await tx
+    const openTicketsCondition = and(
+      eq(tickets.buildingId, buildingId),
+      inArray(tickets.status, ['open', 'in_progress', 'waiting_for_tenant'])
+    );
+    const openTickets = await tx.select().from(tickets).where(openTicketsCondition);
+    const closedTickets = await tx
       .update(tickets)
       .set({
         status: 'closed',
         resolvedAt: new Date(),
         updatedAt: new Date(),
       })
-      .where(
-        and(
-          eq(tickets.buildingId, buildingId),
-          inArray(tickets.status, ['open', 'in_progress', 'waiting_for_tenant'])
-        )
-      );
+      .where(openTicketsCondition)
+      .returning();
 
     // 4. Delete building
     const [deletedBuilding] = await tx
@@ -299,8 +426,31 @@ export async function deleteBuildingWithCleanup(
       )
       .returning();
 
+    const auditEntries: AuditEntry[] = [
+      ...deletedDocuments.map(document => ({
+        organizationId: document.organizationId,
+        entityType: 'document' as const,
+        entityId: document.id,
+        action: 'delete' as const,
+        before: document,
+      })),
+      ...pairRecordsById('ticket', openTickets, closedTickets),
+    ];
+
+    if (deletedBuilding) {
+      auditEntries.push({
+        organizationId,
+        entityType: 'building',
+        entityId: deletedBuilding.id,
+        action: 'delete',
+        before: deletedBuilding,
+      });
+    }
+
+    await recordAuditEvents(auditEntries, tx);
+
     return deletedBuilding;
-  });
+  }));
 }
 
 /**
@@ -314,45 +464,73 @@ export async function removeTenantFromSystem(
     closeTickets?: boolean;
   } = {}
 ) {
-  return await withTransaction(async (tx) => {
+  return await withAuditOperation('removeTenantFromSystem', () => withTransaction(async (tx) => {
     const { reassignTicketsTo, closeTickets = true } = options;
 
     // 1. Remove tenant from all contracts
-    await tx
+    const removedTenantContracts = await tx
       .delete(tenantContracts)
       .where(
         and(
           eq(tenantContracts.tenantId, tenantId),
           eq(tenantContracts.organizationId, organizationId)
         )
-      );
+      )
+      .returning();
+
+    const auditEntries: AuditEntry[] = removedTenantContracts.map(tenantContract => ({
+      organizationId,
+      entityType: 'tenant_contract' as const,
+      entityId: tenantContract.id,
+      action: 'delete' as const,
+      before: tenantContract,
+    }));
 
     // 2. Handle tickets created by tenant
     if (reassignTicketsTo) {
-      await tx
+      const ticketsCondition = eq(tickets.createdById, tenantId);
+      const previousTickets = await tx.select().from(tickets).where(ticketsCondition);
+      const reassignedTickets = await tx
         .update(tickets)
         .set({
           createdById: reassignTicketsTo,
           updatedAt: new Date(),
         })
-        .where(eq(tickets.createdById, tenantId));
+        .where(ticketsCondition)
+        .returning();
+
+      auditEntries.push(...pairRecordsById('ticket', previousTickets, reassignedTickets));
     } else if (closeTickets) {
-      await tx
+      const ticketsCondition = and(
+        eq(tickets.createdById, tenantId),
+        inArray(tickets.status, ['open', 'in_progress', 'waiting_for_tenant'])
+      );
+      const previousTickets = await tx.select().from(tickets).where(ticketsCondition);
+      const closedTickets = await tx
         .update(tickets)
         .set({
           status: 'closed',
           resolvedAt: new Date(),
           updatedAt: new Date(),
         })
-        .where(
-          and(
-            eq(tickets.createdById, tenantId),
-            inArray(tickets.status, ['open', 'in_progress', 'waiting_for_tenant'])
-          )
-        );
+        .where(ticketsCondition)
+        .returning();
+
+      auditEntries.push(...pairRecordsById('ticket', previousTickets, closedTickets));
     }
 
     // 3. Deactivate user
+    const [previousTenant] = await tx
+      .select()
+      .from(users)
+      .where(
+        and(
+          eq(users.id, tenantId),
+          eq(users.organizationId, organizationId)
+        )
+      )
+      .limit(1);
+
     const [deactivatedTenant] = await tx
       .update(users)
       .set({
@@ -367,8 +545,14 @@ export async function removeTenantFromSystem(
       )
       .returning();
 
+    if (deactivatedTenant) {
+      auditEntries.push(...pairRecordsById('user', [previousTenant], [deactivatedTenant]));
+    }
+
+    await recordAuditEvents(auditEntries, tx);
+
     return deactivatedTenant;
-  });
+  }));
 }
 
 /**
@@ -1,20 +1,26 @@
 // src/lib/db/utils.ts
 import { sql } from 'drizzle-orm';
-import { db } from './db';
+import { db, systemDb, requestDbStorage, type Database } from './db';
+
+// Database role the row-level security policies apply to (created by the RLS migration)
+export const RLS_APP_ROLE = 'tenantbridge_app';
 
 /**
- * Set Row-Level Security context for the current session
- * This should be called at the start of API routes and server actions
+ * Set Row-Level Security context for the current transaction.
+ * The settings are transaction-local, so pass the transaction they should apply to.
  */
-export async function setRLSContext(params: {
-  organizationId: string;
-  userId: string;
-  userRole: string;
-}) {
+export async function setRLSContext(
+  params: {
+    organizationId: string;
+    userId: string;
+    userRole: string;
+  },
+  executor: Pick<Database, 'execute'> = db
+) {
   const { organizationId, userId, userRole } = params;
 
   try {
-    await db.execute(sql`
+    await executor.execute(sql`
       SELECT 
         set_config('app.current_organization_id', ${organizationId}, true),
         set_config('app.current_user_id', ${userId}, true),
@@ -44,10 +50,12 @@ export async function clearRLSContext() {
 }
 
 /**
- * Execute a database operation with RLS context
- * Automatically sets and clears context
+ * Run an operation inside a request-scoped transaction that enforces RLS.
+ * The transaction switches to the RLS-bound role and sets the context, and every
+ * `db` call made by services within the operation is routed through it.
+ * Errors roll back all writes made during the request.
  */
-export async function withRLSContext<T>(
+export async function withRequestDb<T>(
   context: {
     organizationId: string;
     userId: string;
@@ -55,12 +63,32 @@ export async function withRLSContext<T>(
   },
   operation: () => Promise<T>
 ): Promise<T> {
-  await setRLSContext(context);
-  try {
+  // Nested scopes reuse the outer request transaction
+  if (requestDbStorage.getStore()) {
     return await operation();
-  } finally {
-    await clearRLSContext();
   }
+
+  return await systemDb.transaction(async (tx) => {
+    await tx.execute(sql.raw(`SET LOCAL ROLE ${RLS_APP_ROLE}`));
+    await setRLSContext(context, tx);
+
+    return await requestDbStorage.run(tx as unknown as Database, operation);
+  });
+}
+
+/**
+ * Execute a database operation with RLS context
+ * The context only lives as long as the request transaction
+ */
+export async function withRLSContext<T>(
+  context: {
+    organizationId: string;
+    userId: string;
+    userRole: string;
+  },
+  operation: () => Promise<T>
+): Promise<T> {
+  return await withRequestDb(context, operation);
 }
 
 /**
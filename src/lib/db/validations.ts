@@ -1,5 +1,28 @@
 // src/lib/db/validations.ts
 import { z } from 'zod';
+import { ValidationError } from './errors';
+import {
+  API_KEY_PERMISSIONS,
+  WEBHOOK_EVENTS,
+  AUDIT_ENTITY_TYPES,
+  AUDIT_ACTIONS,
+  LEDGER_CATEGORIES,
+  OPERATING_COST_CATEGORIES,
+  ALLOCATION_KEYS,
+  RENT_TYPES,
+  RENT_ADJUSTMENT_TYPES,
+  UNIT_TYPES,
+  CONSUMPTION_TYPES,
+  METER_READING_SUBMISSION_STATUSES,
+  CONSUMPTION_ANOMALY_TYPES,
+  CONSUMPTION_ANOMALY_STATUSES,
+  VENDOR_INVOICE_STATUSES,
+  COST_CATEGORIES,
+  DATEV_ACCOUNT_KEYS,
+} from './schema';
+import { isValidBic, isValidCreditorId, isValidIban } from '../sepa';
+import { IMPORT_FIELDS, IMPORT_FORMATS } from '../consumption-import/types';
+import { getWebhookUrlProblem } from '../webhooks/targets';
 
 // Organization validation schemas
 export const createOrganizationSchema = z.object({
@@ -26,6 +49,28 @@ export const createUserSchema = z.object({
 
 export const updateUserSchema = createUserSchema.partial().omit({ organizationId: true });
 
+// Password validation schemas
+export const passwordSchema = z.string()
+  .min(10, 'Password must be at least 10 characters')
+  .max(128, 'Password cannot exceed 128 characters')
+  .regex(/[a-z]/, 'Password must contain a lowercase letter')
+  .regex(/[A-Z]/, 'Password must contain an uppercase letter')
+  .regex(/\d/, 'Password must contain a number');
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: passwordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+});
+
 // Building validation schemas
 export const createBuildingSchema = z.object({
   name: z.string().min(1, 'Building name is required').max(100),
@@ -34,6 +79,7 @@ export const createBuildingSchema = z.object({
   postalCode: z.string().min(1, 'Postal code is required').max(20),
   country: z.string().default('Germany'),
   totalUnits: z.number().int().min(1, 'Total units must be at least 1').max(1000),
+  totalLivingArea: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid living area').optional(),
   yearBuilt: z.number().int().min(1800).max(new Date().getFullYear()).optional(),
   propertyType: z.enum(['apartment', 'house', 'commercial', 'mixed']).default('apartment'),
   organizationId: z.string().uuid('Invalid organization ID'),
@@ -41,16 +87,36 @@ export const createBuildingSchema = z.object({
 
 export const updateBuildingSchema = createBuildingSchema.partial().omit({ organizationId: true });
 
+// Unit validation schemas
+export const createUnitSchema = z.object({
+  buildingId: z.string().uuid('Invalid building ID'),
+  unitNumber: z.string().min(1, 'Unit number is required').max(20),
+  type: z.enum(UNIT_TYPES).default('apartment'),
+  floor: z.number().int().min(-5).max(200).optional(),
+  livingArea: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid living area').optional(),
+  rooms: z.string().regex(/^\d{1,2}(\.[05])?$/, 'Rooms are counted in halves').optional(),
+  features: z.array(z.string().min(1).max(50)).max(30).default([]),
+  description: z.string().max(1000).optional(),
+});
+
+export const updateUnitSchema = createUnitSchema.partial().omit({ buildingId: true });
+
 // Contract validation schemas
 export const createContractSchema = z.object({
   organizationId: z.string().uuid('Invalid organization ID'),
   buildingId: z.string().uuid('Invalid building ID'),
   contractNumber: z.string().min(1, 'Contract number is required').max(50),
-  unitNumber: z.string().min(1, 'Unit number is required').max(20),
-  startDate: z.date(),
-  endDate: z.date().optional(),
+  unitId: z.string().uuid('Invalid unit ID').optional(),
+  unitNumber: z.string().min(1, 'Unit number is required').max(20).optional(), // Creates the unit if needed
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().optional(),
   rentAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid rent amount'),
   depositAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid deposit amount').optional(),
+  operatingCostAdvance: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid operating cost advance').optional(),
+  livingArea: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid living area').optional(),
+  occupants: z.number().int().min(0).max(50).optional(),
+  rentType: z.enum(RENT_TYPES).optional(),
+  indexBasePeriod: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Index base period must be in YYYY-MM format').optional(),
   contractFileUrl: z.string().url().optional(),
 }).refine((data) => {
   if (data.endDate && data.startDate > data.endDate) {
@@ -60,6 +126,12 @@ export const createContractSchema = z.object({
 }, {
   message: 'End date must be after start date',
   path: ['endDate'],
+}).refine((data) => !!data.unitId || !!data.unitNumber, {
+  message: 'Select the unit of the contract',
+  path: ['unitId'],
+}).refine((data) => data.rentType !== 'index' || !!data.indexBasePeriod, {
+  message: 'Index rents need the price index month the rent is based on',
+  path: ['indexBasePeriod'],
 });
 
 export const updateContractSchema = createContractSchema.partial().omit({ organizationId: true });
@@ -93,7 +165,7 @@ export const createTicketSchema = z.object({
   category: z.enum(['maintenance', 'repair', 'cleaning', 'utilities', 'security', 'other']).default('maintenance'),
   estimatedCost: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid estimated cost').optional(),
   actualCost: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid actual cost').optional(),
-  dueDate: z.date().optional(),
+  dueDate: z.coerce.date().optional(),
 });
 
 export const updateTicketSchema = createTicketSchema.partial().omit({ organizationId: true, createdById: true });
@@ -108,7 +180,7 @@ export const createConsumptionRecordSchema = z.object({
   unit: z.string().min(1, 'Unit is required').max(20),
   cost: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid cost').optional(),
   meterNumber: z.string().max(50).optional(),
-  readingDate: z.date(),
+  readingDate: z.coerce.date(),
 }).refine((data) => {
   // Validate period is not in the future
   const [year, month] = data.period.split('-').map(Number);
@@ -126,6 +198,96 @@ export const updateConsumptionRecordSchema = createConsumptionRecordSchema.parti
 
 export const bulkConsumptionRecordSchema = z.array(createConsumptionRecordSchema).min(1, 'At least one record is required').max(1000, 'Maximum 1000 records allowed');
 
+// A single record or an array of records for bulk entry
+export const consumptionBodySchema = z.union([createConsumptionRecordSchema, bulkConsumptionRecordSchema]);
+
+// Meter validation schemas
+const meterValueSchema = z.string().regex(/^\d+(\.\d{1,3})?$/, 'Invalid meter value');
+
+export const createMeterSchema = z.object({
+  buildingId: z.string().uuid('Invalid building ID'),
+  unitId: z.string().uuid('Invalid unit ID').optional(), // Omitted for meters of the whole building
+  meterNumber: z.string().min(1, 'Meter number is required').max(50),
+  consumptionType: z.enum(CONSUMPTION_TYPES),
+  unit: z.string().min(1, 'Unit is required').max(20),
+  digits: z.number().int().min(1).max(12).optional(),
+  location: z.string().max(200).optional(),
+  installedAt: z.coerce.date(),
+  calibrationYear: z.number().int().min(1950).max(2100).optional(),
+  calibrationValidUntil: z.coerce.date().optional(), // Follows from the calibration year when omitted
+  initialReading: meterValueSchema.optional(),
+});
+
+export const updateMeterSchema = createMeterSchema
+  .omit({ buildingId: true, consumptionType: true, installedAt: true, initialReading: true })
+  .extend({
+    unitId: z.string().uuid('Invalid unit ID').nullable(),
+    digits: z.number().int().min(1).max(12).nullable(),
+    calibrationYear: z.number().int().min(1950).max(2100).nullable(),
+    calibrationValidUntil: z.coerce.date().nullable(),
+  })
+  .partial();
+
+export const createMeterReadingSchema = z.object({
+  readingDate: z.coerce.date(),
+  value: meterValueSchema,
+  note: z.string().max(500).optional(),
+});
+
+export const replaceMeterSchema = z.object({
+  replacedAt: z.coerce.date(),
+  finalReading: meterValueSchema,
+  meterNumber: z.string().min(1, 'Meter number is required').max(50),
+  initialReading: meterValueSchema.default('0'),
+  digits: z.number().int().min(1).max(12).nullable().optional(), // Kept from the old meter when omitted
+  calibrationYear: z.number().int().min(1950).max(2100).optional(),
+  calibrationValidUntil: z.coerce.date().optional(),
+});
+
+// Meter values submitted by tenants, with the photo as base64
+export const createMeterSubmissionSchema = z.object({
+  meterId: z.string().uuid('Invalid meter ID'),
+  readingDate: z.coerce.date(),
+  value: meterValueSchema,
+  note: z.string().max(500).optional(),
+  photo: z.object({
+    fileName: z.string().min(1, 'File name is required').max(255),
+    mimeType: z.string().regex(/^image\/[\w.+-]+$/, 'The photo must be an image'),
+    content: z.string().min(1, 'Photo is required').max(14 * 1024 * 1024, 'Photo cannot exceed 10MB'),
+  }),
+});
+
+export const approveMeterSubmissionSchema = z.object({
+  value: meterValueSchema.optional(), // Corrected value, when the photo shows a different one
+});
+
+export const rejectMeterSubmissionSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(500),
+});
+
+// Consumption anomaly validation schemas
+export const detectConsumptionAnomaliesSchema = z.object({
+  contractId: z.string().uuid('Invalid contract ID').optional(),
+  since: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be in YYYY-MM format').optional(),
+});
+
+export const updateConsumptionAnomalySchema = z.object({
+  status: z.enum(CONSUMPTION_ANOMALY_STATUSES),
+});
+
+// Consumption import: CSV and vendor files as text, XLSX as base64
+export const importConsumptionSchema = z.object({
+  fileName: z.string().max(255).optional(),
+  content: z.string().min(1, 'File content is required').max(14 * 1024 * 1024, 'File cannot exceed 10MB'),
+  encoding: z.enum(['text', 'base64']).default('text'),
+  format: z.enum(IMPORT_FORMATS).optional(),
+  mapping: z.partialRecord(z.enum(IMPORT_FIELDS), z.string().min(1).max(100)).optional(),
+  buildingId: z.string().uuid('Invalid building ID').optional(),
+  consumptionType: z.enum(CONSUMPTION_TYPES).optional(),
+  unit: z.string().min(1).max(20).optional(),
+  dryRun: z.boolean().default(true),
+});
+
 // Document validation schemas
 export const createDocumentSchema = z.object({
   organizationId: z.string().uuid('Invalid organization ID'),
@@ -163,7 +325,340 @@ export const createInvitationSchema = z.object({
   path: ['percentage'],
 });
 
-// File upload validation
+export const extendInvitationSchema = z.object({
+  days: z.number().int().min(1).max(30).default(7),
+});
+
+// One row of a bulk invitation CSV; the contract is resolved by unit or contract number
+export const bulkInvitationRowSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  unitNumber: z.string().max(20).optional(),
+  contractNumber: z.string().max(50).optional(),
+  tenantName: z.string().max(100).optional(),
+  percentage: z.string().regex(/^\d{1,3}(\.\d{1,2})?$/, 'Invalid percentage').default('100.00'),
+  isMainTenant: z.boolean().default(false),
+}).refine((data) => !!data.unitNumber || !!data.contractNumber, {
+  message: 'Either unit number or contract number is required',
+  path: ['unitNumber'],
+});
+
+export const bulkInvitationSchema = z.object({
+  buildingId: z.string().uuid('Invalid building ID'),
+  csv: z.string().min(1, 'CSV content is required').max(1024 * 1024, 'CSV cannot exceed 1MB'),
+  expiresInDays: z.number().int().min(1).max(30).default(7),
+});
+
+export const acceptInvitationSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  password: passwordSchema,
+});
+
+// API key validation schemas
+export const createApiKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  permissions: z.array(z.enum(API_KEY_PERMISSIONS)).min(1, 'At least one permission is required'),
+  expiresInDays: z.number().int().min(1).max(730).optional(), // Never expires when omitted
+});
+
+export const rotateApiKeySchema = z.object({
+  gracePeriodHours: z.number().int().min(0).max(168).default(0),
+  expiresInDays: z.number().int().min(1).max(730).optional(),
+});
+
+// Webhook validation schemas
+export const createWebhookSchema = z.object({
+  url: z.string().url('Invalid URL').max(2000).superRefine((url, ctx) => {
+    const problem = getWebhookUrlProblem(url);
+    if (problem) ctx.addIssue({ code: 'custom', message: problem });
+  }),
+  description: z.string().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'At least one event is required'),
+  isActive: z.boolean().default(true),
+});
+
+export const updateWebhookSchema = createWebhookSchema.partial();
+
+// Rent ledger validation schemas
+const periodSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be in YYYY-MM format');
+
+export const createLedgerEntrySchema = z.object({
+  contractId: z.string().uuid('Invalid contract ID'),
+  tenantId: z.string().uuid('Invalid tenant ID').optional(),
+  entryType: z.enum(['charge', 'payment', 'credit']),
+  category: z.enum(LEDGER_CATEGORIES).default('rent'),
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid amount').refine(
+    (amount) => parseFloat(amount) > 0,
+    'Amount must be greater than zero'
+  ),
+  period: periodSchema.optional(),
+  dueDate: z.coerce.date().optional(),
+  bookingDate: z.coerce.date().optional(),
+  paymentMethod: z.enum(['bank_transfer', 'sepa_direct_debit', 'cash', 'other']).optional(),
+  reference: z.string().max(140).optional(),
+  description: z.string().max(500).optional(),
+});
+
+export const generateRentChargesSchema = z.object({
+  period: periodSchema,
+});
+
+// Bank statement validation schemas
+export const importBankStatementSchema = z.object({
+  fileName: z.string().max(255).optional(),
+  content: z.string().min(1, 'Statement content is required').max(5 * 1024 * 1024, 'Statement cannot exceed 5MB'),
+});
+
+export const assignBankTransactionSchema = z.object({
+  contractId: z.string().uuid('Invalid contract ID'),
+  tenantId: z.string().uuid('Invalid tenant ID').optional(),
+});
+
+export const ignoreBankTransactionSchema = z.object({
+  ignored: z.boolean().default(true),
+});
+
+// SEPA direct debit validation schemas
+const ibanSchema = z.string().refine(isValidIban, 'Invalid IBAN');
+const bicSchema = z.string().refine(isValidBic, 'Invalid BIC');
+
+export const sepaSettingsSchema = z.object({
+  sepaCreditorId: z.string().refine(isValidCreditorId, 'Invalid SEPA creditor ID').nullable().optional(),
+  bankAccountHolder: z.string().min(1).max(70).nullable().optional(),
+  bankIban: ibanSchema.nullable().optional(),
+  bankBic: bicSchema.nullable().optional(),
+});
+
+const datevAccountSchema = z.string().regex(/^\d{4,8}$/, 'Accounts are 4 to 8 digits');
+
+export const datevSettingsSchema = z.object({
+  datevConsultantNumber: z.string().regex(/^\d{4,7}$/, 'Consultant number must be 4 to 7 digits').nullable().optional(),
+  datevClientNumber: z.string().regex(/^\d{1,5}$/, 'Client number must be 1 to 5 digits').nullable().optional(),
+  datevChartOfAccounts: z.enum(['SKR03', 'SKR04']).optional(),
+  datevFiscalYearStart: z.number().int().min(1).max(12).optional(), // Month
+  // Null resets an account to the default of the chart of accounts
+  datevAccounts: z.partialRecord(z.enum(DATEV_ACCOUNT_KEYS), datevAccountSchema.nullable()).optional(),
+});
+
+export const datevExportSchema = z.object({
+  startPeriod: periodSchema,
+  endPeriod: periodSchema,
+});
+
+export const createSepaMandateSchema = z.object({
+  contractId: z.string().uuid('Invalid contract ID'),
+  tenantId: z.string().uuid('Invalid tenant ID'),
+  // Generated from the contract number when omitted
+  mandateReference: z.string().regex(/^[A-Za-z0-9+?/\-:().,' ]{1,35}$/, 'Mandate reference must be 1-35 SEPA characters').optional(),
+  debtorName: z.string().min(1, 'Account holder is required').max(70),
+  iban: ibanSchema,
+  bic: bicSchema.optional(),
+  signatureDate: z.coerce.date().refine(
+    (date) => date <= new Date(),
+    'Signature date cannot be in the future'
+  ),
+});
+
+export const updateSepaMandateSchema = z.object({
+  debtorName: z.string().min(1).max(70).optional(),
+  iban: ibanSchema.optional(),
+  bic: bicSchema.nullable().optional(),
+});
+
+export const generateDirectDebitBatchSchema = z.object({
+  period: periodSchema,
+  collectionDate: z.coerce.date().optional(), // Defaults to the rent due date of the period
+});
+
+// Operating cost settlement validation schemas
+const settlementHeatingFields = {
+  // Share of heating costs split by consumption (§ 7 HeizkostenV)
+  heatingConsumptionShare: z.number().int().min(50, 'At least 50% must be split by consumption').max(70, 'At most 70% may be split by consumption').optional(),
+  co2Emissions: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid CO2 emissions').nullable().optional(), // kg
+  co2Costs: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid CO2 costs').nullable().optional(),
+};
+
+export const createOperatingCostSettlementSchema = z.object({
+  buildingId: z.string().uuid('Invalid building ID'),
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(), // Last day of the period
+  ...settlementHeatingFields,
+}).refine((data) => data.periodStart <= data.periodEnd, {
+  message: 'Period end must be after period start',
+  path: ['periodEnd'],
+}).refine((data) => {
+  // The settlement period may not exceed twelve months (§ 556 Abs. 3 BGB)
+  const limit = new Date(data.periodStart);
+  limit.setUTCFullYear(limit.getUTCFullYear() + 1);
+  return data.periodEnd < limit;
+}, {
+  message: 'The settlement period cannot exceed twelve months',
+  path: ['periodEnd'],
+});
+
+export const updateOperatingCostSettlementSchema = z.object(settlementHeatingFields);
+
+const operatingCostItemSchema = z.object({
+  category: z.enum(OPERATING_COST_CATEGORIES),
+  description: z.string().max(100).optional(),
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid amount').refine(
+    (amount) => parseFloat(amount) > 0,
+    'Amount must be greater than zero'
+  ),
+  allocationKey: z.enum(ALLOCATION_KEYS),
+  consumptionType: z.enum(['electricity', 'gas', 'water', 'heating', 'internet', 'other']).nullable().optional(),
+});
+
+export const createOperatingCostItemSchema = operatingCostItemSchema.refine(
+  (data) => (data.allocationKey !== 'consumption' && data.allocationKey !== 'heating') || !!data.consumptionType,
+  { message: 'Costs split by consumption need a consumption type', path: ['consumptionType'] }
+);
+
+export const updateOperatingCostItemSchema = operatingCostItemSchema.partial();
+
+// Rent adjustment validation schemas
+const newRentSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid rent amount').refine(
+  (amount) => parseFloat(amount) > 0,
+  'Rent must be greater than zero'
+);
+
+export const createRentAdjustmentSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('graduated'),
+    contractId: z.string().uuid('Invalid contract ID'),
+    steps: z.array(z.object({
+      effectiveDate: z.coerce.date(), // First day of a month
+      newRent: newRentSchema,
+    })).min(1, 'At least one step is required').max(30),
+  }),
+  z.object({
+    type: z.literal('index'),
+    contractId: z.string().uuid('Invalid contract ID'),
+    noticeDate: z.coerce.date().optional(), // Defaults to today
+  }),
+  z.object({
+    type: z.literal('manual'),
+    contractId: z.string().uuid('Invalid contract ID'),
+    newRent: newRentSchema,
+    effectiveDate: z.coerce.date().optional(), // Defaults to the earliest date the notice allows
+    noticeDate: z.coerce.date().optional(), // Defaults to today
+    reason: z.string().max(2000).optional(),
+  }),
+]);
+
+export const savePriceIndexValuesSchema = z.object({
+  values: z.array(z.object({
+    period: periodSchema,
+    value: z.string().regex(/^\d{1,4}(\.\d)?$/, 'Invalid index value'),
+  })).min(1, 'At least one value is required').max(600),
+});
+
+// Security deposit validation schemas
+const depositAmountSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid amount').refine(
+  (amount) => parseFloat(amount) > 0,
+  'Amount must be greater than zero'
+);
+
+const depositAccountSchema = z.object({
+  agreedAmount: depositAmountSchema.optional(), // Defaults to the deposit of the contract
+  bankName: z.string().max(100).optional(),
+  iban: ibanSchema.optional(),
+  accountHolder: z.string().max(70).optional(),
+  interestRate: z.string().regex(/^\d{1,2}(\.\d{1,3})?$/, 'Invalid interest rate').optional(), // Percent per year
+  openedAt: z.coerce.date().optional(), // Defaults to today
+});
+
+export const createDepositAccountSchema = depositAccountSchema.extend({
+  contractId: z.string().uuid('Invalid contract ID'),
+});
+
+export const updateDepositAccountSchema = depositAccountSchema.partial();
+
+export const createDepositTransactionSchema = z.object({
+  // Interest and the payout are booked by the system
+  type: z.enum(['installment', 'withholding']),
+  amount: depositAmountSchema,
+  bookingDate: z.coerce.date(),
+  description: z.string().max(500).optional(),
+  ticketId: z.string().uuid('Invalid ticket ID').optional(), // Damage a withholding covers
+});
+
+export const depositSettlementSchema = z.object({
+  settlementDate: z.coerce.date(), // Interest accrues until this day
+});
+
+// Dunning validation schemas
+export const saveDunningLevelsSchema = z.object({
+  levels: z.array(z.object({
+    level: z.number().int().min(1),
+    name: z.string().min(1, 'Name is required').max(100),
+    graceDays: z.number().int().min(0).max(365),
+    fee: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Invalid fee'),
+    paymentTermDays: z.number().int().min(1).max(90),
+  })).min(1, 'At least one level is required').max(10),
+}).refine(
+  (data) => data.levels.every((level, index) => level.level === index + 1),
+  { message: 'Levels must be numbered 1, 2, 3, ... in order', path: ['levels'] }
+);
+
+export const issueDunningNoticesSchema = z.object({
+  contractIds: z.array(z.string().uuid()).min(1).optional(), // All due reminders when omitted
+});
+
+export const pauseDunningSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(500),
+  until: z.coerce.date().optional(), // Paused until resumed when omitted
+});
+
+// Vendor and vendor invoice validation schemas
+export const createVendorSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200),
+  email: z.string().email('Invalid email address').optional(),
+  phone: z.string().max(50).optional(),
+  address: z.string().max(200).optional(),
+  postalCode: z.string().max(10).optional(),
+  city: z.string().max(100).optional(),
+  iban: ibanSchema.optional(),
+  vatId: z.string().max(20).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const updateVendorSchema = createVendorSchema.partial();
+
+const invoiceAmountSchema = z.string().regex(/^-?\d+(\.\d{1,2})?$/, 'Invalid amount'); // Negative for credit notes
+
+const vendorInvoiceSchema = z.object({
+  vendorId: z.string().uuid('Invalid vendor ID'),
+  buildingId: z.string().uuid('Invalid building ID'),
+  ticketId: z.string().uuid('Invalid ticket ID').nullable().optional(),
+  documentId: z.string().uuid('Invalid document ID').nullable().optional(), // The invoice PDF
+  invoiceNumber: z.string().min(1, 'Invoice number is required').max(100),
+  invoiceDate: z.coerce.date(),
+  dueDate: z.coerce.date().nullable().optional(),
+  description: z.string().max(1000).nullable().optional(),
+  netAmount: invoiceAmountSchema,
+  vatRate: z.string().regex(/^\d{1,2}(\.\d{1,2})?$/, 'Invalid VAT rate').optional(), // Percent, defaults to 19
+  vatAmount: invoiceAmountSchema.optional(), // Calculated from the rate when omitted
+  costCategory: z.enum(COST_CATEGORIES),
+  operatingCostCategory: z.enum(OPERATING_COST_CATEGORIES).nullable().optional(),
+});
+
+export const createVendorInvoiceSchema = vendorInvoiceSchema.refine(
+  (data) => data.costCategory !== 'operating_costs' || !!data.operatingCostCategory,
+  { message: 'Operating costs need a settlement category', path: ['operatingCostCategory'] }
+);
+
+export const updateVendorInvoiceSchema = vendorInvoiceSchema.partial();
+
+export const rejectVendorInvoiceSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(500),
+});
+
+export const payVendorInvoiceSchema = z.object({
+  paidAt: z.coerce.date().optional(), // Defaults to now
+  paymentReference: z.string().max(140).optional(),
+});
+
+
 export const fileUploadSchema = z.object({
   file: z.object({
     name: z.string().min(1, 'File name is required'),
@@ -180,8 +675,8 @@ export const fileUploadSchema = z.object({
 
 // Search and pagination schemas
 export const paginationSchema = z.object({
-  page: z.number().int().min(1).default(1),
-  limit: z.number().int().min(1).max(100).default(20),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
   sortBy: z.string().optional(),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
@@ -192,6 +687,18 @@ export const searchSchema = z.object({
 });
 
 // Dashboard filters
+export const contractFiltersSchema = z.object({
+  buildingId: z.string().uuid().optional(),
+  isActive: z.union([z.boolean(), z.stringbool()]).optional(),
+  ...paginationSchema.shape,
+});
+
+export const userFiltersSchema = z.object({
+  role: z.enum(['landlord_admin', 'tenant']).optional(),
+  isActive: z.union([z.boolean(), z.stringbool()]).optional(),
+  ...paginationSchema.shape,
+});
+
 export const ticketFiltersSchema = z.object({
   status: z.enum(['open', 'in_progress', 'waiting_for_tenant', 'resolved', 'closed']).optional(),
   priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
@@ -225,11 +732,183 @@ export const documentFiltersSchema = z.object({
   buildingId: z.string().uuid().optional(),
   contractId: z.string().uuid().optional(),
   ticketId: z.string().uuid().optional(),
-  isPublic: z.boolean().optional(),
+  isPublic: z.union([z.boolean(), z.stringbool()]).optional(), // Also accepts "true"/"false" from query strings
   uploadedById: z.string().uuid().optional(),
   ...paginationSchema.shape,
 });
 
+export const apiKeyFiltersSchema = z.object({
+  includeRevoked: z.union([z.boolean(), z.stringbool()]).optional(),
+});
+
+export const webhookDeliveryFiltersSchema = z.object({
+  status: z.enum(['pending', 'delivering', 'delivered', 'failed']).optional(),
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+  ...paginationSchema.shape,
+});
+
+const auditEventQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().uuid().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actorType: z.enum(['user', 'api_key', 'system']).optional(),
+  actorId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const auditEventFiltersSchema = auditEventQuerySchema.extend(paginationSchema.shape).refine((data) => {
+  if (data.from && data.to) {
+    return data.from <= data.to;
+  }
+  return true;
+}, {
+  message: 'From must be before or equal to to',
+  path: ['to'],
+});
+
+export const auditEventExportSchema = auditEventQuerySchema.extend({
+  format: z.enum(['csv', 'json']).default('csv'),
+}).refine((data) => {
+  if (data.from && data.to) {
+    return data.from <= data.to;
+  }
+  return true;
+}, {
+  message: 'From must be before or equal to to',
+  path: ['to'],
+});
+
+export const ledgerFiltersSchema = z.object({
+  contractId: z.string().uuid().optional(),
+  tenantId: z.string().uuid().optional(),
+  entryType: z.enum(['charge', 'payment', 'credit']).optional(),
+  category: z.enum(LEDGER_CATEGORIES).optional(),
+  period: periodSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  ...paginationSchema.shape,
+}).refine((data) => {
+  if (data.from && data.to) {
+    return data.from <= data.to;
+  }
+  return true;
+}, {
+  message: 'From must be before or equal to to',
+  path: ['to'],
+});
+
+export const arrearsFiltersSchema = z.object({
+  asOf: z.coerce.date().optional(), // Defaults to now
+});
+
+export const bankTransactionFiltersSchema = z.object({
+  status: z.enum(['unmatched', 'matched', 'ignored']).optional(),
+  statementId: z.string().uuid().optional(),
+  ...paginationSchema.shape,
+});
+
+export const sepaMandateFiltersSchema = z.object({
+  contractId: z.string().uuid().optional(),
+  tenantId: z.string().uuid().optional(),
+  status: z.enum(['active', 'revoked']).optional(),
+  ...paginationSchema.shape,
+});
+
+export const operatingCostSettlementFiltersSchema = z.object({
+  buildingId: z.string().uuid().optional(),
+  status: z.enum(['draft', 'finalized']).optional(),
+  ...paginationSchema.shape,
+});
+
+export const operatingCostStatementFiltersSchema = z.object({
+  contractId: z.string().uuid().optional(),
+  ...paginationSchema.shape,
+});
+
+export const rentAdjustmentFiltersSchema = z.object({
+  contractId: z.string().uuid().optional(),
+  type: z.enum(RENT_ADJUSTMENT_TYPES).optional(),
+  status: z.enum(['scheduled', 'applied', 'cancelled']).optional(),
+  dueBefore: z.coerce.date().optional(),
+  ...paginationSchema.shape,
+});
+
+export const indexProposalFiltersSchema = z.object({
+  noticeDate: z.coerce.date().optional(), // Defaults to today
+});
+
+export const depositFiltersSchema = z.object({
+  status: z.enum(['held', 'settled']).optional(),
+  ...paginationSchema.shape,
+});
+
+export const dunningNoticeFiltersSchema = z.object({
+  contractId: z.string().uuid().optional(),
+  level: z.coerce.number().int().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  ...paginationSchema.shape,
+});
+
+export const unitFiltersSchema = z.object({
+  buildingId: z.string().uuid().optional(),
+  type: z.enum(UNIT_TYPES).optional(),
+  status: z.enum(['occupied', 'vacant']).optional(),
+  asOf: z.coerce.date().optional(),
+  ...paginationSchema.shape,
+});
+
+export const meterFiltersSchema = z.object({
+  buildingId: z.string().uuid().optional(),
+  unitId: z.string().uuid().optional(),
+  consumptionType: z.enum(CONSUMPTION_TYPES).optional(),
+  active: z.union([z.boolean(), z.stringbool()]).optional(),
+  calibrationDueBefore: z.coerce.date().optional(),
+  search: z.string().max(100).optional(),
+  ...paginationSchema.shape,
+});
+
+export const meterSubmissionFiltersSchema = z.object({
+  status: z.enum(METER_READING_SUBMISSION_STATUSES).optional(),
+  meterId: z.string().uuid().optional(),
+  ...paginationSchema.shape,
+});
+
+export const consumptionAnomalyFiltersSchema = z.object({
+  status: z.enum(CONSUMPTION_ANOMALY_STATUSES).optional(),
+  type: z.enum(CONSUMPTION_ANOMALY_TYPES).optional(),
+  consumptionType: z.enum(CONSUMPTION_TYPES).optional(),
+  contractId: z.string().uuid().optional(),
+  ...paginationSchema.shape,
+});
+
+export const vendorFiltersSchema = z.object({
+  search: z.string().max(100).optional(),
+  isActive: z.union([z.boolean(), z.stringbool()]).optional(),
+  ...paginationSchema.shape,
+});
+
+export const vendorInvoiceFiltersSchema = z.object({
+  status: z.enum(VENDOR_INVOICE_STATUSES).optional(),
+  vendorId: z.string().uuid().optional(),
+  buildingId: z.string().uuid().optional(),
+  ticketId: z.string().uuid().optional(),
+  costCategory: z.enum(COST_CATEGORIES).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  overdue: z.union([z.boolean(), z.stringbool()]).optional(),
+  ...paginationSchema.shape,
+});
+
+export const invitationFiltersSchema = z.object({
+  status: z.enum(['pending', 'used', 'expired', 'revoked']).optional(),
+  contractId: z.string().uuid().optional(),
+  buildingId: z.string().uuid().optional(),
+  email: z.string().optional(),
+  ...paginationSchema.shape,
+});
+
 // Utility functions for validation
 export const validatePaginationParams = (params: any) => {
   const result = paginationSchema.safeParse(params);
@@ -252,8 +931,8 @@ export const uuidSchema = z.string().uuid('Invalid UUID format');
 
 // Validation helper for checking date ranges
 export const dateRangeSchema = z.object({
-  startDate: z.date().optional(),
-  endDate: z.date().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
 }).refine((data) => {
   if (data.startDate && data.endDate) {
     return data.startDate <= data.endDate;
@@ -294,10 +973,14 @@ export const validateRequestBody = <T>(schema: z.ZodSchema<T>) => {
   return (data: unknown): T => {
     const result = schema.safeParse(data);
     if (!result.success) {
-      const errorMessages = result.error.errors.map(err => 
+      const errorMessages = result.error.issues.map(err => 
         `${err.path.join('.')}: ${err.message}`
       );
-      throw new Error(`Validation failed: ${errorMessages.join(', ')}`);
+      throw new ValidationError(
+        `Validation failed: ${errorMessages.join(', ')}`,
+        result.error.issues[0]?.path.join('.'),
+        errorMessages
+      );
     }
     return result.data;
   };
@@ -0,0 +1,165 @@
+// src/lib/deposits/index.ts
+// Deposit arithmetic: the balance held for a contract and the interest it earns.
+// Interest accrues daily on the balance at the account's rate and is credited at the
+// end of each year, from then on earning interest itself (§ 551 Abs. 3 BGB).
+
+import type { DepositTransaction } from '../db/schema';
+import { toCents, fromCents } from '../ledger';
+
+// The deposit may not exceed three monthly rents (§ 551 Abs. 1 BGB)
+export const MAX_DEPOSIT_MONTHLY_RENTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DepositMovement = Pick<DepositTransaction, 'type' | 'amount' | 'bookingDate'>;
+
+export interface DepositTotals {
+  installmentsCents: number;
+  interestCents: number;
+  withholdingsCents: number;
+  payoutCents: number;
+  balanceCents: number;
+}
+
+const startOfDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+// Installments and interest add to the deposit, withholdings and the payout take from it
+const signedCents = (movement: DepositMovement) =>
+  (movement.type === 'installment' || movement.type === 'interest' ? 1 : -1) * toCents(movement.amount);
+
+/**
+ * Sum the movements of a deposit by type
+ */
+export function getDepositTotals(movements: DepositMovement[]): DepositTotals {
+  const sumOf = (type: DepositMovement['type']) =>
+    movements.filter(movement => movement.type === type).reduce((total, movement) => total + toCents(movement.amount), 0);
+
+  const totals = {
+    installmentsCents: sumOf('installment'),
+    interestCents: sumOf('interest'),
+    withholdingsCents: sumOf('withholding'),
+    payoutCents: sumOf('payout'),
+  };
+
+  return {
+    ...totals,
+    balanceCents: totals.installmentsCents + totals.interestCents - totals.withholdingsCents - totals.payoutCents,
+  };
+}
+
+/**
+ * Interest in cents earned on the balance from one day up to (excluding) another,
+ * at a yearly rate in percent. Days are counted exactly, against the days of each year.
+ */
+export function calculateDepositInterest(
+  movements: DepositMovement[],
+  ratePercent: number,
+  from: Date,
+  to: Date
+): number {
+  let day = startOfDay(from);
+  const end = startOfDay(to);
+  const sorted = [...movements].sort((a, b) => a.bookingDate.getTime() - b.bookingDate.getTime());
+
+  // Movements count from the day they are booked
+  let balance = sorted
+    .filter(movement => startOfDay(movement.bookingDate) <= day)
+    .reduce((total, movement) => total + signedCents(movement), 0);
+  let interest = 0;
+
+  while (day < end) {
+    const year = new Date(day).getUTCFullYear();
+    const daysInYear = (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS;
+    const next = Math.min(
+      end,
+      Date.UTC(year + 1, 0, 1),
+      ...sorted.map(movement => startOfDay(movement.bookingDate)).filter(date => date > day)
+    );
+
+    interest += (balance * (ratePercent / 100) * ((next - day) / DAY_MS)) / daysInYear;
+    balance += sorted
+      .filter(movement => startOfDay(movement.bookingDate) === next)
+      .reduce((total, movement) => total + signedCents(movement), 0);
+    day = next;
+  }
+
+  return Math.round(interest);
+}
+
+/**
+ * Interest of the completed years not credited yet, one posting per year on
+ * 31 December. Each posting counts towards the balance of the following years.
+ */
+export function getOutstandingYearlyInterest(
+  movements: DepositMovement[],
+  ratePercent: number,
+  asOf: Date
+): Array<{ bookingDate: Date; cents: number }> {
+  const installments = movements.filter(movement => movement.type === 'installment');
+  if (installments.length === 0 || ratePercent <= 0) return [];
+
+  const firstYear = Math.min(...installments.map(movement => movement.bookingDate.getUTCFullYear()));
+  const postings: Array<{ bookingDate: Date; cents: number }> = [];
+  const all = [...movements];
+
+  for (let year = firstYear; Date.UTC(year + 1, 0, 1) <= startOfDay(asOf); year++) {
+    const bookingDate = new Date(Date.UTC(year, 11, 31));
+    const credited = all.some(movement => movement.type === 'interest' && startOfDay(movement.bookingDate) === bookingDate.getTime());
+    if (credited) continue;
+
+    const cents = calculateDepositInterest(all, ratePercent, new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year + 1, 0, 1)));
+    if (cents <= 0) continue;
+
+    postings.push({ bookingDate, cents });
+    all.push({ type: 'interest', amount: fromCents(cents), bookingDate });
+  }
+
+  return postings;
+}
+
+export interface DepositSettlementFigures {
+  // Interest still to be credited: the open years and the final part up to the settlement date
+  interestPostings: Array<{ bookingDate: Date; cents: number }>;
+  installmentsCents: number;
+  interestCents: number;
+  withholdingsCents: number;
+  offsetClaimsCents: number;
+  payoutCents: number;
+}
+
+/**
+ * Settle a deposit: credit the interest up to and including the settlement date, offset
+ * open claims of the tenancy against what is left after the withholdings and pay out the rest
+ */
+export function calculateDepositSettlement(
+  movements: DepositMovement[],
+  ratePercent: number,
+  settlementDate: Date,
+  openClaimsCents: number
+): DepositSettlementFigures {
+  const interestPostings = getOutstandingYearlyInterest(movements, ratePercent, settlementDate);
+  const booked = [
+    ...movements,
+    ...interestPostings.map(posting => ({ type: 'interest' as const, amount: fromCents(posting.cents), bookingDate: posting.bookingDate })),
+  ];
+
+  const yearStart = new Date(Date.UTC(settlementDate.getUTCFullYear(), 0, 1));
+  const dayAfter = new Date(startOfDay(settlementDate) + DAY_MS);
+  const finalCents = ratePercent > 0 ? calculateDepositInterest(booked, ratePercent, yearStart, dayAfter) : 0;
+  if (finalCents > 0) {
+    interestPostings.push({ bookingDate: settlementDate, cents: finalCents });
+  }
+
+  const totals = getDepositTotals(booked);
+  const balanceCents = totals.balanceCents + finalCents;
+  const offsetClaimsCents = Math.min(Math.max(openClaimsCents, 0), Math.max(balanceCents, 0));
+
+  return {
+    interestPostings,
+    installmentsCents: totals.installmentsCents,
+    interestCents: totals.interestCents + finalCents,
+    withholdingsCents: totals.withholdingsCents,
+    offsetClaimsCents,
+    payoutCents: Math.max(balanceCents - offsetClaimsCents, 0),
+  };
+}
@@ -0,0 +1,119 @@
+// src/lib/deposits/statement-pdf.ts
+// Renders the deposit settlement (Kautionsabrechnung) as a PDF letter to the tenants.
+
+import type { Building, Contract, DepositAccount, DepositSettlement, DepositTransaction, Organization } from '../db/schema';
+import { PdfDocument, PAGE_WIDTH } from '../pdf';
+
+export interface DepositStatementPdfOptions {
+  landlord: Pick<Organization, 'name' | 'address' | 'postalCode' | 'city'>;
+  tenantNames: string[];
+  building: Pick<Building, 'name' | 'address' | 'postalCode' | 'city'>;
+  contract: Pick<Contract, 'contractNumber' | 'unitNumber' | 'startDate' | 'endDate'>;
+  account: Pick<DepositAccount, 'agreedAmount' | 'interestRate'>;
+  settlement: Pick<
+    DepositSettlement,
+    'settlementDate' | 'installments' | 'interest' | 'withholdings' | 'offsetClaims' | 'payout' | 'finalizedAt'
+  >;
+  withholdings: Array<Pick<DepositTransaction, 'amount' | 'bookingDate' | 'description'>>;
+}
+
+const LEFT = 56;
+const RIGHT = PAGE_WIDTH - 56;
+const PAGE_BOTTOM = 770;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('de-DE', { timeZone: 'UTC', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(amount);
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+/**
+ * Build the settlement document
+ */
+export function renderDepositStatementPdf(options: DepositStatementPdfOptions): Buffer {
+  const { landlord, tenantNames, building, contract, account, settlement } = options;
+  const pdf = new PdfDocument();
+  let y = 60;
+
+  const sender = [landlord.name, landlord.address, [landlord.postalCode, landlord.city].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(' · ');
+  pdf.text(LEFT, y, sender, { size: 8 });
+  pdf.text(RIGHT, 100, formatDate(settlement.finalizedAt || new Date()), { align: 'right' });
+
+  y = 100;
+  for (const line of [...tenantNames, building.address, `${building.postalCode} ${building.city}`]) {
+    pdf.text(LEFT, y, line);
+    y += 14;
+  }
+
+  y = 210;
+  pdf.text(LEFT, y, 'Abrechnung der Mietkaution', { size: 14, bold: true });
+  y += 24;
+  pdf.text(LEFT, y, `Objekt: ${building.name}, ${building.address}, Wohnung ${contract.unitNumber}`);
+  y += 14;
+  pdf.text(LEFT, y, `Mietvertrag: ${contract.contractNumber}`);
+  y += 14;
+  pdf.text(
+    LEFT, y,
+    `Mietzeit: ${formatDate(contract.startDate)} – ${contract.endDate ? formatDate(contract.endDate) : 'offen'}`
+  );
+  y += 14;
+  pdf.text(LEFT, y, `Vereinbarte Kaution: ${formatMoney(Number(account.agreedAmount))}`);
+  y += 28;
+
+  const row = (label: string, amount: number, bold = false) => {
+    pdf.text(LEFT, y, label, { bold });
+    pdf.text(RIGHT, y, formatMoney(amount), { bold, align: 'right' });
+    y += 16;
+  };
+
+  row('Geleistete Kautionszahlungen', Number(settlement.installments));
+  row(
+    `Zinsen bis ${formatDate(settlement.settlementDate)} (${Number(account.interestRate).toLocaleString('de-DE')} % p. a.)`,
+    Number(settlement.interest)
+  );
+
+  if (options.withholdings.length > 0) {
+    y += 6;
+    pdf.text(LEFT, y, 'Einbehalte', { bold: true });
+    y += 16;
+    for (const withholding of options.withholdings) {
+      if (y > PAGE_BOTTOM - 100) {
+        pdf.addPage();
+        y = 60;
+      }
+      const label = `${formatDate(withholding.bookingDate)} ${withholding.description || 'Einbehalt'}`;
+      pdf.text(LEFT + 12, y, truncate(label, 80), { size: 9 });
+      pdf.text(RIGHT, y, formatMoney(-Number(withholding.amount)), { size: 9, align: 'right' });
+      y += 14;
+    }
+  }
+
+  const offsetClaims = Number(settlement.offsetClaims);
+  if (offsetClaims > 0) {
+    row('Verrechnung mit offenen Forderungen aus dem Mietkonto', -offsetClaims);
+  }
+
+  y += 2;
+  pdf.rule(380, RIGHT, y - 10);
+  y += 6;
+  row('Auszahlungsbetrag', Number(settlement.payout), true);
+  y += 24;
+
+  const notes = Number(settlement.payout) > 0
+    ? ['Den Auszahlungsbetrag überweisen wir auf das uns genannte Konto.']
+    : ['Die Kaution ist durch Einbehalte und Verrechnung vollständig verbraucht.'];
+  if (options.withholdings.length > 0) {
+    notes.push('Die Belege zu den Einbehalten können Sie nach Terminvereinbarung bei uns einsehen.');
+  }
+
+  for (const note of notes) {
+    pdf.text(LEFT, y, note, { size: 9 });
+    y += 13;
+  }
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,70 @@
+// src/lib/dunning/index.ts
+// Dunning rules: which reminder level a contract in arrears is due for. A dunning cycle
+// starts with the oldest open charge; reminders sent before it fell due belong to an
+// earlier cycle that was paid off.
+
+import type { Contract, DunningLevel, DunningNotice } from '../db/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DunningLevelSettings = Pick<DunningLevel, 'level' | 'name' | 'graceDays' | 'fee' | 'paymentTermDays'>;
+
+// Used until an organization configures its own levels. Reminder fees may only cover
+// the actual costs of the letter; the first reminder is free.
+export const DEFAULT_DUNNING_LEVELS: DunningLevelSettings[] = [
+  { level: 1, name: 'Zahlungserinnerung', graceDays: 7, fee: '0.00', paymentTermDays: 14 },
+  { level: 2, name: '1. Mahnung', graceDays: 7, fee: '2.50', paymentTermDays: 10 },
+  { level: 3, name: '2. Mahnung', graceDays: 7, fee: '2.50', paymentTermDays: 7 },
+];
+
+export interface DunningStep {
+  level: DunningLevelSettings;
+  dueOn: Date;
+}
+
+/**
+ * Whether dunning of a contract is paused on a date
+ */
+export function isDunningPaused(
+  contract: Pick<Contract, 'dunningPausedAt' | 'dunningPausedUntil'>,
+  asOf = new Date()
+): boolean {
+  if (!contract.dunningPausedAt || contract.dunningPausedAt > asOf) return false;
+  return !contract.dunningPausedUntil || contract.dunningPausedUntil > asOf;
+}
+
+/**
+ * Reminders of the current cycle, oldest first
+ */
+export function getCycleNotices<T extends Pick<DunningNotice, 'noticeDate'>>(notices: T[], oldestDueDate: Date): T[] {
+  return notices
+    .filter(notice => notice.noticeDate >= oldestDueDate)
+    .sort((a, b) => a.noticeDate.getTime() - b.noticeDate.getTime());
+}
+
+/**
+ * The next reminder of a cycle and the day it is due, or null once the last level
+ * was sent. The first level counts from the due date of the oldest open charge,
+ * later levels from the payment deadline of the previous reminder.
+ */
+export function getNextDunningStep(
+  levels: DunningLevelSettings[],
+  cycleNotices: Array<Pick<DunningNotice, 'level' | 'paymentDueDate'>>,
+  oldestDueDate: Date
+): DunningStep | null {
+  const last = cycleNotices[cycleNotices.length - 1];
+  const level = [...levels]
+    .sort((a, b) => a.level - b.level)
+    .find(candidate => candidate.level > (last?.level ?? 0));
+  if (!level) return null;
+
+  const from = last ? last.paymentDueDate : oldestDueDate;
+  return { level, dueOn: new Date(from.getTime() + level.graceDays * DAY_MS) };
+}
+
+/**
+ * Payment deadline of a reminder sent on a date
+ */
+export function getPaymentDueDate(noticeDate: Date, level: DunningLevelSettings): Date {
+  return new Date(noticeDate.getTime() + level.paymentTermDays * DAY_MS);
+}
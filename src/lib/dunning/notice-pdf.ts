@@ -0,0 +1,141 @@
+// src/lib/dunning/notice-pdf.ts
+// Renders a payment reminder (Zahlungserinnerung / Mahnung) as a PDF letter to the tenants.
+
+import type { Building, Contract, DunningNotice, LedgerCategory, Organization } from '../db/schema';
+import { PdfDocument, PAGE_WIDTH } from '../pdf';
+import { toCents } from '../ledger';
+
+export interface DunningNoticePdfOptions {
+  landlord: Pick<Organization, 'name' | 'address' | 'postalCode' | 'city' | 'bankIban'>;
+  tenantNames: string[];
+  building: Pick<Building, 'name' | 'address' | 'postalCode' | 'city'>;
+  contract: Pick<Contract, 'contractNumber' | 'unitNumber' | 'rentAmount'>;
+  notice: Pick<DunningNotice, 'level' | 'levelName' | 'noticeDate' | 'paymentDueDate' | 'lines' | 'amountDue' | 'fee'>;
+}
+
+const LEFT = 56;
+const RIGHT = PAGE_WIDTH - 56;
+const PAGE_BOTTOM = 770;
+
+const CATEGORY_LABELS: Record<LedgerCategory, string> = {
+  rent: 'Miete',
+  operating_costs: 'Betriebskosten',
+  deposit: 'Kaution',
+  fee: 'Mahngebühr',
+  other: 'Sonstiges',
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('de-DE', { timeZone: 'UTC', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(amount);
+
+const formatPeriod = (period: string | null) => (period ? `${period.slice(5, 7)}/${period.slice(0, 4)}` : '');
+
+/**
+ * Build the reminder document
+ */
+export function renderDunningNoticePdf(options: DunningNoticePdfOptions): Buffer {
+  const { landlord, tenantNames, building, contract, notice } = options;
+  const pdf = new PdfDocument();
+  const amountDue = Number(notice.amountDue);
+  const fee = Number(notice.fee);
+  let y = 60;
+
+  const sender = [landlord.name, landlord.address, [landlord.postalCode, landlord.city].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(' · ');
+  pdf.text(LEFT, y, sender, { size: 8 });
+  pdf.text(RIGHT, 100, formatDate(notice.noticeDate), { align: 'right' });
+
+  y = 100;
+  for (const line of [...tenantNames, building.address, `${building.postalCode} ${building.city}`]) {
+    pdf.text(LEFT, y, line);
+    y += 14;
+  }
+
+  y = 210;
+  pdf.text(LEFT, y, notice.levelName, { size: 14, bold: true });
+  y += 24;
+  pdf.text(LEFT, y, `Objekt: ${building.name}, ${building.address}, Wohnung ${contract.unitNumber}`);
+  y += 14;
+  pdf.text(LEFT, y, `Mietvertrag: ${contract.contractNumber}`);
+  y += 28;
+
+  const intro = notice.level === 1
+    ? [
+      'sicher haben Sie es nur übersehen: Auf Ihrem Mietkonto sind die folgenden Beträge trotz Fälligkeit',
+      'noch offen.',
+    ]
+    : [
+      'trotz unserer Erinnerung sind auf Ihrem Mietkonto die folgenden Beträge weiterhin offen. Sie befinden',
+      'sich mit der Zahlung in Verzug.',
+    ];
+  for (const line of ['Sehr geehrte Damen und Herren,', '', ...intro]) {
+    pdf.text(LEFT, y, line);
+    y += 14;
+  }
+  y += 14;
+
+  pdf.text(LEFT, y, 'Forderung', { size: 9, bold: true });
+  pdf.text(250, y, 'Zeitraum', { size: 9, bold: true });
+  pdf.text(380, y, 'Fällig am', { size: 9, bold: true });
+  pdf.text(RIGHT, y, 'Offen', { size: 9, bold: true, align: 'right' });
+  pdf.rule(LEFT, RIGHT, y + 5);
+  y += 18;
+
+  for (const line of notice.lines) {
+    if (y > PAGE_BOTTOM - 140) {
+      pdf.addPage();
+      y = 60;
+    }
+    pdf.text(LEFT, y, CATEGORY_LABELS[line.category], { size: 9 });
+    pdf.text(250, y, formatPeriod(line.period), { size: 9 });
+    pdf.text(380, y, formatDate(new Date(line.dueDate)), { size: 9 });
+    pdf.text(RIGHT, y, formatMoney(Number(line.open)), { size: 9, align: 'right' });
+    y += 14;
+  }
+
+  pdf.rule(LEFT, RIGHT, y - 6);
+  y += 8;
+  pdf.text(LEFT, y, 'Offene Forderungen');
+  pdf.text(RIGHT, y, formatMoney(amountDue), { align: 'right' });
+  y += 14;
+  if (fee > 0) {
+    pdf.text(LEFT, y, `Mahngebühr (${notice.levelName})`);
+    pdf.text(RIGHT, y, formatMoney(fee), { align: 'right' });
+    y += 6;
+    pdf.rule(380, RIGHT, y);
+    y += 14;
+  }
+  pdf.text(LEFT, y, 'Zu zahlender Betrag', { bold: true });
+  pdf.text(RIGHT, y, formatMoney(amountDue + fee), { bold: true, align: 'right' });
+  y += 32;
+
+  const notes = [
+    `Bitte überweisen Sie den Betrag bis zum ${formatDate(notice.paymentDueDate)}` +
+      (landlord.bankIban ? ` auf das Konto ${landlord.bankIban}` : ''),
+    `unter Angabe der Vertragsnummer ${contract.contractNumber}.`,
+    'Sollten Sie die Zahlung inzwischen geleistet haben, betrachten Sie dieses Schreiben bitte als gegenstandslos.',
+  ];
+  // Arrears of two monthly rents allow termination without notice (§ 543 Abs. 2 Nr. 3 BGB)
+  if (notice.level > 1 && toCents(notice.amountDue) >= 2 * toCents(contract.rentAmount)) {
+    notes.push(
+      'Wir weisen darauf hin, dass ein Rückstand in Höhe von zwei Monatsmieten zur fristlosen Kündigung',
+      'des Mietverhältnisses berechtigt (§ 543 Abs. 2 Nr. 3 BGB).'
+    );
+  }
+
+  for (const note of notes) {
+    pdf.text(LEFT, y, note, { size: 9 });
+    y += 13;
+  }
+
+  y += 20;
+  pdf.text(LEFT, y, 'Mit freundlichen Grüßen');
+  y += 14;
+  pdf.text(LEFT, y, landlord.name);
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,35 @@
+// src/lib/dunning/worker.ts
+import { db } from '../db/db';
+import { organizations } from '../db/schema';
+import { DunningService } from '../db/services/dunning';
+
+/**
+ * One worker run: issue the reminders that are due in all organizations. Meant to be
+ * triggered daily (cron, scheduled job); contracts whose next level is not due yet,
+ * paused contracts and contracts that received the last level are skipped.
+ */
+export async function runDunningWorker(asOf = new Date()) {
+  const orgs = await db.select({ id: organizations.id }).from(organizations);
+  const totals = { organizations: orgs.length, issued: 0, fees: 0 };
+
+  for (const org of orgs) {
+    const notices = await DunningService.issueNotices(org.id, { asOf });
+    totals.issued += notices.length;
+    totals.fees += notices.filter(notice => notice.feeLedgerEntryId).length;
+  }
+
+  return totals;
+}
+
+// CLI script to run the worker once
+if (require.main === module) {
+  runDunningWorker()
+    .then((totals) => {
+      console.log('Dunning worker finished:', totals);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Dunning worker failed:', error);
+      process.exit(1);
+    });
+}
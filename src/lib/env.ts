@@ -23,18 +23,20 @@ const envSchema = z.object({
   SMTP_USER: z.string().optional(),
   SMTP_PASS: z.string().optional(),
   SMTP_FROM: z.string().optional(),
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).optional(),
+  MAIL_OUTPUT_DIR: z.string().default('.mail'),
   
   // Feature Flags
-  ENABLE_EMAIL_NOTIFICATIONS: z.string().transform(val => val === 'true').default('false'),
-  ENABLE_FILE_UPLOADS: z.string().transform(val => val === 'true').default('true'),
-  ENABLE_QR_CODES: z.string().transform(val => val === 'true').default('true'),
+  ENABLE_EMAIL_NOTIFICATIONS: z.stringbool().default(false),
+  ENABLE_FILE_UPLOADS: z.stringbool().default(true),
+  ENABLE_QR_CODES: z.stringbool().default(true),
   
   // Security
   JWT_SECRET: z.string().optional(),
   
   // Multi-tenancy
   DEFAULT_ORGANIZATION_SLUG: z.string().default('demo-org'),
-  ALLOW_REGISTRATION: z.string().transform(val => val === 'true').default('false'),
+  ALLOW_REGISTRATION: z.stringbool().default(false),
 });
 
 // Validate and export environment variables
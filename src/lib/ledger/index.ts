@@ -0,0 +1,152 @@
+// src/lib/ledger/index.ts
+// Money and period arithmetic for the rent ledger. Amounts are handled in integer
+// cents so that splits and sums never drift by fractions of a cent.
+
+const PERIOD_PATTERN = /^(\d{4})-(\d{2})$/;
+
+// Rent is due by the third working day of the month (§ 556b BGB)
+const RENT_DUE_WORKING_DAY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a decimal amount such as "850.5" into cents
+ */
+export function toCents(amount: string | number | null | undefined): number {
+  return Math.round(Number(amount || 0) * 100);
+}
+
+/**
+ * Format cents as a decimal string for numeric columns
+ */
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Period (YYYY-MM) of a date, in UTC
+ */
+export function toPeriod(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * First day of the period and first day of the following period, in UTC
+ */
+export function getPeriodBounds(period: string): { start: Date; end: Date } {
+  const match = PERIOD_PATTERN.exec(period);
+  if (!match) {
+    throw new Error(`Invalid period: ${period}`);
+  }
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+
+  return {
+    start: new Date(Date.UTC(year, month, 1)),
+    end: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+/**
+ * Due date of the monthly rent: the third working day (Monday to Friday) of the period.
+ * Public holidays are not taken into account.
+ */
+export function getRentDueDate(period: string): Date {
+  const date = new Date(getPeriodBounds(period).start);
+  let workingDays = 0;
+
+  for (;;) {
+    const weekday = date.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      workingDays++;
+      if (workingDays === RENT_DUE_WORKING_DAY) return date;
+    }
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+}
+
+/**
+ * Rent owed for a period, prorated by day when the contract starts or ends within it.
+ * Returns 0 when the contract does not cover the period at all.
+ */
+export function prorateMonthlyRent(
+  rentCents: number,
+  period: string,
+  contract: { startDate: Date; endDate?: Date | null }
+): number {
+  const { start, end } = getPeriodBounds(period);
+  const daysInPeriod = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+
+  const startOfDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const from = Math.max(start.getTime(), startOfDay(contract.startDate));
+  // The end date is the last day of the tenancy
+  const until = contract.endDate
+    ? Math.min(end.getTime(), startOfDay(contract.endDate) + DAY_MS)
+    : end.getTime();
+
+  const coveredDays = Math.round((until - from) / DAY_MS);
+  if (coveredDays <= 0) return 0;
+  if (coveredDays >= daysInPeriod) return rentCents;
+
+  return Math.round((rentCents * coveredDays) / daysInPeriod);
+}
+
+/**
+ * Split an amount by relative shares using the largest remainder method,
+ * so the parts always add up to the amount
+ */
+export function splitByShares(cents: number, shares: number[]): number[] {
+  const totalShares = shares.reduce((total, share) => total + share, 0);
+  if (shares.length === 0) return [];
+  if (totalShares <= 0) {
+    return splitByShares(cents, shares.map(() => 1));
+  }
+
+  const exact = shares.map(share => (cents * share) / totalShares);
+  const parts = exact.map(Math.floor);
+  let remainder = cents - parts.reduce((total, part) => total + part, 0);
+
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+
+  for (let i = 0; remainder > 0; i = (i + 1) % byFraction.length, remainder--) {
+    parts[byFraction[i].index]++;
+  }
+
+  return parts;
+}
+
+export interface OpenCharge<T> {
+  charge: T;
+  // Part of the charge not yet covered by payments and credits
+  openCents: number;
+}
+
+/**
+ * Apply settled cents to charges oldest first and return the charges that remain open
+ */
+export function allocatePayments<T extends { amount: string; dueDate: Date | null }>(
+  charges: T[],
+  settledCents: number
+): OpenCharge<T>[] {
+  const ordered = [...charges].sort(
+    (a, b) => (a.dueDate?.getTime() ?? 0) - (b.dueDate?.getTime() ?? 0)
+  );
+
+  let available = settledCents;
+  const open: OpenCharge<T>[] = [];
+
+  for (const charge of ordered) {
+    const cents = toCents(charge.amount);
+    const covered = Math.min(cents, Math.max(available, 0));
+    available -= covered;
+
+    if (covered < cents) {
+      open.push({ charge, openCents: cents - covered });
+    }
+  }
+
+  return open;
+}
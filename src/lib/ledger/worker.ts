@@ -0,0 +1,41 @@
+// src/lib/ledger/worker.ts
+import { db } from '../db/db';
+import { organizations } from '../db/schema';
+import { LedgerService } from '../db/services/ledger';
+import { RentAdjustmentService } from '../db/services/rent-adjustments';
+import { DepositService } from '../db/services/deposits';
+import { toPeriod } from './index';
+
+/**
+ * One worker run: apply rent changes that took effect, credit the deposit interest of
+ * past years, then charge the monthly rent of all organizations for a period. Meant to
+ * be triggered at the start of each month (cron, scheduled job); periods that were
+ * already charged and years already credited are skipped.
+ */
+export async function runRentChargeWorker(period = toPeriod(new Date())) {
+  const orgs = await db.select({ id: organizations.id }).from(organizations);
+  const totals = { period, organizations: orgs.length, rentAdjustments: 0, depositInterest: 0, created: 0, skipped: 0 };
+
+  for (const org of orgs) {
+    totals.rentAdjustments += (await RentAdjustmentService.applyDueAdjustments(org.id)).length;
+    totals.depositInterest += (await DepositService.bookInterest(org.id)).length;
+    const result = await LedgerService.generateRentCharges(org.id, period);
+    totals.created += result.created.length;
+    totals.skipped += result.skipped;
+  }
+
+  return totals;
+}
+
+// CLI script to run the worker once, optionally for a given period (YYYY-MM)
+if (require.main === module) {
+  runRentChargeWorker(process.argv[2])
+    .then((totals) => {
+      console.log('Rent charge worker finished:', totals);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Rent charge worker failed:', error);
+      process.exit(1);
+    });
+}
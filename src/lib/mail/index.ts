@@ -0,0 +1,262 @@
+// src/lib/mail/index.ts
+import { eq, and } from 'drizzle-orm';
+import { db } from '../db/db';
+import { organizations, tickets, buildings, users, type Ticket } from '../db/schema';
+import type { InvitationInfo } from '../db/invitation-utils';
+import { ContractService } from '../db/services/contracts';
+import { MeterService } from '../db/services/meters';
+import { ConsumptionAnomalyService } from '../db/services/consumption-anomalies';
+import { CALIBRATION_REMINDER_DAYS } from '../meters';
+import { env } from '../env';
+import { enqueueEmail } from './outbox';
+import {
+  renderInvitationMail,
+  renderTicketStatusMail,
+  renderContractExpiringMail,
+  renderMeterCalibrationMail,
+  renderConsumptionAnomalyMail,
+  renderPasswordResetMail,
+} from './templates';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Queue the invitation email with its QR code embedded inline
+ */
+export async function sendInvitationEmail(organizationId: string, invitation: InvitationInfo) {
+  const [organization] = await db
+    .select({ name: organizations.name })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+
+  return await enqueueEmail({
+    template: 'invitation',
+    organizationId,
+    to: invitation.email,
+    mail: renderInvitationMail({
+      tenantName: invitation.tenantName,
+      organizationName: organization?.name,
+      buildingName: invitation.buildingName,
+      unitNumber: invitation.unitNumber,
+      url: invitation.url,
+      qrCode: invitation.qrCode,
+      expiresAt: invitation.expiresAt,
+    }),
+  });
+}
+
+/**
+ * Queue the password reset email
+ */
+export async function sendPasswordResetEmail(reset: {
+  email: string;
+  name?: string | null;
+  url: string;
+  expires: Date;
+}) {
+  return await enqueueEmail({
+    template: 'password_reset',
+    to: reset.email,
+    mail: renderPasswordResetMail(reset),
+  });
+}
+
+/**
+ * Notify the ticket creator about a status change.
+ * Skipped unless ENABLE_EMAIL_NOTIFICATIONS is set.
+ */
+export async function sendTicketStatusEmail(ticket: Ticket, previousStatus?: string | null) {
+  if (!env.ENABLE_EMAIL_NOTIFICATIONS || !ticket.status || ticket.status === previousStatus) {
+    return false;
+  }
+
+  const [details] = await db
+    .select({
+      recipientEmail: users.email,
+      recipientName: users.name,
+      recipientRole: users.role,
+      buildingName: buildings.name,
+    })
+    .from(tickets)
+    .innerJoin(users, eq(tickets.createdById, users.id))
+    .leftJoin(buildings, eq(tickets.buildingId, buildings.id))
+    .where(eq(tickets.id, ticket.id))
+    .limit(1);
+
+  if (!details) return false;
+
+  return await enqueueEmail({
+    template: 'ticket_status_changed',
+    organizationId: ticket.organizationId,
+    to: details.recipientEmail,
+    mail: renderTicketStatusMail({
+      recipientName: details.recipientName,
+      ticketTitle: ticket.title,
+      previousStatus,
+      status: ticket.status,
+      buildingName: details.buildingName ?? undefined,
+      url: `${APP_URL}${details.recipientRole === 'tenant' ? '/tenant' : '/dashboard'}`,
+    }),
+  });
+}
+
+/**
+ * Queue reminders to the organization's admins for contracts ending within
+ * the next 60 days. Each contract end date is only announced once.
+ * Skipped unless ENABLE_EMAIL_NOTIFICATIONS is set.
+ */
+export async function sendContractExpiringEmails(organizationId: string) {
+  if (!env.ENABLE_EMAIL_NOTIFICATIONS) return 0;
+
+  const [expiring, admins] = await Promise.all([
+    ContractService.getExpiringContracts(organizationId),
+    db
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(users)
+      .where(
+        and(
+          eq(users.organizationId, organizationId),
+          eq(users.role, 'landlord_admin'),
+          eq(users.isActive, true)
+        )
+      ),
+  ]);
+
+  let queued = 0;
+
+  for (const { contract, building } of expiring) {
+    for (const admin of admins) {
+      const isQueued = await enqueueEmail({
+        template: 'contract_expiring',
+        organizationId,
+        to: admin.email,
+        dedupeKey: `contract_expiring:${contract.id}:${contract.endDate.toISOString().slice(0, 10)}:${admin.id}`,
+        mail: renderContractExpiringMail({
+          recipientName: admin.name,
+          contractNumber: contract.contractNumber,
+          unitNumber: contract.unitNumber,
+          buildingName: building?.name,
+          endDate: contract.endDate,
+          url: `${APP_URL}/dashboard`,
+        }),
+      });
+
+      if (isQueued) queued++;
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Queue reminders to the organization's admins for meters whose calibration expires
+ * within the next 90 days or has expired. Each expiry date is only announced once.
+ * Skipped unless ENABLE_EMAIL_NOTIFICATIONS is set.
+ */
+export async function sendMeterCalibrationEmails(organizationId: string) {
+  if (!env.ENABLE_EMAIL_NOTIFICATIONS) return 0;
+
+  const before = new Date();
+  before.setDate(before.getDate() + CALIBRATION_REMINDER_DAYS);
+
+  const [due, admins] = await Promise.all([
+    MeterService.getCalibrationDue(organizationId, before),
+    db
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(users)
+      .where(
+        and(
+          eq(users.organizationId, organizationId),
+          eq(users.role, 'landlord_admin'),
+          eq(users.isActive, true)
+        )
+      ),
+  ]);
+
+  let queued = 0;
+
+  for (const { meter, buildingName, unitNumber } of due) {
+    if (!meter.calibrationValidUntil) continue;
+
+    for (const admin of admins) {
+      const isQueued = await enqueueEmail({
+        template: 'meter_calibration_due',
+        organizationId,
+        to: admin.email,
+        dedupeKey: `meter_calibration_due:${meter.id}:${meter.calibrationValidUntil.toISOString().slice(0, 10)}:${admin.id}`,
+        mail: renderMeterCalibrationMail({
+          recipientName: admin.name,
+          meterNumber: meter.meterNumber,
+          consumptionType: meter.consumptionType,
+          buildingName,
+          unitNumber,
+          validUntil: meter.calibrationValidUntil,
+          url: `${APP_URL}/dashboard`,
+        }),
+      });
+
+      if (isQueued) queued++;
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Queue alerts to the organization's admins for consumption anomalies detected in the
+ * last 7 days that are still open. Each anomaly is only announced once.
+ * Skipped unless ENABLE_EMAIL_NOTIFICATIONS is set.
+ */
+export async function sendConsumptionAnomalyEmails(organizationId: string) {
+  if (!env.ENABLE_EMAIL_NOTIFICATIONS) return 0;
+
+  const detectedSince = new Date();
+  detectedSince.setDate(detectedSince.getDate() - 7);
+
+  const [{ anomalies }, admins] = await Promise.all([
+    ConsumptionAnomalyService.getAnomalies(organizationId, { status: 'open', detectedSince, limit: 500 }),
+    db
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(users)
+      .where(
+        and(
+          eq(users.organizationId, organizationId),
+          eq(users.role, 'landlord_admin'),
+          eq(users.isActive, true)
+        )
+      ),
+  ]);
+
+  let queued = 0;
+
+  for (const anomaly of anomalies) {
+    for (const admin of admins) {
+      const isQueued = await enqueueEmail({
+        template: 'consumption_anomaly',
+        organizationId,
+        to: admin.email,
+        dedupeKey: `consumption_anomaly:${anomaly.id}:${admin.id}`,
+        mail: renderConsumptionAnomalyMail({
+          recipientName: admin.name,
+          contractNumber: anomaly.contractNumber,
+          unitNumber: anomaly.unitNumber,
+          buildingName: anomaly.buildingName,
+          consumptionType: anomaly.consumptionType,
+          period: anomaly.period,
+          message: anomaly.message,
+          ticketCreated: !!anomaly.ticketId,
+          url: `${APP_URL}/dashboard/consumption`,
+        }),
+      });
+
+      if (isQueued) queued++;
+    }
+  }
+
+  return queued;
+}
+
+export { enqueueEmail, processOutbox, retryFailedEmail, getOutboxStats } from './outbox';
+export { getMailTransport, type MailTransport } from './transport';
+export type { MailTemplate, RenderedMail } from './templates';
@@ -0,0 +1,157 @@
+// src/lib/mail/outbox.ts
+import { eq, and, inArray, lte, sql } from 'drizzle-orm';
+import { db } from '../db/db';
+import { emailOutbox, type EmailOutboxMessage } from '../db/schema';
+import { getMailTransport } from './transport';
+import type { MailTemplate, RenderedMail } from './templates';
+
+// A claimed message is retried by another worker if it is still "sending" after this long
+const SENDING_LEASE_MINUTES = 10;
+const MAX_BACKOFF_MINUTES = 6 * 60;
+
+/**
+ * Minutes to wait before the next attempt: 1, 2, 4, 8 ... capped at 6 hours
+ */
+export function getRetryDelayMinutes(attempts: number): number {
+  return Math.min(2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MINUTES);
+}
+
+/**
+ * Queue a rendered message for delivery. Returns false when a message
+ * with the same dedupe key has already been queued. Only admins may read
+ * the outbox, so the insert returns no row to other requests.
+ */
+export async function enqueueEmail(params: {
+  template: MailTemplate;
+  to: string;
+  mail: RenderedMail;
+  organizationId?: string | null;
+  dedupeKey?: string;
+  maxAttempts?: number;
+}): Promise<boolean> {
+  const result = await db
+    .insert(emailOutbox)
+    .values({
+      organizationId: params.organizationId ?? null,
+      template: params.template,
+      to: params.to,
+      dedupeKey: params.dedupeKey,
+      subject: params.mail.subject,
+      html: params.mail.html,
+      text: params.mail.text,
+      attachments: params.mail.attachments,
+      maxAttempts: params.maxAttempts,
+    })
+    .onConflictDoNothing({ target: emailOutbox.dedupeKey });
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Claim due messages so that concurrent workers never send the same one twice
+ */
+async function claimDueMessages(batchSize: number): Promise<EmailOutboxMessage[]> {
+  const leaseUntil = new Date(Date.now() + SENDING_LEASE_MINUTES * 60 * 1000);
+
+  const due = db
+    .select({ id: emailOutbox.id })
+    .from(emailOutbox)
+    .where(
+      and(
+        inArray(emailOutbox.status, ['pending', 'sending']),
+        lte(emailOutbox.nextAttemptAt, new Date())
+      )
+    )
+    .orderBy(emailOutbox.nextAttemptAt)
+    .limit(batchSize)
+    .for('update', { skipLocked: true });
+
+  return await db
+    .update(emailOutbox)
+    .set({
+      status: 'sending',
+      attempts: sql`${emailOutbox.attempts} + 1`,
+      nextAttemptAt: leaseUntil,
+    })
+    .where(inArray(emailOutbox.id, due))
+    .returning();
+}
+
+/**
+ * Deliver due messages from the outbox. Failed messages are rescheduled
+ * with exponential backoff until they reach their maximum attempts.
+ */
+export async function processOutbox(batchSize = 20) {
+  const transport = getMailTransport();
+  const messages = await claimDueMessages(batchSize);
+  const result = { processed: messages.length, sent: 0, retried: 0, failed: 0 };
+
+  for (const message of messages) {
+    try {
+      await transport.send(message);
+
+      await db
+        .update(emailOutbox)
+        .set({ status: 'sent', sentAt: new Date(), lastError: null })
+        .where(eq(emailOutbox.id, message.id));
+
+      result.sent++;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const exhausted = message.attempts >= message.maxAttempts;
+      const nextAttemptAt = new Date(Date.now() + getRetryDelayMinutes(message.attempts) * 60 * 1000);
+
+      await db
+        .update(emailOutbox)
+        .set(
+          exhausted
+            ? { status: 'failed', lastError }
+            : { status: 'pending', lastError, nextAttemptAt }
+        )
+        .where(eq(emailOutbox.id, message.id));
+
+      console.error(`Failed to send email ${message.id} (attempt ${message.attempts}):`, lastError);
+
+      if (exhausted) {
+        result.failed++;
+      } else {
+        result.retried++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Put a failed message back into the queue
+ */
+export async function retryFailedEmail(id: string): Promise<EmailOutboxMessage | null> {
+  const [message] = await db
+    .update(emailOutbox)
+    .set({ status: 'pending', attempts: 0, nextAttemptAt: new Date() })
+    .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, 'failed')))
+    .returning();
+
+  return message || null;
+}
+
+/**
+ * Get outbox counts by status
+ */
+export async function getOutboxStats(organizationId?: string) {
+  const rows = await db
+    .select({
+      status: emailOutbox.status,
+      count: sql<number>`count(*)`,
+    })
+    .from(emailOutbox)
+    .where(organizationId ? eq(emailOutbox.organizationId, organizationId) : undefined)
+    .groupBy(emailOutbox.status);
+
+  const stats = { pending: 0, sending: 0, sent: 0, failed: 0 };
+  for (const row of rows) {
+    stats[row.status] = Number(row.count);
+  }
+  return stats;
+}
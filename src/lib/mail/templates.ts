@@ -0,0 +1,271 @@
+// src/lib/mail/templates.ts
+import type { EmailOutboxMessage } from '../db/schema';
+
+export type MailTemplate = EmailOutboxMessage['template'];
+
+export type MailAttachment = NonNullable<EmailOutboxMessage['attachments']>[number];
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface InvitationMailData {
+  tenantName?: string;
+  organizationName?: string;
+  buildingName?: string;
+  unitNumber?: string;
+  url: string;
+  qrCode: string; // data URL from generateInvitationQR
+  expiresAt: Date;
+}
+
+export interface TicketStatusMailData {
+  recipientName?: string | null;
+  ticketTitle: string;
+  previousStatus?: string | null;
+  status: string;
+  buildingName?: string;
+  url: string;
+}
+
+export interface ContractExpiringMailData {
+  recipientName?: string | null;
+  contractNumber: string;
+  unitNumber: string;
+  buildingName?: string;
+  endDate: Date;
+  url: string;
+}
+
+export interface MeterCalibrationMailData {
+  recipientName?: string | null;
+  meterNumber: string;
+  consumptionType: string;
+  buildingName: string;
+  unitNumber?: string | null;
+  validUntil: Date;
+  url: string;
+}
+
+export interface ConsumptionAnomalyMailData {
+  recipientName?: string | null;
+  contractNumber: string;
+  unitNumber: string;
+  buildingName?: string | null;
+  consumptionType: string;
+  period: string;
+  message: string;
+  ticketCreated: boolean;
+  url: string;
+}
+
+export interface PasswordResetMailData {
+  name?: string | null;
+  url: string;
+  expires: Date;
+}
+
+const INVITATION_QR_CID = 'invitation-qr';
+
+const TICKET_STATUS_LABELS: Record<string, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  waiting_for_tenant: 'Waiting for tenant',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+function greeting(name?: string | null): string {
+  return name ? `Hello ${name},` : 'Hello,';
+}
+
+/**
+ * Wrap body HTML in the shared TenantBridge email layout
+ */
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#1f2937;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:32px;">
+    <h1 style="margin:0 0 24px;font-size:20px;color:#2563eb;">TenantBridge</h1>
+    ${body}
+  </div>
+  <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280;text-align:center;">
+    This is an automated message from TenantBridge. Please do not reply.
+  </p>
+</body>
+</html>`;
+}
+
+function button(url: string, label: string): string {
+  return `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(label)}</a></p>`;
+}
+
+/**
+ * Convert a data URL into an inline attachment
+ */
+function dataUrlAttachment(dataUrl: string, filename: string, cid: string): MailAttachment {
+  const [header, content] = dataUrl.split(',', 2);
+  const contentType = header.replace(/^data:/, '').replace(/;base64$/, '');
+  return { filename, content, contentType, cid };
+}
+
+export function renderInvitationMail(data: InvitationMailData): RenderedMail {
+  const organization = data.organizationName || 'Your property manager';
+  const unit = [data.buildingName, data.unitNumber && `unit ${data.unitNumber}`].filter(Boolean).join(', ');
+  const expires = formatDate(data.expiresAt);
+
+  return {
+    subject: `${organization} invited you to TenantBridge`,
+    html: layout('Your TenantBridge invitation', `
+    <p>${escapeHtml(greeting(data.tenantName))}</p>
+    <p>${escapeHtml(organization)} has invited you to TenantBridge${unit ? ` for ${escapeHtml(unit)}` : ''}.</p>
+    ${button(data.url, 'Accept invitation')}
+    <p>Or scan this code with your phone:</p>
+    <p><img src="cid:${INVITATION_QR_CID}" width="200" height="200" alt="Invitation QR code"></p>
+    <p style="font-size:12px;color:#6b7280;">This invitation is valid until ${expires}.</p>`),
+    text: [
+      greeting(data.tenantName),
+      '',
+      `${organization} has invited you to TenantBridge${unit ? ` for ${unit}` : ''}.`,
+      '',
+      `Accept the invitation: ${data.url}`,
+      '',
+      `This invitation is valid until ${expires}.`,
+    ].join('\n'),
+    attachments: [dataUrlAttachment(data.qrCode, 'invitation-qr.png', INVITATION_QR_CID)],
+  };
+}
+
+export function renderTicketStatusMail(data: TicketStatusMailData): RenderedMail {
+  const status = TICKET_STATUS_LABELS[data.status] || data.status;
+  const previous = data.previousStatus ? TICKET_STATUS_LABELS[data.previousStatus] || data.previousStatus : null;
+  const change = previous ? `from "${previous}" to "${status}"` : `to "${status}"`;
+
+  return {
+    subject: `Ticket "${data.ticketTitle}" is now ${status.toLowerCase()}`,
+    html: layout('Ticket status changed', `
+    <p>${escapeHtml(greeting(data.recipientName))}</p>
+    <p>The status of your ticket <strong>${escapeHtml(data.ticketTitle)}</strong>${data.buildingName ? ` in ${escapeHtml(data.buildingName)}` : ''} changed ${escapeHtml(change)}.</p>
+    ${button(data.url, 'View ticket')}`),
+    text: [
+      greeting(data.recipientName),
+      '',
+      `The status of your ticket "${data.ticketTitle}"${data.buildingName ? ` in ${data.buildingName}` : ''} changed ${change}.`,
+      '',
+      `View ticket: ${data.url}`,
+    ].join('\n'),
+  };
+}
+
+export function renderContractExpiringMail(data: ContractExpiringMailData): RenderedMail {
+  const endDate = formatDate(data.endDate);
+  const unit = `unit ${data.unitNumber}${data.buildingName ? ` in ${data.buildingName}` : ''}`;
+
+  return {
+    subject: `Contract ${data.contractNumber} expires on ${endDate}`,
+    html: layout('Contract expiring', `
+    <p>${escapeHtml(greeting(data.recipientName))}</p>
+    <p>Contract <strong>${escapeHtml(data.contractNumber)}</strong> for ${escapeHtml(unit)} ends on <strong>${endDate}</strong>.</p>
+    <p>Please review whether it should be renewed or terminated.</p>
+    ${button(data.url, 'View contract')}`),
+    text: [
+      greeting(data.recipientName),
+      '',
+      `Contract ${data.contractNumber} for ${unit} ends on ${endDate}.`,
+      'Please review whether it should be renewed or terminated.',
+      '',
+      `View contract: ${data.url}`,
+    ].join('\n'),
+  };
+}
+
+export function renderMeterCalibrationMail(data: MeterCalibrationMailData): RenderedMail {
+  const validUntil = formatDate(data.validUntil);
+  const location = `${data.unitNumber ? `unit ${data.unitNumber} in ` : ''}${data.buildingName}`;
+  const expired = data.validUntil < new Date();
+  const status = expired ? `expired on ${validUntil}` : `expires on ${validUntil}`;
+
+  return {
+    subject: `Calibration of meter ${data.meterNumber} ${status}`,
+    html: layout('Meter calibration due', `
+    <p>${escapeHtml(greeting(data.recipientName))}</p>
+    <p>The calibration of ${escapeHtml(data.consumptionType)} meter <strong>${escapeHtml(data.meterNumber)}</strong> for ${escapeHtml(location)} ${status}.</p>
+    <p>Readings of meters past their calibration may not be used for billing. Please arrange for the meter to be replaced or recalibrated.</p>
+    ${button(data.url, 'View meters')}`),
+    text: [
+      greeting(data.recipientName),
+      '',
+      `The calibration of ${data.consumptionType} meter ${data.meterNumber} for ${location} ${status}.`,
+      'Readings of meters past their calibration may not be used for billing. Please arrange for the meter to be replaced or recalibrated.',
+      '',
+      `View meters: ${data.url}`,
+    ].join('\n'),
+  };
+}
+
+export function renderConsumptionAnomalyMail(data: ConsumptionAnomalyMailData): RenderedMail {
+  const unit = `unit ${data.unitNumber}${data.buildingName ? ` in ${data.buildingName}` : ''}`;
+  const followUp = data.ticketCreated
+    ? 'A utilities ticket was opened to have it checked on site.'
+    : 'Please check the reading and the meter.';
+
+  return {
+    subject: `Unusual ${data.consumptionType} consumption in ${data.period} for contract ${data.contractNumber}`,
+    html: layout('Unusual consumption', `
+    <p>${escapeHtml(greeting(data.recipientName))}</p>
+    <p>The ${escapeHtml(data.consumptionType)} consumption of contract <strong>${escapeHtml(data.contractNumber)}</strong> for ${escapeHtml(unit)} looks unusual:</p>
+    <p>${escapeHtml(data.message)}</p>
+    <p>${followUp}</p>
+    ${button(data.url, 'View anomalies')}`),
+    text: [
+      greeting(data.recipientName),
+      '',
+      `The ${data.consumptionType} consumption of contract ${data.contractNumber} for ${unit} looks unusual:`,
+      data.message,
+      '',
+      followUp,
+      '',
+      `View anomalies: ${data.url}`,
+    ].join('\n'),
+  };
+}
+
+export function renderPasswordResetMail(data: PasswordResetMailData): RenderedMail {
+  const expires = data.expires.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+
+  return {
+    subject: 'Reset your TenantBridge password',
+    html: layout('Reset your password', `
+    <p>${escapeHtml(greeting(data.name))}</p>
+    <p>We received a request to reset your password. The link below is valid until ${expires}.</p>
+    ${button(data.url, 'Choose a new password')}
+    <p style="font-size:12px;color:#6b7280;">If you did not request this, you can ignore this email. Your password will not change.</p>`),
+    text: [
+      greeting(data.name),
+      '',
+      `We received a request to reset your password. The link below is valid until ${expires}.`,
+      '',
+      data.url,
+      '',
+      'If you did not request this, you can ignore this email. Your password will not change.',
+    ].join('\n'),
+  };
+}
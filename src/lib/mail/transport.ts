@@ -0,0 +1,128 @@
+// src/lib/mail/transport.ts
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer';
+import { env } from '../env';
+import type { MailAttachment } from './templates';
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[] | null;
+}
+
+export interface MailTransport {
+  name: 'smtp' | 'file' | 'console';
+  send(mail: OutgoingMail): Promise<{ messageId?: string }>;
+}
+
+const DEFAULT_FROM = 'TenantBridge <noreply@tenantbridge.com>';
+
+function toMessage(mail: OutgoingMail): Mail.Options {
+  return {
+    from: env.SMTP_FROM || DEFAULT_FROM,
+    to: mail.to,
+    subject: mail.subject,
+    html: mail.html,
+    text: mail.text,
+    attachments: (mail.attachments || []).map(attachment => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      encoding: 'base64',
+      contentType: attachment.contentType,
+      cid: attachment.cid,
+    })),
+  };
+}
+
+/**
+ * Deliver via SMTP. Works against real providers and local stand-ins
+ * such as MailHog or smtp4dev (SMTP_HOST=localhost, SMTP_PORT=1025).
+ */
+function createSmtpTransport(): MailTransport {
+  const port = Number(env.SMTP_PORT || 587);
+  const transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port,
+    secure: port === 465,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(mail) {
+      const info = await transporter.sendMail(toMessage(mail));
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+/**
+ * Write each message as an .eml file to MAIL_OUTPUT_DIR
+ */
+function createFileTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  const outputDir = path.resolve(process.cwd(), env.MAIL_OUTPUT_DIR);
+
+  return {
+    name: 'file',
+    async send(mail) {
+      const info = await transporter.sendMail(toMessage(mail));
+      const recipient = mail.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const filePath = path.join(outputDir, `${Date.now()}-${recipient}.eml`);
+
+      await mkdir(outputDir, { recursive: true });
+      await writeFile(filePath, info.message as Buffer);
+
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+/**
+ * Log messages to the console instead of sending them
+ */
+function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(mail) {
+      const lines = ['📧 Email (console transport)', `To: ${mail.to}`, `Subject: ${mail.subject}`];
+      if (mail.attachments?.length) {
+        lines.push(`Attachments: ${mail.attachments.map(a => a.filename).join(', ')}`);
+      }
+      console.log([...lines, '', mail.text].join('\n'));
+      return {};
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the configured transport. MAIL_TRANSPORT selects it explicitly;
+ * otherwise SMTP is used when SMTP_HOST is set and the console elsewhere.
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const name = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (name) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required for the smtp mail transport');
+      }
+      transport = createSmtpTransport();
+      break;
+    case 'file':
+      transport = createFileTransport();
+      break;
+    default:
+      transport = createConsoleTransport();
+  }
+
+  return transport;
+}
@@ -0,0 +1,54 @@
+// src/lib/mail/worker.ts
+import { db } from '../db/db';
+import { organizations } from '../db/schema';
+import {
+  processOutbox,
+  sendContractExpiringEmails,
+  sendMeterCalibrationEmails,
+  sendConsumptionAnomalyEmails,
+} from './index';
+
+/**
+ * One worker run: queue due contract and meter calibration reminders and consumption
+ * anomaly alerts, then drain the outbox.
+ * Meant to be triggered periodically (cron, scheduled job).
+ */
+export async function runMailWorker(options: { batchSize?: number } = {}) {
+  const { batchSize = 50 } = options;
+
+  const orgs = await db.select({ id: organizations.id }).from(organizations);
+  let reminders = 0;
+  for (const org of orgs) {
+    reminders += await sendContractExpiringEmails(org.id);
+    reminders += await sendMeterCalibrationEmails(org.id);
+    reminders += await sendConsumptionAnomalyEmails(org.id);
+  }
+
+  const totals = { reminders, processed: 0, sent: 0, retried: 0, failed: 0 };
+
+  // Keep going until a batch comes back short, i.e. nothing more is due
+  for (;;) {
+    const result = await processOutbox(batchSize);
+    totals.processed += result.processed;
+    totals.sent += result.sent;
+    totals.retried += result.retried;
+    totals.failed += result.failed;
+
+    if (result.processed < batchSize) break;
+  }
+
+  return totals;
+}
+
+// CLI script to run the worker once
+if (require.main === module) {
+  runMailWorker()
+    .then((totals) => {
+      console.log('Mail worker finished:', totals);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Mail worker failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,122 @@
+// src/lib/meters/index.ts
+// Meter values are cumulative. Consumption is the difference to the previous reading,
+// taking into account that mechanical counters start over at zero after their last digit.
+// Calibrated meters may only be used for billing until their Eichfrist ends (§ 37 MessEG).
+
+import type { ConsumptionType } from '../db/schema';
+
+// Eichfristen of Anlage 7 MessEV. Water meters are taken as cold water meters; hot water
+// meters have 5 years. Heat cost allocators are not calibrated.
+export const CALIBRATION_PERIOD_YEARS: Record<ConsumptionType, number | null> = {
+  electricity: 8,
+  gas: 8,
+  water: 6,
+  heating: 5,
+  internet: null,
+  other: null,
+};
+
+// Calibration reminders are sent this many days before the Eichfrist ends
+export const CALIBRATION_REMINDER_DAYS = 90;
+
+export interface MeterConsumption {
+  consumption: number;
+  rollover: boolean;
+}
+
+/**
+ * End of the Eichfrist of a meter calibrated in a year. The period counts from the end
+ * of the calibration year, so it always ends on December 31.
+ */
+export function getCalibrationValidUntil(consumptionType: ConsumptionType, calibrationYear: number): Date | null {
+  const years = CALIBRATION_PERIOD_YEARS[consumptionType];
+  return years ? new Date(Date.UTC(calibrationYear + years, 11, 31)) : null;
+}
+
+/**
+ * Consumption between two meter values. A lower value counts as a rollover when the meter
+ * has a known number of digits and less than half of its range was used; otherwise it is
+ * implausible and null is returned.
+ */
+export function getConsumption(previousValue: number, value: number, digits?: number | null): MeterConsumption | null {
+  const round = (amount: number) => Math.round(amount * 1000) / 1000;
+
+  if (value >= previousValue) {
+    return { consumption: round(value - previousValue), rollover: false };
+  }
+  if (!digits) return null;
+
+  const range = Math.pow(10, digits);
+  const consumption = range - previousValue + value;
+  return consumption < range / 2 ? { consumption: round(consumption), rollover: true } : null;
+}
+
+// A reading without consumption for this many days suggests a stuck meter or a misread value
+const FLAT_READING_DAYS = 30;
+
+// Consumption per day outside this factor of the usual consumption is flagged for review
+const DEVIATION_FACTOR = 3;
+
+export interface PreviousReading {
+  readingDate: Date;
+  value: number;
+}
+
+export interface ReadingPlausibility {
+  consumption: MeterConsumption | null;
+  warnings: string[];
+  error: { field: string; message: string } | null; // Reason the reading cannot be recorded
+}
+
+/**
+ * Check a reading against the previous one. Errors make the reading unusable; warnings only
+ * point the reviewer at unusual values. The average consumption per day of earlier readings
+ * is the baseline for the deviation check.
+ */
+export function checkReadingPlausibility(
+  previous: PreviousReading | null,
+  reading: PreviousReading,
+  options: { digits?: number | null; averagePerDay?: number | null; now?: Date } = {}
+): ReadingPlausibility {
+  const { digits, averagePerDay, now = new Date() } = options;
+  const invalid = (field: string, message: string): ReadingPlausibility => ({
+    consumption: null,
+    warnings: [],
+    error: { field, message },
+  });
+
+  if (reading.readingDate > now) {
+    return invalid('readingDate', 'The reading date is in the future');
+  }
+  if (!previous) {
+    return { consumption: null, warnings: [], error: null };
+  }
+  if (reading.readingDate < previous.readingDate) {
+    return invalid('readingDate', 'The reading date is before the previous reading');
+  }
+
+  const consumption = getConsumption(previous.value, reading.value, digits);
+  if (!consumption) {
+    return invalid('value', `The value is lower than the previous reading of ${previous.value}`);
+  }
+
+  const warnings: string[] = [];
+  const days = (reading.readingDate.getTime() - previous.readingDate.getTime()) / (24 * 60 * 60 * 1000);
+
+  if (consumption.rollover) {
+    warnings.push('Meter rolled over since the previous reading');
+  }
+  if (consumption.consumption === 0 && days >= FLAT_READING_DAYS) {
+    warnings.push(`No consumption in ${Math.floor(days)} days`);
+  }
+  if (averagePerDay && days >= 1 && consumption.consumption > 0) {
+    const perDay = consumption.consumption / days;
+    if (perDay > averagePerDay * DEVIATION_FACTOR) {
+      warnings.push(`Consumption per day is more than ${DEVIATION_FACTOR} times the usual amount`);
+    } else if (perDay < averagePerDay / DEVIATION_FACTOR) {
+      warnings.push(`Consumption per day is less than 1/${DEVIATION_FACTOR} of the usual amount`);
+    }
+  }
+
+  return { consumption, warnings, error: null };
+}
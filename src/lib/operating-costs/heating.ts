@@ -0,0 +1,82 @@
+// src/lib/operating-costs/heating.ts
+// Heating cost rules: the split into base and consumption costs (§§ 7, 8 HeizkostenV),
+// estimation for missing meters (§ 9a HeizkostenV) and the landlord's share of the
+// CO2 costs by the emissions of the building (CO2KostAufG).
+
+import type { Building } from '../db/schema';
+
+export const MIN_HEATING_CONSUMPTION_SHARE = 50;
+export const MAX_HEATING_CONSUMPTION_SHARE = 70;
+
+// Above this share of estimated living area, costs are split by area only (§ 9a Abs. 2 HeizkostenV)
+const MAX_ESTIMATED_AREA_SHARE = 0.25;
+
+// Landlord share of the CO2 costs of residential buildings by kg CO2 per m² and year (Anlage CO2KostAufG)
+const CO2_STAGES: Array<{ below: number; landlordPercentage: number }> = [
+  { below: 12, landlordPercentage: 0 },
+  { below: 17, landlordPercentage: 10 },
+  { below: 22, landlordPercentage: 20 },
+  { below: 27, landlordPercentage: 30 },
+  { below: 32, landlordPercentage: 40 },
+  { below: 37, landlordPercentage: 50 },
+  { below: 42, landlordPercentage: 60 },
+  { below: 47, landlordPercentage: 70 },
+  { below: 52, landlordPercentage: 80 },
+  { below: Infinity, landlordPercentage: 95 },
+];
+
+// Non-residential buildings split the CO2 costs evenly (§ 8 CO2KostAufG)
+const NON_RESIDENTIAL_LANDLORD_PERCENTAGE = 50;
+
+/**
+ * Landlord share of the CO2 costs in percent, with the yearly emissions per m² it is based on
+ */
+export function getCo2LandlordPercentage(
+  emissionsKg: number,
+  livingArea: number,
+  periodDays: number,
+  propertyType: Building['propertyType']
+): { emissionsPerArea: number; landlordPercentage: number } {
+  // Emissions are scaled to a year for settlement periods of other lengths
+  const emissionsPerArea = Math.round((emissionsKg / livingArea) * (365 / periodDays) * 10) / 10;
+
+  if (propertyType === 'commercial') {
+    return { emissionsPerArea, landlordPercentage: NON_RESIDENTIAL_LANDLORD_PERCENTAGE };
+  }
+
+  const stage = CO2_STAGES.find(({ below }) => emissionsPerArea < below) ?? CO2_STAGES[CO2_STAGES.length - 1];
+  return { emissionsPerArea, landlordPercentage: stage.landlordPercentage };
+}
+
+export interface HeatingConsumer {
+  area: number; // Living area weighted by the time the contract covers
+  consumption: number | undefined; // Undefined when no meter reading was recorded
+}
+
+/**
+ * Consumption of every consumer, estimating missing readings from the average
+ * consumption per m² of the metered ones. Returns null when the costs must be split
+ * by living area only: no meter readings at all, or readings missing for more than
+ * a quarter of the area.
+ */
+export function estimateHeatingConsumption(
+  consumers: HeatingConsumer[]
+): Array<{ consumption: number; estimated: boolean }> | null {
+  const metered = consumers.filter(consumer => consumer.consumption !== undefined);
+  const totalArea = consumers.reduce((total, consumer) => total + consumer.area, 0);
+  const estimatedArea = totalArea - metered.reduce((total, consumer) => total + consumer.area, 0);
+
+  const meteredArea = totalArea - estimatedArea;
+  const meteredConsumption = metered.reduce((total, consumer) => total + (consumer.consumption || 0), 0);
+
+  if (meteredArea <= 0 || meteredConsumption <= 0 || estimatedArea > totalArea * MAX_ESTIMATED_AREA_SHARE) {
+    return null;
+  }
+
+  const perArea = meteredConsumption / meteredArea;
+  return consumers.map(consumer =>
+    consumer.consumption !== undefined
+      ? { consumption: consumer.consumption, estimated: false }
+      : { consumption: consumer.area * perArea, estimated: true }
+  );
+}
@@ -0,0 +1,351 @@
+// src/lib/operating-costs/index.ts
+// Allocation of the operating costs of a building to its contracts (§ 556 BGB, BetrKV).
+// Each cost item is split by its allocation key, weighted by the days a contract
+// covers of the settlement period. What falls on vacant units stays with the landlord.
+
+import type {
+  AllocationKey,
+  ConsumptionRecord,
+  OperatingCostCategory,
+  OperatingCostLine,
+} from '../db/schema';
+import { toCents, fromCents, prorateMonthlyRent, splitByShares, toPeriod } from '../ledger';
+import { estimateHeatingConsumption } from './heating';
+
+export {
+  getCo2LandlordPercentage,
+  MIN_HEATING_CONSUMPTION_SHARE,
+  MAX_HEATING_CONSUMPTION_SHARE,
+} from './heating';
+
+type ConsumptionType = ConsumptionRecord['consumptionType'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const OPERATING_COST_CATEGORY_LABELS: Record<OperatingCostCategory, string> = {
+  property_tax: 'Grundsteuer',
+  water_supply: 'Wasserversorgung',
+  sewage: 'Entwässerung',
+  heating: 'Heizung',
+  hot_water: 'Warmwasser',
+  elevator: 'Aufzug',
+  street_cleaning: 'Straßenreinigung',
+  waste_disposal: 'Müllbeseitigung',
+  building_cleaning: 'Gebäudereinigung und Ungezieferbekämpfung',
+  garden: 'Gartenpflege',
+  lighting: 'Beleuchtung',
+  chimney_cleaning: 'Schornsteinreinigung',
+  insurance: 'Sach- und Haftpflichtversicherung',
+  caretaker: 'Hauswart',
+  cable_tv: 'Antenne und Breitbandkabel',
+  laundry: 'Wäschepflege',
+  other: 'Sonstige Betriebskosten',
+};
+
+export const ALLOCATION_KEY_LABELS: Record<AllocationKey, string> = {
+  living_area: 'Wohnfläche',
+  persons: 'Personen',
+  units: 'Wohneinheiten',
+  consumption: 'Verbrauch',
+  heating: 'Heizkostenverordnung',
+};
+
+// Cost categories the CO2 costs of the heating fuel are part of
+const HEATING_CATEGORIES: OperatingCostCategory[] = ['heating', 'hot_water'];
+
+/**
+ * Allocation of a cost taken over from a vendor invoice until it is changed: heating
+ * and hot water by the HeizkostenV, everything else by living area
+ */
+export function getDefaultAllocation(category: OperatingCostCategory): {
+  allocationKey: AllocationKey;
+  consumptionType: ConsumptionType | null;
+} {
+  if (category === 'heating') return { allocationKey: 'heating', consumptionType: 'heating' };
+  if (category === 'hot_water') return { allocationKey: 'heating', consumptionType: 'water' };
+  return { allocationKey: 'living_area', consumptionType: null };
+}
+
+export interface SettlementCostItem {
+  id: string;
+  category: OperatingCostCategory;
+  description: string | null;
+  amountCents: number;
+  allocationKey: AllocationKey;
+  consumptionType: ConsumptionType | null;
+}
+
+export interface SettlementTenancy {
+  contractId: string;
+  contractNumber: string;
+  unitNumber: string;
+  startDate: Date;
+  endDate: Date | null;
+  livingArea: number | null;
+  occupants: number | null;
+  monthlyAdvanceCents: number;
+  // Metered consumption within the settlement period
+  consumption: Partial<Record<ConsumptionType, number>>;
+}
+
+export interface SettlementInput {
+  periodStart: Date;
+  periodEnd: Date; // Last day of the period
+  totalLivingArea: number | null;
+  totalUnits: number;
+  heatingConsumptionShare: number; // Percent
+  // CO2 costs contained in the heating costs and the landlord's percentage of them
+  co2?: { costsCents: number; landlordPercentage: number };
+  items: SettlementCostItem[];
+  tenancies: SettlementTenancy[];
+}
+
+export interface ContractAllocation {
+  contractId: string;
+  occupiedFrom: Date;
+  occupiedTo: Date;
+  lines: OperatingCostLine[];
+  allocatedCents: number; // Net of the CO2 landlord share
+  co2Cents: number;
+  co2LandlordCents: number;
+  advanceCents: number;
+  balanceCents: number; // Positive: due from the tenants, negative: refund
+}
+
+export class SettlementError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message);
+    this.name = 'SettlementError';
+  }
+}
+
+const startOfDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+// Days from one date to another, both included
+const countDays = (from: Date, to: Date) => Math.round((startOfDay(to) - startOfDay(from)) / DAY_MS) + 1;
+
+const roundBasis = (value: number) => Math.round(value * 1000) / 1000;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+interface AllocationPart {
+  allocationKey: AllocationKey;
+  amountCents: number;
+  bases: number[];
+  totalBasis: number;
+  heatingPart?: OperatingCostLine['heatingPart'];
+  estimated?: boolean[];
+}
+
+/**
+ * Latest date the statement must reach the tenants: twelve months after the end
+ * of the period. Back payments cannot be claimed afterwards (§ 556 Abs. 3 BGB).
+ */
+export function getSettlementDeadline(periodEnd: Date): Date {
+  return new Date(Date.UTC(periodEnd.getUTCFullYear() + 1, periodEnd.getUTCMonth(), periodEnd.getUTCDate()));
+}
+
+/**
+ * Advance payments owed for the days a contract covers of the settlement period
+ */
+export function getAdvancePayments(
+  monthlyAdvanceCents: number,
+  occupiedFrom: Date,
+  occupiedTo: Date
+): number {
+  let total = 0;
+  const month = new Date(Date.UTC(occupiedFrom.getUTCFullYear(), occupiedFrom.getUTCMonth(), 1));
+
+  while (month <= occupiedTo) {
+    total += prorateMonthlyRent(monthlyAdvanceCents, toPeriod(month), { startDate: occupiedFrom, endDate: occupiedTo });
+    month.setUTCMonth(month.getUTCMonth() + 1);
+  }
+
+  return total;
+}
+
+/**
+ * Split every cost item between the tenancies and net the advance payments
+ */
+export function allocateOperatingCosts(input: SettlementInput): {
+  allocations: ContractAllocation[];
+  landlordShareCents: number;
+} {
+  const { periodStart, periodEnd, items, tenancies } = input;
+  const periodDays = countDays(periodStart, periodEnd);
+
+  const occupancies = tenancies.map(tenancy => {
+    const occupiedFrom = new Date(Math.max(startOfDay(tenancy.startDate), startOfDay(periodStart)));
+    const occupiedTo = new Date(Math.min(
+      tenancy.endDate ? startOfDay(tenancy.endDate) : Infinity,
+      startOfDay(periodEnd)
+    ));
+
+    return {
+      tenancy,
+      occupiedFrom,
+      occupiedTo,
+      timeShare: Math.max(countDays(occupiedFrom, occupiedTo), 0) / periodDays,
+    };
+  });
+
+  // Without a total for the building, each unit counts with the largest area recorded for it
+  const getTotalLivingArea = () => {
+    if (input.totalLivingArea) return input.totalLivingArea;
+
+    const areaByUnit = new Map<string, number>();
+    tenancies.forEach(tenancy => {
+      areaByUnit.set(tenancy.unitNumber, Math.max(areaByUnit.get(tenancy.unitNumber) || 0, tenancy.livingArea || 0));
+    });
+    return sum(Array.from(areaByUnit.values()));
+  };
+
+  const getLivingAreaBases = () => {
+    const missing = tenancies.find(tenancy => !tenancy.livingArea);
+    if (missing) {
+      throw new SettlementError(`Contract ${missing.contractNumber} has no living area`, 'livingArea');
+    }
+    return {
+      bases: occupancies.map(({ tenancy, timeShare }) => (tenancy.livingArea || 0) * timeShare),
+      totalBasis: getTotalLivingArea(),
+    };
+  };
+
+  const getConsumptionType = (item: SettlementCostItem) => {
+    if (!item.consumptionType) {
+      throw new SettlementError('Costs split by consumption need a consumption type', 'consumptionType');
+    }
+    return item.consumptionType;
+  };
+
+  // An item is split in one part, or two for heating costs
+  const getParts = (item: SettlementCostItem): AllocationPart[] => {
+    const whole = { allocationKey: item.allocationKey, amountCents: item.amountCents };
+
+    switch (item.allocationKey) {
+      case 'living_area':
+        return [{ ...whole, ...getLivingAreaBases() }];
+      case 'units': {
+        const units = new Set(tenancies.map(tenancy => tenancy.unitNumber)).size;
+        return [{
+          ...whole,
+          bases: occupancies.map(({ timeShare }) => timeShare),
+          totalBasis: Math.max(input.totalUnits, units),
+        }];
+      }
+      case 'persons': {
+        const missing = tenancies.find(tenancy => !tenancy.occupants);
+        if (missing) {
+          throw new SettlementError(`Contract ${missing.contractNumber} has no number of occupants`, 'occupants');
+        }
+        const bases = occupancies.map(({ tenancy, timeShare }) => (tenancy.occupants || 0) * timeShare);
+        return [{ ...whole, bases, totalBasis: sum(bases) }];
+      }
+      case 'consumption': {
+        const type = getConsumptionType(item);
+        const bases = tenancies.map(tenancy => tenancy.consumption[type] || 0);
+        return [{ ...whole, bases, totalBasis: sum(bases) }];
+      }
+      case 'heating': {
+        const type = getConsumptionType(item);
+        const area = getLivingAreaBases();
+        const consumption = estimateHeatingConsumption(
+          occupancies.map(({ tenancy }, index) => ({ area: area.bases[index], consumption: tenancy.consumption[type] }))
+        );
+
+        // Without enough meter readings everything is split by living area (§ 9a Abs. 2 HeizkostenV)
+        if (!consumption) {
+          return [{ ...area, allocationKey: 'living_area', amountCents: item.amountCents, heatingPart: { part: 'base', percentage: 100 } }];
+        }
+
+        const consumptionCents = Math.round((item.amountCents * input.heatingConsumptionShare) / 100);
+        const bases = consumption.map(({ consumption }) => consumption);
+        return [
+          {
+            ...area,
+            allocationKey: 'living_area',
+            amountCents: item.amountCents - consumptionCents,
+            heatingPart: { part: 'base', percentage: 100 - input.heatingConsumptionShare },
+          },
+          {
+            allocationKey: 'consumption',
+            amountCents: consumptionCents,
+            bases,
+            totalBasis: sum(bases),
+            heatingPart: { part: 'consumption', percentage: input.heatingConsumptionShare },
+            estimated: consumption.map(({ estimated }) => estimated),
+          },
+        ];
+      }
+    }
+  };
+
+  const linesByTenancy = occupancies.map(() => [] as OperatingCostLine[]);
+  let landlordShareCents = 0;
+
+  for (const item of items) {
+    for (const part of getParts(item)) {
+      const { bases, totalBasis } = part;
+      if (totalBasis <= 0) {
+        throw new SettlementError(
+          `Nothing to split ${OPERATING_COST_CATEGORY_LABELS[item.category]} by ${ALLOCATION_KEY_LABELS[item.allocationKey]}: ` +
+          'no consumption was recorded for the period',
+          'consumptionType'
+        );
+      }
+
+      // The remainder of the basis (vacancy) is one more share, so the parts add up to the item
+      const amounts = splitByShares(part.amountCents, [...bases, Math.max(totalBasis - sum(bases), 0)]);
+      landlordShareCents += amounts[bases.length];
+
+      bases.forEach((basis, index) => {
+        linesByTenancy[index].push({
+          itemId: item.id,
+          category: item.category,
+          description: item.description,
+          allocationKey: part.allocationKey,
+          ...(part.heatingPart && { heatingPart: part.heatingPart }),
+          ...(part.estimated?.[index] && { estimated: true }),
+          totalAmount: fromCents(part.amountCents),
+          totalBasis: roundBasis(totalBasis),
+          basis: roundBasis(basis),
+          amount: fromCents(amounts[index]),
+        });
+      });
+    }
+  }
+
+  // Each contract bears the CO2 costs in proportion to its heating costs, less the landlord's percentage
+  const heatingCents = sum(items.filter(item => HEATING_CATEGORIES.includes(item.category)).map(item => item.amountCents));
+
+  const allocations = occupancies.map(({ tenancy, occupiedFrom, occupiedTo }, index) => {
+    const lines = linesByTenancy[index];
+    const costsCents = sum(lines.map(line => toCents(line.amount)));
+    const contractHeatingCents = sum(
+      lines.filter(line => HEATING_CATEGORIES.includes(line.category)).map(line => toCents(line.amount))
+    );
+
+    const co2Cents = input.co2 && heatingCents > 0
+      ? Math.round((input.co2.costsCents * contractHeatingCents) / heatingCents)
+      : 0;
+    const co2LandlordCents = input.co2 ? Math.round((co2Cents * input.co2.landlordPercentage) / 100) : 0;
+    landlordShareCents += co2LandlordCents;
+
+    const allocatedCents = costsCents - co2LandlordCents;
+    const advanceCents = getAdvancePayments(tenancy.monthlyAdvanceCents, occupiedFrom, occupiedTo);
+
+    return {
+      contractId: tenancy.contractId,
+      occupiedFrom,
+      occupiedTo,
+      lines,
+      allocatedCents,
+      co2Cents,
+      co2LandlordCents,
+      advanceCents,
+      balanceCents: allocatedCents - advanceCents,
+    };
+  });
+
+  return { allocations, landlordShareCents };
+}
@@ -0,0 +1,167 @@
+// src/lib/operating-costs/statement-pdf.ts
+// Renders the operating cost statement of a contract as a PDF letter to the tenants.
+
+import type { AllocationKey, Building, Contract, OperatingCostStatement, Organization } from '../db/schema';
+import { PdfDocument, PAGE_WIDTH } from '../pdf';
+import { ALLOCATION_KEY_LABELS, OPERATING_COST_CATEGORY_LABELS } from './index';
+
+export interface StatementPdfOptions {
+  landlord: Pick<Organization, 'name' | 'address' | 'postalCode' | 'city' | 'bankIban'>;
+  tenantNames: string[];
+  building: Pick<Building, 'name' | 'address' | 'postalCode' | 'city'>;
+  contract: Pick<Contract, 'contractNumber' | 'unitNumber'>;
+  periodStart: Date;
+  periodEnd: Date;
+  statement: Pick<
+    OperatingCostStatement,
+    'occupiedFrom' | 'occupiedTo' | 'lines' | 'allocatedCosts' | 'co2Costs' | 'co2LandlordShare' | 'advancePayments' | 'balance'
+  >;
+  // Classification of the building for the CO2 cost split (§ 7 Abs. 3 CO2KostAufG)
+  co2?: { emissionsPerArea: number; landlordPercentage: number };
+  issuedAt?: Date;
+}
+
+const LEFT = 56;
+const RIGHT = PAGE_WIDTH - 56;
+const PAGE_BOTTOM = 770;
+
+// Heating costs are stored as their base and consumption parts, never under the heating key
+const BASIS_UNITS: Record<AllocationKey, string> = { living_area: 'm²', persons: 'Pers.', units: 'WE', consumption: '', heating: '' };
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('de-DE', { timeZone: 'UTC', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(amount);
+
+const formatBasis = (value: number) =>
+  new Intl.NumberFormat('de-DE', { maximumFractionDigits: 2 }).format(value);
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+/**
+ * Build the statement document
+ */
+export function renderStatementPdf(options: StatementPdfOptions): Buffer {
+  const { landlord, tenantNames, building, contract, statement } = options;
+  const pdf = new PdfDocument();
+  let y = 60;
+
+  const sender = [landlord.name, landlord.address, [landlord.postalCode, landlord.city].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(' · ');
+  pdf.text(LEFT, y, sender, { size: 8 });
+  pdf.text(RIGHT, 100, formatDate(options.issuedAt || new Date()), { align: 'right' });
+
+  y = 100;
+  for (const line of [...tenantNames, building.address, `${building.postalCode} ${building.city}`]) {
+    pdf.text(LEFT, y, line);
+    y += 14;
+  }
+
+  y = 210;
+  pdf.text(
+    LEFT, y,
+    `Betriebskostenabrechnung ${formatDate(options.periodStart)} – ${formatDate(options.periodEnd)}`,
+    { size: 14, bold: true }
+  );
+  y += 24;
+  pdf.text(LEFT, y, `Objekt: ${building.name}, ${building.address}, Wohnung ${contract.unitNumber}`);
+  y += 14;
+  pdf.text(LEFT, y, `Mietvertrag: ${contract.contractNumber}`);
+  y += 14;
+  pdf.text(LEFT, y, `Ihr Abrechnungszeitraum: ${formatDate(statement.occupiedFrom)} – ${formatDate(statement.occupiedTo)}`);
+  y += 28;
+
+  const tableHeader = () => {
+    pdf.text(LEFT, y, 'Kostenart', { size: 9, bold: true });
+    pdf.text(250, y, 'Umlageschlüssel', { size: 9, bold: true });
+    pdf.text(380, y, 'Gesamtkosten', { size: 9, bold: true, align: 'right' });
+    pdf.text(465, y, 'Ihr Anteil', { size: 9, bold: true, align: 'right' });
+    pdf.text(RIGHT, y, 'Betrag', { size: 9, bold: true, align: 'right' });
+    pdf.rule(LEFT, RIGHT, y + 5);
+    y += 18;
+  };
+
+  tableHeader();
+  for (const line of statement.lines) {
+    if (y > PAGE_BOTTOM) {
+      pdf.addPage();
+      y = 60;
+      tableHeader();
+    }
+
+    const part = line.heatingPart && line.heatingPart.percentage < 100
+      ? ` ${line.heatingPart.part === 'base' ? 'Grundkosten' : 'Verbrauchskosten'} ${line.heatingPart.percentage} %`
+      : '';
+    const label = OPERATING_COST_CATEGORY_LABELS[line.category] + part + (line.description ? ` (${line.description})` : '');
+    const unit = BASIS_UNITS[line.allocationKey];
+
+    pdf.text(LEFT, y, truncate(label, 38) + (line.estimated ? '*' : ''), { size: 9 });
+    pdf.text(250, y, ALLOCATION_KEY_LABELS[line.allocationKey], { size: 9 });
+    pdf.text(380, y, formatMoney(Number(line.totalAmount)), { size: 9, align: 'right' });
+    pdf.text(465, y, `${formatBasis(line.basis)} / ${formatBasis(line.totalBasis)} ${unit}`.trim(), { size: 9, align: 'right' });
+    pdf.text(RIGHT, y, formatMoney(Number(line.amount)), { size: 9, align: 'right' });
+    y += 14;
+  }
+
+  if (y > PAGE_BOTTOM - 120) {
+    pdf.addPage();
+    y = 60;
+  }
+
+  const balance = Number(statement.balance);
+  const co2LandlordShare = Number(statement.co2LandlordShare);
+  pdf.rule(LEFT, RIGHT, y - 6);
+  y += 8;
+  if (co2LandlordShare > 0) {
+    pdf.text(LEFT, y, 'Summe der Kosten');
+    pdf.text(RIGHT, y, formatMoney(Number(statement.allocatedCosts) + co2LandlordShare), { align: 'right' });
+    y += 14;
+    pdf.text(LEFT, y, `abzüglich CO2-Kostenanteil des Vermieters (${options.co2?.landlordPercentage ?? 0} %)`);
+    pdf.text(RIGHT, y, formatMoney(-co2LandlordShare), { align: 'right' });
+    y += 14;
+  }
+  pdf.text(LEFT, y, 'Ihre Betriebskosten');
+  pdf.text(RIGHT, y, formatMoney(Number(statement.allocatedCosts)), { align: 'right' });
+  y += 14;
+  pdf.text(LEFT, y, 'abzüglich Ihrer Vorauszahlungen');
+  pdf.text(RIGHT, y, formatMoney(-Number(statement.advancePayments)), { align: 'right' });
+  y += 6;
+  pdf.rule(380, RIGHT, y);
+  y += 14;
+  pdf.text(LEFT, y, balance > 0 ? 'Nachzahlung' : 'Guthaben', { bold: true });
+  pdf.text(RIGHT, y, formatMoney(Math.abs(balance)), { bold: true, align: 'right' });
+  y += 32;
+
+  const notes = [
+    'Kosten, die auf leerstehende Einheiten entfallen, trägt der Vermieter.',
+    ...(statement.lines.some(line => line.estimated)
+      ? ['* Verbrauch mangels Ablesung geschätzt (§ 9a HeizkostenV).']
+      : []),
+    ...(options.co2
+      ? [
+        `CO2-Kosten in Ihren Heizkosten: ${formatMoney(Number(statement.co2Costs))}. Das Gebäude verursacht ` +
+        `${formatBasis(options.co2.emissionsPerArea)} kg CO2 je m² und Jahr;`,
+        `der Vermieter trägt danach ${options.co2.landlordPercentage} % der CO2-Kosten (CO2KostAufG).`,
+      ]
+      : []),
+    'Die Belege zu dieser Abrechnung können Sie nach Terminvereinbarung bei uns einsehen.',
+  ];
+  if (balance > 0) {
+    notes.unshift(
+      'Bitte überweisen Sie die Nachzahlung innerhalb von 30 Tagen nach Zugang dieser Abrechnung' +
+      (landlord.bankIban ? ` auf das Konto ${landlord.bankIban}` : ''),
+      `unter Angabe der Vertragsnummer ${contract.contractNumber}.`
+    );
+  } else if (balance < 0) {
+    notes.unshift('Das Guthaben wird Ihrem Mietkonto gutgeschrieben.');
+  }
+
+  for (const note of notes) {
+    pdf.text(LEFT, y, note, { size: 9 });
+    y += 13;
+  }
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,124 @@
+// src/lib/pdf/index.ts
+// Minimal PDF 1.4 writer for text documents: A4 pages, the standard Helvetica fonts
+// in WinAnsi encoding and horizontal rules. Enough for statements and letters
+// without a rendering dependency.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+// Characters outside Latin-1 that WinAnsi (cp1252) places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+// Helvetica advance widths (1/1000 em) of the characters amounts are made of; other
+// characters use an average width, so only numbers align exactly
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278, '.': 278, ',': 278, ':': 278, '/': 278, '-': 333, '(': 333, ')': 333, '%': 889, '€': 556,
+};
+const AVERAGE_WIDTH = 556;
+
+function encode(text: string): string {
+  return Array.from(text)
+    .map(char => {
+      const code = char.charCodeAt(0);
+      const byte = WIN_ANSI_EXTRAS[char] ?? (code >= 0x20 && code <= 0xff && (code < 0x7f || code >= 0xa0) ? code : 0x3f);
+      const encoded = String.fromCharCode(byte);
+      return encoded === '(' || encoded === ')' || encoded === '\\' ? `\\${encoded}` : encoded;
+    })
+    .join('');
+}
+
+/**
+ * Approximate width of a text in points
+ */
+export function getTextWidth(text: string, size: number): number {
+  return Array.from(text).reduce((width, char) => width + (CHAR_WIDTHS[char] ?? AVERAGE_WIDTH), 0) * size / 1000;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Start a new page; following output goes there
+   */
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /**
+   * Write a line of text. Coordinates are in points from the top left corner;
+   * y is the baseline.
+   */
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const { size = 10, bold = false, align = 'left' } = options;
+    const left = align === 'right' ? x - getTextWidth(text, size) : x;
+
+    this.current.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${encode(text)}) Tj ET`
+    );
+  }
+
+  /**
+   * Draw a horizontal rule
+   */
+  rule(x1: number, x2: number, y: number, width = 0.5): void {
+    const top = (PAGE_HEIGHT - y).toFixed(2);
+    this.current.push(`${width} w ${x1.toFixed(2)} ${top} m ${x2.toFixed(2)} ${top} l S`);
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects[pageIds[index]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[pageIds[index] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    output += offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
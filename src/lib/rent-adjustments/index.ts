@@ -0,0 +1,84 @@
+// src/lib/rent-adjustments/index.ts
+// Rules for changing the rent of a running contract: graduated rent (§ 557a BGB),
+// index rent (§ 557b BGB) and increases up to the local comparative rent (§§ 558 ff. BGB).
+// Rent changes always take effect on the first day of a month.
+
+import type { RentAdjustment, RentAdjustmentType } from '../db/schema';
+import { toCents, getPeriodBounds } from '../ledger';
+
+// Graduated and index rent stay unchanged for at least a year (§ 557a Abs. 2, § 557b Abs. 2 BGB)
+export const MIN_MONTHS_BETWEEN_CHANGES = 12;
+
+// Increases up to the comparative rent need the rent unchanged for 15 months (§ 558 Abs. 1 BGB)
+export const MIN_MONTHS_BEFORE_INCREASE = 15;
+
+// ...and may not exceed 20% within three years (Kappungsgrenze, § 558 Abs. 3 BGB)
+export const CAPPING_LIMIT_PERCENTAGE = 20;
+export const CAPPING_PERIOD_MONTHS = 36;
+
+export const RENT_ADJUSTMENT_TYPE_LABELS: Record<RentAdjustmentType, string> = {
+  graduated: 'Staffelmiete',
+  index: 'Indexmiete',
+  manual: 'Mieterhöhung',
+};
+
+export type RentChange = Pick<RentAdjustment, 'effectiveDate' | 'previousRent' | 'newRent' | 'status'>;
+
+/**
+ * First day of the month of a date, moved by a number of months, in UTC
+ */
+export function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+/**
+ * Whole calendar months from one date to another
+ */
+export function monthsBetween(from: Date, to: Date): number {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+}
+
+export function isFirstOfMonth(date: Date): boolean {
+  return date.getUTCDate() === 1 && date.getTime() === addMonths(date, 0).getTime();
+}
+
+/**
+ * Earliest date a change announced on a date can take effect. Index rent is owed from
+ * the month after next (§ 557b Abs. 3 BGB), an increase up to the comparative rent
+ * from the third month after the request (§ 558b Abs. 1 BGB). Graduated steps are
+ * agreed in the contract and need no notice.
+ */
+export function getEarliestEffectiveDate(type: RentAdjustmentType, noticeDate: Date): Date {
+  switch (type) {
+    case 'index':
+      return addMonths(noticeDate, 2);
+    case 'manual':
+      return addMonths(noticeDate, 3);
+    case 'graduated':
+      return addMonths(noticeDate, 0);
+  }
+}
+
+/**
+ * Rent after an index change: the rent changes by the same percentage as the index
+ */
+export function calculateIndexedRent(rentCents: number, baseIndexValue: number, indexValue: number): number {
+  return Math.round((rentCents * indexValue) / baseIndexValue);
+}
+
+/**
+ * Monthly rent owed for a period. Changes that are not cancelled count from their
+ * effective date on, whether the worker has applied them yet or not; before the
+ * first change the contract ran at its previous rent.
+ */
+export function getRentForPeriod(currentRentCents: number, changes: RentChange[], period: string): number {
+  const { start } = getPeriodBounds(period);
+  const active = changes
+    .filter(change => change.status !== 'cancelled')
+    .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+  if (active.length === 0) return currentRentCents;
+
+  const latest = active.filter(change => change.effectiveDate <= start).pop();
+  return toCents(latest ? latest.newRent : active[0].previousRent);
+}
@@ -0,0 +1,153 @@
+// src/lib/rent-adjustments/notice-pdf.ts
+// Renders the letter announcing a rent change to the tenants.
+
+import type { Building, Contract, Organization, RentAdjustment } from '../db/schema';
+import { PdfDocument, PAGE_WIDTH } from '../pdf';
+import { toCents } from '../ledger';
+import { addMonths } from './index';
+
+export interface RentNoticePdfOptions {
+  landlord: Pick<Organization, 'name' | 'address' | 'postalCode' | 'city'>;
+  tenantNames: string[];
+  building: Pick<Building, 'name' | 'address' | 'postalCode' | 'city'>;
+  contract: Pick<Contract, 'contractNumber' | 'unitNumber'>;
+  adjustment: Pick<
+    RentAdjustment,
+    'type' | 'effectiveDate' | 'previousRent' | 'newRent' | 'baseIndexPeriod' | 'baseIndexValue' |
+    'indexPeriod' | 'indexValue' | 'reason' | 'noticeDate'
+  >;
+}
+
+const LEFT = 56;
+const RIGHT = PAGE_WIDTH - 56;
+const LINE_LENGTH = 95;
+
+const TITLES: Record<RentAdjustment['type'], string> = {
+  index: 'Anpassung der Miete nach der Indexvereinbarung (§ 557b BGB)',
+  graduated: 'Hinweis auf die nächste Mietstaffel (§ 557a BGB)',
+  manual: 'Mieterhöhungsverlangen (§ 558 BGB)',
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('de-DE', { timeZone: 'UTC', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(amount);
+
+const formatNumber = (value: number, digits: number) =>
+  new Intl.NumberFormat('de-DE', { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+const formatPeriod = (period: string | null) => (period ? `${period.slice(5, 7)}/${period.slice(0, 4)}` : '');
+
+// Break a paragraph into lines of at most LINE_LENGTH characters
+function wrap(text: string): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > LINE_LENGTH) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+
+  return line ? [...lines, line] : lines;
+}
+
+/**
+ * Build the notice document
+ */
+export function renderRentNoticePdf(options: RentNoticePdfOptions): Buffer {
+  const { landlord, tenantNames, building, contract, adjustment } = options;
+  const pdf = new PdfDocument();
+  const issuedAt = adjustment.noticeDate || new Date();
+  const effective = formatDate(adjustment.effectiveDate);
+  const previousRent = toCents(adjustment.previousRent) / 100;
+  const newRent = toCents(adjustment.newRent) / 100;
+  let y = 60;
+
+  const sender = [landlord.name, landlord.address, [landlord.postalCode, landlord.city].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(' · ');
+  pdf.text(LEFT, y, sender, { size: 8 });
+  pdf.text(RIGHT, 100, formatDate(issuedAt), { align: 'right' });
+
+  y = 100;
+  for (const line of [...tenantNames, building.address, `${building.postalCode} ${building.city}`]) {
+    pdf.text(LEFT, y, line);
+    y += 14;
+  }
+
+  y = 210;
+  pdf.text(LEFT, y, TITLES[adjustment.type], { size: 14, bold: true });
+  y += 24;
+  pdf.text(LEFT, y, `Objekt: ${building.name}, ${building.address}, Wohnung ${contract.unitNumber}`);
+  y += 14;
+  pdf.text(LEFT, y, `Mietvertrag: ${contract.contractNumber}`);
+  y += 28;
+
+  const paragraph = (text: string) => {
+    for (const line of wrap(text)) {
+      pdf.text(LEFT, y, line);
+      y += 14;
+    }
+    y += 8;
+  };
+
+  const row = (label: string, value: string, bold = false) => {
+    pdf.text(LEFT, y, label, { bold });
+    pdf.text(RIGHT, y, value, { bold, align: 'right' });
+    y += 16;
+  };
+
+  paragraph('Sehr geehrte Damen und Herren,');
+
+  if (adjustment.type === 'index') {
+    const baseValue = Number(adjustment.baseIndexValue);
+    const indexValue = Number(adjustment.indexValue);
+
+    paragraph(
+      'nach der in Ihrem Mietvertrag vereinbarten Indexmiete folgt die Nettokaltmiete der Entwicklung des vom ' +
+      'Statistischen Bundesamt ermittelten Verbraucherpreisindex für Deutschland (VPI). ' +
+      `Wir passen die Miete daher wie folgt an; die geänderte Miete ist ab dem ${effective} zu zahlen.`
+    );
+    row(`Index bei der letzten Festsetzung der Miete (${formatPeriod(adjustment.baseIndexPeriod)})`, formatNumber(baseValue, 1));
+    row(`Aktueller Index (${formatPeriod(adjustment.indexPeriod)})`, formatNumber(indexValue, 1));
+    row('Veränderung des Index', `${formatNumber(((indexValue - baseValue) / baseValue) * 100, 2)} %`);
+  } else if (adjustment.type === 'graduated') {
+    paragraph(
+      'nach der in Ihrem Mietvertrag vereinbarten Staffelmiete ändert sich die Nettokaltmiete zum ' +
+      `${effective}. Einer gesonderten Erklärung bedarf es nicht; bitte passen Sie einen Dauerauftrag ` +
+      'rechtzeitig an.'
+    );
+  } else {
+    // Consent is due by the end of the second month after the request (§ 558b Abs. 2 BGB)
+    const consentDeadline = new Date(addMonths(issuedAt, 3).getTime() - 24 * 60 * 60 * 1000);
+
+    paragraph(
+      `wir bitten Sie, einer Erhöhung der Nettokaltmiete bis zur ortsüblichen Vergleichsmiete zum ${effective} ` +
+      'zuzustimmen. Die Miete ist zu diesem Zeitpunkt seit mindestens 15 Monaten unverändert.'
+    );
+    if (adjustment.reason) {
+      paragraph(`Begründung: ${adjustment.reason}`);
+    }
+    paragraph(
+      `Bitte erklären Sie Ihre Zustimmung bis zum ${formatDate(consentDeadline)} schriftlich oder in Textform.`
+    );
+  }
+
+  y += 4;
+  pdf.rule(LEFT, RIGHT, y - 12);
+  row('Bisherige Nettokaltmiete', formatMoney(previousRent));
+  row(`Neue Nettokaltmiete ab ${effective}`, formatMoney(newRent), true);
+  row(newRent >= previousRent ? 'Erhöhung' : 'Senkung', formatMoney(Math.abs(newRent - previousRent)));
+  y += 16;
+
+  paragraph('Vorauszahlungen auf die Betriebskosten bleiben unverändert.');
+  paragraph('Mit freundlichen Grüßen');
+  pdf.text(LEFT, y, landlord.name);
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,131 @@
+// src/lib/sepa/index.ts
+// Validation of SEPA identifiers and the business day calendar of SEPA collections.
+
+export { buildPain008, type Pain008Options, type Pain008Transaction } from './pain008';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20, ES: 24,
+  FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26, IT: 27, LI: 21,
+  LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25, RO: 24, SE: 24,
+  SI: 19, SK: 24, SM: 27, VA: 22,
+};
+
+/**
+ * Remove spaces and uppercase, e.g. "de89 3704 0044" -> "DE8937040044"
+ */
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+// ISO 7064 MOD 97-10 over a string of digits and letters (A = 10 ... Z = 35)
+function mod97(value: string): number {
+  const digits = value.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(`${remainder}${digits.slice(i, i + 7)}`) % 97;
+  }
+  return remainder;
+}
+
+/**
+ * Whether an IBAN of a SEPA country has the right length and check digits
+ */
+export function isValidIban(iban: string): boolean {
+  const value = normalizeIban(iban);
+  const length = IBAN_LENGTHS[value.slice(0, 2)];
+
+  if (!length || value.length !== length || !/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(value)) return false;
+  return mod97(value.slice(4) + value.slice(0, 4)) === 1;
+}
+
+/**
+ * Whether a BIC has the 8 or 11 character format
+ */
+export function isValidBic(bic: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic.replace(/\s+/g, '').toUpperCase());
+}
+
+/**
+ * Whether a SEPA creditor identifier (e.g. DE98ZZZ09999999999) has valid check digits.
+ * The creditor business code (positions 5-7) is not part of the checksum.
+ */
+export function isValidCreditorId(creditorId: string): boolean {
+  const value = creditorId.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{3}[A-Z0-9]{1,28}$/.test(value)) return false;
+  if (value.startsWith('DE') && value.length !== 18) return false;
+
+  return mod97(value.slice(7) + value.slice(0, 4)) === 1;
+}
+
+/**
+ * Reduce text to the SEPA character set, transliterating German umlauts
+ */
+export function toSepaText(text: string, maxLength: number): string {
+  return text
+    .replace(/Ä/g, 'Ae').replace(/Ö/g, 'Oe').replace(/Ü/g, 'Ue')
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+}
+
+// Easter Sunday (anonymous Gregorian algorithm), in UTC
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Whether SEPA collections settle on a date: weekdays except the TARGET2 holidays
+ * (New Year, Good Friday, Easter Monday, 1 May, 25 and 26 December)
+ */
+export function isTargetDay(date: Date): boolean {
+  const weekday = date.getUTCDay();
+  if (weekday === 0 || weekday === 6) return false;
+
+  const monthDay = `${date.getUTCMonth() + 1}-${date.getUTCDate()}`;
+  if (['1-1', '5-1', '12-25', '12-26'].includes(monthDay)) return false;
+
+  const easter = getEasterSunday(date.getUTCFullYear()).getTime();
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+  return day !== easter - 2 * DAY_MS && day !== easter + DAY_MS;
+}
+
+/**
+ * Earliest collection date on or after the given date that is a TARGET day
+ * and at least one TARGET day after today (D-1 submission for CORE direct debits)
+ */
+export function getCollectionDate(requested: Date, today = new Date()): Date {
+  const earliest = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+  do {
+    earliest.setUTCDate(earliest.getUTCDate() + 1);
+  } while (!isTargetDay(earliest));
+
+  const date = new Date(Date.UTC(requested.getUTCFullYear(), requested.getUTCMonth(), requested.getUTCDate()));
+  if (date < earliest) date.setTime(earliest.getTime());
+  while (!isTargetDay(date)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+
+  return date;
+}
@@ -0,0 +1,116 @@
+// src/lib/sepa/pain008.ts
+// Builds ISO 20022 pain.008.001.08 customer direct debit initiation files (SEPA CORE).
+
+export interface Pain008Transaction {
+  endToEndId: string;
+  amountCents: number;
+  mandateId: string;
+  mandateSignatureDate: Date;
+  sequenceType: 'FRST' | 'RCUR';
+  debtorName: string;
+  debtorIban: string;
+  debtorBic?: string | null;
+  remittanceInformation: string;
+}
+
+export interface Pain008Options {
+  messageId: string;
+  createdAt: Date;
+  collectionDate: Date;
+  creditor: {
+    name: string;
+    iban: string;
+    bic?: string | null;
+    creditorId: string;
+  };
+  transactions: Pain008Transaction[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+const formatAmount = (cents: number) => (cents / 100).toFixed(2);
+
+// Agents without a known BIC are identified as NOTPROVIDED (IBAN-only)
+function agent(bic?: string | null): string {
+  return bic
+    ? `<FinInstnId><BICFI>${escapeXml(bic)}</BICFI></FinInstnId>`
+    : '<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>';
+}
+
+function transactionXml(transaction: Pain008Transaction): string {
+  return [
+    '<DrctDbtTxInf>',
+    `<PmtId><EndToEndId>${escapeXml(transaction.endToEndId)}</EndToEndId></PmtId>`,
+    `<InstdAmt Ccy="EUR">${formatAmount(transaction.amountCents)}</InstdAmt>`,
+    '<DrctDbtTx><MndtRltdInf>',
+    `<MndtId>${escapeXml(transaction.mandateId)}</MndtId>`,
+    `<DtOfSgntr>${formatDate(transaction.mandateSignatureDate)}</DtOfSgntr>`,
+    '</MndtRltdInf></DrctDbtTx>',
+    `<DbtrAgt>${agent(transaction.debtorBic)}</DbtrAgt>`,
+    `<Dbtr><Nm>${escapeXml(transaction.debtorName)}</Nm></Dbtr>`,
+    `<DbtrAcct><Id><IBAN>${transaction.debtorIban}</IBAN></Id></DbtrAcct>`,
+    `<RmtInf><Ustrd>${escapeXml(transaction.remittanceInformation)}</Ustrd></RmtInf>`,
+    '</DrctDbtTxInf>',
+  ].join('');
+}
+
+/**
+ * Build the XML document. Transactions are grouped into one payment information
+ * block per sequence type, as first and recurring collections may not be mixed.
+ */
+export function buildPain008(options: Pain008Options): string {
+  const { messageId, createdAt, collectionDate, creditor, transactions } = options;
+  const total = transactions.reduce((sum, transaction) => sum + transaction.amountCents, 0);
+
+  const paymentInformation = (['FRST', 'RCUR'] as const)
+    .map(sequenceType => ({
+      sequenceType,
+      items: transactions.filter(transaction => transaction.sequenceType === sequenceType),
+    }))
+    .filter(({ items }) => items.length > 0)
+    .map(({ sequenceType, items }) => [
+      '<PmtInf>',
+      `<PmtInfId>${escapeXml(`${messageId}-${sequenceType}`)}</PmtInfId>`,
+      '<PmtMtd>DD</PmtMtd>',
+      '<BtchBookg>true</BtchBookg>',
+      `<NbOfTxs>${items.length}</NbOfTxs>`,
+      `<CtrlSum>${formatAmount(items.reduce((sum, item) => sum + item.amountCents, 0))}</CtrlSum>`,
+      '<PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl><LclInstrm><Cd>CORE</Cd></LclInstrm>',
+      `<SeqTp>${sequenceType}</SeqTp></PmtTpInf>`,
+      `<ReqdColltnDt>${formatDate(collectionDate)}</ReqdColltnDt>`,
+      `<Cdtr><Nm>${escapeXml(creditor.name)}</Nm></Cdtr>`,
+      `<CdtrAcct><Id><IBAN>${creditor.iban}</IBAN></Id></CdtrAcct>`,
+      `<CdtrAgt>${agent(creditor.bic)}</CdtrAgt>`,
+      '<ChrgBr>SLEV</ChrgBr>',
+      '<CdtrSchmeId><Id><PrvtId><Othr>',
+      `<Id>${escapeXml(creditor.creditorId)}</Id>`,
+      '<SchmeNm><Prtry>SEPA</Prtry></SchmeNm>',
+      '</Othr></PrvtId></Id></CdtrSchmeId>',
+      ...items.map(transactionXml),
+      '</PmtInf>',
+    ].join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.008.001.08" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '<CstmrDrctDbtInitn>',
+    '<GrpHdr>',
+    `<MsgId>${escapeXml(messageId)}</MsgId>`,
+    `<CreDtTm>${createdAt.toISOString().slice(0, 19)}</CreDtTm>`,
+    `<NbOfTxs>${transactions.length}</NbOfTxs>`,
+    `<CtrlSum>${formatAmount(total)}</CtrlSum>`,
+    `<InitgPty><Nm>${escapeXml(creditor.name)}</Nm></InitgPty>`,
+    '</GrpHdr>',
+    ...paymentInformation,
+    '</CstmrDrctDbtInitn>',
+    '</Document>',
+  ].join('\n');
+}
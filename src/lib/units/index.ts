@@ -0,0 +1,56 @@
+// src/lib/units/index.ts
+// Vacancy of units. A unit is let on the days a contract covers, from its start date up to
+// and including its end date. Contracts without an end date run until they are deactivated.
+
+import type { Contract } from '../db/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UnitTenancy = Pick<Contract, 'id' | 'contractNumber' | 'startDate' | 'endDate' | 'isActive'>;
+
+export interface UnitOccupancy<T extends UnitTenancy> {
+  status: 'occupied' | 'vacant';
+  currentContract: T | null;
+  nextContract: T | null; // Earliest contract starting after the date
+  vacantSince: Date | null; // Day after the last contract ended, null if occupied or never let
+}
+
+type DateRange = Pick<UnitTenancy, 'startDate' | 'endDate' | 'isActive'>;
+
+/**
+ * Whether a contract was deactivated without an end date, i.e. cancelled before it ran
+ */
+function isCancelled(contract: DateRange): boolean {
+  return contract.isActive === false && !contract.endDate;
+}
+
+/**
+ * Whether a contract covers any day from a start date up to an optional end date
+ */
+export function overlapsRange(contract: DateRange, startDate: Date, endDate: Date | null = startDate): boolean {
+  if (isCancelled(contract)) return false;
+  return (!endDate || contract.startDate <= endDate) && (!contract.endDate || contract.endDate >= startDate);
+}
+
+/**
+ * Occupancy of a unit on a date, derived from the date ranges of its contracts
+ */
+export function getUnitOccupancy<T extends UnitTenancy>(contracts: T[], asOf: Date = new Date()): UnitOccupancy<T> {
+  const tenancies = contracts
+    .filter(contract => !isCancelled(contract))
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  const currentContract = tenancies.find(contract => overlapsRange(contract, asOf)) || null;
+  const nextContract = tenancies.find(contract => contract.startDate > asOf) || null;
+
+  const endDates = tenancies
+    .filter(contract => contract.endDate && contract.endDate < asOf)
+    .map(contract => contract.endDate?.getTime() || 0);
+
+  return {
+    status: currentContract ? 'occupied' : 'vacant',
+    currentContract,
+    nextContract,
+    vacantSince: !currentContract && endDates.length > 0 ? new Date(Math.max(...endDates) + DAY_MS) : null,
+  };
+}
@@ -0,0 +1,234 @@
+// src/lib/webhooks/deliveries.ts
+import { randomUUID } from 'crypto';
+import { request } from 'https';
+import { eq, and, inArray, lte, sql } from 'drizzle-orm';
+import { db, systemDb } from '../db/db';
+import {
+  webhookSubscriptions,
+  webhookDeliveries,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookSubscription,
+} from '../db/schema';
+import {
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+} from './signing';
+import { assertPublicWebhookUrl, lookupPublicAddress } from './targets';
+
+// A claimed delivery is retried by another worker if it is still "delivering" after this long
+const DELIVERING_LEASE_MINUTES = 5;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 12 * 60 * 60;
+
+/**
+ * Seconds to wait before the next attempt: 30s, 1m, 2m, 4m ... capped at 12 hours
+ */
+export function getWebhookRetryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+}
+
+/**
+ * Queue one delivery per active subscription of the organization for each event.
+ * Subscriptions are looked up as the connection owner, since only admins may read them
+ * under row-level security. The insert runs in a transaction of its own, which inside a
+ * request transaction is a savepoint: a failure rolls back only the queueing and leaves
+ * the caller's transaction usable. Returns the number of deliveries queued.
+ */
+export async function queueWebhookEvents(
+  organizationId: string,
+  event: WebhookEvent,
+  items: unknown[]
+): Promise<number> {
+  if (items.length === 0) return 0;
+
+  const subscriptions = await systemDb
+    .select({ id: webhookSubscriptions.id })
+    .from(webhookSubscriptions)
+    .where(
+      and(
+        eq(webhookSubscriptions.organizationId, organizationId),
+        eq(webhookSubscriptions.isActive, true),
+        sql`${event} = ANY(${webhookSubscriptions.events})`
+      )
+    );
+
+  if (subscriptions.length === 0) return 0;
+
+  const createdAt = new Date().toISOString();
+  const values = items.flatMap(data => {
+    const eventId = randomUUID();
+    const payload = { id: eventId, event, createdAt, organizationId, data };
+
+    return subscriptions.map(subscription => ({
+      organizationId,
+      subscriptionId: subscription.id,
+      event,
+      eventId,
+      payload,
+    }));
+  });
+
+  await db.transaction(async (tx) => {
+    await tx.insert(webhookDeliveries).values(values);
+  });
+
+  return values.length;
+}
+
+/**
+ * Claim due deliveries so that concurrent workers never send the same one twice
+ */
+async function claimDueDeliveries(batchSize: number): Promise<WebhookDelivery[]> {
+  const leaseUntil = new Date(Date.now() + DELIVERING_LEASE_MINUTES * 60 * 1000);
+
+  const due = db
+    .select({ id: webhookDeliveries.id })
+    .from(webhookDeliveries)
+    .where(
+      and(
+        inArray(webhookDeliveries.status, ['pending', 'delivering']),
+        lte(webhookDeliveries.nextAttemptAt, new Date())
+      )
+    )
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(batchSize)
+    .for('update', { skipLocked: true });
+
+  return await db
+    .update(webhookDeliveries)
+    .set({
+      status: 'delivering',
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      nextAttemptAt: leaseUntil,
+    })
+    .where(inArray(webhookDeliveries.id, due))
+    .returning();
+}
+
+/**
+ * POST the signed payload to the subscriber. Resolves with the response status; the
+ * response body is discarded. Network errors, timeouts and non-public hosts reject.
+ */
+async function sendWebhook(delivery: WebhookDelivery, subscription: WebhookSubscription) {
+  // The URL was checked when it was saved; the host may resolve differently by now
+  await assertPublicWebhookUrl(subscription.url);
+
+  const body = JSON.stringify(delivery.payload);
+
+  const status = await new Promise<number>((resolve, reject) => {
+    const outgoing = request(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        'User-Agent': 'TenantBridge-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, body),
+      },
+      // Checks the address actually connected to; redirects are not followed
+      lookup: lookupPublicAddress,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+
+    outgoing.on('error', reject);
+    outgoing.end(body);
+  });
+
+  return { status, ok: status >= 200 && status < 300 };
+}
+
+/**
+ * Deliver due webhooks. Failed deliveries are rescheduled with exponential
+ * backoff until they reach their maximum attempts.
+ */
+export async function processWebhookDeliveries(batchSize = 20) {
+  const deliveries = await claimDueDeliveries(batchSize);
+  const result = { processed: deliveries.length, delivered: 0, retried: 0, failed: 0 };
+  if (deliveries.length === 0) return result;
+
+  const subscriptionIds = Array.from(new Set(deliveries.map(delivery => delivery.subscriptionId)));
+  const subscriptions = await db
+    .select()
+    .from(webhookSubscriptions)
+    .where(inArray(webhookSubscriptions.id, subscriptionIds));
+  const subscriptionsById = new Map(subscriptions.map(subscription => [subscription.id, subscription]));
+
+  for (const delivery of deliveries) {
+    const subscription = subscriptionsById.get(delivery.subscriptionId);
+    let responseStatus: number | null = null;
+    let lastError: string;
+
+    try {
+      if (!subscription?.isActive) {
+        throw new Error('Subscription is disabled');
+      }
+
+      const response = await sendWebhook(delivery, subscription);
+      responseStatus = response.status;
+
+      if (response.ok) {
+        await db
+          .update(webhookDeliveries)
+          .set({ status: 'delivered', deliveredAt: new Date(), responseStatus, lastError: null })
+          .where(eq(webhookDeliveries.id, delivery.id));
+
+        result.delivered++;
+        continue;
+      }
+
+      lastError = `Endpoint responded with HTTP ${response.status}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    // Disabled subscriptions are not retried
+    const exhausted = delivery.attempts >= delivery.maxAttempts || !subscription?.isActive;
+    const nextAttemptAt = new Date(Date.now() + getWebhookRetryDelaySeconds(delivery.attempts) * 1000);
+
+    await db
+      .update(webhookDeliveries)
+      .set(
+        exhausted
+          ? { status: 'failed', responseStatus, lastError }
+          : { status: 'pending', responseStatus, lastError, nextAttemptAt }
+      )
+      .where(eq(webhookDeliveries.id, delivery.id));
+
+    console.error(`Failed to deliver webhook ${delivery.id} (attempt ${delivery.attempts}):`, lastError);
+
+    if (exhausted) {
+      result.failed++;
+    } else {
+      result.retried++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Put a failed delivery back into the queue
+ */
+export async function retryWebhookDelivery(id: string, organizationId: string): Promise<WebhookDelivery | null> {
+  const [delivery] = await db
+    .update(webhookDeliveries)
+    .set({ status: 'pending', attempts: 0, nextAttemptAt: new Date() })
+    .where(
+      and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.organizationId, organizationId),
+        eq(webhookDeliveries.status, 'failed')
+      )
+    )
+    .returning();
+
+  return delivery || null;
+}
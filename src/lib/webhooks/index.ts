@@ -0,0 +1,54 @@
+// src/lib/webhooks/index.ts
+import type { Contract, ConsumptionAnomaly, ConsumptionRecord, Ticket, User, WebhookEvent } from '../db/schema';
+import { queueWebhookEvents } from './deliveries';
+
+// The data object sent with each event
+export interface WebhookEventData {
+  'ticket.created': { ticket: Ticket };
+  'ticket.status_changed': { ticket: Ticket; previousStatus: string | null };
+  'contract.terminated': { contract: Contract; reason?: string };
+  'consumption.recorded': { record: ConsumptionRecord };
+  'consumption.anomaly_detected': { anomaly: ConsumptionAnomaly };
+  'invitation.accepted': {
+    contractId: string;
+    tenant: Pick<User, 'id' | 'email' | 'name'>;
+  };
+}
+
+/**
+ * Queue an event (or one event per item) for the organization's subscribed webhooks.
+ * The deliveries commit with the caller's transaction. Queueing runs in a savepoint,
+ * so a failure is rolled back on its own and logged rather than failing the domain operation.
+ */
+export async function emitWebhookEvent<E extends WebhookEvent>(
+  organizationId: string,
+  event: E,
+  data: WebhookEventData[E] | WebhookEventData[E][]
+): Promise<number> {
+  try {
+    return await queueWebhookEvents(organizationId, event, Array.isArray(data) ? data : [data]);
+  } catch (error) {
+    console.error(`Failed to queue ${event} webhooks:`, error);
+    return 0;
+  }
+}
+
+export {
+  queueWebhookEvents,
+  processWebhookDeliveries,
+  retryWebhookDelivery,
+  getWebhookRetryDelaySeconds,
+} from './deliveries';
+export {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_DELIVERY_HEADER,
+} from './signing';
+export {
+  assertPublicWebhookUrl,
+  getWebhookUrlProblem,
+  WebhookTargetError,
+} from './targets';
@@ -0,0 +1,51 @@
+// src/lib/webhooks/signing.ts
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-TenantBridge-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-TenantBridge-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-TenantBridge-Delivery';
+
+// Receivers should reject signatures older than this to prevent replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+function computeSignature(secret: string, body: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Signature header value: t=<unix seconds>,v1=<HMAC-SHA256 of "<t>.<body>">
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(secret, body, timestamp)}`;
+}
+
+/**
+ * Check a signature header against the raw request body, as a receiver would
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map(part => part.split('=', 2) as [string, string])
+  );
+  const timestamp = Number(parts.t);
+
+  if (!timestamp || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(computeSignature(secret, body, timestamp), 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
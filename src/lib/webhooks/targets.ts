@@ -0,0 +1,138 @@
+// src/lib/webhooks/targets.ts
+// Webhook URLs are chosen by customers but fetched from our servers, so they must not reach
+// loopback, private, link-local or other internal addresses. Hosts are checked when a
+// subscription is saved and again on every connection, after DNS resolution.
+import { lookup as dnsLookup, promises as dns } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are checked against the IPv4 subnets
+const BLOCKED_ADDRESSES = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64], // Discard
+  ['2001:db8::', 32], // Documentation
+  ['fc00::', 7], // Unique local, including fd00:ec2::254
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookTargetError';
+  }
+}
+
+/**
+ * Whether an IP address is not publicly routable
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a webhook URL is not allowed, judged without DNS, or null if it may be used
+ */
+export function getWebhookUrlProblem(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URLs must use HTTPS';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Webhook URLs must not contain credentials';
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return 'Webhook URLs must point to a public host';
+  }
+  if (isIP(host) && isBlockedAddress(host)) {
+    return 'Webhook URLs must point to a public host';
+  }
+
+  return null;
+}
+
+/**
+ * Check a webhook URL including the addresses its host resolves to.
+ * Throws WebhookTargetError if any of them is not public.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const problem = getWebhookUrlProblem(url);
+  if (problem) {
+    throw new WebhookTargetError(problem);
+  }
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return;
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await dns.lookup(host, { all: true });
+  } catch {
+    throw new WebhookTargetError(`The webhook host ${host} could not be resolved`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new WebhookTargetError('Webhook URLs must point to a public host');
+  }
+}
+
+/**
+ * DNS lookup for outgoing webhook connections that refuses non-public addresses. Used as
+ * the connection's lookup, it checks the address actually connected to, so a host that
+ * resolves differently after the URL was checked (DNS rebinding) is still refused.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new WebhookTargetError(`The webhook host ${hostname} resolves to a non-public address`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
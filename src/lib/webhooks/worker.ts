@@ -0,0 +1,37 @@
+// src/lib/webhooks/worker.ts
+import { processWebhookDeliveries } from './deliveries';
+
+/**
+ * One worker run: drain all due webhook deliveries.
+ * Meant to be triggered periodically (cron, scheduled job).
+ */
+export async function runWebhookWorker(options: { batchSize?: number } = {}) {
+  const { batchSize = 50 } = options;
+  const totals = { processed: 0, delivered: 0, retried: 0, failed: 0 };
+
+  // Keep going until a batch comes back short, i.e. nothing more is due
+  for (;;) {
+    const result = await processWebhookDeliveries(batchSize);
+    totals.processed += result.processed;
+    totals.delivered += result.delivered;
+    totals.retried += result.retried;
+    totals.failed += result.failed;
+
+    if (result.processed < batchSize) break;
+  }
+
+  return totals;
+}
+
+// CLI script to run the worker once
+if (require.main === module) {
+  runWebhookWorker()
+    .then((totals) => {
+      console.log('Webhook worker finished:', totals);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Webhook worker failed:', error);
+      process.exit(1);
+    });
+}
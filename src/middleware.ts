@@ -1,6 +1,7 @@
 // src/middleware.ts
 import { withAuth } from 'next-auth/middleware';
 import { NextResponse } from 'next/server';
+import { getApiKeyFromHeaders } from '@/lib/api/credentials';
 
 export default withAuth(
   function middleware(req) {
@@ -11,8 +12,13 @@ export default withAuth(
     const publicRoutes = [
       '/auth/signin',
       '/auth/error',
+      '/auth/forgot-password',
+      '/auth/reset-password',
       '/api/auth',
       '/invite',
+      '/api/invite',
+      '/api/v1/openapi.json',
+      '/docs/api',
     ];
 
     // Check if current path is public
@@ -24,8 +30,21 @@ export default withAuth(
       return NextResponse.next();
     }
 
+    // Machine clients send an API key instead of a session; the route handler
+    // verifies it and its permissions against the database
+    if (!token && pathname.startsWith('/api/') && getApiKeyFromHeaders(req.headers)) {
+      return NextResponse.next();
+    }
+
     // If no token and trying to access protected route
     if (!token) {
+      // API clients get a JSON error instead of the sign-in page
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          { success: false, message: 'Authentication required', code: 'UNAUTHORIZED' },
+          { status: 401 }
+        );
+      }
       return NextResponse.redirect(new URL('/auth/signin', req.url));
     }
 
@@ -66,14 +85,24 @@ export default withAuth(
         const publicRoutes = [
           '/auth/signin',
           '/auth/error',
+          '/auth/forgot-password',
+          '/auth/reset-password',
           '/api/auth',
           '/invite',
+          '/api/invite',
+          '/api/v1/openapi.json',
+          '/docs/api',
         ];
 
         if (publicRoutes.some(route => pathname.startsWith(route))) {
           return true;
         }
 
+        // API routes answer unauthenticated requests themselves with a 401
+        if (pathname.startsWith('/api/')) {
+          return true;
+        }
+
         // Require token for all other routes
         return !!token;
       },